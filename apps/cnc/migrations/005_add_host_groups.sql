@@ -0,0 +1,33 @@
+-- Add host group + membership tables (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS host_groups (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS host_group_members (
+    group_id VARCHAR(255) NOT NULL REFERENCES host_groups(id) ON DELETE CASCADE,
+    host_fqn VARCHAR(512) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (group_id, host_fqn)
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_group_members_host_fqn ON host_group_members(host_fqn);
+
+CREATE OR REPLACE FUNCTION update_host_groups_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS trigger_host_groups_updated_at ON host_groups;
+CREATE TRIGGER trigger_host_groups_updated_at
+    BEFORE UPDATE ON host_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_host_groups_updated_at();
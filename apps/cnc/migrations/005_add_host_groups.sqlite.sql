@@ -0,0 +1,27 @@
+-- Add host group + membership tables (SQLite)
+
+CREATE TABLE IF NOT EXISTS host_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS host_group_members (
+    group_id TEXT NOT NULL,
+    host_fqn TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (group_id, host_fqn),
+    FOREIGN KEY (group_id) REFERENCES host_groups(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_group_members_host_fqn ON host_group_members(host_fqn);
+
+CREATE TRIGGER IF NOT EXISTS trigger_host_groups_updated_at
+    AFTER UPDATE ON host_groups
+    FOR EACH ROW
+BEGIN
+    UPDATE host_groups SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -0,0 +1,12 @@
+-- Add host wake dependency table (SQLite)
+
+CREATE TABLE IF NOT EXISTS host_wake_dependencies (
+    host_fqn TEXT NOT NULL,
+    depends_on_fqn TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (host_fqn, depends_on_fqn),
+    CHECK (host_fqn <> depends_on_fqn)
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_wake_dependencies_depends_on ON host_wake_dependencies(depends_on_fqn);
@@ -0,0 +1,15 @@
+-- Migration 007: Add cron and sunrise/sunset trigger columns to host_wake_schedules
+
+ALTER TABLE host_wake_schedules
+  ADD COLUMN IF NOT EXISTS cron_expression VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS solar_event VARCHAR(16),
+  ADD COLUMN IF NOT EXISTS solar_offset_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS solar_latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS solar_longitude DOUBLE PRECISION;
+
+ALTER TABLE host_wake_schedules
+  DROP CONSTRAINT IF EXISTS host_wake_schedules_frequency_check;
+
+ALTER TABLE host_wake_schedules
+  ADD CONSTRAINT host_wake_schedules_frequency_check
+  CHECK (frequency IN ('once', 'daily', 'weekly', 'weekdays', 'weekends', 'cron', 'solar'));
@@ -0,0 +1,42 @@
+-- Migration 007: Add cron and sunrise/sunset trigger columns to host_wake_schedules
+-- SQLite cannot alter the frequency CHECK constraint in place, so the table is rebuilt.
+
+BEGIN TRANSACTION;
+
+ALTER TABLE host_wake_schedules RENAME TO host_wake_schedules_legacy;
+
+CREATE TABLE host_wake_schedules (
+  id TEXT PRIMARY KEY,
+  host_fqn TEXT NOT NULL,
+  host_name TEXT NOT NULL,
+  host_mac TEXT NOT NULL,
+  scheduled_time DATETIME NOT NULL,
+  frequency TEXT NOT NULL CHECK(frequency IN ('once', 'daily', 'weekly', 'weekdays', 'weekends', 'cron', 'solar')),
+  enabled INTEGER NOT NULL DEFAULT 1 CHECK(enabled IN (0, 1)),
+  notify_on_wake INTEGER NOT NULL DEFAULT 1 CHECK(notify_on_wake IN (0, 1)),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  cron_expression TEXT,
+  solar_event TEXT CHECK(solar_event IN ('sunrise', 'sunset')),
+  solar_offset_minutes INTEGER,
+  solar_latitude REAL,
+  solar_longitude REAL,
+  last_triggered DATETIME,
+  next_trigger DATETIME,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO host_wake_schedules
+  (id, host_fqn, host_name, host_mac, scheduled_time, frequency, enabled, notify_on_wake, timezone,
+   last_triggered, next_trigger, created_at, updated_at)
+SELECT id, host_fqn, host_name, host_mac, scheduled_time, frequency, enabled, notify_on_wake, timezone,
+       last_triggered, next_trigger, created_at, updated_at
+FROM host_wake_schedules_legacy;
+
+DROP TABLE host_wake_schedules_legacy;
+
+CREATE INDEX IF NOT EXISTS idx_host_wake_schedules_host_fqn ON host_wake_schedules(host_fqn);
+CREATE INDEX IF NOT EXISTS idx_host_wake_schedules_next_trigger ON host_wake_schedules(next_trigger);
+CREATE INDEX IF NOT EXISTS idx_host_wake_schedules_enabled ON host_wake_schedules(enabled);
+
+COMMIT;
@@ -0,0 +1,4 @@
+-- Migration 008: Add action column to host_wake_schedules for scheduled sleep/shutdown
+
+ALTER TABLE host_wake_schedules
+  ADD COLUMN action TEXT NOT NULL DEFAULT 'wake' CHECK(action IN ('wake', 'sleep', 'shutdown'));
@@ -0,0 +1,19 @@
+-- Add schedule execution log table (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS host_schedule_executions (
+    id BIGSERIAL PRIMARY KEY,
+    schedule_id VARCHAR(255) NOT NULL,
+    host_fqn VARCHAR(512) NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('wake', 'sleep', 'shutdown')),
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('pending', 'succeeded', 'failed')),
+    command_id VARCHAR(255),
+    command_state VARCHAR(20),
+    correlation_id VARCHAR(255),
+    wake_verification JSONB,
+    error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_schedule_executions_schedule ON host_schedule_executions(schedule_id, attempted_at);
+CREATE INDEX IF NOT EXISTS idx_host_schedule_executions_command ON host_schedule_executions(command_id);
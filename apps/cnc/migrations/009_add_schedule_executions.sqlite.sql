@@ -0,0 +1,19 @@
+-- Add schedule execution log table (SQLite)
+
+CREATE TABLE IF NOT EXISTS host_schedule_executions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    schedule_id TEXT NOT NULL,
+    host_fqn TEXT NOT NULL,
+    action TEXT NOT NULL CHECK(action IN ('wake', 'sleep', 'shutdown')),
+    attempted_at DATETIME NOT NULL,
+    outcome TEXT NOT NULL CHECK(outcome IN ('pending', 'succeeded', 'failed')),
+    command_id TEXT,
+    command_state TEXT,
+    correlation_id TEXT,
+    wake_verification TEXT,
+    error TEXT,
+    completed_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_schedule_executions_schedule ON host_schedule_executions(schedule_id, attempted_at);
+CREATE INDEX IF NOT EXISTS idx_host_schedule_executions_command ON host_schedule_executions(command_id);
@@ -0,0 +1,13 @@
+-- Add exception calendars and schedule references (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS exception_calendars (
+    id VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL UNIQUE,
+    description TEXT,
+    source VARCHAR(16) NOT NULL CHECK (source IN ('dates', 'ics')),
+    dates JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS exception_calendar_ids JSONB;
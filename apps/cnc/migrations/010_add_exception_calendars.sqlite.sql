@@ -0,0 +1,13 @@
+-- Add exception calendars and schedule references (SQLite)
+
+CREATE TABLE IF NOT EXISTS exception_calendars (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    source TEXT NOT NULL CHECK(source IN ('dates', 'ics')),
+    dates TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE host_wake_schedules ADD COLUMN exception_calendar_ids TEXT;
@@ -0,0 +1,27 @@
+-- Add API keys and their usage audit (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL,
+    prefix VARCHAR(32) NOT NULL,
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    scopes JSONB NOT NULL,
+    host_fqns JSONB NOT NULL,
+    node_ids JSONB NOT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+    id SERIAL PRIMARY KEY,
+    api_key_id VARCHAR(64) NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    used_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    method VARCHAR(16) NOT NULL,
+    path VARCHAR(2048) NOT NULL,
+    ip VARCHAR(64)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_key_used_at ON api_key_usage(api_key_id, used_at);
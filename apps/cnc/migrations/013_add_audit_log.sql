@@ -0,0 +1,32 @@
+-- Add the append-only audit log (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    actor VARCHAR(255) NOT NULL,
+    actor_role VARCHAR(32),
+    action VARCHAR(64) NOT NULL,
+    target_fqn VARCHAR(512),
+    target_node_id VARCHAR(255),
+    correlation_id VARCHAR(128),
+    ip VARCHAR(64),
+    outcome VARCHAR(16) NOT NULL CHECK (outcome IN ('success', 'failure', 'denied')),
+    status_code INTEGER NOT NULL,
+    details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target_fqn ON audit_log(target_fqn);
+
+CREATE OR REPLACE FUNCTION reject_audit_log_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER audit_log_reject_update
+    BEFORE UPDATE ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION reject_audit_log_update();
@@ -0,0 +1,26 @@
+-- Add the append-only audit log (SQLite)
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    occurred_at DATETIME NOT NULL,
+    actor TEXT NOT NULL,
+    actor_role TEXT,
+    action TEXT NOT NULL,
+    target_fqn TEXT,
+    target_node_id TEXT,
+    correlation_id TEXT,
+    ip TEXT,
+    outcome TEXT NOT NULL CHECK(outcome IN ('success', 'failure', 'denied')),
+    status_code INTEGER NOT NULL,
+    details TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target_fqn ON audit_log(target_fqn);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_reject_update
+    BEFORE UPDATE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
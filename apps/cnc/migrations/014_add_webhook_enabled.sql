@@ -0,0 +1,4 @@
+-- Migration 014: Add enabled flag to webhooks so subscriptions can be paused without deleting them
+
+ALTER TABLE webhooks
+  ADD COLUMN IF NOT EXISTS enabled BOOLEAN NOT NULL DEFAULT TRUE;
@@ -0,0 +1,16 @@
+-- Migration 015: Persist webhook retries and track consecutive delivery failures for auto-disable
+
+ALTER TABLE webhooks
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_queue (
+    id BIGSERIAL PRIMARY KEY,
+    webhook_id VARCHAR(255) NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_type VARCHAR(64) NOT NULL,
+    payload JSONB NOT NULL,
+    attempt INTEGER NOT NULL CHECK (attempt >= 1),
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_queue_next_attempt_at ON webhook_delivery_queue(next_attempt_at);
@@ -0,0 +1,7 @@
+-- Migration 016: Add per-webhook payload format and message template
+
+ALTER TABLE webhooks
+  ADD COLUMN format TEXT NOT NULL DEFAULT 'raw';
+
+ALTER TABLE webhooks
+  ADD COLUMN template TEXT;
@@ -0,0 +1,7 @@
+-- Migration 017: Add the APNs environment (production or sandbox) of iOS push devices
+
+ALTER TABLE push_devices
+  ADD COLUMN IF NOT EXISTS apns_environment VARCHAR(16)
+  CHECK (apns_environment IN ('production', 'sandbox'));
+
+UPDATE push_devices SET apns_environment = 'production' WHERE platform = 'ios' AND apns_environment IS NULL;
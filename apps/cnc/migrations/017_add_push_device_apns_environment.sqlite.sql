@@ -0,0 +1,6 @@
+-- Migration 017: Add the APNs environment (production or sandbox) of iOS push devices
+
+ALTER TABLE push_devices
+  ADD COLUMN apns_environment TEXT CHECK(apns_environment IN ('production', 'sandbox'));
+
+UPDATE push_devices SET apns_environment = 'production' WHERE platform = 'ios' AND apns_environment IS NULL;
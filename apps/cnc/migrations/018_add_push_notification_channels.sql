@@ -0,0 +1,11 @@
+-- Migration 018: Allow Web Push, ntfy and email notification channels in push_devices
+
+ALTER TABLE push_devices
+  ADD COLUMN IF NOT EXISTS web_push_keys JSONB;
+
+ALTER TABLE push_devices
+  DROP CONSTRAINT IF EXISTS push_devices_platform_check;
+
+ALTER TABLE push_devices
+  ADD CONSTRAINT push_devices_platform_check
+  CHECK (platform IN ('ios', 'android', 'web', 'ntfy', 'email'));
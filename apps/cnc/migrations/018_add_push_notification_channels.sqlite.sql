@@ -0,0 +1,29 @@
+-- Migration 018: Allow Web Push, ntfy and email notification channels in push_devices
+-- SQLite cannot alter the platform CHECK constraint in place, so the table is rebuilt.
+
+BEGIN TRANSACTION;
+
+ALTER TABLE push_devices RENAME TO push_devices_legacy;
+
+CREATE TABLE push_devices (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    platform TEXT NOT NULL CHECK(platform IN ('ios', 'android', 'web', 'ntfy', 'email')),
+    token TEXT NOT NULL UNIQUE,
+    apns_environment TEXT CHECK(apns_environment IN ('production', 'sandbox')),
+    web_push_keys TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO push_devices (id, user_id, platform, token, apns_environment, created_at, updated_at, last_seen_at)
+SELECT id, user_id, platform, token, apns_environment, created_at, updated_at, last_seen_at
+FROM push_devices_legacy;
+
+DROP TABLE push_devices_legacy;
+
+CREATE INDEX IF NOT EXISTS idx_push_devices_user_id ON push_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_devices_platform ON push_devices(platform);
+
+COMMIT;
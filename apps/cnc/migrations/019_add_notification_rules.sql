@@ -0,0 +1,3 @@
+-- Migration 019: Add per-host, tag, group and node notification rules
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS rules JSONB;
@@ -0,0 +1,9 @@
+-- Migration 020: Add per-plugin key-value storage
+
+CREATE TABLE IF NOT EXISTS plugin_storage (
+    plugin_name VARCHAR(128) NOT NULL,
+    key VARCHAR(255) NOT NULL,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (plugin_name, key)
+);
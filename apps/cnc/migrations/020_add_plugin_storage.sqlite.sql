@@ -0,0 +1,9 @@
+-- Migration 020: Add per-plugin key-value storage
+
+CREATE TABLE IF NOT EXISTS plugin_storage (
+    plugin_name TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (plugin_name, key)
+);
@@ -0,0 +1,9 @@
+-- Migration 021: Add wake relay assignments for hosts on routed subnets
+
+CREATE TABLE IF NOT EXISTS host_wake_relays (
+    host_fqn VARCHAR(512) PRIMARY KEY,
+    relay_node_id VARCHAR(255) NOT NULL,
+    target_address VARCHAR(15) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,9 @@
+-- Migration 021: Add wake relay assignments for hosts on routed subnets
+
+CREATE TABLE IF NOT EXISTS host_wake_relays (
+    host_fqn TEXT PRIMARY KEY,
+    relay_node_id TEXT NOT NULL,
+    target_address TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
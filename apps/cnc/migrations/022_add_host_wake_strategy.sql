@@ -0,0 +1,4 @@
+-- Migration 022: Add host wake strategy column to aggregated_hosts
+
+ALTER TABLE aggregated_hosts
+  ADD COLUMN IF NOT EXISTS wake_strategy TEXT;
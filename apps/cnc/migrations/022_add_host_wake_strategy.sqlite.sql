@@ -0,0 +1,3 @@
+-- Migration 022: Add host wake strategy column to aggregated_hosts
+
+ALTER TABLE aggregated_hosts ADD COLUMN wake_strategy TEXT;
@@ -10,6 +10,7 @@ jest.mock('../config', () => ({
     commandTimeout: 30000,
     commandRetentionDays: 30,
     hostStatusHistoryRetentionDays: 30,
+    auditLogRetentionDays: 365,
     scheduleWorkerEnabled: true,
     schedulePollIntervalMs: 1000,
     scheduleBatchSize: 10,
@@ -77,6 +78,11 @@ jest.mock('../services/hostStatusHistoryRetention', () => ({
   stopHostStatusHistoryPruning: jest.fn(),
 }));
 
+jest.mock('../services/auditLogRetention', () => ({
+  startAuditLogPruning: jest.fn(),
+  stopAuditLogPruning: jest.fn(),
+}));
+
 jest.mock('../services/wakeScheduleWorker', () => ({
   startWakeScheduleWorker: jest.fn(),
   stopWakeScheduleWorker: jest.fn(),
@@ -51,13 +51,38 @@ describe('config parsing and validation', () => {
       SCHEDULE_POLL_INTERVAL_MS: '45000',
       SCHEDULE_BATCH_SIZE: '10',
       CNC_PLUGINS: 'webhook, custom-plugin,',
+      CNC_PLUGIN_DIR: '/opt/woly/plugins',
+      CNC_PLUGIN_PACKAGES: 'woly-plugin-a, @acme/woly-plugin-b',
+      CNC_PLUGIN_CONFIG_FILE: '/etc/woly/plugins.json',
+      MQTT_BROKER_URL: 'mqtts://broker.example.com:8883',
+      MQTT_DISCOVERY_ENABLED: 'false',
       PUSH_NOTIFICATIONS_ENABLED: 'true',
-      FCM_SERVER_KEY: 'fcm-key',
-      APNS_BEARER_TOKEN: 'apns-token',
+      FCM_SERVICE_ACCOUNT_FILE: '/run/secrets/firebase.json',
+      FCM_PROJECT_ID: 'woly-test',
+      FCM_API_BASE_URL: 'http://127.0.0.1:9099',
+      APNS_KEY_FILE: '/run/secrets/AuthKey_ABC123DEFG.p8',
+      APNS_KEY_ID: 'ABC123DEFG',
+      APNS_TEAM_ID: 'TEAM123456',
       APNS_TOPIC: 'com.example.woly',
-      APNS_HOST: 'https://api.sandbox.push.apple.com',
+      APNS_HOST: 'http://127.0.0.1:9443',
+      APNS_SANDBOX_HOST: 'http://127.0.0.1:9444',
+      WEB_PUSH_VAPID_PUBLIC_KEY: 'vapid-public',
+      WEB_PUSH_VAPID_PRIVATE_KEY: 'vapid-private',
+      WEB_PUSH_VAPID_SUBJECT: 'mailto:ops@example.com',
+      NTFY_BASE_URL: 'https://ntfy.example.com',
+      NTFY_ACCESS_TOKEN: 'tk_ntfy',
+      SMTP_HOST: 'smtp.example.com',
+      SMTP_PORT: '465',
+      SMTP_SECURE: 'true',
+      SMTP_USERNAME: 'woly',
+      SMTP_PASSWORD: 'smtp-secret',
+      SMTP_FROM: 'WoLy <woly@example.com>',
       WEBHOOK_RETRY_BASE_DELAY_MS: '2000',
       WEBHOOK_DELIVERY_TIMEOUT_MS: '8000',
+      WEBHOOK_MAX_ATTEMPTS: '6',
+      WEBHOOK_RETRY_MAX_DELAY_MS: '60000',
+      WEBHOOK_POLL_INTERVAL_MS: '2500',
+      WEBHOOK_AUTO_DISABLE_FAILURES: '0',
       OFFLINE_COMMAND_TTL_MS: '120000',
     });
 
@@ -71,13 +96,39 @@ describe('config parsing and validation', () => {
     expect(config.schedulePollIntervalMs).toBe(45000);
     expect(config.scheduleBatchSize).toBe(10);
     expect(config.enabledPlugins).toEqual(['webhook', 'custom-plugin']);
+    expect(config.pluginDirectory).toBe('/opt/woly/plugins');
+    expect(config.pluginPackages).toEqual(['woly-plugin-a', '@acme/woly-plugin-b']);
+    expect(config.pluginConfigFile).toBe('/etc/woly/plugins.json');
+    expect(config.mqttBrokerUrl).toBe('mqtts://broker.example.com:8883');
+    expect(config.mqttTopicPrefix).toBe('woly');
+    expect(config.mqttDiscoveryEnabled).toBe(false);
     expect(config.pushNotificationsEnabled).toBe(true);
-    expect(config.fcmServerKey).toBe('fcm-key');
-    expect(config.apnsBearerToken).toBe('apns-token');
+    expect(config.fcmServiceAccountFile).toBe('/run/secrets/firebase.json');
+    expect(config.fcmProjectId).toBe('woly-test');
+    expect(config.fcmApiBaseUrl).toBe('http://127.0.0.1:9099');
+    expect(config.apnsKeyFile).toBe('/run/secrets/AuthKey_ABC123DEFG.p8');
+    expect(config.apnsKeyId).toBe('ABC123DEFG');
+    expect(config.apnsTeamId).toBe('TEAM123456');
     expect(config.apnsTopic).toBe('com.example.woly');
-    expect(config.apnsHost).toBe('https://api.sandbox.push.apple.com');
+    expect(config.apnsHost).toBe('http://127.0.0.1:9443');
+    expect(config.apnsSandboxHost).toBe('http://127.0.0.1:9444');
+    expect(config.webPushVapidPublicKey).toBe('vapid-public');
+    expect(config.webPushVapidPrivateKey).toBe('vapid-private');
+    expect(config.webPushVapidSubject).toBe('mailto:ops@example.com');
+    expect(config.ntfyBaseUrl).toBe('https://ntfy.example.com');
+    expect(config.ntfyAccessToken).toBe('tk_ntfy');
+    expect(config.smtpHost).toBe('smtp.example.com');
+    expect(config.smtpPort).toBe(465);
+    expect(config.smtpSecure).toBe(true);
+    expect(config.smtpUsername).toBe('woly');
+    expect(config.smtpPassword).toBe('smtp-secret');
+    expect(config.smtpFrom).toBe('WoLy <woly@example.com>');
     expect(config.webhookRetryBaseDelayMs).toBe(2000);
     expect(config.webhookDeliveryTimeoutMs).toBe(8000);
+    expect(config.webhookMaxAttempts).toBe(6);
+    expect(config.webhookRetryMaxDelayMs).toBe(60000);
+    expect(config.webhookPollIntervalMs).toBe(2500);
+    expect(config.webhookAutoDisableFailures).toBe(0);
     expect(config.offlineCommandTtlMs).toBe(120000);
   });
 
@@ -123,6 +174,16 @@ describe('config parsing and validation', () => {
     ).rejects.toThrow('At least one OPERATOR_TOKENS entry must be configured');
   });
 
+  it('throws when OIDC_AUDIENCES includes the OIDC client id', async () => {
+    await expect(
+      loadConfig({
+        OIDC_ISSUER: 'https://idp.example.com',
+        OIDC_CLIENT_ID: 'woly-mobile',
+        OIDC_AUDIENCES: 'woly-api,woly-mobile',
+      })
+    ).rejects.toThrow('OIDC_AUDIENCES must not include OIDC_CLIENT_ID');
+  });
+
   it('throws when WS_SESSION_TOKEN_TTL_SECONDS is not greater than zero', async () => {
     await expect(
       loadConfig({
@@ -155,6 +216,14 @@ describe('config parsing and validation', () => {
     ).rejects.toThrow('OFFLINE_COMMAND_TTL_MS must be a finite number > 0');
   });
 
+  it('throws when bulk command node concurrency is not a positive integer', async () => {
+    await expect(
+      loadConfig({
+        BULK_COMMAND_NODE_CONCURRENCY: '0',
+      }),
+    ).rejects.toThrow('BULK_COMMAND_NODE_CONCURRENCY must be an integer > 0');
+  });
+
   it('throws when host status history retention is negative', async () => {
     await expect(
       loadConfig({
@@ -178,4 +247,21 @@ describe('config parsing and validation', () => {
       }),
     ).rejects.toThrow('WEBHOOK_DELIVERY_TIMEOUT_MS must be a finite number > 0');
   });
+
+  it('throws when webhook max attempts is below one', async () => {
+    await expect(
+      loadConfig({
+        WEBHOOK_MAX_ATTEMPTS: '0',
+      }),
+    ).rejects.toThrow('WEBHOOK_MAX_ATTEMPTS must be an integer >= 1');
+  });
+
+  it('throws when webhook retry max delay is below the base delay', async () => {
+    await expect(
+      loadConfig({
+        WEBHOOK_RETRY_BASE_DELAY_MS: '5000',
+        WEBHOOK_RETRY_MAX_DELAY_MS: '1000',
+      }),
+    ).rejects.toThrow('WEBHOOK_RETRY_MAX_DELAY_MS must be a finite number >= WEBHOOK_RETRY_BASE_DELAY_MS');
+  });
 });
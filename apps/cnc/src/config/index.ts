@@ -103,6 +103,29 @@ export const config: ServerConfig = {
   jwtIssuer: getEnvVar('JWT_ISSUER', 'woly-cnc'),
   jwtAudience: getEnvVar('JWT_AUDIENCE', 'woly-api'),
   jwtTtlSeconds: getEnvNumber('JWT_TTL_SECONDS', 3600),
+  refreshTokenTtlSeconds: getEnvNumber('REFRESH_TOKEN_TTL_SECONDS', 30 * 24 * 60 * 60),
+  // Optional OIDC relying party. Empty OIDC_ISSUER disables it.
+  oidcIssuer: getEnvVarOptional('OIDC_ISSUER', '').trim().replace(/\/+$/, ''),
+  oidcClientId: getEnvVarOptional('OIDC_CLIENT_ID', '').trim(),
+  oidcClientSecret: getEnvVarOptional('OIDC_CLIENT_SECRET', ''),
+  oidcAudiences: getEnvVarOptional('OIDC_AUDIENCES', '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean),
+  oidcJwksUri: getEnvVarOptional('OIDC_JWKS_URI', '').trim(),
+  oidcScopes: getEnvVarOptional('OIDC_SCOPES', 'openid profile email')
+    .split(/[\s,]+/)
+    .filter(Boolean),
+  oidcRoleClaim: getEnvVarOptional('OIDC_ROLE_CLAIM', 'groups').trim(),
+  oidcAdminGroups: getEnvVarOptional('OIDC_ADMIN_GROUPS', '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean),
+  oidcOperatorGroups: getEnvVarOptional('OIDC_OPERATOR_GROUPS', '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean),
+  oidcJwksCacheTtlSeconds: getEnvNumber('OIDC_JWKS_CACHE_TTL_SECONDS', 3600),
   wsRequireTls: getEnvBoolean('WS_REQUIRE_TLS', getEnvVar('NODE_ENV', 'development') === 'production'),
   wsAllowQueryTokenAuth: getEnvBoolean(
     'WS_ALLOW_QUERY_TOKEN_AUTH',
@@ -124,8 +147,10 @@ export const config: ServerConfig = {
   offlineCommandTtlMs: getEnvNumber('OFFLINE_COMMAND_TTL_MS', 60 * 60 * 1000),
   commandRetentionDays: getEnvNumber('COMMAND_RETENTION_DAYS', 30),
   hostStatusHistoryRetentionDays: getEnvNumber('HOST_STATUS_HISTORY_RETENTION_DAYS', 30),
+  auditLogRetentionDays: getEnvNumber('AUDIT_LOG_RETENTION_DAYS', 365),
   commandMaxRetries: getEnvNumber('COMMAND_MAX_RETRIES', 3),
   commandRetryBaseDelayMs: getEnvNumber('COMMAND_RETRY_BASE_DELAY_MS', 1000),
+  bulkCommandNodeConcurrency: getEnvNumber('BULK_COMMAND_NODE_CONCURRENCY', 4),
   scheduleWorkerEnabled: getEnvBoolean('SCHEDULE_WORKER_ENABLED', true),
   schedulePollIntervalMs: getEnvNumber('SCHEDULE_POLL_INTERVAL_MS', 60000),
   scheduleBatchSize: getEnvNumber('SCHEDULE_BATCH_SIZE', 25),
@@ -133,13 +158,46 @@ export const config: ServerConfig = {
     .split(',')
     .map((value) => value.trim())
     .filter(Boolean),
+  pluginDirectory: getEnvVarOptional('CNC_PLUGIN_DIR', ''),
+  pluginPackages: getEnvVarOptional('CNC_PLUGIN_PACKAGES', '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean),
+  pluginConfigFile: getEnvVarOptional('CNC_PLUGIN_CONFIG_FILE', ''),
+  mqttBrokerUrl: getEnvVarOptional('MQTT_BROKER_URL', ''),
+  mqttUsername: getEnvVarOptional('MQTT_USERNAME', ''),
+  mqttPassword: getEnvVarOptional('MQTT_PASSWORD', ''),
+  mqttClientId: getEnvVar('MQTT_CLIENT_ID', 'woly-cnc'),
+  mqttTopicPrefix: getEnvVar('MQTT_TOPIC_PREFIX', 'woly'),
+  mqttDiscoveryEnabled: getEnvBoolean('MQTT_DISCOVERY_ENABLED', true),
+  mqttDiscoveryPrefix: getEnvVar('MQTT_DISCOVERY_PREFIX', 'homeassistant'),
   pushNotificationsEnabled: getEnvBoolean('PUSH_NOTIFICATIONS_ENABLED', false),
-  fcmServerKey: getEnvVarOptional('FCM_SERVER_KEY', ''),
-  apnsBearerToken: getEnvVarOptional('APNS_BEARER_TOKEN', ''),
+  fcmServiceAccountFile: getEnvVarOptional('FCM_SERVICE_ACCOUNT_FILE', ''),
+  fcmProjectId: getEnvVarOptional('FCM_PROJECT_ID', ''),
+  fcmApiBaseUrl: getEnvVar('FCM_API_BASE_URL', 'https://fcm.googleapis.com'),
+  apnsKeyFile: getEnvVarOptional('APNS_KEY_FILE', ''),
+  apnsKeyId: getEnvVarOptional('APNS_KEY_ID', ''),
+  apnsTeamId: getEnvVarOptional('APNS_TEAM_ID', ''),
   apnsTopic: getEnvVarOptional('APNS_TOPIC', ''),
   apnsHost: getEnvVar('APNS_HOST', 'https://api.push.apple.com'),
+  apnsSandboxHost: getEnvVar('APNS_SANDBOX_HOST', 'https://api.sandbox.push.apple.com'),
+  webPushVapidPublicKey: getEnvVarOptional('WEB_PUSH_VAPID_PUBLIC_KEY', ''),
+  webPushVapidPrivateKey: getEnvVarOptional('WEB_PUSH_VAPID_PRIVATE_KEY', ''),
+  webPushVapidSubject: getEnvVarOptional('WEB_PUSH_VAPID_SUBJECT', ''),
+  ntfyBaseUrl: getEnvVar('NTFY_BASE_URL', 'https://ntfy.sh'),
+  ntfyAccessToken: getEnvVarOptional('NTFY_ACCESS_TOKEN', ''),
+  smtpHost: getEnvVarOptional('SMTP_HOST', ''),
+  smtpPort: getEnvNumber('SMTP_PORT', 587),
+  smtpSecure: getEnvBoolean('SMTP_SECURE', false),
+  smtpUsername: getEnvVarOptional('SMTP_USERNAME', ''),
+  smtpPassword: getEnvVarOptional('SMTP_PASSWORD', ''),
+  smtpFrom: getEnvVarOptional('SMTP_FROM', ''),
   webhookRetryBaseDelayMs: getEnvNumber('WEBHOOK_RETRY_BASE_DELAY_MS', 1000),
   webhookDeliveryTimeoutMs: getEnvNumber('WEBHOOK_DELIVERY_TIMEOUT_MS', 5000),
+  webhookMaxAttempts: getEnvNumber('WEBHOOK_MAX_ATTEMPTS', 3),
+  webhookRetryMaxDelayMs: getEnvNumber('WEBHOOK_RETRY_MAX_DELAY_MS', 3600000),
+  webhookPollIntervalMs: getEnvNumber('WEBHOOK_POLL_INTERVAL_MS', 5000),
+  webhookAutoDisableFailures: getEnvNumber('WEBHOOK_AUTO_DISABLE_FAILURES', 5),
   logLevel: getEnvVar('LOG_LEVEL', 'info'),
 };
 
@@ -176,14 +234,41 @@ if (!Number.isFinite(config.jwtTtlSeconds) || config.jwtTtlSeconds <= 0) {
   throw new Error('JWT_TTL_SECONDS must be a finite number > 0');
 }
 
+if (!Number.isFinite(config.refreshTokenTtlSeconds) || config.refreshTokenTtlSeconds <= 0) {
+  throw new Error('REFRESH_TOKEN_TTL_SECONDS must be a finite number > 0');
+}
+
+if (config.oidcIssuer && !config.oidcClientId) {
+  throw new Error('OIDC_CLIENT_ID is required when OIDC_ISSUER is set');
+}
+
+if (config.oidcAudiences.includes(config.oidcClientId)) {
+  throw new Error('OIDC_AUDIENCES must not include OIDC_CLIENT_ID');
+}
+
+if (!Number.isFinite(config.oidcJwksCacheTtlSeconds) || config.oidcJwksCacheTtlSeconds <= 0) {
+  throw new Error('OIDC_JWKS_CACHE_TTL_SECONDS must be a finite number > 0');
+}
+
 if (!Number.isFinite(config.offlineCommandTtlMs) || config.offlineCommandTtlMs <= 0) {
   throw new Error('OFFLINE_COMMAND_TTL_MS must be a finite number > 0');
 }
 
+if (
+  !Number.isInteger(config.bulkCommandNodeConcurrency) ||
+  config.bulkCommandNodeConcurrency <= 0
+) {
+  throw new Error('BULK_COMMAND_NODE_CONCURRENCY must be an integer > 0');
+}
+
 if (!Number.isFinite(config.hostStatusHistoryRetentionDays) || config.hostStatusHistoryRetentionDays < 0) {
   throw new Error('HOST_STATUS_HISTORY_RETENTION_DAYS must be a finite number >= 0');
 }
 
+if (!Number.isFinite(config.auditLogRetentionDays) || config.auditLogRetentionDays < 0) {
+  throw new Error('AUDIT_LOG_RETENTION_DAYS must be a finite number >= 0');
+}
+
 if (!Number.isFinite(config.schedulePollIntervalMs) || config.schedulePollIntervalMs <= 0) {
   throw new Error('SCHEDULE_POLL_INTERVAL_MS must be a finite number > 0');
 }
@@ -200,4 +285,23 @@ if (!Number.isFinite(config.webhookDeliveryTimeoutMs) || config.webhookDeliveryT
   throw new Error('WEBHOOK_DELIVERY_TIMEOUT_MS must be a finite number > 0');
 }
 
+if (!Number.isInteger(config.webhookMaxAttempts) || config.webhookMaxAttempts < 1) {
+  throw new Error('WEBHOOK_MAX_ATTEMPTS must be an integer >= 1');
+}
+
+if (
+  !Number.isFinite(config.webhookRetryMaxDelayMs) ||
+  config.webhookRetryMaxDelayMs < config.webhookRetryBaseDelayMs
+) {
+  throw new Error('WEBHOOK_RETRY_MAX_DELAY_MS must be a finite number >= WEBHOOK_RETRY_BASE_DELAY_MS');
+}
+
+if (!Number.isFinite(config.webhookPollIntervalMs) || config.webhookPollIntervalMs <= 0) {
+  throw new Error('WEBHOOK_POLL_INTERVAL_MS must be a finite number > 0');
+}
+
+if (!Number.isInteger(config.webhookAutoDisableFailures) || config.webhookAutoDisableFailures < 0) {
+  throw new Error('WEBHOOK_AUTO_DISABLE_FAILURES must be an integer >= 0');
+}
+
 export default config;
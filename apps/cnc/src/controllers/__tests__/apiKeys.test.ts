@@ -0,0 +1,184 @@
+import type { Request, Response } from 'express';
+import { ApiKeysController } from '../apiKeys';
+import ApiKeyModel from '../../models/ApiKey';
+
+jest.mock('../../models/ApiKey', () => ({
+  __esModule: true,
+  default: {
+    list: jest.fn(),
+    findById: jest.fn(),
+    create: jest.fn(),
+    revoke: jest.fn(),
+    listUsage: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(options?: {
+  params?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: unknown;
+}): Request {
+  return {
+    params: options?.params ?? {},
+    query: options?.query ?? {},
+    body: options?.body ?? {},
+    auth: { sub: 'admin-token', roles: ['admin'], claims: {} },
+  } as unknown as Request;
+}
+
+const apiKey = {
+  id: 'key-1',
+  name: 'home-assistant',
+  prefix: 'woly_AbCdEfGh',
+  scopes: ['hosts:read' as const, 'hosts:wake' as const],
+  hostFqns: ['desktop@home'],
+  nodeIds: [],
+  createdBy: 'admin-token',
+  createdAt: '2026-02-18T00:00:00.000Z',
+  expiresAt: null,
+  lastUsedAt: null,
+  revokedAt: null,
+};
+
+describe('ApiKeysController', () => {
+  const mockedApiKeys = ApiKeyModel as jest.Mocked<typeof ApiKeyModel>;
+  let controller: ApiKeysController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new ApiKeysController();
+  });
+
+  it('lists API keys', async () => {
+    mockedApiKeys.list.mockResolvedValue([apiKey]);
+    const res = createMockResponse();
+
+    await controller.listApiKeys(createMockRequest(), res);
+
+    expect(res.json).toHaveBeenCalledWith({ apiKeys: [apiKey] });
+  });
+
+  it('creates a key on behalf of the caller and returns it once', async () => {
+    mockedApiKeys.create.mockResolvedValue({ apiKey, key: 'woly_AbCdEfGh-secret' });
+    const res = createMockResponse();
+
+    await controller.createApiKey(
+      createMockRequest({
+        body: {
+          name: 'home-assistant',
+          scopes: ['hosts:read', 'hosts:wake'],
+          hostFqns: ['desktop@home'],
+        },
+      }),
+      res,
+    );
+
+    expect(mockedApiKeys.create).toHaveBeenCalledWith({
+      name: 'home-assistant',
+      scopes: ['hosts:read', 'hosts:wake'],
+      hostFqns: ['desktop@home'],
+      createdBy: 'admin-token',
+    });
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ ...apiKey, key: 'woly_AbCdEfGh-secret' });
+  });
+
+  it('rejects unknown scopes and past expiry dates', async () => {
+    const res = createMockResponse();
+
+    await controller.createApiKey(
+      createMockRequest({ body: { name: 'ci', scopes: ['admin'] } }),
+      res,
+    );
+    await controller.createApiKey(
+      createMockRequest({
+        body: { name: 'ci', scopes: ['hosts:wake'], expiresAt: '2020-01-01T00:00:00.000Z' },
+      }),
+      res,
+    );
+
+    expect(res.status).toHaveBeenNthCalledWith(1, 400);
+    expect(res.status).toHaveBeenNthCalledWith(2, 400);
+    expect(mockedApiKeys.create).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown keys', async () => {
+    mockedApiKeys.findById.mockResolvedValue(null);
+    mockedApiKeys.revoke.mockResolvedValue(null);
+    const res = createMockResponse();
+
+    await controller.getApiKey(createMockRequest({ params: { id: 'missing' } }), res);
+    await controller.revokeApiKey(createMockRequest({ params: { id: 'missing' } }), res);
+    await controller.getApiKeyUsage(createMockRequest({ params: { id: 'missing' } }), res);
+
+    expect(res.status).toHaveBeenCalledTimes(3);
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(mockedApiKeys.listUsage).not.toHaveBeenCalled();
+  });
+
+  it('revokes a key', async () => {
+    const revoked = { ...apiKey, revokedAt: '2026-02-19T00:00:00.000Z' };
+    mockedApiKeys.revoke.mockResolvedValue(revoked);
+    const res = createMockResponse();
+
+    await controller.revokeApiKey(createMockRequest({ params: { id: 'key-1' } }), res);
+
+    expect(mockedApiKeys.revoke).toHaveBeenCalledWith('key-1');
+    expect(res.json).toHaveBeenCalledWith(revoked);
+  });
+
+  it('returns the usage audit with an optional limit', async () => {
+    const entries = [
+      {
+        usedAt: '2026-02-19T00:00:00.000Z',
+        method: 'POST',
+        path: '/api/hosts/wakeup/desktop@home',
+        ip: null,
+      },
+    ];
+    mockedApiKeys.findById.mockResolvedValue(apiKey);
+    mockedApiKeys.listUsage.mockResolvedValue(entries);
+    const res = createMockResponse();
+
+    await controller.getApiKeyUsage(
+      createMockRequest({ params: { id: 'key-1' }, query: { limit: '10' } }),
+      res,
+    );
+
+    expect(mockedApiKeys.listUsage).toHaveBeenCalledWith('key-1', 10);
+    expect(res.json).toHaveBeenCalledWith({ apiKeyId: 'key-1', entries });
+
+    const invalid = createMockResponse();
+    await controller.getApiKeyUsage(
+      createMockRequest({ params: { id: 'key-1' }, query: { limit: '0' } }),
+      invalid,
+    );
+    expect(invalid.status).toHaveBeenCalledWith(400);
+  });
+
+  it('returns 500 when the store fails', async () => {
+    mockedApiKeys.list.mockRejectedValue(new Error('db down'));
+    const res = createMockResponse();
+
+    await controller.listApiKeys(createMockRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,148 @@
+import type { Request, Response } from 'express';
+import { AuditController } from '../audit';
+import AuditLogModel from '../../models/AuditLog';
+
+jest.mock('../../models/AuditLog', () => ({
+  __esModule: true,
+  default: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.setHeader = jest.fn().mockReturnValue(res);
+  res.type = jest.fn().mockReturnValue(res);
+  res.send = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(query: Record<string, string> = {}): Request {
+  return {
+    params: {},
+    query,
+    body: {},
+    auth: { sub: 'admin-token', roles: ['admin'], claims: {} },
+  } as unknown as Request;
+}
+
+const entry = {
+  id: 7,
+  occurredAt: '2026-02-18T00:00:00.000Z',
+  actor: 'user-1',
+  actorRole: 'operator',
+  action: 'host.update',
+  targetFqn: 'desktop@home',
+  targetNodeId: null,
+  correlationId: 'corr_1',
+  ip: '10.0.0.5',
+  outcome: 'success' as const,
+  statusCode: 200,
+  details: { fields: ['name', 'notes'] },
+};
+
+describe('AuditController', () => {
+  const controller = new AuditController();
+  const mockQuery = AuditLogModel.query as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns a JSON page with the default page size', async () => {
+    mockQuery.mockResolvedValue({ entries: [entry], nextCursor: '7' });
+    const res = createMockResponse();
+
+    await controller.listAuditLog(
+      createMockRequest({ actor: 'user-1', nodeId: 'home-node', cursor: '12' }),
+      res,
+    );
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      actor: 'user-1',
+      targetNodeId: 'home-node',
+      cursor: 12,
+      limit: 100,
+    });
+    expect(res.json).toHaveBeenCalledWith({ entries: [entry], nextCursor: '7' });
+  });
+
+  it('exports CSV with escaped fields and neutralized formulas', async () => {
+    mockQuery.mockResolvedValue({
+      entries: [{ ...entry, actor: '=HYPERLINK("x")', targetFqn: 'desk,top@home' }],
+      nextCursor: '7',
+    });
+    const res = createMockResponse();
+
+    await controller.listAuditLog(createMockRequest({ format: 'csv' }), res);
+
+    expect(mockQuery).toHaveBeenCalledWith({ targetNodeId: undefined, limit: 10_000 });
+    expect(res.setHeader).toHaveBeenCalledWith('X-Next-Cursor', '7');
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Content-Disposition',
+      'attachment; filename="audit-log.csv"',
+    );
+    expect(res.type).toHaveBeenCalledWith('text/csv; charset=utf-8');
+    const [csv] = (res.send as jest.Mock).mock.calls[0] as [string];
+    expect(csv.split('\r\n')).toEqual([
+      'id,occurredAt,actor,actorRole,action,targetFqn,targetNodeId,correlationId,ip,outcome,statusCode,details',
+      '7,2026-02-18T00:00:00.000Z,"\'=HYPERLINK(""x"")",operator,host.update,"desk,top@home",,corr_1,10.0.0.5,' +
+        'success,200,"{""fields"":[""name"",""notes""]}"',
+      '',
+    ]);
+  });
+
+  it('exports NDJSON with one entry per line', async () => {
+    mockQuery.mockResolvedValue({ entries: [entry, { ...entry, id: 6 }], nextCursor: null });
+    const res = createMockResponse();
+
+    await controller.listAuditLog(createMockRequest({ format: 'ndjson', limit: '2' }), res);
+
+    expect(res.setHeader).not.toHaveBeenCalledWith('X-Next-Cursor', expect.anything());
+    expect(res.type).toHaveBeenCalledWith('application/x-ndjson');
+    const [body] = (res.send as jest.Mock).mock.calls[0] as [string];
+    expect(
+      body
+        .trimEnd()
+        .split('\n')
+        .map((line) => JSON.parse(line) as { id: number }),
+    ).toEqual([entry, { ...entry, id: 6 }]);
+  });
+
+  it('returns 400 for an invalid query', async () => {
+    const res = createMockResponse();
+
+    await controller.listAuditLog(createMockRequest({ outcome: 'maybe', unknown: 'x' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'Bad Request', message: 'Invalid audit log query' }),
+    );
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the query fails', async () => {
+    mockQuery.mockRejectedValue(new Error('db down'));
+    const res = createMockResponse();
+
+    await controller.listAuditLog(createMockRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Internal Server Error',
+      message: 'Failed to query audit log',
+    });
+  });
+});
@@ -13,7 +13,43 @@ jest.mock('../../config', () => ({
   },
 }));
 
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+    findCredentialsByUsername: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/RefreshToken', () => ({
+  __esModule: true,
+  default: {
+    issue: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+    revokeAllForUser: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/oidcAccounts', () => ({
+  resolveOidcAccount: jest.fn(),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
 import { AuthController } from '../auth';
+import RefreshTokenModel from '../../models/RefreshToken';
+import UserModel from '../../models/User';
+import { resolveOidcAccount } from '../../services/oidcAccounts';
+import { hashPassword } from '../../utils/passwordHash';
 
 function createMockResponse(): Response {
   const res = {} as Response;
@@ -195,3 +231,198 @@ describe('AuthController - Privilege Escalation Prevention', () => {
   });
 });
 
+describe('AuthController user sessions', () => {
+  const mockedUsers = UserModel as jest.Mocked<typeof UserModel>;
+  const mockedTokens = RefreshTokenModel as jest.Mocked<typeof RefreshTokenModel>;
+  const user = {
+    id: 'user-1',
+    username: 'alice',
+    role: 'operator' as const,
+    disabled: false,
+    createdAt: '2026-02-18T00:00:00.000Z',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+  let passwordHash: string;
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword('correct horse battery');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedTokens.issue.mockResolvedValue({ token: 'refresh-1', expiresAt: '2026-03-20T00:00:00.000Z' });
+  });
+
+  it('logs in with a password and mints a JWT carrying the user id', async () => {
+    mockedUsers.findCredentialsByUsername.mockResolvedValue({ user, passwordHash });
+    const res = createMockResponse();
+
+    await new AuthController().login(
+      { body: { username: 'Alice', password: 'correct horse battery' } } as Request,
+      res,
+    );
+
+    expect(mockedTokens.issue).toHaveBeenCalledWith('user-1');
+    const body = (res.json as jest.Mock).mock.calls[0][0];
+    expect(body).toMatchObject({ refreshToken: 'refresh-1', refreshExpiresAt: '2026-03-20T00:00:00.000Z', user });
+    const { payload } = verifyHs256(body.token, 'test-secret');
+    expect(payload).toMatchObject({ sub: 'user-1', uid: 'user-1', role: 'operator', roles: ['operator'] });
+  });
+
+  it('rejects wrong passwords, unknown users and disabled accounts alike', async () => {
+    const controller = new AuthController();
+    const attempts: Array<[typeof user | null, string]> = [
+      [user, 'wrong password'],
+      [null, 'correct horse battery'],
+      [{ ...user, disabled: true }, 'correct horse battery'],
+    ];
+
+    for (const [account, password] of attempts) {
+      mockedUsers.findCredentialsByUsername.mockResolvedValueOnce(account ? { user: account, passwordHash } : null);
+      const res = createMockResponse();
+      await controller.login({ body: { username: 'alice', password } } as Request, res);
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid username or password' }));
+    }
+
+    const invalid = createMockResponse();
+    await controller.login({ body: { username: 'alice' } } as Request, invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+    expect(mockedTokens.issue).not.toHaveBeenCalled();
+  });
+
+  it('rotates refresh tokens and re-reads the role', async () => {
+    mockedTokens.rotate.mockResolvedValue({
+      status: 'rotated',
+      userId: 'user-1',
+      token: 'refresh-2',
+      expiresAt: '2026-03-21T00:00:00.000Z',
+    });
+    mockedUsers.findById.mockResolvedValue({ ...user, role: 'admin' });
+    const res = createMockResponse();
+
+    await new AuthController().refresh({ body: { refreshToken: 'refresh-1' } } as Request, res);
+
+    const body = (res.json as jest.Mock).mock.calls[0][0];
+    expect(body.refreshToken).toBe('refresh-2');
+    expect(verifyHs256(body.token, 'test-secret').payload).toMatchObject({ uid: 'user-1', role: 'admin' });
+  });
+
+  it('refuses reused tokens and sessions of disabled users', async () => {
+    const controller = new AuthController();
+
+    mockedTokens.rotate.mockResolvedValueOnce({ status: 'reused', userId: 'user-1' });
+    const reused = createMockResponse();
+    await controller.refresh({ body: { refreshToken: 'refresh-1' } } as Request, reused);
+    expect(reused.status).toHaveBeenCalledWith(401);
+
+    mockedTokens.rotate.mockResolvedValueOnce({
+      status: 'rotated',
+      userId: 'user-1',
+      token: 'refresh-2',
+      expiresAt: '2026-03-21T00:00:00.000Z',
+    });
+    mockedUsers.findById.mockResolvedValueOnce({ ...user, disabled: true });
+    const disabled = createMockResponse();
+    await controller.refresh({ body: { refreshToken: 'refresh-1' } } as Request, disabled);
+    expect(disabled.status).toHaveBeenCalledWith(401);
+    expect(mockedTokens.revokeAllForUser).toHaveBeenCalledWith('user-1');
+  });
+
+  it('revokes the session on logout', async () => {
+    mockedTokens.revoke.mockResolvedValue(true);
+    const res = createMockResponse();
+
+    await new AuthController().logout({ body: { refreshToken: 'refresh-1' } } as Request, res);
+
+    expect(mockedTokens.revoke).toHaveBeenCalledWith('refresh-1');
+    expect(res.json).toHaveBeenCalledWith({ success: true });
+  });
+});
+
+describe('AuthController OIDC login', () => {
+  const oidcClient = {
+    getPublicConfig: jest.fn(),
+    exchangeAuthorizationCode: jest.fn(),
+  };
+  const exchange = {
+    code: 'code-1',
+    codeVerifier: 'v'.repeat(43),
+    redirectUri: 'woly://oauth/callback',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('responds 404 when OIDC is not configured', async () => {
+    const res = createMockResponse();
+
+    await new AuthController().exchangeOidcCode({ body: exchange } as Request, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  const identity = { issuer: 'https://idp.example.com', subject: 'alice', role: 'operator' as const };
+  const linkedUser = {
+    id: 'user-alice',
+    username: 'alice',
+    role: 'operator' as const,
+    disabled: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('mints a JWT for the user account linked to the provider identity', async () => {
+    oidcClient.exchangeAuthorizationCode.mockResolvedValue({ status: 'authenticated', identity });
+    jest.mocked(resolveOidcAccount).mockResolvedValue(linkedUser);
+    const res = createMockResponse();
+
+    await new AuthController(oidcClient as never).exchangeOidcCode({ body: exchange } as Request, res);
+
+    expect(oidcClient.exchangeAuthorizationCode).toHaveBeenCalledWith(exchange);
+    expect(resolveOidcAccount).toHaveBeenCalledWith(identity);
+    const body = (res.json as jest.Mock).mock.calls[0][0];
+    const { payload } = verifyHs256(body.token, 'test-secret');
+    expect(payload).toMatchObject({ sub: 'user-alice', uid: 'user-alice', role: 'operator', roles: ['operator'] });
+  });
+
+  it('refuses disabled linked accounts and reports account failures as 500', async () => {
+    const controller = new AuthController(oidcClient as never);
+    oidcClient.exchangeAuthorizationCode.mockResolvedValue({ status: 'authenticated', identity });
+
+    jest.mocked(resolveOidcAccount).mockResolvedValueOnce({ ...linkedUser, disabled: true });
+    const disabled = createMockResponse();
+    await controller.exchangeOidcCode({ body: exchange } as Request, disabled);
+    expect(disabled.status).toHaveBeenCalledWith(401);
+
+    jest.mocked(resolveOidcAccount).mockRejectedValueOnce(new Error('database unavailable'));
+    const failed = createMockResponse();
+    await controller.exchangeOidcCode({ body: exchange } as Request, failed);
+    expect(failed.status).toHaveBeenCalledWith(500);
+  });
+
+  it('maps rejected exchanges to 401 and provider failures to 503', async () => {
+    const controller = new AuthController(oidcClient as never);
+
+    const invalid = createMockResponse();
+    await controller.exchangeOidcCode({ body: { ...exchange, codeVerifier: 'short' } } as Request, invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+
+    oidcClient.exchangeAuthorizationCode.mockResolvedValueOnce({ status: 'rejected', reason: 'ID token nonce mismatch' });
+    const rejected = createMockResponse();
+    await controller.exchangeOidcCode({ body: exchange } as Request, rejected);
+    expect(rejected.status).toHaveBeenCalledWith(401);
+    expect(rejected.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'OIDC login failed' }));
+
+    oidcClient.exchangeAuthorizationCode.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const unavailable = createMockResponse();
+    await controller.exchangeOidcCode({ body: exchange } as Request, unavailable);
+    expect(unavailable.status).toHaveBeenCalledWith(503);
+
+    oidcClient.getPublicConfig.mockRejectedValueOnce(new Error('OIDC discovery failed with status 500'));
+    const config = createMockResponse();
+    await controller.getOidcConfig({} as Request, config);
+    expect(config.status).toHaveBeenCalledWith(503);
+  });
+});
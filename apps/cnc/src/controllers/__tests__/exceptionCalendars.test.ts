@@ -0,0 +1,206 @@
+import type { Request, Response } from 'express';
+import { ExceptionCalendarsController } from '../exceptionCalendars';
+import ExceptionCalendarModel from '../../models/ExceptionCalendar';
+import HostScheduleModel from '../../models/HostSchedule';
+
+jest.mock('../../models/ExceptionCalendar', () => ({
+  __esModule: true,
+  normalizeExceptionDates: jest.requireActual('../../models/ExceptionCalendar').normalizeExceptionDates,
+  default: {
+    list: jest.fn(),
+    findById: jest.fn(),
+    findByName: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/HostSchedule', () => ({
+  __esModule: true,
+  default: {
+    listByExceptionCalendar: jest.fn(),
+    refreshNextTriggersForCalendar: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(options?: { params?: Record<string, string>; body?: unknown }): Request {
+  return {
+    params: options?.params ?? {},
+    query: {},
+    body: options?.body ?? {},
+  } as unknown as Request;
+}
+
+const calendar = {
+  id: 'calendar-1',
+  name: 'Holidays',
+  source: 'dates' as const,
+  dates: [{ date: '2026-12-25', label: 'Christmas Day' }],
+  createdAt: '2026-02-18T00:00:00.000Z',
+  updatedAt: '2026-02-18T00:00:00.000Z',
+};
+
+const ics = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20261225',
+  'SUMMARY:Christmas Day',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20260101',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('ExceptionCalendarsController', () => {
+  const mockedModel = ExceptionCalendarModel as jest.Mocked<typeof ExceptionCalendarModel>;
+  const mockedScheduleModel = HostScheduleModel as jest.Mocked<typeof HostScheduleModel>;
+  let controller: ExceptionCalendarsController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedModel.findByName.mockResolvedValue(null);
+    mockedScheduleModel.listByExceptionCalendar.mockResolvedValue([]);
+    mockedScheduleModel.refreshNextTriggersForCalendar.mockResolvedValue(0);
+    controller = new ExceptionCalendarsController();
+  });
+
+  it('lists calendars and returns 404 for unknown ids', async () => {
+    mockedModel.list.mockResolvedValue([calendar]);
+    const listed = createMockResponse();
+    await controller.listCalendars(createMockRequest(), listed);
+    expect(listed.json).toHaveBeenCalledWith({ calendars: [calendar] });
+
+    mockedModel.findById.mockResolvedValue(null);
+    const missing = createMockResponse();
+    await controller.getCalendar(createMockRequest({ params: { id: 'missing' } }), missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+
+  it('creates calendars from date lists', async () => {
+    mockedModel.create.mockResolvedValue(calendar);
+    const res = createMockResponse();
+
+    await controller.createCalendar(
+      createMockRequest({
+        body: { name: 'Holidays', dates: ['2026-12-25', { date: '2026-01-01', label: 'New Year' }, '2026-12-25'] },
+      }),
+      res,
+    );
+
+    expect(mockedModel.create).toHaveBeenCalledWith({
+      name: 'Holidays',
+      description: null,
+      source: 'dates',
+      dates: [{ date: '2026-01-01', label: 'New Year' }, { date: '2026-12-25' }],
+    });
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('imports iCalendar files and rejects unreadable ones', async () => {
+    mockedModel.create.mockResolvedValue({ ...calendar, source: 'ics' });
+    const created = createMockResponse();
+    await controller.createCalendar(createMockRequest({ body: { name: 'Holidays', ics } }), created);
+
+    expect(mockedModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: 'ics',
+        dates: [{ date: '2026-01-01' }, { date: '2026-12-25', label: 'Christmas Day' }],
+      }),
+    );
+
+    const invalid = createMockResponse();
+    await controller.createCalendar(createMockRequest({ body: { name: 'Broken', ics: 'BEGIN:VEVENT' } }), invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+    expect(invalid.json).toHaveBeenCalledWith({
+      error: 'Bad Request',
+      message: 'Invalid iCalendar data: Not an iCalendar document (missing BEGIN:VCALENDAR)',
+    });
+  });
+
+  it('rejects payloads without exactly one date source and duplicate names', async () => {
+    const both = createMockResponse();
+    await controller.createCalendar(
+      createMockRequest({ body: { name: 'Holidays', dates: ['2026-12-25'], ics } }),
+      both,
+    );
+    expect(both.status).toHaveBeenCalledWith(400);
+
+    mockedModel.findByName.mockResolvedValue(calendar);
+    const duplicate = createMockResponse();
+    await controller.createCalendar(createMockRequest({ body: { name: 'Holidays', dates: [] } }), duplicate);
+    expect(duplicate.status).toHaveBeenCalledWith(409);
+    expect(mockedModel.create).not.toHaveBeenCalled();
+  });
+
+  it('refreshes schedule next triggers only when dates change', async () => {
+    mockedModel.update.mockResolvedValue(calendar);
+
+    const renamed = createMockResponse();
+    await controller.updateCalendar(
+      createMockRequest({ params: { id: 'calendar-1' }, body: { name: 'Public holidays' } }),
+      renamed,
+    );
+    expect(mockedModel.update).toHaveBeenCalledWith('calendar-1', { name: 'Public holidays' });
+    expect(mockedScheduleModel.refreshNextTriggersForCalendar).not.toHaveBeenCalled();
+
+    const redated = createMockResponse();
+    await controller.updateCalendar(
+      createMockRequest({ params: { id: 'calendar-1' }, body: { dates: ['2027-01-01'] } }),
+      redated,
+    );
+    expect(mockedModel.update).toHaveBeenLastCalledWith('calendar-1', {
+      source: 'dates',
+      dates: [{ date: '2027-01-01' }],
+    });
+    expect(mockedScheduleModel.refreshNextTriggersForCalendar).toHaveBeenCalledWith('calendar-1');
+    expect(redated.json).toHaveBeenCalledWith(calendar);
+
+    mockedModel.update.mockResolvedValue(null);
+    const missing = createMockResponse();
+    await controller.updateCalendar(
+      createMockRequest({ params: { id: 'missing' }, body: { dates: [] } }),
+      missing,
+    );
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+
+  it('refuses to delete calendars that schedules still reference', async () => {
+    mockedScheduleModel.listByExceptionCalendar.mockResolvedValueOnce([
+      { id: 'schedule-1' } as Awaited<ReturnType<typeof HostScheduleModel.listByExceptionCalendar>>[number],
+    ]);
+    const referenced = createMockResponse();
+    await controller.deleteCalendar(createMockRequest({ params: { id: 'calendar-1' } }), referenced);
+    expect(referenced.status).toHaveBeenCalledWith(409);
+    expect(referenced.json).toHaveBeenCalledWith({
+      error: 'Conflict',
+      message: 'Exception calendar calendar-1 is referenced by 1 schedule(s)',
+      details: { scheduleIds: ['schedule-1'] },
+    });
+    expect(mockedModel.delete).not.toHaveBeenCalled();
+
+    mockedModel.delete.mockResolvedValue(true);
+    const deleted = createMockResponse();
+    await controller.deleteCalendar(createMockRequest({ params: { id: 'calendar-1' } }), deleted);
+    expect(deleted.json).toHaveBeenCalledWith({ success: true, id: 'calendar-1' });
+  });
+});
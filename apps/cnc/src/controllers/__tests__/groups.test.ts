@@ -0,0 +1,194 @@
+import type { Request, Response } from 'express';
+import { GroupsController } from '../groups';
+import HostGroupModel from '../../models/HostGroup';
+import type { CommandRouter } from '../../services/commandRouter';
+
+jest.mock('../../models/HostGroup', () => ({
+  __esModule: true,
+  default: {
+    list: jest.fn(),
+    findById: jest.fn(),
+    findByName: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(options?: {
+  params?: Record<string, string>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  correlationId?: string;
+}): Request {
+  const headers = options?.headers ?? {};
+  return {
+    params: options?.params ?? {},
+    query: {},
+    body: options?.body ?? {},
+    correlationId: options?.correlationId,
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+const group = {
+  id: 'group-1',
+  name: 'Lab',
+  description: null,
+  hostFqns: ['pc-1@lab-node', 'nas@office-node'],
+  createdAt: '2026-02-18T00:00:00.000Z',
+  updatedAt: '2026-02-18T00:00:00.000Z',
+};
+
+const job = {
+  jobId: 'job_1',
+  groupId: 'group-1',
+  action: 'wake' as const,
+  state: 'completed' as const,
+  startedAt: '2026-02-18T00:00:00.000Z',
+  completedAt: '2026-02-18T00:00:01.000Z',
+  summary: { total: 2, succeeded: 2, failed: 0 },
+  results: [],
+};
+
+describe('GroupsController', () => {
+  const mockedModel = HostGroupModel as jest.Mocked<typeof HostGroupModel>;
+  let commandRouter: { routeHostGroupCommand: jest.Mock };
+  let controller: GroupsController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    commandRouter = { routeHostGroupCommand: jest.fn().mockResolvedValue(job) };
+    controller = new GroupsController(commandRouter as unknown as CommandRouter);
+  });
+
+  it('rejects invalid create payloads', async () => {
+    const res = createMockResponse();
+    await controller.createGroup(createMockRequest({ body: { name: 'Lab', hostFqns: ['no-location'] } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(mockedModel.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects duplicate group names with 409', async () => {
+    mockedModel.findByName.mockResolvedValue(group);
+    const res = createMockResponse();
+
+    await controller.createGroup(createMockRequest({ body: { name: 'Lab', hostFqns: [] } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(mockedModel.create).not.toHaveBeenCalled();
+  });
+
+  it('creates groups when the payload is valid', async () => {
+    mockedModel.findByName.mockResolvedValue(null);
+    mockedModel.create.mockResolvedValue(group);
+    const res = createMockResponse();
+
+    await controller.createGroup(
+      createMockRequest({ body: { name: 'Lab', hostFqns: group.hostFqns } }),
+      res,
+    );
+
+    expect(mockedModel.create).toHaveBeenCalledWith({ name: 'Lab', hostFqns: group.hostFqns });
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith(group);
+  });
+
+  it('allows renaming a group to its current name', async () => {
+    mockedModel.findByName.mockResolvedValue(group);
+    mockedModel.update.mockResolvedValue(group);
+    const res = createMockResponse();
+
+    await controller.updateGroup(
+      createMockRequest({ params: { id: 'group-1' }, body: { name: 'Lab' } }),
+      res,
+    );
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(group);
+  });
+
+  it('returns 404 when deleting an unknown group', async () => {
+    mockedModel.delete.mockResolvedValue(false);
+    const res = createMockResponse();
+
+    await controller.deleteGroup(createMockRequest({ params: { id: 'missing' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('fans wake out through the command router and returns the aggregate job', async () => {
+    mockedModel.findById.mockResolvedValue(group);
+    const res = createMockResponse();
+
+    await controller.wakeGroup(
+      createMockRequest({
+        params: { id: 'group-1' },
+        body: { verify: true },
+        headers: { 'idempotency-key': ' lab-wake ' },
+        correlationId: 'corr-1',
+      }),
+      res,
+    );
+
+    expect(commandRouter.routeHostGroupCommand).toHaveBeenCalledWith(group, 'wake', {
+      idempotencyKey: 'lab-wake',
+      correlationId: 'corr-1',
+      verify: { timeoutMs: 120_000, pollIntervalMs: 3_000 },
+    });
+    expect(res.json).toHaveBeenCalledWith(job);
+  });
+
+  it('requires explicit confirmation for group sleep/shutdown', async () => {
+    mockedModel.findById.mockResolvedValue(group);
+    const res = createMockResponse();
+
+    await controller.shutdownGroup(
+      createMockRequest({ params: { id: 'group-1' }, body: { confirm: 'sleep' } }),
+      res,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(commandRouter.routeHostGroupCommand).not.toHaveBeenCalled();
+  });
+
+  it('rejects actions on empty groups', async () => {
+    mockedModel.findById.mockResolvedValue({ ...group, hostFqns: [] });
+    const res = createMockResponse();
+
+    await controller.sleepGroup(
+      createMockRequest({ params: { id: 'group-1' }, body: { confirm: 'sleep' } }),
+      res,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(commandRouter.routeHostGroupCommand).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for actions on unknown groups', async () => {
+    mockedModel.findById.mockResolvedValue(null);
+    const res = createMockResponse();
+
+    await controller.wakeGroup(createMockRequest({ params: { id: 'missing' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -51,11 +51,15 @@ describe('HostsController additional branches', () => {
     routeWakeCommand: jest.Mock;
     routeSleepHostCommand: jest.Mock;
     routeShutdownHostCommand: jest.Mock;
+    routeOutOfBandPowerCommand: jest.Mock;
+    routeHostPowerStateCommand: jest.Mock;
     routeScanHostsCommand: jest.Mock;
     routePingHostCommand: jest.Mock;
     routeScanHostPortsCommand: jest.Mock;
     routeUpdateHostCommand: jest.Mock;
     routeDeleteHostCommand: jest.Mock;
+    routeBulkHostCommand: jest.Mock;
+    getWakeDependencyJob: jest.Mock;
   };
   let controller: HostsController;
 
@@ -74,11 +78,15 @@ describe('HostsController additional branches', () => {
       routeWakeCommand: jest.fn(),
       routeSleepHostCommand: jest.fn(),
       routeShutdownHostCommand: jest.fn(),
+      routeOutOfBandPowerCommand: jest.fn(),
+      routeHostPowerStateCommand: jest.fn(),
       routeScanHostsCommand: jest.fn(),
       routePingHostCommand: jest.fn(),
       routeScanHostPortsCommand: jest.fn(),
       routeUpdateHostCommand: jest.fn(),
       routeDeleteHostCommand: jest.fn(),
+      routeBulkHostCommand: jest.fn(),
+      getWakeDependencyJob: jest.fn(),
     };
     controller = new HostsController(
       hostAggregator as unknown as never,
@@ -489,6 +497,61 @@ describe('HostsController additional branches', () => {
       });
     });
 
+    it('answers 202 with the background job for hosts with wake dependencies', async () => {
+      const dependencyJob = {
+        jobId: 'job_1',
+        fqn: 'desktop@lab',
+        state: 'running' as const,
+        prerequisites: ['nas@lab'],
+        steps: [],
+        startedAt: '2026-10-18T10:00:00.000Z',
+      };
+      commandRouter.routeWakeCommand.mockResolvedValue({
+        success: true,
+        message: 'Waking 1 prerequisite host(s) before desktop@lab',
+        nodeId: 'node-1',
+        location: 'lab',
+        dependencyJob,
+      });
+
+      const req = createMockRequest({ params: { fqn: 'desktop@lab' } });
+      const res = createMockResponse();
+
+      await controller.wakeupHost(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ dependencyJob }));
+    });
+
+    it('reports wake dependency jobs and answers 404 for unknown ones', () => {
+      const job = {
+        jobId: 'job_1',
+        fqn: 'desktop@lab',
+        state: 'failed' as const,
+        prerequisites: ['nas@lab'],
+        steps: [
+          { fqn: 'nas@lab', role: 'prerequisite' as const, status: 'timeout' as const },
+          { fqn: 'desktop@lab', role: 'target' as const, status: 'skipped' as const },
+        ],
+        startedAt: '2026-10-18T10:00:00.000Z',
+        completedAt: '2026-10-18T10:02:00.000Z',
+        error: 'Wake dependency nas@lab for desktop@lab was not confirmed (timeout)',
+      };
+      commandRouter.getWakeDependencyJob.mockImplementation((jobId: string) => (jobId === 'job_1' ? job : null));
+
+      const res = createMockResponse();
+      controller.getWakeDependencyJob(createMockRequest({ params: { jobId: 'job_1' } }), res);
+      expect(res.json).toHaveBeenCalledWith(job);
+
+      const missing = createMockResponse();
+      controller.getWakeDependencyJob(createMockRequest({ params: { jobId: 'job_2' } }), missing);
+      expect(missing.status).toHaveBeenCalledWith(404);
+      expect(missing.json).toHaveBeenCalledWith({
+        error: 'Not Found',
+        message: 'Wake dependency job job_2 not found',
+      });
+    });
+
     it('maps invalid FQN errors to 400', async () => {
       commandRouter.routeWakeCommand.mockRejectedValue(new Error('Invalid FQN encoding: desktop@Lab%ZZ'));
 
@@ -592,6 +655,79 @@ describe('HostsController additional branches', () => {
     });
   });
 
+  describe('powerHost', () => {
+    it('requires confirm to repeat the action', async () => {
+      const req = createMockRequest({
+        params: { fqn: 'rack-01@lab' },
+        body: { action: 'force-off', confirm: 'power-cycle' },
+      });
+      const res = createMockResponse();
+
+      await controller.powerHost(req, res);
+
+      expect(commandRouter.routeOutOfBandPowerCommand).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Bad Request',
+        message: 'Field "confirm" must equal "force-off"',
+      });
+    });
+
+    it('dispatches the out-of-band action and maps missing redfish config to 409', async () => {
+      commandRouter.routeOutOfBandPowerCommand
+        .mockResolvedValueOnce({
+          success: true,
+          action: 'power-cycle',
+          message: 'Redfish power-cycle requested for rack-01',
+          nodeId: 'node-1',
+          location: 'lab',
+        })
+        .mockRejectedValueOnce(new Error('Host rack-02@lab has no enabled redfish power control configuration'));
+
+      const req = createMockRequest({
+        params: { fqn: 'rack-01@lab' },
+        body: { action: 'power-cycle', confirm: 'power-cycle' },
+        headers: { 'Idempotency-Key': 'cycle-1' },
+      });
+      const res = createMockResponse();
+      await controller.powerHost(req, res);
+
+      expect(commandRouter.routeOutOfBandPowerCommand).toHaveBeenCalledWith('power-cycle', 'rack-01@lab', {
+        idempotencyKey: 'cycle-1',
+      });
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, action: 'power-cycle' }));
+
+      const conflictRes = createMockResponse();
+      await controller.powerHost(
+        createMockRequest({ params: { fqn: 'rack-02@lab' }, body: { action: 'power-on', confirm: 'power-on' } }),
+        conflictRes
+      );
+      expect(conflictRes.status).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe('getHostPowerState', () => {
+    it('returns the BMC power state', async () => {
+      const payload = {
+        target: 'rack-01@lab',
+        state: 'off',
+        checkedAt: '2026-10-18T10:00:00.000Z',
+        source: 'node-agent',
+        correlationId: 'cid-request',
+      };
+      commandRouter.routeHostPowerStateCommand.mockResolvedValue(payload);
+
+      const req = createMockRequest({ params: { fqn: 'rack-01@lab' }, correlationId: 'cid-request' });
+      const res = createMockResponse();
+      await controller.getHostPowerState(req, res);
+
+      expect(commandRouter.routeHostPowerStateCommand).toHaveBeenCalledWith('rack-01@lab', {
+        correlationId: 'cid-request',
+      });
+      expect(res.json).toHaveBeenCalledWith(payload);
+    });
+  });
+
   describe('pingHost', () => {
     it('returns node-agent ping result payload', async () => {
       commandRouter.routePingHostCommand.mockResolvedValue({
@@ -646,6 +782,94 @@ describe('HostsController additional branches', () => {
     });
   });
 
+  describe('bulkHostOperation', () => {
+    it('rejects invalid bulk payloads', async () => {
+      const req = createMockRequest({ body: { action: 'sleep', fqns: ['desktop@lab'] } });
+      const res = createMockResponse();
+
+      await controller.bulkHostOperation(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(commandRouter.routeBulkHostCommand).not.toHaveBeenCalled();
+    });
+
+    it('forwards idempotency, correlation and verify options to the router', async () => {
+      const payload = {
+        action: 'wake',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:01.000Z',
+        summary: { total: 1, succeeded: 1, failed: 0 },
+        results: [{ fqn: 'desktop@lab', success: true, state: 'acknowledged', commandId: 'cmd-1' }],
+        correlationId: 'cid-bulk',
+      };
+      commandRouter.routeBulkHostCommand.mockResolvedValue(payload);
+
+      const req = createMockRequest({
+        body: { action: 'wake', fqns: ['desktop@lab'], verify: true },
+        correlationId: 'cid-bulk',
+        headers: { 'Idempotency-Key': ' bulk-1 ' },
+      });
+      const res = createMockResponse();
+
+      await controller.bulkHostOperation(req, res);
+
+      expect(commandRouter.routeBulkHostCommand).toHaveBeenCalledWith(
+        { action: 'wake', fqns: ['desktop@lab'], verify: true },
+        {
+          idempotencyKey: 'bulk-1',
+          correlationId: 'cid-bulk',
+          verify: { timeoutMs: 120_000, pollIntervalMs: 3_000 },
+        },
+      );
+      expect(res.json).toHaveBeenCalledWith(payload);
+    });
+
+    it('persists port snapshots for successful bulk scan-ports items', async () => {
+      const portScan = {
+        scannedAt: '2026-02-18T00:00:01.000Z',
+        openPorts: [{ port: 22, protocol: 'tcp', service: 'ssh' }],
+      };
+      commandRouter.routeBulkHostCommand.mockResolvedValue({
+        action: 'scan-ports',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:01.000Z',
+        summary: { total: 2, succeeded: 1, failed: 1 },
+        results: [
+          { fqn: 'desktop@lab', success: true, state: 'acknowledged', portScan },
+          { fqn: 'nas@lab', success: false, state: 'failed', error: 'Node node-1 (lab) is offline' },
+        ],
+      });
+
+      const req = createMockRequest({ body: { action: 'scan-ports', fqns: ['desktop@lab', 'nas@lab'] } });
+      const res = createMockResponse();
+
+      await controller.bulkHostOperation(req, res);
+
+      expect(hostAggregator.saveHostPortScanSnapshot).toHaveBeenCalledTimes(1);
+      expect(hostAggregator.saveHostPortScanSnapshot).toHaveBeenCalledWith('desktop@lab', portScan);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the router throws', async () => {
+      commandRouter.routeBulkHostCommand.mockRejectedValue(new Error('boom'));
+
+      const req = createMockRequest({
+        body: { action: 'delete', fqns: ['desktop@lab'] },
+        correlationId: 'cid-bulk',
+      });
+      const res = createMockResponse();
+
+      await controller.bulkHostOperation(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Internal Server Error',
+        message: 'Failed to run bulk host operation',
+        correlationId: 'cid-bulk',
+      });
+    });
+  });
+
   describe('deleteHost', () => {
     it('returns success payload and falls back to request correlation id', async () => {
       commandRouter.routeDeleteHostCommand.mockResolvedValue({ success: true });
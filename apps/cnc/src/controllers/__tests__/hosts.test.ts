@@ -120,6 +120,7 @@ describe('HostsController.getMacVendor', () => {
 describe('HostsController.updateHost', () => {
   let controller: HostsController;
   let mockCommandRouter: any;
+  let mockHostAggregator: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -128,9 +129,13 @@ describe('HostsController.updateHost', () => {
     mockCommandRouter = {
       routeUpdateHostCommand: jest.fn(),
     };
-    
-    // HostAggregator is not used by updateHost
-    controller = new HostsController(null as any, mockCommandRouter);
+
+    // Only consulted when a non-admin sends a wake strategy
+    mockHostAggregator = {
+      getHostByFQN: jest.fn(),
+    };
+
+    controller = new HostsController(mockHostAggregator, mockCommandRouter);
   });
 
   function createMockRequest(body: any, fqn: string = 'testhost@location', headers?: any): Request {
@@ -256,6 +261,79 @@ describe('HostsController.updateHost', () => {
       });
     });
 
+    it('should forward SecureOn password updates', async () => {
+      mockCommandRouter.routeUpdateHostCommand.mockResolvedValueOnce({ success: true });
+
+      const req = createMockRequest({ secureOnPassword: '01:23:45:67:89:AB' });
+      const res = createMockResponse();
+
+      await controller.updateHost(req, res);
+
+      expect(mockCommandRouter.routeUpdateHostCommand).toHaveBeenCalledWith(
+        'testhost@location',
+        { secureOnPassword: '01:23:45:67:89:AB' },
+        { idempotencyKey: null }
+      );
+
+      const invalidRes = createMockResponse();
+      await controller.updateHost(createMockRequest({ secureOnPassword: '01:23:45' }), invalidRes);
+      expect(invalidRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should forward wake strategy updates', async () => {
+      mockCommandRouter.routeUpdateHostCommand.mockResolvedValueOnce({ success: true });
+      const wakeStrategy = {
+        resendCount: 1,
+        fallback: { type: 'ipmi', address: '192.168.1.50', username: 'ADMIN', passwordFile: '/etc/woly/ipmi' },
+      };
+      const req = createMockRequest({ wakeStrategy });
+      req.auth = { sub: 'admin', roles: ['admin'], claims: {} };
+
+      await controller.updateHost(req, createMockResponse());
+
+      expect(mockCommandRouter.routeUpdateHostCommand).toHaveBeenCalledWith(
+        'testhost@location',
+        { wakeStrategy },
+        { idempotencyKey: null }
+      );
+
+      const invalidRes = createMockResponse();
+      await controller.updateHost(
+        createMockRequest({ wakeStrategy: { fallback: { type: 'webhook', url: 'ftp://plug.local/on' } } }),
+        invalidRes
+      );
+      expect(invalidRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should only let admins change the wake strategy fallback', async () => {
+      const fallback = { type: 'webhook', url: 'http://plug.local/on', method: 'POST' };
+      mockHostAggregator.getHostByFQN.mockResolvedValue({ wakeStrategy: { resendCount: 1, fallback } });
+      const asOperator = (body: unknown): Request => {
+        const req = createMockRequest(body);
+        req.auth = { sub: 'user-1', roles: ['operator'], userId: 'user-1', claims: {} };
+        return req;
+      };
+
+      for (const wakeStrategy of [
+        { resendCount: 2, fallback: { ...fallback, url: 'http://attacker.example/collect' } },
+        { resendCount: 2 },
+        null,
+      ]) {
+        const res = createMockResponse();
+        await controller.updateHost(asOperator({ wakeStrategy }), res);
+        expect(res.status).toHaveBeenCalledWith(403);
+      }
+      expect(mockCommandRouter.routeUpdateHostCommand).not.toHaveBeenCalled();
+
+      mockCommandRouter.routeUpdateHostCommand.mockResolvedValueOnce({ success: true });
+      await controller.updateHost(asOperator({ wakeStrategy: { resendCount: 3, fallback } }), createMockResponse());
+      expect(mockCommandRouter.routeUpdateHostCommand).toHaveBeenCalledWith(
+        'testhost@location',
+        { wakeStrategy: { resendCount: 3, fallback } },
+        { idempotencyKey: null }
+      );
+    });
+
     it('should accept wolPort metadata updates', async () => {
       mockCommandRouter.routeUpdateHostCommand.mockResolvedValueOnce({ success: true });
 
@@ -72,6 +72,31 @@ describe('buildCncCapabilitiesResponse', () => {
       routes: ['/api/hosts/:fqn/shutdown'],
       persistence: 'backend',
     });
+    expect(payload.capabilities.hostGroups).toMatchObject({
+      supported: true,
+      routes: expect.arrayContaining(['/api/groups', '/api/groups/:id/wake']),
+      persistence: 'backend',
+    });
+    expect(payload.capabilities.wakeDependencies).toMatchObject({
+      supported: true,
+      routes: ['/api/hosts/:fqn/dependencies', '/api/hosts/wake-jobs/:jobId'],
+    });
+    expect(payload.capabilities.wakeRelay).toMatchObject({
+      supported: true,
+      routes: ['/api/hosts/:fqn/wake-relay'],
+    });
+    expect(payload.capabilities.wakeStrategy).toMatchObject({
+      supported: true,
+      routes: ['/api/hosts/:fqn'],
+    });
+    expect(payload.capabilities.outOfBandPower).toMatchObject({
+      supported: true,
+      routes: ['/api/hosts/:fqn/power'],
+    });
+    expect(payload.capabilities.bulkHostOperations).toMatchObject({
+      supported: true,
+      routes: ['/api/hosts/bulk'],
+    });
     expect(cncCapabilitiesResponseSchema.safeParse(payload).success).toBe(true);
   });
 
@@ -0,0 +1,160 @@
+import type { Request, Response } from 'express';
+import { ResourceAclController } from '../resourceAcl';
+import { NodeModel } from '../../models/Node';
+import ResourceAclModel from '../../models/ResourceAcl';
+import UserModel from '../../models/User';
+import type { AccessControl } from '../../services/accessControl';
+import type { HostAggregator } from '../../services/hostAggregator';
+
+jest.mock('../../models/Node', () => ({
+  NodeModel: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/ResourceAcl', () => ({
+  __esModule: true,
+  default: {
+    listForResource: jest.fn(),
+    grant: jest.fn(),
+    revoke: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(params: Record<string, string>, body?: unknown): Request {
+  return {
+    params,
+    query: {},
+    body: body ?? {},
+    auth: { sub: 'user-1', roles: ['operator'], userId: 'user-1', claims: {} },
+  } as unknown as Request;
+}
+
+const entry = {
+  resourceType: 'host' as const,
+  resourceId: 'desktop@home',
+  userId: 'user-2',
+  username: 'bob',
+  permission: 'operate' as const,
+  createdAt: '2026-02-18T00:00:00.000Z',
+};
+
+describe('ResourceAclController', () => {
+  const mockedAcl = ResourceAclModel as jest.Mocked<typeof ResourceAclModel>;
+  const mockedUsers = UserModel as jest.Mocked<typeof UserModel>;
+  const mockedNodes = NodeModel as jest.Mocked<typeof NodeModel>;
+  const findForbidden = jest.fn();
+  const getHostByFQN = jest.fn();
+  let controller: ResourceAclController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findForbidden.mockResolvedValue([]);
+    getHostByFQN.mockResolvedValue({ fullyQualifiedName: 'desktop@home', nodeId: 'home-node' });
+    controller = new ResourceAclController(
+      { findForbidden } as unknown as AccessControl,
+      { getHostByFQN } as unknown as HostAggregator,
+    );
+  });
+
+  it('lists the ACL of a resource for its owner', async () => {
+    mockedAcl.listForResource.mockResolvedValue([entry]);
+    const res = createMockResponse();
+
+    await controller.listResourceAcl(createMockRequest({ resourceType: 'host', resourceId: 'desktop@home' }), res);
+
+    expect(findForbidden).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), 'host', ['desktop@home'], 'owner');
+    expect(res.json).toHaveBeenCalledWith({ resourceType: 'host', resourceId: 'desktop@home', entries: [entry] });
+  });
+
+  it('returns 403 to non-owners and 404 for unknown resources', async () => {
+    findForbidden.mockResolvedValue(['desktop@home']);
+    const forbidden = createMockResponse();
+    await controller.grantAccess(
+      createMockRequest({ resourceType: 'host', resourceId: 'desktop@home' }, { userId: 'user-2', permission: 'view' }),
+      forbidden,
+    );
+    expect(forbidden.status).toHaveBeenCalledWith(403);
+
+    mockedNodes.findById.mockResolvedValue(null);
+    const missing = createMockResponse();
+    await controller.listResourceAcl(createMockRequest({ resourceType: 'node', resourceId: 'ghost' }), missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+
+    const invalid = createMockResponse();
+    await controller.listResourceAcl(createMockRequest({ resourceType: 'group', resourceId: 'x' }), invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+    expect(mockedAcl.grant).not.toHaveBeenCalled();
+  });
+
+  it('grants access to existing users and revokes grants', async () => {
+    mockedUsers.findById.mockResolvedValueOnce({
+      id: 'user-2',
+      username: 'bob',
+      role: 'operator',
+      disabled: false,
+      createdAt: '2026-02-18T00:00:00.000Z',
+      updatedAt: '2026-02-18T00:00:00.000Z',
+    });
+    mockedAcl.grant.mockResolvedValue(entry);
+    const granted = createMockResponse();
+    await controller.grantAccess(
+      createMockRequest({ resourceType: 'host', resourceId: 'desktop@home' }, { userId: 'user-2', permission: 'operate' }),
+      granted,
+    );
+    expect(mockedAcl.grant).toHaveBeenCalledWith('host', 'desktop@home', 'user-2', 'operate');
+    expect(granted.json).toHaveBeenCalledWith(entry);
+
+    mockedUsers.findById.mockResolvedValueOnce(null);
+    const unknownUser = createMockResponse();
+    await controller.grantAccess(
+      createMockRequest({ resourceType: 'host', resourceId: 'desktop@home' }, { userId: 'ghost', permission: 'view' }),
+      unknownUser,
+    );
+    expect(unknownUser.status).toHaveBeenCalledWith(404);
+
+    mockedAcl.revoke.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const revoked = createMockResponse();
+    await controller.revokeAccess(
+      createMockRequest({ resourceType: 'host', resourceId: 'desktop@home', userId: 'user-2' }),
+      revoked,
+    );
+    expect(revoked.json).toHaveBeenCalledWith({
+      success: true,
+      resourceType: 'host',
+      resourceId: 'desktop@home',
+      userId: 'user-2',
+    });
+
+    const notGranted = createMockResponse();
+    await controller.revokeAccess(
+      createMockRequest({ resourceType: 'host', resourceId: 'desktop@home', userId: 'user-2' }),
+      notGranted,
+    );
+    expect(notGranted.status).toHaveBeenCalledWith(404);
+  });
+});
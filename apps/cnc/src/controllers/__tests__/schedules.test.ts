@@ -1,7 +1,9 @@
 import type { Request, Response } from 'express';
 import type { HostWakeSchedule } from '@kaonis/woly-protocol';
 import { SchedulesController } from '../schedules';
+import ExceptionCalendarModel from '../../models/ExceptionCalendar';
 import HostScheduleModel from '../../models/HostSchedule';
+import HostScheduleExecutionModel from '../../models/HostScheduleExecution';
 
 jest.mock('../../models/HostSchedule', () => ({
   __esModule: true,
@@ -12,6 +14,23 @@ jest.mock('../../models/HostSchedule', () => ({
     create: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
+    withSkippedRuns: jest.fn(async (schedules: unknown[]) => schedules),
+    resolveTriggerSpec: jest.fn(async (schedule: unknown) => schedule),
+  },
+}));
+
+jest.mock('../../models/ExceptionCalendar', () => ({
+  __esModule: true,
+  default: {
+    findByIds: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/HostScheduleExecution', () => ({
+  __esModule: true,
+  default: {
+    listBySchedule: jest.fn(),
+    deleteBySchedule: jest.fn(),
   },
 }));
 
@@ -68,6 +87,8 @@ function sampleSchedule(overrides: Partial<HostWakeSchedule> = {}): HostWakeSche
 
 describe('SchedulesController', () => {
   const mockedHostScheduleModel = HostScheduleModel as jest.Mocked<typeof HostScheduleModel>;
+  const mockedExecutionModel = HostScheduleExecutionModel as jest.Mocked<typeof HostScheduleExecutionModel>;
+  const mockedCalendarModel = ExceptionCalendarModel as jest.Mocked<typeof ExceptionCalendarModel>;
 
   let hostAggregator: {
     getHostByFQN: jest.Mock;
@@ -99,6 +120,27 @@ describe('SchedulesController', () => {
       });
     });
 
+    it('includes skipped runs of schedules with exception calendars', async () => {
+      const skippedRun = {
+        scheduledFor: '2026-12-25T10:00:00.000Z',
+        date: '2026-12-25',
+        calendarId: 'calendar-1',
+        calendarName: 'Holidays',
+        reason: 'Christmas Day',
+      };
+      const schedule = sampleSchedule({ exceptionCalendarIds: ['calendar-1'] });
+      mockedHostScheduleModel.listAll.mockResolvedValue([schedule]);
+      mockedHostScheduleModel.withSkippedRuns.mockResolvedValueOnce([{ ...schedule, skippedRuns: [skippedRun] }]);
+      const res = createMockResponse();
+
+      await controller.listSchedules(createMockRequest(), res);
+
+      expect(mockedHostScheduleModel.withSkippedRuns).toHaveBeenCalledWith([schedule]);
+      expect(res.json).toHaveBeenCalledWith({
+        schedules: [{ ...schedule, skippedRuns: [skippedRun] }],
+      });
+    });
+
     it('supports enabled query filtering', async () => {
       mockedHostScheduleModel.listAll.mockResolvedValue([sampleSchedule()]);
       const req = createMockRequest({ query: { enabled: 'true' } });
@@ -200,6 +242,80 @@ describe('SchedulesController', () => {
 
       expect(res.json).toHaveBeenCalledWith(sampleSchedule());
     });
+
+    it('includes upcoming fire times when a preview is requested', async () => {
+      mockedHostScheduleModel.findById.mockResolvedValue(
+        sampleSchedule({
+          scheduledTime: '2020-01-01T00:00:00.000Z',
+          frequency: 'cron',
+          cronExpression: '0 9 * * *',
+        }),
+      );
+      const req = createMockRequest({ params: { id: 'schedule-1' }, query: { preview: '3' } });
+      const res = createMockResponse();
+
+      await controller.getSchedule(req, res);
+
+      const payload = (res.json as jest.Mock).mock.calls[0][0] as HostWakeSchedule;
+      expect(payload.upcomingTriggers).toHaveLength(3);
+      expect(payload.upcomingTriggers?.every((trigger) => trigger.endsWith('T09:00:00.000Z'))).toBe(true);
+    });
+
+    it('returns 400 for invalid preview counts', async () => {
+      const req = createMockRequest({ params: { id: 'schedule-1' }, query: { preview: '51' } });
+      const res = createMockResponse();
+
+      await controller.getSchedule(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockedHostScheduleModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listScheduleExecutions', () => {
+    it('returns the execution log of an existing schedule', async () => {
+      const execution = {
+        id: 3,
+        scheduleId: 'schedule-1',
+        hostFqn: 'office@home',
+        action: 'wake' as const,
+        attemptedAt: '2026-02-20T10:00:00.000Z',
+        outcome: 'failed' as const,
+        commandId: 'cmd-3',
+        commandState: 'acknowledged' as const,
+        correlationId: 'schedule:schedule-1:1',
+        wakeVerification: null,
+        error: 'Wake verification timeout',
+        completedAt: '2026-02-20T10:02:00.000Z',
+      };
+      mockedHostScheduleModel.findById.mockResolvedValue(sampleSchedule());
+      mockedExecutionModel.listBySchedule.mockResolvedValue([execution]);
+      const res = createMockResponse();
+
+      await controller.listScheduleExecutions(
+        createMockRequest({ params: { id: 'schedule-1' }, query: { limit: '10' } }),
+        res,
+      );
+
+      expect(mockedExecutionModel.listBySchedule).toHaveBeenCalledWith('schedule-1', 10);
+      expect(res.json).toHaveBeenCalledWith({ scheduleId: 'schedule-1', executions: [execution] });
+    });
+
+    it('returns 404 for unknown schedules and 400 for invalid limits', async () => {
+      mockedHostScheduleModel.findById.mockResolvedValue(null);
+      const missingRes = createMockResponse();
+      await controller.listScheduleExecutions(createMockRequest({ params: { id: 'missing' } }), missingRes);
+
+      const invalidRes = createMockResponse();
+      await controller.listScheduleExecutions(
+        createMockRequest({ params: { id: 'schedule-1' }, query: { limit: '0' } }),
+        invalidRes,
+      );
+
+      expect(missingRes.status).toHaveBeenCalledWith(404);
+      expect(invalidRes.status).toHaveBeenCalledWith(400);
+      expect(mockedExecutionModel.listBySchedule).not.toHaveBeenCalled();
+    });
   });
 
   describe('listHostSchedules', () => {
@@ -314,6 +430,170 @@ describe('SchedulesController', () => {
       expect(res.status).toHaveBeenCalledWith(201);
       expect(res.json).toHaveBeenCalledWith(sampleSchedule());
     });
+
+    it('validates and stores exception calendar references', async () => {
+      hostAggregator.getHostByFQN.mockResolvedValue({ name: 'office', mac: 'AA:BB:CC:DD:EE:FF' });
+      mockedCalendarModel.findByIds.mockResolvedValue([
+        {
+          id: 'calendar-1',
+          name: 'Holidays',
+          source: 'dates',
+          dates: [],
+          createdAt: '2026-02-18T00:00:00.000Z',
+          updatedAt: '2026-02-18T00:00:00.000Z',
+        },
+      ]);
+      mockedHostScheduleModel.create.mockResolvedValue(sampleSchedule({ exceptionCalendarIds: ['calendar-1'] }));
+      const body = {
+        scheduledTime: '2026-02-20T10:00:00.000Z',
+        frequency: 'daily',
+        exceptionCalendarIds: ['calendar-1', 'calendar-2'],
+      };
+
+      const rejected = createMockResponse();
+      await controller.createHostSchedule(createMockRequest({ params: { fqn: 'office@home' }, body }), rejected);
+      expect(rejected.status).toHaveBeenCalledWith(400);
+      expect(rejected.json).toHaveBeenCalledWith({
+        error: 'Bad Request',
+        message: 'Unknown exception calendar ids: calendar-2',
+      });
+      expect(mockedHostScheduleModel.create).not.toHaveBeenCalled();
+
+      const created = createMockResponse();
+      await controller.createHostSchedule(
+        createMockRequest({ params: { fqn: 'office@home' }, body: { ...body, exceptionCalendarIds: ['calendar-1'] } }),
+        created,
+      );
+      expect(mockedHostScheduleModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ exceptionCalendarIds: ['calendar-1'] }),
+      );
+      expect(created.status).toHaveBeenCalledWith(201);
+    });
+
+    it('creates cron schedules with their expression and timezone', async () => {
+      hostAggregator.getHostByFQN.mockResolvedValue({ name: 'office', mac: 'AA:BB:CC:DD:EE:FF' });
+      mockedHostScheduleModel.create.mockResolvedValue(sampleSchedule({ frequency: 'cron' }));
+      const req = createMockRequest({
+        params: { fqn: 'office@home' },
+        body: {
+          scheduledTime: '2026-02-20T10:00:00.000Z',
+          frequency: 'cron',
+          cronExpression: '30 7 * * TUE#2',
+          timezone: 'Europe/Berlin',
+        },
+      });
+      const res = createMockResponse();
+
+      await controller.createHostSchedule(req, res);
+
+      expect(mockedHostScheduleModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          frequency: 'cron',
+          cronExpression: '30 7 * * TUE#2',
+          timezone: 'Europe/Berlin',
+        }),
+      );
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('returns 400 for unparseable cron expressions and unknown timezones', async () => {
+      hostAggregator.getHostByFQN.mockResolvedValue({ name: 'office', mac: 'AA:BB:CC:DD:EE:FF' });
+      const cronRes = createMockResponse();
+      await controller.createHostSchedule(
+        createMockRequest({
+          params: { fqn: 'office@home' },
+          body: { scheduledTime: '2026-02-20T10:00:00.000Z', frequency: 'cron', cronExpression: '0 7 * *' },
+        }),
+        cronRes,
+      );
+
+      const timezoneRes = createMockResponse();
+      await controller.createHostSchedule(
+        createMockRequest({
+          params: { fqn: 'office@home' },
+          body: { scheduledTime: '2026-02-20T10:00:00.000Z', frequency: 'daily', timezone: 'Nowhere/City' },
+        }),
+        timezoneRes,
+      );
+
+      expect(cronRes.status).toHaveBeenCalledWith(400);
+      expect(cronRes.json).toHaveBeenCalledWith({
+        error: 'Bad Request',
+        message: 'Invalid cron expression "0 7 * *": expected 5 fields',
+      });
+      expect(timezoneRes.status).toHaveBeenCalledWith(400);
+      expect(mockedHostScheduleModel.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects sleep and shutdown schedules for hosts without power control', async () => {
+      hostAggregator.getHostByFQN.mockResolvedValue({
+        name: 'office',
+        mac: 'AA:BB:CC:DD:EE:FF',
+        powerControl: { enabled: false, transport: 'ssh', platform: 'linux', ssh: { username: 'ops' } },
+      });
+      const req = createMockRequest({
+        params: { fqn: 'office@home' },
+        body: { scheduledTime: '2026-02-20T22:00:00.000Z', frequency: 'daily', action: 'shutdown' },
+      });
+      const res = createMockResponse();
+
+      await controller.createHostSchedule(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Bad Request',
+        message:
+          'Host office@home has no enabled power control configuration; shutdown schedules require powerControl.enabled',
+      });
+      expect(mockedHostScheduleModel.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects sleep schedules for hosts on the redfish power control transport', async () => {
+      hostAggregator.getHostByFQN.mockResolvedValue({
+        name: 'rack-01',
+        mac: 'AA:BB:CC:DD:EE:01',
+        powerControl: {
+          enabled: true,
+          transport: 'redfish',
+          redfish: { baseUrl: 'https://10.0.0.50', username: 'ADMIN' },
+        },
+      });
+      const req = createMockRequest({
+        params: { fqn: 'rack-01@lab' },
+        body: { scheduledTime: '2026-02-20T22:00:00.000Z', frequency: 'daily', action: 'sleep' },
+      });
+      const res = createMockResponse();
+
+      await controller.createHostSchedule(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Bad Request',
+        message: 'Host rack-01@lab uses the redfish power control transport, which cannot put hosts to sleep',
+      });
+      expect(mockedHostScheduleModel.create).not.toHaveBeenCalled();
+    });
+
+    it('creates sleep schedules for hosts with power control enabled', async () => {
+      hostAggregator.getHostByFQN.mockResolvedValue({
+        name: 'office',
+        mac: 'AA:BB:CC:DD:EE:FF',
+        powerControl: { enabled: true, transport: 'ssh', platform: 'linux', ssh: { username: 'ops' } },
+      });
+      mockedHostScheduleModel.create.mockResolvedValue(sampleSchedule({ action: 'sleep' }));
+      const req = createMockRequest({
+        params: { fqn: 'office@home' },
+        body: { scheduledTime: '2026-02-20T22:00:00.000Z', frequency: 'daily', action: 'sleep' },
+      });
+      const res = createMockResponse();
+
+      await controller.createHostSchedule(req, res);
+
+      expect(mockedHostScheduleModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ hostFqn: 'office@home', action: 'sleep' }),
+      );
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
   });
 
   describe('updateSchedule', () => {
@@ -367,6 +647,40 @@ describe('SchedulesController', () => {
       expect(res.json).toHaveBeenCalledWith(sampleSchedule({ enabled: false }));
     });
 
+    it('validates trigger changes against the stored schedule', async () => {
+      mockedHostScheduleModel.findById.mockResolvedValue(sampleSchedule());
+      const req = createMockRequest({
+        params: { id: 'schedule-1' },
+        body: { frequency: 'cron' },
+      });
+      const res = createMockResponse();
+
+      await controller.updateSchedule(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Bad Request',
+        message: 'cronExpression is required when frequency is cron',
+      });
+      expect(mockedHostScheduleModel.update).not.toHaveBeenCalled();
+    });
+
+    it('checks power control of the scheduled host when switching to a power action', async () => {
+      mockedHostScheduleModel.findById.mockResolvedValue(sampleSchedule());
+      hostAggregator.getHostByFQN.mockResolvedValue({ name: 'office', mac: 'AA:BB:CC:DD:EE:FF' });
+      const req = createMockRequest({
+        params: { id: 'schedule-1' },
+        body: { action: 'sleep' },
+      });
+      const res = createMockResponse();
+
+      await controller.updateSchedule(req, res);
+
+      expect(hostAggregator.getHostByFQN).toHaveBeenCalledWith('office@home');
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockedHostScheduleModel.update).not.toHaveBeenCalled();
+    });
+
     it('returns 500 when update throws', async () => {
       mockedHostScheduleModel.update.mockRejectedValue(new Error('update failure'));
       const req = createMockRequest({
@@ -408,6 +722,7 @@ describe('SchedulesController', () => {
 
       await controller.deleteSchedule(req, res);
 
+      expect(mockedExecutionModel.deleteBySchedule).toHaveBeenCalledWith('schedule-1');
       expect(res.json).toHaveBeenCalledWith({ success: true, id: 'schedule-1' });
     });
 
@@ -0,0 +1,162 @@
+import type { Request, Response } from 'express';
+import { UsersController } from '../users';
+import RefreshTokenModel from '../../models/RefreshToken';
+import UserModel from '../../models/User';
+
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: {
+    list: jest.fn(),
+    findById: jest.fn(),
+    findByUsername: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/RefreshToken', () => ({
+  __esModule: true,
+  default: {
+    revokeAllForUser: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/ResourceAcl', () => ({
+  __esModule: true,
+  default: {
+    listForUser: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(options?: {
+  params?: Record<string, string>;
+  body?: unknown;
+  userId?: string;
+}): Request {
+  return {
+    params: options?.params ?? {},
+    query: {},
+    body: options?.body ?? {},
+    auth: { sub: options?.userId ?? 'admin-token', roles: ['admin'], userId: options?.userId, claims: {} },
+  } as unknown as Request;
+}
+
+const user = {
+  id: 'user-1',
+  username: 'alice',
+  role: 'operator' as const,
+  disabled: false,
+  createdAt: '2026-02-18T00:00:00.000Z',
+  updatedAt: '2026-02-18T00:00:00.000Z',
+};
+
+describe('UsersController', () => {
+  const mockedUsers = UserModel as jest.Mocked<typeof UserModel>;
+  const mockedTokens = RefreshTokenModel as jest.Mocked<typeof RefreshTokenModel>;
+  let controller: UsersController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedUsers.findByUsername.mockResolvedValue(null);
+    mockedTokens.revokeAllForUser.mockResolvedValue(2);
+    controller = new UsersController();
+  });
+
+  it('creates operators by default with a hashed password', async () => {
+    mockedUsers.create.mockResolvedValue(user);
+    const res = createMockResponse();
+
+    await controller.createUser(
+      createMockRequest({ body: { username: 'alice', password: 'correct horse battery' } }),
+      res,
+    );
+
+    const input = mockedUsers.create.mock.calls[0][0];
+    expect(input).toMatchObject({ username: 'alice', role: 'operator' });
+    expect(input.passwordHash).toMatch(/^scrypt\$/);
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith(user);
+  });
+
+  it('rejects weak passwords and duplicate usernames', async () => {
+    const weak = createMockResponse();
+    await controller.createUser(createMockRequest({ body: { username: 'alice', password: 'short' } }), weak);
+    expect(weak.status).toHaveBeenCalledWith(400);
+
+    mockedUsers.findByUsername.mockResolvedValue(user);
+    const duplicate = createMockResponse();
+    await controller.createUser(
+      createMockRequest({ body: { username: 'ALICE', password: 'correct horse battery' } }),
+      duplicate,
+    );
+    expect(duplicate.status).toHaveBeenCalledWith(409);
+    expect(mockedUsers.create).not.toHaveBeenCalled();
+  });
+
+  it('revokes sessions when the password changes or the account is disabled', async () => {
+    mockedUsers.update.mockResolvedValue(user);
+
+    await controller.updateUser(
+      createMockRequest({ params: { id: 'user-1' }, body: { role: 'admin' } }),
+      createMockResponse(),
+    );
+    expect(mockedUsers.update).toHaveBeenLastCalledWith('user-1', { role: 'admin' });
+    expect(mockedTokens.revokeAllForUser).not.toHaveBeenCalled();
+
+    await controller.updateUser(
+      createMockRequest({ params: { id: 'user-1' }, body: { disabled: true } }),
+      createMockResponse(),
+    );
+    expect(mockedTokens.revokeAllForUser).toHaveBeenCalledWith('user-1');
+
+    mockedUsers.update.mockResolvedValue(null);
+    const missing = createMockResponse();
+    await controller.updateUser(
+      createMockRequest({ params: { id: 'missing' }, body: { password: 'correct horse battery' } }),
+      missing,
+    );
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+
+  it('refuses to delete the calling account', async () => {
+    const self = createMockResponse();
+    await controller.deleteUser(createMockRequest({ params: { id: 'user-1' }, userId: 'user-1' }), self);
+    expect(self.status).toHaveBeenCalledWith(400);
+    expect(mockedUsers.delete).not.toHaveBeenCalled();
+
+    mockedUsers.delete.mockResolvedValue(true);
+    const deleted = createMockResponse();
+    await controller.deleteUser(createMockRequest({ params: { id: 'user-1' } }), deleted);
+    expect(deleted.json).toHaveBeenCalledWith({ success: true, id: 'user-1' });
+  });
+
+  it('revokes all sessions of an existing user', async () => {
+    mockedUsers.findById.mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+
+    const revoked = createMockResponse();
+    await controller.revokeUserSessions(createMockRequest({ params: { id: 'user-1' } }), revoked);
+    expect(revoked.json).toHaveBeenCalledWith({ success: true, id: 'user-1', revoked: 2 });
+
+    const missing = createMockResponse();
+    await controller.revokeUserSessions(createMockRequest({ params: { id: 'missing' } }), missing);
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Request, Response } from 'express';
+import { WakeDependenciesController } from '../wakeDependencies';
+import HostWakeDependencyModel from '../../models/HostWakeDependency';
+
+jest.mock('../../models/HostWakeDependency', () => ({
+  __esModule: true,
+  default: {
+    listDependsOn: jest.fn(),
+    replaceForHost: jest.fn(),
+    findCycle: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(fqn: string, body?: unknown): Request {
+  return {
+    params: { fqn },
+    query: {},
+    body: body ?? {},
+  } as unknown as Request;
+}
+
+describe('WakeDependenciesController', () => {
+  const mockedModel = HostWakeDependencyModel as jest.Mocked<typeof HostWakeDependencyModel>;
+  const knownHosts = new Set(['plex@home', 'nas@home', 'switch@home']);
+  let hostAggregator: { getHostByFQN: jest.Mock };
+  let controller: WakeDependenciesController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    hostAggregator = {
+      getHostByFQN: jest.fn(async (fqn: string) => (knownHosts.has(fqn) ? { name: fqn.split('@')[0] } : null)),
+    };
+    controller = new WakeDependenciesController(hostAggregator as unknown as never);
+  });
+
+  it('lists prerequisites for known hosts', async () => {
+    mockedModel.listDependsOn.mockResolvedValue(['nas@home']);
+    const res = createMockResponse();
+
+    await controller.getDependencies(createMockRequest('plex@home'), res);
+
+    expect(res.json).toHaveBeenCalledWith({ fqn: 'plex@home', dependsOn: ['nas@home'] });
+  });
+
+  it('returns 404 for unknown hosts', async () => {
+    const res = createMockResponse();
+
+    await controller.updateDependencies(createMockRequest('ghost@home', { dependsOn: [] }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(mockedModel.replaceForHost).not.toHaveBeenCalled();
+  });
+
+  it('rejects self dependencies and unknown prerequisites', async () => {
+    const selfRes = createMockResponse();
+    await controller.updateDependencies(createMockRequest('plex@home', { dependsOn: ['plex@home'] }), selfRes);
+    expect(selfRes.status).toHaveBeenCalledWith(400);
+
+    const unknownRes = createMockResponse();
+    await controller.updateDependencies(createMockRequest('plex@home', { dependsOn: ['ghost@home'] }), unknownRes);
+    expect(unknownRes.status).toHaveBeenCalledWith(400);
+    expect(unknownRes.json).toHaveBeenCalledWith(
+      expect.objectContaining({ details: { unknownHosts: ['ghost@home'] } }),
+    );
+    expect(mockedModel.replaceForHost).not.toHaveBeenCalled();
+  });
+
+  it('rejects definitions that would create a cycle', async () => {
+    mockedModel.findCycle.mockResolvedValue(['nas@home', 'plex@home', 'nas@home']);
+    const res = createMockResponse();
+
+    await controller.updateDependencies(createMockRequest('nas@home', { dependsOn: ['plex@home'] }), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Conflict',
+      message: 'Wake dependency cycle detected: nas@home -> plex@home -> nas@home',
+      details: { cycle: ['nas@home', 'plex@home', 'nas@home'] },
+    });
+    expect(mockedModel.replaceForHost).not.toHaveBeenCalled();
+  });
+
+  it('stores acyclic prerequisites', async () => {
+    mockedModel.findCycle.mockResolvedValue(null);
+    mockedModel.replaceForHost.mockResolvedValue(['nas@home', 'switch@home']);
+    const res = createMockResponse();
+
+    await controller.updateDependencies(
+      createMockRequest('plex@home', { dependsOn: ['nas@home', 'switch@home'] }),
+      res,
+    );
+
+    expect(mockedModel.replaceForHost).toHaveBeenCalledWith('plex@home', ['nas@home', 'switch@home']);
+    expect(res.json).toHaveBeenCalledWith({ fqn: 'plex@home', dependsOn: ['nas@home', 'switch@home'] });
+  });
+});
@@ -0,0 +1,131 @@
+import type { Request, Response } from 'express';
+import { WakeRelayController } from '../wakeRelay';
+import HostWakeRelayModel from '../../models/HostWakeRelay';
+import { NodeModel } from '../../models/Node';
+
+jest.mock('../../models/HostWakeRelay', () => ({
+  __esModule: true,
+  default: {
+    findByHost: jest.fn(),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/Node', () => ({
+  NodeModel: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function createMockRequest(fqn: string, body?: unknown): Request {
+  return {
+    params: { fqn },
+    query: {},
+    body: body ?? {},
+  } as unknown as Request;
+}
+
+describe('WakeRelayController', () => {
+  const mockedModel = HostWakeRelayModel as jest.Mocked<typeof HostWakeRelayModel>;
+  const mockedNodeModel = NodeModel as jest.Mocked<typeof NodeModel>;
+  const relay = {
+    fqn: 'nas@home',
+    relayNodeId: 'lab-node',
+    targetAddress: '192.168.20.255',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+  let controller: WakeRelayController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const hostAggregator = {
+      getHostByFQN: jest.fn(async (fqn: string) => (fqn === 'nas@home' ? { name: 'nas' } : null)),
+    };
+    mockedNodeModel.findById.mockImplementation(async (nodeId: string) =>
+      nodeId === 'lab-node' ? ({ id: 'lab-node' } as never) : null,
+    );
+    controller = new WakeRelayController(hostAggregator as unknown as never);
+  });
+
+  it('returns the relay of a host and 404 when none is set', async () => {
+    mockedModel.findByHost.mockResolvedValueOnce(relay).mockResolvedValueOnce(null);
+
+    const res = createMockResponse();
+    await controller.getRelay(createMockRequest('nas@home'), res);
+    expect(res.json).toHaveBeenCalledWith(relay);
+
+    const missingRes = createMockResponse();
+    await controller.getRelay(createMockRequest('nas@home'), missingRes);
+    expect(missingRes.status).toHaveBeenCalledWith(404);
+  });
+
+  it('stores a relay for a known node', async () => {
+    mockedModel.upsert.mockResolvedValue(relay);
+    const res = createMockResponse();
+
+    await controller.updateRelay(
+      createMockRequest('nas@home', { relayNodeId: 'lab-node', targetAddress: '192.168.20.255' }),
+      res,
+    );
+
+    expect(mockedModel.upsert).toHaveBeenCalledWith('nas@home', 'lab-node', '192.168.20.255');
+    expect(res.json).toHaveBeenCalledWith(relay);
+  });
+
+  it('rejects unknown relay nodes, invalid addresses and unknown hosts', async () => {
+    const unknownNodeRes = createMockResponse();
+    await controller.updateRelay(
+      createMockRequest('nas@home', { relayNodeId: 'ghost-node', targetAddress: '192.168.20.255' }),
+      unknownNodeRes,
+    );
+    expect(unknownNodeRes.status).toHaveBeenCalledWith(400);
+    expect(unknownNodeRes.json).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Unknown relay node: ghost-node' }),
+    );
+
+    const invalidRes = createMockResponse();
+    await controller.updateRelay(
+      createMockRequest('nas@home', { relayNodeId: 'lab-node', targetAddress: 'nas.local' }),
+      invalidRes,
+    );
+    expect(invalidRes.status).toHaveBeenCalledWith(400);
+
+    const unknownHostRes = createMockResponse();
+    await controller.updateRelay(
+      createMockRequest('ghost@home', { relayNodeId: 'lab-node', targetAddress: '192.168.20.255' }),
+      unknownHostRes,
+    );
+    expect(unknownHostRes.status).toHaveBeenCalledWith(404);
+    expect(mockedModel.upsert).not.toHaveBeenCalled();
+  });
+
+  it('removes a relay and reports hosts without one', async () => {
+    mockedModel.delete.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const res = createMockResponse();
+    await controller.deleteRelay(createMockRequest('nas@home'), res);
+    expect(res.json).toHaveBeenCalledWith({ success: true, fqn: 'nas@home' });
+
+    const missingRes = createMockResponse();
+    await controller.deleteRelay(createMockRequest('nas@home'), missingRes);
+    expect(missingRes.status).toHaveBeenCalledWith(404);
+  });
+});
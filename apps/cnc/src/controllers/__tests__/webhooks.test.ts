@@ -1,6 +1,7 @@
 import type { Request, Response } from 'express';
 import { WebhooksController } from '../webhooks';
 import WebhookModel from '../../models/Webhook';
+import type { WebhookDispatcher } from '../../services/webhookDispatcher';
 
 jest.mock('../../models/Webhook', () => ({
   __esModule: true,
@@ -9,7 +10,10 @@ jest.mock('../../models/Webhook', () => ({
     list: jest.fn(),
     delete: jest.fn(),
     findById: jest.fn(),
+    update: jest.fn(),
+    findTargetById: jest.fn(),
     listDeliveries: jest.fn(),
+    findDeliveryById: jest.fn(),
   },
 }));
 
@@ -42,13 +46,27 @@ function createMockRequest(options?: {
   } as unknown as Request;
 }
 
+const target = {
+  id: 'webhook-1',
+  url: 'https://example.com/hooks/woly',
+  events: ['host.awake' as const],
+  secret: 'shared-secret',
+  enabled: false,
+  format: 'raw' as const,
+  template: null,
+};
+
 describe('WebhooksController', () => {
   let controller: WebhooksController;
   const mockedWebhookModel = WebhookModel as jest.Mocked<typeof WebhookModel>;
+  const dispatcher = {
+    sendTest: jest.fn(),
+    redeliver: jest.fn(),
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
-    controller = new WebhooksController();
+    controller = new WebhooksController({ dispatcher: dispatcher as unknown as WebhookDispatcher });
   });
 
   it('returns 400 for invalid create payloads', async () => {
@@ -69,6 +87,9 @@ describe('WebhooksController', () => {
       url: 'https://example.com/hooks/woly',
       events: ['host.awake'],
       hasSecret: true,
+      enabled: true,
+      format: 'raw',
+      template: null,
       createdAt: '2026-02-18T00:00:00.000Z',
       updatedAt: '2026-02-18T00:00:00.000Z',
     });
@@ -104,6 +125,9 @@ describe('WebhooksController', () => {
         url: 'https://example.com/hooks/woly',
         events: ['host.awake'],
         hasSecret: false,
+        enabled: true,
+        format: 'raw',
+        template: null,
         createdAt: '2026-02-18T00:00:00.000Z',
         updatedAt: '2026-02-18T00:00:00.000Z',
       },
@@ -158,6 +182,9 @@ describe('WebhooksController', () => {
       url: 'https://example.com/hooks/woly',
       events: ['host.awake'],
       hasSecret: false,
+      enabled: true,
+      format: 'raw',
+      template: null,
       createdAt: '2026-02-18T00:00:00.000Z',
       updatedAt: '2026-02-18T00:00:00.000Z',
     });
@@ -193,4 +220,188 @@ describe('WebhooksController', () => {
       ],
     });
   });
+
+  it('updates webhooks and rotates the secret', async () => {
+    mockedWebhookModel.update.mockResolvedValue({
+      id: 'webhook-1',
+      url: 'https://example.com/hooks/woly-v2',
+      events: ['host.awake'],
+      hasSecret: true,
+      enabled: false,
+      format: 'raw',
+      template: null,
+      createdAt: '2026-02-18T00:00:00.000Z',
+      updatedAt: '2026-02-18T00:05:00.000Z',
+    });
+
+    const req = createMockRequest({
+      params: { id: 'webhook-1' },
+      body: { url: 'https://example.com/hooks/woly-v2', secret: 'rotated', enabled: false },
+    });
+    const res = createMockResponse();
+
+    await controller.updateWebhook(req, res);
+
+    expect(mockedWebhookModel.update).toHaveBeenCalledWith('webhook-1', {
+      url: 'https://example.com/hooks/woly-v2',
+      secret: 'rotated',
+      enabled: false,
+    });
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ enabled: false, hasSecret: true }));
+  });
+
+  it('validates templates against the subscribed events on create', async () => {
+    const res = createMockResponse();
+    await controller.createWebhook(
+      createMockRequest({
+        body: {
+          url: 'https://hooks.slack.com/services/T000/B000/XXX',
+          events: ['host.awake', 'node.connected'],
+          format: 'slack',
+          template: '{{hostName}} {{hostStatus}}',
+        },
+      }),
+      res,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Bad Request',
+      message: 'Invalid webhook template',
+      details: [{ path: ['template'], message: 'Unknown template variable "hostStatus"' }],
+    });
+    expect(mockedWebhookModel.create).not.toHaveBeenCalled();
+  });
+
+  it('validates template updates against the stored format and events', async () => {
+    mockedWebhookModel.findById.mockResolvedValue({
+      id: 'webhook-1',
+      url: 'https://ntfy.sh/woly',
+      events: ['host.awake', 'scan.complete'],
+      hasSecret: false,
+      enabled: true,
+      format: 'ntfy',
+      template: null,
+      createdAt: '2026-02-18T00:00:00.000Z',
+      updatedAt: '2026-02-18T00:00:00.000Z',
+    });
+
+    const emptyRes = createMockResponse();
+    await controller.updateWebhook(
+      createMockRequest({ params: { id: 'webhook-1' }, body: { template: '{{oldStatus}}' } }),
+      emptyRes,
+    );
+    expect(emptyRes.status).toHaveBeenCalledWith(400);
+    expect(emptyRes.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        details: [{ path: ['template'], message: 'Template renders an empty message for scan.complete' }],
+      }),
+    );
+
+    const rawRes = createMockResponse();
+    await controller.updateWebhook(
+      createMockRequest({ params: { id: 'webhook-1' }, body: { format: 'raw', template: '{{summary}}' } }),
+      rawRes,
+    );
+    expect(rawRes.status).toHaveBeenCalledWith(400);
+    expect(mockedWebhookModel.update).not.toHaveBeenCalled();
+
+    mockedWebhookModel.update.mockResolvedValue(null);
+    const validRes = createMockResponse();
+    await controller.updateWebhook(
+      createMockRequest({ params: { id: 'webhook-1' }, body: { template: '{{summary}} on {{location}}' } }),
+      validRes,
+    );
+    expect(mockedWebhookModel.update).toHaveBeenCalledWith('webhook-1', { template: '{{summary}} on {{location}}' });
+  });
+
+  it('rejects empty webhook updates and reports missing webhooks', async () => {
+    const emptyRes = createMockResponse();
+    await controller.updateWebhook(createMockRequest({ params: { id: 'webhook-1' }, body: {} }), emptyRes);
+    expect(emptyRes.status).toHaveBeenCalledWith(400);
+    expect(mockedWebhookModel.update).not.toHaveBeenCalled();
+
+    mockedWebhookModel.update.mockResolvedValue(null);
+    const missingRes = createMockResponse();
+    await controller.updateWebhook(
+      createMockRequest({ params: { id: 'missing' }, body: { enabled: true } }),
+      missingRes,
+    );
+    expect(missingRes.status).toHaveBeenCalledWith(404);
+  });
+
+  it('sends a test delivery and returns its result', async () => {
+    const result = {
+      webhookId: 'webhook-1',
+      eventType: 'webhook.test',
+      status: 'failed',
+      responseStatus: 500,
+      error: 'HTTP 500',
+    };
+    mockedWebhookModel.findTargetById.mockResolvedValue(target);
+    dispatcher.sendTest.mockResolvedValue(result);
+
+    const res = createMockResponse();
+    await controller.testWebhook(createMockRequest({ params: { id: 'webhook-1' } }), res);
+
+    expect(dispatcher.sendTest).toHaveBeenCalledWith(target);
+    expect(res.json).toHaveBeenCalledWith(result);
+  });
+
+  it('returns 404 when testing a missing webhook', async () => {
+    mockedWebhookModel.findTargetById.mockResolvedValue(null);
+
+    const res = createMockResponse();
+    await controller.testWebhook(createMockRequest({ params: { id: 'missing' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(dispatcher.sendTest).not.toHaveBeenCalled();
+  });
+
+  it('redelivers a logged delivery to its webhook', async () => {
+    const delivery = {
+      id: 7,
+      webhookId: 'webhook-1',
+      eventType: 'host.awake' as const,
+      attempt: 3,
+      status: 'failed' as const,
+      responseStatus: 503,
+      error: 'HTTP 503',
+      payload: { event: 'host.awake', timestamp: '2026-02-18T00:00:00.000Z', data: {} },
+      createdAt: '2026-02-18T00:01:00.000Z',
+    };
+    const result = {
+      webhookId: 'webhook-1',
+      eventType: 'host.awake',
+      status: 'success',
+      responseStatus: 204,
+      error: null,
+    };
+    mockedWebhookModel.findDeliveryById.mockResolvedValue(delivery);
+    mockedWebhookModel.findTargetById.mockResolvedValue(target);
+    dispatcher.redeliver.mockResolvedValue(result);
+
+    const res = createMockResponse();
+    await controller.redeliverWebhookDelivery(createMockRequest({ params: { id: '7' } }), res);
+
+    expect(mockedWebhookModel.findDeliveryById).toHaveBeenCalledWith(7);
+    expect(dispatcher.redeliver).toHaveBeenCalledWith(target, delivery);
+    expect(res.json).toHaveBeenCalledWith(result);
+  });
+
+  it('validates redelivery ids and reports missing deliveries', async () => {
+    const invalidRes = createMockResponse();
+    await controller.redeliverWebhookDelivery(createMockRequest({ params: { id: 'abc' } }), invalidRes);
+    expect(invalidRes.status).toHaveBeenCalledWith(400);
+
+    mockedWebhookModel.findDeliveryById.mockResolvedValue(null);
+    const missingRes = createMockResponse();
+    await controller.redeliverWebhookDelivery(createMockRequest({ params: { id: '8' } }), missingRes);
+    expect(missingRes.status).toHaveBeenCalledWith(404);
+    expect(missingRes.json).toHaveBeenCalledWith({
+      error: 'Not Found',
+      message: 'Webhook delivery 8 not found',
+    });
+    expect(dispatcher.redeliver).not.toHaveBeenCalled();
+  });
 });
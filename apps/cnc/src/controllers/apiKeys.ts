@@ -0,0 +1,328 @@
+/**
+ * API keys controller - admin management of named keys for automation.
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { createApiKeyRequestSchema } from '@kaonis/woly-protocol';
+import ApiKeyModel from '../models/ApiKey';
+import logger from '../utils/logger';
+
+const apiKeyParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const usageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+function toLogError(error: unknown): { error: string } {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export class ApiKeysController {
+  private respondNotFound(res: Response, id: string): void {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `API key ${id} not found`,
+    });
+  }
+
+  private respondMissingId(res: Response): void {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'API key id is required',
+    });
+  }
+
+  /**
+   * @swagger
+   * /api/admin/api-keys:
+   *   get:
+   *     summary: List API keys
+   *     description: Returns key metadata only; the keys themselves are never returned after creation.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: API key list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ApiKeysResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listApiKeys(_req: Request, res: Response): Promise<void> {
+    try {
+      const apiKeys = await ApiKeyModel.list();
+      res.json({ apiKeys });
+    } catch (error) {
+      logger.error('Failed to list API keys', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list API keys',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/api-keys:
+   *   post:
+   *     summary: Create an API key
+   *     description: |
+   *       The key is returned once in the response and is sent as `Authorization: Bearer <key>`.
+   *       Keys act with the operator role, limited to their scopes and, when given, to the listed
+   *       hosts and nodes.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateApiKeyRequest'
+   *     responses:
+   *       201:
+   *         description: API key created
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CreateApiKeyResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async createApiKey(req: Request, res: Response): Promise<void> {
+    const parsed = createApiKeyRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid API key payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    try {
+      const { apiKey, key } = await ApiKeyModel.create({
+        ...parsed.data,
+        createdBy: req.auth?.sub ?? 'unknown',
+      });
+      logger.info('API key created', {
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes,
+        createdBy: apiKey.createdBy,
+      });
+      res.status(201).json({ ...apiKey, key });
+    } catch (error) {
+      logger.error('Failed to create API key', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create API key',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/api-keys/{id}:
+   *   get:
+   *     summary: Get an API key
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: API key
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ApiKey'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async getApiKey(req: Request, res: Response): Promise<void> {
+    const parsedParams = apiKeyParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const apiKey = await ApiKeyModel.findById(id);
+      if (!apiKey) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      res.json(apiKey);
+    } catch (error) {
+      logger.error('Failed to get API key', { apiKeyId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve API key',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/api-keys/{id}:
+   *   delete:
+   *     summary: Revoke an API key
+   *     description: Revoked keys are rejected immediately and stay listed with `revokedAt` for auditing.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: API key revoked
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ApiKey'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async revokeApiKey(req: Request, res: Response): Promise<void> {
+    const parsedParams = apiKeyParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const apiKey = await ApiKeyModel.revoke(id);
+      if (!apiKey) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      logger.info('API key revoked', { apiKeyId: id, revokedBy: req.auth?.sub });
+      res.json(apiKey);
+    } catch (error) {
+      logger.error('Failed to revoke API key', { apiKeyId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to revoke API key',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/api-keys/{id}/usage:
+   *   get:
+   *     summary: List recent requests made with an API key
+   *     description: Newest first. Usage entries are kept for 90 days.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 500
+   *           default: 100
+   *     responses:
+   *       200:
+   *         description: API key usage audit
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ApiKeyUsageResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async getApiKeyUsage(req: Request, res: Response): Promise<void> {
+    const parsedParams = apiKeyParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const parsedQuery = usageQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid usage query',
+        details: parsedQuery.error.issues,
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const apiKey = await ApiKeyModel.findById(id);
+      if (!apiKey) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      const entries = await ApiKeyModel.listUsage(id, parsedQuery.data.limit);
+      res.json({ apiKeyId: id, entries });
+    } catch (error) {
+      logger.error('Failed to list API key usage', { apiKeyId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list API key usage',
+      });
+    }
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Audit log controller - admin queries and exports of recorded actions.
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { auditOutcomeSchema } from '@kaonis/woly-protocol';
+import AuditLogModel from '../models/AuditLog';
+import type { AuditLogEntry } from '../types';
+import logger from '../utils/logger';
+
+const JSON_PAGE_SIZE_DEFAULT = 100;
+const EXPORT_SIZE_DEFAULT = 10_000;
+
+const auditQuerySchema = z
+  .object({
+    actor: z.string().min(1).optional(),
+    action: z.string().min(1).optional(),
+    targetFqn: z.string().min(1).optional(),
+    nodeId: z.string().min(1).optional(),
+    outcome: auditOutcomeSchema.optional(),
+    since: z.string().datetime().optional(),
+    until: z.string().datetime().optional(),
+    cursor: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().min(1).max(EXPORT_SIZE_DEFAULT).optional(),
+    format: z.enum(['json', 'csv', 'ndjson']).optional(),
+  })
+  .strict();
+
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  'id',
+  'occurredAt',
+  'actor',
+  'actorRole',
+  'action',
+  'targetFqn',
+  'targetNodeId',
+  'correlationId',
+  'ip',
+  'outcome',
+  'statusCode',
+  'details',
+];
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating recorded values as formulas.
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: AuditLogEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => toCsvField(entry[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function toLogError(error: unknown): { error: string } {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export class AuditController {
+  /**
+   * @swagger
+   * /api/admin/audit:
+   *   get:
+   *     summary: Query the audit log
+   *     description: |
+   *       Returns state-changing requests newest first. `format=csv` or `format=ndjson` downloads
+   *       the matching entries instead; the next page cursor is then sent in `X-Next-Cursor`.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: actor
+   *         schema:
+   *           type: string
+   *         description: Authenticated subject, e.g. a user id or `apikey:<id>`
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: string
+   *         example: host.wake
+   *       - in: query
+   *         name: targetFqn
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: nodeId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: outcome
+   *         schema:
+   *           type: string
+   *           enum: [success, failure, denied]
+   *       - in: query
+   *         name: since
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: until
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: '`nextCursor` of the previous page'
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 10000
+   *         description: Defaults to 100 for JSON and 10000 for exports
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [json, csv, ndjson]
+   *           default: json
+   *     responses:
+   *       200:
+   *         description: Audit log entries
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/AuditLogResponse'
+   *           text/csv:
+   *             schema:
+   *               type: string
+   *           application/x-ndjson:
+   *             schema:
+   *               type: string
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listAuditLog(req: Request, res: Response): Promise<void> {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid audit log query',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    const { nodeId, format = 'json', limit, ...filters } = parsed.data;
+    try {
+      const page = await AuditLogModel.query({
+        ...filters,
+        targetNodeId: nodeId,
+        limit: limit ?? (format === 'json' ? JSON_PAGE_SIZE_DEFAULT : EXPORT_SIZE_DEFAULT),
+      });
+
+      if (format === 'json') {
+        res.json(page);
+        return;
+      }
+
+      if (page.nextCursor) {
+        res.setHeader('X-Next-Cursor', page.nextCursor);
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log.${format}"`);
+      if (format === 'csv') {
+        res.type('text/csv; charset=utf-8').send(toCsv(page.entries));
+        return;
+      }
+
+      res
+        .type('application/x-ndjson')
+        .send(page.entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+    } catch (error) {
+      logger.error('Failed to query audit log', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to query audit log',
+      });
+    }
+  }
+}
@@ -1,6 +1,19 @@
 import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
 import type { Request, Response } from 'express';
+import {
+  loginRequestSchema,
+  oidcCodeExchangeRequestSchema,
+  refreshSessionRequestSchema,
+  type AuthSessionResponse,
+} from '@kaonis/woly-protocol';
 import config from '../config';
+import RefreshTokenModel, { type IssuedRefreshToken } from '../models/RefreshToken';
+import UserModel from '../models/User';
+import { resolveOidcAccount } from '../services/oidcAccounts';
+import type { OidcClient, OidcCodeExchangeResult } from '../services/oidcClient';
+import type { UserAccount } from '../types';
+import logger from '../utils/logger';
+import { hashPassword, verifyPassword } from '../utils/passwordHash';
 
 // Request body type for token issuance
 interface TokenRequestBody {
@@ -52,7 +65,7 @@ function signHs256(input: string, secret: string): string {
   return createHmac('sha256', secret).update(input).digest('base64url');
 }
 
-function mintJwt(params: { sub: string; role: 'operator' | 'admin' }): { token: string; exp: number } {
+function mintJwt(params: { sub: string; role: 'operator' | 'admin'; uid?: string }): { token: string; exp: number } {
   const now = Math.floor(Date.now() / 1000);
   const exp = now + config.jwtTtlSeconds;
   const header = { alg: 'HS256', typ: 'JWT' };
@@ -62,6 +75,7 @@ function mintJwt(params: { sub: string; role: 'operator' | 'admin' }): { token:
     sub: params.sub,
     role: params.role,
     roles: [params.role],
+    ...(params.uid ? { uid: params.uid } : {}),
     iat: now,
     nbf: now,
     exp,
@@ -75,7 +89,49 @@ function mintJwt(params: { sub: string; role: 'operator' | 'admin' }): { token:
   return { token: `${signingInput}.${signature}`, exp };
 }
 
+function internalError(res: Response, message: string): void {
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message,
+  });
+}
+
+// Verified against when the username is unknown so both failures take as long.
+let dummyPasswordHash: Promise<string> | null = null;
+
+function getDummyPasswordHash(): Promise<string> {
+  dummyPasswordHash ??= hashPassword(randomUUID());
+  return dummyPasswordHash;
+}
+
+function buildSession(user: UserAccount, refresh: IssuedRefreshToken): AuthSessionResponse {
+  const minted = mintJwt({ sub: user.id, role: user.role, uid: user.id });
+  return {
+    token: minted.token,
+    expiresAt: new Date(minted.exp * 1000).toISOString(),
+    refreshToken: refresh.token,
+    refreshExpiresAt: refresh.expiresAt,
+    user,
+  };
+}
+
+function oidcNotConfigured(res: Response): void {
+  res.status(404).json({
+    error: 'Not Found',
+    message: 'OIDC login is not configured',
+  });
+}
+
+function identityProviderUnavailable(res: Response): void {
+  res.status(503).json({
+    error: 'Service Unavailable',
+    message: 'Identity provider is unavailable',
+  });
+}
+
 export class AuthController {
+  constructor(private readonly oidcClient?: OidcClient) {}
+
   /**
    * @swagger
    * /api/auth/token:
@@ -152,5 +208,279 @@ export class AuthController {
       expiresAt: new Date(minted.exp * 1000).toISOString(),
     });
   };
-}
 
+  /**
+   * @swagger
+   * /api/auth/login:
+   *   post:
+   *     summary: Log in with a user account
+   *     description: |
+   *       Exchanges a username and password for a short-lived JWT and a refresh token.
+   *       The JWT carries a `uid` claim, so non-admin users only reach the nodes and hosts
+   *       granted to them (see `/api/acl`).
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/LoginRequest'
+   *     responses:
+   *       200:
+   *         description: Session issued
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/AuthSessionResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  login = async (req: Request, res: Response): Promise<void> => {
+    const parsed = loginRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      badRequest(res, 'username and password are required');
+      return;
+    }
+
+    try {
+      const credentials = await UserModel.findCredentialsByUsername(parsed.data.username);
+      const passwordMatches = await verifyPassword(
+        parsed.data.password,
+        credentials?.passwordHash ?? (await getDummyPasswordHash()),
+      );
+      if (!credentials || !passwordMatches || credentials.user.disabled) {
+        unauthorized(res, 'Invalid username or password');
+        return;
+      }
+
+      const refresh = await RefreshTokenModel.issue(credentials.user.id);
+      res.json(buildSession(credentials.user, refresh));
+    } catch (error) {
+      logger.error('Failed to log in user', { error: error instanceof Error ? error.message : String(error) });
+      internalError(res, 'Failed to log in');
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/auth/refresh:
+   *   post:
+   *     summary: Rotate a refresh token
+   *     description: |
+   *       Returns a new JWT and a new refresh token; the presented refresh token stops working.
+   *       Presenting an already rotated token revokes every token of that login session.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/RefreshSessionRequest'
+   *     responses:
+   *       200:
+   *         description: Session refreshed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/AuthSessionResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    const parsed = refreshSessionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      badRequest(res, 'refreshToken is required');
+      return;
+    }
+
+    try {
+      const rotation = await RefreshTokenModel.rotate(parsed.data.refreshToken);
+      if (rotation.status === 'reused') {
+        logger.warn('Refresh token reuse detected; session revoked', { userId: rotation.userId });
+      }
+      if (rotation.status !== 'rotated') {
+        unauthorized(res, 'Invalid refresh token');
+        return;
+      }
+
+      const user = await UserModel.findById(rotation.userId);
+      if (!user || user.disabled) {
+        await RefreshTokenModel.revokeAllForUser(rotation.userId);
+        unauthorized(res, 'Invalid refresh token');
+        return;
+      }
+
+      res.json(buildSession(user, rotation));
+    } catch (error) {
+      logger.error('Failed to refresh session', { error: error instanceof Error ? error.message : String(error) });
+      internalError(res, 'Failed to refresh session');
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/auth/logout:
+   *   post:
+   *     summary: Revoke a login session
+   *     description: Revokes the refresh token and every token rotated from the same login.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/RefreshSessionRequest'
+   *     responses:
+   *       200:
+   *         description: Session revoked (also returned for unknown tokens)
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  logout = async (req: Request, res: Response): Promise<void> => {
+    const parsed = refreshSessionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      badRequest(res, 'refreshToken is required');
+      return;
+    }
+
+    try {
+      await RefreshTokenModel.revoke(parsed.data.refreshToken);
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to log out', { error: error instanceof Error ? error.message : String(error) });
+      internalError(res, 'Failed to log out');
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/auth/oidc/config:
+   *   get:
+   *     summary: Get the OIDC login settings
+   *     description: |
+   *       Returns what a client needs to start the authorization code flow with PKCE
+   *       (S256) at the identity provider. Responds 404 when OIDC is not configured.
+   *     tags: [Authentication]
+   *     responses:
+   *       200:
+   *         description: OIDC settings
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/OidcConfigResponse'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       503:
+   *         $ref: '#/components/responses/ServiceUnavailable'
+   */
+  getOidcConfig = async (_req: Request, res: Response): Promise<void> => {
+    if (!this.oidcClient) {
+      oidcNotConfigured(res);
+      return;
+    }
+
+    try {
+      res.json(await this.oidcClient.getPublicConfig());
+    } catch (error) {
+      logger.warn('Failed to load OIDC discovery document', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      identityProviderUnavailable(res);
+    }
+  };
+
+  /**
+   * @swagger
+   * /api/auth/oidc/token:
+   *   post:
+   *     summary: Exchange an OIDC authorization code for a JWT
+   *     description: |
+   *       Redeems the authorization code and PKCE verifier at the identity provider, verifies
+   *       the returned ID token and issues a C&C JWT with the role mapped from the provider's
+   *       groups. The provider subject is linked to a user account (created on first login),
+   *       and the JWT carries its `uid` claim, so resource grants apply as for `/api/auth/login`.
+   *       Scripts using the client credentials grant skip this endpoint and send the
+   *       provider's access token as the bearer token.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/OidcCodeExchangeRequest'
+   *     responses:
+   *       200:
+   *         description: JWT token issued successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/TokenResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   *       503:
+   *         $ref: '#/components/responses/ServiceUnavailable'
+   */
+  exchangeOidcCode = async (req: Request, res: Response): Promise<void> => {
+    if (!this.oidcClient) {
+      oidcNotConfigured(res);
+      return;
+    }
+
+    const parsed = oidcCodeExchangeRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      badRequest(res, 'code, codeVerifier and redirectUri are required');
+      return;
+    }
+
+    let result: OidcCodeExchangeResult;
+    try {
+      result = await this.oidcClient.exchangeAuthorizationCode(parsed.data);
+    } catch (error) {
+      logger.warn('OIDC code exchange failed', { error: error instanceof Error ? error.message : String(error) });
+      identityProviderUnavailable(res);
+      return;
+    }
+
+    if (result.status === 'rejected') {
+      logger.warn('OIDC login rejected', { reason: result.reason });
+      unauthorized(res, 'OIDC login failed');
+      return;
+    }
+
+    try {
+      const user = await resolveOidcAccount(result.identity);
+      if (user.disabled) {
+        logger.warn('OIDC login rejected', { reason: 'User account is disabled', userId: user.id });
+        unauthorized(res, 'OIDC login failed');
+        return;
+      }
+
+      const minted = mintJwt({ sub: user.id, role: user.role, uid: user.id });
+      res.json({
+        token: minted.token,
+        expiresAt: new Date(minted.exp * 1000).toISOString(),
+      });
+    } catch (error) {
+      logger.error('Failed to resolve OIDC user account', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      internalError(res, 'Failed to log in');
+    }
+  };
+}
@@ -0,0 +1,424 @@
+/**
+ * Exception calendars controller - named sets of dates (holidays, vacations)
+ * on which the schedules that reference them do not fire.
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  createExceptionCalendarRequestSchema,
+  updateExceptionCalendarRequestSchema,
+} from '@kaonis/woly-protocol';
+import ExceptionCalendarModel, { normalizeExceptionDates } from '../models/ExceptionCalendar';
+import HostScheduleModel from '../models/HostSchedule';
+import type { ExceptionCalendarDate, ExceptionCalendarSource } from '../types';
+import { parseIcsExceptionDates } from '../utils/icalendar';
+import logger from '../utils/logger';
+
+const calendarParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+type CalendarDatesInput = {
+  dates?: Array<string | ExceptionCalendarDate>;
+  ics?: string;
+};
+
+function toLogError(error: unknown): { error: string } {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Resolves the dates of a create/update payload. Returns null when neither
+ * `dates` nor `ics` is present and throws when `ics` cannot be parsed; events
+ * the importer skips are logged.
+ */
+function resolveDates(
+  input: CalendarDatesInput,
+): { source: ExceptionCalendarSource; dates: ExceptionCalendarDate[] } | null {
+  if (input.ics !== undefined) {
+    const { dates, warnings } = parseIcsExceptionDates(input.ics);
+    if (warnings.length > 0) {
+      logger.warn('Skipped unsupported iCalendar events', { warnings });
+    }
+    return { source: 'ics', dates };
+  }
+
+  if (input.dates !== undefined) {
+    return { source: 'dates', dates: normalizeExceptionDates(input.dates) };
+  }
+
+  return null;
+}
+
+export class ExceptionCalendarsController {
+  private respondInvalidIcs(res: Response, error: unknown): void {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: `Invalid iCalendar data: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+
+  /**
+   * @swagger
+   * /api/exception-calendars:
+   *   get:
+   *     summary: List schedule exception calendars
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Exception calendar list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExceptionCalendarsResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listCalendars(_req: Request, res: Response): Promise<void> {
+    try {
+      const calendars = await ExceptionCalendarModel.list();
+      res.json({ calendars });
+    } catch (error) {
+      logger.error('Failed to list exception calendars', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list exception calendars',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/exception-calendars/{id}:
+   *   get:
+   *     summary: Get an exception calendar by id
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Exception calendar
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExceptionCalendar'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async getCalendar(req: Request, res: Response): Promise<void> {
+    const parsedParams = calendarParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Calendar id is required',
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const calendar = await ExceptionCalendarModel.findById(id);
+      if (!calendar) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Exception calendar ${id} not found`,
+        });
+        return;
+      }
+
+      res.json(calendar);
+    } catch (error) {
+      logger.error('Failed to get exception calendar', { calendarId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve exception calendar',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/exception-calendars:
+   *   post:
+   *     summary: Create an exception calendar
+   *     description: |
+   *       Provide either a list of `dates` or the contents of an iCalendar (.ics) file in `ics`.
+   *       From `ics`, every day covered by a non-cancelled VEVENT is excluded and its SUMMARY
+   *       becomes the date label; yearly RRULEs are expanded (ten years when unbounded) and
+   *       events with other RRULEs are skipped. Timed events are dated in the calendar's
+   *       X-WR-TIMEZONE, which UTC (`Z`) times require. Accounts limited by resource
+   *       permissions cannot create, update or delete calendars.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateExceptionCalendarRequest'
+   *     responses:
+   *       201:
+   *         description: Exception calendar created
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExceptionCalendar'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async createCalendar(req: Request, res: Response): Promise<void> {
+    const parsed = createExceptionCalendarRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid exception calendar payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    let resolved: ReturnType<typeof resolveDates>;
+    try {
+      resolved = resolveDates(parsed.data);
+    } catch (error) {
+      this.respondInvalidIcs(res, error);
+      return;
+    }
+
+    try {
+      const existing = await ExceptionCalendarModel.findByName(parsed.data.name);
+      if (existing) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Exception calendar named ${parsed.data.name} already exists`,
+        });
+        return;
+      }
+
+      const calendar = await ExceptionCalendarModel.create({
+        name: parsed.data.name,
+        description: parsed.data.description ?? null,
+        source: resolved?.source ?? 'dates',
+        dates: resolved?.dates ?? [],
+      });
+      res.status(201).json(calendar);
+    } catch (error) {
+      logger.error('Failed to create exception calendar', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create exception calendar',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/exception-calendars/{id}:
+   *   put:
+   *     summary: Update an exception calendar
+   *     description: |
+   *       `dates` or `ics` replaces the calendar's dates. The next trigger of every enabled
+   *       schedule referencing the calendar is recomputed.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateExceptionCalendarRequest'
+   *     responses:
+   *       200:
+   *         description: Exception calendar updated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ExceptionCalendar'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async updateCalendar(req: Request, res: Response): Promise<void> {
+    const parsedParams = calendarParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Calendar id is required',
+      });
+      return;
+    }
+
+    const parsed = updateExceptionCalendarRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid exception calendar payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    let resolved: ReturnType<typeof resolveDates>;
+    try {
+      resolved = resolveDates(parsed.data);
+    } catch (error) {
+      this.respondInvalidIcs(res, error);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      if (parsed.data.name !== undefined) {
+        const existing = await ExceptionCalendarModel.findByName(parsed.data.name);
+        if (existing && existing.id !== id) {
+          res.status(409).json({
+            error: 'Conflict',
+            message: `Exception calendar named ${parsed.data.name} already exists`,
+          });
+          return;
+        }
+      }
+
+      const calendar = await ExceptionCalendarModel.update(id, {
+        ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
+        ...(parsed.data.description !== undefined ? { description: parsed.data.description } : {}),
+        ...(resolved ?? {}),
+      });
+      if (!calendar) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Exception calendar ${id} not found`,
+        });
+        return;
+      }
+
+      if (resolved) {
+        await HostScheduleModel.refreshNextTriggersForCalendar(id);
+      }
+
+      res.json(calendar);
+    } catch (error) {
+      logger.error('Failed to update exception calendar', { calendarId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update exception calendar',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/exception-calendars/{id}:
+   *   delete:
+   *     summary: Delete an exception calendar
+   *     description: Rejected with 409 while schedules still reference the calendar.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Exception calendar deleted
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/DeleteExceptionCalendarResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async deleteCalendar(req: Request, res: Response): Promise<void> {
+    const parsedParams = calendarParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Calendar id is required',
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const schedules = await HostScheduleModel.listByExceptionCalendar(id);
+      if (schedules.length > 0) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Exception calendar ${id} is referenced by ${schedules.length} schedule(s)`,
+          details: { scheduleIds: schedules.map((schedule) => schedule.id) },
+        });
+        return;
+      }
+
+      const deleted = await ExceptionCalendarModel.delete(id);
+      if (!deleted) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Exception calendar ${id} not found`,
+        });
+        return;
+      }
+
+      res.json({ success: true, id });
+    } catch (error) {
+      logger.error('Failed to delete exception calendar', { calendarId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete exception calendar',
+      });
+    }
+  }
+}
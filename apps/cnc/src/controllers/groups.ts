@@ -0,0 +1,607 @@
+/**
+ * Host groups controller - named sets of hosts (possibly spanning several nodes)
+ * with group-level wake/sleep/shutdown actions.
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  createHostGroupRequestSchema,
+  updateHostGroupRequestSchema,
+} from '@kaonis/woly-protocol';
+import HostGroupModel from '../models/HostGroup';
+import { CommandRouter } from '../services/commandRouter';
+import type { AccessControl } from '../services/accessControl';
+import { isScopedCaller } from '../services/accessControl';
+import type { HostGroup, HostGroupAction } from '../types';
+import logger from '../utils/logger';
+
+const groupParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const wakeGroupBodySchema = z.object({
+  verify: z.boolean().optional(),
+}).strict();
+
+const groupPowerActionBodySchema = z.object({
+  confirm: z.string().min(1),
+}).strict();
+
+function toLogError(error: unknown): { error: string } {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export class GroupsController {
+  constructor(
+    private readonly commandRouter: CommandRouter,
+    private readonly accessControl?: AccessControl,
+  ) {}
+
+  /**
+   * Limits a group's members to the hosts a scoped caller may view; returns
+   * null when none are visible so the group is hidden altogether.
+   */
+  private async toVisibleGroup(req: Request, group: HostGroup): Promise<HostGroup | null> {
+    if (!this.accessControl || !isScopedCaller(req.auth)) {
+      return group;
+    }
+
+    const hostFqns = await this.accessControl.filterByHostFqn(req.auth, group.hostFqns, (fqn) => fqn);
+    return hostFqns.length > 0 ? { ...group, hostFqns } : null;
+  }
+
+  /**
+   * @swagger
+   * /api/groups:
+   *   get:
+   *     summary: List host groups
+   *     description: |
+   *       User accounts without the admin role only see the members they may view, and
+   *       groups without such members are omitted.
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Host group list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroupsResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listGroups(req: Request, res: Response): Promise<void> {
+    try {
+      const groups: HostGroup[] = [];
+      for (const group of await HostGroupModel.list()) {
+        const visible = await this.toVisibleGroup(req, group);
+        if (visible) {
+          groups.push(visible);
+        }
+      }
+      res.json({ groups });
+    } catch (error) {
+      logger.error('Failed to list host groups', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list host groups',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/groups/{id}:
+   *   get:
+   *     summary: Get a host group by id
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Host group
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroup'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async getGroup(req: Request, res: Response): Promise<void> {
+    const parsedParams = groupParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Group id is required',
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const stored = await HostGroupModel.findById(id);
+      const group = stored ? await this.toVisibleGroup(req, stored) : null;
+      if (!group) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Group ${id} not found`,
+        });
+        return;
+      }
+
+      res.json(group);
+    } catch (error) {
+      logger.error('Failed to get host group', { groupId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve host group',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/groups:
+   *   post:
+   *     summary: Create a host group
+   *     description: Members are referenced by fully qualified name and may be managed by different nodes.
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateHostGroupRequest'
+   *     responses:
+   *       201:
+   *         description: Host group created
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroup'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async createGroup(req: Request, res: Response): Promise<void> {
+    const parsed = createHostGroupRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid host group payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    try {
+      const existing = await HostGroupModel.findByName(parsed.data.name);
+      if (existing) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Group named ${parsed.data.name} already exists`,
+        });
+        return;
+      }
+
+      const group = await HostGroupModel.create(parsed.data);
+      res.status(201).json(group);
+    } catch (error) {
+      logger.error('Failed to create host group', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create host group',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/groups/{id}:
+   *   put:
+   *     summary: Update a host group
+   *     description: Replaces the member list when `hostFqns` is provided.
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateHostGroupRequest'
+   *     responses:
+   *       200:
+   *         description: Host group updated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroup'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async updateGroup(req: Request, res: Response): Promise<void> {
+    const parsedParams = groupParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Group id is required',
+      });
+      return;
+    }
+
+    const parsed = updateHostGroupRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid host group payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      if (parsed.data.name !== undefined) {
+        const existing = await HostGroupModel.findByName(parsed.data.name);
+        if (existing && existing.id !== id) {
+          res.status(409).json({
+            error: 'Conflict',
+            message: `Group named ${parsed.data.name} already exists`,
+          });
+          return;
+        }
+      }
+
+      const group = await HostGroupModel.update(id, parsed.data);
+      if (!group) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Group ${id} not found`,
+        });
+        return;
+      }
+
+      res.json(group);
+    } catch (error) {
+      logger.error('Failed to update host group', { groupId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update host group',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/groups/{id}:
+   *   delete:
+   *     summary: Delete a host group
+   *     description: Deletes the group only; member hosts are not affected.
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Host group deleted
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/DeleteHostGroupResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async deleteGroup(req: Request, res: Response): Promise<void> {
+    const parsedParams = groupParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Group id is required',
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const deleted = await HostGroupModel.delete(id);
+      if (!deleted) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Group ${id} not found`,
+        });
+        return;
+      }
+
+      res.json({ success: true, id });
+    } catch (error) {
+      logger.error('Failed to delete host group', { groupId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete host group',
+      });
+    }
+  }
+
+  private async dispatchGroupAction(
+    req: Request,
+    res: Response,
+    action: HostGroupAction,
+  ): Promise<void> {
+    const parsedParams = groupParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Group id is required',
+      });
+      return;
+    }
+
+    let verify: { timeoutMs: number; pollIntervalMs: number } | null = null;
+    if (action === 'wake') {
+      const bodyParse = wakeGroupBodySchema.safeParse(req.body ?? {});
+      if (!bodyParse.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid request body',
+          details: bodyParse.error.issues,
+        });
+        return;
+      }
+
+      verify = bodyParse.data.verify ? { timeoutMs: 120_000, pollIntervalMs: 3_000 } : null;
+    } else {
+      const bodyParse = groupPowerActionBodySchema.safeParse(req.body ?? {});
+      if (!bodyParse.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid request body',
+          details: bodyParse.error.issues,
+        });
+        return;
+      }
+
+      if (bodyParse.data.confirm.trim().toLowerCase() !== action) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Field "confirm" must equal "${action}"`,
+        });
+        return;
+      }
+    }
+
+    const { id } = parsedParams.data;
+    const correlationId = req.correlationId ?? null;
+    const idempotencyKeyHeader = req.header('Idempotency-Key');
+    const idempotencyKey =
+      idempotencyKeyHeader && idempotencyKeyHeader.trim().length > 0
+        ? idempotencyKeyHeader.trim()
+        : null;
+
+    try {
+      const group = await HostGroupModel.findById(id);
+      if (!group) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Group ${id} not found`,
+        });
+        return;
+      }
+
+      if (group.hostFqns.length === 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Group ${id} has no member hosts`,
+        });
+        return;
+      }
+
+      const job = await this.commandRouter.routeHostGroupCommand(group, action, {
+        idempotencyKey,
+        correlationId,
+        verify,
+      });
+
+      res.json(job);
+    } catch (error) {
+      logger.error(`Failed to ${action} host group`, { groupId: id, ...toLogError(error) });
+
+      const errorBody: { error: string; message: string; correlationId?: string } = {
+        error: 'Internal Server Error',
+        message: `Failed to ${action} host group`,
+      };
+      if (req.correlationId) {
+        errorBody.correlationId = req.correlationId;
+      }
+
+      res.status(500).json(errorBody);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/groups/{id}/wake:
+   *   post:
+   *     summary: Wake every host in a group
+   *     description: |
+   *       Fans a Wake-on-LAN command out to every member through its managing node and
+   *       returns one aggregate job with a per-host command state. Progress is also
+   *       streamed on `/ws/mobile/hosts` as `group.action.*` events.
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: Idempotency-Key
+   *         schema:
+   *           type: string
+   *         description: Optional idempotency key, scoped per member host
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/HostGroupWakeRequest'
+   *     responses:
+   *       200:
+   *         description: Aggregate group job
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroupActionJob'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async wakeGroup(req: Request, res: Response): Promise<void> {
+    await this.dispatchGroupAction(req, res, 'wake');
+  }
+
+  /**
+   * @swagger
+   * /api/groups/{id}/sleep:
+   *   post:
+   *     summary: Put every host in a group to sleep
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: Idempotency-Key
+   *         schema:
+   *           type: string
+   *         description: Optional idempotency key, scoped per member host
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/HostPowerRequest'
+   *     responses:
+   *       200:
+   *         description: Aggregate group job
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroupActionJob'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async sleepGroup(req: Request, res: Response): Promise<void> {
+    await this.dispatchGroupAction(req, res, 'sleep');
+  }
+
+  /**
+   * @swagger
+   * /api/groups/{id}/shutdown:
+   *   post:
+   *     summary: Shut down every host in a group
+   *     tags: [Groups]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: Idempotency-Key
+   *         schema:
+   *           type: string
+   *         description: Optional idempotency key, scoped per member host
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/HostPowerRequest'
+   *     responses:
+   *       200:
+   *         description: Aggregate group job
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostGroupActionJob'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async shutdownGroup(req: Request, res: Response): Promise<void> {
+    await this.dispatchGroupAction(req, res, 'shutdown');
+  }
+}
+
+export default GroupsController;
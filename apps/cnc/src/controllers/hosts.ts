@@ -4,10 +4,22 @@
 
 import { Request, Response } from 'express';
 import { isIP } from 'node:net';
+import { isDeepStrictEqual } from 'node:util';
 import { z } from 'zod';
-import { hostPowerControlSchema, hostStatusSchema } from '@kaonis/woly-protocol';
+import {
+  hostBulkOperationRequestSchema,
+  hostOutOfBandPowerActionSchema,
+  hostPowerControlSchema,
+  hostStatusSchema,
+  hostWakeStrategySchema,
+  powerControlPasswordSchema,
+  secureOnPasswordSchema,
+  type HostWakeStrategy,
+} from '@kaonis/woly-protocol';
 import { HostAggregator } from '../services/hostAggregator';
 import { CommandRouter } from '../services/commandRouter';
+import type { AccessControl } from '../services/accessControl';
+import { isScopedCaller } from '../services/accessControl';
 import { lookupMacVendor, MAC_ADDRESS_PATTERN } from '../services/macVendorService';
 import { createJsonEtag, isIfNoneMatchSatisfied } from '../utils/httpCache';
 import logger from '../utils/logger';
@@ -28,6 +40,9 @@ const updateHostBodySchema = z.object({
   notes: z.string().max(2_000).nullable().optional(),
   tags: z.array(z.string().min(1).max(64)).max(32).optional(),
   powerControl: hostPowerControlSchema.nullable().optional(),
+  wakeStrategy: hostWakeStrategySchema.nullable().optional(),
+  secureOnPassword: secureOnPasswordSchema.nullable().optional(),
+  powerControlPassword: powerControlPasswordSchema.nullable().optional(),
 }).strict();
 
 const wakeupBodySchema = z.object({
@@ -38,6 +53,11 @@ const hostPowerActionBodySchema = z.object({
   confirm: z.string().min(1),
 }).strict();
 
+const hostOutOfBandPowerBodySchema = z.object({
+  action: hostOutOfBandPowerActionSchema,
+  confirm: z.string().min(1),
+}).strict();
+
 const historyQuerySchema = z.object({
   from: z.string().datetime().optional(),
   to: z.string().datetime().optional(),
@@ -68,6 +88,9 @@ function toRouteUpdateHostData(payload: z.infer<typeof updateHostBodySchema>): R
   if (payload.notes !== undefined) hostData.notes = payload.notes;
   if (payload.tags !== undefined) hostData.tags = payload.tags;
   if (payload.powerControl !== undefined) hostData.powerControl = payload.powerControl;
+  if (payload.wakeStrategy !== undefined) hostData.wakeStrategy = payload.wakeStrategy;
+  if (payload.secureOnPassword !== undefined) hostData.secureOnPassword = payload.secureOnPassword;
+  if (payload.powerControlPassword !== undefined) hostData.powerControlPassword = payload.powerControlPassword;
   if (payload.status === 'awake' || payload.status === 'asleep') {
     hostData.status = payload.status;
   }
@@ -75,6 +98,18 @@ function toRouteUpdateHostData(payload: z.infer<typeof updateHostBodySchema>): R
   return hostData;
 }
 
+/**
+ * Fallback actions make the node call out to arbitrary endpoints (webhooks,
+ * ipmitool), so only admins may add, change or remove them. Other callers may
+ * still edit the rest of the wake strategy as long as the fallback stays as is.
+ */
+function changesWakeFallback(
+  current: HostWakeStrategy | null | undefined,
+  requested: HostWakeStrategy | null,
+): boolean {
+  return !isDeepStrictEqual(current?.fallback, requested?.fallback ?? undefined);
+}
+
 type PortScanEndpointResponse = {
   target: string;
   scannedAt: string;
@@ -128,7 +163,11 @@ function mapCommandError(error: unknown, fallbackMessage: string): {
       statusCode = 400;
     } else if (normalized.includes('not found')) {
       statusCode = 404;
-    } else if (normalized.includes('already in progress')) {
+    } else if (
+      normalized.includes('already in progress') ||
+      normalized.includes('no enabled redfish power control') ||
+      normalized.includes('not supported by the redfish transport')
+    ) {
       statusCode = 409;
     } else if (normalized.includes('offline')) {
       statusCode = 503;
@@ -163,10 +202,29 @@ function mapCommandError(error: unknown, fallbackMessage: string): {
   return { statusCode, errorTitle, message };
 }
 
+type HostStats = Awaited<ReturnType<HostAggregator['getStats']>>;
+
+/** Same shape as HostAggregator.getStats(), computed over an already filtered host list. */
+function summarizeHosts(hosts: ReadonlyArray<{ status: string; location: string }>): HostStats {
+  const stats: HostStats = { total: 0, awake: 0, asleep: 0, byLocation: {} };
+  for (const host of hosts) {
+    const awake = host.status === 'awake' ? 1 : 0;
+    stats.total += 1;
+    stats.awake += awake;
+    stats.asleep += host.status === 'asleep' ? 1 : 0;
+    const location = (stats.byLocation[host.location] ??= { total: 0, awake: 0 });
+    location.total += 1;
+    location.awake += awake;
+  }
+
+  return stats;
+}
+
 export class HostsController {
   constructor(
     private hostAggregator: HostAggregator,
     private commandRouter: CommandRouter,
+    private accessControl?: AccessControl,
   ) {}
 
   private buildPortScanResponse(
@@ -229,7 +287,10 @@ export class HostsController {
    * /api/hosts:
    *   get:
    *     summary: Get all aggregated hosts
-   *     description: Retrieve all hosts from all nodes with optional filtering by node ID
+   *     description: |
+   *       Retrieve all hosts from all nodes with optional filtering by node ID.
+   *       User accounts without the admin role only see hosts granted to them (directly or
+   *       through their node), and `stats` covers just those hosts.
    *     tags: [Hosts]
    *     security:
    *       - bearerAuth: []
@@ -267,7 +328,13 @@ export class HostsController {
         logger.debug('Retrieved all hosts', { count: hosts.length });
       }
 
-      const stats = await this.hostAggregator.getStats();
+      let stats: HostStats;
+      if (this.accessControl && isScopedCaller(req.auth)) {
+        hosts = await this.accessControl.filterHosts(req.auth, hosts);
+        stats = summarizeHosts(hosts);
+      } else {
+        stats = await this.hostAggregator.getStats();
+      }
       const payload = {
         hosts,
         stats,
@@ -561,6 +628,14 @@ export class HostsController {
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/WakeupResponse'
+   *       202:
+   *         description: |
+   *           The host has wake dependencies. They are woken in the background, followed by the
+   *           host itself; follow `dependencyJob` at GET /api/hosts/wake-jobs/{jobId}.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WakeupResponse'
    *       401:
    *         $ref: '#/components/responses/Unauthorized'
    *       404:
@@ -622,7 +697,7 @@ export class HostsController {
         responseBody.correlationId = responseCorrelationId;
       }
 
-      res.json(responseBody);
+      res.status(result.dependencyJob ? 202 : 200).json(responseBody);
     } catch (error: unknown) {
       logger.error('Failed to wake host', { fqn: req.params.fqn, ...toLogError(error) });
 
@@ -676,6 +751,149 @@ export class HostsController {
     }
   }
 
+  /**
+   * @swagger
+   * /api/hosts/wake-jobs/{jobId}:
+   *   get:
+   *     summary: Get a wake dependency job
+   *     description: |
+   *       Reports the background job started by a wake of a host with wake dependencies.
+   *       Finished jobs are kept for one hour.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: jobId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Current job state and the steps taken so far
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WakeDependencyJob'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  getWakeDependencyJob(req: Request, res: Response): void {
+    const jobId = req.params.jobId as string;
+    const job = this.commandRouter.getWakeDependencyJob(jobId);
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Wake dependency job ${jobId} not found`,
+      });
+      return;
+    }
+
+    res.json(job);
+  }
+
+  /**
+   * @swagger
+   * /api/hosts/bulk:
+   *   post:
+   *     summary: Run one action against many hosts
+   *     description: |
+   *       Dispatches wake, ping, scan-ports, tag/notes update or delete for every listed FQN
+   *       and returns a per-item result with command IDs and states. Items are dispatched in
+   *       parallel across nodes and capped per node by BULK_COMMAND_NODE_CONCURRENCY.
+   *       An Idempotency-Key is scoped per FQN, so retrying the same bulk request reuses
+   *       the commands already dispatched for each item.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: header
+   *         name: Idempotency-Key
+   *         schema:
+   *           type: string
+   *         description: Optional idempotency key applied to each item
+   *         example: bulk-request-id-123
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/HostBulkOperationRequest'
+   *     responses:
+   *       200:
+   *         description: Bulk operation processed; inspect per-item results for failures
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostBulkOperationResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async bulkHostOperation(req: Request, res: Response): Promise<void> {
+    try {
+      const correlationId = req.correlationId ?? null;
+
+      const parseResult = hostBulkOperationRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid request body',
+          details: parseResult.error.issues,
+        });
+        return;
+      }
+
+      const request = parseResult.data;
+      logger.info('Bulk host request received', {
+        action: request.action,
+        hostCount: request.fqns.length,
+      });
+
+      const idempotencyKeyHeader = req.header('Idempotency-Key');
+      const idempotencyKey =
+        idempotencyKeyHeader && idempotencyKeyHeader.trim().length > 0
+          ? idempotencyKeyHeader.trim()
+          : null;
+
+      const result = await this.commandRouter.routeBulkHostCommand(request, {
+        idempotencyKey,
+        correlationId,
+        verify:
+          request.action === 'wake' && request.verify
+            ? { timeoutMs: 120_000, pollIntervalMs: 3_000 }
+            : null,
+      });
+
+      if (request.action === 'scan-ports') {
+        for (const item of result.results) {
+          if (item.success && item.portScan) {
+            await this.persistHostPortScanSnapshot(item.fqn, item.portScan);
+          }
+        }
+      }
+
+      res.json(result);
+    } catch (error: unknown) {
+      logger.error('Failed to run bulk host operation', toLogError(error));
+
+      const errorBody: { error: string; message: string; correlationId?: string } = {
+        error: 'Internal Server Error',
+        message: 'Failed to run bulk host operation',
+      };
+      if (req.correlationId) {
+        errorBody.correlationId = req.correlationId;
+      }
+
+      res.status(500).json(errorBody);
+    }
+  }
+
   private async dispatchHostPowerAction(
     req: Request,
     res: Response,
@@ -845,6 +1063,167 @@ export class HostsController {
     await this.dispatchHostPowerAction(req, res, 'shutdown');
   }
 
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/power:
+   *   post:
+   *     summary: Control host power through its BMC
+   *     description: >
+   *       Dispatches an out-of-band power action (power-on, graceful-shutdown, force-off or power-cycle)
+   *       through the host's managing node to the BMC configured by its redfish power control.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Fully qualified name (hostname@location)
+   *         example: rack-01@datacenter
+   *       - in: header
+   *         name: Idempotency-Key
+   *         schema:
+   *           type: string
+   *         description: Optional idempotency key to prevent duplicate commands
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/HostOutOfBandPowerRequest'
+   *     responses:
+   *       200:
+   *         description: Power action accepted by the BMC
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostOutOfBandPowerResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         description: Host has no enabled redfish power control
+   *       503:
+   *         $ref: '#/components/responses/ServiceUnavailable'
+   *       504:
+   *         $ref: '#/components/responses/GatewayTimeout'
+   */
+  async powerHost(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = req.params.fqn as string;
+      const correlationId = req.correlationId ?? null;
+
+      const bodyParse = hostOutOfBandPowerBodySchema.safeParse(req.body ?? {});
+      if (!bodyParse.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid request body',
+          details: bodyParse.error.issues,
+        });
+        return;
+      }
+
+      const { action, confirm } = bodyParse.data;
+      if (confirm.trim().toLowerCase() !== action) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Field "confirm" must equal "${action}"`,
+        });
+        return;
+      }
+
+      const idempotencyKeyHeader = req.header('Idempotency-Key');
+      const options: { idempotencyKey: string | null; correlationId?: string } = {
+        idempotencyKey:
+          idempotencyKeyHeader && idempotencyKeyHeader.trim().length > 0 ? idempotencyKeyHeader.trim() : null,
+      };
+      if (correlationId) {
+        options.correlationId = correlationId;
+      }
+
+      res.json(await this.commandRouter.routeOutOfBandPowerCommand(action, fqn, options));
+    } catch (error) {
+      logger.error('Failed to control host power', { fqn: req.params.fqn, ...toLogError(error) });
+
+      const mapped = mapCommandError(error, 'Failed to control host power');
+      const errorBody: { error: string; message: string; correlationId?: string } = {
+        error: mapped.errorTitle,
+        message: mapped.message,
+      };
+      if (req.correlationId) {
+        errorBody.correlationId = req.correlationId;
+      }
+
+      res.status(mapped.statusCode).json(errorBody);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/power:
+   *   get:
+   *     summary: Read host power state from its BMC
+   *     description: Queries the Redfish PowerState of a host with redfish power control through its managing node.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Fully qualified name (hostname@location)
+   *         example: rack-01@datacenter
+   *     responses:
+   *       200:
+   *         description: Power state reported by the BMC
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostPowerStateResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         description: Host has no enabled redfish power control
+   *       503:
+   *         $ref: '#/components/responses/ServiceUnavailable'
+   *       504:
+   *         $ref: '#/components/responses/GatewayTimeout'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async getHostPowerState(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = req.params.fqn as string;
+      const correlationId = req.correlationId ?? null;
+
+      res.json(
+        await this.commandRouter.routeHostPowerStateCommand(fqn, correlationId ? { correlationId } : {})
+      );
+    } catch (error: unknown) {
+      logger.error('Failed to query host power state', { fqn: req.params.fqn, ...toLogError(error) });
+
+      const mapped = mapCommandError(error, 'Failed to query host power state');
+      const errorBody: { error: string; message: string; correlationId?: string } = {
+        error: mapped.errorTitle,
+        message: mapped.message,
+      };
+      if (req.correlationId) {
+        errorBody.correlationId = req.correlationId;
+      }
+
+      res.status(mapped.statusCode).json(errorBody);
+    }
+  }
+
   /**
    * @swagger
    * /api/hosts/ping/{fqn}:
@@ -1142,6 +1521,7 @@ export class HostsController {
    * /api/hosts/merge-candidates:
    *   get:
    *     summary: List potential duplicate-host merge candidates
+   *     description: User accounts without the admin role only see pairs of hosts they own.
    *     tags: [Hosts]
    *     responses:
    *       200:
@@ -1149,7 +1529,10 @@ export class HostsController {
    */
   async getMergeCandidates(req: Request, res: Response): Promise<void> {
     try {
-      const hosts = await this.hostAggregator.getAllHosts();
+      const allHosts = await this.hostAggregator.getAllHosts();
+      const hosts = this.accessControl
+        ? await this.accessControl.filterHosts(req.auth, allHosts, 'owner')
+        : allHosts;
       const candidates: Array<{
         targetFqn: string;
         targetName: string;
@@ -1625,6 +2008,21 @@ export class HostsController {
  *                 type: array
  *                 items:
  *                   type: string
+ *               wakeStrategy:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/HostWakeStrategy'
+ *                 nullable: true
+ *                 description: |
+ *                   Wake retry and fallback escalation run by the node; null clears it.
+ *                   Only admins may add, change or remove `fallback`; other callers must send the current one.
+ *               secureOnPassword:
+ *                 type: string
+ *                 nullable: true
+ *                 description: 4- or 6-byte SecureOn password stored encrypted on the node; null clears it
+ *               powerControlPassword:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Redfish BMC password stored encrypted on the node; null clears it
    *     responses:
    *       200:
    *         description: Host updated successfully
@@ -1641,6 +2039,8 @@ export class HostsController {
    *                   example: Host updated successfully
    *       401:
    *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
    *       404:
    *         $ref: '#/components/responses/NotFound'
    *       500:
@@ -1666,6 +2066,19 @@ export class HostsController {
         return;
       }
 
+      const requestedWakeStrategy = parseResult.data.wakeStrategy;
+      if (requestedWakeStrategy !== undefined && !req.auth?.roles.includes('admin')) {
+        const host = await this.hostAggregator.getHostByFQN(fqn);
+        if (changesWakeFallback(host?.wakeStrategy, requestedWakeStrategy)) {
+          res.status(403).json({
+            error: 'Forbidden',
+            message: 'Only admins can change the wake strategy fallback action',
+            code: 'AUTH_FORBIDDEN',
+          });
+          return;
+        }
+      }
+
       const hostData = toRouteUpdateHostData(parseResult.data);
       logger.info('Update host request received', { fqn });
 
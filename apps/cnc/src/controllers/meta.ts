@@ -74,13 +74,49 @@ const capabilityMatrix: CncCapabilitiesResponse['capabilities'] = {
     supported: true,
     routes: ['/api/hosts/:fqn/sleep'],
     persistence: 'backend',
-    note: 'Remote host suspend command over node-agent SSH transport; execution is gated per-host by powerControl.enabled.',
+    note: 'Remote host suspend command over node-agent SSH transport; execution is gated per-host by powerControl.enabled. Not available on the redfish transport.',
   },
   shutdown: {
     supported: true,
     routes: ['/api/hosts/:fqn/shutdown'],
     persistence: 'backend',
-    note: 'Remote host shutdown command over node-agent SSH transport; execution is gated per-host by powerControl.enabled.',
+    note: 'Remote host shutdown command over the node-agent SSH transport, or a graceful shutdown through the BMC on the redfish transport; execution is gated per-host by powerControl.enabled.',
+  },
+  hostGroups: {
+    supported: true,
+    routes: ['/api/groups', '/api/groups/:id', '/api/groups/:id/wake', '/api/groups/:id/sleep', '/api/groups/:id/shutdown'],
+    persistence: 'backend',
+    note: 'Host groups may span several nodes. Group actions return one aggregate job with per-host command states and stream group.action.* events on /ws/mobile/hosts.',
+  },
+  bulkHostOperations: {
+    supported: true,
+    routes: ['/api/hosts/bulk'],
+    persistence: 'backend',
+    note: 'Bulk wake/ping/scan-ports/update/delete with per-item command states; per-node concurrency is capped by BULK_COMMAND_NODE_CONCURRENCY.',
+  },
+  wakeDependencies: {
+    supported: true,
+    routes: ['/api/hosts/:fqn/dependencies', '/api/hosts/wake-jobs/:jobId'],
+    persistence: 'backend',
+    note: 'Prerequisite hosts are woken first and must report a confirmed wake verification; wakes of such hosts answer 202 with a background dependencyJob.',
+  },
+  wakeRelay: {
+    supported: true,
+    routes: ['/api/hosts/:fqn/wake-relay'],
+    persistence: 'backend',
+    note: 'Magic packets for the host are sent by the relay node to the configured directed broadcast or unicast address.',
+  },
+  wakeStrategy: {
+    supported: true,
+    routes: ['/api/hosts/:fqn'],
+    persistence: 'backend',
+    note: 'Per-host wakeStrategy escalates unconfirmed verified wakes (resends, alternate ports, directed broadcast, webhook/IPMI/Redfish fallback); wakeVerification.steps records each step.',
+  },
+  outOfBandPower: {
+    supported: true,
+    routes: ['/api/hosts/:fqn/power'],
+    persistence: 'backend',
+    note: 'Power on, graceful shutdown, force off, power cycle and power-state query through the host BMC for powerControl.transport redfish; the BMC password is set with powerControlPassword and stored encrypted on the node.',
   },
 };
 
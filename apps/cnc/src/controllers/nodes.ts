@@ -6,16 +6,22 @@ import { Request, Response } from 'express';
 import { NodeModel } from '../models/Node';
 import logger from '../utils/logger';
 import { NodeManager } from '../services/nodeManager';
+import type { AccessControl } from '../services/accessControl';
 
 export class NodesController {
-  constructor(private nodeManager: NodeManager) {}
+  constructor(
+    private nodeManager: NodeManager,
+    private accessControl?: AccessControl,
+  ) {}
 
   /**
    * @swagger
    * /api/nodes:
    *   get:
    *     summary: List all nodes
-   *     description: Retrieve a list of all registered nodes with connection status
+   *     description: |
+   *       Retrieve a list of all registered nodes with connection status.
+   *       User accounts without the admin role only see nodes granted to them.
    *     tags: [Nodes]
    *     security:
    *       - bearerAuth: []
@@ -33,10 +39,11 @@ export class NodesController {
    *       500:
    *         $ref: '#/components/responses/InternalError'
    */
-  async listNodes(_req: Request, res: Response): Promise<void> {
+  async listNodes(req: Request, res: Response): Promise<void> {
     try {
-      const nodes = await NodeModel.findAll();
-      
+      const allNodes = await NodeModel.findAll();
+      const nodes = this.accessControl ? await this.accessControl.filterNodes(req.auth, allNodes) : allNodes;
+
       // Add connection status
       const nodesWithConnection = nodes.map(node => ({
         ...node,
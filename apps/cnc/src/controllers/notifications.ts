@@ -4,11 +4,12 @@ import {
   notificationPreferencesSchema,
 } from '@kaonis/woly-protocol';
 import { z } from 'zod';
+import config from '../config';
 import PushNotificationModel from '../models/PushNotification';
 import logger from '../utils/logger';
 
 const deviceTokenParamsSchema = z.object({
-  token: z.string().min(8).max(4096),
+  token: z.string().min(1).max(4096),
 });
 
 export class NotificationsController {
@@ -36,6 +37,8 @@ export class NotificationsController {
         userId: req.auth.sub,
         platform: parsed.data.platform,
         token: parsed.data.token,
+        apnsEnvironment: parsed.data.apnsEnvironment,
+        webPushKeys: parsed.data.webPushKeys,
       });
 
       if (parsed.data.preferences) {
@@ -79,6 +82,19 @@ export class NotificationsController {
     }
   }
 
+  /** VAPID public key a browser needs to create a Web Push subscription. */
+  getWebPushPublicKey(_req: Request, res: Response): void {
+    if (!config.webPushVapidPublicKey || !config.webPushVapidPrivateKey || !config.webPushVapidSubject) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Web Push is not configured',
+      });
+      return;
+    }
+
+    res.json({ publicKey: config.webPushVapidPublicKey });
+  }
+
   async deregisterDevice(req: Request, res: Response): Promise<void> {
     if (!req.auth?.sub) {
       res.status(401).json({
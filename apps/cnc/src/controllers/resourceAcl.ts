@@ -0,0 +1,319 @@
+/**
+ * Resource ACL controller - shares nodes and hosts with user accounts.
+ *
+ * Admins manage every ACL; other callers need `owner` permission on the
+ * resource, which lets family members or tenants share their own machines.
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { aclResourceTypeSchema, grantResourceAccessRequestSchema } from '@kaonis/woly-protocol';
+import { NodeModel } from '../models/Node';
+import ResourceAclModel from '../models/ResourceAcl';
+import UserModel from '../models/User';
+import type { AccessControl } from '../services/accessControl';
+import type { HostAggregator } from '../services/hostAggregator';
+import type { AclResourceType } from '../types';
+import logger from '../utils/logger';
+
+const resourceParamsSchema = z.object({
+  resourceType: aclResourceTypeSchema,
+  resourceId: z.string().min(1),
+});
+
+const grantParamsSchema = resourceParamsSchema.extend({
+  userId: z.string().min(1),
+});
+
+function toLogError(error: unknown): { error: string } {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export class ResourceAclController {
+  constructor(
+    private readonly accessControl: AccessControl,
+    private readonly hostAggregator: HostAggregator,
+  ) {}
+
+  private async resourceExists(resourceType: AclResourceType, resourceId: string): Promise<boolean> {
+    if (resourceType === 'node') {
+      return (await NodeModel.findById(resourceId)) !== null;
+    }
+
+    return (await this.hostAggregator.getHostByFQN(resourceId)) !== null;
+  }
+
+  /** Responds 404/403 and returns false unless the caller may manage the resource's ACL. */
+  private async authorizeOwner(
+    req: Request,
+    res: Response,
+    resourceType: AclResourceType,
+    resourceId: string,
+  ): Promise<boolean> {
+    if (!(await this.resourceExists(resourceType, resourceId))) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `${resourceType === 'node' ? 'Node' : 'Host'} ${resourceId} not found`,
+      });
+      return false;
+    }
+
+    const forbidden = await this.accessControl.findForbidden(req.auth, resourceType, [resourceId], 'owner');
+    if (forbidden.length > 0) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Requires owner permission on ${resourceType} ${resourceId}`,
+        code: 'AUTH_FORBIDDEN',
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * @swagger
+   * /api/acl/{resourceType}/{resourceId}:
+   *   get:
+   *     summary: List who can access a node or host
+   *     description: Requires the admin role or owner permission on the resource.
+   *     tags: [Access Control]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: resourceType
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [node, host]
+   *       - in: path
+   *         name: resourceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Node id or host FQN
+   *     responses:
+   *       200:
+   *         description: Resource ACL
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ResourceAclResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listResourceAcl(req: Request, res: Response): Promise<void> {
+    const parsedParams = resourceParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid resource reference',
+        details: parsedParams.error.issues,
+      });
+      return;
+    }
+
+    const { resourceType, resourceId } = parsedParams.data;
+    try {
+      if (!(await this.authorizeOwner(req, res, resourceType, resourceId))) {
+        return;
+      }
+
+      const entries = await ResourceAclModel.listForResource(resourceType, resourceId);
+      res.json({ resourceType, resourceId, entries });
+    } catch (error) {
+      logger.error('Failed to list resource ACL', { resourceType, resourceId, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list resource ACL',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/acl/{resourceType}/{resourceId}:
+   *   post:
+   *     summary: Grant a user access to a node or host
+   *     description: |
+   *       Creates the grant or replaces the user's permission. `operate` includes `view`;
+   *       `owner` includes `operate` and allows managing the resource's ACL.
+   *     tags: [Access Control]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: resourceType
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [node, host]
+   *       - in: path
+   *         name: resourceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/GrantResourceAccessRequest'
+   *     responses:
+   *       200:
+   *         description: Grant stored
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ResourceAclEntry'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async grantAccess(req: Request, res: Response): Promise<void> {
+    const parsedParams = resourceParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid resource reference',
+        details: parsedParams.error.issues,
+      });
+      return;
+    }
+
+    const parsed = grantResourceAccessRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid grant payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    const { resourceType, resourceId } = parsedParams.data;
+    try {
+      if (!(await this.authorizeOwner(req, res, resourceType, resourceId))) {
+        return;
+      }
+
+      const user = await UserModel.findById(parsed.data.userId);
+      if (!user) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `User ${parsed.data.userId} not found`,
+        });
+        return;
+      }
+
+      const entry = await ResourceAclModel.grant(resourceType, resourceId, user.id, parsed.data.permission);
+      logger.info('Resource access granted', {
+        resourceType,
+        resourceId,
+        userId: user.id,
+        permission: entry.permission,
+        grantedBy: req.auth?.sub,
+      });
+      res.json(entry);
+    } catch (error) {
+      logger.error('Failed to grant resource access', { resourceType, resourceId, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to grant resource access',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/acl/{resourceType}/{resourceId}/{userId}:
+   *   delete:
+   *     summary: Revoke a user's access to a node or host
+   *     tags: [Access Control]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: resourceType
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [node, host]
+   *       - in: path
+   *         name: resourceId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Grant revoked
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async revokeAccess(req: Request, res: Response): Promise<void> {
+    const parsedParams = grantParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid resource reference',
+        details: parsedParams.error.issues,
+      });
+      return;
+    }
+
+    const { resourceType, resourceId, userId } = parsedParams.data;
+    try {
+      if (!(await this.authorizeOwner(req, res, resourceType, resourceId))) {
+        return;
+      }
+
+      const revoked = await ResourceAclModel.revoke(resourceType, resourceId, userId);
+      if (!revoked) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `User ${userId} has no grant on ${resourceType} ${resourceId}`,
+        });
+        return;
+      }
+
+      res.json({ success: true, resourceType, resourceId, userId });
+    } catch (error) {
+      logger.error('Failed to revoke resource access', { resourceType, resourceId, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to revoke resource access',
+      });
+    }
+  }
+}
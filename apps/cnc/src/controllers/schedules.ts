@@ -4,9 +4,20 @@ import {
   updateHostWakeScheduleRequestSchema,
 } from '@kaonis/woly-protocol';
 import { HostAggregator } from '../services/hostAggregator';
+import type { AccessControl } from '../services/accessControl';
+import ExceptionCalendarModel from '../models/ExceptionCalendar';
 import HostScheduleModel from '../models/HostSchedule';
+import HostScheduleExecutionModel from '../models/HostScheduleExecution';
+import type { Host, ScheduleAction } from '../types';
 import { createJsonEtag, isIfNoneMatchSatisfied } from '../utils/httpCache';
 import logger from '../utils/logger';
+import { computeUpcomingTriggers, validateScheduleTrigger } from '../utils/scheduleTriggers';
+
+const DEFAULT_TRIGGER_PREVIEW_COUNT = 5;
+const MAX_TRIGGER_PREVIEW_COUNT = 50;
+const DEFAULT_EXECUTIONS_LIMIT = 50;
+const MAX_EXECUTIONS_LIMIT = 500;
+const TRIGGER_FIELDS = ['scheduledTime', 'frequency', 'cronExpression', 'solar', 'timezone'] as const;
 
 function parseEnabledQuery(value: unknown): boolean | undefined | null {
   if (value === undefined) {
@@ -23,6 +34,64 @@ function parseEnabledQuery(value: unknown): boolean | undefined | null {
   return null;
 }
 
+function parsePreviewQuery(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === '') {
+    return DEFAULT_TRIGGER_PREVIEW_COUNT;
+  }
+
+  if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) {
+    return null;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return parsed <= MAX_TRIGGER_PREVIEW_COUNT ? parsed : null;
+}
+
+function parseExecutionsLimitQuery(value: unknown): number | null {
+  if (value === undefined) {
+    return DEFAULT_EXECUTIONS_LIMIT;
+  }
+
+  if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) {
+    return null;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return parsed >= 1 && parsed <= MAX_EXECUTIONS_LIMIT ? parsed : null;
+}
+
+async function findUnknownExceptionCalendarIds(ids: string[] | undefined): Promise<string[]> {
+  if (!ids || ids.length === 0) {
+    return [];
+  }
+
+  const known = new Set((await ExceptionCalendarModel.findByIds(ids)).map((calendar) => calendar.id));
+  return ids.filter((id) => !known.has(id));
+}
+
+function validatePowerControlForAction(
+  host: Pick<Host, 'powerControl'> | null,
+  fqn: string,
+  action: ScheduleAction | undefined,
+): string | null {
+  if (action === undefined || action === 'wake') {
+    return null;
+  }
+
+  if (!host?.powerControl?.enabled) {
+    return `Host ${fqn} has no enabled power control configuration; ${action} schedules require powerControl.enabled`;
+  }
+
+  if (action === 'sleep' && host.powerControl.transport === 'redfish') {
+    return `Host ${fqn} uses the redfish power control transport, which cannot put hosts to sleep`;
+  }
+
+  return null;
+}
+
 function buildAllowedFqnSet(hosts: unknown[]): Set<string> {
   const allowed = new Set<string>();
 
@@ -46,13 +115,20 @@ function buildAllowedFqnSet(hosts: unknown[]): Set<string> {
 }
 
 export class SchedulesController {
-  constructor(private readonly hostAggregator: HostAggregator) {}
+  constructor(
+    private readonly hostAggregator: HostAggregator,
+    private readonly accessControl?: AccessControl,
+  ) {}
 
   /**
    * @swagger
    * /api/schedules:
    *   get:
    *     summary: List wake schedules across all hosts
+   *     description: |
+   *       Schedules that reference exception calendars include `skippedRuns`: runs since the
+   *       last trigger, up to `nextTrigger`, that fall on an excluded date and why.
+   *       User accounts without the admin role only see schedules of hosts granted to them.
    *     tags: [Hosts]
    *     security:
    *       - bearerAuth: []
@@ -121,6 +197,10 @@ export class SchedulesController {
         const allowedFqns = buildAllowedFqnSet(hosts as unknown[]);
         schedules = baseSchedules.filter((schedule) => allowedFqns.has(schedule.hostFqn));
       }
+      if (this.accessControl) {
+        schedules = await this.accessControl.filterByHostFqn(req.auth, schedules, (schedule) => schedule.hostFqn);
+      }
+      schedules = await HostScheduleModel.withSkippedRuns(schedules);
 
       const payload = { schedules };
       const etag = createJsonEtag(payload);
@@ -146,6 +226,10 @@ export class SchedulesController {
    * /api/schedules/{id}:
    *   get:
    *     summary: Get wake schedule by id
+   *     description: |
+   *       With `preview`, the response includes `upcomingTriggers`: the next fire times,
+   *       computed in the schedule's timezone (DST-aware for cron and solar schedules).
+   *       Dates listed in the schedule's exception calendars are skipped; see `skippedRuns`.
    *     tags: [Hosts]
    *     security:
    *       - bearerAuth: []
@@ -155,6 +239,14 @@ export class SchedulesController {
    *         required: true
    *         schema:
    *           type: string
+   *       - in: query
+   *         name: preview
+   *         required: false
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           maximum: 50
+   *         description: Number of upcoming fire times to include (an empty value means 5).
    *     responses:
    *       200:
    *         description: Schedule entry
@@ -162,6 +254,8 @@ export class SchedulesController {
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/HostWakeSchedule'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
    *       401:
    *         $ref: '#/components/responses/Unauthorized'
    *       404:
@@ -170,8 +264,17 @@ export class SchedulesController {
   async getSchedule(req: Request, res: Response): Promise<void> {
     try {
       const id = req.params.id as string;
-      const schedule = await HostScheduleModel.findById(id);
-      if (!schedule) {
+      const previewCount = parsePreviewQuery(req.query.preview);
+      if (previewCount === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid preview query. Use an integer between 0 and ${MAX_TRIGGER_PREVIEW_COUNT}`,
+        });
+        return;
+      }
+
+      const existing = await HostScheduleModel.findById(id);
+      if (!existing) {
         res.status(404).json({
           error: 'Not Found',
           message: `Schedule ${id} not found`,
@@ -179,7 +282,16 @@ export class SchedulesController {
         return;
       }
 
-      res.json(schedule);
+      const [schedule] = await HostScheduleModel.withSkippedRuns([existing]);
+      if (previewCount === undefined) {
+        res.json(schedule);
+        return;
+      }
+
+      const upcomingTriggers = schedule.enabled
+        ? computeUpcomingTriggers(await HostScheduleModel.resolveTriggerSpec(schedule), previewCount)
+        : [];
+      res.json({ ...schedule, upcomingTriggers });
     } catch (error) {
       logger.error('Failed to get schedule', { id: req.params.id, error });
       res.status(500).json({
@@ -189,6 +301,78 @@ export class SchedulesController {
     }
   }
 
+  /**
+   * @swagger
+   * /api/schedules/{id}/executions:
+   *   get:
+   *     summary: List execution attempts of a schedule
+   *     description: |
+   *       Newest first. Each entry records the dispatched command, its state, the wake
+   *       verification outcome for scheduled wakes and the error of failed attempts.
+   *       Wake executions stay `pending` until the agent reports verification.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: limit
+   *         required: false
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 500
+   *           default: 50
+   *     responses:
+   *       200:
+   *         description: Schedule execution log
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ScheduleExecutionsResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  async listScheduleExecutions(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params.id as string;
+      const limit = parseExecutionsLimitQuery(req.query.limit);
+      if (limit === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid limit query. Use an integer between 1 and ${MAX_EXECUTIONS_LIMIT}`,
+        });
+        return;
+      }
+
+      const schedule = await HostScheduleModel.findById(id);
+      if (!schedule) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Schedule ${id} not found`,
+        });
+        return;
+      }
+
+      const executions = await HostScheduleExecutionModel.listBySchedule(id, limit);
+      res.json({ scheduleId: id, executions });
+    } catch (error) {
+      logger.error('Failed to list schedule executions', { id: req.params.id, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list schedule executions',
+      });
+    }
+  }
+
   /**
    * @swagger
    * /api/hosts/{fqn}/schedules:
@@ -244,6 +428,10 @@ export class SchedulesController {
    * /api/hosts/{fqn}/schedules:
    *   post:
    *     summary: Create a wake schedule for a host
+   *     description: |
+   *       `action` selects the command dispatched when the schedule fires (default `wake`).
+   *       `sleep` and `shutdown` schedules are rejected with 400 unless the host has
+   *       `powerControl.enabled`.
    *     tags: [Hosts]
    *     security:
    *       - bearerAuth: []
@@ -297,15 +485,43 @@ export class SchedulesController {
       }
 
       const payload = parseResult.data;
+      const trigger = {
+        scheduledTime: payload.scheduledTime,
+        frequency: payload.frequency,
+        ...(payload.cronExpression !== undefined ? { cronExpression: payload.cronExpression } : {}),
+        ...(payload.solar !== undefined ? { solar: payload.solar } : {}),
+        timezone: payload.timezone ?? 'UTC',
+      };
+      const validationError =
+        validateScheduleTrigger(trigger) ?? validatePowerControlForAction(host, fqn, payload.action);
+      if (validationError) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: validationError,
+        });
+        return;
+      }
+
+      const unknownCalendarIds = await findUnknownExceptionCalendarIds(payload.exceptionCalendarIds);
+      if (unknownCalendarIds.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown exception calendar ids: ${unknownCalendarIds.join(', ')}`,
+        });
+        return;
+      }
+
       const created = await HostScheduleModel.create({
         hostFqn: fqn,
         hostName: host.name,
         hostMac: host.mac,
-        scheduledTime: payload.scheduledTime,
-        frequency: payload.frequency,
+        ...trigger,
+        ...(payload.action !== undefined ? { action: payload.action } : {}),
+        ...(payload.exceptionCalendarIds !== undefined
+          ? { exceptionCalendarIds: payload.exceptionCalendarIds }
+          : {}),
         enabled: payload.enabled ?? true,
         notifyOnWake: payload.notifyOnWake ?? true,
-        timezone: payload.timezone ?? 'UTC',
       });
 
       res.status(201).json(created);
@@ -365,7 +581,52 @@ export class SchedulesController {
         return;
       }
 
-      const updated = await HostScheduleModel.update(id, parseResult.data);
+      const updates = parseResult.data;
+      const changesTrigger = TRIGGER_FIELDS.some((field) => updates[field] !== undefined);
+      const requiresPowerControl = updates.action !== undefined && updates.action !== 'wake';
+      if (changesTrigger || requiresPowerControl) {
+        const existing = await HostScheduleModel.findById(id);
+        if (!existing) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: `Schedule ${id} not found`,
+          });
+          return;
+        }
+
+        let validationError: string | null = null;
+        if (changesTrigger) {
+          validationError = validateScheduleTrigger({
+            scheduledTime: updates.scheduledTime ?? existing.scheduledTime,
+            frequency: updates.frequency ?? existing.frequency,
+            cronExpression: updates.cronExpression ?? existing.cronExpression,
+            solar: updates.solar ?? existing.solar,
+            timezone: updates.timezone ?? existing.timezone,
+          });
+        }
+        if (!validationError && requiresPowerControl) {
+          const host = await this.hostAggregator.getHostByFQN(existing.hostFqn);
+          validationError = validatePowerControlForAction(host, existing.hostFqn, updates.action);
+        }
+        if (validationError) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: validationError,
+          });
+          return;
+        }
+      }
+
+      const unknownCalendarIds = await findUnknownExceptionCalendarIds(updates.exceptionCalendarIds);
+      if (unknownCalendarIds.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown exception calendar ids: ${unknownCalendarIds.join(', ')}`,
+        });
+        return;
+      }
+
+      const updated = await HostScheduleModel.update(id, updates);
       if (!updated) {
         res.status(404).json({
           error: 'Not Found',
@@ -422,6 +683,7 @@ export class SchedulesController {
         return;
       }
 
+      await HostScheduleExecutionModel.deleteBySchedule(id);
       res.json({ success: true, id });
     } catch (error) {
       logger.error('Failed to delete schedule', { id: req.params.id, error });
@@ -0,0 +1,458 @@
+/**
+ * User accounts controller - admin management of C&C login accounts.
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { createUserRequestSchema, updateUserRequestSchema } from '@kaonis/woly-protocol';
+import RefreshTokenModel from '../models/RefreshToken';
+import ResourceAclModel from '../models/ResourceAcl';
+import UserModel from '../models/User';
+import logger from '../utils/logger';
+import { hashPassword } from '../utils/passwordHash';
+
+const userParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+function toLogError(error: unknown): { error: string } {
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export class UsersController {
+  private respondNotFound(res: Response, id: string): void {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `User ${id} not found`,
+    });
+  }
+
+  private respondMissingId(res: Response): void {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'User id is required',
+    });
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users:
+   *   get:
+   *     summary: List user accounts
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: User account list
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/UsersResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listUsers(_req: Request, res: Response): Promise<void> {
+    try {
+      const users = await UserModel.list();
+      res.json({ users });
+    } catch (error) {
+      logger.error('Failed to list users', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list users',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users:
+   *   post:
+   *     summary: Create a user account
+   *     description: Usernames are unique regardless of case. `role` defaults to `operator`.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateUserRequest'
+   *     responses:
+   *       201:
+   *         description: User account created
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/UserAccount'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async createUser(req: Request, res: Response): Promise<void> {
+    const parsed = createUserRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    try {
+      const existing = await UserModel.findByUsername(parsed.data.username);
+      if (existing) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `User ${parsed.data.username} already exists`,
+        });
+        return;
+      }
+
+      const user = await UserModel.create({
+        username: parsed.data.username,
+        passwordHash: await hashPassword(parsed.data.password),
+        role: parsed.data.role ?? 'operator',
+      });
+      logger.info('User account created', { userId: user.id, role: user.role, createdBy: req.auth?.sub });
+      res.status(201).json(user);
+    } catch (error) {
+      logger.error('Failed to create user', toLogError(error));
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to create user',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users/{id}:
+   *   get:
+   *     summary: Get a user account
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: User account
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/UserAccount'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async getUser(req: Request, res: Response): Promise<void> {
+    const parsedParams = userParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const user = await UserModel.findById(id);
+      if (!user) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      res.json(user);
+    } catch (error) {
+      logger.error('Failed to get user', { userId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve user',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users/{id}:
+   *   put:
+   *     summary: Update a user account
+   *     description: Changing the password or disabling the account revokes its refresh tokens.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateUserRequest'
+   *     responses:
+   *       200:
+   *         description: User account updated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/UserAccount'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async updateUser(req: Request, res: Response): Promise<void> {
+    const parsedParams = userParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const parsed = updateUserRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid user payload',
+        details: parsed.error.issues,
+      });
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const user = await UserModel.update(id, {
+        ...(parsed.data.password !== undefined ? { passwordHash: await hashPassword(parsed.data.password) } : {}),
+        ...(parsed.data.role !== undefined ? { role: parsed.data.role } : {}),
+        ...(parsed.data.disabled !== undefined ? { disabled: parsed.data.disabled } : {}),
+      });
+      if (!user) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      if (parsed.data.password !== undefined || parsed.data.disabled === true) {
+        await RefreshTokenModel.revokeAllForUser(id);
+      }
+
+      res.json(user);
+    } catch (error) {
+      logger.error('Failed to update user', { userId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update user',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users/{id}:
+   *   delete:
+   *     summary: Delete a user account
+   *     description: Also deletes the user's refresh tokens, resource grants and OIDC identity links. Admins cannot delete their own account.
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: User account deleted
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async deleteUser(req: Request, res: Response): Promise<void> {
+    const parsedParams = userParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    if (req.auth?.userId === id) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'You cannot delete your own account',
+      });
+      return;
+    }
+
+    try {
+      const deleted = await UserModel.delete(id);
+      if (!deleted) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      res.json({ success: true, id });
+    } catch (error) {
+      logger.error('Failed to delete user', { userId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete user',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users/{id}/sessions:
+   *   delete:
+   *     summary: Revoke all sessions of a user
+   *     description: |
+   *       Revokes every refresh token of the user. Access tokens already issued stay valid
+   *       until they expire (`JWT_TTL_SECONDS`).
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Sessions revoked
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async revokeUserSessions(req: Request, res: Response): Promise<void> {
+    const parsedParams = userParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const user = await UserModel.findById(id);
+      if (!user) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      const revoked = await RefreshTokenModel.revokeAllForUser(id);
+      res.json({ success: true, id, revoked });
+    } catch (error) {
+      logger.error('Failed to revoke user sessions', { userId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to revoke user sessions',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/admin/users/{id}/acl:
+   *   get:
+   *     summary: List the resource grants of a user
+   *     tags: [Admin]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Grants held by the user
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 entries:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/ResourceAclEntry'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async listUserGrants(req: Request, res: Response): Promise<void> {
+    const parsedParams = userParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      this.respondMissingId(res);
+      return;
+    }
+
+    const { id } = parsedParams.data;
+    try {
+      const user = await UserModel.findById(id);
+      if (!user) {
+        this.respondNotFound(res, id);
+        return;
+      }
+
+      const entries = await ResourceAclModel.listForUser(id);
+      res.json({ entries });
+    } catch (error) {
+      logger.error('Failed to list user grants', { userId: id, ...toLogError(error) });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list user grants',
+      });
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { Request, Response } from 'express';
+import { updateHostWakeDependenciesRequestSchema } from '@kaonis/woly-protocol';
+import { HostAggregator } from '../services/hostAggregator';
+import HostWakeDependencyModel from '../models/HostWakeDependency';
+import logger from '../utils/logger';
+
+export class WakeDependenciesController {
+  constructor(private readonly hostAggregator: HostAggregator) {}
+
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/dependencies:
+   *   get:
+   *     summary: List the hosts that must be awake before this host is woken
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Direct wake prerequisites in wake order
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostWakeDependencies'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  async getDependencies(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = req.params.fqn as string;
+      const host = await this.hostAggregator.getHostByFQN(fqn);
+
+      if (!host) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Host ${fqn} not found`,
+        });
+        return;
+      }
+
+      const dependsOn = await HostWakeDependencyModel.listDependsOn(fqn);
+      res.json({ fqn, dependsOn });
+    } catch (error) {
+      logger.error('Failed to list wake dependencies', { fqn: req.params.fqn, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list wake dependencies',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/dependencies:
+   *   put:
+   *     summary: Replace the wake prerequisites of a host
+   *     description: |
+   *       Prerequisites are woken (and must confirm wake verification) before this host
+   *       is woken. An empty list clears them. Definitions that would create a
+   *       dependency cycle are rejected with 409.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateHostWakeDependenciesRequest'
+   *     responses:
+   *       200:
+   *         description: Updated wake prerequisites
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostWakeDependencies'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   */
+  async updateDependencies(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = req.params.fqn as string;
+      const host = await this.hostAggregator.getHostByFQN(fqn);
+
+      if (!host) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Host ${fqn} not found`,
+        });
+        return;
+      }
+
+      const parseResult = updateHostWakeDependenciesRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid request body',
+          details: parseResult.error.issues,
+        });
+        return;
+      }
+
+      const { dependsOn } = parseResult.data;
+      if (dependsOn.includes(fqn)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'A host cannot depend on itself',
+        });
+        return;
+      }
+
+      const unknownHosts: string[] = [];
+      for (const dependency of dependsOn) {
+        if (!(await this.hostAggregator.getHostByFQN(dependency))) {
+          unknownHosts.push(dependency);
+        }
+      }
+      if (unknownHosts.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown dependency host(s): ${unknownHosts.join(', ')}`,
+          details: { unknownHosts },
+        });
+        return;
+      }
+
+      const cycle = await HostWakeDependencyModel.findCycle(fqn, dependsOn);
+      if (cycle) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Wake dependency cycle detected: ${cycle.join(' -> ')}`,
+          details: { cycle },
+        });
+        return;
+      }
+
+      const updated = await HostWakeDependencyModel.replaceForHost(fqn, dependsOn);
+      res.json({ fqn, dependsOn: updated });
+    } catch (error) {
+      logger.error('Failed to update wake dependencies', { fqn: req.params.fqn, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update wake dependencies',
+      });
+    }
+  }
+}
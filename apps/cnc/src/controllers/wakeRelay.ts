@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { updateHostWakeRelayRequestSchema } from '@kaonis/woly-protocol';
+import { HostAggregator } from '../services/hostAggregator';
+import HostWakeRelayModel from '../models/HostWakeRelay';
+import { NodeModel } from '../models/Node';
+import logger from '../utils/logger';
+
+export class WakeRelayController {
+  constructor(private readonly hostAggregator: HostAggregator) {}
+
+  private async requireHost(req: Request, res: Response): Promise<string | null> {
+    const fqn = req.params.fqn as string;
+    const host = await this.hostAggregator.getHostByFQN(fqn);
+
+    if (!host) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Host ${fqn} not found`,
+      });
+      return null;
+    }
+
+    return fqn;
+  }
+
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/wake-relay:
+   *   get:
+   *     summary: Get the node that relays magic packets for this host
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wake relay assignment
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostWakeRelay'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  async getRelay(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = await this.requireHost(req, res);
+      if (!fqn) {
+        return;
+      }
+
+      const relay = await HostWakeRelayModel.findByHost(fqn);
+      if (!relay) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Host ${fqn} has no wake relay`,
+        });
+        return;
+      }
+
+      res.json(relay);
+    } catch (error) {
+      logger.error('Failed to load wake relay', { fqn: req.params.fqn, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to load wake relay',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/wake-relay:
+   *   put:
+   *     summary: Route this host's magic packets through another node
+   *     description: |
+   *       Wake commands for the host are sent to the relay node, which sends the
+   *       magic packet to the target address instead of its local broadcast. Use a
+   *       directed broadcast (e.g. 192.168.20.255) or the host's unicast address for
+   *       subnets the host's own node cannot broadcast to.
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateHostWakeRelayRequest'
+   *     responses:
+   *       200:
+   *         description: Updated wake relay assignment
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/HostWakeRelay'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  async updateRelay(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = await this.requireHost(req, res);
+      if (!fqn) {
+        return;
+      }
+
+      const parseResult = updateHostWakeRelayRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid request body',
+          details: parseResult.error.issues,
+        });
+        return;
+      }
+
+      const { relayNodeId, targetAddress } = parseResult.data;
+      if (!(await NodeModel.findById(relayNodeId))) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Unknown relay node: ${relayNodeId}`,
+        });
+        return;
+      }
+
+      const relay = await HostWakeRelayModel.upsert(fqn, relayNodeId, targetAddress);
+      res.json(relay);
+    } catch (error) {
+      logger.error('Failed to update wake relay', { fqn: req.params.fqn, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update wake relay',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/hosts/{fqn}/wake-relay:
+   *   delete:
+   *     summary: Wake this host through its own node again
+   *     tags: [Hosts]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: fqn
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Wake relay removed
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  async deleteRelay(req: Request, res: Response): Promise<void> {
+    try {
+      const fqn = await this.requireHost(req, res);
+      if (!fqn) {
+        return;
+      }
+
+      if (!(await HostWakeRelayModel.delete(fqn))) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Host ${fqn} has no wake relay`,
+        });
+        return;
+      }
+
+      res.json({ success: true, fqn });
+    } catch (error) {
+      logger.error('Failed to delete wake relay', { fqn: req.params.fqn, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete wake relay',
+      });
+    }
+  }
+}
@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { createWebhookRequestSchema } from '@kaonis/woly-protocol';
+import { createWebhookRequestSchema, updateWebhookRequestSchema } from '@kaonis/woly-protocol';
+import type { WebhookEventType, WebhookFormat } from '@kaonis/woly-protocol';
 import WebhookModel from '../models/Webhook';
+import { WebhookDispatcher } from '../services/webhookDispatcher';
+import { validateWebhookTemplate } from '../services/webhookFormats';
 import logger from '../utils/logger';
 
 const deleteParamsSchema = z.object({
@@ -12,17 +15,49 @@ const deliveriesParamsSchema = z.object({
   id: z.string().min(1),
 });
 
+const webhookParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+const deliveryParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
 const deliveriesQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(500).optional(),
 }).passthrough();
 
+/** Template problems in the same shape as zod issues, for the `details` of a 400 response. */
+function templateIssues(
+  format: WebhookFormat,
+  template: string | null,
+  events: WebhookEventType[],
+): Array<{ path: string[]; message: string }> {
+  if (template === null) {
+    return [];
+  }
+
+  const messages =
+    format === 'raw' ? ['Templates require a non-raw format'] : validateWebhookTemplate(template, events);
+  return messages.map((message) => ({ path: ['template'], message }));
+}
+
 export class WebhooksController {
+  private readonly dispatcher: WebhookDispatcher;
+
+  constructor(options?: { dispatcher?: WebhookDispatcher }) {
+    this.dispatcher = options?.dispatcher ?? new WebhookDispatcher();
+  }
+
   /**
    * @swagger
    * /api/webhooks:
    *   post:
    *     summary: Register a webhook endpoint
-   *     description: Registers a webhook URL and subscribed event types for host/node lifecycle notifications.
+   *     description: |
+   *       Registers a webhook URL and subscribed event types for host/node lifecycle notifications.
+   *       `format` selects a native Slack, Discord, Microsoft Teams, ntfy or Gotify payload; `template`
+   *       customizes its message and is rejected if it uses unknown variables or renders empty.
    *     tags: [Webhooks]
    *     security:
    *       - bearerAuth: []
@@ -57,6 +92,20 @@ export class WebhooksController {
       return;
     }
 
+    const issues = templateIssues(
+      parsed.data.format ?? 'raw',
+      parsed.data.template ?? null,
+      parsed.data.events,
+    );
+    if (issues.length > 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid webhook template',
+        details: issues,
+      });
+      return;
+    }
+
     try {
       const webhook = await WebhookModel.create(parsed.data);
       res.status(201).json(webhook);
@@ -106,6 +155,116 @@ export class WebhooksController {
     }
   }
 
+  /**
+   * @swagger
+   * /api/webhooks/{id}:
+   *   patch:
+   *     summary: Update a webhook registration
+   *     description: |
+   *       Changes the URL or subscribed events, rotates (`secret`) or removes (`secret: null`) the
+   *       signing secret, or pauses and resumes deliveries with `enabled`. `format` and `template`
+   *       change the payload; `template: null` restores the default message. Delivery history is kept.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateWebhookRequest'
+   *     responses:
+   *       200:
+   *         description: Webhook updated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WebhookSubscription'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async updateWebhook(req: Request, res: Response): Promise<void> {
+    const parsedParams = webhookParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Webhook id is required',
+      });
+      return;
+    }
+
+    const parsedBody = updateWebhookRequestSchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid webhook payload',
+        details: parsedBody.error.issues,
+      });
+      return;
+    }
+
+    const webhookId = parsedParams.data.id;
+    const update = parsedBody.data;
+    try {
+      if (update.format !== undefined || update.template !== undefined || update.events !== undefined) {
+        const existing = await WebhookModel.findById(webhookId);
+        if (!existing) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: `Webhook ${webhookId} not found`,
+          });
+          return;
+        }
+
+        const issues = templateIssues(
+          update.format ?? existing.format,
+          update.template !== undefined ? update.template : existing.template,
+          update.events ?? existing.events,
+        );
+        if (issues.length > 0) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: 'Invalid webhook template',
+            details: issues,
+          });
+          return;
+        }
+      }
+
+      const webhook = await WebhookModel.update(webhookId, update);
+      if (!webhook) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Webhook ${webhookId} not found`,
+        });
+        return;
+      }
+
+      res.json(webhook);
+    } catch (error) {
+      logger.error('Failed to update webhook', {
+        webhookId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to update webhook',
+      });
+    }
+  }
+
   /**
    * @swagger
    * /api/webhooks/{id}:
@@ -256,6 +415,144 @@ export class WebhooksController {
       });
     }
   }
+
+  /**
+   * @swagger
+   * /api/webhooks/{id}/test:
+   *   post:
+   *     summary: Send a test delivery
+   *     description: |
+   *       Posts a synthetic `webhook.test` envelope, signed like real deliveries, and waits for the
+   *       response. The attempt is recorded in the delivery log and is not retried. Works for
+   *       disabled webhooks too.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Delivery result; `status` is `failed` when the endpoint rejected or did not answer
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WebhookDeliveryResult'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async testWebhook(req: Request, res: Response): Promise<void> {
+    const parsedParams = webhookParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Webhook id is required',
+      });
+      return;
+    }
+
+    const webhookId = parsedParams.data.id;
+    try {
+      const target = await WebhookModel.findTargetById(webhookId);
+      if (!target) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Webhook ${webhookId} not found`,
+        });
+        return;
+      }
+
+      const result = await this.dispatcher.sendTest(target);
+      res.json(result);
+    } catch (error) {
+      logger.error('Failed to send test webhook', {
+        webhookId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to send test webhook',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/webhooks/deliveries/{id}/redeliver:
+   *   post:
+   *     summary: Redeliver a logged webhook delivery
+   *     description: |
+   *       Sends the logged envelope again to the webhook's current URL, signed with its current
+   *       secret, and waits for the response. The attempt is recorded in the delivery log and is not
+   *       retried.
+   *     tags: [Webhooks]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Delivery log entry id
+   *     responses:
+   *       200:
+   *         description: Delivery result; `status` is `failed` when the endpoint rejected or did not answer
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WebhookDeliveryResult'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalError'
+   */
+  async redeliverWebhookDelivery(req: Request, res: Response): Promise<void> {
+    const parsedParams = deliveryParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Delivery id must be a positive integer',
+      });
+      return;
+    }
+
+    const deliveryId = parsedParams.data.id;
+    try {
+      const delivery = await WebhookModel.findDeliveryById(deliveryId);
+      const target = delivery ? await WebhookModel.findTargetById(delivery.webhookId) : null;
+      if (!delivery || !target) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Webhook delivery ${deliveryId} not found`,
+        });
+        return;
+      }
+
+      const result = await this.dispatcher.redeliver(target, delivery);
+      res.json(result);
+    } catch (error) {
+      logger.error('Failed to redeliver webhook', {
+        deliveryId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to redeliver webhook',
+      });
+    }
+  }
 }
 
 export default WebhooksController;
@@ -31,6 +31,7 @@ CREATE TABLE IF NOT EXISTS aggregated_hosts (
     notes TEXT,
     tags TEXT NOT NULL DEFAULT '[]',
     power_config TEXT,
+    wake_strategy TEXT,
     open_ports TEXT NOT NULL DEFAULT '[]',
     ports_scanned_at TIMESTAMP,
     ports_expire_at TIMESTAMP,
@@ -99,6 +100,10 @@ CREATE TABLE IF NOT EXISTS webhooks (
     url TEXT NOT NULL,
     events JSONB NOT NULL,
     secret TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    format VARCHAR(16) NOT NULL DEFAULT 'raw',
+    template TEXT,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -116,12 +121,25 @@ CREATE TABLE IF NOT EXISTS webhook_delivery_logs (
     created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Webhook retry queue (failed deliveries waiting for their next attempt)
+CREATE TABLE IF NOT EXISTS webhook_delivery_queue (
+    id BIGSERIAL PRIMARY KEY,
+    webhook_id VARCHAR(255) NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_type VARCHAR(64) NOT NULL,
+    payload JSONB NOT NULL,
+    attempt INTEGER NOT NULL CHECK (attempt >= 1),
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- Push notification device tokens
 CREATE TABLE IF NOT EXISTS push_devices (
     id VARCHAR(255) PRIMARY KEY,
     user_id VARCHAR(255) NOT NULL,
-    platform VARCHAR(20) NOT NULL CHECK (platform IN ('ios', 'android')),
+    platform VARCHAR(20) NOT NULL CHECK (platform IN ('ios', 'android', 'web', 'ntfy', 'email')),
     token TEXT NOT NULL UNIQUE,
+    apns_environment VARCHAR(16) CHECK (apns_environment IN ('production', 'sandbox')),
+    web_push_keys JSONB,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
     last_seen_at TIMESTAMP NOT NULL DEFAULT NOW()
@@ -133,6 +151,69 @@ CREATE TABLE IF NOT EXISTS notification_preferences (
     enabled BOOLEAN NOT NULL DEFAULT TRUE,
     events JSONB NOT NULL,
     quiet_hours JSONB,
+    rules JSONB,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Host groups
+CREATE TABLE IF NOT EXISTS host_groups (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Host group membership (members may live on different nodes)
+CREATE TABLE IF NOT EXISTS host_group_members (
+    group_id VARCHAR(255) NOT NULL REFERENCES host_groups(id) ON DELETE CASCADE,
+    host_fqn VARCHAR(512) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (group_id, host_fqn)
+);
+
+-- Wake dependencies (host_fqn must wait for depends_on_fqn to be awake)
+CREATE TABLE IF NOT EXISTS host_wake_dependencies (
+    host_fqn VARCHAR(512) NOT NULL,
+    depends_on_fqn VARCHAR(512) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (host_fqn, depends_on_fqn),
+    CHECK (host_fqn <> depends_on_fqn)
+);
+
+-- Append-only audit log of state-changing API requests
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    actor VARCHAR(255) NOT NULL,
+    actor_role VARCHAR(32),
+    action VARCHAR(64) NOT NULL,
+    target_fqn VARCHAR(512),
+    target_node_id VARCHAR(255),
+    correlation_id VARCHAR(128),
+    ip VARCHAR(64),
+    outcome VARCHAR(16) NOT NULL CHECK (outcome IN ('success', 'failure', 'denied')),
+    status_code INTEGER NOT NULL,
+    details JSONB
+);
+
+-- Key-value storage namespaced per plugin
+CREATE TABLE IF NOT EXISTS plugin_storage (
+    plugin_name VARCHAR(128) NOT NULL,
+    key VARCHAR(255) NOT NULL,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (plugin_name, key)
+);
+
+-- Nodes that send magic packets for hosts their own node cannot reach
+CREATE TABLE IF NOT EXISTS host_wake_relays (
+    host_fqn VARCHAR(512) PRIMARY KEY,
+    relay_node_id VARCHAR(255) NOT NULL,
+    target_address VARCHAR(15) NOT NULL,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -150,8 +231,14 @@ CREATE INDEX IF NOT EXISTS idx_host_status_history_changed_at ON host_status_his
 CREATE INDEX IF NOT EXISTS idx_webhooks_created_at ON webhooks(created_at);
 CREATE INDEX IF NOT EXISTS idx_webhook_delivery_logs_webhook_id ON webhook_delivery_logs(webhook_id);
 CREATE INDEX IF NOT EXISTS idx_webhook_delivery_logs_created_at ON webhook_delivery_logs(created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_queue_next_attempt_at ON webhook_delivery_queue(next_attempt_at);
 CREATE INDEX IF NOT EXISTS idx_push_devices_user_id ON push_devices(user_id);
 CREATE INDEX IF NOT EXISTS idx_push_devices_platform ON push_devices(platform);
+CREATE INDEX IF NOT EXISTS idx_host_group_members_host_fqn ON host_group_members(host_fqn);
+CREATE INDEX IF NOT EXISTS idx_host_wake_dependencies_depends_on ON host_wake_dependencies(depends_on_fqn);
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target_fqn ON audit_log(target_fqn);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -197,3 +284,21 @@ CREATE TRIGGER update_notification_preferences_updated_at
     BEFORE UPDATE ON notification_preferences
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_host_groups_updated_at
+    BEFORE UPDATE ON host_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit log entries are never edited (retention may still delete them)
+CREATE OR REPLACE FUNCTION reject_audit_log_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_reject_update
+    BEFORE UPDATE ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION reject_audit_log_update();
@@ -31,6 +31,7 @@ CREATE TABLE IF NOT EXISTS aggregated_hosts (
     notes TEXT,
     tags TEXT NOT NULL DEFAULT '[]',
     power_config TEXT,
+    wake_strategy TEXT,
     open_ports TEXT NOT NULL DEFAULT '[]',
     ports_scanned_at DATETIME,
     ports_expire_at DATETIME,
@@ -91,6 +92,10 @@ CREATE TABLE IF NOT EXISTS webhooks (
     url TEXT NOT NULL,
     events TEXT NOT NULL,
     secret TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    format TEXT NOT NULL DEFAULT 'raw',
+    template TEXT,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -109,12 +114,26 @@ CREATE TABLE IF NOT EXISTS webhook_delivery_logs (
     FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
 );
 
+-- Webhook retry queue (failed deliveries waiting for their next attempt)
+CREATE TABLE IF NOT EXISTS webhook_delivery_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    attempt INTEGER NOT NULL CHECK(attempt >= 1),
+    next_attempt_at DATETIME NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+);
+
 -- Push notification device tokens
 CREATE TABLE IF NOT EXISTS push_devices (
     id TEXT PRIMARY KEY,
     user_id TEXT NOT NULL,
-    platform TEXT NOT NULL CHECK(platform IN ('ios', 'android')),
+    platform TEXT NOT NULL CHECK(platform IN ('ios', 'android', 'web', 'ntfy', 'email')),
     token TEXT NOT NULL UNIQUE,
+    apns_environment TEXT CHECK(apns_environment IN ('production', 'sandbox')),
+    web_push_keys TEXT,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
@@ -126,6 +145,70 @@ CREATE TABLE IF NOT EXISTS notification_preferences (
     enabled INTEGER NOT NULL DEFAULT 1 CHECK(enabled IN (0, 1)),
     events TEXT NOT NULL,
     quiet_hours TEXT,
+    rules TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Host groups
+CREATE TABLE IF NOT EXISTS host_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Host group membership (members may live on different nodes)
+CREATE TABLE IF NOT EXISTS host_group_members (
+    group_id TEXT NOT NULL,
+    host_fqn TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (group_id, host_fqn),
+    FOREIGN KEY (group_id) REFERENCES host_groups(id) ON DELETE CASCADE
+);
+
+-- Wake dependencies (host_fqn must wait for depends_on_fqn to be awake)
+CREATE TABLE IF NOT EXISTS host_wake_dependencies (
+    host_fqn TEXT NOT NULL,
+    depends_on_fqn TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (host_fqn, depends_on_fqn),
+    CHECK (host_fqn <> depends_on_fqn)
+);
+
+-- Append-only audit log of state-changing API requests
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    occurred_at DATETIME NOT NULL,
+    actor TEXT NOT NULL,
+    actor_role TEXT,
+    action TEXT NOT NULL,
+    target_fqn TEXT,
+    target_node_id TEXT,
+    correlation_id TEXT,
+    ip TEXT,
+    outcome TEXT NOT NULL CHECK(outcome IN ('success', 'failure', 'denied')),
+    status_code INTEGER NOT NULL,
+    details TEXT
+);
+
+-- Key-value storage namespaced per plugin
+CREATE TABLE IF NOT EXISTS plugin_storage (
+    plugin_name TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (plugin_name, key)
+);
+
+-- Nodes that send magic packets for hosts their own node cannot reach
+CREATE TABLE IF NOT EXISTS host_wake_relays (
+    host_fqn TEXT PRIMARY KEY,
+    relay_node_id TEXT NOT NULL,
+    target_address TEXT NOT NULL,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -148,8 +231,14 @@ CREATE INDEX IF NOT EXISTS idx_wake_schedules_owner_host ON wake_schedules(owner
 CREATE INDEX IF NOT EXISTS idx_webhooks_created_at ON webhooks(created_at);
 CREATE INDEX IF NOT EXISTS idx_webhook_delivery_logs_webhook_id ON webhook_delivery_logs(webhook_id);
 CREATE INDEX IF NOT EXISTS idx_webhook_delivery_logs_created_at ON webhook_delivery_logs(created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_queue_next_attempt_at ON webhook_delivery_queue(next_attempt_at);
 CREATE INDEX IF NOT EXISTS idx_push_devices_user_id ON push_devices(user_id);
 CREATE INDEX IF NOT EXISTS idx_push_devices_platform ON push_devices(platform);
+CREATE INDEX IF NOT EXISTS idx_host_group_members_host_fqn ON host_group_members(host_fqn);
+CREATE INDEX IF NOT EXISTS idx_host_wake_dependencies_depends_on ON host_wake_dependencies(depends_on_fqn);
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target_fqn ON audit_log(target_fqn);
 
 -- Triggers for updated_at (SQLite version)
 CREATE TRIGGER IF NOT EXISTS update_nodes_updated_at
@@ -200,3 +289,17 @@ CREATE TRIGGER IF NOT EXISTS update_notification_preferences_updated_at
 BEGIN
     UPDATE notification_preferences SET updated_at = CURRENT_TIMESTAMP WHERE user_id = NEW.user_id;
 END;
+
+CREATE TRIGGER IF NOT EXISTS update_host_groups_updated_at
+    AFTER UPDATE ON host_groups
+    FOR EACH ROW
+BEGIN
+    UPDATE host_groups SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- Audit log entries are never edited (retention may still delete them)
+CREATE TRIGGER IF NOT EXISTS audit_log_reject_update
+    BEFORE UPDATE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
@@ -0,0 +1,163 @@
+import { EventEmitter } from 'events';
+import type { NextFunction, Request, Response } from 'express';
+import { auditAction, recordAudit } from '../audit';
+import AuditLogModel from '../../models/AuditLog';
+
+jest.mock('../../models/AuditLog', () => ({
+  __esModule: true,
+  default: {
+    append: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function createMockResponse(): Response & EventEmitter {
+  const res = new EventEmitter() as Response & EventEmitter;
+  res.statusCode = 200;
+  return res;
+}
+
+function createMockRequest(overrides: Partial<Request> = {}): Request {
+  return {
+    params: { fqn: 'desktop@home' },
+    body: {},
+    ip: '10.0.0.5',
+    correlationId: 'corr_1',
+    auth: { sub: 'user-1', roles: ['viewer', 'operator'], claims: {} },
+    ...overrides,
+  } as unknown as Request;
+}
+
+describe('auditAction middleware', () => {
+  const mockAppend = AuditLogModel.append as jest.Mock;
+  const next = jest.fn() as NextFunction;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAppend.mockResolvedValue(undefined);
+  });
+
+  it('records the actor, target and outcome once the response finishes', () => {
+    const req = createMockRequest();
+    const res = createMockResponse();
+
+    auditAction('host.wake', (request) => ({ targetFqn: String(request.params.fqn) }))(
+      req,
+      res,
+      next,
+    );
+
+    expect(next).toHaveBeenCalled();
+    expect(mockAppend).not.toHaveBeenCalled();
+
+    res.emit('finish');
+
+    expect(mockAppend).toHaveBeenCalledWith({
+      actor: 'user-1',
+      actorRole: 'viewer',
+      action: 'host.wake',
+      targetFqn: 'desktop@home',
+      targetNodeId: null,
+      correlationId: 'corr_1',
+      ip: '10.0.0.5',
+      outcome: 'success',
+      statusCode: 200,
+      details: null,
+    });
+  });
+
+  it.each([
+    [401, 'denied'],
+    [403, 'denied'],
+    [404, 'failure'],
+    [500, 'failure'],
+    [202, 'success'],
+  ])('maps status %i to %s', (statusCode, outcome) => {
+    const res = createMockResponse();
+    auditAction('node.delete')(createMockRequest(), res, next);
+
+    res.statusCode = statusCode;
+    res.emit('finish');
+
+    expect(mockAppend).toHaveBeenCalledWith(expect.objectContaining({ outcome, statusCode }));
+  });
+
+  it('prefers the admin role and falls back to anonymous without auth', () => {
+    const adminRes = createMockResponse();
+    auditAction('user.delete')(
+      createMockRequest({ auth: { sub: 'admin-1', roles: ['operator', 'admin'], claims: {} } }),
+      adminRes,
+      next,
+    );
+    adminRes.emit('finish');
+
+    const anonymousRes = createMockResponse();
+    auditAction('user.delete')(createMockRequest({ auth: undefined }), anonymousRes, next);
+    anonymousRes.statusCode = 401;
+    anonymousRes.emit('finish');
+
+    expect(mockAppend).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ actor: 'admin-1', actorRole: 'admin' }),
+    );
+    expect(mockAppend).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ actor: 'anonymous', actorRole: null, outcome: 'denied' }),
+    );
+  });
+
+  it('still calls next when the target cannot be resolved', () => {
+    const res = createMockResponse();
+
+    auditAction('host.update', () => {
+      throw new Error('bad params');
+    })(createMockRequest(), res, next);
+    res.emit('finish');
+
+    expect(next).toHaveBeenCalled();
+    expect(mockAppend).toHaveBeenCalledWith(expect.objectContaining({ targetFqn: null }));
+  });
+});
+
+describe('recordAudit', () => {
+  const mockAppend = AuditLogModel.append as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records actions outside requests with the REST status code of their outcome', async () => {
+    mockAppend.mockResolvedValue(undefined);
+
+    await recordAudit('plugin:mqtt', 'host.wake', 'failure', {
+      targetFqn: 'desktop@home',
+      details: { topic: 'woly/hosts/desktop_home/set' },
+    });
+
+    expect(mockAppend).toHaveBeenCalledWith({
+      actor: 'plugin:mqtt',
+      actorRole: null,
+      action: 'host.wake',
+      targetFqn: 'desktop@home',
+      targetNodeId: null,
+      outcome: 'failure',
+      statusCode: 500,
+      details: { topic: 'woly/hosts/desktop_home/set' },
+    });
+  });
+
+  it('logs instead of throwing when the entry cannot be written', async () => {
+    mockAppend.mockRejectedValue(new Error('db down'));
+
+    await expect(recordAudit('plugin:mqtt', 'host.sleep', 'success')).resolves.toBeUndefined();
+  });
+});
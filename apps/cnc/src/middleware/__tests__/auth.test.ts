@@ -10,7 +10,46 @@ jest.mock('../../config', () => ({
   },
 }));
 
-import { authenticateJwt, authorizeRoles } from '../auth';
+jest.mock('../../models/ApiKey', () => ({
+  __esModule: true,
+  API_KEY_PREFIX: 'woly_',
+  default: {
+    authenticate: jest.fn(),
+    recordUsage: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import {
+  authenticateJwt,
+  authorizeResource,
+  authorizeRoles,
+  registerTokenVerifier,
+  rejectScopedUsers,
+  requireApiKeyScope,
+  verifyBearerToken,
+  type ExternalTokenVerifier,
+} from '../auth';
+import ApiKeyModel from '../../models/ApiKey';
+import UserModel from '../../models/User';
+import type { AccessControl } from '../../services/accessControl';
+import type { AuthContext } from '../../types/auth';
 
 function encodeBase64Url(value: object): string {
   return Buffer.from(JSON.stringify(value)).toString('base64url');
@@ -42,6 +81,20 @@ describe('Auth middleware', () => {
   });
 
   describe('authenticateJwt', () => {
+    async function authenticate(token: string): Promise<{ req: Request; res: Response }> {
+      const req = { headers: { authorization: `Bearer ${token}` } } as Request;
+      const res = createMockResponse();
+      await new Promise<void>((resolve) => {
+        (res.json as jest.Mock).mockImplementation(() => {
+          resolve();
+          return res;
+        });
+        (next as jest.Mock).mockImplementation(() => resolve());
+        authenticateJwt(req, res, next);
+      });
+      return { req, res };
+    }
+
     it('returns 401 when authorization header is missing', () => {
       const req = { headers: {} } as Request;
       const res = createMockResponse();
@@ -122,6 +175,237 @@ describe('Auth middleware', () => {
         })
       );
     });
+
+    describe('user account tokens', () => {
+      const mockedUsers = UserModel as jest.Mocked<typeof UserModel>;
+      const userToken = (role: 'operator' | 'admin') =>
+        createToken({ sub: 'user-1', uid: 'user-1', role, iss: 'test-issuer', aud: 'test-audience', exp: now + 3600 });
+
+      it('exposes the uid claim of active accounts as userId', async () => {
+        mockedUsers.findById.mockResolvedValue({ id: 'user-1', disabled: false } as never);
+
+        const { req } = await authenticate(userToken('operator'));
+
+        expect(mockedUsers.findById).toHaveBeenCalledWith('user-1');
+        expect(req.auth).toEqual(expect.objectContaining({ sub: 'user-1', userId: 'user-1' }));
+        expect(next).toHaveBeenCalled();
+      });
+
+      it('rejects tokens of disabled or deleted accounts, admins included', async () => {
+        mockedUsers.findById.mockResolvedValueOnce({ id: 'user-1', disabled: true } as never);
+        const disabled = await authenticate(userToken('admin'));
+        mockedUsers.findById.mockResolvedValueOnce(null);
+        const deleted = await authenticate(userToken('operator'));
+
+        for (const { req, res } of [disabled, deleted]) {
+          expect(res.status).toHaveBeenCalledWith(401);
+          expect(res.json).toHaveBeenCalledWith(
+            expect.objectContaining({ message: 'User account is disabled or no longer exists' }),
+          );
+          expect(req.auth).toBeUndefined();
+        }
+        expect(next).not.toHaveBeenCalled();
+      });
+
+      it('returns 500 when the account cannot be looked up', async () => {
+        mockedUsers.findById.mockRejectedValue(new Error('db down'));
+
+        const { res } = await authenticate(userToken('admin'));
+
+        expect(res.status).toHaveBeenCalledWith(500);
+        expect(next).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('external token verifiers', () => {
+      const externalToken = `${encodeBase64Url({ alg: 'RS256', typ: 'JWT', kid: 'idp-1' })}.${encodeBase64Url({
+        sub: 'script',
+      })}.signature`;
+      const verifier: jest.Mocked<ExternalTokenVerifier> = {
+        supportsAlgorithm: jest.fn((algorithm: string) => algorithm === 'RS256'),
+        verify: jest.fn(),
+      };
+      let unregister: () => void;
+
+      beforeEach(() => {
+        unregister = registerTokenVerifier(verifier);
+      });
+
+      afterEach(() => {
+        unregister();
+      });
+
+      it('routes tokens to the verifier registered for their algorithm', async () => {
+        verifier.verify.mockResolvedValue({ sub: 'oidc:script', roles: ['operator'], claims: {} });
+
+        const { req } = await authenticate(externalToken);
+
+        expect(verifier.verify).toHaveBeenCalledWith(externalToken);
+        expect(req.auth).toEqual({ sub: 'oidc:script', roles: ['operator'], claims: {} });
+        expect(next).toHaveBeenCalled();
+      });
+
+      it('checks the account of external tokens mapped to a user', async () => {
+        verifier.verify.mockResolvedValue({ sub: 'oidc:alice', roles: ['admin'], userId: 'user-9', claims: {} });
+        (UserModel.findById as jest.Mock).mockResolvedValue({ id: 'user-9', disabled: true });
+
+        const { res } = await authenticate(externalToken);
+
+        expect(UserModel.findById).toHaveBeenCalledWith('user-9');
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(next).not.toHaveBeenCalled();
+      });
+
+      it('returns 401 when the external verifier rejects the token', async () => {
+        verifier.verify.mockRejectedValue(new Error('Unknown JWT signing key: idp-1'));
+
+        const { res } = await authenticate(externalToken);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(res.json).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Unknown JWT signing key: idp-1', code: 'AUTH_UNAUTHORIZED' }),
+        );
+        expect(next).not.toHaveBeenCalled();
+      });
+
+      it('keeps verifying HS256 tokens locally', async () => {
+        const token = createToken({ sub: 'user-1', role: 'operator', iss: 'test-issuer', aud: 'test-audience', exp: now + 60 });
+
+        const { req } = await authenticate(token);
+
+        expect(verifier.verify).not.toHaveBeenCalled();
+        expect(req.auth).toEqual(expect.objectContaining({ sub: 'user-1' }));
+      });
+
+      it('routes tokens the same way outside requests with verifyBearerToken', async () => {
+        verifier.verify.mockResolvedValue({ sub: 'oidc:script', roles: ['operator'], claims: {} });
+        const token = createToken({ sub: 'user-1', role: 'operator', iss: 'test-issuer', aud: 'test-audience', exp: now + 60 });
+
+        await expect(verifyBearerToken(externalToken)).resolves.toEqual(expect.objectContaining({ sub: 'oidc:script' }));
+        await expect(verifyBearerToken(token)).resolves.toEqual(expect.objectContaining({ sub: 'user-1' }));
+        await expect(verifyBearerToken('not-a-token')).rejects.toThrow('Malformed JWT');
+        expect(verifier.verify).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('API keys', () => {
+    const mockedApiKeys = ApiKeyModel as jest.Mocked<typeof ApiKeyModel>;
+    const apiKey = {
+      id: 'key-1',
+      name: 'home-assistant',
+      prefix: 'woly_AbCdEfGh',
+      scopes: ['hosts:wake' as const],
+      hostFqns: ['desktop@home'],
+      nodeIds: [],
+      createdBy: 'admin-token',
+      createdAt: '2026-02-18T00:00:00.000Z',
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+
+    async function authenticate(key: string): Promise<{ req: Request; res: Response }> {
+      const req = {
+        headers: { authorization: `Bearer ${key}` },
+        method: 'POST',
+        originalUrl: '/api/hosts/wakeup/desktop@home?verify=true',
+        ip: '10.0.0.5',
+      } as unknown as Request;
+      const res = createMockResponse();
+      await new Promise<void>((resolve) => {
+        (res.json as jest.Mock).mockImplementation(() => {
+          resolve();
+          return res;
+        });
+        (next as jest.Mock).mockImplementation(() => resolve());
+        authenticateJwt(req, res, next);
+      });
+      return { req, res };
+    }
+
+    beforeEach(() => {
+      mockedApiKeys.recordUsage.mockResolvedValue();
+    });
+
+    it('authenticates API keys as scoped operators and records their use', async () => {
+      mockedApiKeys.authenticate.mockResolvedValue({ status: 'valid', apiKey });
+
+      const { req } = await authenticate('woly_AbCdEfGh-secret');
+
+      expect(mockedApiKeys.authenticate).toHaveBeenCalledWith('woly_AbCdEfGh-secret');
+      expect(req.auth).toEqual({
+        sub: 'apikey:key-1',
+        roles: ['operator'],
+        apiKey: {
+          id: 'key-1',
+          name: 'home-assistant',
+          scopes: ['hosts:wake'],
+          hostFqns: ['desktop@home'],
+          nodeIds: [],
+        },
+        claims: {},
+      });
+      expect(mockedApiKeys.recordUsage).toHaveBeenCalledWith('key-1', {
+        method: 'POST',
+        path: '/api/hosts/wakeup/desktop@home',
+        ip: '10.0.0.5',
+      });
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('returns 401 for unknown, revoked and expired keys', async () => {
+      mockedApiKeys.authenticate.mockResolvedValueOnce({ status: 'revoked' });
+      const revoked = await authenticate('woly_revoked');
+      expect(revoked.res.status).toHaveBeenCalledWith(401);
+      expect(revoked.res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Invalid API key', code: 'AUTH_UNAUTHORIZED' }),
+      );
+
+      mockedApiKeys.authenticate.mockResolvedValueOnce({ status: 'expired' });
+      const expired = await authenticate('woly_expired');
+      expect(expired.res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'API key expired' }));
+
+      expect(mockedApiKeys.recordUsage).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    describe('requireApiKeyScope', () => {
+      const keyAuth: AuthContext = {
+        sub: 'apikey:key-1',
+        roles: ['operator'],
+        apiKey: { id: 'key-1', name: 'ci', scopes: ['hosts:read'], hostFqns: [], nodeIds: [] },
+        claims: {},
+      };
+
+      it('passes API keys holding one of the accepted scopes and all other callers', () => {
+        const legacy = { sub: 'mobile-1', roles: ['operator'], claims: {} };
+        requireApiKeyScope(() => ['hosts:read', 'schedules:manage'])(
+          { auth: keyAuth } as Request,
+          createMockResponse(),
+          next,
+        );
+        requireApiKeyScope(() => [])({ auth: legacy } as Request, createMockResponse(), next);
+
+        expect(next).toHaveBeenCalledTimes(2);
+      });
+
+      it('returns 403 when the key lacks the scope or the route takes no API keys', () => {
+        const missingScope = createMockResponse();
+        requireApiKeyScope(() => ['hosts:wake'])({ auth: keyAuth } as Request, missingScope, next);
+        expect(missingScope.status).toHaveBeenCalledWith(403);
+        expect(missingScope.json).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Required API key scope: hosts:wake', code: 'AUTH_FORBIDDEN' }),
+        );
+
+        const rejected = createMockResponse();
+        requireApiKeyScope(() => [])({ auth: keyAuth } as Request, rejected, next);
+        expect(rejected.json).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Not available to API keys' }),
+        );
+        expect(next).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('authorizeRoles', () => {
@@ -158,4 +442,78 @@ describe('Auth middleware', () => {
       expect(res.status).not.toHaveBeenCalled();
     });
   });
+
+  describe('authorizeResource', () => {
+    const findForbidden = jest.fn();
+    const accessControl = { findForbidden } as unknown as AccessControl;
+    const scopedAuth = { sub: 'user-1', roles: ['operator'], userId: 'user-1', claims: {} };
+
+    async function run(req: Request, middleware: ReturnType<typeof authorizeResource>): Promise<Response> {
+      const res = createMockResponse();
+      await new Promise<void>((resolve) => {
+        (res.json as jest.Mock).mockImplementation(() => {
+          resolve();
+          return res;
+        });
+        (next as jest.Mock).mockImplementation(() => resolve());
+        middleware(req, res, next);
+      });
+      return res;
+    }
+
+    it('skips the ACL lookup for legacy tokens and admins', async () => {
+      const middleware = authorizeResource(accessControl, 'host', 'operate', () => 'desktop@home');
+
+      await run({ auth: { sub: 'mobile-1', roles: ['operator'], claims: {} } } as Request, middleware);
+      await run({ auth: { ...scopedAuth, roles: ['admin'] } } as Request, middleware);
+
+      expect(findForbidden).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns 403 listing the resources the user lacks permission on', async () => {
+      findForbidden.mockResolvedValueOnce(['nas@home']);
+      const req = { auth: scopedAuth, body: { fqns: ['desktop@home', 'nas@home'] } } as Request;
+
+      const res = await run(
+        req,
+        authorizeResource(accessControl, 'host', 'operate', (request) => request.body.fqns),
+      );
+
+      expect(findForbidden).toHaveBeenCalledWith(scopedAuth, 'host', ['desktop@home', 'nas@home'], 'operate');
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'AUTH_FORBIDDEN',
+          details: { resourceType: 'host', resourceIds: ['nas@home'], permission: 'operate' },
+        })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('passes when permitted or when the resource cannot be resolved', async () => {
+      findForbidden.mockResolvedValueOnce([]);
+      await run({ auth: scopedAuth } as Request, authorizeResource(accessControl, 'node', 'view', () => 'node-1'));
+      await run({ auth: scopedAuth } as Request, authorizeResource(accessControl, 'node', 'view', () => null));
+
+      expect(findForbidden).toHaveBeenCalledTimes(1);
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('rejectScopedUsers', () => {
+    it('returns 403 for non-admin user accounts only', () => {
+      const scoped = createMockResponse();
+      rejectScopedUsers(
+        { auth: { sub: 'user-1', roles: ['operator'], userId: 'user-1', claims: {} } } as Request,
+        scoped,
+        next
+      );
+      expect(scoped.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+
+      rejectScopedUsers({ auth: { sub: 'mobile-1', roles: ['operator'], claims: {} } } as Request, createMockResponse(), next);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+  });
 });
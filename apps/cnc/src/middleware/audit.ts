@@ -0,0 +1,113 @@
+import { NextFunction, Request, Response } from 'express';
+import AuditLogModel from '../models/AuditLog';
+import type { AuditOutcome } from '../types';
+import type { AuthContext } from '../types/auth';
+import logger from '../utils/logger';
+
+export interface AuditTarget {
+  targetFqn?: string | null;
+  targetNodeId?: string | null;
+  details?: Record<string, unknown> | null;
+}
+
+export type AuditTargetResolver = (req: Request) => AuditTarget;
+
+function toOutcome(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) {
+    return 'denied';
+  }
+
+  return statusCode >= 400 ? 'failure' : 'success';
+}
+
+const OUTCOME_STATUS_CODES: Record<AuditOutcome, number> = {
+  success: 200,
+  failure: 500,
+  denied: 403,
+};
+
+function primaryRole(auth: AuthContext | undefined): string | null {
+  if (!auth) {
+    return null;
+  }
+
+  return auth.roles.includes('admin') ? 'admin' : (auth.roles[0] ?? null);
+}
+
+/** Appends `action` to the audit log once `res` has been sent, with the outcome taken from the status code. */
+export function recordAuditOnFinish(req: Request, res: Response, action: string, target: AuditTarget = {}): void {
+  res.on('finish', () => {
+    AuditLogModel.append({
+      actor: req.auth?.sub ?? 'anonymous',
+      actorRole: primaryRole(req.auth),
+      action,
+      targetFqn: target.targetFqn ?? null,
+      targetNodeId: target.targetNodeId ?? null,
+      correlationId: req.correlationId ?? null,
+      ip: req.ip ?? null,
+      outcome: toOutcome(res.statusCode),
+      statusCode: res.statusCode,
+      details: target.details ?? null,
+    }).catch((error: unknown) => {
+      logger.error('Failed to write audit log entry', {
+        action,
+        correlationId: req.correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  });
+}
+
+/**
+ * Appends an action that did not arrive over HTTP, such as a command received
+ * over MQTT, to the audit log. The status code is the one the REST API answers
+ * with for the outcome. Failures to write are logged, never thrown.
+ */
+export async function recordAudit(
+  actor: string,
+  action: string,
+  outcome: AuditOutcome,
+  target: AuditTarget = {},
+): Promise<void> {
+  try {
+    await AuditLogModel.append({
+      actor,
+      actorRole: null,
+      action,
+      targetFqn: target.targetFqn ?? null,
+      targetNodeId: target.targetNodeId ?? null,
+      outcome,
+      statusCode: OUTCOME_STATUS_CODES[outcome],
+      details: target.details ?? null,
+    });
+  } catch (error) {
+    logger.error('Failed to write audit log entry', {
+      action,
+      actor,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Audits `action` through `recordAuditOnFinish`. Register it before
+ * per-resource authorization so denied attempts are recorded too. The target
+ * is resolved up front, while route params and body are still those of the
+ * request.
+ */
+export function auditAction(action: string, resolveTarget?: AuditTargetResolver) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    let target: AuditTarget = {};
+    try {
+      target = resolveTarget?.(req) ?? {};
+    } catch (error) {
+      logger.warn('Failed to resolve audit target', {
+        action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    recordAuditOnFinish(req, res, action, target);
+    next();
+  };
+}
@@ -1,8 +1,14 @@
 import { createHmac, timingSafeEqual } from 'crypto';
 import { NextFunction, Request, Response } from 'express';
 import config from '../config';
+import ApiKeyModel, { API_KEY_PREFIX } from '../models/ApiKey';
+import UserModel from '../models/User';
+import type { AccessControl } from '../services/accessControl';
+import { isScopedCaller } from '../services/accessControl';
+import type { AclResourceType, ApiKeyScope, ResourcePermission } from '../types';
 import { JwtPayload } from '../types/auth';
 import type { AuthContext } from '../types/auth';
+import logger from '../utils/logger';
 
 interface JwtVerifyOptions {
   issuer: string;
@@ -118,13 +124,82 @@ export function verifyJwtToken(token: string): AuthContext {
     throw new Error('Token subject is required');
   }
 
+  const userId = toStringClaim(payload.uid);
   return {
     sub: subject,
     roles: extractRoles(payload),
+    ...(userId ? { userId } : {}),
     claims: payload,
   };
 }
 
+/**
+ * True unless the token belongs to a user account (`uid` claim) that has since
+ * been disabled or deleted. Applies to every role, admins included.
+ */
+export async function isActiveUserAccount(auth: AuthContext): Promise<boolean> {
+  if (!auth.userId) {
+    return true;
+  }
+
+  const user = await UserModel.findById(auth.userId);
+  return !!user && !user.disabled;
+}
+
+/**
+ * Verifies bearer tokens this server did not sign, such as access tokens from
+ * an OIDC provider. Tokens are routed by their `alg` header; HS256 tokens are
+ * always verified locally.
+ */
+export interface ExternalTokenVerifier {
+  supportsAlgorithm(algorithm: string): boolean;
+  verify(token: string): Promise<AuthContext>;
+}
+
+const externalTokenVerifiers = new Set<ExternalTokenVerifier>();
+
+/** Registers a verifier and returns a function that removes it again. */
+export function registerTokenVerifier(verifier: ExternalTokenVerifier): () => void {
+  externalTokenVerifiers.add(verifier);
+  return () => {
+    externalTokenVerifiers.delete(verifier);
+  };
+}
+
+function findExternalVerifier(token: string): ExternalTokenVerifier | null {
+  if (externalTokenVerifiers.size === 0) {
+    return null;
+  }
+
+  let algorithm: unknown;
+  try {
+    algorithm = (JSON.parse(decodeBase64Url(token.split('.')[0])) as { alg?: unknown }).alg;
+  } catch {
+    return null;
+  }
+
+  if (typeof algorithm !== 'string' || algorithm === 'HS256') {
+    return null;
+  }
+
+  for (const verifier of externalTokenVerifiers) {
+    if (verifier.supportsAlgorithm(algorithm)) {
+      return verifier;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verifies a C&C JWT, or an external token when a registered verifier supports
+ * its algorithm. Callers still have to check the user account is active.
+ */
+export async function verifyBearerToken(token: string): Promise<AuthContext> {
+  const externalVerifier = findExternalVerifier(token);
+  return externalVerifier ? externalVerifier.verify(token) : verifyJwtToken(token);
+}
+
 function unauthorized(res: Response, message: string): void {
   res.status(401).json({
     error: 'Unauthorized',
@@ -141,14 +216,120 @@ function forbidden(res: Response, message: string): void {
   });
 }
 
+const API_KEY_FAILURE_MESSAGES = {
+  invalid: 'Invalid API key',
+  revoked: 'Invalid API key',
+  expired: 'API key expired',
+} as const;
+
+/** Authenticates an API key bearer token and records the request in its usage audit. */
+function authenticateApiKey(key: string, req: Request, res: Response, next: NextFunction): void {
+  ApiKeyModel.authenticate(key)
+    .then((result) => {
+      if (result.status !== 'valid') {
+        unauthorized(res, API_KEY_FAILURE_MESSAGES[result.status]);
+        return;
+      }
+
+      const { apiKey } = result;
+      req.auth = {
+        sub: `apikey:${apiKey.id}`,
+        roles: ['operator'],
+        apiKey: {
+          id: apiKey.id,
+          name: apiKey.name,
+          scopes: apiKey.scopes,
+          hostFqns: apiKey.hostFqns,
+          nodeIds: apiKey.nodeIds,
+        },
+        claims: {},
+      };
+
+      ApiKeyModel.recordUsage(apiKey.id, {
+        method: req.method,
+        path: (req.originalUrl || req.url).split('?')[0],
+        ip: req.ip ?? null,
+      }).catch((error: unknown) => {
+        logger.warn('Failed to record API key usage', {
+          apiKeyId: apiKey.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      next();
+    })
+    .catch((error: unknown) => {
+      logger.error('Failed to authenticate API key', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to authenticate API key',
+      });
+    });
+}
+
+/** Attaches a verified token's context once its user account, if any, is confirmed active. */
+function admitVerifiedToken(auth: AuthContext, req: Request, res: Response, next: NextFunction): void {
+  if (!auth.userId) {
+    req.auth = auth;
+    next();
+    return;
+  }
+
+  isActiveUserAccount(auth)
+    .then((active) => {
+      if (!active) {
+        unauthorized(res, 'User account is disabled or no longer exists');
+        return;
+      }
+
+      req.auth = auth;
+      next();
+    })
+    .catch((error: unknown) => {
+      logger.error('Failed to check user account status', {
+        userId: auth.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to authenticate user account',
+      });
+    });
+}
+
+/**
+ * Accepts C&C JWTs, tokens of registered external verifiers and API keys
+ * (`woly_...`). Tokens of disabled or deleted user accounts are rejected.
+ */
 export function authenticateJwt(req: Request, res: Response, next: NextFunction): void {
+  let token: string;
+  let externalVerifier: ExternalTokenVerifier | null;
   try {
-    const token = getBearerToken(req);
-    req.auth = verifyJwtToken(token);
-    next();
+    token = getBearerToken(req);
+    if (token.startsWith(API_KEY_PREFIX)) {
+      authenticateApiKey(token, req, res, next);
+      return;
+    }
+
+    externalVerifier = findExternalVerifier(token);
+    if (!externalVerifier) {
+      admitVerifiedToken(verifyJwtToken(token), req, res, next);
+      return;
+    }
   } catch (error) {
     unauthorized(res, error instanceof Error ? error.message : 'Invalid token');
+    return;
   }
+
+  externalVerifier.verify(token).then(
+    (auth) => {
+      admitVerifiedToken(auth, req, res, next);
+    },
+    (error: unknown) => {
+      unauthorized(res, error instanceof Error ? error.message : 'Invalid token');
+    },
+  );
 }
 
 export function authorizeRoles(...allowedRoles: string[]) {
@@ -167,3 +348,114 @@ export function authorizeRoles(...allowedRoles: string[]) {
     next();
   };
 }
+
+export type ApiKeyScopeResolver = (req: Request) => readonly ApiKeyScope[];
+
+/**
+ * Limits API keys to requests covered by one of the scopes returned by
+ * `resolveScopes`; an empty list rejects every API key. Other callers pass.
+ */
+export function requireApiKeyScope(resolveScopes: ApiKeyScopeResolver) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth) {
+      unauthorized(res, 'Authentication required');
+      return;
+    }
+
+    const apiKey = req.auth.apiKey;
+    if (!apiKey) {
+      next();
+      return;
+    }
+
+    const accepted = resolveScopes(req);
+    if (accepted.length === 0) {
+      forbidden(res, 'Not available to API keys');
+      return;
+    }
+
+    if (!accepted.some((scope) => apiKey.scopes.includes(scope))) {
+      forbidden(res, `Required API key scope: ${accepted.join(' or ')}`);
+      return;
+    }
+
+    next();
+  };
+}
+
+export type ResourceIdResolver = (
+  req: Request,
+) => string | readonly string[] | null | Promise<string | readonly string[] | null>;
+
+/**
+ * Requires `permission` on the resource(s) returned by `resolveResourceIds`.
+ * Unscoped callers always pass; a null resolution is left to the route handler
+ * (typically a 400/404).
+ */
+export function authorizeResource(
+  accessControl: AccessControl,
+  resourceType: AclResourceType,
+  permission: ResourcePermission,
+  resolveResourceIds: ResourceIdResolver,
+) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.auth) {
+      unauthorized(res, 'Authentication required');
+      return;
+    }
+
+    if (!isScopedCaller(req.auth)) {
+      next();
+      return;
+    }
+
+    const auth = req.auth;
+    Promise.resolve()
+      .then(() => resolveResourceIds(req))
+      .then(async (resolved) => {
+        if (resolved === null) {
+          next();
+          return;
+        }
+
+        const resourceIds = typeof resolved === 'string' ? [resolved] : resolved;
+        const forbiddenIds = await accessControl.findForbidden(auth, resourceType, resourceIds, permission);
+        if (forbiddenIds.length === 0) {
+          next();
+          return;
+        }
+
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `Requires ${permission} permission on ${resourceType} ${forbiddenIds.join(', ')}`,
+          code: 'AUTH_FORBIDDEN',
+          details: { resourceType, resourceIds: forbiddenIds, permission },
+        });
+      })
+      .catch((error: unknown) => {
+        logger.error('Failed to evaluate resource permissions', {
+          resourceType,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'Failed to evaluate resource permissions',
+        });
+      });
+  };
+}
+
+/** Rejects scoped user accounts from installation-wide endpoints. */
+export function rejectScopedUsers(req: Request, res: Response, next: NextFunction): void {
+  if (!req.auth) {
+    unauthorized(res, 'Authentication required');
+    return;
+  }
+
+  if (isScopedCaller(req.auth)) {
+    forbidden(res, 'Not available to accounts limited by resource permissions');
+    return;
+  }
+
+  next();
+}
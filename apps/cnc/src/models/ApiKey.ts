@@ -0,0 +1,338 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { apiKeyScopeSchema } from '@kaonis/woly-protocol';
+import db from '../database/connection';
+import type { ApiKey, ApiKeyScope, ApiKeyUsageEntry } from '../types';
+import logger from '../utils/logger';
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: unknown;
+  hostFqns: unknown;
+  nodeIds: unknown;
+  createdBy: string;
+  createdAt: string | Date;
+  expiresAt: string | Date | null;
+  lastUsedAt: string | Date | null;
+  revokedAt: string | Date | null;
+};
+
+type ApiKeyUsageRow = {
+  usedAt: string | Date;
+  method: string;
+  path: string;
+  ip: string | null;
+};
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  hostFqns?: string[];
+  nodeIds?: string[];
+  expiresAt?: string | null;
+  createdBy: string;
+}
+
+export interface ApiKeyUsageInput {
+  method: string;
+  path: string;
+  ip: string | null;
+}
+
+/** `expired` and `revoked` are only reported for keys that exist. */
+export type ApiKeyAuthentication =
+  | { status: 'valid'; apiKey: ApiKey }
+  | { status: 'expired' | 'revoked' | 'invalid' };
+
+export const API_KEY_PREFIX = 'woly_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+const USAGE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const USAGE_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const SQLITE_CREATE_API_KEYS_TABLE = `
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    host_fqns TEXT NOT NULL,
+    node_ids TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME,
+    last_used_at DATETIME,
+    revoked_at DATETIME
+  )
+`;
+
+const POSTGRES_CREATE_API_KEYS_TABLE = `
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL,
+    prefix VARCHAR(32) NOT NULL,
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    scopes JSONB NOT NULL,
+    host_fqns JSONB NOT NULL,
+    node_ids JSONB NOT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+  )
+`;
+
+const SQLITE_CREATE_API_KEY_USAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS api_key_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    api_key_id TEXT NOT NULL,
+    used_at DATETIME NOT NULL,
+    method TEXT NOT NULL,
+    path TEXT NOT NULL,
+    ip TEXT,
+    FOREIGN KEY (api_key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+  )
+`;
+
+const POSTGRES_CREATE_API_KEY_USAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS api_key_usage (
+    id SERIAL PRIMARY KEY,
+    api_key_id VARCHAR(64) NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    used_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    method VARCHAR(16) NOT NULL,
+    path VARCHAR(2048) NOT NULL,
+    ip VARCHAR(64)
+  )
+`;
+
+const SELECT_COLUMNS = `
+  id,
+  name,
+  prefix,
+  scopes,
+  host_fqns as "hostFqns",
+  node_ids as "nodeIds",
+  created_by as "createdBy",
+  created_at as "createdAt",
+  expires_at as "expiresAt",
+  last_used_at as "lastUsedAt",
+  revoked_at as "revokedAt"
+`;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key, 'utf8').digest('hex');
+}
+
+function normalizeIsoDate(value: string | Date): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function normalizeOptionalIsoDate(value: string | Date | null): string | null {
+  return value === null ? null : normalizeIsoDate(value);
+}
+
+function parseStringArray(value: unknown, column: string): string[] {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value) as unknown;
+    } catch (error) {
+      logger.warn('Failed to parse API key JSON column', {
+        column,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  return Array.isArray(parsed)
+    ? parsed.filter((entry): entry is string => typeof entry === 'string')
+    : [];
+}
+
+function mapRow(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: parseStringArray(row.scopes, 'scopes').filter(
+      (scope): scope is ApiKeyScope => apiKeyScopeSchema.safeParse(scope).success,
+    ),
+    hostFqns: parseStringArray(row.hostFqns, 'host_fqns'),
+    nodeIds: parseStringArray(row.nodeIds, 'node_ids'),
+    createdBy: row.createdBy,
+    createdAt: normalizeIsoDate(row.createdAt),
+    expiresAt: normalizeOptionalIsoDate(row.expiresAt),
+    lastUsedAt: normalizeOptionalIsoDate(row.lastUsedAt),
+    revokedAt: normalizeOptionalIsoDate(row.revokedAt),
+  };
+}
+
+/**
+ * Named API keys for automation. Only a SHA-256 of each key is stored; the
+ * key itself is returned once, on creation.
+ */
+export class ApiKeyModel {
+  private static tableReady: Promise<void> | null = null;
+  private static lastUsagePruneAt = 0;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await db.query(db.isSqlite ? SQLITE_CREATE_API_KEYS_TABLE : POSTGRES_CREATE_API_KEYS_TABLE);
+    await db.query(
+      db.isSqlite ? SQLITE_CREATE_API_KEY_USAGE_TABLE : POSTGRES_CREATE_API_KEY_USAGE_TABLE,
+    );
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_api_key_usage_key_used_at ON api_key_usage(api_key_id, used_at)',
+    );
+  }
+
+  static async list(): Promise<ApiKey[]> {
+    await this.ensureTable();
+
+    const result = await db.query<ApiKeyRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM api_keys
+       ORDER BY created_at DESC, name ASC`,
+    );
+
+    return result.rows.map(mapRow);
+  }
+
+  static async findById(id: string): Promise<ApiKey | null> {
+    await this.ensureTable();
+
+    const result = await db.query<ApiKeyRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM api_keys
+       WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  static async create(input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+    await this.ensureTable();
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const jsonCast = db.isSqlite ? '' : '::jsonb';
+    const result = await db.query<ApiKeyRow>(
+      `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, host_fqns, node_ids, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5${jsonCast}, $6${jsonCast}, $7${jsonCast}, $8, $9)
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        randomUUID(),
+        input.name,
+        key.slice(0, DISPLAY_PREFIX_LENGTH),
+        hashKey(key),
+        JSON.stringify(Array.from(new Set(input.scopes))),
+        JSON.stringify(Array.from(new Set(input.hostFqns ?? []))),
+        JSON.stringify(Array.from(new Set(input.nodeIds ?? []))),
+        input.createdBy,
+        input.expiresAt ?? null,
+      ],
+    );
+
+    return { apiKey: mapRow(result.rows[0]), key };
+  }
+
+  static async authenticate(key: string): Promise<ApiKeyAuthentication> {
+    await this.ensureTable();
+
+    const result = await db.query<ApiKeyRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM api_keys
+       WHERE key_hash = $1`,
+      [hashKey(key)],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return { status: 'invalid' };
+    }
+
+    const apiKey = mapRow(row);
+    if (apiKey.revokedAt) {
+      return { status: 'revoked' };
+    }
+
+    if (apiKey.expiresAt && Date.parse(apiKey.expiresAt) <= Date.now()) {
+      return { status: 'expired' };
+    }
+
+    return { status: 'valid', apiKey };
+  }
+
+  /** Returns null when the key does not exist; revoking twice keeps the first timestamp. */
+  static async revoke(id: string): Promise<ApiKey | null> {
+    await this.ensureTable();
+
+    await db.query(
+      `UPDATE api_keys
+       SET revoked_at = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [id, new Date().toISOString()],
+    );
+
+    return this.findById(id);
+  }
+
+  /** Stamps `last_used_at` and appends to the usage audit, pruning entries older than 90 days. */
+  static async recordUsage(id: string, usage: ApiKeyUsageInput): Promise<void> {
+    await this.ensureTable();
+
+    const usedAt = new Date();
+    await db.query('UPDATE api_keys SET last_used_at = $2 WHERE id = $1', [
+      id,
+      usedAt.toISOString(),
+    ]);
+    await db.query(
+      `INSERT INTO api_key_usage (api_key_id, used_at, method, path, ip)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, usedAt.toISOString(), usage.method, usage.path.slice(0, 2048), usage.ip],
+    );
+
+    if (usedAt.getTime() - this.lastUsagePruneAt >= USAGE_PRUNE_INTERVAL_MS) {
+      this.lastUsagePruneAt = usedAt.getTime();
+      await db.query('DELETE FROM api_key_usage WHERE used_at < $1', [
+        new Date(usedAt.getTime() - USAGE_RETENTION_MS).toISOString(),
+      ]);
+    }
+  }
+
+  static async listUsage(id: string, limit = 100): Promise<ApiKeyUsageEntry[]> {
+    await this.ensureTable();
+
+    const result = await db.query<ApiKeyUsageRow>(
+      `SELECT used_at as "usedAt", method, path, ip
+       FROM api_key_usage
+       WHERE api_key_id = $1
+       ORDER BY used_at DESC, id DESC
+       LIMIT $2`,
+      [id, limit],
+    );
+
+    return result.rows.map((row) => ({
+      usedAt: normalizeIsoDate(row.usedAt),
+      method: row.method,
+      path: row.path,
+      ip: row.ip,
+    }));
+  }
+}
+
+export default ApiKeyModel;
@@ -0,0 +1,271 @@
+import db from '../database/connection';
+import type { AuditLogEntry, AuditOutcome } from '../types';
+import logger from '../utils/logger';
+
+type AuditLogRow = {
+  id: number | string;
+  occurredAt: string | Date;
+  actor: string;
+  actorRole: string | null;
+  action: string;
+  targetFqn: string | null;
+  targetNodeId: string | null;
+  correlationId: string | null;
+  ip: string | null;
+  outcome: AuditOutcome;
+  statusCode: number | string;
+  details: unknown;
+};
+
+export interface AppendAuditLogInput {
+  actor: string;
+  actorRole: string | null;
+  action: string;
+  targetFqn?: string | null;
+  targetNodeId?: string | null;
+  correlationId?: string | null;
+  ip?: string | null;
+  outcome: AuditOutcome;
+  statusCode: number;
+  details?: Record<string, unknown> | null;
+}
+
+export interface AuditLogQuery {
+  actor?: string;
+  action?: string;
+  targetFqn?: string;
+  targetNodeId?: string;
+  outcome?: AuditOutcome;
+  since?: string;
+  until?: string;
+  /** Only entries older than this entry id (from `nextCursor`). */
+  cursor?: number;
+  limit: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null;
+}
+
+const SQLITE_CREATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    occurred_at DATETIME NOT NULL,
+    actor TEXT NOT NULL,
+    actor_role TEXT,
+    action TEXT NOT NULL,
+    target_fqn TEXT,
+    target_node_id TEXT,
+    correlation_id TEXT,
+    ip TEXT,
+    outcome TEXT NOT NULL CHECK(outcome IN ('success', 'failure', 'denied')),
+    status_code INTEGER NOT NULL,
+    details TEXT
+  )
+`;
+
+const POSTGRES_CREATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    actor VARCHAR(255) NOT NULL,
+    actor_role VARCHAR(32),
+    action VARCHAR(64) NOT NULL,
+    target_fqn VARCHAR(512),
+    target_node_id VARCHAR(255),
+    correlation_id VARCHAR(128),
+    ip VARCHAR(64),
+    outcome VARCHAR(16) NOT NULL CHECK (outcome IN ('success', 'failure', 'denied')),
+    status_code INTEGER NOT NULL,
+    details JSONB
+  )
+`;
+
+// Entries can be pruned by retention but never edited.
+const SQLITE_CREATE_IMMUTABLE_TRIGGER = `
+  CREATE TRIGGER IF NOT EXISTS audit_log_reject_update
+    BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END
+`;
+
+const POSTGRES_CREATE_IMMUTABLE_FUNCTION = `
+  CREATE OR REPLACE FUNCTION reject_audit_log_update()
+  RETURNS TRIGGER AS $$
+  BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+  END;
+  $$ LANGUAGE plpgsql
+`;
+
+const POSTGRES_CREATE_IMMUTABLE_TRIGGER = `
+  CREATE OR REPLACE TRIGGER audit_log_reject_update
+    BEFORE UPDATE ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION reject_audit_log_update()
+`;
+
+const SELECT_COLUMNS = `
+  id,
+  occurred_at as "occurredAt",
+  actor,
+  actor_role as "actorRole",
+  action,
+  target_fqn as "targetFqn",
+  target_node_id as "targetNodeId",
+  correlation_id as "correlationId",
+  ip,
+  outcome,
+  status_code as "statusCode",
+  details
+`;
+
+function normalizeIsoDate(value: string | Date): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function parseDetails(value: unknown): Record<string, unknown> | null {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value) as unknown;
+    } catch (error) {
+      logger.warn('Failed to parse audit log details', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : null;
+}
+
+function mapRow(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: Number(row.id),
+    occurredAt: normalizeIsoDate(row.occurredAt),
+    actor: row.actor,
+    actorRole: row.actorRole,
+    action: row.action,
+    targetFqn: row.targetFqn,
+    targetNodeId: row.targetNodeId,
+    correlationId: row.correlationId,
+    ip: row.ip,
+    outcome: row.outcome,
+    statusCode: Number(row.statusCode),
+    details: parseDetails(row.details),
+  };
+}
+
+/** Append-only record of state-changing API requests. */
+export class AuditLogModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    if (db.isSqlite) {
+      await db.query(SQLITE_CREATE_TABLE);
+      await db.query(SQLITE_CREATE_IMMUTABLE_TRIGGER);
+    } else {
+      await db.query(POSTGRES_CREATE_TABLE);
+      await db.query(POSTGRES_CREATE_IMMUTABLE_FUNCTION);
+      await db.query(POSTGRES_CREATE_IMMUTABLE_TRIGGER);
+    }
+
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at)',
+    );
+    await db.query('CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor)');
+    await db.query('CREATE INDEX IF NOT EXISTS idx_audit_log_target_fqn ON audit_log(target_fqn)');
+  }
+
+  static async append(input: AppendAuditLogInput): Promise<void> {
+    await this.ensureTable();
+
+    await db.query(
+      `INSERT INTO audit_log
+         (occurred_at, actor, actor_role, action, target_fqn, target_node_id, correlation_id, ip, outcome, status_code, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11${db.isSqlite ? '' : '::jsonb'})`,
+      [
+        new Date().toISOString(),
+        input.actor,
+        input.actorRole,
+        input.action,
+        input.targetFqn ?? null,
+        input.targetNodeId ?? null,
+        input.correlationId ?? null,
+        input.ip ?? null,
+        input.outcome,
+        input.statusCode,
+        input.details ? JSON.stringify(input.details) : null,
+      ],
+    );
+  }
+
+  /** Newest entries first. */
+  static async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    await this.ensureTable();
+
+    const whereClauses: string[] = [];
+    const params: unknown[] = [];
+    const filters: Array<[column: string, operator: string, value: unknown]> = [
+      ['actor', '=', query.actor],
+      ['action', '=', query.action],
+      ['target_fqn', '=', query.targetFqn],
+      ['target_node_id', '=', query.targetNodeId],
+      ['outcome', '=', query.outcome],
+      ['occurred_at', '>=', query.since && new Date(query.since).toISOString()],
+      ['occurred_at', '<=', query.until && new Date(query.until).toISOString()],
+      ['id', '<', query.cursor],
+    ];
+    for (const [column, operator, value] of filters) {
+      if (value !== undefined) {
+        params.push(value);
+        whereClauses.push(`${column} ${operator} $${params.length}`);
+      }
+    }
+
+    // Fetch one extra row to know whether another page exists.
+    params.push(query.limit + 1);
+    const result = await db.query<AuditLogRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM audit_log
+       ${whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : ''}
+       ORDER BY id DESC
+       LIMIT $${params.length}`,
+      params,
+    );
+
+    const entries = result.rows.slice(0, query.limit).map(mapRow);
+    const hasMore = result.rows.length > query.limit;
+    return {
+      entries,
+      nextCursor: hasMore && entries.length > 0 ? String(entries[entries.length - 1].id) : null,
+    };
+  }
+
+  static async pruneOlderThan(retentionDays: number): Promise<number> {
+    await this.ensureTable();
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const result = await db.query('DELETE FROM audit_log WHERE occurred_at < $1', [cutoff]);
+    return result.rowCount;
+  }
+}
+
+export default AuditLogModel;
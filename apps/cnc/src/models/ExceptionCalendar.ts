@@ -0,0 +1,260 @@
+import { randomUUID } from 'crypto';
+import { exceptionCalendarDateSchema } from '@kaonis/woly-protocol';
+import db from '../database/connection';
+import type { ExceptionCalendar, ExceptionCalendarDate, ExceptionCalendarSource } from '../types';
+import logger from '../utils/logger';
+
+type ExceptionCalendarRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  source: ExceptionCalendarSource;
+  dates: unknown;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export interface CreateExceptionCalendarInput {
+  name: string;
+  description?: string | null;
+  source: ExceptionCalendarSource;
+  dates: ExceptionCalendarDate[];
+}
+
+export interface UpdateExceptionCalendarInput {
+  name?: string;
+  description?: string | null;
+  source?: ExceptionCalendarSource;
+  dates?: ExceptionCalendarDate[];
+}
+
+const SQLITE_CREATE_EXCEPTION_CALENDARS_TABLE = `
+  CREATE TABLE IF NOT EXISTS exception_calendars (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    source TEXT NOT NULL CHECK(source IN ('dates', 'ics')),
+    dates TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const POSTGRES_CREATE_EXCEPTION_CALENDARS_TABLE = `
+  CREATE TABLE IF NOT EXISTS exception_calendars (
+    id VARCHAR(64) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL UNIQUE,
+    description TEXT,
+    source VARCHAR(16) NOT NULL CHECK (source IN ('dates', 'ics')),
+    dates JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+  )
+`;
+
+const SELECT_COLUMNS = `
+  id,
+  name,
+  description,
+  source,
+  dates,
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+/** Sorts by date and keeps the first entry for each date. */
+export function normalizeExceptionDates(
+  dates: ReadonlyArray<string | ExceptionCalendarDate>,
+): ExceptionCalendarDate[] {
+  const byDate = new Map<string, ExceptionCalendarDate>();
+  for (const entry of dates) {
+    const { date, label } = typeof entry === 'string' ? { date: entry, label: undefined } : entry;
+    if (!byDate.has(date)) {
+      byDate.set(date, label ? { date, label } : { date });
+    }
+  }
+
+  return [...byDate.values()].sort((left, right) => left.date.localeCompare(right.date));
+}
+
+function normalizeIsoDate(value: string | Date): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function parseDates(value: unknown): ExceptionCalendarDate[] {
+  let rawValues: unknown[] = [];
+
+  if (Array.isArray(value)) {
+    rawValues = value;
+  } else if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      if (Array.isArray(parsed)) {
+        rawValues = parsed;
+      }
+    } catch (error) {
+      logger.warn('Failed to parse exception calendar dates JSON', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return rawValues
+    .map((candidate) => exceptionCalendarDateSchema.safeParse(candidate))
+    .filter((result): result is { success: true; data: ExceptionCalendarDate } => result.success)
+    .map((result) => result.data);
+}
+
+function mapRow(row: ExceptionCalendarRow): ExceptionCalendar {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.description ? { description: row.description } : {}),
+    source: row.source,
+    dates: parseDates(row.dates),
+    createdAt: normalizeIsoDate(row.createdAt),
+    updatedAt: normalizeIsoDate(row.updatedAt),
+  };
+}
+
+export class ExceptionCalendarModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await db.query(
+      db.isSqlite ? SQLITE_CREATE_EXCEPTION_CALENDARS_TABLE : POSTGRES_CREATE_EXCEPTION_CALENDARS_TABLE
+    );
+  }
+
+  static async list(): Promise<ExceptionCalendar[]> {
+    await this.ensureTable();
+
+    const result = await db.query<ExceptionCalendarRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM exception_calendars
+       ORDER BY name ASC`,
+    );
+
+    return result.rows.map(mapRow);
+  }
+
+  static async findById(id: string): Promise<ExceptionCalendar | null> {
+    await this.ensureTable();
+
+    const result = await db.query<ExceptionCalendarRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM exception_calendars
+       WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  /** Returns the calendars that exist, in the order of `ids`. */
+  static async findByIds(ids: readonly string[]): Promise<ExceptionCalendar[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    await this.ensureTable();
+
+    const uniqueIds = Array.from(new Set(ids));
+    const placeholders = uniqueIds.map((_, index) => `$${index + 1}`).join(', ');
+    const result = await db.query<ExceptionCalendarRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM exception_calendars
+       WHERE id IN (${placeholders})`,
+      uniqueIds,
+    );
+
+    const byId = new Map(result.rows.map((row) => [row.id, mapRow(row)]));
+    return uniqueIds
+      .map((id) => byId.get(id))
+      .filter((calendar): calendar is ExceptionCalendar => calendar !== undefined);
+  }
+
+  static async findByName(name: string): Promise<ExceptionCalendar | null> {
+    await this.ensureTable();
+
+    const result = await db.query<ExceptionCalendarRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM exception_calendars
+       WHERE name = $1`,
+      [name],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  static async create(input: CreateExceptionCalendarInput): Promise<ExceptionCalendar> {
+    await this.ensureTable();
+
+    const result = await db.query<ExceptionCalendarRow>(
+      `INSERT INTO exception_calendars (id, name, description, source, dates)
+       VALUES ($1, $2, $3, $4, ${db.isSqlite ? '$5' : '$5::jsonb'})
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        randomUUID(),
+        input.name,
+        input.description ?? null,
+        input.source,
+        JSON.stringify(normalizeExceptionDates(input.dates)),
+      ],
+    );
+
+    return mapRow(result.rows[0]);
+  }
+
+  static async update(id: string, updates: UpdateExceptionCalendarInput): Promise<ExceptionCalendar | null> {
+    await this.ensureTable();
+
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const result = await db.query<ExceptionCalendarRow>(
+      `UPDATE exception_calendars
+       SET name = $2,
+           description = $3,
+           source = $4,
+           dates = ${db.isSqlite ? '$5' : '$5::jsonb'},
+           updated_at = ${db.isSqlite ? 'CURRENT_TIMESTAMP' : 'NOW()'}
+       WHERE id = $1
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        id,
+        updates.name ?? existing.name,
+        updates.description !== undefined ? updates.description : existing.description ?? null,
+        updates.source ?? existing.source,
+        JSON.stringify(updates.dates ? normalizeExceptionDates(updates.dates) : existing.dates),
+      ],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    await this.ensureTable();
+    const result = await db.query('DELETE FROM exception_calendars WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+}
+
+export default ExceptionCalendarModel;
@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import db from '../database/connection';
+import type { HostGroup } from '../types';
+
+type HostGroupRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+type HostGroupMemberRow = {
+  groupId: string;
+  hostFqn: string;
+};
+
+export interface CreateHostGroupInput {
+  name: string;
+  description?: string | null;
+  hostFqns: string[];
+}
+
+export interface UpdateHostGroupInput {
+  name?: string;
+  description?: string | null;
+  hostFqns?: string[];
+}
+
+const SQLITE_CREATE_HOST_GROUPS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const POSTGRES_CREATE_HOST_GROUPS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_groups (
+    id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(128) NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )
+`;
+
+const SQLITE_CREATE_HOST_GROUP_MEMBERS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_group_members (
+    group_id TEXT NOT NULL,
+    host_fqn TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (group_id, host_fqn),
+    FOREIGN KEY (group_id) REFERENCES host_groups(id) ON DELETE CASCADE
+  )
+`;
+
+const POSTGRES_CREATE_HOST_GROUP_MEMBERS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_group_members (
+    group_id VARCHAR(255) NOT NULL REFERENCES host_groups(id) ON DELETE CASCADE,
+    host_fqn VARCHAR(512) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (group_id, host_fqn)
+  )
+`;
+
+export class HostGroupModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    const isSqlite = db.isSqlite;
+
+    await db.query(isSqlite ? SQLITE_CREATE_HOST_GROUPS_TABLE : POSTGRES_CREATE_HOST_GROUPS_TABLE);
+    await db.query(
+      isSqlite ? SQLITE_CREATE_HOST_GROUP_MEMBERS_TABLE : POSTGRES_CREATE_HOST_GROUP_MEMBERS_TABLE
+    );
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_host_group_members_host_fqn ON host_group_members(host_fqn)'
+    );
+  }
+
+  private static normalizeIsoDate(value: string | Date): string {
+    const parsed = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      return new Date().toISOString();
+    }
+
+    return parsed.toISOString();
+  }
+
+  private static mapRow(row: HostGroupRow, hostFqns: string[]): HostGroup {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? null,
+      hostFqns,
+      createdAt: this.normalizeIsoDate(row.createdAt),
+      updatedAt: this.normalizeIsoDate(row.updatedAt),
+    };
+  }
+
+  private static async listMembers(groupIds: string[]): Promise<Map<string, string[]>> {
+    const members = new Map<string, string[]>();
+    if (groupIds.length === 0) {
+      return members;
+    }
+
+    const placeholders = groupIds.map((_, index) => `$${index + 1}`).join(', ');
+    const result = await db.query<HostGroupMemberRow>(
+      `SELECT group_id as "groupId", host_fqn as "hostFqn"
+       FROM host_group_members
+       WHERE group_id IN (${placeholders})
+       ORDER BY position ASC, host_fqn ASC`,
+      groupIds,
+    );
+
+    for (const row of result.rows) {
+      const existing = members.get(row.groupId);
+      if (existing) {
+        existing.push(row.hostFqn);
+      } else {
+        members.set(row.groupId, [row.hostFqn]);
+      }
+    }
+
+    return members;
+  }
+
+  private static async replaceMembers(groupId: string, hostFqns: string[]): Promise<void> {
+    await db.query('DELETE FROM host_group_members WHERE group_id = $1', [groupId]);
+
+    for (const [position, hostFqn] of hostFqns.entries()) {
+      await db.query(
+        `INSERT INTO host_group_members (group_id, host_fqn, position)
+         VALUES ($1, $2, $3)`,
+        [groupId, hostFqn, position],
+      );
+    }
+  }
+
+  static async list(): Promise<HostGroup[]> {
+    await this.ensureTable();
+
+    const result = await db.query<HostGroupRow>(
+      `SELECT
+        id,
+        name,
+        description,
+        created_at as "createdAt",
+        updated_at as "updatedAt"
+       FROM host_groups
+       ORDER BY name ASC`,
+    );
+
+    const members = await this.listMembers(result.rows.map((row) => row.id));
+    return result.rows.map((row) => this.mapRow(row, members.get(row.id) ?? []));
+  }
+
+  static async listGroupIdsForHost(hostFqn: string): Promise<string[]> {
+    await this.ensureTable();
+
+    const result = await db.query<{ groupId: string }>(
+      `SELECT group_id as "groupId"
+       FROM host_group_members
+       WHERE host_fqn = $1
+       ORDER BY group_id ASC`,
+      [hostFqn],
+    );
+
+    return result.rows.map((row) => row.groupId);
+  }
+
+  static async findById(id: string): Promise<HostGroup | null> {
+    await this.ensureTable();
+
+    const result = await db.query<HostGroupRow>(
+      `SELECT
+        id,
+        name,
+        description,
+        created_at as "createdAt",
+        updated_at as "updatedAt"
+       FROM host_groups
+       WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const members = await this.listMembers([row.id]);
+    return this.mapRow(row, members.get(row.id) ?? []);
+  }
+
+  static async findByName(name: string): Promise<HostGroup | null> {
+    await this.ensureTable();
+
+    const result = await db.query<{ id: string }>(
+      'SELECT id FROM host_groups WHERE name = $1',
+      [name],
+    );
+
+    const row = result.rows[0];
+    return row ? this.findById(row.id) : null;
+  }
+
+  static async create(input: CreateHostGroupInput): Promise<HostGroup> {
+    await this.ensureTable();
+
+    const id = randomUUID();
+    await db.query(
+      `INSERT INTO host_groups (id, name, description)
+       VALUES ($1, $2, $3)`,
+      [id, input.name, input.description ?? null],
+    );
+    await this.replaceMembers(id, input.hostFqns);
+
+    const created = await this.findById(id);
+    if (!created) {
+      throw new Error('Failed to create host group');
+    }
+
+    return created;
+  }
+
+  static async update(id: string, updates: UpdateHostGroupInput): Promise<HostGroup | null> {
+    await this.ensureTable();
+
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const name = updates.name ?? existing.name;
+    const description = updates.description !== undefined ? updates.description : existing.description;
+
+    await db.query(
+      db.isSqlite
+        ? `UPDATE host_groups
+           SET name = $2,
+               description = $3,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`
+        : `UPDATE host_groups
+           SET name = $2,
+               description = $3,
+               updated_at = NOW()
+           WHERE id = $1`,
+      [id, name, description],
+    );
+
+    if (updates.hostFqns !== undefined) {
+      await this.replaceMembers(id, updates.hostFqns);
+    }
+
+    return this.findById(id);
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    await this.ensureTable();
+
+    await db.query('DELETE FROM host_group_members WHERE group_id = $1', [id]);
+    const result = await db.query('DELETE FROM host_groups WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export default HostGroupModel;
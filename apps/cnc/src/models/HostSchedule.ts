@@ -1,6 +1,21 @@
 import { randomUUID } from 'crypto';
 import db from '../database/connection';
-import type { HostWakeSchedule, ScheduleFrequency } from '../types';
+import type {
+  ExceptionCalendar,
+  HostWakeSchedule,
+  ScheduleAction,
+  ScheduleFrequency,
+  ScheduleSolarTrigger,
+} from '../types';
+import logger from '../utils/logger';
+import {
+  computeNextTrigger,
+  computeSkippedTriggers,
+  findTriggerExclusion,
+  type ScheduleExclusion,
+  type ScheduleTriggerSpec,
+} from '../utils/scheduleTriggers';
+import ExceptionCalendarModel from './ExceptionCalendar';
 
 interface HostScheduleRow {
   id: string;
@@ -9,9 +24,16 @@ interface HostScheduleRow {
   host_mac: string;
   scheduled_time: string | Date;
   frequency: ScheduleFrequency;
+  action: ScheduleAction | null;
   enabled: boolean | number;
   notify_on_wake: boolean | number;
   timezone: string;
+  cron_expression: string | null;
+  solar_event: ScheduleSolarTrigger['event'] | null;
+  solar_offset_minutes: number | null;
+  solar_latitude: number | null;
+  solar_longitude: number | null;
+  exception_calendar_ids: unknown;
   last_triggered: string | Date | null;
   next_trigger: string | Date | null;
   created_at: string | Date;
@@ -24,6 +46,10 @@ interface CreateHostScheduleInput {
   hostMac: string;
   scheduledTime: string;
   frequency: ScheduleFrequency;
+  cronExpression?: string | null;
+  solar?: ScheduleSolarTrigger | null;
+  action?: ScheduleAction;
+  exceptionCalendarIds?: string[];
   enabled: boolean;
   notifyOnWake: boolean;
   timezone: string;
@@ -32,6 +58,10 @@ interface CreateHostScheduleInput {
 interface UpdateHostScheduleInput {
   scheduledTime?: string;
   frequency?: ScheduleFrequency;
+  cronExpression?: string | null;
+  solar?: ScheduleSolarTrigger | null;
+  action?: ScheduleAction;
+  exceptionCalendarIds?: string[];
   enabled?: boolean;
   notifyOnWake?: boolean;
   timezone?: string;
@@ -39,6 +69,17 @@ interface UpdateHostScheduleInput {
 
 const isSqlite = db.isSqlite;
 
+const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = [
+  'once',
+  'daily',
+  'weekly',
+  'weekdays',
+  'weekends',
+  'cron',
+  'solar',
+];
+const SCHEDULE_FREQUENCY_SQL_LIST = SCHEDULE_FREQUENCIES.map((frequency) => `'${frequency}'`).join(', ');
+
 const SQLITE_CREATE_TABLE = `
   CREATE TABLE IF NOT EXISTS host_wake_schedules (
     id TEXT PRIMARY KEY,
@@ -46,10 +87,17 @@ const SQLITE_CREATE_TABLE = `
     host_name TEXT NOT NULL,
     host_mac TEXT NOT NULL,
     scheduled_time DATETIME NOT NULL,
-    frequency TEXT NOT NULL CHECK(frequency IN ('once', 'daily', 'weekly', 'weekdays', 'weekends')),
+    frequency TEXT NOT NULL CHECK(frequency IN (${SCHEDULE_FREQUENCY_SQL_LIST})),
+    action TEXT NOT NULL DEFAULT 'wake' CHECK(action IN ('wake', 'sleep', 'shutdown')),
     enabled INTEGER NOT NULL DEFAULT 1 CHECK(enabled IN (0, 1)),
     notify_on_wake INTEGER NOT NULL DEFAULT 1 CHECK(notify_on_wake IN (0, 1)),
     timezone TEXT NOT NULL DEFAULT 'UTC',
+    cron_expression TEXT,
+    solar_event TEXT CHECK(solar_event IN ('sunrise', 'sunset')),
+    solar_offset_minutes INTEGER,
+    solar_latitude REAL,
+    solar_longitude REAL,
+    exception_calendar_ids TEXT,
     last_triggered DATETIME,
     next_trigger DATETIME,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -64,10 +112,18 @@ const POSTGRES_CREATE_TABLE = `
     host_name VARCHAR(255) NOT NULL,
     host_mac VARCHAR(17) NOT NULL,
     scheduled_time TIMESTAMP WITH TIME ZONE NOT NULL,
-    frequency VARCHAR(16) NOT NULL CHECK(frequency IN ('once', 'daily', 'weekly', 'weekdays', 'weekends')),
+    frequency VARCHAR(16) NOT NULL CONSTRAINT host_wake_schedules_frequency_check
+      CHECK(frequency IN (${SCHEDULE_FREQUENCY_SQL_LIST})),
+    action VARCHAR(16) NOT NULL DEFAULT 'wake' CHECK(action IN ('wake', 'sleep', 'shutdown')),
     enabled BOOLEAN NOT NULL DEFAULT true,
     notify_on_wake BOOLEAN NOT NULL DEFAULT true,
     timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    cron_expression VARCHAR(128),
+    solar_event VARCHAR(16) CHECK(solar_event IN ('sunrise', 'sunset')),
+    solar_offset_minutes INTEGER,
+    solar_latitude DOUBLE PRECISION,
+    solar_longitude DOUBLE PRECISION,
+    exception_calendar_ids JSONB,
     last_triggered TIMESTAMP WITH TIME ZONE,
     next_trigger TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
@@ -75,6 +131,44 @@ const POSTGRES_CREATE_TABLE = `
   )
 `;
 
+// Columns added after host_wake_schedules first shipped; applied to existing tables on startup.
+const SQLITE_ADDED_COLUMNS: Array<{ column: string; statement: string }> = [
+  { column: 'cron_expression', statement: 'ALTER TABLE host_wake_schedules ADD COLUMN cron_expression TEXT' },
+  { column: 'solar_event', statement: 'ALTER TABLE host_wake_schedules ADD COLUMN solar_event TEXT' },
+  {
+    column: 'solar_offset_minutes',
+    statement: 'ALTER TABLE host_wake_schedules ADD COLUMN solar_offset_minutes INTEGER',
+  },
+  { column: 'solar_latitude', statement: 'ALTER TABLE host_wake_schedules ADD COLUMN solar_latitude REAL' },
+  { column: 'solar_longitude', statement: 'ALTER TABLE host_wake_schedules ADD COLUMN solar_longitude REAL' },
+  {
+    column: 'action',
+    statement: `ALTER TABLE host_wake_schedules ADD COLUMN action TEXT NOT NULL DEFAULT 'wake'
+      CHECK(action IN ('wake', 'sleep', 'shutdown'))`,
+  },
+  {
+    column: 'exception_calendar_ids',
+    statement: 'ALTER TABLE host_wake_schedules ADD COLUMN exception_calendar_ids TEXT',
+  },
+];
+
+const POSTGRES_COMPATIBILITY_STATEMENTS = [
+  'ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS cron_expression VARCHAR(128)',
+  'ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS solar_event VARCHAR(16)',
+  'ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS solar_offset_minutes INTEGER',
+  'ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS solar_latitude DOUBLE PRECISION',
+  'ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS solar_longitude DOUBLE PRECISION',
+  `ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS action VARCHAR(16) NOT NULL DEFAULT 'wake'
+     CHECK(action IN ('wake', 'sleep', 'shutdown'))`,
+  'ALTER TABLE host_wake_schedules ADD COLUMN IF NOT EXISTS exception_calendar_ids JSONB',
+];
+
+const POSTGRES_FREQUENCY_CHECK_STATEMENTS = [
+  'ALTER TABLE host_wake_schedules DROP CONSTRAINT IF EXISTS host_wake_schedules_frequency_check',
+  `ALTER TABLE host_wake_schedules ADD CONSTRAINT host_wake_schedules_frequency_check
+     CHECK(frequency IN (${SCHEDULE_FREQUENCY_SQL_LIST}))`,
+];
+
 const CREATE_INDEXES = [
   'CREATE INDEX IF NOT EXISTS idx_host_wake_schedules_host_fqn ON host_wake_schedules(host_fqn)',
   'CREATE INDEX IF NOT EXISTS idx_host_wake_schedules_next_trigger ON host_wake_schedules(next_trigger)',
@@ -92,7 +186,67 @@ function toBoolean(value: boolean | number): boolean {
   return value === 1;
 }
 
+// Upper bound on skipped runs reported per schedule.
+const MAX_SKIPPED_RUNS = 50;
+
+function parseCalendarIds(value: unknown): string[] {
+  let rawValues: unknown[] = [];
+
+  if (Array.isArray(value)) {
+    rawValues = value;
+  } else if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      if (Array.isArray(parsed)) {
+        rawValues = parsed;
+      }
+    } catch (error) {
+      logger.warn('Failed to parse schedule exception calendar ids JSON', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return Array.from(new Set(rawValues.filter((id): id is string => typeof id === 'string' && id.length > 0)));
+}
+
+function calendarIdsColumnValue(ids: readonly string[] | undefined): string | null {
+  return ids && ids.length > 0 ? JSON.stringify(Array.from(new Set(ids))) : null;
+}
+
+/** Date → exclusion for the given calendars; the first calendar listed wins a shared date. */
+function buildExclusions(
+  calendarIds: readonly string[] | undefined,
+  calendarsById: ReadonlyMap<string, ExceptionCalendar>,
+): Map<string, ScheduleExclusion> {
+  const exclusions = new Map<string, ScheduleExclusion>();
+  for (const calendarId of calendarIds ?? []) {
+    const calendar = calendarsById.get(calendarId);
+    if (!calendar) {
+      continue;
+    }
+
+    for (const entry of calendar.dates) {
+      if (!exclusions.has(entry.date)) {
+        exclusions.set(entry.date, {
+          calendarId: calendar.id,
+          calendarName: calendar.name,
+          ...(entry.label ? { label: entry.label } : {}),
+        });
+      }
+    }
+  }
+
+  return exclusions;
+}
+
+async function loadCalendars(calendarIds: readonly string[]): Promise<Map<string, ExceptionCalendar>> {
+  const calendars = await ExceptionCalendarModel.findByIds(calendarIds);
+  return new Map(calendars.map((calendar) => [calendar.id, calendar]));
+}
+
 function mapRow(row: HostScheduleRow): HostWakeSchedule {
+  const exceptionCalendarIds = parseCalendarIds(row.exception_calendar_ids);
   return {
     id: row.id,
     hostFqn: row.host_fqn,
@@ -100,9 +254,22 @@ function mapRow(row: HostScheduleRow): HostWakeSchedule {
     hostMac: row.host_mac,
     scheduledTime: toIsoString(row.scheduled_time) ?? new Date(row.scheduled_time).toISOString(),
     frequency: row.frequency,
+    action: row.action ?? 'wake',
     enabled: toBoolean(row.enabled),
     notifyOnWake: toBoolean(row.notify_on_wake),
     timezone: row.timezone,
+    ...(row.cron_expression ? { cronExpression: row.cron_expression } : {}),
+    ...(row.solar_event
+      ? {
+        solar: {
+          event: row.solar_event,
+          offsetMinutes: Number(row.solar_offset_minutes ?? 0),
+          latitude: Number(row.solar_latitude),
+          longitude: Number(row.solar_longitude),
+        },
+      }
+      : {}),
+    ...(exceptionCalendarIds.length > 0 ? { exceptionCalendarIds } : {}),
     createdAt: toIsoString(row.created_at) ?? new Date(row.created_at).toISOString(),
     updatedAt: toIsoString(row.updated_at) ?? new Date(row.updated_at).toISOString(),
     ...(toIsoString(row.last_triggered) ? { lastTriggered: toIsoString(row.last_triggered) } : {}),
@@ -114,74 +281,29 @@ function normalizeFrequency(raw: string): ScheduleFrequency {
   return raw as ScheduleFrequency;
 }
 
-function computeNextTrigger(
-  scheduledTimeIso: string,
-  frequency: ScheduleFrequency,
-  enabled: boolean,
-  referenceNow: Date = new Date(),
-): string | null {
-  if (!enabled) return null;
-
-  const scheduledTime = new Date(scheduledTimeIso);
-  if (Number.isNaN(scheduledTime.getTime())) {
-    return null;
-  }
-
-  const now = referenceNow;
-
-  if (frequency === 'once') {
-    return scheduledTime > now ? scheduledTime.toISOString() : null;
-  }
-
-  const buildCandidate = (base: Date): Date => {
-    const candidate = new Date(base);
-    candidate.setUTCHours(
-      scheduledTime.getUTCHours(),
-      scheduledTime.getUTCMinutes(),
-      scheduledTime.getUTCSeconds(),
-      0,
-    );
-    return candidate;
+function toTriggerSpec(
+  schedule: Omit<ScheduleTriggerSpec, 'frequency' | 'exclusions'> & { frequency: string },
+  exclusions?: ReadonlyMap<string, ScheduleExclusion>,
+): ScheduleTriggerSpec {
+  const frequency = normalizeFrequency(schedule.frequency);
+  return {
+    scheduledTime: schedule.scheduledTime,
+    frequency,
+    timezone: schedule.timezone,
+    cronExpression: frequency === 'cron' ? schedule.cronExpression ?? null : null,
+    solar: frequency === 'solar' ? schedule.solar ?? null : null,
+    ...(exclusions && exclusions.size > 0 ? { exclusions } : {}),
   };
+}
 
-  const today = new Date(now);
-  today.setUTCHours(0, 0, 0, 0);
-
-  if (frequency === 'daily') {
-    const candidate = buildCandidate(today);
-    if (candidate <= now) {
-      candidate.setUTCDate(candidate.getUTCDate() + 1);
-    }
-    return candidate.toISOString();
-  }
-
-  if (frequency === 'weekly') {
-    const targetDay = scheduledTime.getUTCDay();
-    const candidate = buildCandidate(today);
-    const currentDay = candidate.getUTCDay();
-    let deltaDays = (targetDay - currentDay + 7) % 7;
-    if (deltaDays === 0 && candidate <= now) {
-      deltaDays = 7;
-    }
-    candidate.setUTCDate(candidate.getUTCDate() + deltaDays);
-    return candidate.toISOString();
-  }
-
-  const weekdaySet = frequency === 'weekdays'
-    ? new Set([1, 2, 3, 4, 5])
-    : new Set([0, 6]);
-
-  const candidate = buildCandidate(today);
-  for (let i = 0; i < 8; i += 1) {
-    const day = candidate.getUTCDay();
-    const isTargetDay = weekdaySet.has(day);
-    if (isTargetDay && candidate > now) {
-      return candidate.toISOString();
-    }
-    candidate.setUTCDate(candidate.getUTCDate() + 1);
-  }
-
-  return null;
+function triggerColumnValues(spec: ScheduleTriggerSpec): Array<string | number | null> {
+  return [
+    spec.cronExpression ?? null,
+    spec.solar?.event ?? null,
+    spec.solar?.offsetMinutes ?? null,
+    spec.solar?.latitude ?? null,
+    spec.solar?.longitude ?? null,
+  ];
 }
 
 export class HostScheduleModel {
@@ -202,11 +324,80 @@ export class HostScheduleModel {
     const createTableStatement = isSqlite ? SQLITE_CREATE_TABLE : POSTGRES_CREATE_TABLE;
     await db.query(createTableStatement);
 
+    if (isSqlite) {
+      await this.applySqliteCompatibilityMigrations();
+    } else {
+      await this.applyPostgresCompatibilityMigrations();
+    }
+
     for (const statement of CREATE_INDEXES) {
       await db.query(statement);
     }
   }
 
+  private static async applyPostgresCompatibilityMigrations(): Promise<void> {
+    for (const statement of POSTGRES_COMPATIBILITY_STATEMENTS) {
+      await db.query(statement);
+    }
+
+    // Replacing the constraint rescans the table under an exclusive lock, so
+    // only do it when the existing check predates the current frequency list.
+    const constraint = await db.query<{ definition: string }>(
+      `SELECT pg_get_constraintdef(oid) as definition
+       FROM pg_constraint
+       WHERE conrelid = 'host_wake_schedules'::regclass
+         AND conname = 'host_wake_schedules_frequency_check'`,
+    );
+    const definition = constraint.rows[0]?.definition ?? '';
+    if (SCHEDULE_FREQUENCIES.every((frequency) => definition.includes(`'${frequency}'`))) {
+      return;
+    }
+
+    for (const statement of POSTGRES_FREQUENCY_CHECK_STATEMENTS) {
+      await db.query(statement);
+    }
+  }
+
+  private static async applySqliteCompatibilityMigrations(): Promise<void> {
+    const columns = await db.query<{ name: string }>(
+      "SELECT name FROM pragma_table_info('host_wake_schedules')",
+    );
+    const existingColumns = new Set(columns.rows.map((row) => row.name));
+    for (const migration of SQLITE_ADDED_COLUMNS) {
+      if (!existingColumns.has(migration.column)) {
+        await db.query(migration.statement);
+      }
+    }
+
+    // SQLite cannot alter a CHECK constraint, so tables created before the
+    // current frequency list are rebuilt with the new definition.
+    const table = await db.query<{ sql: string }>(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'host_wake_schedules'",
+    );
+    const tableSql = table.rows[0]?.sql ?? '';
+    if (SCHEDULE_FREQUENCIES.every((frequency) => tableSql.includes(`'${frequency}'`))) {
+      return;
+    }
+
+    const columnList = (
+      await db.query<{ name: string }>("SELECT name FROM pragma_table_info('host_wake_schedules')")
+    ).rows.map((row) => row.name).join(', ');
+    await db.query('BEGIN TRANSACTION');
+    try {
+      await db.query('ALTER TABLE host_wake_schedules RENAME TO host_wake_schedules_legacy');
+      await db.query(SQLITE_CREATE_TABLE);
+      await db.query(
+        `INSERT INTO host_wake_schedules (${columnList})
+         SELECT ${columnList} FROM host_wake_schedules_legacy`,
+      );
+      await db.query('DROP TABLE host_wake_schedules_legacy');
+      await db.query('COMMIT');
+    } catch (error) {
+      await db.query('ROLLBACK');
+      throw error;
+    }
+  }
+
   static async listAll(options: { enabled?: boolean } = {}): Promise<HostWakeSchedule[]> {
     await this.ensureTable();
 
@@ -257,7 +448,134 @@ export class HostScheduleModel {
       [nowIso, limit],
     );
 
-    return result.rows.map(mapRow);
+    return this.dropExcludedDueRuns(result.rows.map(mapRow));
+  }
+
+  /**
+   * Due schedules whose run falls on a date an exception calendar added after
+   * next_trigger was stored are moved to their next allowed run instead.
+   */
+  private static async dropExcludedDueRuns(schedules: HostWakeSchedule[]): Promise<HostWakeSchedule[]> {
+    const calendarIds = schedules.flatMap((schedule) => schedule.exceptionCalendarIds ?? []);
+    if (calendarIds.length === 0) {
+      return schedules;
+    }
+
+    const calendarsById = await loadCalendars(calendarIds);
+    const due: HostWakeSchedule[] = [];
+    for (const schedule of schedules) {
+      const spec = toTriggerSpec(schedule, buildExclusions(schedule.exceptionCalendarIds, calendarsById));
+      if (!schedule.nextTrigger || !findTriggerExclusion(spec, schedule.nextTrigger)) {
+        due.push(schedule);
+        continue;
+      }
+
+      const nextTrigger = schedule.frequency === 'once'
+        ? null
+        : computeNextTrigger(spec, true, new Date(schedule.nextTrigger));
+      await this.setNextTrigger(schedule.id, nextTrigger);
+    }
+
+    return due;
+  }
+
+  private static async setNextTrigger(id: string, nextTrigger: string | null): Promise<void> {
+    await db.query(
+      `UPDATE host_wake_schedules
+       SET next_trigger = $2,
+           updated_at = ${isSqlite ? 'CURRENT_TIMESTAMP' : 'NOW()'}
+       WHERE id = $1`,
+      [id, nextTrigger],
+    );
+  }
+
+  private static async loadExclusions(
+    calendarIds: readonly string[] | undefined,
+  ): Promise<Map<string, ScheduleExclusion>> {
+    if (!calendarIds || calendarIds.length === 0) {
+      return new Map();
+    }
+
+    return buildExclusions(calendarIds, await loadCalendars(calendarIds));
+  }
+
+  /** Trigger spec for a stored schedule, including its exception calendar dates. */
+  static async resolveTriggerSpec(schedule: HostWakeSchedule): Promise<ScheduleTriggerSpec> {
+    return toTriggerSpec(schedule, await this.loadExclusions(schedule.exceptionCalendarIds));
+  }
+
+  /**
+   * Adds `skippedRuns` to schedules that reference exception calendars: the
+   * runs since the last trigger (or creation) up to the next trigger that
+   * fall on an excluded date.
+   */
+  static async withSkippedRuns(
+    schedules: HostWakeSchedule[],
+    referenceNow: Date = new Date(),
+  ): Promise<HostWakeSchedule[]> {
+    const calendarIds = schedules.flatMap((schedule) => schedule.exceptionCalendarIds ?? []);
+    if (calendarIds.length === 0) {
+      return schedules;
+    }
+
+    const calendarsById = await loadCalendars(calendarIds);
+    return schedules.map((schedule) => {
+      if (!schedule.exceptionCalendarIds?.length) {
+        return schedule;
+      }
+
+      const spec = toTriggerSpec(schedule, buildExclusions(schedule.exceptionCalendarIds, calendarsById));
+      const from = new Date(schedule.lastTriggered ?? schedule.createdAt);
+      const until = schedule.nextTrigger ? new Date(schedule.nextTrigger) : referenceNow;
+      const skippedRuns = computeSkippedTriggers(spec, from, until, MAX_SKIPPED_RUNS)
+        .map((skipped) => ({
+          scheduledFor: skipped.scheduledFor,
+          date: skipped.date,
+          calendarId: skipped.calendarId,
+          calendarName: skipped.calendarName,
+          reason: skipped.label ?? `Listed in exception calendar "${skipped.calendarName}"`,
+        }));
+
+      return { ...schedule, skippedRuns };
+    });
+  }
+
+  static async listByExceptionCalendar(calendarId: string): Promise<HostWakeSchedule[]> {
+    await this.ensureTable();
+    const result = await db.query<HostScheduleRow>(
+      `SELECT *
+       FROM host_wake_schedules
+       WHERE exception_calendar_ids IS NOT NULL
+       ORDER BY created_at DESC`,
+    );
+
+    return result.rows
+      .map(mapRow)
+      .filter((schedule) => schedule.exceptionCalendarIds?.includes(calendarId));
+  }
+
+  /** Recomputes next_trigger for enabled schedules after a calendar's dates change. */
+  static async refreshNextTriggersForCalendar(
+    calendarId: string,
+    referenceNow: Date = new Date(),
+  ): Promise<number> {
+    const schedules = (await this.listByExceptionCalendar(calendarId)).filter((schedule) => schedule.enabled);
+    if (schedules.length === 0) {
+      return 0;
+    }
+
+    const calendarsById = await loadCalendars(schedules.flatMap((schedule) => schedule.exceptionCalendarIds ?? []));
+    let updated = 0;
+    for (const schedule of schedules) {
+      const spec = toTriggerSpec(schedule, buildExclusions(schedule.exceptionCalendarIds, calendarsById));
+      const nextTrigger = computeNextTrigger(spec, true, referenceNow);
+      if (nextTrigger !== (schedule.nextTrigger ?? null)) {
+        await this.setNextTrigger(schedule.id, nextTrigger);
+        updated += 1;
+      }
+    }
+
+    return updated;
   }
 
   static async findById(id: string): Promise<HostWakeSchedule | null> {
@@ -278,46 +596,32 @@ export class HostScheduleModel {
     await this.ensureTable();
 
     const id = randomUUID();
-    const frequency = normalizeFrequency(input.frequency);
-    const nextTrigger = computeNextTrigger(input.scheduledTime, frequency, input.enabled);
-
-    if (isSqlite) {
-      await db.query(
-        `INSERT INTO host_wake_schedules
-          (id, host_fqn, host_name, host_mac, scheduled_time, frequency, enabled, notify_on_wake, timezone, next_trigger)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [
-          id,
-          input.hostFqn,
-          input.hostName,
-          input.hostMac,
-          input.scheduledTime,
-          frequency,
-          input.enabled ? 1 : 0,
-          input.notifyOnWake ? 1 : 0,
-          input.timezone,
-          nextTrigger,
-        ],
-      );
-    } else {
-      await db.query(
-        `INSERT INTO host_wake_schedules
-          (id, host_fqn, host_name, host_mac, scheduled_time, frequency, enabled, notify_on_wake, timezone, next_trigger)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [
-          id,
-          input.hostFqn,
-          input.hostName,
-          input.hostMac,
-          input.scheduledTime,
-          frequency,
-          input.enabled,
-          input.notifyOnWake,
-          input.timezone,
-          nextTrigger,
-        ],
-      );
-    }
+    const spec = toTriggerSpec(input, await this.loadExclusions(input.exceptionCalendarIds));
+    const nextTrigger = computeNextTrigger(spec, input.enabled);
+
+    await db.query(
+      `INSERT INTO host_wake_schedules
+        (id, host_fqn, host_name, host_mac, scheduled_time, frequency, enabled, notify_on_wake, timezone,
+         cron_expression, solar_event, solar_offset_minutes, solar_latitude, solar_longitude, next_trigger,
+         action, exception_calendar_ids)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
+         ${isSqlite ? '$17' : '$17::jsonb'})`,
+      [
+        id,
+        input.hostFqn,
+        input.hostName,
+        input.hostMac,
+        input.scheduledTime,
+        spec.frequency,
+        isSqlite ? (input.enabled ? 1 : 0) : input.enabled,
+        isSqlite ? (input.notifyOnWake ? 1 : 0) : input.notifyOnWake,
+        input.timezone,
+        ...triggerColumnValues(spec),
+        nextTrigger,
+        input.action ?? 'wake',
+        calendarIdsColumnValue(input.exceptionCalendarIds),
+      ],
+    );
 
     const created = await this.findById(id);
     if (!created) {
@@ -338,61 +642,49 @@ export class HostScheduleModel {
     const nextValues = {
       scheduledTime: updates.scheduledTime ?? existing.scheduledTime,
       frequency: updates.frequency ?? existing.frequency,
+      cronExpression: updates.cronExpression !== undefined ? updates.cronExpression : existing.cronExpression,
+      solar: updates.solar !== undefined ? updates.solar : existing.solar,
+      action: updates.action ?? existing.action ?? 'wake',
+      exceptionCalendarIds: updates.exceptionCalendarIds ?? existing.exceptionCalendarIds ?? [],
       enabled: updates.enabled ?? existing.enabled,
       notifyOnWake: updates.notifyOnWake ?? existing.notifyOnWake,
       timezone: updates.timezone ?? existing.timezone,
     };
 
-    const nextTrigger = computeNextTrigger(
-      nextValues.scheduledTime,
-      nextValues.frequency,
-      nextValues.enabled,
+    const spec = toTriggerSpec(nextValues, await this.loadExclusions(nextValues.exceptionCalendarIds));
+    const nextTrigger = computeNextTrigger(spec, nextValues.enabled);
+
+    await db.query(
+      `UPDATE host_wake_schedules
+       SET scheduled_time = $2,
+           frequency = $3,
+           enabled = $4,
+           notify_on_wake = $5,
+           timezone = $6,
+           cron_expression = $7,
+           solar_event = $8,
+           solar_offset_minutes = $9,
+           solar_latitude = $10,
+           solar_longitude = $11,
+           next_trigger = $12,
+           action = $13,
+           exception_calendar_ids = ${isSqlite ? '$14' : '$14::jsonb'},
+           updated_at = ${isSqlite ? 'CURRENT_TIMESTAMP' : 'NOW()'}
+       WHERE id = $1`,
+      [
+        id,
+        nextValues.scheduledTime,
+        spec.frequency,
+        isSqlite ? (nextValues.enabled ? 1 : 0) : nextValues.enabled,
+        isSqlite ? (nextValues.notifyOnWake ? 1 : 0) : nextValues.notifyOnWake,
+        nextValues.timezone,
+        ...triggerColumnValues(spec),
+        nextTrigger,
+        nextValues.action,
+        calendarIdsColumnValue(nextValues.exceptionCalendarIds),
+      ],
     );
 
-    if (isSqlite) {
-      await db.query(
-        `UPDATE host_wake_schedules
-         SET scheduled_time = $2,
-             frequency = $3,
-             enabled = $4,
-             notify_on_wake = $5,
-             timezone = $6,
-             next_trigger = $7,
-             updated_at = CURRENT_TIMESTAMP
-         WHERE id = $1`,
-        [
-          id,
-          nextValues.scheduledTime,
-          nextValues.frequency,
-          nextValues.enabled ? 1 : 0,
-          nextValues.notifyOnWake ? 1 : 0,
-          nextValues.timezone,
-          nextTrigger,
-        ],
-      );
-    } else {
-      await db.query(
-        `UPDATE host_wake_schedules
-         SET scheduled_time = $2,
-             frequency = $3,
-             enabled = $4,
-             notify_on_wake = $5,
-             timezone = $6,
-             next_trigger = $7,
-             updated_at = NOW()
-         WHERE id = $1`,
-        [
-          id,
-          nextValues.scheduledTime,
-          nextValues.frequency,
-          nextValues.enabled,
-          nextValues.notifyOnWake,
-          nextValues.timezone,
-          nextTrigger,
-        ],
-      );
-    }
-
     return this.findById(id);
   }
 
@@ -417,8 +709,7 @@ export class HostScheduleModel {
     const referenceNow = new Date(executedAtIso);
     const nextTrigger = shouldRemainEnabled
       ? computeNextTrigger(
-        existing.scheduledTime,
-        existing.frequency,
+        toTriggerSpec(existing, await this.loadExclusions(existing.exceptionCalendarIds)),
         true,
         Number.isNaN(referenceNow.getTime()) ? new Date() : referenceNow,
       )
@@ -0,0 +1,244 @@
+import db from '../database/connection';
+import type {
+  CommandState,
+  ScheduleAction,
+  ScheduleExecution,
+  ScheduleExecutionOutcome,
+  WakeVerificationResult,
+} from '../types';
+import logger from '../utils/logger';
+
+type HostScheduleExecutionRow = {
+  id: number | string;
+  scheduleId: string;
+  hostFqn: string;
+  action: ScheduleAction;
+  attemptedAt: string | Date;
+  outcome: ScheduleExecutionOutcome;
+  commandId: string | null;
+  commandState: CommandState | null;
+  correlationId: string | null;
+  wakeVerification: unknown;
+  error: string | null;
+  completedAt: string | Date | null;
+};
+
+export interface RecordScheduleExecutionInput {
+  scheduleId: string;
+  hostFqn: string;
+  action: ScheduleAction;
+  attemptedAt: string;
+  outcome: ScheduleExecutionOutcome;
+  commandId?: string | null;
+  commandState?: CommandState | null;
+  correlationId?: string | null;
+  error?: string | null;
+}
+
+const SQLITE_CREATE_HOST_SCHEDULE_EXECUTIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_schedule_executions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    schedule_id TEXT NOT NULL,
+    host_fqn TEXT NOT NULL,
+    action TEXT NOT NULL CHECK(action IN ('wake', 'sleep', 'shutdown')),
+    attempted_at DATETIME NOT NULL,
+    outcome TEXT NOT NULL CHECK(outcome IN ('pending', 'succeeded', 'failed')),
+    command_id TEXT,
+    command_state TEXT,
+    correlation_id TEXT,
+    wake_verification TEXT,
+    error TEXT,
+    completed_at DATETIME
+  )
+`;
+
+const POSTGRES_CREATE_HOST_SCHEDULE_EXECUTIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_schedule_executions (
+    id BIGSERIAL PRIMARY KEY,
+    schedule_id VARCHAR(255) NOT NULL,
+    host_fqn VARCHAR(512) NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('wake', 'sleep', 'shutdown')),
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('pending', 'succeeded', 'failed')),
+    command_id VARCHAR(255),
+    command_state VARCHAR(20),
+    correlation_id VARCHAR(255),
+    wake_verification JSONB,
+    error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE
+  )
+`;
+
+const SELECT_COLUMNS = `
+  id,
+  schedule_id as "scheduleId",
+  host_fqn as "hostFqn",
+  action,
+  attempted_at as "attemptedAt",
+  outcome,
+  command_id as "commandId",
+  command_state as "commandState",
+  correlation_id as "correlationId",
+  wake_verification as "wakeVerification",
+  error,
+  completed_at as "completedAt"
+`;
+
+function normalizeIsoDate(value: string | Date): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function parseWakeVerification(value: unknown): WakeVerificationResult | null {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as WakeVerificationResult;
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as WakeVerificationResult;
+    }
+  } catch (error) {
+    logger.warn('Failed to parse schedule execution wake verification JSON', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return null;
+}
+
+function mapRow(row: HostScheduleExecutionRow): ScheduleExecution {
+  return {
+    id: typeof row.id === 'string' ? Number.parseInt(row.id, 10) : row.id,
+    scheduleId: row.scheduleId,
+    hostFqn: row.hostFqn,
+    action: row.action,
+    attemptedAt: normalizeIsoDate(row.attemptedAt),
+    outcome: row.outcome,
+    commandId: row.commandId,
+    commandState: row.commandState,
+    correlationId: row.correlationId,
+    wakeVerification: parseWakeVerification(row.wakeVerification),
+    error: row.error,
+    completedAt: row.completedAt === null ? null : normalizeIsoDate(row.completedAt),
+  };
+}
+
+export class HostScheduleExecutionModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await db.query(
+      db.isSqlite
+        ? SQLITE_CREATE_HOST_SCHEDULE_EXECUTIONS_TABLE
+        : POSTGRES_CREATE_HOST_SCHEDULE_EXECUTIONS_TABLE
+    );
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_host_schedule_executions_schedule ON host_schedule_executions(schedule_id, attempted_at)'
+    );
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_host_schedule_executions_command ON host_schedule_executions(command_id)'
+    );
+  }
+
+  static async record(input: RecordScheduleExecutionInput): Promise<ScheduleExecution> {
+    await this.ensureTable();
+
+    const completedAt = input.outcome === 'pending' ? null : new Date().toISOString();
+    const result = await db.query<HostScheduleExecutionRow>(
+      `INSERT INTO host_schedule_executions
+        (schedule_id, host_fqn, action, attempted_at, outcome, command_id, command_state, correlation_id, error, completed_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        input.scheduleId,
+        input.hostFqn,
+        input.action,
+        input.attemptedAt,
+        input.outcome,
+        input.commandId ?? null,
+        input.commandState ?? null,
+        input.correlationId ?? null,
+        input.error ?? null,
+        completedAt,
+      ],
+    );
+
+    return mapRow(result.rows[0]);
+  }
+
+  /**
+   * Resolves the pending execution for `commandId` with its wake verification
+   * result. Returns null when no execution is waiting on that command.
+   */
+  static async completeWakeVerification(
+    commandId: string,
+    wakeVerification: WakeVerificationResult,
+  ): Promise<ScheduleExecution | null> {
+    await this.ensureTable();
+
+    const confirmed = wakeVerification.status === 'confirmed';
+    const result = await db.query<HostScheduleExecutionRow>(
+      `UPDATE host_schedule_executions
+       SET outcome = $2,
+           wake_verification = ${db.isSqlite ? '$3' : '$3::jsonb'},
+           error = $4,
+           completed_at = $5
+       WHERE command_id = $1 AND outcome = 'pending'
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        commandId,
+        confirmed ? 'succeeded' : 'failed',
+        JSON.stringify(wakeVerification),
+        confirmed ? null : `Wake verification ${wakeVerification.status}`,
+        new Date().toISOString(),
+      ],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  static async listBySchedule(scheduleId: string, limit = 50): Promise<ScheduleExecution[]> {
+    await this.ensureTable();
+
+    const normalizedLimit = Math.max(1, Math.min(limit, 500));
+    const result = await db.query<HostScheduleExecutionRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM host_schedule_executions
+       WHERE schedule_id = $1
+       ORDER BY attempted_at DESC, id DESC
+       LIMIT $2`,
+      [scheduleId, normalizedLimit],
+    );
+
+    return result.rows.map(mapRow);
+  }
+
+  static async deleteBySchedule(scheduleId: string): Promise<number> {
+    await this.ensureTable();
+
+    const result = await db.query('DELETE FROM host_schedule_executions WHERE schedule_id = $1', [
+      scheduleId,
+    ]);
+    return result.rowCount;
+  }
+}
+
+export default HostScheduleExecutionModel;
@@ -0,0 +1,152 @@
+import db from '../database/connection';
+
+type HostWakeDependencyRow = {
+  hostFqn: string;
+  dependsOnFqn: string;
+};
+
+const SQLITE_CREATE_HOST_WAKE_DEPENDENCIES_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_wake_dependencies (
+    host_fqn TEXT NOT NULL,
+    depends_on_fqn TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (host_fqn, depends_on_fqn),
+    CHECK (host_fqn <> depends_on_fqn)
+  )
+`;
+
+const POSTGRES_CREATE_HOST_WAKE_DEPENDENCIES_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_wake_dependencies (
+    host_fqn VARCHAR(512) NOT NULL,
+    depends_on_fqn VARCHAR(512) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (host_fqn, depends_on_fqn),
+    CHECK (host_fqn <> depends_on_fqn)
+  )
+`;
+
+export class HostWakeDependencyModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await db.query(
+      db.isSqlite
+        ? SQLITE_CREATE_HOST_WAKE_DEPENDENCIES_TABLE
+        : POSTGRES_CREATE_HOST_WAKE_DEPENDENCIES_TABLE
+    );
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_host_wake_dependencies_depends_on ON host_wake_dependencies(depends_on_fqn)'
+    );
+  }
+
+  static async listDependsOn(hostFqn: string): Promise<string[]> {
+    await this.ensureTable();
+
+    const result = await db.query<HostWakeDependencyRow>(
+      `SELECT host_fqn as "hostFqn", depends_on_fqn as "dependsOnFqn"
+       FROM host_wake_dependencies
+       WHERE host_fqn = $1
+       ORDER BY position ASC, depends_on_fqn ASC`,
+      [hostFqn],
+    );
+
+    return result.rows.map((row) => row.dependsOnFqn);
+  }
+
+  static async replaceForHost(hostFqn: string, dependsOn: string[]): Promise<string[]> {
+    await this.ensureTable();
+
+    await db.query('DELETE FROM host_wake_dependencies WHERE host_fqn = $1', [hostFqn]);
+    for (const [position, dependsOnFqn] of dependsOn.entries()) {
+      await db.query(
+        `INSERT INTO host_wake_dependencies (host_fqn, depends_on_fqn, position)
+         VALUES ($1, $2, $3)`,
+        [hostFqn, dependsOnFqn, position],
+      );
+    }
+
+    return this.listDependsOn(hostFqn);
+  }
+
+  /**
+   * Drops every dependency edge that touches the given hosts, on either side,
+   * so removed hosts neither keep prerequisites nor linger as one.
+   */
+  static async deleteForHosts(hostFqns: string[]): Promise<void> {
+    if (hostFqns.length === 0) {
+      return;
+    }
+
+    await this.ensureTable();
+
+    for (const hostFqn of hostFqns) {
+      await db.query(
+        'DELETE FROM host_wake_dependencies WHERE host_fqn = $1 OR depends_on_fqn = $1',
+        [hostFqn],
+      );
+    }
+  }
+
+  /**
+   * Returns the cycle (as an FQN path that starts and ends at `hostFqn`) that
+   * replacing `hostFqn`'s prerequisites with `dependsOn` would introduce, or
+   * null when the resulting graph stays acyclic.
+   */
+  static async findCycle(hostFqn: string, dependsOn: string[]): Promise<string[] | null> {
+    await this.ensureTable();
+
+    const result = await db.query<HostWakeDependencyRow>(
+      `SELECT host_fqn as "hostFqn", depends_on_fqn as "dependsOnFqn"
+       FROM host_wake_dependencies
+       WHERE host_fqn <> $1`,
+      [hostFqn],
+    );
+
+    const edges = new Map<string, string[]>();
+    for (const row of result.rows) {
+      const existing = edges.get(row.hostFqn);
+      if (existing) {
+        existing.push(row.dependsOnFqn);
+      } else {
+        edges.set(row.hostFqn, [row.dependsOnFqn]);
+      }
+    }
+    edges.set(hostFqn, dependsOn);
+
+    const visited = new Set<string>();
+    const path: string[] = [hostFqn];
+    const visit = (current: string): boolean => {
+      for (const next of edges.get(current) ?? []) {
+        path.push(next);
+        if (next === hostFqn) {
+          return true;
+        }
+        if (!visited.has(next)) {
+          visited.add(next);
+          if (visit(next)) {
+            return true;
+          }
+        }
+        path.pop();
+      }
+      return false;
+    };
+
+    return visit(hostFqn) ? path : null;
+  }
+}
+
+export default HostWakeDependencyModel;
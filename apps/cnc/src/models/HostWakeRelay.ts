@@ -0,0 +1,101 @@
+import db from '../database/connection';
+import type { HostWakeRelay } from '../types';
+
+type HostWakeRelayRow = {
+  fqn: string;
+  relayNodeId: string;
+  targetAddress: string;
+  updatedAt: string | Date;
+};
+
+const SQLITE_CREATE_HOST_WAKE_RELAYS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_wake_relays (
+    host_fqn TEXT PRIMARY KEY,
+    relay_node_id TEXT NOT NULL,
+    target_address TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const POSTGRES_CREATE_HOST_WAKE_RELAYS_TABLE = `
+  CREATE TABLE IF NOT EXISTS host_wake_relays (
+    host_fqn VARCHAR(512) PRIMARY KEY,
+    relay_node_id VARCHAR(255) NOT NULL,
+    target_address VARCHAR(15) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )
+`;
+
+function toHostWakeRelay(row: HostWakeRelayRow): HostWakeRelay {
+  return {
+    fqn: row.fqn,
+    relayNodeId: row.relayNodeId,
+    targetAddress: row.targetAddress,
+    updatedAt: new Date(row.updatedAt).toISOString(),
+  };
+}
+
+export class HostWakeRelayModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await db.query(
+      db.isSqlite ? SQLITE_CREATE_HOST_WAKE_RELAYS_TABLE : POSTGRES_CREATE_HOST_WAKE_RELAYS_TABLE
+    );
+  }
+
+  static async findByHost(hostFqn: string): Promise<HostWakeRelay | null> {
+    await this.ensureTable();
+
+    const result = await db.query<HostWakeRelayRow>(
+      `SELECT host_fqn as "fqn", relay_node_id as "relayNodeId",
+              target_address as "targetAddress", updated_at as "updatedAt"
+       FROM host_wake_relays
+       WHERE host_fqn = $1`,
+      [hostFqn],
+    );
+
+    const row = result.rows[0];
+    return row ? toHostWakeRelay(row) : null;
+  }
+
+  static async upsert(hostFqn: string, relayNodeId: string, targetAddress: string): Promise<HostWakeRelay> {
+    await this.ensureTable();
+
+    // Timestamps are written as ISO strings so SQLite rows parse as UTC.
+    const updatedAt = new Date().toISOString();
+    await db.query(
+      `INSERT INTO host_wake_relays (host_fqn, relay_node_id, target_address, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $4)
+       ON CONFLICT (host_fqn) DO UPDATE SET
+         relay_node_id = excluded.relay_node_id,
+         target_address = excluded.target_address,
+         updated_at = excluded.updated_at`,
+      [hostFqn, relayNodeId, targetAddress, updatedAt],
+    );
+
+    return { fqn: hostFqn, relayNodeId, targetAddress, updatedAt };
+  }
+
+  static async delete(hostFqn: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await db.query('DELETE FROM host_wake_relays WHERE host_fqn = $1', [hostFqn]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export default HostWakeRelayModel;
@@ -0,0 +1,89 @@
+import db from '../database/connection';
+import UserModel from './User';
+
+const SQLITE_CREATE_OIDC_IDENTITIES_TABLE = `
+  CREATE TABLE IF NOT EXISTS oidc_identities (
+    issuer TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (issuer, subject),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`;
+
+const POSTGRES_CREATE_OIDC_IDENTITIES_TABLE = `
+  CREATE TABLE IF NOT EXISTS oidc_identities (
+    issuer TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (issuer, subject)
+  )
+`;
+
+const CREATE_INDEX_STATEMENTS = ['CREATE INDEX IF NOT EXISTS idx_oidc_identities_user_id ON oidc_identities(user_id)'];
+
+/**
+ * Links identity provider subjects (`iss` + `sub`) to user accounts. Deleting
+ * the user account removes its links.
+ */
+export class OidcIdentityModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await UserModel.ensureTable();
+    await db.query(db.isSqlite ? SQLITE_CREATE_OIDC_IDENTITIES_TABLE : POSTGRES_CREATE_OIDC_IDENTITIES_TABLE);
+    for (const statement of CREATE_INDEX_STATEMENTS) {
+      await db.query(statement);
+    }
+  }
+
+  static async findUserId(issuer: string, subject: string): Promise<string | null> {
+    await this.ensureTable();
+
+    const result = await db.query<{ userId: string }>(
+      `SELECT user_id as "userId"
+       FROM oidc_identities
+       WHERE issuer = $1 AND subject = $2`,
+      [issuer, subject],
+    );
+
+    return result.rows[0]?.userId ?? null;
+  }
+
+  /**
+   * Links the subject to the user unless it is already linked, and returns the
+   * user id the subject ends up linked to.
+   */
+  static async link(issuer: string, subject: string, userId: string): Promise<string> {
+    await this.ensureTable();
+
+    await db.query(
+      `INSERT INTO oidc_identities (issuer, subject, user_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (issuer, subject) DO NOTHING`,
+      [issuer, subject, userId],
+    );
+
+    const linkedUserId = await this.findUserId(issuer, subject);
+    if (!linkedUserId) {
+      throw new Error(`Failed to link OIDC subject ${subject}`);
+    }
+
+    return linkedUserId;
+  }
+}
+
+export default OidcIdentityModel;
@@ -0,0 +1,130 @@
+import db from '../database/connection';
+
+type PluginStorageRow = {
+  key: string;
+  value: unknown;
+};
+
+const SQLITE_CREATE_PLUGIN_STORAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS plugin_storage (
+    plugin_name TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (plugin_name, key)
+  )
+`;
+
+const POSTGRES_CREATE_PLUGIN_STORAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS plugin_storage (
+    plugin_name VARCHAR(128) NOT NULL,
+    key VARCHAR(255) NOT NULL,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (plugin_name, key)
+  )
+`;
+
+export const PLUGIN_STORAGE_KEY_MAX_LENGTH = 255;
+/** Serialized size limit per value; plugins needing more should use their own store. */
+export const PLUGIN_STORAGE_VALUE_MAX_BYTES = 64 * 1024;
+
+export class PluginStorageModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await db.query(db.isSqlite ? SQLITE_CREATE_PLUGIN_STORAGE_TABLE : POSTGRES_CREATE_PLUGIN_STORAGE_TABLE);
+  }
+
+  private static assertKey(key: string): void {
+    if (key.length === 0 || key.length > PLUGIN_STORAGE_KEY_MAX_LENGTH) {
+      throw new Error(`Plugin storage keys must be 1-${PLUGIN_STORAGE_KEY_MAX_LENGTH} characters`);
+    }
+  }
+
+  private static parseValue(raw: unknown): unknown {
+    if (typeof raw !== 'string') {
+      return raw;
+    }
+
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      return null;
+    }
+  }
+
+  static async get(pluginName: string, key: string): Promise<unknown> {
+    await this.ensureTable();
+    this.assertKey(key);
+
+    const result = await db.query<PluginStorageRow>(
+      'SELECT key, value FROM plugin_storage WHERE plugin_name = $1 AND key = $2',
+      [pluginName, key],
+    );
+
+    const row = result.rows[0];
+    return row ? this.parseValue(row.value) : null;
+  }
+
+  static async set(pluginName: string, key: string, value: unknown): Promise<void> {
+    await this.ensureTable();
+    this.assertKey(key);
+
+    const serialized = JSON.stringify(value);
+    if (serialized === undefined) {
+      throw new Error('Plugin storage values must be JSON serializable');
+    }
+    if (Buffer.byteLength(serialized, 'utf8') > PLUGIN_STORAGE_VALUE_MAX_BYTES) {
+      throw new Error(`Plugin storage values must be at most ${PLUGIN_STORAGE_VALUE_MAX_BYTES} bytes`);
+    }
+
+    await db.query(
+      db.isSqlite
+        ? `INSERT INTO plugin_storage (plugin_name, key, value)
+           VALUES ($1, $2, $3)
+           ON CONFLICT(plugin_name, key) DO UPDATE SET
+             value = excluded.value,
+             updated_at = CURRENT_TIMESTAMP`
+        : `INSERT INTO plugin_storage (plugin_name, key, value)
+           VALUES ($1, $2, $3::jsonb)
+           ON CONFLICT(plugin_name, key) DO UPDATE SET
+             value = EXCLUDED.value,
+             updated_at = NOW()`,
+      [pluginName, key, serialized],
+    );
+  }
+
+  static async delete(pluginName: string, key: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await db.query('DELETE FROM plugin_storage WHERE plugin_name = $1 AND key = $2', [
+      pluginName,
+      key,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async keys(pluginName: string): Promise<string[]> {
+    await this.ensureTable();
+
+    const result = await db.query<{ key: string }>(
+      'SELECT key FROM plugin_storage WHERE plugin_name = $1 ORDER BY key ASC',
+      [pluginName],
+    );
+    return result.rows.map((row) => row.key);
+  }
+}
+
+export default PluginStorageModel;
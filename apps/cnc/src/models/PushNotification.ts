@@ -1,14 +1,22 @@
 import { randomUUID } from 'crypto';
 import {
+  apnsEnvironmentSchema,
   notificationPreferencesSchema,
+  notificationRuleSchema,
   PUSH_NOTIFICATION_EVENT_TYPES,
+  PUSH_NOTIFICATION_PLATFORMS,
   pushNotificationEventTypeSchema,
   pushNotificationPlatformSchema,
+  webPushSubscriptionKeysSchema,
+  type WebPushSubscriptionKeys,
 } from '@kaonis/woly-protocol';
 import db from '../database/connection';
+import HostGroupModel from './HostGroup';
 import type {
+  ApnsEnvironment,
   DeviceRegistration,
   NotificationPreferences,
+  NotificationRule,
   PushNotificationEventType,
   PushNotificationPlatform,
 } from '../types';
@@ -18,6 +26,8 @@ type PushDeviceRow = {
   userId: string;
   platform: string;
   token: string;
+  apnsEnvironment: string | null;
+  webPushKeys?: unknown;
   createdAt: string | Date;
   updatedAt: string | Date;
   lastSeenAt: string | Date;
@@ -28,6 +38,21 @@ type NotificationPreferenceRow = {
   enabled: boolean | number;
   events: unknown;
   quietHours: unknown;
+  rules?: unknown;
+};
+
+/** What notification rules can match a host on. */
+export type NotificationHostScope = {
+  hostFqn: string | null;
+  nodeId: string | null;
+  tags: string[];
+  groupIds: string[];
+};
+
+/** Hosts whose most recent status transition was to asleep. */
+export type AsleepHost = {
+  hostFqn: string;
+  asleepSince: string;
 };
 
 export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
@@ -36,12 +61,21 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   quietHours: null,
 };
 
+/** A registration plus the delivery details that are never returned by the API. */
+export type StoredPushDevice = DeviceRegistration & {
+  webPushKeys?: WebPushSubscriptionKeys;
+};
+
+const PLATFORM_SQL_LIST = PUSH_NOTIFICATION_PLATFORMS.map((platform) => `'${platform}'`).join(', ');
+
 const SQLITE_CREATE_PUSH_DEVICES_TABLE = `
   CREATE TABLE IF NOT EXISTS push_devices (
     id TEXT PRIMARY KEY,
     user_id TEXT NOT NULL,
-    platform TEXT NOT NULL CHECK(platform IN ('ios', 'android')),
+    platform TEXT NOT NULL CHECK(platform IN (${PLATFORM_SQL_LIST})),
     token TEXT NOT NULL UNIQUE,
+    apns_environment TEXT CHECK(apns_environment IN ('production', 'sandbox')),
+    web_push_keys TEXT,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
@@ -52,20 +86,72 @@ const POSTGRES_CREATE_PUSH_DEVICES_TABLE = `
   CREATE TABLE IF NOT EXISTS push_devices (
     id VARCHAR(255) PRIMARY KEY,
     user_id VARCHAR(255) NOT NULL,
-    platform VARCHAR(20) NOT NULL CHECK (platform IN ('ios', 'android')),
+    platform VARCHAR(20) NOT NULL CHECK (platform IN (${PLATFORM_SQL_LIST})),
     token TEXT NOT NULL UNIQUE,
+    apns_environment VARCHAR(16) CHECK (apns_environment IN ('production', 'sandbox')),
+    web_push_keys JSONB,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
     last_seen_at TIMESTAMP NOT NULL DEFAULT NOW()
   )
 `;
 
+// Columns added after push devices first shipped; applied to existing tables on startup.
+const SQLITE_ADDED_COLUMNS: Array<{ table: string; column: string; statement: string }> = [
+  {
+    table: 'push_devices',
+    column: 'apns_environment',
+    statement:
+      "ALTER TABLE push_devices ADD COLUMN apns_environment TEXT CHECK(apns_environment IN ('production', 'sandbox'))",
+  },
+  {
+    table: 'push_devices',
+    column: 'web_push_keys',
+    statement: 'ALTER TABLE push_devices ADD COLUMN web_push_keys TEXT',
+  },
+  {
+    table: 'notification_preferences',
+    column: 'rules',
+    statement: 'ALTER TABLE notification_preferences ADD COLUMN rules TEXT',
+  },
+];
+
+const POSTGRES_COMPATIBILITY_STATEMENTS = [
+  `ALTER TABLE push_devices ADD COLUMN IF NOT EXISTS apns_environment VARCHAR(16)
+     CHECK (apns_environment IN ('production', 'sandbox'))`,
+  'ALTER TABLE push_devices ADD COLUMN IF NOT EXISTS web_push_keys JSONB',
+  'ALTER TABLE push_devices DROP CONSTRAINT IF EXISTS push_devices_platform_check',
+  `ALTER TABLE push_devices ADD CONSTRAINT push_devices_platform_check
+     CHECK (platform IN (${PLATFORM_SQL_LIST}))`,
+  'ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS rules JSONB',
+];
+
+const PUSH_DEVICE_COLUMNS = `
+  id,
+  user_id as "userId",
+  platform,
+  token,
+  apns_environment as "apnsEnvironment",
+  created_at as "createdAt",
+  updated_at as "updatedAt",
+  last_seen_at as "lastSeenAt"
+`;
+
+const NOTIFICATION_PREFERENCE_COLUMNS = `
+  user_id as "userId",
+  enabled,
+  events,
+  quiet_hours as "quietHours",
+  rules
+`;
+
 const SQLITE_CREATE_NOTIFICATION_PREFERENCES_TABLE = `
   CREATE TABLE IF NOT EXISTS notification_preferences (
     user_id TEXT PRIMARY KEY,
     enabled INTEGER NOT NULL DEFAULT 1,
     events TEXT NOT NULL,
     quiet_hours TEXT,
+    rules TEXT,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
   )
@@ -77,6 +163,7 @@ const POSTGRES_CREATE_NOTIFICATION_PREFERENCES_TABLE = `
     enabled BOOLEAN NOT NULL DEFAULT TRUE,
     events JSONB NOT NULL,
     quiet_hours JSONB,
+    rules JSONB,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
   )
@@ -86,6 +173,10 @@ export type UpsertPushDeviceInput = {
   userId: string;
   platform: PushNotificationPlatform;
   token: string;
+  /** Ignored for other platforms than iOS. */
+  apnsEnvironment?: ApnsEnvironment;
+  /** Web Push only. */
+  webPushKeys?: WebPushSubscriptionKeys;
 };
 
 export class PushNotificationModel {
@@ -108,11 +199,48 @@ export class PushNotificationModel {
     await db.query(
       isSqlite ? SQLITE_CREATE_NOTIFICATION_PREFERENCES_TABLE : POSTGRES_CREATE_NOTIFICATION_PREFERENCES_TABLE
     );
+    if (isSqlite) {
+      await this.applySqliteCompatibilityMigrations();
+    } else {
+      for (const statement of POSTGRES_COMPATIBILITY_STATEMENTS) {
+        await db.query(statement);
+      }
+    }
 
     await db.query('CREATE INDEX IF NOT EXISTS idx_push_devices_user_id ON push_devices(user_id)');
     await db.query('CREATE INDEX IF NOT EXISTS idx_push_devices_platform ON push_devices(platform)');
   }
 
+  private static async applySqliteCompatibilityMigrations(): Promise<void> {
+    for (const migration of SQLITE_ADDED_COLUMNS) {
+      const columns = await db.query<{ name: string }>(
+        `SELECT name FROM pragma_table_info('${migration.table}') WHERE name = $1`,
+        [migration.column],
+      );
+      if (columns.rows.length === 0) {
+        await db.query(migration.statement);
+      }
+    }
+
+    // SQLite cannot alter a CHECK constraint, so tables created before the
+    // current platform list are rebuilt with the new definition.
+    const table = await db.query<{ sql: string }>(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'push_devices'",
+    );
+    const tableSql = table.rows[0]?.sql ?? '';
+    if (PUSH_NOTIFICATION_PLATFORMS.every((platform) => tableSql.includes(`'${platform}'`))) {
+      return;
+    }
+
+    const columnList = (
+      await db.query<{ name: string }>("SELECT name FROM pragma_table_info('push_devices')")
+    ).rows.map((row) => row.name).join(', ');
+    await db.query('ALTER TABLE push_devices RENAME TO push_devices_legacy');
+    await db.query(SQLITE_CREATE_PUSH_DEVICES_TABLE);
+    await db.query(`INSERT INTO push_devices (${columnList}) SELECT ${columnList} FROM push_devices_legacy`);
+    await db.query('DROP TABLE push_devices_legacy');
+  }
+
   private static toIsoDate(value: string | Date): string {
     const parsed = value instanceof Date ? value : new Date(value);
     if (Number.isNaN(parsed.getTime())) {
@@ -121,7 +249,7 @@ export class PushNotificationModel {
     return parsed.toISOString();
   }
 
-  private static parseEvents(raw: unknown): PushNotificationEventType[] {
+  private static parseEvents(raw: unknown, allowEmpty = false): PushNotificationEventType[] {
     let values: unknown[] = [];
 
     if (Array.isArray(raw)) {
@@ -142,7 +270,30 @@ export class PushNotificationModel {
       .filter((result): result is { success: true; data: PushNotificationEventType } => result.success)
       .map((result) => result.data);
 
-    return events.length > 0 ? Array.from(new Set(events)) : [...DEFAULT_NOTIFICATION_PREFERENCES.events];
+    if (events.length === 0 && !(allowEmpty && values.length === 0)) {
+      return [...DEFAULT_NOTIFICATION_PREFERENCES.events];
+    }
+    return Array.from(new Set(events));
+  }
+
+  private static parseRules(raw: unknown): NotificationRule[] {
+    let candidate = raw;
+    if (typeof raw === 'string') {
+      try {
+        candidate = JSON.parse(raw) as unknown;
+      } catch {
+        return [];
+      }
+    }
+
+    if (!Array.isArray(candidate)) {
+      return [];
+    }
+
+    return candidate
+      .map((rule) => notificationRuleSchema.safeParse(rule))
+      .filter((result) => result.success)
+      .map((result) => result.data as NotificationRule);
   }
 
   private static parseQuietHours(raw: unknown): NotificationPreferences['quietHours'] {
@@ -176,25 +327,65 @@ export class PushNotificationModel {
   }
 
   private static mapDeviceRow(row: PushDeviceRow): DeviceRegistration {
+    const platform = pushNotificationPlatformSchema.parse(row.platform);
+    // iOS devices registered before the column existed were all production.
+    const apnsEnvironment =
+      platform === 'ios' ? (apnsEnvironmentSchema.safeParse(row.apnsEnvironment).data ?? 'production') : undefined;
+
     return {
       id: row.id,
       userId: row.userId,
-      platform: pushNotificationPlatformSchema.parse(row.platform),
+      platform,
       token: row.token,
+      ...(apnsEnvironment ? { apnsEnvironment } : {}),
       createdAt: this.toIsoDate(row.createdAt),
       updatedAt: this.toIsoDate(row.updatedAt),
       lastSeenAt: this.toIsoDate(row.lastSeenAt),
     };
   }
 
+  private static parseWebPushKeys(raw: unknown): WebPushSubscriptionKeys | undefined {
+    let candidate = raw;
+    if (typeof raw === 'string') {
+      try {
+        candidate = JSON.parse(raw) as unknown;
+      } catch {
+        return undefined;
+      }
+    }
+
+    return webPushSubscriptionKeysSchema.safeParse(candidate).data;
+  }
+
+  private static mapStoredDeviceRow(row: PushDeviceRow): StoredPushDevice {
+    const webPushKeys = this.parseWebPushKeys(row.webPushKeys);
+    return { ...this.mapDeviceRow(row), ...(webPushKeys ? { webPushKeys } : {}) };
+  }
+
   private static mapPreferenceRow(row: NotificationPreferenceRow): NotificationPreferences {
+    const rules = this.parseRules(row.rules);
     return {
       enabled: row.enabled === true || row.enabled === 1,
-      events: this.parseEvents(row.events),
+      // An empty event list is only meaningful next to rules.
+      events: this.parseEvents(row.events, rules.length > 0),
       quietHours: this.parseQuietHours(row.quietHours),
+      ...(rules.length > 0 ? { rules } : {}),
     };
   }
 
+  private static parseTags(raw: unknown): string[] {
+    let candidate = raw;
+    if (typeof raw === 'string') {
+      try {
+        candidate = JSON.parse(raw) as unknown;
+      } catch {
+        return [];
+      }
+    }
+
+    return Array.isArray(candidate) ? candidate.filter((tag): tag is string => typeof tag === 'string') : [];
+  }
+
   static async upsertDevice(input: UpsertPushDeviceInput): Promise<DeviceRegistration> {
     await this.ensureTables();
 
@@ -203,37 +394,34 @@ export class PushNotificationModel {
 
     const result = await db.query<PushDeviceRow>(
       isSqlite
-        ? `INSERT INTO push_devices (id, user_id, platform, token)
-           VALUES ($1, $2, $3, $4)
+        ? `INSERT INTO push_devices (id, user_id, platform, token, apns_environment, web_push_keys)
+           VALUES ($1, $2, $3, $4, $5, $6)
            ON CONFLICT(token) DO UPDATE SET
              user_id = excluded.user_id,
              platform = excluded.platform,
+             apns_environment = excluded.apns_environment,
+             web_push_keys = excluded.web_push_keys,
              updated_at = CURRENT_TIMESTAMP,
              last_seen_at = CURRENT_TIMESTAMP
-           RETURNING
-             id,
-             user_id as "userId",
-             platform,
-             token,
-             created_at as "createdAt",
-             updated_at as "updatedAt",
-             last_seen_at as "lastSeenAt"`
-        : `INSERT INTO push_devices (id, user_id, platform, token)
-           VALUES ($1, $2, $3, $4)
+           RETURNING ${PUSH_DEVICE_COLUMNS}`
+        : `INSERT INTO push_devices (id, user_id, platform, token, apns_environment, web_push_keys)
+           VALUES ($1, $2, $3, $4, $5, $6::jsonb)
            ON CONFLICT(token) DO UPDATE SET
              user_id = EXCLUDED.user_id,
              platform = EXCLUDED.platform,
+             apns_environment = EXCLUDED.apns_environment,
+             web_push_keys = EXCLUDED.web_push_keys,
              updated_at = NOW(),
              last_seen_at = NOW()
-           RETURNING
-             id,
-             user_id as "userId",
-             platform,
-             token,
-             created_at as "createdAt",
-             updated_at as "updatedAt",
-             last_seen_at as "lastSeenAt"`,
-      [id, input.userId, input.platform, input.token],
+           RETURNING ${PUSH_DEVICE_COLUMNS}`,
+      [
+        id,
+        input.userId,
+        input.platform,
+        input.token,
+        input.platform === 'ios' ? (input.apnsEnvironment ?? 'production') : null,
+        input.platform === 'web' && input.webPushKeys ? JSON.stringify(input.webPushKeys) : null,
+      ],
     );
 
     return this.mapDeviceRow(result.rows[0]);
@@ -243,14 +431,7 @@ export class PushNotificationModel {
     await this.ensureTables();
 
     const result = await db.query<PushDeviceRow>(
-      `SELECT
-         id,
-         user_id as "userId",
-         platform,
-         token,
-         created_at as "createdAt",
-         updated_at as "updatedAt",
-         last_seen_at as "lastSeenAt"
+      `SELECT ${PUSH_DEVICE_COLUMNS}
        FROM push_devices
        WHERE user_id = $1
        ORDER BY updated_at DESC`,
@@ -260,23 +441,17 @@ export class PushNotificationModel {
     return result.rows.map((row) => this.mapDeviceRow(row));
   }
 
-  static async listAllDevices(): Promise<DeviceRegistration[]> {
+  /** All registrations with their delivery details, for dispatch. */
+  static async listAllDevices(): Promise<StoredPushDevice[]> {
     await this.ensureTables();
 
     const result = await db.query<PushDeviceRow>(
-      `SELECT
-         id,
-         user_id as "userId",
-         platform,
-         token,
-         created_at as "createdAt",
-         updated_at as "updatedAt",
-         last_seen_at as "lastSeenAt"
+      `SELECT ${PUSH_DEVICE_COLUMNS}, web_push_keys as "webPushKeys"
        FROM push_devices
        ORDER BY updated_at DESC`,
     );
 
-    return result.rows.map((row) => this.mapDeviceRow(row));
+    return result.rows.map((row) => this.mapStoredDeviceRow(row));
   }
 
   static async deleteDevice(userId: string, token: string): Promise<boolean> {
@@ -300,11 +475,7 @@ export class PushNotificationModel {
     await this.ensureTables();
 
     const result = await db.query<NotificationPreferenceRow>(
-      `SELECT
-         user_id as "userId",
-         enabled,
-         events,
-         quiet_hours as "quietHours"
+      `SELECT ${NOTIFICATION_PREFERENCE_COLUMNS}
        FROM notification_preferences
        WHERE user_id = $1`,
       [userId],
@@ -328,11 +499,7 @@ export class PushNotificationModel {
 
     const placeholders = uniqueUserIds.map((_, index) => `$${index + 1}`).join(', ');
     const result = await db.query<NotificationPreferenceRow>(
-      `SELECT
-         user_id as "userId",
-         enabled,
-         events,
-         quiet_hours as "quietHours"
+      `SELECT ${NOTIFICATION_PREFERENCE_COLUMNS}
        FROM notification_preferences
        WHERE user_id IN (${placeholders})`,
       uniqueUserIds,
@@ -354,29 +521,73 @@ export class PushNotificationModel {
 
     const eventsJson = JSON.stringify(sanitized.events);
     const quietHoursJson = sanitized.quietHours ? JSON.stringify(sanitized.quietHours) : null;
+    const rulesJson = sanitized.rules && sanitized.rules.length > 0 ? JSON.stringify(sanitized.rules) : null;
     const enabledValue = isSqlite ? (sanitized.enabled ? 1 : 0) : sanitized.enabled;
 
     await db.query(
       isSqlite
-        ? `INSERT INTO notification_preferences (user_id, enabled, events, quiet_hours)
-           VALUES ($1, $2, $3, $4)
+        ? `INSERT INTO notification_preferences (user_id, enabled, events, quiet_hours, rules)
+           VALUES ($1, $2, $3, $4, $5)
            ON CONFLICT(user_id) DO UPDATE SET
              enabled = excluded.enabled,
              events = excluded.events,
              quiet_hours = excluded.quiet_hours,
+             rules = excluded.rules,
              updated_at = CURRENT_TIMESTAMP`
-        : `INSERT INTO notification_preferences (user_id, enabled, events, quiet_hours)
-           VALUES ($1, $2, $3::jsonb, $4::jsonb)
+        : `INSERT INTO notification_preferences (user_id, enabled, events, quiet_hours, rules)
+           VALUES ($1, $2, $3::jsonb, $4::jsonb, $5::jsonb)
            ON CONFLICT(user_id) DO UPDATE SET
              enabled = EXCLUDED.enabled,
              events = EXCLUDED.events,
              quiet_hours = EXCLUDED.quiet_hours,
+             rules = EXCLUDED.rules,
              updated_at = NOW()`,
-      [userId, enabledValue, eventsJson, quietHoursJson],
+      [userId, enabledValue, eventsJson, quietHoursJson, rulesJson],
     );
 
     return this.getPreferences(userId);
   }
+
+  /** Node, tags and groups of an aggregated host; unknown hosts only match host rules. */
+  static async getHostScope(hostFqn: string): Promise<NotificationHostScope> {
+    const hostResult = await db.query<{ nodeId: string; tags: unknown }>(
+      `SELECT node_id as "nodeId", tags
+       FROM aggregated_hosts
+       WHERE fully_qualified_name = $1
+       LIMIT 1`,
+      [hostFqn],
+    );
+    const host = hostResult.rows[0];
+
+    return {
+      hostFqn,
+      nodeId: host?.nodeId ?? null,
+      tags: host ? this.parseTags(host.tags) : [],
+      groupIds: await HostGroupModel.listGroupIdsForHost(hostFqn),
+    };
+  }
+
+  /**
+   * Hosts that went to sleep within `[from, to]` and have not changed status
+   * since, according to `host_status_history`.
+   */
+  static async listHostsAsleepSince(from: string, to: string): Promise<AsleepHost[]> {
+    const result = await db.query<{ hostFqn: string; changedAt: string | Date }>(
+      `SELECT h.host_fqn as "hostFqn", h.changed_at as "changedAt"
+       FROM host_status_history h
+       WHERE h.new_status = 'asleep'
+         AND h.changed_at >= $1
+         AND h.changed_at <= $2
+         AND NOT EXISTS (
+           SELECT 1 FROM host_status_history later
+           WHERE later.host_fqn = h.host_fqn AND later.changed_at > h.changed_at
+         )
+       ORDER BY h.changed_at ASC`,
+      [from, to],
+    );
+
+    return result.rows.map((row) => ({ hostFqn: row.hostFqn, asleepSince: this.toIsoDate(row.changedAt) }));
+  }
 }
 
 export default PushNotificationModel;
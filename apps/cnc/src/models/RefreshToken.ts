@@ -0,0 +1,188 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import config from '../config';
+import db from '../database/connection';
+import UserModel from './User';
+
+type RefreshTokenRow = {
+  id: string;
+  userId: string;
+  familyId: string;
+  expiresAt: string | Date;
+  revokedAt: string | Date | null;
+};
+
+export interface IssuedRefreshToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * `rotated` carries the replacement token. `reused` means an already rotated
+ * or revoked token was presented; its whole family has been revoked.
+ */
+export type RefreshTokenRotation =
+  | ({ status: 'rotated'; userId: string } & IssuedRefreshToken)
+  | { status: 'reused'; userId: string }
+  | { status: 'invalid' };
+
+const SQLITE_CREATE_REFRESH_TOKENS_TABLE = `
+  CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    family_id TEXT NOT NULL,
+    expires_at DATETIME NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    revoked_at DATETIME,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`;
+
+const POSTGRES_CREATE_REFRESH_TOKENS_TABLE = `
+  CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id VARCHAR(64) PRIMARY KEY,
+    user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    family_id VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE
+  )
+`;
+
+const CREATE_INDEX_STATEMENTS = [
+  'CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id)',
+  'CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id)',
+];
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+function toTimestamp(value: string | Date): number {
+  return (value instanceof Date ? value : new Date(value)).getTime();
+}
+
+/**
+ * Opaque refresh tokens for user sessions. Only a SHA-256 of each token is
+ * stored. Every refresh rotates the token within its family (one family per
+ * login); presenting a rotated token again revokes the family.
+ */
+export class RefreshTokenModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await UserModel.ensureTable();
+    await db.query(db.isSqlite ? SQLITE_CREATE_REFRESH_TOKENS_TABLE : POSTGRES_CREATE_REFRESH_TOKENS_TABLE);
+    for (const statement of CREATE_INDEX_STATEMENTS) {
+      await db.query(statement);
+    }
+  }
+
+  static async issue(userId: string, familyId: string = randomUUID()): Promise<IssuedRefreshToken> {
+    await this.ensureTable();
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.refreshTokenTtlSeconds * 1000).toISOString();
+    await db.query(
+      `INSERT INTO refresh_tokens (id, user_id, token_hash, family_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [randomUUID(), userId, hashToken(token), familyId, expiresAt],
+    );
+
+    return { token, expiresAt };
+  }
+
+  static async rotate(token: string): Promise<RefreshTokenRotation> {
+    await this.ensureTable();
+
+    const result = await db.query<RefreshTokenRow>(
+      `SELECT id, user_id as "userId", family_id as "familyId", expires_at as "expiresAt", revoked_at as "revokedAt"
+       FROM refresh_tokens
+       WHERE token_hash = $1`,
+      [hashToken(token)],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return { status: 'invalid' };
+    }
+
+    if (row.revokedAt) {
+      await this.revokeFamily(row.familyId);
+      return { status: 'reused', userId: row.userId };
+    }
+
+    if (toTimestamp(row.expiresAt) <= Date.now()) {
+      return { status: 'invalid' };
+    }
+
+    // Conditional update so two concurrent refreshes cannot both rotate the same token.
+    const claimed = await db.query(
+      `UPDATE refresh_tokens
+       SET revoked_at = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [row.id, new Date().toISOString()],
+    );
+    if (claimed.rowCount === 0) {
+      await this.revokeFamily(row.familyId);
+      return { status: 'reused', userId: row.userId };
+    }
+
+    const issued = await this.issue(row.userId, row.familyId);
+    return { status: 'rotated', userId: row.userId, ...issued };
+  }
+
+  /** Revokes the session (token family) the token belongs to. */
+  static async revoke(token: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await db.query<{ familyId: string }>(
+      `SELECT family_id as "familyId"
+       FROM refresh_tokens
+       WHERE token_hash = $1`,
+      [hashToken(token)],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return false;
+    }
+
+    await this.revokeFamily(row.familyId);
+    return true;
+  }
+
+  /** Revokes every active refresh token of the user and returns how many were revoked. */
+  static async revokeAllForUser(userId: string): Promise<number> {
+    await this.ensureTable();
+
+    const result = await db.query(
+      `UPDATE refresh_tokens
+       SET revoked_at = $2
+       WHERE user_id = $1 AND revoked_at IS NULL`,
+      [userId, new Date().toISOString()],
+    );
+    return result.rowCount;
+  }
+
+  private static async revokeFamily(familyId: string): Promise<void> {
+    await db.query(
+      `UPDATE refresh_tokens
+       SET revoked_at = $2
+       WHERE family_id = $1 AND revoked_at IS NULL`,
+      [familyId, new Date().toISOString()],
+    );
+  }
+}
+
+export default RefreshTokenModel;
@@ -0,0 +1,166 @@
+import db from '../database/connection';
+import type { AclResourceType, ResourceAclEntry, ResourcePermission } from '../types';
+import UserModel from './User';
+
+type ResourceAclRow = {
+  resourceType: AclResourceType;
+  resourceId: string;
+  userId: string;
+  username: string;
+  permission: ResourcePermission;
+  createdAt: string | Date;
+};
+
+const PERMISSION_RANK: Record<ResourcePermission, number> = {
+  view: 1,
+  operate: 2,
+  owner: 3,
+};
+
+/** True when `granted` includes `required` (`owner` > `operate` > `view`). */
+export function permissionSatisfies(granted: ResourcePermission, required: ResourcePermission): boolean {
+  return PERMISSION_RANK[granted] >= PERMISSION_RANK[required];
+}
+
+const SQLITE_CREATE_RESOURCE_ACL_TABLE = `
+  CREATE TABLE IF NOT EXISTS resource_acl (
+    resource_type TEXT NOT NULL CHECK(resource_type IN ('node', 'host')),
+    resource_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    permission TEXT NOT NULL CHECK(permission IN ('view', 'operate', 'owner')),
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (resource_type, resource_id, user_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+  )
+`;
+
+const POSTGRES_CREATE_RESOURCE_ACL_TABLE = `
+  CREATE TABLE IF NOT EXISTS resource_acl (
+    resource_type VARCHAR(16) NOT NULL CHECK (resource_type IN ('node', 'host')),
+    resource_id VARCHAR(512) NOT NULL,
+    user_id VARCHAR(64) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    permission VARCHAR(16) NOT NULL CHECK (permission IN ('view', 'operate', 'owner')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (resource_type, resource_id, user_id)
+  )
+`;
+
+const SELECT_COLUMNS = `
+  acl.resource_type as "resourceType",
+  acl.resource_id as "resourceId",
+  acl.user_id as "userId",
+  users.username as username,
+  acl.permission as permission,
+  acl.created_at as "createdAt"
+`;
+
+function normalizeIsoDate(value: string | Date): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function mapRow(row: ResourceAclRow): ResourceAclEntry {
+  return {
+    resourceType: row.resourceType,
+    resourceId: row.resourceId,
+    userId: row.userId,
+    username: row.username,
+    permission: row.permission,
+    createdAt: normalizeIsoDate(row.createdAt),
+  };
+}
+
+/**
+ * Per-user grants on nodes (by node id) and hosts (by FQN). A node grant
+ * applies to every host reported by that node.
+ */
+export class ResourceAclModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    await UserModel.ensureTable();
+    await db.query(db.isSqlite ? SQLITE_CREATE_RESOURCE_ACL_TABLE : POSTGRES_CREATE_RESOURCE_ACL_TABLE);
+    await db.query('CREATE INDEX IF NOT EXISTS idx_resource_acl_user_id ON resource_acl(user_id)');
+  }
+
+  static async listForResource(resourceType: AclResourceType, resourceId: string): Promise<ResourceAclEntry[]> {
+    await this.ensureTable();
+
+    const result = await db.query<ResourceAclRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM resource_acl acl
+       JOIN users ON users.id = acl.user_id
+       WHERE acl.resource_type = $1 AND acl.resource_id = $2
+       ORDER BY users.username ASC`,
+      [resourceType, resourceId],
+    );
+
+    return result.rows.map(mapRow);
+  }
+
+  static async listForUser(userId: string): Promise<ResourceAclEntry[]> {
+    await this.ensureTable();
+
+    const result = await db.query<ResourceAclRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM resource_acl acl
+       JOIN users ON users.id = acl.user_id
+       WHERE acl.user_id = $1
+       ORDER BY acl.resource_type ASC, acl.resource_id ASC`,
+      [userId],
+    );
+
+    return result.rows.map(mapRow);
+  }
+
+  /** Creates the grant or replaces its permission. */
+  static async grant(
+    resourceType: AclResourceType,
+    resourceId: string,
+    userId: string,
+    permission: ResourcePermission,
+  ): Promise<ResourceAclEntry> {
+    await this.ensureTable();
+
+    await db.query(
+      `INSERT INTO resource_acl (resource_type, resource_id, user_id, permission)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (resource_type, resource_id, user_id) DO UPDATE SET permission = excluded.permission`,
+      [resourceType, resourceId, userId, permission],
+    );
+
+    const result = await db.query<ResourceAclRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM resource_acl acl
+       JOIN users ON users.id = acl.user_id
+       WHERE acl.resource_type = $1 AND acl.resource_id = $2 AND acl.user_id = $3`,
+      [resourceType, resourceId, userId],
+    );
+
+    return mapRow(result.rows[0]);
+  }
+
+  static async revoke(resourceType: AclResourceType, resourceId: string, userId: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await db.query(
+      `DELETE FROM resource_acl
+       WHERE resource_type = $1 AND resource_id = $2 AND user_id = $3`,
+      [resourceType, resourceId, userId],
+    );
+    return result.rowCount > 0;
+  }
+}
+
+export default ResourceAclModel;
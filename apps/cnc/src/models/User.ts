@@ -0,0 +1,210 @@
+import { randomUUID } from 'crypto';
+import db from '../database/connection';
+import type { UserAccount, UserRole } from '../types';
+
+type UserRow = {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  disabled: boolean | number;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export interface UserCredentials {
+  user: UserAccount;
+  passwordHash: string;
+}
+
+export interface CreateUserInput {
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+}
+
+export interface UpdateUserInput {
+  passwordHash?: string;
+  role?: UserRole;
+  disabled?: boolean;
+}
+
+const SQLITE_CREATE_USERS_TABLE = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL CHECK(role IN ('operator', 'admin')),
+    disabled INTEGER NOT NULL DEFAULT 0 CHECK(disabled IN (0, 1)),
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const POSTGRES_CREATE_USERS_TABLE = `
+  CREATE TABLE IF NOT EXISTS users (
+    id VARCHAR(64) PRIMARY KEY,
+    username VARCHAR(64) NOT NULL,
+    password_hash TEXT NOT NULL,
+    role VARCHAR(16) NOT NULL CHECK (role IN ('operator', 'admin')),
+    disabled BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+  )
+`;
+
+const POSTGRES_CREATE_USERS_USERNAME_INDEX =
+  'CREATE UNIQUE INDEX IF NOT EXISTS idx_users_username_lower ON users (LOWER(username))';
+
+const SELECT_COLUMNS = `
+  id,
+  username,
+  password_hash as "passwordHash",
+  role,
+  disabled,
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+function normalizeIsoDate(value: string | Date): string {
+  const parsed = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function mapRow(row: UserRow): UserAccount {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    disabled: row.disabled === true || row.disabled === 1,
+    createdAt: normalizeIsoDate(row.createdAt),
+    updatedAt: normalizeIsoDate(row.updatedAt),
+  };
+}
+
+export class UserModel {
+  private static tableReady: Promise<void> | null = null;
+
+  static async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch((error) => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+
+    await this.tableReady;
+  }
+
+  private static async createTable(): Promise<void> {
+    if (db.isSqlite) {
+      await db.query(SQLITE_CREATE_USERS_TABLE);
+      return;
+    }
+
+    await db.query(POSTGRES_CREATE_USERS_TABLE);
+    await db.query(POSTGRES_CREATE_USERS_USERNAME_INDEX);
+  }
+
+  static async list(): Promise<UserAccount[]> {
+    await this.ensureTable();
+
+    const result = await db.query<UserRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM users
+       ORDER BY username ASC`,
+    );
+
+    return result.rows.map(mapRow);
+  }
+
+  static async findById(id: string): Promise<UserAccount | null> {
+    await this.ensureTable();
+
+    const result = await db.query<UserRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM users
+       WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  static async findByUsername(username: string): Promise<UserAccount | null> {
+    const credentials = await this.findCredentialsByUsername(username);
+    return credentials?.user ?? null;
+  }
+
+  /** Usernames are matched case-insensitively. */
+  static async findCredentialsByUsername(username: string): Promise<UserCredentials | null> {
+    await this.ensureTable();
+
+    const result = await db.query<UserRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM users
+       WHERE LOWER(username) = LOWER($1)`,
+      [username],
+    );
+
+    const row = result.rows[0];
+    return row ? { user: mapRow(row), passwordHash: row.passwordHash } : null;
+  }
+
+  static async create(input: CreateUserInput): Promise<UserAccount> {
+    await this.ensureTable();
+
+    const result = await db.query<UserRow>(
+      `INSERT INTO users (id, username, password_hash, role)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${SELECT_COLUMNS}`,
+      [randomUUID(), input.username, input.passwordHash, input.role],
+    );
+
+    return mapRow(result.rows[0]);
+  }
+
+  static async update(id: string, updates: UpdateUserInput): Promise<UserAccount | null> {
+    await this.ensureTable();
+
+    const existing = await db.query<UserRow>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM users
+       WHERE id = $1`,
+      [id],
+    );
+    const current = existing.rows[0];
+    if (!current) {
+      return null;
+    }
+
+    const disabled = updates.disabled ?? mapRow(current).disabled;
+    const result = await db.query<UserRow>(
+      `UPDATE users
+       SET password_hash = $2,
+           role = $3,
+           disabled = $4,
+           updated_at = ${db.isSqlite ? 'CURRENT_TIMESTAMP' : 'NOW()'}
+       WHERE id = $1
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        id,
+        updates.passwordHash ?? current.passwordHash,
+        updates.role ?? current.role,
+        db.isSqlite ? (disabled ? 1 : 0) : disabled,
+      ],
+    );
+
+    const row = result.rows[0];
+    return row ? mapRow(row) : null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    await this.ensureTable();
+    const result = await db.query('DELETE FROM users WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+}
+
+export default UserModel;
@@ -1,6 +1,6 @@
 import { randomUUID } from 'crypto';
-import { webhookEventTypeSchema } from '@kaonis/woly-protocol';
-import type { WebhookEventType } from '@kaonis/woly-protocol';
+import { webhookEventTypeSchema, webhookFormatSchema } from '@kaonis/woly-protocol';
+import type { WebhookEventType, WebhookFormat } from '@kaonis/woly-protocol';
 import db from '../database/connection';
 import logger from '../utils/logger';
 import type { WebhookDeliveryLog, WebhookSubscription } from '../types';
@@ -10,6 +10,9 @@ type WebhookRow = {
   url: string;
   events: unknown;
   secret: string | null;
+  enabled: boolean | number;
+  format: string;
+  template: string | null;
   createdAt: string | Date;
   updatedAt: string | Date;
 };
@@ -26,10 +29,36 @@ type WebhookDeliveryLogRow = {
   createdAt: string | Date;
 };
 
+type QueuedWebhookDeliveryRow = {
+  id: number | string;
+  webhookId: string;
+  eventType: string;
+  payload: unknown;
+  attempt: number | string;
+  nextAttemptAt: string | Date;
+  url: string;
+  events: unknown;
+  secret: string | null;
+  enabled: boolean | number;
+  format: string;
+  template: string | null;
+};
+
 export interface CreateWebhookInput {
   url: string;
   events: WebhookEventType[];
   secret?: string;
+  format?: WebhookFormat;
+  template?: string | null;
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  events?: WebhookEventType[];
+  secret?: string | null;
+  enabled?: boolean;
+  format?: WebhookFormat;
+  template?: string | null;
 }
 
 export interface WebhookTarget {
@@ -37,6 +66,27 @@ export interface WebhookTarget {
   url: string;
   events: WebhookEventType[];
   secret: string | null;
+  enabled: boolean;
+  format: WebhookFormat;
+  template: string | null;
+}
+
+export interface EnqueueWebhookDeliveryInput {
+  webhookId: string;
+  eventType: WebhookEventType;
+  payload: Record<string, unknown>;
+  attempt: number;
+  nextAttemptAt: Date;
+}
+
+/** A retry waiting in the delivery queue, with the webhook it goes to. */
+export interface QueuedWebhookDelivery {
+  id: number;
+  eventType: WebhookEventType;
+  payload: Record<string, unknown>;
+  attempt: number;
+  nextAttemptAt: string;
+  target: WebhookTarget;
 }
 
 export interface RecordWebhookDeliveryInput {
@@ -55,6 +105,10 @@ const SQLITE_CREATE_WEBHOOKS_TABLE = `
     url TEXT NOT NULL,
     events TEXT NOT NULL,
     secret TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    format TEXT NOT NULL DEFAULT 'raw',
+    template TEXT,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
   )
@@ -66,6 +120,10 @@ const POSTGRES_CREATE_WEBHOOKS_TABLE = `
     url TEXT NOT NULL,
     events JSONB NOT NULL,
     secret TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    format VARCHAR(16) NOT NULL DEFAULT 'raw',
+    template TEXT,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
   )
@@ -100,6 +158,73 @@ const POSTGRES_CREATE_WEBHOOK_DELIVERY_LOGS_TABLE = `
   )
 `;
 
+const SQLITE_CREATE_WEBHOOK_DELIVERY_QUEUE_TABLE = `
+  CREATE TABLE IF NOT EXISTS webhook_delivery_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    attempt INTEGER NOT NULL CHECK(attempt >= 1),
+    next_attempt_at DATETIME NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+  )
+`;
+
+const POSTGRES_CREATE_WEBHOOK_DELIVERY_QUEUE_TABLE = `
+  CREATE TABLE IF NOT EXISTS webhook_delivery_queue (
+    id BIGSERIAL PRIMARY KEY,
+    webhook_id VARCHAR(255) NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_type VARCHAR(64) NOT NULL,
+    payload JSONB NOT NULL,
+    attempt INTEGER NOT NULL CHECK (attempt >= 1),
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )
+`;
+
+// Columns added after webhooks first shipped; applied to existing tables on startup.
+const SQLITE_ADDED_COLUMNS: Array<{ column: string; statement: string }> = [
+  { column: 'enabled', statement: 'ALTER TABLE webhooks ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1' },
+  {
+    column: 'consecutive_failures',
+    statement: 'ALTER TABLE webhooks ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0',
+  },
+  { column: 'format', statement: "ALTER TABLE webhooks ADD COLUMN format TEXT NOT NULL DEFAULT 'raw'" },
+  { column: 'template', statement: 'ALTER TABLE webhooks ADD COLUMN template TEXT' },
+];
+
+const POSTGRES_COMPATIBILITY_STATEMENTS = [
+  'ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS enabled BOOLEAN NOT NULL DEFAULT TRUE',
+  'ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0',
+  "ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS format VARCHAR(16) NOT NULL DEFAULT 'raw'",
+  'ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS template TEXT',
+];
+
+const WEBHOOK_COLUMNS = `
+  id,
+  url,
+  events,
+  secret,
+  enabled,
+  format,
+  template,
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+const DELIVERY_LOG_COLUMNS = `
+  id,
+  webhook_id as "webhookId",
+  event_type as "eventType",
+  attempt,
+  status,
+  response_status as "responseStatus",
+  error,
+  payload,
+  created_at as "createdAt"
+`;
+
 export class WebhookModel {
   private static tableReady: Promise<void> | null = null;
 
@@ -118,6 +243,13 @@ export class WebhookModel {
     const isSqlite = db.isSqlite;
 
     await db.query(isSqlite ? SQLITE_CREATE_WEBHOOKS_TABLE : POSTGRES_CREATE_WEBHOOKS_TABLE);
+    if (isSqlite) {
+      await this.applySqliteCompatibilityMigrations();
+    } else {
+      for (const statement of POSTGRES_COMPATIBILITY_STATEMENTS) {
+        await db.query(statement);
+      }
+    }
     await db.query(
       isSqlite ? SQLITE_CREATE_WEBHOOK_DELIVERY_LOGS_TABLE : POSTGRES_CREATE_WEBHOOK_DELIVERY_LOGS_TABLE
     );
@@ -128,6 +260,22 @@ export class WebhookModel {
     await db.query(
       'CREATE INDEX IF NOT EXISTS idx_webhook_delivery_logs_created_at ON webhook_delivery_logs(created_at)'
     );
+    await db.query(
+      isSqlite ? SQLITE_CREATE_WEBHOOK_DELIVERY_QUEUE_TABLE : POSTGRES_CREATE_WEBHOOK_DELIVERY_QUEUE_TABLE,
+    );
+    await db.query(
+      'CREATE INDEX IF NOT EXISTS idx_webhook_delivery_queue_next_attempt_at ON webhook_delivery_queue(next_attempt_at)',
+    );
+  }
+
+  private static async applySqliteCompatibilityMigrations(): Promise<void> {
+    const columns = await db.query<{ name: string }>("SELECT name FROM pragma_table_info('webhooks')");
+    const existingColumns = new Set(columns.rows.map((column) => column.name));
+    for (const migration of SQLITE_ADDED_COLUMNS) {
+      if (!existingColumns.has(migration.column)) {
+        await db.query(migration.statement);
+      }
+    }
   }
 
   private static parseEvents(value: unknown): WebhookEventType[] {
@@ -179,6 +327,11 @@ export class WebhookModel {
     return {};
   }
 
+  private static parseFormat(value: unknown): WebhookFormat {
+    const parsed = webhookFormatSchema.safeParse(value);
+    return parsed.success ? parsed.data : 'raw';
+  }
+
   private static normalizeIsoDate(value: string | Date): string {
     const parsed = value instanceof Date ? value : new Date(value);
     if (Number.isNaN(parsed.getTime())) {
@@ -194,17 +347,25 @@ export class WebhookModel {
       url: row.url,
       events: this.parseEvents(row.events),
       hasSecret: typeof row.secret === 'string' && row.secret.length > 0,
+      enabled: Boolean(row.enabled),
+      format: this.parseFormat(row.format),
+      template: row.template,
       createdAt: this.normalizeIsoDate(row.createdAt),
       updatedAt: this.normalizeIsoDate(row.updatedAt),
     };
   }
 
-  private static mapWebhookTarget(row: WebhookRow): WebhookTarget {
+  private static mapWebhookTarget(
+    row: Pick<WebhookRow, 'id' | 'url' | 'events' | 'secret' | 'enabled' | 'format' | 'template'>,
+  ): WebhookTarget {
     return {
       id: row.id,
       url: row.url,
       events: this.parseEvents(row.events),
       secret: row.secret,
+      enabled: Boolean(row.enabled),
+      format: this.parseFormat(row.format),
+      template: row.template,
     };
   }
 
@@ -237,13 +398,13 @@ export class WebhookModel {
 
     const result = await db.query<WebhookRow>(
       isSqlite
-        ? `INSERT INTO webhooks (id, url, events, secret)
-           VALUES ($1, $2, $3, $4)
-           RETURNING id, url, events, secret, created_at as "createdAt", updated_at as "updatedAt"`
-        : `INSERT INTO webhooks (id, url, events, secret)
-           VALUES ($1, $2, $3::jsonb, $4)
-           RETURNING id, url, events, secret, created_at as "createdAt", updated_at as "updatedAt"`,
-      [id, input.url, eventsJson, secret],
+        ? `INSERT INTO webhooks (id, url, events, secret, format, template)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING ${WEBHOOK_COLUMNS}`
+        : `INSERT INTO webhooks (id, url, events, secret, format, template)
+           VALUES ($1, $2, $3::jsonb, $4, $5, $6)
+           RETURNING ${WEBHOOK_COLUMNS}`,
+      [id, input.url, eventsJson, secret, input.format ?? 'raw', input.template ?? null],
     );
 
     return this.mapWebhookRow(result.rows[0]);
@@ -253,13 +414,7 @@ export class WebhookModel {
     await this.ensureTable();
 
     const result = await db.query<WebhookRow>(
-      `SELECT
-        id,
-        url,
-        events,
-        secret,
-        created_at as "createdAt",
-        updated_at as "updatedAt"
+      `SELECT ${WEBHOOK_COLUMNS}
        FROM webhooks
        ORDER BY created_at DESC`,
     );
@@ -271,13 +426,7 @@ export class WebhookModel {
     await this.ensureTable();
 
     const result = await db.query<WebhookRow>(
-      `SELECT
-        id,
-        url,
-        events,
-        secret,
-        created_at as "createdAt",
-        updated_at as "updatedAt"
+      `SELECT ${WEBHOOK_COLUMNS}
        FROM webhooks
        WHERE id = $1`,
       [id],
@@ -287,18 +436,30 @@ export class WebhookModel {
     return row ? this.mapWebhookRow(row) : null;
   }
 
+  /** Includes the signing secret; for delivery only, never for API responses. */
+  static async findTargetById(id: string): Promise<WebhookTarget | null> {
+    await this.ensureTable();
+
+    const result = await db.query<WebhookRow>(
+      `SELECT ${WEBHOOK_COLUMNS}
+       FROM webhooks
+       WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapWebhookTarget(row) : null;
+  }
+
+  /** Disabled webhooks are skipped. */
   static async listTargetsByEvent(eventType: WebhookEventType): Promise<WebhookTarget[]> {
     await this.ensureTable();
 
     const result = await db.query<WebhookRow>(
-      `SELECT
-        id,
-        url,
-        events,
-        secret,
-        created_at as "createdAt",
-        updated_at as "updatedAt"
-       FROM webhooks`,
+      `SELECT ${WEBHOOK_COLUMNS}
+       FROM webhooks
+       WHERE enabled = $1`,
+      [db.isSqlite ? 1 : true],
     );
 
     return result.rows
@@ -306,6 +467,62 @@ export class WebhookModel {
       .filter((target) => target.events.includes(eventType));
   }
 
+  /** Returns null when the webhook does not exist. */
+  static async update(id: string, input: UpdateWebhookInput): Promise<WebhookSubscription | null> {
+    await this.ensureTable();
+
+    const isSqlite = db.isSqlite;
+    const assignments: string[] = [];
+    const params: unknown[] = [id];
+
+    if (input.url !== undefined) {
+      params.push(input.url);
+      assignments.push(`url = $${params.length}`);
+    }
+    if (input.events !== undefined) {
+      params.push(JSON.stringify(input.events));
+      assignments.push(`events = $${params.length}${isSqlite ? '' : '::jsonb'}`);
+    }
+    if (input.secret !== undefined) {
+      params.push(input.secret);
+      assignments.push(`secret = $${params.length}`);
+    }
+    if (input.enabled !== undefined) {
+      params.push(isSqlite ? (input.enabled ? 1 : 0) : input.enabled);
+      assignments.push(`enabled = $${params.length}`);
+      // Re-enabling gives an auto-disabled endpoint a fresh failure budget.
+      if (input.enabled) {
+        assignments.push('consecutive_failures = 0');
+      }
+    }
+    if (input.format !== undefined) {
+      params.push(input.format);
+      assignments.push(`format = $${params.length}`);
+    }
+    if (input.template !== undefined) {
+      params.push(input.template);
+      assignments.push(`template = $${params.length}`);
+    }
+
+    if (assignments.length === 0) {
+      return this.findById(id);
+    }
+
+    params.push(new Date().toISOString());
+    assignments.push(`updated_at = $${params.length}`);
+
+    const result = await db.query<WebhookRow>(
+      `UPDATE webhooks
+       SET ${assignments.join(', ')}
+       WHERE id = $1
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      params,
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapWebhookRow(row) : null;
+  }
+
   static async delete(id: string): Promise<boolean> {
     await this.ensureTable();
 
@@ -313,6 +530,97 @@ export class WebhookModel {
     return (result.rowCount ?? 0) > 0;
   }
 
+  /** Counts a delivery that failed every attempt and returns the new consecutive failure count. */
+  static async incrementFailureCount(id: string): Promise<number> {
+    await this.ensureTable();
+
+    const result = await db.query<{ consecutiveFailures: number | string }>(
+      `UPDATE webhooks
+       SET consecutive_failures = consecutive_failures + 1
+       WHERE id = $1
+       RETURNING consecutive_failures as "consecutiveFailures"`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    return row ? Number(row.consecutiveFailures) : 0;
+  }
+
+  static async resetFailureCount(id: string): Promise<void> {
+    await this.ensureTable();
+
+    await db.query(
+      'UPDATE webhooks SET consecutive_failures = 0 WHERE id = $1 AND consecutive_failures > 0',
+      [id],
+    );
+  }
+
+  static async enqueueDelivery(input: EnqueueWebhookDeliveryInput): Promise<void> {
+    await this.ensureTable();
+
+    await db.query(
+      `INSERT INTO webhook_delivery_queue (webhook_id, event_type, payload, attempt, next_attempt_at)
+       VALUES ($1, $2, $3${db.isSqlite ? '' : '::jsonb'}, $4, $5)`,
+      [
+        input.webhookId,
+        input.eventType,
+        JSON.stringify(input.payload),
+        input.attempt,
+        input.nextAttemptAt.toISOString(),
+      ],
+    );
+  }
+
+  /** Oldest due retries first, including those for webhooks that have since been disabled. */
+  static async listDueDeliveries(now: Date, limit: number): Promise<QueuedWebhookDelivery[]> {
+    await this.ensureTable();
+
+    const result = await db.query<QueuedWebhookDeliveryRow>(
+      `SELECT
+        q.id,
+        q.webhook_id as "webhookId",
+        q.event_type as "eventType",
+        q.payload,
+        q.attempt,
+        q.next_attempt_at as "nextAttemptAt",
+        w.url,
+        w.events,
+        w.secret,
+        w.enabled,
+        w.format,
+        w.template
+       FROM webhook_delivery_queue q
+       JOIN webhooks w ON w.id = q.webhook_id
+       WHERE q.next_attempt_at <= $1
+       ORDER BY q.next_attempt_at ASC, q.id ASC
+       LIMIT $2`,
+      [now.toISOString(), limit],
+    );
+
+    return result.rows.map((row) => ({
+      id: Number(row.id),
+      eventType: webhookEventTypeSchema.parse(row.eventType),
+      payload: this.parsePayload(row.payload),
+      attempt: Number(row.attempt),
+      nextAttemptAt: this.normalizeIsoDate(row.nextAttemptAt),
+      target: this.mapWebhookTarget({
+        id: row.webhookId,
+        url: row.url,
+        events: row.events,
+        secret: row.secret,
+        enabled: row.enabled,
+        format: row.format,
+        template: row.template,
+      }),
+    }));
+  }
+
+  static async deleteQueuedDelivery(id: number): Promise<void> {
+    await this.ensureTable();
+
+    await db.query('DELETE FROM webhook_delivery_queue WHERE id = $1', [id]);
+  }
+
   static async recordDelivery(input: RecordWebhookDeliveryInput): Promise<void> {
     await this.ensureTable();
 
@@ -344,16 +652,7 @@ export class WebhookModel {
 
     const normalizedLimit = Math.max(1, Math.min(limit, 500));
     const result = await db.query<WebhookDeliveryLogRow>(
-      `SELECT
-        id,
-        webhook_id as "webhookId",
-        event_type as "eventType",
-        attempt,
-        status,
-        response_status as "responseStatus",
-        error,
-        payload,
-        created_at as "createdAt"
+      `SELECT ${DELIVERY_LOG_COLUMNS}
        FROM webhook_delivery_logs
        WHERE webhook_id = $1
        ORDER BY created_at DESC, id DESC
@@ -363,6 +662,20 @@ export class WebhookModel {
 
     return result.rows.map((row) => this.mapWebhookDeliveryLogRow(row));
   }
+
+  static async findDeliveryById(id: number): Promise<WebhookDeliveryLog | null> {
+    await this.ensureTable();
+
+    const result = await db.query<WebhookDeliveryLogRow>(
+      `SELECT ${DELIVERY_LOG_COLUMNS}
+       FROM webhook_delivery_logs
+       WHERE id = $1`,
+      [id],
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapWebhookDeliveryLogRow(row) : null;
+  }
 }
 
 export default WebhookModel;
@@ -0,0 +1,106 @@
+import db from '../../database/connection';
+import ApiKeyModel, { API_KEY_PREFIX } from '../ApiKey';
+
+describe('ApiKeyModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await ApiKeyModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM api_key_usage');
+    await db.query('DELETE FROM api_keys');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('stores only a hash and authenticates the returned key', async () => {
+    const { apiKey, key } = await ApiKeyModel.create({
+      name: 'home-assistant',
+      scopes: ['hosts:read', 'hosts:wake'],
+      hostFqns: ['desktop@home'],
+      createdBy: 'admin-1',
+    });
+
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(apiKey).toMatchObject({
+      name: 'home-assistant',
+      scopes: ['hosts:read', 'hosts:wake'],
+      hostFqns: ['desktop@home'],
+      nodeIds: [],
+      createdBy: 'admin-1',
+      expiresAt: null,
+      lastUsedAt: null,
+      revokedAt: null,
+    });
+
+    const stored = await db.query<{ key_hash: string }>('SELECT key_hash FROM api_keys');
+    expect(stored.rows[0].key_hash).not.toContain(key);
+
+    await expect(ApiKeyModel.authenticate(key)).resolves.toEqual({ status: 'valid', apiKey });
+    await expect(ApiKeyModel.authenticate(`${key}x`)).resolves.toEqual({ status: 'invalid' });
+  });
+
+  it('rejects expired and revoked keys', async () => {
+    const expired = await ApiKeyModel.create({
+      name: 'ci',
+      scopes: ['hosts:wake'],
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+      createdBy: 'admin-1',
+    });
+    await expect(ApiKeyModel.authenticate(expired.key)).resolves.toEqual({ status: 'expired' });
+
+    const revocable = await ApiKeyModel.create({
+      name: 'old',
+      scopes: ['hosts:read'],
+      createdBy: 'admin-1',
+    });
+    const revoked = await ApiKeyModel.revoke(revocable.apiKey.id);
+    expect(revoked?.revokedAt).toEqual(expect.any(String));
+    await expect(ApiKeyModel.authenticate(revocable.key)).resolves.toEqual({ status: 'revoked' });
+
+    await expect(ApiKeyModel.revoke(revocable.apiKey.id)).resolves.toMatchObject({
+      revokedAt: revoked?.revokedAt,
+    });
+    await expect(ApiKeyModel.revoke('missing')).resolves.toBeNull();
+  });
+
+  it('records usage newest first and stamps last use', async () => {
+    const { apiKey } = await ApiKeyModel.create({
+      name: 'ci',
+      scopes: ['hosts:wake'],
+      createdBy: 'admin-1',
+    });
+
+    await ApiKeyModel.recordUsage(apiKey.id, { method: 'GET', path: '/api/hosts', ip: '10.0.0.5' });
+    await ApiKeyModel.recordUsage(apiKey.id, {
+      method: 'POST',
+      path: '/api/hosts/wakeup/desktop@home',
+      ip: null,
+    });
+
+    await expect(ApiKeyModel.listUsage(apiKey.id)).resolves.toEqual([
+      expect.objectContaining({ method: 'POST', path: '/api/hosts/wakeup/desktop@home', ip: null }),
+      expect.objectContaining({ method: 'GET', path: '/api/hosts', ip: '10.0.0.5' }),
+    ]);
+    await expect(ApiKeyModel.listUsage(apiKey.id, 1)).resolves.toHaveLength(1);
+    expect((await ApiKeyModel.findById(apiKey.id))?.lastUsedAt).toEqual(expect.any(String));
+  });
+
+  it('lists keys without exposing their hashes', async () => {
+    await ApiKeyModel.create({
+      name: 'first',
+      scopes: ['hosts:read'],
+      nodeIds: ['node-1'],
+      createdBy: 'admin-1',
+    });
+
+    const keys = await ApiKeyModel.list();
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ name: 'first', nodeIds: ['node-1'] });
+    expect(keys[0]).not.toHaveProperty('keyHash');
+  });
+});
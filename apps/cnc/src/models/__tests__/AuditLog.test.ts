@@ -0,0 +1,117 @@
+import db from '../../database/connection';
+import AuditLogModel, { type AppendAuditLogInput } from '../AuditLog';
+
+const wake: AppendAuditLogInput = {
+  actor: 'user-1',
+  actorRole: 'operator',
+  action: 'host.wake',
+  targetFqn: 'desktop@home',
+  correlationId: 'corr_1',
+  ip: '10.0.0.5',
+  outcome: 'success',
+  statusCode: 200,
+};
+
+describe('AuditLogModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await AuditLogModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM audit_log');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('appends entries and returns them newest first', async () => {
+    await AuditLogModel.append(wake);
+    await AuditLogModel.append({
+      actor: 'admin-1',
+      actorRole: 'admin',
+      action: 'node.delete',
+      targetNodeId: 'home-node',
+      outcome: 'failure',
+      statusCode: 404,
+      details: { reason: 'missing' },
+    });
+
+    const page = await AuditLogModel.query({ limit: 10 });
+
+    expect(page.nextCursor).toBeNull();
+    expect(page.entries).toEqual([
+      expect.objectContaining({
+        actor: 'admin-1',
+        action: 'node.delete',
+        targetFqn: null,
+        targetNodeId: 'home-node',
+        outcome: 'failure',
+        statusCode: 404,
+        details: { reason: 'missing' },
+      }),
+      expect.objectContaining({
+        actor: 'user-1',
+        actorRole: 'operator',
+        targetFqn: 'desktop@home',
+        correlationId: 'corr_1',
+        ip: '10.0.0.5',
+        details: null,
+      }),
+    ]);
+  });
+
+  it('filters entries and pages with a cursor', async () => {
+    for (let index = 0; index < 3; index += 1) {
+      await AuditLogModel.append(wake);
+    }
+    await AuditLogModel.append({ ...wake, actor: 'user-2', outcome: 'denied', statusCode: 403 });
+
+    const first = await AuditLogModel.query({ actor: 'user-1', action: 'host.wake', limit: 2 });
+    expect(first.entries).toHaveLength(2);
+    expect(first.nextCursor).toBe(String(first.entries[1].id));
+
+    const second = await AuditLogModel.query({
+      actor: 'user-1',
+      limit: 2,
+      cursor: Number(first.nextCursor),
+    });
+    expect(second.entries).toHaveLength(1);
+    expect(second.nextCursor).toBeNull();
+
+    await expect(AuditLogModel.query({ outcome: 'denied', limit: 10 })).resolves.toMatchObject({
+      entries: [expect.objectContaining({ actor: 'user-2' })],
+    });
+    await expect(
+      AuditLogModel.query({ since: new Date(Date.now() + 60_000).toISOString(), limit: 10 }),
+    ).resolves.toEqual({ entries: [], nextCursor: null });
+  });
+
+  it('rejects updates to recorded entries', async () => {
+    await AuditLogModel.append(wake);
+
+    await expect(db.query("UPDATE audit_log SET actor = 'someone-else'")).rejects.toMatchObject({
+      message: expect.stringContaining('append-only'),
+    });
+  });
+
+  it('prunes entries older than the retention window', async () => {
+    await AuditLogModel.append(wake);
+    await db.query(
+      'INSERT INTO audit_log (occurred_at, actor, action, outcome, status_code) VALUES ($1, $2, $3, $4, $5)',
+      [
+        new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString(),
+        'user-1',
+        'host.delete',
+        'success',
+        200,
+      ],
+    );
+
+    await expect(AuditLogModel.pruneOlderThan(30)).resolves.toBe(1);
+    await expect(AuditLogModel.query({ limit: 10 })).resolves.toMatchObject({
+      entries: [expect.objectContaining({ action: 'host.wake' })],
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import db from '../../database/connection';
+import ExceptionCalendarModel from '../ExceptionCalendar';
+
+describe('ExceptionCalendarModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await ExceptionCalendarModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM exception_calendars');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('creates calendars with sorted, de-duplicated dates', async () => {
+    const created = await ExceptionCalendarModel.create({
+      name: 'Holidays',
+      description: 'Office closed',
+      source: 'dates',
+      dates: [
+        { date: '2026-12-25', label: 'Christmas Day' },
+        { date: '2026-01-01' },
+        { date: '2026-12-25', label: 'Duplicate' },
+      ],
+    });
+
+    expect(created).toMatchObject({
+      name: 'Holidays',
+      description: 'Office closed',
+      source: 'dates',
+      dates: [{ date: '2026-01-01' }, { date: '2026-12-25', label: 'Christmas Day' }],
+    });
+    await expect(ExceptionCalendarModel.findById(created.id)).resolves.toEqual(created);
+    await expect(ExceptionCalendarModel.findByName('Holidays')).resolves.toEqual(created);
+  });
+
+  it('lists by name and looks up several ids in request order', async () => {
+    const vacation = await ExceptionCalendarModel.create({ name: 'Vacation', source: 'dates', dates: [] });
+    const holidays = await ExceptionCalendarModel.create({
+      name: 'Holidays',
+      source: 'ics',
+      dates: [{ date: '2026-12-25' }],
+    });
+
+    const listed = await ExceptionCalendarModel.list();
+    expect(listed.map((calendar) => calendar.name)).toEqual(['Holidays', 'Vacation']);
+
+    const found = await ExceptionCalendarModel.findByIds([vacation.id, 'missing', holidays.id, vacation.id]);
+    expect(found.map((calendar) => calendar.id)).toEqual([vacation.id, holidays.id]);
+    await expect(ExceptionCalendarModel.findByIds([])).resolves.toEqual([]);
+  });
+
+  it('updates fields, replaces dates and deletes calendars', async () => {
+    const created = await ExceptionCalendarModel.create({
+      name: 'Holidays',
+      description: 'Office closed',
+      source: 'dates',
+      dates: [{ date: '2026-12-25' }],
+    });
+
+    const renamed = await ExceptionCalendarModel.update(created.id, { name: 'Public holidays', description: null });
+    expect(renamed).toMatchObject({ name: 'Public holidays', dates: [{ date: '2026-12-25' }] });
+    expect(renamed?.description).toBeUndefined();
+
+    const replaced = await ExceptionCalendarModel.update(created.id, {
+      source: 'ics',
+      dates: [{ date: '2027-01-01', label: 'New Year' }],
+    });
+    expect(replaced).toMatchObject({ source: 'ics', dates: [{ date: '2027-01-01', label: 'New Year' }] });
+
+    await expect(ExceptionCalendarModel.update('missing', { name: 'Nope' })).resolves.toBeNull();
+    await expect(ExceptionCalendarModel.delete(created.id)).resolves.toBe(true);
+    await expect(ExceptionCalendarModel.delete(created.id)).resolves.toBe(false);
+  });
+});
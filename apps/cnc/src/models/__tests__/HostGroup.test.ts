@@ -0,0 +1,84 @@
+import db from '../../database/connection';
+import HostGroupModel from '../HostGroup';
+
+describe('HostGroupModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await HostGroupModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM host_group_members');
+    await db.query('DELETE FROM host_groups');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('creates groups spanning several nodes and preserves member order', async () => {
+    const created = await HostGroupModel.create({
+      name: 'Lab',
+      description: 'Teaching lab',
+      hostFqns: ['pc-2@lab-node', 'pc-1@lab-node', 'nas@office-node'],
+    });
+
+    expect(created).toMatchObject({
+      name: 'Lab',
+      description: 'Teaching lab',
+      hostFqns: ['pc-2@lab-node', 'pc-1@lab-node', 'nas@office-node'],
+    });
+
+    const found = await HostGroupModel.findById(created.id);
+    expect(found?.hostFqns).toEqual(created.hostFqns);
+
+    const byName = await HostGroupModel.findByName('Lab');
+    expect(byName?.id).toBe(created.id);
+  });
+
+  it('lists groups ordered by name with their members', async () => {
+    await HostGroupModel.create({ name: 'Servers', hostFqns: ['nas@office-node'] });
+    await HostGroupModel.create({ name: 'Desktops', hostFqns: [] });
+
+    const groups = await HostGroupModel.list();
+    expect(groups.map((group) => group.name)).toEqual(['Desktops', 'Servers']);
+    expect(groups[0].hostFqns).toEqual([]);
+    expect(groups[0].description).toBeNull();
+    expect(groups[1].hostFqns).toEqual(['nas@office-node']);
+  });
+
+  it('updates metadata and replaces members only when provided', async () => {
+    const created = await HostGroupModel.create({
+      name: 'Lab',
+      hostFqns: ['pc-1@lab-node'],
+    });
+
+    const renamed = await HostGroupModel.update(created.id, { name: 'Lab A' });
+    expect(renamed).toMatchObject({ name: 'Lab A', hostFqns: ['pc-1@lab-node'] });
+
+    const replaced = await HostGroupModel.update(created.id, {
+      description: 'Room 101',
+      hostFqns: ['pc-3@lab-node', 'pc-4@lab-node'],
+    });
+    expect(replaced).toMatchObject({
+      name: 'Lab A',
+      description: 'Room 101',
+      hostFqns: ['pc-3@lab-node', 'pc-4@lab-node'],
+    });
+
+    expect(await HostGroupModel.update('missing', { name: 'x' })).toBeNull();
+  });
+
+  it('deletes groups along with their memberships', async () => {
+    const created = await HostGroupModel.create({
+      name: 'Lab',
+      hostFqns: ['pc-1@lab-node'],
+    });
+
+    await expect(HostGroupModel.delete(created.id)).resolves.toBe(true);
+    await expect(HostGroupModel.delete(created.id)).resolves.toBe(false);
+
+    const members = await db.query('SELECT * FROM host_group_members WHERE group_id = $1', [created.id]);
+    expect(members.rows).toHaveLength(0);
+  });
+});
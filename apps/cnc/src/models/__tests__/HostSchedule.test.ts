@@ -1,14 +1,17 @@
 import db from '../../database/connection';
+import ExceptionCalendarModel from '../ExceptionCalendar';
 import HostScheduleModel from '../HostSchedule';
 
 describe('HostScheduleModel', () => {
   beforeAll(async () => {
     await db.connect();
     await HostScheduleModel.ensureTable();
+    await ExceptionCalendarModel.ensureTable();
   });
 
   beforeEach(async () => {
     await db.query('DELETE FROM host_wake_schedules');
+    await db.query('DELETE FROM exception_calendars');
   });
 
   afterAll(async () => {
@@ -219,6 +222,37 @@ describe('HostScheduleModel', () => {
     expect(updated?.nextTrigger).toBeUndefined();
   });
 
+  it('stores the schedule action and defaults it to wake', async () => {
+    const wake = await HostScheduleModel.create({
+      hostFqn: 'nas@home',
+      hostName: 'nas',
+      hostMac: '30:31:32:33:34:35',
+      scheduledTime: '2026-02-20T07:00:00.000Z',
+      frequency: 'daily',
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+    });
+    const shutdown = await HostScheduleModel.create({
+      hostFqn: 'nas@home',
+      hostName: 'nas',
+      hostMac: '30:31:32:33:34:35',
+      scheduledTime: '2026-02-20T23:00:00.000Z',
+      frequency: 'daily',
+      action: 'shutdown',
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+    });
+
+    expect(wake.action).toBe('wake');
+    expect(shutdown.action).toBe('shutdown');
+
+    const updated = await HostScheduleModel.update(shutdown.id, { action: 'sleep' });
+    expect(updated?.action).toBe('sleep');
+    expect((await HostScheduleModel.update(shutdown.id, { enabled: false }))?.action).toBe('sleep');
+  });
+
   it('returns null when update target does not exist', async () => {
     const updated = await HostScheduleModel.update('missing-id', { enabled: false });
     expect(updated).toBeNull();
@@ -304,4 +338,204 @@ describe('HostScheduleModel', () => {
 
     expect(schedule.nextTrigger).toBeUndefined();
   });
+
+  it('stores cron and solar triggers and advances them in the schedule timezone', async () => {
+    const cron = await HostScheduleModel.create({
+      hostFqn: 'cron@office',
+      hostName: 'cron',
+      hostMac: 'A0:A1:A2:A3:A4:A5',
+      scheduledTime: '2026-01-01T00:00:00.000Z',
+      frequency: 'cron',
+      cronExpression: '30 7 * * TUE#2',
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'Europe/Berlin',
+    });
+    const solar = await HostScheduleModel.create({
+      hostFqn: 'solar@garden',
+      hostName: 'solar',
+      hostMac: 'B0:B1:B2:B3:B4:B5',
+      scheduledTime: '2026-01-01T00:00:00.000Z',
+      frequency: 'solar',
+      solar: { event: 'sunrise', offsetMinutes: 10, latitude: 48.8566, longitude: 2.3522 },
+      enabled: true,
+      notifyOnWake: false,
+      timezone: 'Europe/Paris',
+    });
+
+    expect(cron.cronExpression).toBe('30 7 * * TUE#2');
+    expect(cron.solar).toBeUndefined();
+    expect(solar.solar).toEqual({ event: 'sunrise', offsetMinutes: 10, latitude: 48.8566, longitude: 2.3522 });
+
+    const advanced = await HostScheduleModel.recordExecutionAttempt(cron.id, '2026-03-10T06:30:00.000Z');
+    expect(advanced?.enabled).toBe(true);
+    expect(advanced?.nextTrigger).toBe('2026-04-14T05:30:00.000Z');
+
+    const switched = await HostScheduleModel.update(cron.id, { frequency: 'daily' });
+    expect(switched?.frequency).toBe('daily');
+    expect(switched?.cronExpression).toBeUndefined();
+  });
+
+  it('skips dates listed in exception calendars and reports skipped runs', async () => {
+    const holidays = await ExceptionCalendarModel.create({
+      name: 'Holidays',
+      source: 'dates',
+      dates: [{ date: '2030-01-01', label: 'New Year' }, { date: '2030-01-02' }],
+    });
+
+    const schedule = await HostScheduleModel.create({
+      hostFqn: 'office@home',
+      hostName: 'office',
+      hostMac: '00:11:22:33:44:55',
+      scheduledTime: '2030-01-01T00:00:00.000Z',
+      frequency: 'cron',
+      cronExpression: '0 9 * * *',
+      exceptionCalendarIds: [holidays.id],
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+    });
+
+    expect(schedule.exceptionCalendarIds).toEqual([holidays.id]);
+    expect(schedule.nextTrigger).toBe('2030-01-03T09:00:00.000Z');
+
+    const [withSkipped] = await HostScheduleModel.withSkippedRuns([schedule]);
+    expect(withSkipped.skippedRuns).toEqual([
+      {
+        scheduledFor: '2030-01-01T09:00:00.000Z',
+        date: '2030-01-01',
+        calendarId: holidays.id,
+        calendarName: 'Holidays',
+        reason: 'New Year',
+      },
+      {
+        scheduledFor: '2030-01-02T09:00:00.000Z',
+        date: '2030-01-02',
+        calendarId: holidays.id,
+        calendarName: 'Holidays',
+        reason: 'Listed in exception calendar "Holidays"',
+      },
+    ]);
+
+    const advanced = await HostScheduleModel.recordExecutionAttempt(schedule.id, '2030-01-03T09:00:01.000Z');
+    expect(advanced?.nextTrigger).toBe('2030-01-04T09:00:00.000Z');
+
+    await expect(HostScheduleModel.listByExceptionCalendar(holidays.id)).resolves.toEqual([
+      expect.objectContaining({ id: schedule.id }),
+    ]);
+    await expect(HostScheduleModel.listByExceptionCalendar('other')).resolves.toEqual([]);
+
+    const cleared = await HostScheduleModel.update(schedule.id, { exceptionCalendarIds: [] });
+    expect(cleared?.exceptionCalendarIds).toBeUndefined();
+  });
+
+  it('moves due runs that became excluded and refreshes next triggers when a calendar changes', async () => {
+    const calendar = await ExceptionCalendarModel.create({ name: 'Vacation', source: 'dates', dates: [] });
+    const schedule = await HostScheduleModel.create({
+      hostFqn: 'office@home',
+      hostName: 'office',
+      hostMac: '00:11:22:33:44:55',
+      scheduledTime: '2030-03-01T00:00:00.000Z',
+      frequency: 'cron',
+      cronExpression: '0 7 * * *',
+      exceptionCalendarIds: [calendar.id],
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+    });
+    expect(schedule.nextTrigger).toBe('2030-03-01T07:00:00.000Z');
+
+    await ExceptionCalendarModel.update(calendar.id, { dates: [{ date: '2030-03-01' }] });
+    await expect(HostScheduleModel.listDue(10, '2030-03-01T07:00:30.000Z')).resolves.toEqual([]);
+    await expect(HostScheduleModel.findById(schedule.id)).resolves.toMatchObject({
+      nextTrigger: '2030-03-02T07:00:00.000Z',
+    });
+
+    await ExceptionCalendarModel.update(calendar.id, { dates: [{ date: '2030-03-02' }, { date: '2030-03-03' }] });
+    await expect(
+      HostScheduleModel.refreshNextTriggersForCalendar(calendar.id, new Date('2030-03-01T12:00:00.000Z')),
+    ).resolves.toBe(1);
+    await expect(HostScheduleModel.findById(schedule.id)).resolves.toMatchObject({
+      nextTrigger: '2030-03-04T07:00:00.000Z',
+    });
+  });
+
+  const createLegacySqliteTable = async () => {
+    await db.query('DROP TABLE host_wake_schedules');
+    await db.query(`
+      CREATE TABLE host_wake_schedules (
+        id TEXT PRIMARY KEY,
+        host_fqn TEXT NOT NULL,
+        host_name TEXT NOT NULL,
+        host_mac TEXT NOT NULL,
+        scheduled_time DATETIME NOT NULL,
+        frequency TEXT NOT NULL CHECK(frequency IN ('once', 'daily', 'weekly', 'weekdays', 'weekends')),
+        enabled INTEGER NOT NULL DEFAULT 1 CHECK(enabled IN (0, 1)),
+        notify_on_wake INTEGER NOT NULL DEFAULT 1 CHECK(notify_on_wake IN (0, 1)),
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        last_triggered DATETIME,
+        next_trigger DATETIME,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.query(
+      `INSERT INTO host_wake_schedules (id, host_fqn, host_name, host_mac, scheduled_time, frequency)
+       VALUES ('legacy-1', 'legacy@home', 'legacy', 'C0:C1:C2:C3:C4:C5', '2026-02-20T08:00:00.000Z', 'daily')`,
+    );
+    (HostScheduleModel as unknown as { tableReady: Promise<void> | null }).tableReady = null;
+  };
+
+  it('upgrades legacy SQLite tables whose frequency check predates cron and solar', async () => {
+    if (!db.isSqlite) {
+      return;
+    }
+
+    await createLegacySqliteTable();
+
+    await HostScheduleModel.ensureTable();
+
+    expect(await HostScheduleModel.findById('legacy-1')).toMatchObject({ frequency: 'daily', action: 'wake' });
+    const cron = await HostScheduleModel.create({
+      hostFqn: 'legacy@home',
+      hostName: 'legacy',
+      hostMac: 'C0:C1:C2:C3:C4:C5',
+      scheduledTime: '2026-02-20T08:00:00.000Z',
+      frequency: 'cron',
+      cronExpression: '0 8 * * MON-FRI',
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+    });
+    expect(cron.frequency).toBe('cron');
+  });
+
+  it('rolls back a failed legacy SQLite table rebuild', async () => {
+    if (!db.isSqlite) {
+      return;
+    }
+
+    await createLegacySqliteTable();
+    const originalQuery = db.query.bind(db);
+    const querySpy = jest.spyOn(db, 'query').mockImplementation((text: string, params?: unknown[]) =>
+      text.includes('SELECT id, host_fqn')
+        ? Promise.reject(new Error('forced-rebuild-failure'))
+        : originalQuery(text, params),
+    );
+    try {
+      await expect(HostScheduleModel.ensureTable()).rejects.toThrow('forced-rebuild-failure');
+    } finally {
+      querySpy.mockRestore();
+    }
+
+    const tables = await db.query<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'host_wake_schedules%'",
+    );
+    expect(tables.rows.map((row) => row.name)).toEqual(['host_wake_schedules']);
+    const legacy = await db.query<{ id: string }>('SELECT id FROM host_wake_schedules');
+    expect(legacy.rows).toEqual([{ id: 'legacy-1' }]);
+
+    await HostScheduleModel.ensureTable();
+    expect(await HostScheduleModel.findById('legacy-1')).toMatchObject({ frequency: 'daily' });
+  });
 });
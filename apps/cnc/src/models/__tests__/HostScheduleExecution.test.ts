@@ -0,0 +1,109 @@
+import db from '../../database/connection';
+import HostScheduleExecutionModel from '../HostScheduleExecution';
+
+describe('HostScheduleExecutionModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await HostScheduleExecutionModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM host_schedule_executions');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('records executions and lists them newest first', async () => {
+    const failed = await HostScheduleExecutionModel.record({
+      scheduleId: 'schedule-1',
+      hostFqn: 'office@home',
+      action: 'shutdown',
+      attemptedAt: '2026-02-20T22:00:00.000Z',
+      outcome: 'failed',
+      commandState: 'failed',
+      correlationId: 'schedule:schedule-1:1',
+      error: 'Node home is offline',
+    });
+    const succeeded = await HostScheduleExecutionModel.record({
+      scheduleId: 'schedule-1',
+      hostFqn: 'office@home',
+      action: 'shutdown',
+      attemptedAt: '2026-02-21T22:00:00.000Z',
+      outcome: 'succeeded',
+      commandId: 'cmd-2',
+      commandState: 'acknowledged',
+    });
+    await HostScheduleExecutionModel.record({
+      scheduleId: 'schedule-2',
+      hostFqn: 'lab@home',
+      action: 'wake',
+      attemptedAt: '2026-02-21T07:00:00.000Z',
+      outcome: 'pending',
+      commandId: 'cmd-3',
+    });
+
+    expect(failed).toMatchObject({
+      scheduleId: 'schedule-1',
+      outcome: 'failed',
+      commandId: null,
+      commandState: 'failed',
+      error: 'Node home is offline',
+      wakeVerification: null,
+    });
+    expect(failed.completedAt).toEqual(expect.any(String));
+
+    const executions = await HostScheduleExecutionModel.listBySchedule('schedule-1');
+    expect(executions.map((execution) => execution.id)).toEqual([succeeded.id, failed.id]);
+    await expect(HostScheduleExecutionModel.listBySchedule('schedule-1', 1)).resolves.toHaveLength(1);
+  });
+
+  it('completes pending wake executions with the verification outcome', async () => {
+    const pending = await HostScheduleExecutionModel.record({
+      scheduleId: 'schedule-1',
+      hostFqn: 'office@home',
+      action: 'wake',
+      attemptedAt: '2026-02-20T07:00:00.000Z',
+      outcome: 'pending',
+      commandId: 'cmd-1',
+      commandState: 'acknowledged',
+    });
+    expect(pending.completedAt).toBeNull();
+
+    const wakeVerification = {
+      status: 'timeout' as const,
+      attempts: 40,
+      elapsedMs: 120_000,
+      startedAt: '2026-02-20T07:00:01.000Z',
+    };
+    const completed = await HostScheduleExecutionModel.completeWakeVerification('cmd-1', wakeVerification);
+
+    expect(completed).toMatchObject({
+      id: pending.id,
+      outcome: 'failed',
+      wakeVerification,
+      error: 'Wake verification timeout',
+    });
+    expect(completed?.completedAt).toEqual(expect.any(String));
+    await expect(
+      HostScheduleExecutionModel.completeWakeVerification('cmd-1', { ...wakeVerification, status: 'confirmed' }),
+    ).resolves.toBeNull();
+    await expect(
+      HostScheduleExecutionModel.completeWakeVerification('unknown-command', wakeVerification),
+    ).resolves.toBeNull();
+  });
+
+  it('deletes the execution log of a schedule', async () => {
+    await HostScheduleExecutionModel.record({
+      scheduleId: 'schedule-1',
+      hostFqn: 'office@home',
+      action: 'sleep',
+      attemptedAt: '2026-02-20T22:00:00.000Z',
+      outcome: 'succeeded',
+    });
+
+    await expect(HostScheduleExecutionModel.deleteBySchedule('schedule-1')).resolves.toBe(1);
+    await expect(HostScheduleExecutionModel.listBySchedule('schedule-1')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import db from '../../database/connection';
+import HostWakeDependencyModel from '../HostWakeDependency';
+
+describe('HostWakeDependencyModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await HostWakeDependencyModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM host_wake_dependencies');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('replaces and lists prerequisites in declaration order', async () => {
+    await HostWakeDependencyModel.replaceForHost('plex@home', ['nas@home', 'switch@home']);
+    await expect(HostWakeDependencyModel.listDependsOn('plex@home')).resolves.toEqual([
+      'nas@home',
+      'switch@home',
+    ]);
+
+    await HostWakeDependencyModel.replaceForHost('plex@home', ['switch@home']);
+    await expect(HostWakeDependencyModel.listDependsOn('plex@home')).resolves.toEqual(['switch@home']);
+
+    await HostWakeDependencyModel.replaceForHost('plex@home', []);
+    await expect(HostWakeDependencyModel.listDependsOn('plex@home')).resolves.toEqual([]);
+  });
+
+  it('deletes edges on both sides of removed hosts', async () => {
+    await HostWakeDependencyModel.replaceForHost('plex@home', ['nas@home', 'switch@home']);
+    await HostWakeDependencyModel.replaceForHost('nas@home', ['switch@home']);
+    await HostWakeDependencyModel.replaceForHost('backup@home', ['switch@home']);
+
+    await HostWakeDependencyModel.deleteForHosts(['nas@home']);
+
+    await expect(HostWakeDependencyModel.listDependsOn('plex@home')).resolves.toEqual(['switch@home']);
+    await expect(HostWakeDependencyModel.listDependsOn('nas@home')).resolves.toEqual([]);
+    await expect(HostWakeDependencyModel.listDependsOn('backup@home')).resolves.toEqual(['switch@home']);
+  });
+
+  it('detects direct and transitive cycles', async () => {
+    await HostWakeDependencyModel.replaceForHost('vm@lab', ['hypervisor@lab']);
+    await HostWakeDependencyModel.replaceForHost('hypervisor@lab', ['nas@office']);
+
+    await expect(HostWakeDependencyModel.findCycle('hypervisor@lab', ['vm@lab'])).resolves.toEqual([
+      'hypervisor@lab',
+      'vm@lab',
+      'hypervisor@lab',
+    ]);
+    await expect(HostWakeDependencyModel.findCycle('nas@office', ['vm@lab'])).resolves.toEqual([
+      'nas@office',
+      'vm@lab',
+      'hypervisor@lab',
+      'nas@office',
+    ]);
+  });
+
+  it('accepts acyclic graphs, including shared prerequisites', async () => {
+    await HostWakeDependencyModel.replaceForHost('plex@home', ['nas@home']);
+    await HostWakeDependencyModel.replaceForHost('backup@home', ['nas@home']);
+
+    await expect(
+      HostWakeDependencyModel.findCycle('htpc@home', ['plex@home', 'backup@home']),
+    ).resolves.toBeNull();
+    // Replacing a host's own edges ignores the edges being replaced.
+    await expect(HostWakeDependencyModel.findCycle('plex@home', ['backup@home'])).resolves.toBeNull();
+  });
+});
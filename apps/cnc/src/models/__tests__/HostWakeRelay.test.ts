@@ -0,0 +1,42 @@
+import db from '../../database/connection';
+import HostWakeRelayModel from '../HostWakeRelay';
+
+describe('HostWakeRelayModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await HostWakeRelayModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM host_wake_relays');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('stores, replaces and reads back a relay assignment', async () => {
+    await HostWakeRelayModel.upsert('nas@home', 'lab-node', '192.168.20.255');
+    const replaced = await HostWakeRelayModel.upsert('nas@home', 'garage-node', '192.168.20.14');
+
+    const stored = await HostWakeRelayModel.findByHost('nas@home');
+    expect(stored).toEqual({
+      fqn: 'nas@home',
+      relayNodeId: 'garage-node',
+      targetAddress: '192.168.20.14',
+      updatedAt: replaced.updatedAt,
+    });
+  });
+
+  it('returns null for hosts without a relay', async () => {
+    await expect(HostWakeRelayModel.findByHost('plex@home')).resolves.toBeNull();
+  });
+
+  it('reports whether a relay was deleted', async () => {
+    await HostWakeRelayModel.upsert('nas@home', 'lab-node', '192.168.20.255');
+
+    await expect(HostWakeRelayModel.delete('nas@home')).resolves.toBe(true);
+    await expect(HostWakeRelayModel.delete('nas@home')).resolves.toBe(false);
+    await expect(HostWakeRelayModel.findByHost('nas@home')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import db from '../../database/connection';
+import OidcIdentityModel from '../OidcIdentity';
+import UserModel from '../User';
+
+describe('OidcIdentityModel', () => {
+  const issuer = 'https://idp.example.com';
+
+  beforeAll(async () => {
+    await db.connect();
+    await OidcIdentityModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM oidc_identities');
+    await db.query('DELETE FROM users');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('keeps the first link of a subject and removes links with the user account', async () => {
+    const alice = await UserModel.create({ username: 'alice', passwordHash: 'hash', role: 'operator' });
+    const other = await UserModel.create({ username: 'other', passwordHash: 'hash', role: 'operator' });
+
+    await expect(OidcIdentityModel.findUserId(issuer, 'alice-sub')).resolves.toBeNull();
+    await expect(OidcIdentityModel.link(issuer, 'alice-sub', alice.id)).resolves.toBe(alice.id);
+    await expect(OidcIdentityModel.link(issuer, 'alice-sub', other.id)).resolves.toBe(alice.id);
+    await expect(OidcIdentityModel.findUserId('https://other-idp.example.com', 'alice-sub')).resolves.toBeNull();
+
+    await UserModel.delete(alice.id);
+    await expect(OidcIdentityModel.findUserId(issuer, 'alice-sub')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import db from '../../database/connection';
+import PluginStorageModel, { PLUGIN_STORAGE_VALUE_MAX_BYTES } from '../PluginStorage';
+
+describe('PluginStorageModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await PluginStorageModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM plugin_storage');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('stores JSON values per plugin namespace', async () => {
+    await PluginStorageModel.set('alpha', 'cursor', { offset: 3, ids: ['a'] });
+    await PluginStorageModel.set('beta', 'cursor', 'other');
+
+    await expect(PluginStorageModel.get('alpha', 'cursor')).resolves.toEqual({ offset: 3, ids: ['a'] });
+    await expect(PluginStorageModel.get('beta', 'cursor')).resolves.toBe('other');
+    await expect(PluginStorageModel.get('alpha', 'missing')).resolves.toBeNull();
+  });
+
+  it('overwrites, lists and deletes keys', async () => {
+    await PluginStorageModel.set('alpha', 'b', 1);
+    await PluginStorageModel.set('alpha', 'a', 2);
+    await PluginStorageModel.set('alpha', 'b', 3);
+
+    await expect(PluginStorageModel.keys('alpha')).resolves.toEqual(['a', 'b']);
+    await expect(PluginStorageModel.get('alpha', 'b')).resolves.toBe(3);
+
+    await expect(PluginStorageModel.delete('alpha', 'a')).resolves.toBe(true);
+    await expect(PluginStorageModel.delete('alpha', 'a')).resolves.toBe(false);
+    await expect(PluginStorageModel.keys('alpha')).resolves.toEqual(['b']);
+  });
+
+  it('rejects empty keys, oversized values and unserializable values', async () => {
+    await expect(PluginStorageModel.set('alpha', '', 1)).rejects.toThrow('Plugin storage keys');
+    await expect(
+      PluginStorageModel.set('alpha', 'big', 'x'.repeat(PLUGIN_STORAGE_VALUE_MAX_BYTES)),
+    ).rejects.toThrow('at most');
+    await expect(PluginStorageModel.set('alpha', 'fn', () => undefined)).rejects.toThrow('JSON serializable');
+  });
+});
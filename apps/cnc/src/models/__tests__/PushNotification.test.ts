@@ -1,4 +1,5 @@
 import db from '../../database/connection';
+import HostGroupModel from '../HostGroup';
 import PushNotificationModel, { DEFAULT_NOTIFICATION_PREFERENCES } from '../PushNotification';
 
 describe('PushNotificationModel', () => {
@@ -25,6 +26,7 @@ describe('PushNotificationModel', () => {
 
     expect(created.userId).toBe('operator-1');
     expect(created.platform).toBe('ios');
+    expect(created.apnsEnvironment).toBe('production');
 
     const listed = await PushNotificationModel.listDevicesByUser('operator-1');
     expect(listed).toHaveLength(1);
@@ -49,6 +51,7 @@ describe('PushNotificationModel', () => {
 
     expect(updated.userId).toBe('operator-2');
     expect(updated.platform).toBe('android');
+    expect(updated).not.toHaveProperty('apnsEnvironment');
 
     const user1Devices = await PushNotificationModel.listDevicesByUser('operator-1');
     const user2Devices = await PushNotificationModel.listDevicesByUser('operator-2');
@@ -57,6 +60,46 @@ describe('PushNotificationModel', () => {
     expect(user2Devices[0].token).toBe('test-shared-token-12345678');
   });
 
+  it('stores the APNs environment of iOS devices and updates it on re-registration', async () => {
+    await PushNotificationModel.upsertDevice({
+      userId: 'operator-1',
+      platform: 'ios',
+      token: 'test-ios-sandbox-token-12345678',
+      apnsEnvironment: 'sandbox',
+    });
+    expect((await PushNotificationModel.listAllDevices())[0].apnsEnvironment).toBe('sandbox');
+
+    const updated = await PushNotificationModel.upsertDevice({
+      userId: 'operator-1',
+      platform: 'ios',
+      token: 'test-ios-sandbox-token-12345678',
+      apnsEnvironment: 'production',
+    });
+    expect(updated.apnsEnvironment).toBe('production');
+  });
+
+  it('keeps Web Push keys for dispatch without returning them from the API listing', async () => {
+    const webPushKeys = {
+      p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM',
+      auth: 'tBHItJI5svbpez7KI4CCXg',
+    };
+    const created = await PushNotificationModel.upsertDevice({
+      userId: 'operator-1',
+      platform: 'web',
+      token: 'https://push.example.com/send/abc',
+      webPushKeys,
+    });
+    await PushNotificationModel.upsertDevice({ userId: 'operator-1', platform: 'email', token: 'ops@example.com' });
+
+    expect(created).not.toHaveProperty('webPushKeys');
+    for (const device of await PushNotificationModel.listDevicesByUser('operator-1')) {
+      expect(device).not.toHaveProperty('webPushKeys');
+    }
+    const stored = await PushNotificationModel.listAllDevices();
+    expect(stored.find((device) => device.platform === 'web')?.webPushKeys).toEqual(webPushKeys);
+    expect(stored.find((device) => device.platform === 'email')).not.toHaveProperty('webPushKeys');
+  });
+
   it('deletes device by user/token and by token', async () => {
     await PushNotificationModel.upsertDevice({
       userId: 'operator-1',
@@ -122,4 +165,134 @@ describe('PushNotificationModel', () => {
     });
     expect(preferences.get('operator-2')).toBeUndefined();
   });
+
+  it('stores scoped rules and keeps an empty global event list next to them', async () => {
+    const rules = [
+      {
+        scope: 'host' as const,
+        target: 'backup@node-1',
+        events: ['host.asleep' as const],
+        asleepLongerThanMinutes: 90,
+      },
+      { scope: 'tag' as const, target: 'lab', events: ['host.awake' as const], digestMinutes: 15 },
+    ];
+    await PushNotificationModel.upsertPreferences('operator-1', { enabled: true, events: [], quietHours: null, rules });
+
+    expect(await PushNotificationModel.getPreferences('operator-1')).toEqual({
+      enabled: true,
+      events: [],
+      quietHours: null,
+      rules,
+    });
+
+    await PushNotificationModel.upsertPreferences('operator-1', { enabled: true, events: ['host.awake'] });
+    expect(await PushNotificationModel.getPreferences('operator-1')).toEqual({
+      enabled: true,
+      events: ['host.awake'],
+      quietHours: null,
+    });
+  });
+
+  it('resolves host scopes and hosts that are still asleep from status history', async () => {
+    if (!db.isSqlite) {
+      return;
+    }
+
+    await db.query(`INSERT INTO nodes (id, name, location) VALUES ('node-1', 'Node 1', 'lab')`);
+    await db.query(
+      `INSERT INTO aggregated_hosts (node_id, name, mac, ip, status, location, fully_qualified_name, tags)
+       VALUES ('node-1', 'backup', 'AA:BB:CC:DD:EE:01', '10.0.0.5', 'asleep', 'lab', 'backup@node-1',
+               '["storage","lab"]')`,
+    );
+    const group = await HostGroupModel.create({ name: 'Backups', hostFqns: ['backup@node-1'] });
+    await db.query(
+      `INSERT INTO host_status_history (host_fqn, old_status, new_status, changed_at) VALUES
+         ('backup@node-1', 'awake', 'asleep', '2026-02-18T10:00:00.000Z'),
+         ('desktop@node-1', 'awake', 'asleep', '2026-02-18T10:05:00.000Z'),
+         ('desktop@node-1', 'asleep', 'awake', '2026-02-18T10:20:00.000Z'),
+         ('nas@node-1', 'awake', 'asleep', '2026-02-18T08:00:00.000Z')`,
+    );
+
+    expect(await PushNotificationModel.getHostScope('backup@node-1')).toEqual({
+      hostFqn: 'backup@node-1',
+      nodeId: 'node-1',
+      tags: ['storage', 'lab'],
+      groupIds: [group.id],
+    });
+    expect(await PushNotificationModel.getHostScope('unknown@node-9')).toEqual({
+      hostFqn: 'unknown@node-9',
+      nodeId: null,
+      tags: [],
+      groupIds: [],
+    });
+    expect(
+      await PushNotificationModel.listHostsAsleepSince('2026-02-18T09:00:00.000Z', '2026-02-18T11:00:00.000Z'),
+    ).toEqual([{ hostFqn: 'backup@node-1', asleepSince: '2026-02-18T10:00:00.000Z' }]);
+  });
+
+  it('upgrades legacy SQLite tables whose platform check predates the self-hosted channels', async () => {
+    if (!db.isSqlite) {
+      return;
+    }
+
+    await db.query('DROP TABLE push_devices');
+    await db.query(`
+      CREATE TABLE push_devices (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        platform TEXT NOT NULL CHECK(platform IN ('ios', 'android')),
+        token TEXT NOT NULL UNIQUE,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.query(
+      `INSERT INTO push_devices (id, user_id, platform, token)
+       VALUES ('legacy-1', 'operator-1', 'ios', 'legacy-ios-token-12345678')`,
+    );
+    (PushNotificationModel as unknown as { tableReady: Promise<void> | null }).tableReady = null;
+
+    await PushNotificationModel.ensureTables();
+
+    expect(await PushNotificationModel.listDevicesByUser('operator-1')).toEqual([
+      expect.objectContaining({ id: 'legacy-1', platform: 'ios', apnsEnvironment: 'production' }),
+    ]);
+    const ntfy = await PushNotificationModel.upsertDevice({ userId: 'operator-1', platform: 'ntfy', token: 'woly' });
+    expect(ntfy.platform).toBe('ntfy');
+  });
+
+  it('adds the rules column to legacy SQLite preference tables', async () => {
+    if (!db.isSqlite) {
+      return;
+    }
+
+    await db.query('DROP TABLE notification_preferences');
+    await db.query(`
+      CREATE TABLE notification_preferences (
+        user_id TEXT PRIMARY KEY,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        events TEXT NOT NULL,
+        quiet_hours TEXT,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.query(`INSERT INTO notification_preferences (user_id, events) VALUES ('operator-1', '["host.awake"]')`);
+    (PushNotificationModel as unknown as { tableReady: Promise<void> | null }).tableReady = null;
+
+    await PushNotificationModel.ensureTables();
+
+    expect(await PushNotificationModel.getPreferences('operator-1')).toEqual({
+      enabled: true,
+      events: ['host.awake'],
+      quietHours: null,
+    });
+    await PushNotificationModel.upsertPreferences('operator-1', {
+      enabled: true,
+      events: [],
+      rules: [{ scope: 'node', target: 'node-1', events: ['scan.complete'] }],
+    });
+    expect((await PushNotificationModel.getPreferences('operator-1')).rules).toHaveLength(1);
+  });
 });
@@ -0,0 +1,68 @@
+import db from '../../database/connection';
+import RefreshTokenModel from '../RefreshToken';
+import UserModel from '../User';
+
+describe('RefreshTokenModel', () => {
+  let userId: string;
+
+  beforeAll(async () => {
+    await db.connect();
+    await RefreshTokenModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM refresh_tokens');
+    await db.query('DELETE FROM users');
+    userId = (await UserModel.create({ username: 'alice', passwordHash: 'hash', role: 'operator' })).id;
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('stores only a hash and rotates tokens once', async () => {
+    const issued = await RefreshTokenModel.issue(userId);
+    const stored = await db.query<{ token_hash: string }>('SELECT token_hash FROM refresh_tokens');
+    expect(stored.rows[0].token_hash).not.toBe(issued.token);
+    expect(new Date(issued.expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+    const rotated = await RefreshTokenModel.rotate(issued.token);
+    expect(rotated).toMatchObject({ status: 'rotated', userId });
+    if (rotated.status !== 'rotated') {
+      throw new Error('expected rotation');
+    }
+    expect(rotated.token).not.toBe(issued.token);
+
+    await expect(RefreshTokenModel.rotate('unknown-token')).resolves.toEqual({ status: 'invalid' });
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const issued = await RefreshTokenModel.issue(userId);
+    const rotated = await RefreshTokenModel.rotate(issued.token);
+    if (rotated.status !== 'rotated') {
+      throw new Error('expected rotation');
+    }
+
+    await expect(RefreshTokenModel.rotate(issued.token)).resolves.toEqual({ status: 'reused', userId });
+    await expect(RefreshTokenModel.rotate(rotated.token)).resolves.toEqual({ status: 'reused', userId });
+  });
+
+  it('revokes a session on logout and all sessions of a user', async () => {
+    const first = await RefreshTokenModel.issue(userId);
+    const second = await RefreshTokenModel.issue(userId);
+
+    await expect(RefreshTokenModel.revoke(first.token)).resolves.toBe(true);
+    await expect(RefreshTokenModel.revoke('unknown-token')).resolves.toBe(false);
+    expect((await RefreshTokenModel.rotate(first.token)).status).toBe('reused');
+
+    await expect(RefreshTokenModel.revokeAllForUser(userId)).resolves.toBe(1);
+    expect((await RefreshTokenModel.rotate(second.token)).status).toBe('reused');
+  });
+
+  it('deletes tokens with their user', async () => {
+    const issued = await RefreshTokenModel.issue(userId);
+    await UserModel.delete(userId);
+
+    await expect(RefreshTokenModel.rotate(issued.token)).resolves.toEqual({ status: 'invalid' });
+  });
+});
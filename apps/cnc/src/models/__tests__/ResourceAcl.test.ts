@@ -0,0 +1,69 @@
+import db from '../../database/connection';
+import ResourceAclModel, { permissionSatisfies } from '../ResourceAcl';
+import UserModel from '../User';
+
+describe('ResourceAclModel', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  beforeAll(async () => {
+    await db.connect();
+    await ResourceAclModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM resource_acl');
+    await db.query('DELETE FROM users');
+    aliceId = (await UserModel.create({ username: 'alice', passwordHash: 'hash', role: 'operator' })).id;
+    bobId = (await UserModel.create({ username: 'bob', passwordHash: 'hash', role: 'operator' })).id;
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('orders permissions view < operate < owner', () => {
+    expect(permissionSatisfies('owner', 'operate')).toBe(true);
+    expect(permissionSatisfies('operate', 'view')).toBe(true);
+    expect(permissionSatisfies('view', 'operate')).toBe(false);
+    expect(permissionSatisfies('operate', 'owner')).toBe(false);
+  });
+
+  it('grants, replaces and lists permissions per resource and per user', async () => {
+    const granted = await ResourceAclModel.grant('host', 'desktop@home', aliceId, 'view');
+    expect(granted).toMatchObject({
+      resourceType: 'host',
+      resourceId: 'desktop@home',
+      userId: aliceId,
+      username: 'alice',
+      permission: 'view',
+    });
+
+    await ResourceAclModel.grant('host', 'desktop@home', aliceId, 'owner');
+    await ResourceAclModel.grant('host', 'desktop@home', bobId, 'operate');
+    await ResourceAclModel.grant('node', 'home-node', aliceId, 'view');
+
+    const entries = await ResourceAclModel.listForResource('host', 'desktop@home');
+    expect(entries.map((entry) => [entry.username, entry.permission])).toEqual([
+      ['alice', 'owner'],
+      ['bob', 'operate'],
+    ]);
+
+    const aliceGrants = await ResourceAclModel.listForUser(aliceId);
+    expect(aliceGrants.map((entry) => `${entry.resourceType}:${entry.resourceId}`)).toEqual([
+      'host:desktop@home',
+      'node:home-node',
+    ]);
+  });
+
+  it('revokes grants and drops them with the user', async () => {
+    await ResourceAclModel.grant('host', 'desktop@home', aliceId, 'view');
+    await ResourceAclModel.grant('host', 'desktop@home', bobId, 'view');
+
+    await expect(ResourceAclModel.revoke('host', 'desktop@home', aliceId)).resolves.toBe(true);
+    await expect(ResourceAclModel.revoke('host', 'desktop@home', aliceId)).resolves.toBe(false);
+
+    await UserModel.delete(bobId);
+    await expect(ResourceAclModel.listForResource('host', 'desktop@home')).resolves.toEqual([]);
+  });
+});
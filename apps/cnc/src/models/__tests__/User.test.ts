@@ -0,0 +1,52 @@
+import db from '../../database/connection';
+import UserModel from '../User';
+
+describe('UserModel', () => {
+  beforeAll(async () => {
+    await db.connect();
+    await UserModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM users');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('creates users and finds them by id or case-insensitive username', async () => {
+    const created = await UserModel.create({ username: 'Alice', passwordHash: 'scrypt$hash', role: 'operator' });
+
+    expect(created).toMatchObject({ username: 'Alice', role: 'operator', disabled: false });
+    expect(created).not.toHaveProperty('passwordHash');
+    await expect(UserModel.findById(created.id)).resolves.toEqual(created);
+    await expect(UserModel.findByUsername('alice')).resolves.toEqual(created);
+    await expect(UserModel.findCredentialsByUsername('ALICE')).resolves.toEqual({
+      user: created,
+      passwordHash: 'scrypt$hash',
+    });
+    await expect(
+      UserModel.create({ username: 'alice', passwordHash: 'other', role: 'admin' }),
+    ).rejects.toMatchObject({ code: 'SQLITE_CONSTRAINT_UNIQUE' });
+  });
+
+  it('updates role, password and disabled flag, lists and deletes users', async () => {
+    const bob = await UserModel.create({ username: 'bob', passwordHash: 'first', role: 'operator' });
+    await UserModel.create({ username: 'alice', passwordHash: 'hash', role: 'admin' });
+
+    const updated = await UserModel.update(bob.id, { role: 'admin', disabled: true, passwordHash: 'second' });
+    expect(updated).toMatchObject({ role: 'admin', disabled: true });
+    await expect(UserModel.findCredentialsByUsername('bob')).resolves.toMatchObject({ passwordHash: 'second' });
+
+    const reenabled = await UserModel.update(bob.id, { disabled: false });
+    expect(reenabled).toMatchObject({ role: 'admin', disabled: false });
+
+    const listed = await UserModel.list();
+    expect(listed.map((user) => user.username)).toEqual(['alice', 'bob']);
+
+    await expect(UserModel.update('missing', { disabled: true })).resolves.toBeNull();
+    await expect(UserModel.delete(bob.id)).resolves.toBe(true);
+    await expect(UserModel.delete(bob.id)).resolves.toBe(false);
+  });
+});
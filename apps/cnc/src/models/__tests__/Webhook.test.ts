@@ -8,6 +8,7 @@ describe('WebhookModel', () => {
   });
 
   beforeEach(async () => {
+    await db.query('DELETE FROM webhook_delivery_queue');
     await db.query('DELETE FROM webhook_delivery_logs');
     await db.query('DELETE FROM webhooks');
   });
@@ -55,6 +56,28 @@ describe('WebhookModel', () => {
     expect(nodeTargets).toHaveLength(0);
   });
 
+  it('stores the payload format and template', async () => {
+    const webhook = await WebhookModel.create({
+      url: 'https://example.com/webhooks/plain',
+      events: ['host.awake'],
+    });
+    expect(webhook).toMatchObject({ format: 'raw', template: null });
+
+    const slack = await WebhookModel.update(webhook.id, {
+      format: 'slack',
+      template: '{{hostName}} is {{newStatus}}',
+    });
+    expect(slack).toMatchObject({ format: 'slack', template: '{{hostName}} is {{newStatus}}' });
+    await expect(WebhookModel.listTargetsByEvent('host.awake')).resolves.toEqual([
+      expect.objectContaining({ format: 'slack', template: '{{hostName}} is {{newStatus}}' }),
+    ]);
+
+    await expect(WebhookModel.update(webhook.id, { template: null })).resolves.toMatchObject({
+      format: 'slack',
+      template: null,
+    });
+  });
+
   it('records and lists delivery log entries', async () => {
     const webhook = await WebhookModel.create({
       url: 'https://example.com/webhooks/delivery',
@@ -97,6 +120,127 @@ describe('WebhookModel', () => {
     expect(deliveries[1].status).toBe('failed');
   });
 
+  it('updates url, events and secret and skips disabled webhooks when dispatching', async () => {
+    const webhook = await WebhookModel.create({
+      url: 'https://example.com/webhooks/old',
+      events: ['host.awake'],
+      secret: 'old-secret',
+    });
+    expect(webhook.enabled).toBe(true);
+
+    const updated = await WebhookModel.update(webhook.id, {
+      url: 'https://example.com/webhooks/new',
+      events: ['host.awake', 'host.asleep'],
+      secret: 'new-secret',
+    });
+    expect(updated).toMatchObject({
+      id: webhook.id,
+      url: 'https://example.com/webhooks/new',
+      events: ['host.awake', 'host.asleep'],
+      hasSecret: true,
+      enabled: true,
+    });
+    await expect(WebhookModel.findTargetById(webhook.id)).resolves.toMatchObject({ secret: 'new-secret' });
+
+    const disabled = await WebhookModel.update(webhook.id, { enabled: false, secret: null });
+    expect(disabled).toMatchObject({ enabled: false, hasSecret: false });
+    await expect(WebhookModel.listTargetsByEvent('host.asleep')).resolves.toEqual([]);
+
+    await WebhookModel.update(webhook.id, { enabled: true });
+    await expect(WebhookModel.listTargetsByEvent('host.asleep')).resolves.toHaveLength(1);
+
+    await expect(WebhookModel.update('missing', { enabled: false })).resolves.toBeNull();
+  });
+
+  it('finds a delivery log entry by id', async () => {
+    const webhook = await WebhookModel.create({
+      url: 'https://example.com/webhooks/redeliver',
+      events: ['host.removed'],
+    });
+    await WebhookModel.recordDelivery({
+      webhookId: webhook.id,
+      eventType: 'host.removed',
+      attempt: 3,
+      status: 'failed',
+      responseStatus: 502,
+      error: 'HTTP 502',
+      payload: { event: 'host.removed', timestamp: '2026-02-18T20:00:00.000Z', data: { hostFqn: 'pc@home' } },
+    });
+
+    const [logged] = await WebhookModel.listDeliveries(webhook.id);
+    await expect(WebhookModel.findDeliveryById(logged.id)).resolves.toEqual(logged);
+    await expect(WebhookModel.findDeliveryById(logged.id + 1)).resolves.toBeNull();
+  });
+
+  it('queues retries and lists those that are due with their webhook', async () => {
+    const webhook = await WebhookModel.create({
+      url: 'https://example.com/webhooks/queue',
+      events: ['host.awake'],
+      secret: 'queue-secret',
+    });
+    const payload = { event: 'host.awake', timestamp: '2026-02-18T20:00:00.000Z', data: { hostFqn: 'pc@home' } };
+
+    await WebhookModel.enqueueDelivery({
+      webhookId: webhook.id,
+      eventType: 'host.awake',
+      payload,
+      attempt: 2,
+      nextAttemptAt: new Date('2026-02-18T20:00:05.000Z'),
+    });
+    await WebhookModel.enqueueDelivery({
+      webhookId: webhook.id,
+      eventType: 'host.awake',
+      payload,
+      attempt: 3,
+      nextAttemptAt: new Date('2026-02-18T20:10:00.000Z'),
+    });
+
+    const due = await WebhookModel.listDueDeliveries(new Date('2026-02-18T20:01:00.000Z'), 10);
+    expect(due).toEqual([
+      {
+        id: expect.any(Number),
+        eventType: 'host.awake',
+        payload,
+        attempt: 2,
+        nextAttemptAt: '2026-02-18T20:00:05.000Z',
+        target: {
+          id: webhook.id,
+          url: 'https://example.com/webhooks/queue',
+          events: ['host.awake'],
+          secret: 'queue-secret',
+          enabled: true,
+          format: 'raw',
+          template: null,
+        },
+      },
+    ]);
+
+    await WebhookModel.deleteQueuedDelivery(due[0].id);
+    await expect(WebhookModel.listDueDeliveries(new Date('2026-02-18T20:01:00.000Z'), 10)).resolves.toEqual([]);
+
+    await WebhookModel.delete(webhook.id);
+    await expect(WebhookModel.listDueDeliveries(new Date('2026-02-18T21:00:00.000Z'), 10)).resolves.toEqual([]);
+  });
+
+  it('counts consecutive failures until reset or re-enabled', async () => {
+    const webhook = await WebhookModel.create({
+      url: 'https://example.com/webhooks/failing',
+      events: ['host.awake'],
+    });
+
+    await expect(WebhookModel.incrementFailureCount(webhook.id)).resolves.toBe(1);
+    await expect(WebhookModel.incrementFailureCount(webhook.id)).resolves.toBe(2);
+
+    await WebhookModel.resetFailureCount(webhook.id);
+    await expect(WebhookModel.incrementFailureCount(webhook.id)).resolves.toBe(1);
+
+    await WebhookModel.update(webhook.id, { enabled: false });
+    await WebhookModel.update(webhook.id, { enabled: true });
+    await expect(WebhookModel.incrementFailureCount(webhook.id)).resolves.toBe(1);
+
+    await expect(WebhookModel.incrementFailureCount('missing')).resolves.toBe(0);
+  });
+
   it('deletes webhook subscriptions', async () => {
     const webhook = await WebhookModel.create({
       url: 'https://example.com/webhooks/delete-me',
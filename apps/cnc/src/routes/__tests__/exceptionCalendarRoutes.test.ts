@@ -0,0 +1,152 @@
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRoutes } from '../index';
+import { NodeManager } from '../../services/nodeManager';
+import { HostAggregator } from '../../services/hostAggregator';
+import { CommandRouter } from '../../services/commandRouter';
+import ExceptionCalendarModel from '../../models/ExceptionCalendar';
+import UserModel from '../../models/User';
+import { createToken } from './testUtils';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    jwtSecret: 'test-secret',
+    jwtIssuer: 'test-issuer',
+    jwtAudience: 'test-audience',
+    port: 8080,
+    dbType: 'sqlite',
+    dbPath: ':memory:',
+    nodeAuthTokens: ['test-node-token'],
+    nodeHeartbeatInterval: 30000,
+    nodeTimeout: 60000,
+    jwtTtlSeconds: 3600,
+  },
+}));
+
+jest.mock('../../models/ExceptionCalendar', () => {
+  const calendar = {
+    id: 'calendar-1',
+    name: 'Holidays',
+    description: null,
+    source: 'dates',
+    dates: [{ date: '2026-12-25', label: 'Christmas' }],
+    createdAt: '2026-02-18T00:00:00.000Z',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+
+  return {
+    __esModule: true,
+    normalizeExceptionDates: jest.requireActual('../../models/ExceptionCalendar').normalizeExceptionDates,
+    default: {
+      list: jest.fn(async () => [calendar]),
+      findById: jest.fn(async () => calendar),
+      findByName: jest.fn(async () => null),
+      create: jest.fn(async () => calendar),
+      update: jest.fn(async () => calendar),
+      delete: jest.fn(async () => true),
+    },
+  };
+});
+
+jest.mock('../../models/HostSchedule', () => ({
+  __esModule: true,
+  default: {
+    listByExceptionCalendar: jest.fn(async () => []),
+  },
+}));
+
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(async (id: string) => ({ id, disabled: false })),
+  },
+}));
+
+describe('Exception Calendar Routes Authorization', () => {
+  let app: Express;
+  const now = Math.floor(Date.now() / 1000);
+  const mockedCalendars = ExceptionCalendarModel as jest.Mocked<typeof ExceptionCalendarModel>;
+
+  const operatorToken = (claims: Record<string, unknown> = {}) =>
+    createToken({
+      sub: 'operator-1',
+      role: 'operator',
+      iss: 'test-issuer',
+      aud: 'test-audience',
+      exp: now + 3600,
+      nbf: now - 10,
+      ...claims,
+    });
+
+  beforeAll(() => {
+    const nodeManager = {
+      isNodeConnected: jest.fn().mockReturnValue(false),
+    } as unknown as NodeManager;
+
+    const hostAggregator = {
+      getAllHosts: jest.fn().mockResolvedValue([]),
+      getHostsByNode: jest.fn().mockResolvedValue([]),
+      getStats: jest.fn().mockResolvedValue({ total: 0, awake: 0, asleep: 0 }),
+      getHostByFQN: jest.fn().mockResolvedValue(null),
+    } as unknown as HostAggregator;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createRoutes(nodeManager, hostAggregator, {} as CommandRouter));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lets scoped user accounts read calendars but not change them', async () => {
+    const token = operatorToken({ uid: 'operator-1' });
+
+    const listResponse = await request(app)
+      .get('/api/exception-calendars')
+      .set('Authorization', `Bearer ${token}`);
+    expect(listResponse.status).toBe(200);
+    expect(listResponse.body.calendars).toHaveLength(1);
+
+    const responses = [
+      await request(app)
+        .post('/api/exception-calendars')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Holidays', dates: ['2026-12-25'] }),
+      await request(app)
+        .put('/api/exception-calendars/calendar-1')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ dates: ['2026-12-26'] }),
+      await request(app)
+        .delete('/api/exception-calendars/calendar-1')
+        .set('Authorization', `Bearer ${token}`),
+    ];
+
+    for (const response of responses) {
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({
+        code: 'AUTH_FORBIDDEN',
+        message: 'Not available to accounts limited by resource permissions',
+      });
+    }
+    expect(UserModel.findById).toHaveBeenCalledWith('operator-1');
+    expect(mockedCalendars.create).not.toHaveBeenCalled();
+    expect(mockedCalendars.update).not.toHaveBeenCalled();
+    expect(mockedCalendars.delete).not.toHaveBeenCalled();
+  });
+
+  it('lets unscoped operators and admin accounts change calendars', async () => {
+    const createResponse = await request(app)
+      .post('/api/exception-calendars')
+      .set('Authorization', `Bearer ${operatorToken()}`)
+      .send({ name: 'Holidays', dates: ['2026-12-25'] });
+    expect(createResponse.status).toBe(201);
+
+    const deleteResponse = await request(app)
+      .delete('/api/exception-calendars/calendar-1')
+      .set('Authorization', `Bearer ${operatorToken({ sub: 'admin-1', uid: 'admin-1', role: 'admin' })}`);
+    expect(deleteResponse.status).toBe(200);
+    expect(mockedCalendars.delete).toHaveBeenCalledWith('calendar-1');
+  });
+});
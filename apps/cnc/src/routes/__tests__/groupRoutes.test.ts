@@ -0,0 +1,145 @@
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRoutes } from '../index';
+import { NodeManager } from '../../services/nodeManager';
+import { HostAggregator } from '../../services/hostAggregator';
+import { CommandRouter } from '../../services/commandRouter';
+import { createToken } from './testUtils';
+
+jest.mock('../../config', () => ({
+  __esModule: true,
+  default: {
+    jwtSecret: 'test-secret',
+    jwtIssuer: 'test-issuer',
+    jwtAudience: 'test-audience',
+    port: 8080,
+    dbType: 'sqlite',
+    dbPath: ':memory:',
+    nodeAuthTokens: ['test-node-token'],
+    nodeHeartbeatInterval: 30000,
+    nodeTimeout: 60000,
+    jwtTtlSeconds: 3600,
+  },
+}));
+
+jest.mock('../../models/HostGroup', () => {
+  const group = {
+    id: 'group-1',
+    name: 'Lab',
+    description: null,
+    hostFqns: ['pc-1@lab-node', 'nas@office-node'],
+    createdAt: '2026-02-18T00:00:00.000Z',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      list: jest.fn(async () => [group]),
+      findById: jest.fn(async () => group),
+      findByName: jest.fn(async () => null),
+      create: jest.fn(async () => group),
+      update: jest.fn(async () => group),
+      delete: jest.fn(async () => true),
+    },
+  };
+});
+
+describe('Group Routes Authentication and Authorization', () => {
+  let app: Express;
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeAll(() => {
+    const nodeManager = {
+      isNodeConnected: jest.fn().mockReturnValue(false),
+    } as unknown as NodeManager;
+
+    const hostAggregator = {
+      getAllHosts: jest.fn().mockResolvedValue([]),
+      getHostsByNode: jest.fn().mockResolvedValue([]),
+      getStats: jest.fn().mockResolvedValue({ total: 0, awake: 0, asleep: 0 }),
+      getHostByFQN: jest.fn().mockResolvedValue(null),
+    } as unknown as HostAggregator;
+
+    const commandRouter = {
+      routeHostGroupCommand: jest.fn().mockResolvedValue({
+        jobId: 'job_1',
+        groupId: 'group-1',
+        action: 'wake',
+        state: 'completed',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:01.000Z',
+        summary: { total: 2, succeeded: 2, failed: 0 },
+        results: [
+          { fqn: 'pc-1@lab-node', nodeId: 'lab-node', state: 'acknowledged' },
+          { fqn: 'nas@office-node', nodeId: 'office-node', state: 'acknowledged' },
+        ],
+      }),
+    } as unknown as CommandRouter;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createRoutes(nodeManager, hostAggregator, commandRouter));
+  });
+
+  it('returns 401 for /api/groups without authentication', async () => {
+    const response = await request(app).get('/api/groups');
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 403 for /api/groups with unsupported role', async () => {
+    const token = createToken({
+      sub: 'viewer-1',
+      role: 'viewer',
+      iss: 'test-issuer',
+      aud: 'test-audience',
+      exp: now + 3600,
+      nbf: now - 10,
+    });
+
+    const response = await request(app)
+      .post('/api/groups/group-1/wake')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('allows operators to manage groups and wake them', async () => {
+    const token = createToken({
+      sub: 'operator-1',
+      role: 'operator',
+      iss: 'test-issuer',
+      aud: 'test-audience',
+      exp: now + 3600,
+      nbf: now - 10,
+    });
+
+    const listResponse = await request(app)
+      .get('/api/groups')
+      .set('Authorization', `Bearer ${token}`);
+    expect(listResponse.status).toBe(200);
+    expect(listResponse.body.groups).toHaveLength(1);
+
+    const createResponse = await request(app)
+      .post('/api/groups')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Lab', hostFqns: ['pc-1@lab-node', 'nas@office-node'] });
+    expect(createResponse.status).toBe(201);
+
+    const wakeResponse = await request(app)
+      .post('/api/groups/group-1/wake')
+      .set('Authorization', `Bearer ${token}`)
+      .send({});
+    expect(wakeResponse.status).toBe(200);
+    expect(wakeResponse.body).toMatchObject({
+      jobId: 'job_1',
+      state: 'completed',
+      summary: { total: 2, succeeded: 2, failed: 0 },
+    });
+
+    const deleteResponse = await request(app)
+      .delete('/api/groups/group-1')
+      .set('Authorization', `Bearer ${token}`);
+    expect(deleteResponse.status).toBe(200);
+  });
+});
@@ -62,6 +62,20 @@ describe('Host Routes Authentication and Authorization', () => {
         .mockRejectedValue(new Error('Host not found: node1.example.com')),
       routeUpdateHostCommand: jest.fn().mockResolvedValue({ success: false, error: 'Node not connected' }),
       routeDeleteHostCommand: jest.fn().mockResolvedValue({ success: false, error: 'Node not connected' }),
+      routeBulkHostCommand: jest.fn().mockResolvedValue({
+        action: 'ping',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:00.000Z',
+        summary: { total: 1, succeeded: 0, failed: 1 },
+        results: [
+          {
+            fqn: 'node1@example',
+            success: false,
+            state: 'failed',
+            error: 'Host not found: node1@example',
+          },
+        ],
+      }),
     } as unknown as CommandRouter;
 
     // Create Express app with routes
@@ -487,6 +501,55 @@ describe('Host Routes Authentication and Authorization', () => {
     });
   });
 
+  describe('POST /api/hosts/bulk', () => {
+    it('returns 401 when no authorization header is provided', async () => {
+      const response = await request(app)
+        .post('/api/hosts/bulk')
+        .send({ action: 'ping', fqns: ['node1@example'] });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('returns 403 for unsupported role', async () => {
+      const token = createToken({
+        sub: 'user-1',
+        role: 'viewer',
+        iss: 'test-issuer',
+        aud: 'test-audience',
+        exp: now + 3600,
+        nbf: now - 10,
+      });
+
+      const response = await request(app)
+        .post('/api/hosts/bulk')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ action: 'ping', fqns: ['node1@example'] });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('returns per-item results for operators', async () => {
+      const token = createToken({
+        sub: 'user-1',
+        role: 'operator',
+        iss: 'test-issuer',
+        aud: 'test-audience',
+        exp: now + 3600,
+        nbf: now - 10,
+      });
+
+      const response = await request(app)
+        .post('/api/hosts/bulk')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ action: 'ping', fqns: ['node1@example'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results).toEqual([
+        expect.objectContaining({ fqn: 'node1@example', success: false, state: 'failed' }),
+      ]);
+    });
+  });
+
   describe('PUT /api/hosts/:fqn/merge-mac', () => {
     it('returns 401 when no authorization header is provided', async () => {
       const response = await request(app).put('/api/hosts/node1.example.com/merge-mac').send({
@@ -51,6 +51,7 @@ jest.mock('../../models/HostSchedule', () => ({
     create: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
+    withSkippedRuns: jest.fn(async (schedules: unknown[]) => schedules),
   },
 }));
 
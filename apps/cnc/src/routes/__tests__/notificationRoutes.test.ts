@@ -4,6 +4,7 @@ import { createRoutes } from '../index';
 import { NodeManager } from '../../services/nodeManager';
 import { HostAggregator } from '../../services/hostAggregator';
 import { CommandRouter } from '../../services/commandRouter';
+import config from '../../config';
 import PushNotificationModel from '../../models/PushNotification';
 import { createToken } from './testUtils';
 
@@ -152,6 +153,7 @@ describe('Notification Routes Authentication and Authorization', () => {
       .send({
         platform: 'ios',
         token: 'test-ios-token-12345678',
+        apnsEnvironment: 'sandbox',
       });
     expect(createResponse.status).toBe(201);
 
@@ -186,7 +188,83 @@ describe('Notification Routes Authentication and Authorization', () => {
       userId: 'operator-1',
       platform: 'ios',
       token: 'test-ios-token-12345678',
+      apnsEnvironment: 'sandbox',
     });
     expect(mockedPushModel.deleteDevice).toHaveBeenCalledWith('operator-1', 'ios-token-12345678');
   });
+
+  it('accepts scoped notification rules and rejects an empty event list without them', async () => {
+    const token = createToken({
+      sub: 'operator-1',
+      role: 'operator',
+      iss: 'test-issuer',
+      aud: 'test-audience',
+      exp: now + 3600,
+      nbf: now - 10,
+    });
+    const rules = [{ scope: 'group', target: 'group-1', events: ['host.asleep'], asleepLongerThanMinutes: 60 }];
+
+    const withRules = await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ enabled: true, events: [], rules });
+    expect(withRules.status).toBe(200);
+    expect(PushNotificationModel.upsertPreferences).toHaveBeenCalledWith('operator-1', {
+      enabled: true,
+      events: [],
+      rules,
+    });
+
+    const withoutRules = await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ enabled: true, events: [] });
+    expect(withoutRules.status).toBe(400);
+  });
+
+  it('registers self-hosted channels and serves the Web Push public key', async () => {
+    const token = createToken({
+      sub: 'operator-1',
+      role: 'operator',
+      iss: 'test-issuer',
+      aud: 'test-audience',
+      exp: now + 3600,
+      nbf: now - 10,
+    });
+
+    const emailResponse = await request(app)
+      .post('/api/devices')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ platform: 'email', token: 'ops@example.com' });
+    expect(emailResponse.status).toBe(201);
+    expect(PushNotificationModel.upsertDevice).toHaveBeenCalledWith(
+      expect.objectContaining({ platform: 'email', token: 'ops@example.com' }),
+    );
+
+    const webWithoutKeys = await request(app)
+      .post('/api/devices')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ platform: 'web', token: 'https://push.example.com/send/abc' });
+    expect(webWithoutKeys.status).toBe(400);
+
+    const unconfigured = await request(app)
+      .get('/api/devices/web-push-key')
+      .set('Authorization', `Bearer ${token}`);
+    expect(unconfigured.status).toBe(404);
+
+    Object.assign(config, {
+      webPushVapidPublicKey: 'BPublicKey',
+      webPushVapidPrivateKey: 'private',
+      webPushVapidSubject: 'mailto:ops@example.com',
+    });
+    try {
+      const configured = await request(app)
+        .get('/api/devices/web-push-key')
+        .set('Authorization', `Bearer ${token}`);
+      expect(configured.status).toBe(200);
+      expect(configured.body).toEqual({ publicKey: 'BPublicKey' });
+    } finally {
+      Object.assign(config, { webPushVapidPublicKey: '', webPushVapidPrivateKey: '', webPushVapidSubject: '' });
+    }
+  });
 });
@@ -7,7 +7,15 @@ import { NodesController } from '../controllers/nodes';
 import { AdminController } from '../controllers/admin';
 import { HostsController } from '../controllers/hosts';
 import { SchedulesController } from '../controllers/schedules';
+import { GroupsController } from '../controllers/groups';
+import { ExceptionCalendarsController } from '../controllers/exceptionCalendars';
+import { WakeDependenciesController } from '../controllers/wakeDependencies';
+import { WakeRelayController } from '../controllers/wakeRelay';
 import { AuthController } from '../controllers/auth';
+import { UsersController } from '../controllers/users';
+import { ResourceAclController } from '../controllers/resourceAcl';
+import { ApiKeysController } from '../controllers/apiKeys';
+import { AuditController } from '../controllers/audit';
 import { MetaController } from '../controllers/meta';
 import { NotificationsController } from '../controllers/notifications';
 import { WebhooksController } from '../controllers/webhooks';
@@ -15,83 +23,300 @@ import { NodeManager } from '../services/nodeManager';
 import { HostAggregator } from '../services/hostAggregator';
 import { CommandRouter } from '../services/commandRouter';
 import type { HostStateStreamBroker } from '../services/hostStateStreamBroker';
+import type { OidcClient } from '../services/oidcClient';
+import type { PluginManager } from '../services/plugins/pluginManager';
 import { runtimeMetrics } from '../services/runtimeMetrics';
-import { authenticateJwt, authorizeRoles } from '../middleware/auth';
+import { AccessControl } from '../services/accessControl';
+import HostGroupModel from '../models/HostGroup';
+import HostScheduleModel from '../models/HostSchedule';
+import {
+  authenticateJwt,
+  authorizeResource,
+  authorizeRoles,
+  rejectScopedUsers,
+  requireApiKeyScope,
+  type ApiKeyScopeResolver,
+  type ResourceIdResolver,
+} from '../middleware/auth';
+import { auditAction, type AuditTargetResolver } from '../middleware/audit';
 import { apiLimiter, scheduleSyncLimiter, strictAuthLimiter } from '../middleware/rateLimiter';
 import { assignCorrelationId } from '../middleware/correlationId';
 import { CNC_VERSION } from '../utils/cncVersion';
 import { prometheusContentType, renderPrometheusMetrics } from '../services/promMetrics';
 
+function readStringList(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : null;
+}
+
+function readParam(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+// Resource id resolvers for per-resource authorization
+const hostFromParams: ResourceIdResolver = (req) => readParam(req.params.fqn);
+const nodeFromParams: ResourceIdResolver = (req) => readParam(req.params.id);
+const scheduleHost: ResourceIdResolver = async (req) => {
+  const id = readParam(req.params.id);
+  return id ? ((await HostScheduleModel.findById(id))?.hostFqn ?? null) : null;
+};
+const groupMembers: ResourceIdResolver = async (req) => {
+  const id = readParam(req.params.id);
+  return id ? ((await HostGroupModel.findById(id))?.hostFqns ?? null) : null;
+};
+const groupMembersFromBody: ResourceIdResolver = (req) => readStringList(req.body?.hostFqns);
+const bulkHosts: ResourceIdResolver = (req) => readStringList(req.body?.fqns);
+const bulkHostsForOwnerActions: ResourceIdResolver = (req) =>
+  req.body?.action === 'update' || req.body?.action === 'delete' ? readStringList(req.body?.fqns) : null;
+const wakeDependencyHosts: ResourceIdResolver = (req) => readStringList(req.body?.dependsOn);
+
+// Audit log targets
+const auditHost: AuditTargetResolver = (req) => ({ targetFqn: readParam(req.params.fqn) });
+const auditNode: AuditTargetResolver = (req) => ({ targetNodeId: readParam(req.params.id) });
+const auditId =
+  (key: string): AuditTargetResolver =>
+  (req) => ({ details: { [key]: readParam(req.params.id) } });
+const auditHostUpdate: AuditTargetResolver = (req) => ({
+  targetFqn: readParam(req.params.fqn),
+  details: { fields: req.body && typeof req.body === 'object' ? Object.keys(req.body) : [] },
+});
+const auditHostPower: AuditTargetResolver = (req) => ({
+  targetFqn: readParam(req.params.fqn),
+  details: { action: readParam(req.body?.action) },
+});
+const auditHostMac: AuditTargetResolver = (req) => ({
+  targetFqn: readParam(req.params.fqn),
+  details: { mac: readParam(req.params.mac) ?? readParam(req.body?.mac) },
+});
+const auditBulkHosts: AuditTargetResolver = (req) => ({
+  details: { action: readParam(req.body?.action), fqns: readStringList(req.body?.fqns) },
+});
+const auditAclGrant: AuditTargetResolver = (req) => {
+  const resourceId = readParam(req.params.resourceId);
+  const isNode = req.params.resourceType === 'node';
+  return {
+    targetFqn: isNode ? null : resourceId,
+    targetNodeId: isNode ? resourceId : null,
+    details: { userId: readParam(req.params.userId) ?? readParam(req.body?.userId) },
+  };
+};
+
+// API key scopes per route group; paths are relative to the group's mount point
+const SCHEDULE_PATH = /^\/(?:[^/]+\/schedules|schedules\/[^/]+)$/;
+const hostScopes: ApiKeyScopeResolver = (req) => {
+  if (req.method === 'GET') {
+    return SCHEDULE_PATH.test(req.path) ? ['hosts:read', 'schedules:manage'] : ['hosts:read'];
+  }
+  if (req.method === 'POST' && /^\/wakeup\/[^/]+$/.test(req.path)) {
+    return ['hosts:wake'];
+  }
+  return SCHEDULE_PATH.test(req.path) ? ['schedules:manage'] : [];
+};
+const scheduleScopes: ApiKeyScopeResolver = (req) =>
+  req.method === 'GET' ? ['hosts:read', 'schedules:manage'] : ['schedules:manage'];
+const nodeScopes: ApiKeyScopeResolver = (req) => (req.method === 'GET' ? ['hosts:read'] : []);
+// Only the entities plugin is open to API keys, for home-automation polling.
+const ENTITY_READ_PATH = /^\/entities\/v1\/entities(?:\/[^/]+(?:\/stream)?)?$/;
+const ENTITY_TURN_ON_PATH = /^\/entities\/v1\/entities\/[^/]+\/turn_on$/;
+const pluginScopes: ApiKeyScopeResolver = (req) => {
+  if (req.method === 'GET' && ENTITY_READ_PATH.test(req.path)) {
+    return ['hosts:read'];
+  }
+  return req.method === 'POST' && ENTITY_TURN_ON_PATH.test(req.path) ? ['hosts:wake'] : [];
+};
+const noApiKeys = requireApiKeyScope(() => []);
+
 export function createRoutes(
   nodeManager: NodeManager,
   hostAggregator: HostAggregator,
   commandRouter: CommandRouter,
   hostStateStreamBroker?: HostStateStreamBroker,
+  oidcClient?: OidcClient,
+  pluginManager?: PluginManager,
 ): Router {
   const router = Router();
   router.use(assignCorrelationId);
 
+  const accessControl = new AccessControl(hostAggregator);
+  const canView = (resolve: ResourceIdResolver) => authorizeResource(accessControl, 'host', 'view', resolve);
+  const canOperate = (resolve: ResourceIdResolver) => authorizeResource(accessControl, 'host', 'operate', resolve);
+  const canOwn = (resolve: ResourceIdResolver) => authorizeResource(accessControl, 'host', 'owner', resolve);
+  const wakeJobHost: ResourceIdResolver = (req) => {
+    const jobId = readParam(req.params.jobId);
+    return jobId ? (commandRouter.getWakeDependencyJob(jobId)?.fqn ?? null) : null;
+  };
+
   // Controllers
-  const nodesController = new NodesController(nodeManager);
+  const nodesController = new NodesController(nodeManager, accessControl);
   const adminController = new AdminController(
     hostAggregator,
     nodeManager,
     commandRouter,
     hostStateStreamBroker,
   );
-  const hostsController = new HostsController(hostAggregator, commandRouter);
-  const schedulesController = new SchedulesController(hostAggregator);
-  const authController = new AuthController();
+  const hostsController = new HostsController(hostAggregator, commandRouter, accessControl);
+  const schedulesController = new SchedulesController(hostAggregator, accessControl);
+  const groupsController = new GroupsController(commandRouter, accessControl);
+  const exceptionCalendarsController = new ExceptionCalendarsController();
+  const wakeDependenciesController = new WakeDependenciesController(hostAggregator);
+  const wakeRelayController = new WakeRelayController(hostAggregator);
+  const authController = new AuthController(oidcClient);
+  const usersController = new UsersController();
+  const resourceAclController = new ResourceAclController(accessControl, hostAggregator);
   const metaController = new MetaController();
   const notificationsController = new NotificationsController();
   const webhooksController = new WebhooksController();
+  const apiKeysController = new ApiKeysController();
+  const auditController = new AuditController();
 
   // Public API routes with rate limiting
   router.post('/auth/token', strictAuthLimiter, (req, res) => authController.issueToken(req, res));
+  router.post('/auth/login', strictAuthLimiter, (req, res) => authController.login(req, res));
+  router.post('/auth/refresh', strictAuthLimiter, (req, res) => authController.refresh(req, res));
+  router.post('/auth/logout', strictAuthLimiter, (req, res) => authController.logout(req, res));
+  router.get('/auth/oidc/config', strictAuthLimiter, (req, res) => authController.getOidcConfig(req, res));
+  router.post('/auth/oidc/token', strictAuthLimiter, (req, res) => authController.exchangeOidcCode(req, res));
   router.get('/capabilities', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'), (req, res) =>
     metaController.getCapabilities(req, res),
   );
 
   // Route group protection
-  router.use('/nodes', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'));
-  router.use('/hosts', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'));
-  router.use('/schedules', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'));
-  router.use('/devices', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'));
-  router.use('/notifications', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'));
-  router.use('/webhooks', apiLimiter, authenticateJwt, authorizeRoles('operator', 'admin'));
+  const operatorOrAdmin = authorizeRoles('operator', 'admin');
+  router.use('/nodes', apiLimiter, authenticateJwt, operatorOrAdmin, requireApiKeyScope(nodeScopes));
+  router.use('/hosts', apiLimiter, authenticateJwt, operatorOrAdmin, requireApiKeyScope(hostScopes));
+  router.use('/schedules', apiLimiter, authenticateJwt, operatorOrAdmin, requireApiKeyScope(scheduleScopes));
+  router.use('/exception-calendars', apiLimiter, authenticateJwt, operatorOrAdmin, noApiKeys);
+  router.use('/groups', apiLimiter, authenticateJwt, operatorOrAdmin, noApiKeys);
+  router.use('/devices', apiLimiter, authenticateJwt, operatorOrAdmin, noApiKeys);
+  router.use('/notifications', apiLimiter, authenticateJwt, operatorOrAdmin, noApiKeys);
+  router.use('/webhooks', apiLimiter, authenticateJwt, operatorOrAdmin, noApiKeys, rejectScopedUsers);
+  router.use('/acl', apiLimiter, authenticateJwt, operatorOrAdmin, noApiKeys);
+  if (pluginManager) {
+    router.use(
+      '/plugins',
+      apiLimiter,
+      authenticateJwt,
+      operatorOrAdmin,
+      requireApiKeyScope(pluginScopes),
+      pluginManager.createRouter(),
+    );
+  }
   router.use('/admin', apiLimiter, authenticateJwt, authorizeRoles('admin'));
 
   // Node API routes (protected)
   router.get('/nodes', (req, res) => nodesController.listNodes(req, res));
-  router.get('/nodes/:id', (req, res) => nodesController.getNode(req, res));
-  router.get('/nodes/:id/health', (req, res) => nodesController.getNodeHealth(req, res));
+  const canViewNode = authorizeResource(accessControl, 'node', 'view', nodeFromParams);
+  router.get('/nodes/:id', canViewNode, (req, res) => nodesController.getNode(req, res));
+  router.get('/nodes/:id/health', canViewNode, (req, res) => nodesController.getNodeHealth(req, res));
 
   // Aggregated schedule API routes
   router.get('/schedules', scheduleSyncLimiter, (req, res) =>
     schedulesController.listSchedules(req, res),
   );
-  router.get('/schedules/:id', scheduleSyncLimiter, (req, res) =>
+  router.get('/schedules/:id', scheduleSyncLimiter, canView(scheduleHost), (req, res) =>
     schedulesController.getSchedule(req, res),
   );
-  router.put('/schedules/:id', scheduleSyncLimiter, (req, res) =>
-    schedulesController.updateSchedule(req, res),
+  router.get('/schedules/:id/executions', scheduleSyncLimiter, canView(scheduleHost), (req, res) =>
+    schedulesController.listScheduleExecutions(req, res),
+  );
+  router.put(
+    '/schedules/:id',
+    scheduleSyncLimiter,
+    auditAction('schedule.update', auditId('scheduleId')),
+    canOperate(scheduleHost),
+    (req, res) => schedulesController.updateSchedule(req, res),
+  );
+  router.delete(
+    '/schedules/:id',
+    scheduleSyncLimiter,
+    auditAction('schedule.delete', auditId('scheduleId')),
+    canOperate(scheduleHost),
+    (req, res) => schedulesController.deleteSchedule(req, res),
+  );
+
+  // Schedule exception calendar API routes
+  router.get('/exception-calendars', (req, res) => exceptionCalendarsController.listCalendars(req, res));
+  // Calendars apply to every schedule that references them, so only unscoped callers change them.
+  router.post('/exception-calendars', auditAction('exception-calendar.create'), rejectScopedUsers, (req, res) =>
+    exceptionCalendarsController.createCalendar(req, res),
+  );
+  router.get('/exception-calendars/:id', (req, res) => exceptionCalendarsController.getCalendar(req, res));
+  router.put(
+    '/exception-calendars/:id',
+    auditAction('exception-calendar.update', auditId('calendarId')),
+    rejectScopedUsers,
+    (req, res) => exceptionCalendarsController.updateCalendar(req, res),
   );
-  router.delete('/schedules/:id', scheduleSyncLimiter, (req, res) =>
-    schedulesController.deleteSchedule(req, res),
+  router.delete(
+    '/exception-calendars/:id',
+    auditAction('exception-calendar.delete', auditId('calendarId')),
+    rejectScopedUsers,
+    (req, res) => exceptionCalendarsController.deleteCalendar(req, res),
+  );
+
+  // Host group API routes
+  router.get('/groups', (req, res) => groupsController.listGroups(req, res));
+  router.post('/groups', auditAction('group.create'), canView(groupMembersFromBody), (req, res) =>
+    groupsController.createGroup(req, res),
+  );
+  router.get('/groups/:id', (req, res) => groupsController.getGroup(req, res));
+  router.put(
+    '/groups/:id',
+    auditAction('group.update', auditId('groupId')),
+    canOperate(groupMembers),
+    canView(groupMembersFromBody),
+    (req, res) => groupsController.updateGroup(req, res),
+  );
+  router.delete('/groups/:id', auditAction('group.delete', auditId('groupId')), canOperate(groupMembers), (req, res) =>
+    groupsController.deleteGroup(req, res),
+  );
+  router.post('/groups/:id/wake', auditAction('group.wake', auditId('groupId')), canOperate(groupMembers), (req, res) =>
+    groupsController.wakeGroup(req, res),
+  );
+  router.post(
+    '/groups/:id/sleep',
+    auditAction('group.sleep', auditId('groupId')),
+    canOperate(groupMembers),
+    (req, res) => groupsController.sleepGroup(req, res),
+  );
+  router.post(
+    '/groups/:id/shutdown',
+    auditAction('group.shutdown', auditId('groupId')),
+    canOperate(groupMembers),
+    (req, res) => groupsController.shutdownGroup(req, res),
   );
 
   // Webhook API routes
   router.get('/webhooks', (req, res) => webhooksController.listWebhooks(req, res));
-  router.post('/webhooks', (req, res) => webhooksController.createWebhook(req, res));
+  router.post('/webhooks', auditAction('webhook.create'), (req, res) => webhooksController.createWebhook(req, res));
   router.get('/webhooks/:id/deliveries', (req, res) => webhooksController.getWebhookDeliveries(req, res));
-  router.delete('/webhooks/:id', (req, res) => webhooksController.deleteWebhook(req, res));
+  router.patch('/webhooks/:id', auditAction('webhook.update', auditId('webhookId')), (req, res) =>
+    webhooksController.updateWebhook(req, res),
+  );
+  router.delete('/webhooks/:id', auditAction('webhook.delete', auditId('webhookId')), (req, res) =>
+    webhooksController.deleteWebhook(req, res),
+  );
+  router.post('/webhooks/:id/test', auditAction('webhook.test', auditId('webhookId')), (req, res) =>
+    webhooksController.testWebhook(req, res),
+  );
+  router.post(
+    '/webhooks/deliveries/:id/redeliver',
+    auditAction('webhook.redeliver', auditId('deliveryId')),
+    (req, res) => webhooksController.redeliverWebhookDelivery(req, res),
+  );
 
   // Push notification API routes
   router.get('/devices', (req, res) => notificationsController.listDevices(req, res));
-  router.post('/devices', (req, res) => notificationsController.registerDevice(req, res));
-  router.delete('/devices/:token', (req, res) => notificationsController.deregisterDevice(req, res));
+  router.get('/devices/web-push-key', (req, res) => notificationsController.getWebPushPublicKey(req, res));
+  router.post('/devices', auditAction('device.register'), (req, res) =>
+    notificationsController.registerDevice(req, res),
+  );
+  router.delete('/devices/:token', auditAction('device.deregister'), (req, res) =>
+    notificationsController.deregisterDevice(req, res),
+  );
   router.get('/notifications/preferences', (req, res) => notificationsController.getPreferences(req, res));
-  router.put('/notifications/preferences', (req, res) => notificationsController.updatePreferences(req, res));
+  router.put('/notifications/preferences', auditAction('notification-preferences.update'), (req, res) =>
+    notificationsController.updatePreferences(req, res),
+  );
 
   // Host API routes
   // IMPORTANT: mac-vendor must be registered before the :fqn catch-all
@@ -99,41 +324,146 @@ export function createRoutes(
     hostsController.getMacVendor(req, res),
   );
   // IMPORTANT: ping/ports/scan-ports must be registered before the :fqn catch-all
-  router.get('/hosts/ping/:fqn', (req, res) => hostsController.pingHost(req, res));
-  router.get('/hosts/ports/:fqn', (req, res) => hostsController.getHostPorts(req, res));
-  router.get('/hosts/scan-ports/:fqn', (req, res) => hostsController.scanHostPorts(req, res));
-  router.post('/hosts/scan', (req, res) => hostsController.scanHosts(req, res));
+  router.get('/hosts/ping/:fqn', canOperate(hostFromParams), (req, res) => hostsController.pingHost(req, res));
+  router.get('/hosts/ports/:fqn', canOperate(hostFromParams), (req, res) => hostsController.getHostPorts(req, res));
+  router.get('/hosts/scan-ports/:fqn', canOperate(hostFromParams), (req, res) =>
+    hostsController.scanHostPorts(req, res),
+  );
+  router.post('/hosts/scan', auditAction('host.scan'), rejectScopedUsers, (req, res) =>
+    hostsController.scanHosts(req, res),
+  );
+  router.post(
+    '/hosts/bulk',
+    auditAction('host.bulk', auditBulkHosts),
+    canOperate(bulkHosts),
+    canOwn(bulkHostsForOwnerActions),
+    (req, res) => hostsController.bulkHostOperation(req, res),
+  );
+  router.get('/hosts/wake-jobs/:jobId', canView(wakeJobHost), (req, res) =>
+    hostsController.getWakeDependencyJob(req, res),
+  );
   router.get('/hosts/merge-candidates', (req, res) => hostsController.getMergeCandidates(req, res));
-  router.put('/hosts/:fqn/merge-mac', (req, res) => hostsController.mergeHostMac(req, res));
-  router.delete('/hosts/:fqn/merge-mac/:mac', (req, res) => hostsController.unmergeHostMac(req, res));
+  router.put('/hosts/:fqn/merge-mac', auditAction('host.merge-mac', auditHostMac), canOwn(hostFromParams), (req, res) =>
+    hostsController.mergeHostMac(req, res),
+  );
+  router.delete(
+    '/hosts/:fqn/merge-mac/:mac',
+    auditAction('host.unmerge-mac', auditHostMac),
+    canOwn(hostFromParams),
+    (req, res) => hostsController.unmergeHostMac(req, res),
+  );
   // IMPORTANT: schedule routes must be registered before the :fqn catch-all
-  router.get('/hosts/:fqn/schedules', scheduleSyncLimiter, (req, res) =>
+  router.get('/hosts/:fqn/schedules', scheduleSyncLimiter, canView(hostFromParams), (req, res) =>
     schedulesController.listHostSchedules(req, res),
   );
-  router.post('/hosts/:fqn/schedules', scheduleSyncLimiter, (req, res) =>
-    schedulesController.createHostSchedule(req, res),
+  router.post(
+    '/hosts/:fqn/schedules',
+    scheduleSyncLimiter,
+    auditAction('schedule.create', auditHost),
+    canOperate(hostFromParams),
+    (req, res) => schedulesController.createHostSchedule(req, res),
   );
-  router.put('/hosts/schedules/:id', scheduleSyncLimiter, (req, res) =>
-    schedulesController.updateSchedule(req, res),
+  router.put(
+    '/hosts/schedules/:id',
+    scheduleSyncLimiter,
+    auditAction('schedule.update', auditId('scheduleId')),
+    canOperate(scheduleHost),
+    (req, res) => schedulesController.updateSchedule(req, res),
   );
-  router.delete('/hosts/schedules/:id', scheduleSyncLimiter, (req, res) =>
-    schedulesController.deleteSchedule(req, res),
+  router.delete(
+    '/hosts/schedules/:id',
+    scheduleSyncLimiter,
+    auditAction('schedule.delete', auditId('scheduleId')),
+    canOperate(scheduleHost),
+    (req, res) => schedulesController.deleteSchedule(req, res),
   );
   router.get('/hosts', (req, res) => hostsController.getHosts(req, res));
   // IMPORTANT: history/uptime must be registered before the :fqn catch-all
-  router.get('/hosts/:fqn/history', (req, res) => hostsController.getHostHistory(req, res));
-  router.get('/hosts/:fqn/uptime', (req, res) => hostsController.getHostUptime(req, res));
-  router.get('/hosts/:fqn', (req, res) => hostsController.getHostByFQN(req, res));
-  router.post('/hosts/wakeup/:fqn', (req, res) => hostsController.wakeupHost(req, res));
-  router.post('/hosts/:fqn/sleep', (req, res) => hostsController.sleepHost(req, res));
-  router.post('/hosts/:fqn/shutdown', (req, res) => hostsController.shutdownHost(req, res));
-  router.put('/hosts/:fqn', (req, res) => hostsController.updateHost(req, res));
-  router.delete('/hosts/:fqn', (req, res) => hostsController.deleteHost(req, res));
+  router.get('/hosts/:fqn/history', canView(hostFromParams), (req, res) => hostsController.getHostHistory(req, res));
+  router.get('/hosts/:fqn/uptime', canView(hostFromParams), (req, res) => hostsController.getHostUptime(req, res));
+  router.get('/hosts/:fqn/dependencies', canView(hostFromParams), (req, res) =>
+    wakeDependenciesController.getDependencies(req, res),
+  );
+  // Prerequisites are woken on the dependent host's behalf, so they need operate permission too
+  router.put(
+    '/hosts/:fqn/dependencies',
+    auditAction('host.dependencies.update', auditHost),
+    canOwn(hostFromParams),
+    canOperate(wakeDependencyHosts),
+    (req, res) => wakeDependenciesController.updateDependencies(req, res),
+  );
+  router.get('/hosts/:fqn/wake-relay', canView(hostFromParams), (req, res) => wakeRelayController.getRelay(req, res));
+  router.put(
+    '/hosts/:fqn/wake-relay',
+    auditAction('host.wake-relay.update', auditHost),
+    canOwn(hostFromParams),
+    (req, res) => wakeRelayController.updateRelay(req, res),
+  );
+  router.delete(
+    '/hosts/:fqn/wake-relay',
+    auditAction('host.wake-relay.delete', auditHost),
+    canOwn(hostFromParams),
+    (req, res) => wakeRelayController.deleteRelay(req, res),
+  );
+  router.get('/hosts/:fqn', canView(hostFromParams), (req, res) => hostsController.getHostByFQN(req, res));
+  router.post('/hosts/wakeup/:fqn', auditAction('host.wake', auditHost), canOperate(hostFromParams), (req, res) =>
+    hostsController.wakeupHost(req, res),
+  );
+  router.post('/hosts/:fqn/sleep', auditAction('host.sleep', auditHost), canOperate(hostFromParams), (req, res) =>
+    hostsController.sleepHost(req, res),
+  );
+  router.post('/hosts/:fqn/shutdown', auditAction('host.shutdown', auditHost), canOperate(hostFromParams), (req, res) =>
+    hostsController.shutdownHost(req, res),
+  );
+  router.get('/hosts/:fqn/power', canOperate(hostFromParams), (req, res) =>
+    hostsController.getHostPowerState(req, res),
+  );
+  router.post('/hosts/:fqn/power', auditAction('host.power', auditHostPower), canOperate(hostFromParams), (req, res) =>
+    hostsController.powerHost(req, res),
+  );
+  router.put('/hosts/:fqn', auditAction('host.update', auditHostUpdate), canOwn(hostFromParams), (req, res) =>
+    hostsController.updateHost(req, res),
+  );
+  router.delete('/hosts/:fqn', auditAction('host.delete', auditHost), canOwn(hostFromParams), (req, res) =>
+    hostsController.deleteHost(req, res),
+  );
+
+  // Resource ACL routes (admin, or owner of the resource)
+  router.get('/acl/:resourceType/:resourceId', (req, res) => resourceAclController.listResourceAcl(req, res));
+  router.post('/acl/:resourceType/:resourceId', auditAction('acl.grant', auditAclGrant), (req, res) =>
+    resourceAclController.grantAccess(req, res),
+  );
+  router.delete('/acl/:resourceType/:resourceId/:userId', auditAction('acl.revoke', auditAclGrant), (req, res) =>
+    resourceAclController.revokeAccess(req, res),
+  );
 
   // Admin API routes
-  router.delete('/admin/nodes/:id', (req, res) => adminController.deleteNode(req, res));
+  router.delete('/admin/nodes/:id', auditAction('node.delete', auditNode), (req, res) =>
+    adminController.deleteNode(req, res),
+  );
   router.get('/admin/stats', (req, res) => adminController.getStats(req, res));
   router.get('/admin/commands', (req, res) => adminController.listCommands(req, res));
+  router.get('/admin/users', (req, res) => usersController.listUsers(req, res));
+  router.post('/admin/users', auditAction('user.create'), (req, res) => usersController.createUser(req, res));
+  router.get('/admin/users/:id', (req, res) => usersController.getUser(req, res));
+  router.put('/admin/users/:id', auditAction('user.update', auditId('userId')), (req, res) =>
+    usersController.updateUser(req, res),
+  );
+  router.delete('/admin/users/:id', auditAction('user.delete', auditId('userId')), (req, res) =>
+    usersController.deleteUser(req, res),
+  );
+  router.delete('/admin/users/:id/sessions', auditAction('user.sessions.revoke', auditId('userId')), (req, res) =>
+    usersController.revokeUserSessions(req, res),
+  );
+  router.get('/admin/users/:id/acl', (req, res) => usersController.listUserGrants(req, res));
+  router.get('/admin/api-keys', (req, res) => apiKeysController.listApiKeys(req, res));
+  router.post('/admin/api-keys', auditAction('api-key.create'), (req, res) => apiKeysController.createApiKey(req, res));
+  router.get('/admin/api-keys/:id', (req, res) => apiKeysController.getApiKey(req, res));
+  router.delete('/admin/api-keys/:id', auditAction('api-key.revoke', auditId('apiKeyId')), (req, res) =>
+    apiKeysController.revokeApiKey(req, res),
+  );
+  router.get('/admin/api-keys/:id/usage', (req, res) => apiKeysController.getApiKeyUsage(req, res));
+  router.get('/admin/audit', (req, res) => auditController.listAuditLog(req, res));
 
   // Health check endpoint
   router.get('/health', (_req, res) => {
@@ -19,10 +19,13 @@ import { createWebSocketServer } from './websocket/server';
 import { errorHandler } from './middleware/errorHandler';
 import { reconcileCommandsOnStartup, startCommandPruning, stopCommandPruning } from './services/commandReconciler';
 import { startHostStatusHistoryPruning, stopHostStatusHistoryPruning } from './services/hostStatusHistoryRetention';
+import { startAuditLogPruning, stopAuditLogPruning } from './services/auditLogRetention';
 import { startWakeScheduleWorker, stopWakeScheduleWorker } from './services/wakeScheduleWorker';
 import { PluginEventBus } from './services/pluginEventBus';
 import { PluginEventBridge } from './services/pluginEventBridge';
 import { PluginManager } from './services/plugins/pluginManager';
+import { OidcClient } from './services/oidcClient';
+import { registerTokenVerifier } from './middleware/auth';
 import { specs } from './swagger';
 import { runtimeMetrics } from './services/runtimeMetrics';
 import { CNC_VERSION } from './utils/cncVersion';
@@ -43,6 +46,7 @@ export class Server {
   private pluginEventBus: PluginEventBus;
   private pluginEventBridge: PluginEventBridge;
   private pluginManager: PluginManager;
+  private oidcClient?: OidcClient;
 
   constructor() {
     this.app = express();
@@ -57,8 +61,27 @@ export class Server {
     this.pluginManager = new PluginManager({
       eventBus: this.pluginEventBus,
       enabledPlugins: config.enabledPlugins,
+      pluginDirectory: config.pluginDirectory,
+      pluginPackages: config.pluginPackages,
+      pluginConfigFile: config.pluginConfigFile,
+      services: { hostAggregator: this.hostAggregator, commandRouter: this.commandRouter },
     });
     this.hostStateStreamBroker.subscribeToCommandRouter(this.commandRouter);
+    if (config.oidcIssuer) {
+      this.oidcClient = new OidcClient({
+        issuer: config.oidcIssuer,
+        clientId: config.oidcClientId,
+        clientSecret: config.oidcClientSecret,
+        audiences: config.oidcAudiences,
+        jwksUri: config.oidcJwksUri,
+        scopes: config.oidcScopes,
+        roleClaim: config.oidcRoleClaim,
+        adminGroups: config.oidcAdminGroups,
+        operatorGroups: config.oidcOperatorGroups,
+        jwksCacheTtlSeconds: config.oidcJwksCacheTtlSeconds,
+      });
+      registerTokenVerifier(this.oidcClient);
+    }
     this.setupMiddleware();
     this.setupRoutes();
     this.setupWebSocket();
@@ -180,6 +203,8 @@ export class Server {
       this.hostAggregator,
       this.commandRouter,
       this.hostStateStreamBroker,
+      this.oidcClient,
+      this.pluginManager,
     ));
 
     // 404 handler
@@ -213,6 +238,7 @@ export class Server {
       // Start periodic command pruning
       startCommandPruning(config.commandRetentionDays);
       startHostStatusHistoryPruning(this.hostAggregator, config.hostStatusHistoryRetentionDays);
+      startAuditLogPruning(config.auditLogRetentionDays);
 
       // Start wake schedule execution worker
       startWakeScheduleWorker({
@@ -220,6 +246,7 @@ export class Server {
         enabled: config.scheduleWorkerEnabled,
         pollIntervalMs: config.schedulePollIntervalMs,
         batchSize: config.scheduleBatchSize,
+        eventBus: this.pluginEventBus,
       });
 
       // Start plugin subscriptions and plugin runtime
@@ -255,6 +282,7 @@ export class Server {
       // Stop command pruning
       stopCommandPruning();
       stopHostStatusHistoryPruning();
+      stopAuditLogPruning();
 
       // Stop wake schedule worker
       stopWakeScheduleWorker();
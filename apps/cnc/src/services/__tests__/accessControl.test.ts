@@ -0,0 +1,140 @@
+import { AccessControl, getScopedUserId, isScopedCaller } from '../accessControl';
+import ResourceAclModel from '../../models/ResourceAcl';
+import UserModel from '../../models/User';
+import type { ResourceAclEntry } from '../../types';
+import type { AuthContext } from '../../types/auth';
+
+jest.mock('../../models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/ResourceAcl', () => ({
+  __esModule: true,
+  permissionSatisfies: jest.requireActual('../../models/ResourceAcl').permissionSatisfies,
+  default: {
+    listForUser: jest.fn(),
+  },
+}));
+
+function grant(
+  resourceType: ResourceAclEntry['resourceType'],
+  resourceId: string,
+  permission: ResourceAclEntry['permission'],
+): ResourceAclEntry {
+  return {
+    resourceType,
+    resourceId,
+    userId: 'user-1',
+    username: 'alice',
+    permission,
+    createdAt: '2026-02-18T00:00:00.000Z',
+  };
+}
+
+describe('AccessControl', () => {
+  const mockedUsers = UserModel as jest.Mocked<typeof UserModel>;
+  const mockedAcl = ResourceAclModel as jest.Mocked<typeof ResourceAclModel>;
+  const getHostByFQN = jest.fn();
+  const accessControl = new AccessControl({ getHostByFQN });
+  const scoped: AuthContext = { sub: 'user-1', roles: ['operator'], userId: 'user-1', claims: {} };
+  const activeUser = {
+    id: 'user-1',
+    username: 'alice',
+    role: 'operator' as const,
+    disabled: false,
+    createdAt: '2026-02-18T00:00:00.000Z',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedUsers.findById.mockResolvedValue(activeUser);
+    mockedAcl.listForUser.mockResolvedValue([
+      grant('host', 'desktop@home', 'owner'),
+      grant('host', 'laptop@home', 'view'),
+      grant('node', 'office-node', 'operate'),
+    ]);
+    getHostByFQN.mockImplementation(async (fqn: string) =>
+      fqn === 'printer@office' ? { fullyQualifiedName: fqn, nodeId: 'office-node' } : null,
+    );
+  });
+
+  it('treats admins and tokens without a user id as unscoped', async () => {
+    expect(getScopedUserId(undefined)).toBeNull();
+    expect(getScopedUserId({ sub: 'mobile-1', roles: ['operator'], claims: {} })).toBeNull();
+    expect(getScopedUserId({ ...scoped, roles: ['admin'] })).toBeNull();
+    expect(getScopedUserId(scoped)).toBe('user-1');
+
+    await expect(
+      accessControl.findForbidden({ ...scoped, roles: ['admin'] }, 'host', ['anything@home'], 'owner'),
+    ).resolves.toEqual([]);
+    expect(mockedAcl.listForUser).not.toHaveBeenCalled();
+  });
+
+  it('combines host grants with grants on the reporting node', async () => {
+    await expect(
+      accessControl.findForbidden(
+        scoped,
+        'host',
+        ['desktop@home', 'laptop@home', 'printer@office', 'nas@home'],
+        'operate',
+      ),
+    ).resolves.toEqual(['laptop@home', 'nas@home']);
+    await expect(accessControl.findForbidden(scoped, 'node', ['office-node', 'home-node'], 'view')).resolves.toEqual([
+      'home-node',
+    ]);
+  });
+
+  it('filters host, node and host-owned record lists', async () => {
+    const hosts = [
+      { fullyQualifiedName: 'desktop@home', nodeId: 'home-node' },
+      { fullyQualifiedName: 'nas@home', nodeId: 'home-node' },
+      { fullyQualifiedName: 'scanner@office', nodeId: 'office-node' },
+    ];
+    await expect(accessControl.filterHosts(scoped, hosts)).resolves.toEqual([hosts[0], hosts[2]]);
+    await expect(accessControl.filterHosts(scoped, hosts, 'owner')).resolves.toEqual([hosts[0]]);
+
+    await expect(accessControl.filterNodes(scoped, [{ id: 'home-node' }, { id: 'office-node' }])).resolves.toEqual([
+      { id: 'office-node' },
+    ]);
+
+    const schedules = [{ hostFqn: 'laptop@home' }, { hostFqn: 'nas@home' }];
+    await expect(accessControl.filterByHostFqn(scoped, schedules, (item) => item.hostFqn)).resolves.toEqual([
+      schedules[0],
+    ]);
+  });
+
+  it('grants nothing to disabled users', async () => {
+    mockedUsers.findById.mockResolvedValue({ ...activeUser, disabled: true });
+
+    await expect(accessControl.findForbidden(scoped, 'host', ['desktop@home'], 'view')).resolves.toEqual([
+      'desktop@home',
+    ]);
+  });
+
+  it('limits API keys to their listed hosts and nodes without consulting the ACL', async () => {
+    const apiKey = (hostFqns: string[], nodeIds: string[]): AuthContext => ({
+      sub: 'apikey:key-1',
+      roles: ['operator'],
+      apiKey: { id: 'key-1', name: 'ci', scopes: ['hosts:wake'], hostFqns, nodeIds },
+      claims: {},
+    });
+
+    expect(isScopedCaller(apiKey([], []))).toBe(false);
+    expect(isScopedCaller(scoped)).toBe(true);
+
+    const restricted = apiKey(['desktop@home'], ['office-node']);
+    expect(isScopedCaller(restricted)).toBe(true);
+    await expect(
+      accessControl.findForbidden(restricted, 'host', ['desktop@home', 'printer@office', 'nas@home'], 'operate'),
+    ).resolves.toEqual(['nas@home']);
+    await expect(accessControl.findForbidden(restricted, 'host', ['desktop@home'], 'owner')).resolves.toEqual([
+      'desktop@home',
+    ]);
+    await expect(accessControl.findForbidden(apiKey([], []), 'host', ['nas@home'], 'owner')).resolves.toEqual([]);
+    expect(mockedAcl.listForUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { generateKeyPairSync } from 'crypto';
+import { ApnsProviderTokenSigner, parseApnsAuthKey } from '../apnsProviderToken';
+
+const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const P8_PEM = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+function readIssuedAt(token: string): number {
+  const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8')) as { iat: number };
+  return payload.iat;
+}
+
+describe('parseApnsAuthKey', () => {
+  it('parses a .p8 key with its key and team IDs', () => {
+    const key = parseApnsAuthKey(P8_PEM, ' ABC123DEFG ', 'TEAM123456');
+
+    expect(key.keyId).toBe('ABC123DEFG');
+    expect(key.teamId).toBe('TEAM123456');
+    expect(key.privateKey.asymmetricKeyType).toBe('ec');
+  });
+
+  it('rejects missing IDs and non-EC keys', () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+    expect(() => parseApnsAuthKey(P8_PEM, '', 'TEAM123456')).toThrow('APNs key ID is required');
+    expect(() => parseApnsAuthKey(P8_PEM, 'ABC123DEFG', '')).toThrow('APNs team ID is required');
+    expect(() => parseApnsAuthKey('not a key', 'ABC123DEFG', 'TEAM123456')).toThrow('not a valid PEM key');
+    expect(() =>
+      parseApnsAuthKey(rsa.export({ type: 'pkcs8', format: 'pem' }).toString(), 'ABC123DEFG', 'TEAM123456'),
+    ).toThrow('must be an EC P-256 key');
+  });
+});
+
+describe('ApnsProviderTokenSigner', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reuses the token until the refresh interval has passed', () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const signer = new ApnsProviderTokenSigner(parseApnsAuthKey(P8_PEM, 'ABC123DEFG', 'TEAM123456'));
+
+    const first = signer.getToken();
+    nowSpy.mockReturnValue(1_700_000_000_000 + 49 * 60 * 1000);
+    expect(signer.getToken()).toBe(first);
+
+    nowSpy.mockReturnValue(1_700_000_000_000 + 50 * 60 * 1000);
+    const refreshed = signer.getToken();
+    expect(refreshed).not.toBe(first);
+    expect(readIssuedAt(refreshed) - readIssuedAt(first)).toBe(50 * 60);
+  });
+
+  it('signs a new token after invalidate', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const signer = new ApnsProviderTokenSigner(parseApnsAuthKey(P8_PEM, 'ABC123DEFG', 'TEAM123456'));
+
+    const first = signer.getToken();
+    signer.invalidate();
+
+    expect(signer.getToken()).not.toBe(first);
+  });
+});
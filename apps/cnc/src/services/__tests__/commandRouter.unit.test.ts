@@ -1,6 +1,9 @@
 import { EventEmitter } from 'events';
+import type { HostPowerControlConfig, HostWakeStrategy } from '@kaonis/woly-protocol';
 import { CommandRouter } from '../commandRouter';
 import { CommandModel } from '../../models/Command';
+import HostWakeDependencyModel from '../../models/HostWakeDependency';
+import HostWakeRelayModel from '../../models/HostWakeRelay';
 import type { CommandResult } from '../../types';
 import { runtimeMetrics } from '../runtimeMetrics';
 import logger from '../../utils/logger';
@@ -34,6 +37,8 @@ interface CommandRouterInternals {
   handleCommandResult: (result: CommandResult) => void;
   pendingCommands: Map<string, PendingCommandEntry>;
   commandTimeout: number;
+  trackWakeVerificationCommand: (commandId: string, fqn: string) => void;
+  waitForWakeVerification: (commandId: string, timeoutMs: number) => Promise<unknown>;
 }
 
 class NodeManagerMock extends EventEmitter {
@@ -53,6 +58,8 @@ type HostRecord = {
   status: 'awake' | 'asleep';
   notes?: string | null;
   tags?: string[];
+  wakeStrategy?: HostWakeStrategy;
+  powerControl?: HostPowerControlConfig;
 };
 
 type HostAggregatorMock = {
@@ -108,6 +115,8 @@ describe('CommandRouter unit behavior', () => {
   beforeEach(() => {
     runtimeMetrics.reset(0);
     jest.spyOn(CommandModel, 'findById').mockResolvedValue(null);
+    jest.spyOn(HostWakeDependencyModel, 'listDependsOn').mockResolvedValue([]);
+    jest.spyOn(HostWakeRelayModel, 'findByHost').mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -164,6 +173,50 @@ describe('CommandRouter unit behavior', () => {
     router.cleanup();
   });
 
+  it('routes wake commands for relayed hosts through the relay node', async () => {
+    const { router, hostAggregator } = createRouter();
+    hostAggregator.getHostByFQN.mockResolvedValue({
+      nodeId: 'home-node',
+      name: 'nas',
+      mac: 'AA:BB:CC:DD:EE:FF',
+      ip: '192.168.20.14',
+      status: 'asleep',
+    });
+    jest.spyOn(HostWakeRelayModel, 'findByHost').mockResolvedValue({
+      fqn: 'nas@Home',
+      relayNodeId: 'lab-node',
+      targetAddress: '192.168.20.255',
+      updatedAt: '2026-02-18T00:00:00.000Z',
+    });
+    const executeSpy = jest.spyOn(router as unknown as CommandRouterInternals, 'executeCommand')
+      .mockResolvedValue({
+        commandId: 'cmd-relay',
+        success: true,
+        timestamp: new Date(),
+      });
+
+    const result = await router.routeWakeCommand('nas@Home');
+
+    expect(executeSpy).toHaveBeenCalledWith(
+      'lab-node',
+      expect.objectContaining({
+        type: 'wake',
+        data: {
+          hostName: 'nas',
+          mac: 'AA:BB:CC:DD:EE:FF',
+          targetAddress: '192.168.20.255',
+          relay: { homeNodeId: 'home-node', hostIp: '192.168.20.14' },
+        },
+      }),
+      expect.anything(),
+    );
+    expect(result).toMatchObject({
+      message: 'Wake-on-LAN packet sent to nas@Home via relay node lab-node',
+      nodeId: 'lab-node',
+    });
+    router.cleanup();
+  });
+
   it('reconciles stale in-flight commands with router timeout', async () => {
     const { router, internals } = createRouter();
     const reconcileSpy = jest.spyOn(CommandModel, 'reconcileStaleInFlight').mockResolvedValue(4);
@@ -285,6 +338,7 @@ describe('CommandRouter unit behavior', () => {
       status: 'asleep',
       notes: 'legacy note',
       tags: ['legacy'],
+      wakeStrategy: { resendCount: 2 },
     });
     nodeManager.getNodeStatus.mockResolvedValue('online');
 
@@ -301,6 +355,7 @@ describe('CommandRouter unit behavior', () => {
       notes: null,
       tags: ['prod', 'critical'],
       secondaryMacs: ['00:11:22:33:44:77'],
+      secureOnPassword: '01:23:45:67',
     });
 
     expect(executeSpy).toHaveBeenCalledWith(
@@ -311,6 +366,8 @@ describe('CommandRouter unit behavior', () => {
           secondaryMacs: ['00:11:22:33:44:77'],
           notes: null,
           tags: ['prod', 'critical'],
+          wakeStrategy: { resendCount: 2 },
+          secureOnPassword: '01:23:45:67',
         }),
       }),
       {
@@ -341,6 +398,117 @@ describe('CommandRouter unit behavior', () => {
     router.cleanup();
   });
 
+  it('wakes transitive prerequisites in a background job and waits for confirmation before the target', async () => {
+    const { router, internals, hostAggregator, nodeManager } = createRouter();
+    const hosts: Record<string, HostRecord> = {
+      'plex@Home': { nodeId: 'node-1', name: 'plex', mac: 'AA:AA:AA:AA:AA:01', ip: '10.0.0.10', status: 'asleep' },
+      'nas@Home': {
+        nodeId: 'node-1',
+        name: 'nas',
+        mac: 'AA:AA:AA:AA:AA:02',
+        ip: '10.0.0.11',
+        status: 'asleep',
+        wakeStrategy: {
+          resendCount: 1,
+          stepTimeoutMs: 10_000,
+          fallback: { type: 'webhook', url: 'http://plug.local/on' },
+        },
+      },
+      'switch@Lab': { nodeId: 'node-2', name: 'switch', mac: 'AA:AA:AA:AA:AA:03', ip: '10.0.1.1', status: 'awake' },
+    };
+    const dependencies: Record<string, string[]> = {
+      'plex@Home': ['nas@Home'],
+      'nas@Home': ['switch@Lab'],
+    };
+    hostAggregator.getHostByFQN.mockImplementation(async (fqn) => hosts[fqn] ?? null);
+    jest.spyOn(HostWakeDependencyModel, 'listDependsOn')
+      .mockImplementation(async (fqn) => dependencies[fqn] ?? []);
+    nodeManager.getNodeStatus.mockResolvedValue('online');
+    jest.spyOn(internals, 'trackWakeVerificationCommand').mockImplementation(() => undefined);
+    const executeSpy = jest.spyOn(internals, 'executeCommand')
+      .mockImplementation(async (_nodeId, command) => ({
+        commandId: command.commandId,
+        success: true,
+        timestamp: new Date(),
+      }));
+    const waitSpy = jest.spyOn(internals, 'waitForWakeVerification')
+      .mockImplementation(async () => ({
+        status: 'confirmed',
+        attempts: 2,
+        startedAt: '2026-10-18T10:00:00.000Z',
+        completedAt: '2026-10-18T10:00:06.000Z',
+      }));
+
+    const result = await router.routeWakeCommand('plex@Home', { idempotencyKey: 'idem-chain' });
+
+    expect(result.dependencyJob).toEqual(
+      expect.objectContaining({ fqn: 'plex@Home', state: 'running', prerequisites: ['switch@Lab', 'nas@Home'] })
+    );
+    const jobId = result.dependencyJob?.jobId ?? '';
+    const job = await router.waitForWakeDependencyJob(jobId);
+
+    const wakeTargets = executeSpy.mock.calls.map(
+      ([, command]) => (command.data as { hostName: string }).hostName
+    );
+    expect(wakeTargets).toEqual(['nas', 'plex']);
+    expect(executeSpy.mock.calls[0][2]).toEqual(
+      expect.objectContaining({ idempotencyKey: 'idem-chain:nas@Home' })
+    );
+    expect(executeSpy.mock.calls[1][2]).toEqual(
+      expect.objectContaining({ idempotencyKey: 'idem-chain' })
+    );
+    expect(waitSpy).toHaveBeenCalledTimes(1);
+    // Default 120s verification, two 10s strategy steps with their 5s send margins and the fallback's 30s budget.
+    expect(waitSpy).toHaveBeenCalledWith(expect.any(String), 180_000);
+    expect(job?.state).toBe('completed');
+    expect(job?.steps).toEqual([
+      { fqn: 'switch@Lab', role: 'prerequisite', status: 'already_awake', nodeId: 'node-2' },
+      expect.objectContaining({ fqn: 'nas@Home', role: 'prerequisite', status: 'confirmed', nodeId: 'node-1' }),
+      expect.objectContaining({ fqn: 'plex@Home', role: 'target', status: 'sent', nodeId: 'node-1' }),
+    ]);
+    expect(router.getWakeDependencyJob(jobId)).toEqual(job);
+    router.cleanup();
+    expect(router.getWakeDependencyJob(jobId)).toBeNull();
+  });
+
+  it('fails the job and skips the target when a prerequisite is not confirmed', async () => {
+    const { router, internals, hostAggregator, nodeManager } = createRouter();
+    hostAggregator.getHostByFQN.mockImplementation(async (fqn) => ({
+      nodeId: 'node-1',
+      name: fqn.split('@')[0],
+      mac: 'AA:BB:CC:DD:EE:FF',
+      ip: '192.168.1.10',
+      status: 'asleep',
+    }));
+    jest.spyOn(HostWakeDependencyModel, 'listDependsOn')
+      .mockImplementation(async (fqn) => (fqn === 'vm@Lab' ? ['hypervisor@Lab', 'san@Lab'] : []));
+    nodeManager.getNodeStatus.mockResolvedValue('online');
+    jest.spyOn(internals, 'trackWakeVerificationCommand').mockImplementation(() => undefined);
+    const executeSpy = jest.spyOn(internals, 'executeCommand')
+      .mockImplementation(async (_nodeId, command) => ({
+        commandId: command.commandId,
+        success: true,
+        timestamp: new Date(),
+      }));
+    jest.spyOn(internals, 'waitForWakeVerification').mockResolvedValue(null);
+
+    const result = await router.routeWakeCommand('vm@Lab');
+    const job = await router.waitForWakeDependencyJob(result.dependencyJob?.jobId ?? '');
+
+    expect(job).toEqual(expect.objectContaining({
+      state: 'failed',
+      error: 'Wake dependency hypervisor@Lab for vm@Lab was not confirmed (timeout)',
+      completedAt: expect.any(String),
+    }));
+    expect(job?.steps).toEqual([
+      expect.objectContaining({ fqn: 'hypervisor@Lab', status: 'timeout' }),
+      { fqn: 'san@Lab', role: 'prerequisite', status: 'skipped' },
+      { fqn: 'vm@Lab', role: 'target', status: 'skipped' },
+    ]);
+    expect(executeSpy).toHaveBeenCalledTimes(1);
+    router.cleanup();
+  });
+
   it('routes scan command with immediate=false and correlation id', async () => {
     const { router, nodeManager } = createRouter();
     nodeManager.getNodeStatus.mockResolvedValue('online');
@@ -399,6 +567,223 @@ describe('CommandRouter unit behavior', () => {
     router.cleanup();
   });
 
+  it('fans host group wake out across nodes with scoped idempotency keys', async () => {
+    const { router } = createRouter();
+    const events: Array<{ phase: string }> = [];
+    router.on('host-group-action', (event: { phase: string }) => events.push(event));
+    const wakeSpy = jest.spyOn(router, 'routeWakeCommand').mockImplementation(async (fqn) => {
+      if (fqn === 'nas@Office') {
+        throw new Error('Host not found: nas@Office');
+      }
+
+      return {
+        success: true,
+        message: `Wake-on-LAN packet sent to ${fqn}`,
+        nodeId: fqn === 'desk-pc@Lab' ? 'node-1' : 'node-2',
+        location: 'Lab',
+        commandId: `cmd-${fqn}`,
+        state: fqn === 'desk-pc@Lab' ? 'acknowledged' : 'queued',
+      };
+    });
+
+    const job = await router.routeHostGroupCommand(
+      { id: 'group-1', hostFqns: ['desk-pc@Lab', 'media@Home', 'nas@Office'] },
+      'wake',
+      { idempotencyKey: 'group-key', correlationId: 'corr-group' },
+    );
+
+    expect(wakeSpy).toHaveBeenCalledWith('desk-pc@Lab', {
+      idempotencyKey: 'group-key:desk-pc@Lab',
+      correlationId: 'corr-group',
+      verify: null,
+    });
+    expect(job).toMatchObject({
+      groupId: 'group-1',
+      action: 'wake',
+      state: 'partial',
+      correlationId: 'corr-group',
+      summary: { total: 3, succeeded: 2, failed: 1 },
+      results: [
+        { fqn: 'desk-pc@Lab', nodeId: 'node-1', commandId: 'cmd-desk-pc@Lab', state: 'acknowledged' },
+        { fqn: 'media@Home', nodeId: 'node-2', commandId: 'cmd-media@Home', state: 'queued' },
+        { fqn: 'nas@Office', state: 'failed', error: 'Host not found: nas@Office' },
+      ],
+    });
+    expect(job.jobId).toMatch(/^job_/);
+    expect(events.map((event) => event.phase)).toEqual([
+      'started',
+      'progress',
+      'progress',
+      'progress',
+      'completed',
+    ]);
+    router.cleanup();
+  });
+
+  it('reports group and bulk wakes of hosts with prerequisites as pending dependency jobs', async () => {
+    const { router, internals, hostAggregator, nodeManager } = createRouter();
+    const hosts: Record<string, HostRecord> = {
+      'plex@Home': { nodeId: 'node-1', name: 'plex', mac: 'AA:AA:AA:AA:AA:01', ip: '10.0.0.10', status: 'asleep' },
+      'nas@Home': { nodeId: 'node-1', name: 'nas', mac: 'AA:AA:AA:AA:AA:02', ip: '10.0.0.11', status: 'awake' },
+    };
+    hostAggregator.getHostByFQN.mockImplementation(async (fqn) => hosts[fqn] ?? null);
+    jest.spyOn(HostWakeDependencyModel, 'listDependsOn')
+      .mockImplementation(async (fqn) => (fqn === 'plex@Home' ? ['nas@Home'] : []));
+    nodeManager.getNodeStatus.mockResolvedValue('online');
+    jest.spyOn(internals, 'executeCommand').mockImplementation(async (_nodeId, command) => ({
+      commandId: command.commandId,
+      success: true,
+      timestamp: new Date(),
+    }));
+
+    const groupJob = await router.routeHostGroupCommand({ id: 'group-1', hostFqns: ['plex@Home'] }, 'wake');
+    const bulk = await router.routeBulkHostCommand({ action: 'wake', fqns: ['plex@Home'] });
+
+    for (const item of [groupJob.results[0], bulk.results[0]]) {
+      expect(item).toMatchObject({
+        fqn: 'plex@Home',
+        state: 'pending',
+        nodeId: 'node-1',
+        dependencyJob: { fqn: 'plex@Home', state: 'running', prerequisites: ['nas@Home'] },
+      });
+      expect(item).not.toHaveProperty('commandId');
+      const job = await router.waitForWakeDependencyJob(item.dependencyJob?.jobId ?? '');
+      expect(job?.state).toBe('completed');
+    }
+    expect(bulk.results[0].success).toBe(true);
+    router.cleanup();
+  });
+
+  it('routes host group shutdown through host power commands and reports timeouts', async () => {
+    const { router } = createRouter();
+    const powerSpy = jest
+      .spyOn(router as unknown as {
+        routeHostPowerCommand: (action: string, fqn: string, options?: unknown) => Promise<unknown>;
+      }, 'routeHostPowerCommand')
+      .mockRejectedValue(new Error('Command cmd-1 timeout after 30000ms'));
+
+    const job = await router.routeHostGroupCommand(
+      { id: 'group-2', hostFqns: ['desk-pc@Lab'] },
+      'shutdown',
+    );
+
+    expect(powerSpy).toHaveBeenCalledWith('shutdown', 'desk-pc@Lab', {
+      idempotencyKey: null,
+      correlationId: null,
+    });
+    expect(job.state).toBe('failed');
+    expect(job.results).toEqual([
+      { fqn: 'desk-pc@Lab', state: 'timed_out', error: 'Command cmd-1 timeout after 30000ms' },
+    ]);
+    router.cleanup();
+  });
+
+  it('runs bulk wakes with per-node concurrency caps and scoped idempotency keys', async () => {
+    const { router, hostAggregator } = createRouter();
+    (router as unknown as { bulkNodeConcurrency: number }).bulkNodeConcurrency = 2;
+    hostAggregator.getHostByFQN.mockImplementation(async (fqn) => {
+      if (fqn === 'ghost@Lab') {
+        return null;
+      }
+
+      return {
+        nodeId: fqn.endsWith('@Lab') ? 'node-1' : 'node-2',
+        name: fqn.split('@')[0],
+        mac: 'AA:BB:CC:DD:EE:FF',
+        ip: '192.168.1.10',
+        status: 'asleep',
+      };
+    });
+
+    const inFlight = new Map<string, number>();
+    const peakInFlight = new Map<string, number>();
+    const wakeSpy = jest.spyOn(router, 'routeWakeCommand').mockImplementation(async (fqn) => {
+      const nodeId = fqn.endsWith('@Lab') ? 'node-1' : 'node-2';
+      const current = (inFlight.get(nodeId) ?? 0) + 1;
+      inFlight.set(nodeId, current);
+      peakInFlight.set(nodeId, Math.max(peakInFlight.get(nodeId) ?? 0, current));
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight.set(nodeId, current - 1);
+
+      return {
+        success: true,
+        message: `Wake-on-LAN packet sent to ${fqn}`,
+        nodeId,
+        location: nodeId,
+        commandId: `cmd-${fqn}`,
+        state: 'acknowledged',
+      };
+    });
+
+    const fqns = ['a@Lab', 'b@Lab', 'c@Lab', 'd@Lab', 'ghost@Lab', 'e@Home'];
+    const result = await router.routeBulkHostCommand(
+      { action: 'wake', fqns },
+      { idempotencyKey: 'bulk-key', correlationId: 'corr-bulk' },
+    );
+
+    expect(peakInFlight.get('node-1')).toBe(2);
+    expect(peakInFlight.get('node-2')).toBe(1);
+    expect(wakeSpy).toHaveBeenCalledWith('a@Lab', {
+      idempotencyKey: 'bulk-key:a@Lab',
+      correlationId: 'corr-bulk',
+      verify: null,
+    });
+    expect(result.results.map((item) => item.fqn)).toEqual(fqns);
+    expect(result).toMatchObject({
+      action: 'wake',
+      correlationId: 'corr-bulk',
+      summary: { total: 6, succeeded: 5, failed: 1 },
+    });
+    expect(result.results[4]).toEqual({
+      fqn: 'ghost@Lab',
+      success: false,
+      state: 'failed',
+      error: 'Host not found: ghost@Lab',
+    });
+    router.cleanup();
+  });
+
+  it('maps bulk update command results into per-item states', async () => {
+    const { router, hostAggregator } = createRouter();
+    hostAggregator.getHostByFQN.mockResolvedValue({
+      nodeId: 'node-1',
+      name: 'desk-pc',
+      mac: 'AA:BB:CC:DD:EE:FF',
+      ip: '192.168.1.10',
+      status: 'awake',
+    });
+    const updateSpy = jest
+      .spyOn(router, 'routeUpdateHostCommand')
+      .mockImplementation(async (fqn) =>
+        fqn === 'desk-pc@Lab'
+          ? { commandId: 'cmd-1', success: true, state: 'queued', timestamp: new Date() }
+          : { commandId: 'cmd-2', success: false, error: 'Host rejected update', timestamp: new Date() },
+      );
+
+    const result = await router.routeBulkHostCommand({
+      action: 'update',
+      fqns: ['desk-pc@Lab', 'media@Lab'],
+      update: { tags: ['lab'] },
+    });
+
+    expect(updateSpy).toHaveBeenCalledWith('desk-pc@Lab', { tags: ['lab'] }, {
+      idempotencyKey: null,
+      correlationId: null,
+    });
+    expect(result.results).toEqual([
+      { fqn: 'desk-pc@Lab', success: true, state: 'queued', nodeId: 'node-1', commandId: 'cmd-1' },
+      {
+        fqn: 'media@Lab',
+        success: false,
+        state: 'failed',
+        nodeId: 'node-1',
+        commandId: 'cmd-2',
+        error: 'Host rejected update',
+      },
+    ]);
+    router.cleanup();
+  });
+
   it('throws when no nodes are connected for a scan dispatch', async () => {
     const { router, nodeManager } = createRouter();
     nodeManager.getConnectedNodes.mockReturnValue([]);
@@ -607,6 +992,95 @@ describe('CommandRouter unit behavior', () => {
     router.cleanup();
   });
 
+  it('routes out-of-band power actions and power-state queries for redfish hosts', async () => {
+    const { router, hostAggregator, nodeManager } = createRouter();
+    hostAggregator.getHostByFQN.mockResolvedValue({
+      nodeId: 'node-7',
+      name: 'rack-01',
+      mac: 'AA:BB:CC:DD:EE:07',
+      ip: '192.168.1.70',
+      status: 'asleep',
+      powerControl: {
+        enabled: true,
+        transport: 'redfish',
+        redfish: { baseUrl: 'https://10.0.0.70', username: 'ADMIN' },
+      },
+    });
+    nodeManager.getNodeStatus.mockResolvedValue('online');
+    const executeSpy = jest.spyOn(router as unknown as CommandRouterInternals, 'executeCommand')
+      .mockResolvedValueOnce({
+        commandId: 'cmd-power-1',
+        success: true,
+        message: 'Redfish power-on requested for rack-01',
+        timestamp: new Date(),
+      })
+      .mockResolvedValueOnce({
+        commandId: 'cmd-power-2',
+        success: true,
+        timestamp: new Date(),
+        hostPowerState: { hostName: 'rack-01', state: 'powering-on', checkedAt: '2026-10-18T10:00:00.000Z' },
+      });
+
+    const powerResult = await router.routeOutOfBandPowerCommand('power-on', 'rack-01@Lab', {
+      idempotencyKey: 'power-1',
+    });
+    const stateResult = await router.routeHostPowerStateCommand('rack-01@Lab');
+
+    expect(executeSpy).toHaveBeenNthCalledWith(
+      1,
+      'node-7',
+      expect.objectContaining({
+        type: 'power-host',
+        data: {
+          hostName: 'rack-01',
+          mac: 'AA:BB:CC:DD:EE:07',
+          ip: '192.168.1.70',
+          action: 'power-on',
+          confirmation: 'power-on',
+        },
+      }),
+      { idempotencyKey: 'power-1', correlationId: null }
+    );
+    expect(powerResult).toEqual({
+      success: true,
+      action: 'power-on',
+      message: 'Redfish power-on requested for rack-01',
+      nodeId: 'node-7',
+      location: 'Lab',
+      commandId: 'cmd-power-1',
+    });
+    expect(executeSpy).toHaveBeenNthCalledWith(
+      2,
+      'node-7',
+      expect.objectContaining({ type: 'query-host-power' }),
+      { idempotencyKey: null, correlationId: null }
+    );
+    expect(stateResult).toEqual({
+      target: 'rack-01@Lab',
+      state: 'powering-on',
+      checkedAt: '2026-10-18T10:00:00.000Z',
+      source: 'node-agent',
+    });
+    router.cleanup();
+  });
+
+  it('rejects out-of-band power for hosts without redfish power control', async () => {
+    const { router, hostAggregator } = createRouter();
+    hostAggregator.getHostByFQN.mockResolvedValue({
+      nodeId: 'node-8',
+      name: 'desk-pc',
+      mac: 'AA:BB:CC:DD:EE:08',
+      ip: '192.168.1.80',
+      status: 'awake',
+      powerControl: { enabled: true, transport: 'ssh', platform: 'linux', ssh: { username: 'ops' } },
+    });
+
+    await expect(router.routeHostPowerStateCommand('desk-pc@Lab')).rejects.toThrow(
+      'Host desk-pc@Lab has no enabled redfish power control configuration'
+    );
+    router.cleanup();
+  });
+
   it('throws when update-host routing cannot find host', async () => {
     const { router, hostAggregator } = createRouter();
     hostAggregator.getHostByFQN.mockResolvedValue(null);
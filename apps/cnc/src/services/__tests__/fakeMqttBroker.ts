@@ -0,0 +1,251 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { mqttTopicMatches } from '../mqttClient';
+
+export type BrokerMessage = { topic: string; payload: string; retain: boolean };
+
+type BrokerSession = {
+  socket: net.Socket;
+  clientId: string;
+  subscriptions: string[];
+  will: BrokerMessage | null;
+  cleanDisconnect: boolean;
+};
+
+function readString(body: Buffer, offset: number): [Buffer, number] {
+  const length = body.readUInt16BE(offset);
+  return [body.subarray(offset + 2, offset + 2 + length), offset + 2 + length];
+}
+
+function encodePacket(header: number, body: Buffer): Buffer {
+  const length: number[] = [];
+  let remaining = body.length;
+  do {
+    let byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) {
+      byte |= 0x80;
+    }
+    length.push(byte);
+  } while (remaining > 0);
+  return Buffer.concat([Buffer.from([header, ...length]), body]);
+}
+
+function encodePublish(message: BrokerMessage): Buffer {
+  const topic = Buffer.from(message.topic, 'utf8');
+  const topicLength = Buffer.alloc(2);
+  topicLength.writeUInt16BE(topic.length, 0);
+  const body = Buffer.concat([topicLength, topic, Buffer.from(message.payload)]);
+  return encodePacket(0x30 | (message.retain ? 1 : 0), body);
+}
+
+/** In-process MQTT 3.1.1 broker (QoS 0, retained messages, wills) for tests. */
+export class FakeMqttBroker {
+  port = 0;
+  /** Every PUBLISH received from a client, in order. */
+  published: Array<BrokerMessage & { clientId: string }> = [];
+  connects: Array<{ clientId: string; username: string | null; password: string | null }> = [];
+  retained = new Map<string, BrokerMessage>();
+  /** When set, CONNECTs with other credentials get return code 4. */
+  credentials: { username: string; password: string } | null = null;
+  private readonly sessions = new Set<BrokerSession>();
+  private server: net.Server | null = null;
+
+  async start(): Promise<void> {
+    this.server = net.createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    this.dropClients();
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  get url(): string {
+    return `mqtt://127.0.0.1:${this.port}`;
+  }
+
+  get connectedClients(): number {
+    return this.sessions.size;
+  }
+
+  /** Publishes as another client would, e.g. Home Assistant sending a command. */
+  publish(topic: string, payload: string, retain = false): void {
+    this.route({ topic, payload, retain });
+  }
+
+  /** Closes every client connection without a DISCONNECT, which fires their wills. */
+  dropClients(): void {
+    for (const session of this.sessions) {
+      session.socket.destroy();
+    }
+  }
+
+  reset(): void {
+    this.published = [];
+    this.connects = [];
+    this.retained.clear();
+    this.credentials = null;
+  }
+
+  private route(message: BrokerMessage): void {
+    if (message.retain) {
+      if (message.payload === '') {
+        this.retained.delete(message.topic);
+      } else {
+        this.retained.set(message.topic, message);
+      }
+    }
+
+    for (const session of this.sessions) {
+      if (session.subscriptions.some((filter) => mqttTopicMatches(filter, message.topic))) {
+        // Live deliveries carry retain = 0.
+        session.socket.write(encodePublish({ ...message, retain: false }));
+      }
+    }
+  }
+
+  private accept(socket: net.Socket): void {
+    const session: BrokerSession = { socket, clientId: '', subscriptions: [], will: null, cleanDisconnect: false };
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        let length = 0;
+        let multiplier = 1;
+        let offset = 1;
+        let byte = 0x80;
+        while (byte & 0x80) {
+          if (offset >= buffer.length) {
+            return;
+          }
+          byte = buffer[offset];
+          length += (byte & 0x7f) * multiplier;
+          multiplier *= 128;
+          offset += 1;
+        }
+        if (buffer.length < offset + length) {
+          return;
+        }
+
+        const header = buffer[0];
+        const body = buffer.subarray(offset, offset + length);
+        buffer = buffer.subarray(offset + length);
+        this.handlePacket(session, header, body);
+      }
+    });
+    socket.on('close', () => {
+      this.sessions.delete(session);
+      if (session.will && !session.cleanDisconnect) {
+        this.route(session.will);
+      }
+    });
+    socket.on('error', () => undefined);
+  }
+
+  private handlePacket(session: BrokerSession, header: number, body: Buffer): void {
+    const type = header >> 4;
+
+    if (type === 1) {
+      let offset = 0;
+      [, offset] = readString(body, offset);
+      const flags = body[offset + 1];
+      offset += 4;
+      let clientId: Buffer;
+      [clientId, offset] = readString(body, offset);
+      session.clientId = clientId.toString('utf8');
+
+      if (flags & 0x04) {
+        let willTopic: Buffer;
+        let willPayload: Buffer;
+        [willTopic, offset] = readString(body, offset);
+        [willPayload, offset] = readString(body, offset);
+        session.will = {
+          topic: willTopic.toString('utf8'),
+          payload: willPayload.toString('utf8'),
+          retain: Boolean(flags & 0x20),
+        };
+      }
+
+      let username: string | null = null;
+      let password: string | null = null;
+      if (flags & 0x80) {
+        let value: Buffer;
+        [value, offset] = readString(body, offset);
+        username = value.toString('utf8');
+      }
+      if (flags & 0x40) {
+        let value: Buffer;
+        [value, offset] = readString(body, offset);
+        password = value.toString('utf8');
+      }
+      this.connects.push({ clientId: session.clientId, username, password });
+
+      if (this.credentials && (this.credentials.username !== username || this.credentials.password !== password)) {
+        session.socket.end(encodePacket(0x20, Buffer.from([0, 4])));
+        session.cleanDisconnect = true;
+        return;
+      }
+
+      this.sessions.add(session);
+      session.socket.write(encodePacket(0x20, Buffer.from([0, 0])));
+      return;
+    }
+
+    if (type === 3) {
+      const [topic, offset] = readString(body, 0);
+      const message = {
+        topic: topic.toString('utf8'),
+        payload: body.subarray(offset).toString('utf8'),
+        retain: Boolean(header & 0x01),
+      };
+      this.published.push({ ...message, clientId: session.clientId });
+      this.route(message);
+      return;
+    }
+
+    if (type === 8) {
+      const packetId = body.subarray(0, 2);
+      const filters: string[] = [];
+      let offset = 2;
+      while (offset < body.length) {
+        let filter: Buffer;
+        [filter, offset] = readString(body, offset);
+        offset += 1;
+        filters.push(filter.toString('utf8'));
+      }
+
+      session.subscriptions.push(...filters);
+      session.socket.write(encodePacket(0x90, Buffer.concat([packetId, Buffer.alloc(filters.length)])));
+      for (const message of this.retained.values()) {
+        if (filters.some((filter) => mqttTopicMatches(filter, message.topic))) {
+          session.socket.write(encodePublish(message));
+        }
+      }
+      return;
+    }
+
+    if (type === 12) {
+      session.socket.write(encodePacket(0xd0, Buffer.alloc(0)));
+      return;
+    }
+
+    if (type === 14) {
+      session.cleanDisconnect = true;
+      session.socket.end();
+    }
+  }
+}
+
+/** Polls until `condition` holds; the bridge and broker talk over real sockets. */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
@@ -5,6 +5,7 @@
 import { HostAggregator } from '../hostAggregator';
 import db from '../../database/connection';
 import { NodeModel } from '../../models/Node';
+import HostWakeDependencyModel from '../../models/HostWakeDependency';
 import { PROTOCOL_VERSION } from '@kaonis/woly-protocol';
 
 
@@ -231,6 +232,43 @@ describe('HostAggregator', () => {
       expect(host!.tags).toEqual(['network', 'critical']);
     });
 
+    it('should persist host wake strategy and pick up changes', async () => {
+      const hostUpdated = jest.fn();
+      hostAggregator.on('host-updated', hostUpdated);
+      const host = {
+        name: 'strategy-host',
+        mac: 'AA:BB:CC:DD:EE:43',
+        ip: '192.168.1.143',
+        status: 'asleep' as const,
+        lastSeen: new Date().toISOString(),
+        discovered: 1,
+        pingResponsive: 0,
+        wakeStrategy: { resendCount: 2, alternatePorts: [7] },
+      };
+
+      await hostAggregator.onHostDiscovered({ nodeId: 'test-node-1', location: 'Test Location', host });
+      await hostAggregator.onHostUpdated({
+        nodeId: 'test-node-1',
+        location: 'Test Location',
+        host: {
+          ...host,
+          wakeStrategy: {
+            resendCount: 2,
+            alternatePorts: [7],
+            fallback: { type: 'webhook' as const, url: 'http://plug.local/on' },
+          },
+        },
+      });
+
+      const stored = await hostAggregator.getHostByFQN('strategy-host@Test%20Location-test-node-1');
+      expect(stored!.wakeStrategy).toEqual({
+        resendCount: 2,
+        alternatePorts: [7],
+        fallback: { type: 'webhook', url: 'http://plug.local/on' },
+      });
+      expect(hostUpdated).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle errors gracefully', async () => {
       // Force a deterministic DB failure for this error-path test.
       const querySpy = jest.spyOn(db, 'query').mockRejectedValueOnce(new Error('forced-db-failure'));
@@ -562,7 +600,11 @@ describe('HostAggregator', () => {
         name: 'test-host-5',
       });
 
-      expect(emittedEvent).not.toBeNull();
+      expect(emittedEvent).toMatchObject({
+        nodeId: 'test-node-1',
+        name: 'test-host-5',
+        fullyQualifiedName: 'test-host-5@Test%20Location-test-node-1',
+      });
 
       const host = await hostAggregator.getHostByFQN('test-host-5@Test%20Location-test-node-1');
       expect(host).toBeNull();
@@ -619,6 +661,30 @@ describe('HostAggregator', () => {
       expect(parseInt(String(countResult.rows[0].count), 10)).toBe(0);
     });
 
+    it('should drop wake dependencies of the removed host', async () => {
+      await hostAggregator.onHostDiscovered({
+        nodeId: 'test-node-1',
+        location: 'Test Location',
+        host: {
+          name: 'test-host-nas',
+          mac: 'AA:BB:CC:DD:EE:31',
+          ip: '192.168.1.131',
+          status: 'awake' as const,
+          lastSeen: new Date().toISOString(),
+          discovered: 1,
+          pingResponsive: 1,
+        },
+      });
+      const nasFqn = 'test-host-nas@Test%20Location-test-node-1';
+      await HostWakeDependencyModel.replaceForHost('plex@home', [nasFqn]);
+      await HostWakeDependencyModel.replaceForHost(nasFqn, ['switch@home']);
+
+      await hostAggregator.onHostRemoved({ nodeId: 'test-node-1', name: 'test-host-nas' });
+
+      await expect(HostWakeDependencyModel.listDependsOn('plex@home')).resolves.toEqual([]);
+      await expect(HostWakeDependencyModel.listDependsOn(nasFqn)).resolves.toEqual([]);
+    });
+
     it('should handle removal of non-existent host', async () => {
       await hostAggregator.onHostRemoved({
         nodeId: 'test-node-1',
@@ -718,6 +784,27 @@ describe('HostAggregator', () => {
       expect(hosts.length).toBe(0);
     });
 
+    it('should drop wake dependencies of every removed host', async () => {
+      await hostAggregator.onHostDiscovered({
+        nodeId: 'test-node-3',
+        location: 'Lab',
+        host: {
+          name: 'test-host-hypervisor',
+          mac: 'AA:BB:CC:DD:EE:32',
+          ip: '192.168.1.132',
+          status: 'awake' as const,
+          lastSeen: new Date().toISOString(),
+          discovered: 1,
+          pingResponsive: 1,
+        },
+      });
+      await HostWakeDependencyModel.replaceForHost('vm@home', ['test-host-hypervisor@Lab-test-node-3']);
+
+      await hostAggregator.removeNodeHosts('test-node-3');
+
+      await expect(HostWakeDependencyModel.listDependsOn('vm@home')).resolves.toEqual([]);
+    });
+
     it('should surface errors while removing all node hosts', async () => {
       const querySpy = jest.spyOn(db, 'query').mockRejectedValueOnce(new Error('forced-remove-node-failure'));
       try {
@@ -244,7 +244,158 @@ describe('HostStateStreamBroker', () => {
     });
   });
 
-  it('detaches from command router on shutdown', () => {
+  it('includes wake strategy steps in wake.verified events', () => {
+    const hostAggregator = new EventEmitter();
+    const commandRouter = new EventEmitter();
+    const broker = new HostStateStreamBroker(hostAggregator as unknown as never);
+    broker.subscribeToCommandRouter(commandRouter as never);
+    const { ws, mock } = createMockWs();
+    const steps = [
+      { method: 'magic-packet', address: '255.255.255.255', port: 9, status: 'sent', at: '2026-10-18T10:00:00.000Z' },
+      { method: 'webhook', status: 'sent', at: '2026-10-18T10:00:15.000Z' },
+    ];
+
+    broker.handleConnection(ws, auth);
+
+    commandRouter.emit('wake-verification-complete', {
+      commandId: 'cmd-verify-3',
+      fullyQualifiedName: 'nas@office',
+      wakeVerification: {
+        status: 'confirmed',
+        attempts: 12,
+        elapsedMs: 31000,
+        source: 'ping',
+        steps,
+        confirmedAfterStep: 1,
+      },
+    });
+
+    const wakePayload = parseSentPayload(mock.send.mock.calls[1]?.[0]);
+    expect(wakePayload).toMatchObject({
+      type: 'wake.verified',
+      payload: {
+        commandId: 'cmd-verify-3',
+        status: 'confirmed',
+        steps,
+        confirmedAfterStep: 1,
+      },
+    });
+  });
+
+  it('broadcasts group.action.* events for host group jobs', () => {
+    const hostAggregator = new EventEmitter();
+    const commandRouter = new EventEmitter();
+    const broker = new HostStateStreamBroker(hostAggregator as unknown as never);
+    broker.subscribeToCommandRouter(commandRouter as never);
+    const { ws, mock } = createMockWs();
+
+    broker.handleConnection(ws, auth);
+
+    commandRouter.emit('host-group-action', {
+      phase: 'started',
+      jobId: 'job-1',
+      groupId: 'group-1',
+      action: 'wake',
+      total: 2,
+      startedAt: '2026-02-18T00:00:00.000Z',
+    });
+    commandRouter.emit('host-group-action', {
+      phase: 'progress',
+      jobId: 'job-1',
+      groupId: 'group-1',
+      action: 'wake',
+      result: {
+        fqn: 'pc-1@lab',
+        nodeId: 'lab',
+        commandId: 'cmd-1',
+        state: 'acknowledged',
+      },
+    });
+    commandRouter.emit('host-group-action', {
+      phase: 'completed',
+      job: {
+        jobId: 'job-1',
+        groupId: 'group-1',
+        action: 'wake',
+        state: 'partial',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:01.000Z',
+        summary: { total: 2, succeeded: 1, failed: 1 },
+        results: [],
+      },
+    });
+
+    expect(parseSentPayload(mock.send.mock.calls[1]?.[0])).toMatchObject({
+      type: 'group.action.started',
+      changed: true,
+      payload: { jobId: 'job-1', groupId: 'group-1', action: 'wake', total: 2 },
+    });
+    expect(parseSentPayload(mock.send.mock.calls[2]?.[0])).toMatchObject({
+      type: 'group.action.progress',
+      payload: { jobId: 'job-1', fullyQualifiedName: 'pc-1@lab', state: 'acknowledged' },
+    });
+    expect(parseSentPayload(mock.send.mock.calls[3]?.[0])).toMatchObject({
+      type: 'group.action.completed',
+      payload: {
+        jobId: 'job-1',
+        state: 'partial',
+        summary: { total: 2, succeeded: 1, failed: 1 },
+      },
+    });
+  });
+
+  it('only sends scoped subscribers events about hosts they may view, in source order', async () => {
+    const hostAggregator = new EventEmitter();
+    const commandRouter = new EventEmitter();
+    const visible = (fqn: string) => fqn === 'desk@lab';
+    const accessControl = {
+      filterHosts: jest.fn(async (_auth: AuthContext, hosts: Array<{ fullyQualifiedName: string }>) =>
+        hosts.filter((host) => visible(host.fullyQualifiedName))
+      ),
+      filterByHostFqn: jest.fn(async (_auth: AuthContext, fqns: string[]) => fqns.filter(visible)),
+    };
+    const broker = new HostStateStreamBroker(hostAggregator as unknown as never, accessControl as never);
+    broker.subscribeToCommandRouter(commandRouter as never);
+    const scoped = createMockWs();
+    const unscoped = createMockWs();
+    const scopedAuth: AuthContext = { sub: 'user-1', roles: ['operator'], userId: 'user-1', claims: {} };
+
+    broker.handleConnection(scoped.ws, scopedAuth);
+    broker.handleConnection(unscoped.ws, auth);
+
+    hostAggregator.emit('host-updated', { nodeId: 'lab', fullyQualifiedName: 'nas@lab', host: { status: 'awake' } });
+    hostAggregator.emit('host-updated', { nodeId: 'lab', fullyQualifiedName: 'desk@lab', host: { status: 'awake' } });
+    hostAggregator.emit('node-hosts-unreachable', { nodeId: 'lab', count: 1, fullyQualifiedNames: ['nas@lab'] });
+    commandRouter.emit('host-group-action', {
+      phase: 'started',
+      jobId: 'job-1',
+      groupId: 'group-1',
+      action: 'wake',
+      total: 2,
+      hostFqns: ['nas@lab', 'desk@lab'],
+      startedAt: '2026-02-18T00:00:00.000Z',
+    });
+    commandRouter.emit('wake-verification-complete', {
+      commandId: 'cmd-1',
+      fullyQualifiedName: 'nas@lab',
+      wakeVerification: { status: 'confirmed', attempts: 1, elapsedMs: 1000 },
+    });
+    hostAggregator.emit('host-removed', { nodeId: 'lab', name: 'desk', fullyQualifiedName: 'desk@lab' });
+    hostAggregator.emit('node-hosts-removed', { nodeId: 'other', count: 0, fullyQualifiedNames: [] });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const sentTo = (mock: MockWs) =>
+      mock.send.mock.calls.slice(1).map((call) => {
+        const event = parseSentPayload(call[0]);
+        return `${event.type} ${(event.payload as { fullyQualifiedName?: string }).fullyQualifiedName ?? ''}`.trim();
+      });
+    expect(sentTo(scoped.mock)).toEqual(['host.updated desk@lab', 'group.action.started', 'host.removed']);
+    expect(sentTo(unscoped.mock)).toHaveLength(7);
+    expect(accessControl.filterHosts).toHaveBeenCalledWith(scopedAuth, [{ fullyQualifiedName: 'desk@lab', nodeId: 'lab' }], 'view');
+    expect(broker.getStats().events).toMatchObject({ totalBroadcasts: 7, deliveries: 10 });
+  });
+
+    it('detaches from command router on shutdown', () => {
     const hostAggregator = new EventEmitter();
     const commandRouter = new EventEmitter();
     const broker = new HostStateStreamBroker(hostAggregator as unknown as never);
@@ -264,6 +415,7 @@ describe('HostStateStreamBroker', () => {
     // Only the connected event and no more
     expect(mock.send).toHaveBeenCalledTimes(1);
     expect(commandRouter.listenerCount('wake-verification-complete')).toBe(0);
+    expect(commandRouter.listenerCount('host-group-action')).toBe(0);
   });
 
   it('closes all clients and detaches listeners on shutdown', () => {
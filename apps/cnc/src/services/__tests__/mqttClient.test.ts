@@ -0,0 +1,109 @@
+import { MqttClient, MqttError, mqttTopicMatches } from '../mqttClient';
+import { FakeMqttBroker, waitFor } from './fakeMqttBroker';
+
+describe('mqttTopicMatches', () => {
+  it('matches single and multi level wildcards', () => {
+    expect(mqttTopicMatches('woly/hosts/+/set', 'woly/hosts/desktop/set')).toBe(true);
+    expect(mqttTopicMatches('woly/hosts/+/set', 'woly/hosts/desktop/state')).toBe(false);
+    expect(mqttTopicMatches('woly/#', 'woly/hosts/desktop/state')).toBe(true);
+    expect(mqttTopicMatches('woly/hosts', 'woly/hosts/desktop')).toBe(false);
+  });
+});
+
+describe('MqttClient', () => {
+  const broker = new FakeMqttBroker();
+  let client: MqttClient | null = null;
+
+  beforeAll(async () => {
+    await broker.start();
+  });
+
+  afterAll(async () => {
+    await broker.stop();
+  });
+
+  beforeEach(() => {
+    broker.reset();
+  });
+
+  afterEach(async () => {
+    await client?.end();
+    client = null;
+  });
+
+  it('authenticates, publishes retained messages and receives subscribed topics', async () => {
+    broker.credentials = { username: 'woly', password: 'secret' };
+    client = new MqttClient({ url: broker.url, clientId: 'test-client', username: 'woly', password: 'secret' });
+    const received: Array<[string, string]> = [];
+    client.onMessage((topic, payload) => received.push([topic, payload.toString('utf8')]));
+    client.subscribe('woly/hosts/+/set');
+
+    await client.connect();
+    expect(broker.connects).toEqual([{ clientId: 'test-client', username: 'woly', password: 'secret' }]);
+
+    client.publish('woly/hosts/desktop/state', 'awake', { retain: true });
+    await waitFor(() => broker.published.length === 1);
+    expect(broker.retained.get('woly/hosts/desktop/state')).toEqual({
+      topic: 'woly/hosts/desktop/state',
+      payload: 'awake',
+      retain: true,
+    });
+
+    broker.publish('woly/hosts/desktop/set', 'wake');
+    broker.publish('woly/other', 'ignored');
+    await waitFor(() => received.length === 1);
+    expect(received).toEqual([['woly/hosts/desktop/set', 'wake']]);
+  });
+
+  it('rejects refused connections with the CONNACK return code', async () => {
+    broker.credentials = { username: 'woly', password: 'secret' };
+    client = new MqttClient({ url: broker.url, clientId: 'test-client', username: 'woly', password: 'wrong' });
+
+    const error = await client.connect().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(MqttError);
+    expect((error as MqttError).returnCode).toBe(4);
+  });
+
+  it('reconnects, restores subscriptions and leaves the will on abrupt disconnects', async () => {
+    client = new MqttClient({
+      url: broker.url,
+      clientId: 'test-client',
+      reconnectDelayMs: 10,
+      will: { topic: 'woly/status', payload: 'offline', retain: true },
+    });
+    let connects = 0;
+    const received: string[] = [];
+    client.onConnect(() => {
+      connects += 1;
+    });
+    client.onMessage((topic) => received.push(topic));
+    client.subscribe('woly/hosts/+/set');
+    await client.connect();
+
+    broker.dropClients();
+    await waitFor(() => connects === 2 && broker.connectedClients === 1);
+    expect(broker.retained.get('woly/status')?.payload).toBe('offline');
+
+    await waitFor(() => {
+      broker.publish('woly/hosts/nas/set', 'wake');
+      return received.length > 0;
+    });
+    expect(received[0]).toBe('woly/hosts/nas/set');
+  });
+
+  it('does not fire the will after a clean end()', async () => {
+    client = new MqttClient({
+      url: broker.url,
+      clientId: 'test-client',
+      will: { topic: 'woly/status', payload: 'offline', retain: true },
+    });
+    await client.connect();
+
+    await client.end();
+    client = null;
+    await waitFor(() => broker.connectedClients === 0);
+
+    expect(broker.retained.has('woly/status')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import db from '../../database/connection';
+import OidcIdentityModel from '../../models/OidcIdentity';
+import UserModel from '../../models/User';
+import { resolveOidcAccount, type OidcIdentity } from '../oidcAccounts';
+
+describe('resolveOidcAccount', () => {
+  const identity: OidcIdentity = {
+    issuer: 'https://idp.example.com',
+    subject: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6',
+    role: 'operator',
+    usernameHint: 'alice',
+  };
+
+  beforeAll(async () => {
+    await db.connect();
+    await OidcIdentityModel.ensureTable();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM oidc_identities');
+    await db.query('DELETE FROM users');
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('provisions an account on first login and reuses it afterwards', async () => {
+    const created = await resolveOidcAccount(identity);
+
+    expect(created).toMatchObject({ username: 'alice', role: 'operator', disabled: false });
+    await expect(OidcIdentityModel.findUserId(identity.issuer, identity.subject)).resolves.toBe(created.id);
+    await expect(resolveOidcAccount(identity)).resolves.toEqual(created);
+    await expect(UserModel.list()).resolves.toHaveLength(1);
+  });
+
+  it('never takes over an existing account with the hinted username', async () => {
+    const local = await UserModel.create({ username: 'alice', passwordHash: 'hash', role: 'admin' });
+
+    const linked = await resolveOidcAccount(identity);
+
+    expect(linked.id).not.toBe(local.id);
+    expect(linked.username).toMatch(/^alice-[0-9a-f]{8}$/);
+    expect(linked.role).toBe('operator');
+    await expect(resolveOidcAccount({ ...identity, subject: 'no-hint', usernameHint: undefined })).resolves.toMatchObject(
+      { username: expect.stringMatching(/^oidc-[0-9a-f]{8}$/) },
+    );
+  });
+
+  it('follows provider role changes but leaves disabled accounts untouched', async () => {
+    const created = await resolveOidcAccount(identity);
+
+    await expect(resolveOidcAccount({ ...identity, role: 'admin' })).resolves.toMatchObject({
+      id: created.id,
+      role: 'admin',
+    });
+
+    await UserModel.update(created.id, { disabled: true });
+    await expect(resolveOidcAccount({ ...identity, role: 'operator' })).resolves.toMatchObject({
+      id: created.id,
+      role: 'admin',
+      disabled: true,
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { createHash, generateKeyPairSync, sign, type JsonWebKey, type KeyObject } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { resolveOidcAccount } from '../oidcAccounts';
+import { OidcClient, type OidcClientOptions } from '../oidcClient';
+
+jest.mock('../oidcAccounts', () => ({
+  resolveOidcAccount: jest.fn(),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+interface SigningKey {
+  kid: string;
+  alg: 'RS256' | 'ES256';
+  privateKey: KeyObject;
+  jwk: JsonWebKey;
+}
+
+function createSigningKey(kid: string, alg: 'RS256' | 'ES256'): SigningKey {
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { kid, alg, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' } };
+}
+
+function signToken(key: SigningKey, payload: Record<string, unknown>, header: Record<string, unknown> = {}): string {
+  const encodedHeader = Buffer.from(JSON.stringify({ alg: key.alg, typ: 'JWT', kid: key.kid, ...header })).toString(
+    'base64url',
+  );
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = sign(
+    'sha256',
+    Buffer.from(signingInput),
+    key.alg === 'ES256' ? { key: key.privateKey, dsaEncoding: 'ieee-p1363' } : key.privateKey,
+  );
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/** Minimal identity provider: discovery, JWKS and an authorization code token endpoint. */
+class StubIdentityProvider {
+  issuer = '';
+  publishedKeys: SigningKey[] = [];
+  jwksRequests = 0;
+  tokenRequests: URLSearchParams[] = [];
+  tokenAuthorization: string | undefined;
+  pendingCodes = new Map<string, { codeChallenge: string; idToken: string }>();
+  private server: Server | null = null;
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      if (req.url === '/.well-known/openid-configuration') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(
+          JSON.stringify({
+            issuer: this.issuer,
+            authorization_endpoint: `${this.issuer}/authorize`,
+            token_endpoint: `${this.issuer}/token`,
+            jwks_uri: `${this.issuer}/jwks`,
+          }),
+        );
+        return;
+      }
+
+      if (req.url === '/jwks') {
+        this.jwksRequests += 1;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ keys: this.publishedKeys.map((key) => key.jwk) }));
+        return;
+      }
+
+      if (req.url === '/token' && req.method === 'POST') {
+        let body = '';
+        req.on('data', (chunk: Buffer) => {
+          body += chunk.toString('utf8');
+        });
+        req.on('end', () => {
+          const params = new URLSearchParams(body);
+          this.tokenRequests.push(params);
+          this.tokenAuthorization = req.headers.authorization;
+          const pending = this.pendingCodes.get(params.get('code') ?? '');
+          const challenge = createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url');
+          res.setHeader('Content-Type', 'application/json');
+          if (!pending || pending.codeChallenge !== challenge) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'invalid_grant' }));
+            return;
+          }
+
+          this.pendingCodes.delete(params.get('code') ?? '');
+          res.end(JSON.stringify({ access_token: 'opaque', token_type: 'Bearer', id_token: pending.idToken }));
+        });
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end();
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+}
+
+describe('OidcClient', () => {
+  const idp = new StubIdentityProvider();
+  const rsaKey = createSigningKey('rsa-1', 'RS256');
+  const ecKey = createSigningKey('ec-1', 'ES256');
+  const codeVerifier = 'v'.repeat(43);
+
+  const createClient = (overrides: Partial<OidcClientOptions> = {}): OidcClient =>
+    new OidcClient({
+      issuer: idp.issuer,
+      clientId: 'woly-mobile',
+      clientSecret: 'client-secret',
+      audiences: ['woly-api'],
+      scopes: ['openid', 'profile'],
+      roleClaim: 'realm_access.roles',
+      adminGroups: ['woly-admins'],
+      operatorGroups: ['woly-operators'],
+      jwksCacheTtlSeconds: 3600,
+      ...overrides,
+    });
+
+  const claims = (overrides: Record<string, unknown> = {}): Record<string, unknown> => {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      iss: idp.issuer,
+      sub: 'script-runner',
+      aud: 'woly-api',
+      iat: now,
+      exp: now + 300,
+      realm_access: { roles: ['woly-operators'] },
+      ...overrides,
+    };
+  };
+
+  beforeAll(async () => {
+    await idp.start();
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(resolveOidcAccount).mockImplementation(async (identity) => ({
+      id: `user-${identity.subject}`,
+      username: identity.usernameHint ?? identity.subject,
+      role: identity.role,
+      disabled: false,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }));
+    idp.publishedKeys = [rsaKey, ecKey];
+    idp.jwksRequests = 0;
+    idp.tokenRequests = [];
+    idp.pendingCodes.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('verifies RS256 and ES256 access tokens and maps provider roles', async () => {
+    const client = createClient();
+
+    await expect(client.verify(signToken(rsaKey, claims()))).resolves.toMatchObject({
+      sub: 'oidc:script-runner',
+      roles: ['operator'],
+      userId: 'user-script-runner',
+    });
+    expect(resolveOidcAccount).toHaveBeenCalledWith({ issuer: idp.issuer, subject: 'script-runner', role: 'operator' });
+    await expect(
+      client.verify(signToken(ecKey, claims({ realm_access: { roles: ['woly-operators', 'woly-admins'] } }))),
+    ).resolves.toMatchObject({ roles: ['admin'] });
+    await expect(client.verify(signToken(rsaKey, claims({ realm_access: { roles: [] } })))).rejects.toThrow(
+      'Identity is not mapped to a C&C role',
+    );
+    expect(resolveOidcAccount).toHaveBeenCalledTimes(2);
+    expect(idp.jwksRequests).toBe(1);
+  });
+
+  it('rejects tokens with a wrong audience, issuer, lifetime or signature', async () => {
+    const client = createClient();
+    const forged = createSigningKey('rsa-1', 'RS256');
+
+    await expect(client.verify(signToken(rsaKey, claims({ aud: 'other-api' })))).rejects.toThrow('Invalid JWT audience');
+    // ID tokens are issued for the client id and must not work as bearer tokens.
+    await expect(client.verify(signToken(rsaKey, claims({ aud: 'woly-mobile' })))).rejects.toThrow(
+      'Invalid JWT audience',
+    );
+    await expect(client.verify(signToken(rsaKey, claims({ iss: 'https://evil.example.com' })))).rejects.toThrow(
+      'Invalid JWT issuer',
+    );
+    await expect(
+      client.verify(signToken(rsaKey, claims({ exp: Math.floor(Date.now() / 1000) - 120 }))),
+    ).rejects.toThrow('JWT expired');
+    await expect(client.verify(signToken(forged, claims()))).rejects.toThrow('Invalid JWT signature');
+    await expect(client.verify(signToken(rsaKey, claims(), { alg: 'none' }))).rejects.toThrow(
+      'Unsupported JWT algorithm',
+    );
+  });
+
+  it('refuses access tokens without a separate access token audience', async () => {
+    expect(() => createClient({ audiences: ['woly-api', 'woly-mobile'] })).toThrow(
+      'OIDC access token audiences must not include the client id',
+    );
+    await expect(createClient({ audiences: [] }).verify(signToken(rsaKey, claims()))).rejects.toThrow(
+      'OIDC access tokens are not accepted',
+    );
+    expect(resolveOidcAccount).not.toHaveBeenCalled();
+  });
+
+  it('refetches the JWKS when a token is signed with a rotated key', async () => {
+    const client = createClient();
+    await client.verify(signToken(rsaKey, claims()));
+
+    const rotatedKey = createSigningKey('rsa-2', 'RS256');
+    idp.publishedKeys = [rotatedKey];
+    const token = signToken(rotatedKey, claims());
+
+    // Unknown kids only trigger a refetch once the minimum refresh interval has passed.
+    await expect(client.verify(token)).rejects.toThrow('Unknown JWT signing key: rsa-2');
+    expect(idp.jwksRequests).toBe(1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 31_000);
+    await expect(client.verify(token)).resolves.toMatchObject({ sub: 'oidc:script-runner' });
+    expect(idp.jwksRequests).toBe(2);
+  });
+
+  it('exchanges an authorization code with its PKCE verifier for a verified identity', async () => {
+    const client = createClient();
+    idp.pendingCodes.set('code-1', {
+      codeChallenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+      idToken: signToken(
+        rsaKey,
+        claims({
+          sub: 'alice',
+          aud: 'woly-mobile',
+          nonce: 'nonce-1',
+          preferred_username: 'alice',
+          realm_access: { roles: ['woly-admins'] },
+        }),
+      ),
+    });
+
+    const result = await client.exchangeAuthorizationCode({
+      code: 'code-1',
+      codeVerifier,
+      redirectUri: 'woly://oauth/callback',
+      nonce: 'nonce-1',
+    });
+
+    expect(result).toEqual({
+      status: 'authenticated',
+      identity: { issuer: idp.issuer, subject: 'alice', role: 'admin', usernameHint: 'alice' },
+    });
+    // Account linking is left to the caller of the code exchange.
+    expect(resolveOidcAccount).not.toHaveBeenCalled();
+    expect(idp.tokenRequests[0].get('grant_type')).toBe('authorization_code');
+    expect(idp.tokenRequests[0].get('redirect_uri')).toBe('woly://oauth/callback');
+    expect(idp.tokenAuthorization).toBe(`Basic ${Buffer.from('woly-mobile:client-secret').toString('base64')}`);
+  });
+
+  it('rejects codes with a wrong verifier, nonce or unmapped identity', async () => {
+    const client = createClient();
+    const challenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    const exchange = (code: string, nonce?: string) =>
+      client.exchangeAuthorizationCode({ code, codeVerifier, redirectUri: 'woly://oauth/callback', nonce });
+
+    idp.pendingCodes.set('code-verifier', { codeChallenge: 'mismatch', idToken: 'unused' });
+    await expect(exchange('code-verifier')).resolves.toEqual({
+      status: 'rejected',
+      reason: 'Authorization code was rejected by the identity provider',
+    });
+
+    idp.pendingCodes.set('code-nonce', {
+      codeChallenge: challenge,
+      idToken: signToken(rsaKey, claims({ aud: 'woly-mobile', nonce: 'other' })),
+    });
+    await expect(exchange('code-nonce', 'nonce-1')).resolves.toEqual({
+      status: 'rejected',
+      reason: 'ID token nonce mismatch',
+    });
+
+    idp.pendingCodes.set('code-unmapped', {
+      codeChallenge: challenge,
+      idToken: signToken(rsaKey, claims({ aud: 'woly-mobile', realm_access: { roles: ['guests'] } })),
+    });
+    await expect(exchange('code-unmapped')).resolves.toEqual({
+      status: 'rejected',
+      reason: 'Identity is not mapped to a C&C role',
+    });
+  });
+
+  it('publishes the provider settings needed to start a PKCE flow', async () => {
+    await expect(createClient().getPublicConfig()).resolves.toEqual({
+      issuer: idp.issuer,
+      clientId: 'woly-mobile',
+      authorizationEndpoint: `${idp.issuer}/authorize`,
+      scopes: ['openid', 'profile'],
+      codeChallengeMethod: 'S256',
+    });
+  });
+});
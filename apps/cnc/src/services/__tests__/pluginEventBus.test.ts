@@ -89,4 +89,27 @@ describe('PluginEventBus', () => {
       })
     );
   });
+
+  it('logs rejected async handlers', async () => {
+    const bus = new PluginEventBus();
+    bus.subscribe('node.disconnected', async () => {
+      throw new Error('async boom');
+    });
+
+    bus.publish({
+      type: 'node.disconnected',
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: {
+        nodeId: 'node-1',
+      },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockedLogger.error).toHaveBeenCalledWith(
+      'Plugin event handler failed',
+      expect.objectContaining({
+        eventType: 'node.disconnected',
+      })
+    );
+  });
 });
@@ -1,8 +1,35 @@
+import { createECDH, createVerify, generateKeyPairSync, verify } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import type { ApnsAuthKey } from '../apnsProviderToken';
+import type { GoogleServiceAccount } from '../googleServiceAccount';
 import {
   ApnsPushNotificationProvider,
+  EmailNotificationProvider,
   FcmPushNotificationProvider,
+  NtfyNotificationProvider,
   type PushNotificationMessage,
+  WebPushNotificationProvider,
 } from '../pushNotificationProvider';
+import { sendMail } from '../smtpClient';
+
+jest.mock('../smtpClient', () => ({
+  ...jest.requireActual('../smtpClient'),
+  sendMail: jest.fn(),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
 
 const MESSAGE: PushNotificationMessage = {
   title: 'Wake Alert',
@@ -13,12 +40,131 @@ const MESSAGE: PushNotificationMessage = {
   },
 };
 
-describe('pushNotificationProvider', () => {
-  it('returns non-permanent failure when FCM key is missing', async () => {
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString('utf8');
+    });
+    req.on('end', () => resolve(body));
+  });
+}
+
+/** Google OAuth token endpoint and FCM v1 send endpoint, answering sends from `sendResponses`. */
+class StubFcmServer {
+  baseUrl = '';
+  assertions: Array<Record<string, unknown>> = [];
+  sends: Array<{ url: string; authorization: string | undefined; body: Record<string, unknown> }> = [];
+  sendResponses: Array<{ status: number; body: unknown }> = [];
+  private issuedTokens = 0;
+  private server: Server | null = null;
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      void readBody(req).then((body) => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/token' && req.method === 'POST') {
+          const params = new URLSearchParams(body);
+          const [header, payload, signature] = (params.get('assertion') ?? '').split('.');
+          const valid = createVerify('RSA-SHA256')
+            .update(`${header}.${payload}`)
+            .verify(publicKey, signature ?? '', 'base64url');
+          if (params.get('grant_type') !== 'urn:ietf:params:oauth:grant-type:jwt-bearer' || !valid) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'invalid_grant' }));
+            return;
+          }
+
+          const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Record<string, unknown>;
+          this.assertions.push(claims);
+          this.issuedTokens += 1;
+          res.end(JSON.stringify({ access_token: `access-${this.issuedTokens}`, expires_in: 3600 }));
+          return;
+        }
+
+        if (req.method === 'POST' && req.url?.startsWith('/v1/projects/')) {
+          this.sends.push({
+            url: req.url,
+            authorization: req.headers.authorization,
+            body: JSON.parse(body) as Record<string, unknown>,
+          });
+          const response = this.sendResponses.shift() ?? { status: 200, body: { name: 'projects/p/messages/1' } };
+          res.statusCode = response.status;
+          res.end(JSON.stringify(response.body));
+          return;
+        }
+
+        res.statusCode = 404;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.assertions = [];
+    this.sends = [];
+    this.sendResponses = [];
+    this.issuedTokens = 0;
+  }
+}
+
+function fcmError(status: number, code: string, message: string): { status: number; body: unknown } {
+  return {
+    status,
+    body: {
+      error: {
+        code: status,
+        message,
+        status: code === 'UNREGISTERED' ? 'NOT_FOUND' : code,
+        details: [{ '@type': 'type.googleapis.com/google.firebase.fcm.v1.FcmError', errorCode: code }],
+      },
+    },
+  };
+}
+
+describe('FcmPushNotificationProvider', () => {
+  const fcm = new StubFcmServer();
+  let account: GoogleServiceAccount;
+
+  const createProvider = (options: { projectId?: string } = {}): FcmPushNotificationProvider =>
+    new FcmPushNotificationProvider({
+      serviceAccount: account,
+      apiBaseUrl: fcm.baseUrl,
+      projectId: options.projectId ?? '',
+    });
+
+  beforeAll(async () => {
+    await fcm.start();
+    account = {
+      projectId: 'woly-test',
+      clientEmail: 'push@woly-test.iam.gserviceaccount.com',
+      privateKey,
+      tokenUri: `${fcm.baseUrl}/token`,
+    };
+  });
+
+  afterAll(async () => {
+    await fcm.stop();
+  });
+
+  beforeEach(() => {
+    fcm.reset();
+  });
+
+  it('returns non-permanent failure when no service account is configured', async () => {
     const fetchMock = jest.fn() as unknown as typeof fetch;
     const provider = new FcmPushNotificationProvider({
       fetchImpl: fetchMock,
-      serverKey: '',
+      serviceAccount: null,
     });
 
     const result = await provider.send('token-123', MESSAGE);
@@ -26,98 +172,489 @@ describe('pushNotificationProvider', () => {
     expect(result).toEqual({
       success: false,
       statusCode: null,
-      error: 'FCM server key is not configured',
+      error: 'FCM service account is not configured',
       permanentFailure: false,
     });
     expect(fetchMock).not.toHaveBeenCalled();
   });
 
-  it('sends FCM payload and marks permanent failure for unregistered tokens', async () => {
-    const fetchMock = jest.fn(async () => ({
-      ok: false,
-      status: 200,
-      text: async () => 'NotRegistered',
-    })) as unknown as typeof fetch;
+  it('sends HTTP v1 messages with a cached service-account access token', async () => {
+    const provider = createProvider();
 
-    const provider = new FcmPushNotificationProvider({
-      fetchImpl: fetchMock,
-      serverKey: 'server-key',
-    });
-
-    const result = await provider.send('token-123', MESSAGE);
+    await expect(
+      provider.send('token-123', {
+        ...MESSAGE,
+        data: { hostFqn: 'desktop@node-1', hostCount: 3, missing: null },
+        android: { priority: 'normal', ttlSeconds: 600, collapseKey: 'status', tag: 'host-1', channelId: 'alerts' },
+      }),
+    ).resolves.toEqual({ success: true, statusCode: 200, error: null, permanentFailure: false });
+    await expect(provider.send('token-456', MESSAGE)).resolves.toMatchObject({ success: true });
 
-    expect(fetchMock).toHaveBeenCalledWith(
-      'https://fcm.googleapis.com/fcm/send',
+    expect(fcm.assertions).toEqual([
       expect.objectContaining({
-        method: 'POST',
-        headers: expect.objectContaining({
-          Authorization: 'key=server-key',
-        }),
+        iss: 'push@woly-test.iam.gserviceaccount.com',
+        scope: 'https://www.googleapis.com/auth/firebase.messaging',
+        aud: `${fcm.baseUrl}/token`,
       }),
+    ]);
+    expect(fcm.sends).toHaveLength(2);
+    expect(fcm.sends[0]).toEqual({
+      url: '/v1/projects/woly-test/messages:send',
+      authorization: 'Bearer access-1',
+      body: {
+        message: {
+          token: 'token-123',
+          notification: { title: 'Wake Alert', body: 'Host desktop is awake' },
+          data: { eventType: 'host.awake', hostFqn: 'desktop@node-1', hostCount: '3' },
+          android: {
+            priority: 'normal',
+            ttl: '600s',
+            collapse_key: 'status',
+            notification: { tag: 'host-1', channel_id: 'alerts' },
+          },
+        },
+      },
+    });
+    expect(fcm.sends[1].authorization).toBe('Bearer access-1');
+    expect(fcm.sends[1].body).toMatchObject({ message: { android: { priority: 'high' } } });
+  });
+
+  it('maps v1 error codes to token invalidation', async () => {
+    const provider = createProvider({ projectId: 'woly-override' });
+    fcm.sendResponses.push(
+      fcmError(404, 'UNREGISTERED', 'Requested entity was not found.'),
+      fcmError(400, 'INVALID_ARGUMENT', 'The registration token is not a valid FCM registration token'),
+      fcmError(403, 'SENDER_ID_MISMATCH', 'SenderId mismatch'),
+      fcmError(400, 'INVALID_ARGUMENT', 'Invalid value at message.android.ttl'),
+      fcmError(503, 'UNAVAILABLE', 'The service is currently unavailable.'),
     );
-    expect(result).toEqual({
+
+    const results = [];
+    for (let i = 0; i < 5; i += 1) {
+      results.push(await provider.send('token-123', MESSAGE));
+    }
+
+    expect(fcm.sends[0].url).toBe('/v1/projects/woly-override/messages:send');
+    expect(results.map((result) => result.permanentFailure)).toEqual([true, true, true, false, false]);
+    expect(results[0]).toEqual({
       success: false,
-      statusCode: 200,
-      error: 'NotRegistered',
+      statusCode: 404,
+      error: 'UNREGISTERED: Requested entity was not found.',
       permanentFailure: true,
     });
   });
 
-  it('sends APNS payload when credentials exist', async () => {
-    const fetchMock = jest.fn(async () => ({
-      ok: true,
-      status: 200,
-      text: async () => '',
-    })) as unknown as typeof fetch;
+  it('mints a new access token and retries once when FCM answers 401', async () => {
+    const provider = createProvider();
+    fcm.sendResponses.push({ status: 401, body: { error: { code: 401, status: 'UNAUTHENTICATED' } } });
 
-    const provider = new ApnsPushNotificationProvider({
-      fetchImpl: fetchMock,
-      bearerToken: 'apns-token',
+    await expect(provider.send('token-123', MESSAGE)).resolves.toMatchObject({ success: true });
+
+    expect(fcm.sends.map((send) => send.authorization)).toEqual(['Bearer access-1', 'Bearer access-2']);
+  });
+
+  it('loads the service account from its key file', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'woly-fcm-'));
+    try {
+      const keyFile = path.join(dir, 'service-account.json');
+      writeFileSync(
+        keyFile,
+        JSON.stringify({
+          type: 'service_account',
+          project_id: 'woly-file',
+          client_email: 'file@woly-file.iam.gserviceaccount.com',
+          private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+          token_uri: `${fcm.baseUrl}/token`,
+        }),
+      );
+      const invalidFile = path.join(dir, 'invalid.json');
+      writeFileSync(invalidFile, JSON.stringify({ type: 'service_account', project_id: 'woly-file' }));
+
+      const provider = new FcmPushNotificationProvider({ serviceAccountFile: keyFile, apiBaseUrl: fcm.baseUrl });
+      await expect(provider.send('token-123', MESSAGE)).resolves.toMatchObject({ success: true });
+      expect(fcm.sends[0].url).toBe('/v1/projects/woly-file/messages:send');
+      expect(fcm.assertions[0]).toMatchObject({ iss: 'file@woly-file.iam.gserviceaccount.com' });
+
+      const invalid = new FcmPushNotificationProvider({ serviceAccountFile: invalidFile, apiBaseUrl: fcm.baseUrl });
+      await expect(invalid.send('token-123', MESSAGE)).resolves.toEqual({
+        success: false,
+        statusCode: null,
+        error: 'FCM service account could not be loaded: Service account JSON is missing "client_email"',
+        permanentFailure: false,
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ApnsPushNotificationProvider', () => {
+  const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const AUTH_KEY: ApnsAuthKey = { keyId: 'ABC123DEFG', teamId: 'TEAM123456', privateKey: ecKeys.privateKey };
+
+  type ApnsCall = { url: string; authorization: string; topic: string };
+
+  function mockApns(responses: Array<{ status: number; body?: string }>): {
+    fetchImpl: typeof fetch;
+    calls: ApnsCall[];
+  } {
+    const calls: ApnsCall[] = [];
+    const fetchImpl = jest.fn(async (url: string, init: { headers: Record<string, string> }) => {
+      calls.push({ url, authorization: init.headers.Authorization, topic: init.headers['apns-topic'] });
+      const response = responses.shift() ?? { status: 200 };
+      return {
+        ok: response.status >= 200 && response.status < 300,
+        status: response.status,
+        text: async () => response.body ?? '',
+      };
+    }) as unknown as typeof fetch;
+    return { fetchImpl, calls };
+  }
+
+  function createProvider(fetchImpl: typeof fetch, authKey: ApnsAuthKey | null = AUTH_KEY) {
+    return new ApnsPushNotificationProvider({
+      fetchImpl,
+      authKey,
       topic: 'com.example.woly',
-      host: 'https://api.sandbox.push.apple.com',
+      host: 'https://api.push.apple.com',
+      sandboxHost: 'https://api.sandbox.push.apple.com',
     });
+  }
 
-    const result = await provider.send('ios-token-123', MESSAGE);
+  function decodeJwtPart(part: string): Record<string, unknown> {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8')) as Record<string, unknown>;
+  }
 
-    expect(fetchMock).toHaveBeenCalledWith(
-      'https://api.sandbox.push.apple.com/3/device/ios-token-123',
-      expect.objectContaining({
-        method: 'POST',
-        headers: expect.objectContaining({
-          Authorization: 'bearer apns-token',
-          'apns-topic': 'com.example.woly',
-        }),
-      }),
-    );
+  it('signs an ES256 provider token and sends to the production host', async () => {
+    const { fetchImpl, calls } = mockApns([{ status: 200 }]);
+
+    const result = await createProvider(fetchImpl).send('ios-token-123', MESSAGE);
+
+    expect(result).toEqual({ success: true, statusCode: 200, error: null, permanentFailure: false });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe('https://api.push.apple.com/3/device/ios-token-123');
+    expect(calls[0].topic).toBe('com.example.woly');
+
+    const jwt = calls[0].authorization.replace(/^bearer /, '');
+    const [header, payload, signature] = jwt.split('.');
+    expect(decodeJwtPart(header)).toEqual({ alg: 'ES256', kid: 'ABC123DEFG' });
+    expect(decodeJwtPart(payload)).toEqual({ iss: 'TEAM123456', iat: expect.any(Number) });
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(`${header}.${payload}`),
+        { key: ecKeys.publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('sends sandbox devices to the sandbox host', async () => {
+    const { fetchImpl, calls } = mockApns([{ status: 200 }]);
+
+    await createProvider(fetchImpl).send('ios-token-123', MESSAGE, { apnsEnvironment: 'sandbox' });
+
+    expect(calls[0].url).toBe('https://api.sandbox.push.apple.com/3/device/ios-token-123');
+  });
+
+  it('re-signs the provider token and retries once when APNs reports it expired', async () => {
+    const { fetchImpl, calls } = mockApns([
+      { status: 403, body: JSON.stringify({ reason: 'ExpiredProviderToken' }) },
+      { status: 200 },
+    ]);
+
+    const result = await createProvider(fetchImpl).send('ios-token-123', MESSAGE);
+
+    expect(result.success).toBe(true);
+    expect(calls).toHaveLength(2);
+    expect(calls[1].authorization).not.toBe(calls[0].authorization);
+  });
+
+  it('does not retry other 403 responses', async () => {
+    const { fetchImpl, calls } = mockApns([{ status: 403, body: JSON.stringify({ reason: 'BadCertificate' }) }]);
+
+    const result = await createProvider(fetchImpl).send('ios-token-123', MESSAGE);
+
+    expect(calls).toHaveLength(1);
+    expect(result).toEqual({ success: false, statusCode: 403, error: 'BadCertificate', permanentFailure: false });
+  });
+
+  it('marks Unregistered and bad device tokens as permanent failures', async () => {
+    const { fetchImpl } = mockApns([
+      { status: 410, body: JSON.stringify({ reason: 'Unregistered', timestamp: 1700000000000 }) },
+      { status: 400, body: JSON.stringify({ reason: 'BadDeviceToken' }) },
+      { status: 400, body: JSON.stringify({ reason: 'PayloadTooLarge' }) },
+    ]);
+    const provider = createProvider(fetchImpl);
+
+    expect(await provider.send('ios-token-123', MESSAGE)).toEqual({
+      success: false,
+      statusCode: 410,
+      error: 'Unregistered',
+      permanentFailure: true,
+    });
+    expect((await provider.send('ios-token-123', MESSAGE)).permanentFailure).toBe(true);
+    expect(await provider.send('ios-token-123', MESSAGE)).toEqual({
+      success: false,
+      statusCode: 400,
+      error: 'PayloadTooLarge',
+      permanentFailure: false,
+    });
+  });
+
+  it('reports missing credentials without sending', async () => {
+    const { fetchImpl, calls } = mockApns([]);
+
+    const result = await createProvider(fetchImpl, null).send('ios-token-123', MESSAGE);
+
+    expect(calls).toHaveLength(0);
     expect(result).toEqual({
-      success: true,
-      statusCode: 200,
-      error: null,
+      success: false,
+      statusCode: null,
+      error: 'APNS credentials are not configured',
       permanentFailure: false,
     });
   });
 
-  it('marks APNS 410 responses as permanent failures', async () => {
-    const fetchMock = jest.fn(async () => ({
-      ok: false,
-      status: 410,
-      text: async () => 'Unregistered',
-    })) as unknown as typeof fetch;
+  it('loads the auth key from a .p8 file', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'woly-apns-'));
+    const keyFile = path.join(dir, 'AuthKey_ABC123DEFG.p8');
+    writeFileSync(keyFile, ecKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    const { fetchImpl, calls } = mockApns([{ status: 200 }]);
 
-    const provider = new ApnsPushNotificationProvider({
-      fetchImpl: fetchMock,
-      bearerToken: 'apns-token',
-      topic: 'com.example.woly',
-      host: 'https://api.push.apple.com',
+    try {
+      const provider = new ApnsPushNotificationProvider({
+        fetchImpl,
+        keyFile,
+        keyId: 'ABC123DEFG',
+        teamId: 'TEAM123456',
+        topic: 'com.example.woly',
+        host: 'https://api.push.apple.com',
+      });
+
+      expect((await provider.send('ios-token-123', MESSAGE)).success).toBe(true);
+      expect(decodeJwtPart(calls[0].authorization.replace(/^bearer /, '').split('.')[0]).kid).toBe('ABC123DEFG');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+/** Records raw requests and answers them from `responses`, like a push service or ntfy server. */
+class StubHttpServer {
+  baseUrl = '';
+  requests: Array<{ method: string; url: string; headers: IncomingMessage['headers']; body: Buffer }> = [];
+  responses: Array<{ status: number; body?: string }> = [];
+  private server: Server | null = null;
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        this.requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers, body });
+        const response = this.responses.shift() ?? { status: 201 };
+        res.statusCode = response.status;
+        res.end(response.body ?? '');
+      });
     });
 
-    const result = await provider.send('ios-token-123', MESSAGE);
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.requests = [];
+    this.responses = [];
+  }
+}
+
+describe('WebPushNotificationProvider', () => {
+  const pushService = new StubHttpServer();
+  const vapidEcdh = createECDH('prime256v1');
+  vapidEcdh.generateKeys();
+  const VAPID = {
+    publicKey: vapidEcdh.getPublicKey().toString('base64url'),
+    privateKey: vapidEcdh.getPrivateKey().toString('base64url'),
+    subject: 'mailto:ops@example.com',
+  };
+  const browser = createECDH('prime256v1');
+  browser.generateKeys();
+  const SUBSCRIPTION_KEYS = {
+    p256dh: browser.getPublicKey().toString('base64url'),
+    auth: 'tBHItJI5svbpez7KI4CCXg',
+  };
+
+  beforeAll(async () => {
+    await pushService.start();
+  });
+
+  afterAll(async () => {
+    await pushService.stop();
+  });
+
+  beforeEach(() => {
+    pushService.reset();
+  });
+
+  it('posts an encrypted payload with VAPID authorization to the subscription endpoint', async () => {
+    const provider = new WebPushNotificationProvider(VAPID);
+
+    const result = await provider.send(`${pushService.baseUrl}/push/sub-1`, MESSAGE, {
+      webPushKeys: SUBSCRIPTION_KEYS,
+    });
+
+    expect(result).toEqual({ success: true, statusCode: 201, error: null, permanentFailure: false });
+    const [request] = pushService.requests;
+    expect(request.url).toBe('/push/sub-1');
+    expect(request.headers['content-encoding']).toBe('aes128gcm');
+    expect(request.headers.ttl).toBe('86400');
+    expect(request.headers.authorization).toMatch(
+      new RegExp(`^vapid t=[\\w-]+\\.[\\w-]+\\.[\\w-]+, k=${VAPID.publicKey}$`),
+    );
+    // Salt, record size and key id header, then the ciphertext; the plaintext never goes over the wire.
+    expect(request.body.readUInt8(20)).toBe(65);
+    expect(request.body.toString('utf8')).not.toContain('Wake Alert');
+  });
+
+  it('marks expired subscriptions as permanent failures', async () => {
+    pushService.responses.push({ status: 410, body: 'push subscription has unsubscribed or expired' });
+    const provider = new WebPushNotificationProvider(VAPID);
+
+    const result = await provider.send(`${pushService.baseUrl}/push/sub-1`, MESSAGE, {
+      webPushKeys: SUBSCRIPTION_KEYS,
+    });
 
     expect(result).toEqual({
       success: false,
       statusCode: 410,
-      error: 'Unregistered',
+      error: 'push subscription has unsubscribed or expired',
+      permanentFailure: true,
+    });
+  });
+
+  it('reports missing VAPID configuration without sending', async () => {
+    const provider = new WebPushNotificationProvider({ publicKey: '', privateKey: '', subject: '' });
+
+    const result = await provider.send(`${pushService.baseUrl}/push/sub-1`, MESSAGE, {
+      webPushKeys: SUBSCRIPTION_KEYS,
+    });
+
+    expect(result.error).toBe('Web Push VAPID keys are not configured');
+    expect(pushService.requests).toHaveLength(0);
+  });
+});
+
+describe('NtfyNotificationProvider', () => {
+  const ntfy = new StubHttpServer();
+  const otherNtfy = new StubHttpServer();
+
+  beforeAll(async () => {
+    await ntfy.start();
+    await otherNtfy.start();
+  });
+
+  afterAll(async () => {
+    await ntfy.stop();
+    await otherNtfy.stop();
+  });
+
+  beforeEach(() => {
+    ntfy.reset();
+    otherNtfy.reset();
+  });
+
+  it('publishes a topic name as JSON on the configured server with its access token', async () => {
+    ntfy.responses.push({ status: 200, body: '{"id":"abc"}' });
+    const provider = new NtfyNotificationProvider({ baseUrl: ntfy.baseUrl, accessToken: 'tk_ntfy' });
+
+    const result = await provider.send('woly-alerts', { ...MESSAGE, title: 'Hôte réveillé' });
+
+    expect(result).toEqual({ success: true, statusCode: 200, error: null, permanentFailure: false });
+    const [request] = ntfy.requests;
+    expect(request.url).toBe('/');
+    expect(request.headers.authorization).toBe('Bearer tk_ntfy');
+    expect(JSON.parse(request.body.toString('utf8'))).toEqual({
+      topic: 'woly-alerts',
+      title: 'Hôte réveillé',
+      message: 'Host desktop is awake',
+      tags: ['host.awake'],
+    });
+  });
+
+  it('publishes topic URLs on their own server without the access token', async () => {
+    const provider = new NtfyNotificationProvider({ baseUrl: ntfy.baseUrl, accessToken: 'tk_ntfy' });
+
+    await provider.send(`${otherNtfy.baseUrl}/private-topic`, MESSAGE);
+
+    expect(ntfy.requests).toHaveLength(0);
+    expect(otherNtfy.requests[0].headers.authorization).toBeUndefined();
+    expect(JSON.parse(otherNtfy.requests[0].body.toString('utf8')).topic).toBe('private-topic');
+  });
+
+  it('reports rejected publishes as retryable failures', async () => {
+    ntfy.responses.push({ status: 403, body: '{"code":40301,"error":"forbidden"}' });
+    const provider = new NtfyNotificationProvider({ baseUrl: ntfy.baseUrl });
+
+    const result = await provider.send('woly-alerts', MESSAGE);
+
+    expect(result).toEqual({
+      success: false,
+      statusCode: 403,
+      error: '{"code":40301,"error":"forbidden"}',
+      permanentFailure: false,
+    });
+  });
+});
+
+describe('EmailNotificationProvider', () => {
+  const SMTP = { host: '127.0.0.1', port: 2525, secure: false };
+  const mockedSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+
+  beforeEach(() => {
+    mockedSendMail.mockReset();
+  });
+
+  it('mails the notification to the registered address', async () => {
+    mockedSendMail.mockResolvedValue(undefined);
+    const provider = new EmailNotificationProvider({ smtp: SMTP, from: 'WoLy <woly@example.com>' });
+
+    const result = await provider.send('ops@example.com', MESSAGE);
+
+    expect(result).toEqual({ success: true, statusCode: 250, error: null, permanentFailure: false });
+    expect(mockedSendMail).toHaveBeenCalledWith(SMTP, {
+      from: 'WoLy <woly@example.com>',
+      to: 'ops@example.com',
+      subject: 'WoLy: Wake Alert',
+      text: expect.stringContaining('Host desktop is awake'),
+    });
+  });
+
+  it('treats rejected recipients as permanent and other SMTP errors as retryable', async () => {
+    const { SmtpError } = jest.requireActual<typeof import('../smtpClient')>('../smtpClient');
+    mockedSendMail
+      .mockRejectedValueOnce(new SmtpError('SMTP RCPT failed: 550 no such user', 550, 'RCPT'))
+      .mockRejectedValueOnce(new SmtpError('SMTP MAIL failed: 451 try later', 451, 'MAIL'));
+    const provider = new EmailNotificationProvider({ smtp: SMTP, from: 'woly@example.com' });
+
+    expect(await provider.send('gone@example.com', MESSAGE)).toEqual({
+      success: false,
+      statusCode: 550,
+      error: 'SMTP RCPT failed: 550 no such user',
       permanentFailure: true,
     });
+    expect((await provider.send('ops@example.com', MESSAGE)).permanentFailure).toBe(false);
+  });
+
+  it('reports missing SMTP configuration without sending', async () => {
+    const provider = new EmailNotificationProvider({ smtp: null, from: '' });
+
+    expect((await provider.send('ops@example.com', MESSAGE)).error).toBe('SMTP is not configured');
+    expect(mockedSendMail).not.toHaveBeenCalled();
   });
 });
@@ -26,6 +26,8 @@ jest.mock('../../models/PushNotification', () => ({
     listAllDevices: jest.fn(),
     getPreferencesByUsers: jest.fn(),
     deleteDeviceByToken: jest.fn(),
+    getHostScope: jest.fn(),
+    listHostsAsleepSince: jest.fn(),
   },
 }));
 
@@ -143,7 +145,9 @@ describe('PushNotificationService', () => {
       expect.objectContaining({
         eventType: 'host.awake',
         title: 'Host Awake',
+        android: { tag: 'host-status:desktop@node-1' },
       }),
+      { apnsEnvironment: undefined },
     );
     expect(iosSend).not.toHaveBeenCalled();
     expect(mockedPushModel.deleteDeviceByToken).not.toHaveBeenCalled();
@@ -163,6 +167,7 @@ describe('PushNotificationService', () => {
         userId: 'user-1',
         platform: 'ios',
         token: 'ios-token-1',
+        apnsEnvironment: 'sandbox',
         createdAt: '2026-02-18T00:00:00.000Z',
         updatedAt: '2026-02-18T00:00:00.000Z',
         lastSeenAt: '2026-02-18T00:00:00.000Z',
@@ -186,6 +191,218 @@ describe('PushNotificationService', () => {
     });
 
     expect(iosSend).toHaveBeenCalledTimes(1);
+    expect(iosSend).toHaveBeenCalledWith('ios-token-1', expect.any(Object), { apnsEnvironment: 'sandbox' });
     expect(mockedPushModel.deleteDeviceByToken).toHaveBeenCalledWith('ios-token-1');
   });
+
+  it('delivers to self-hosted channels with their stored delivery details', async () => {
+    const webSend = jest.fn(async () => ({ success: true, statusCode: 201, error: null, permanentFailure: false }));
+    const ntfySend = jest.fn(async () => ({ success: true, statusCode: 200, error: null, permanentFailure: false }));
+    const webPushKeys = { p256dh: 'p256dh-key', auth: 'auth-secret' };
+    const registered = {
+      userId: 'user-1',
+      createdAt: '2026-02-18T00:00:00.000Z',
+      updatedAt: '2026-02-18T00:00:00.000Z',
+    };
+
+    mockedPushModel.listAllDevices.mockResolvedValue([
+      {
+        ...registered,
+        id: 'dev-1',
+        platform: 'web',
+        token: 'https://push.example.com/send/abc',
+        webPushKeys,
+        lastSeenAt: '2026-02-18T00:00:00.000Z',
+      },
+      { ...registered, id: 'dev-2', platform: 'ntfy', token: 'woly-alerts', lastSeenAt: '2026-02-18T00:00:00.000Z' },
+    ]);
+    mockedPushModel.getPreferencesByUsers.mockResolvedValue(new Map([['user-1', DEFAULT_PREFS]]));
+
+    const service = new PushNotificationService({ providers: { web: { send: webSend }, ntfy: { send: ntfySend } } });
+
+    await service.sendEvent('host.awake', { hostFqn: 'desktop@node-1' });
+
+    expect(webSend).toHaveBeenCalledWith('https://push.example.com/send/abc', expect.any(Object), {
+      apnsEnvironment: undefined,
+      webPushKeys,
+    });
+    expect(ntfySend).toHaveBeenCalledWith('woly-alerts', expect.objectContaining({ title: 'Host Awake' }), {
+      apnsEnvironment: undefined,
+      webPushKeys: undefined,
+    });
+  });
+
+  describe('notification rules', () => {
+    const androidDevice = {
+      id: 'dev-1',
+      userId: 'user-1',
+      platform: 'android' as const,
+      token: 'android-token-1',
+      createdAt: '2026-02-18T00:00:00.000Z',
+      updatedAt: '2026-02-18T00:00:00.000Z',
+      lastSeenAt: '2026-02-18T00:00:00.000Z',
+    };
+    const ok = { success: true, statusCode: 200, error: null, permanentFailure: false };
+
+    beforeEach(() => {
+      mockedPushModel.listAllDevices.mockResolvedValue([androidDevice]);
+      mockedPushModel.getHostScope.mockImplementation(async (hostFqn: string) => ({
+        hostFqn,
+        nodeId: 'node-1',
+        tags: hostFqn.startsWith('backup') ? ['storage'] : [],
+        groupIds: [],
+      }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('lets matching rules replace the global event list', async () => {
+      const androidSend = jest.fn(async () => ok);
+      mockedPushModel.getPreferencesByUsers.mockResolvedValue(
+        new Map([
+          [
+            'user-1',
+            {
+              enabled: true,
+              events: [],
+              quietHours: null,
+              rules: [
+                { scope: 'tag', target: 'storage', events: ['host.asleep'] },
+                { scope: 'node', target: 'node-2', events: ['node.disconnected'] },
+              ],
+            },
+          ],
+        ]),
+      );
+      const service = new PushNotificationService({ providers: { android: { send: androidSend } } });
+
+      await service.sendEvent('host.asleep', { hostFqn: 'backup@node-1' });
+      await service.sendEvent('host.awake', { hostFqn: 'backup@node-1' });
+      await service.sendEvent('host.asleep', { hostFqn: 'desktop@node-1' });
+      await service.sendEvent('node.disconnected', { nodeId: 'node-1' });
+      await service.sendEvent('node.disconnected', { nodeId: 'node-2' });
+
+      expect(androidSend).toHaveBeenCalledTimes(2);
+      expect(androidSend).toHaveBeenNthCalledWith(
+        1,
+        'android-token-1',
+        expect.objectContaining({ title: 'Host Asleep', body: 'backup@node-1 is now asleep' }),
+        expect.any(Object),
+      );
+      expect(androidSend).toHaveBeenNthCalledWith(
+        2,
+        'android-token-1',
+        expect.objectContaining({ title: 'Node Offline', body: 'Node node-2 disconnected' }),
+        expect.any(Object),
+      );
+    });
+
+    it('does not look up hosts for users without rules', async () => {
+      mockedPushModel.getPreferencesByUsers.mockResolvedValue(new Map([['user-1', DEFAULT_PREFS]]));
+      const service = new PushNotificationService({ providers: { android: { send: jest.fn(async () => ok) } } });
+
+      await service.sendEvent('host.awake', { hostFqn: 'desktop@node-1' });
+
+      expect(mockedPushModel.getHostScope).not.toHaveBeenCalled();
+    });
+
+    it('sends the first event at once and folds the rest of the window into one digest', async () => {
+      jest.useFakeTimers();
+      const androidSend = jest.fn(async () => ok);
+      mockedPushModel.getPreferencesByUsers.mockResolvedValue(
+        new Map([
+          [
+            'user-1',
+            {
+              enabled: true,
+              events: ['host.awake'],
+              quietHours: null,
+              rules: [
+                { scope: 'host', target: 'backup@node-1', events: ['host.awake', 'host.asleep'], digestMinutes: 30 },
+              ],
+            },
+          ],
+        ]),
+      );
+      const service = new PushNotificationService({ providers: { android: { send: androidSend } } });
+
+      await service.sendEvent('host.awake', { hostFqn: 'backup@node-1' });
+      await service.sendEvent('host.asleep', { hostFqn: 'backup@node-1' });
+      await service.sendEvent('host.awake', { hostFqn: 'backup@node-1' });
+      await service.sendEvent('host.awake', { hostFqn: 'desktop@node-1' });
+      expect(androidSend).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(30 * 60 * 1000);
+
+      expect(androidSend).toHaveBeenCalledTimes(3);
+      expect(androidSend).toHaveBeenLastCalledWith(
+        'android-token-1',
+        expect.objectContaining({
+          title: 'Notification Digest',
+          body: 'backup@node-1: 2 more events (1x host.asleep, 1x host.awake)',
+          eventType: 'host.awake',
+          data: expect.objectContaining({ hostFqn: 'backup@node-1', digestCount: 2 }),
+        }),
+        expect.any(Object),
+      );
+
+      // The digest opened a new window; once it closes idle, the next event is sent at once.
+      await jest.advanceTimersByTimeAsync(30 * 60 * 1000);
+      expect(androidSend).toHaveBeenCalledTimes(3);
+      await service.sendEvent('host.asleep', { hostFqn: 'backup@node-1' });
+      expect(androidSend).toHaveBeenCalledTimes(4);
+
+      service.stop();
+    });
+
+    it('notifies once when a matching host has stayed asleep past the threshold', async () => {
+      const androidSend = jest.fn(async () => ok);
+      let now = new Date('2026-02-18T12:00:00.000Z');
+      mockedPushModel.getPreferencesByUsers.mockResolvedValue(
+        new Map([
+          [
+            'user-1',
+            {
+              enabled: true,
+              events: ['host.awake'],
+              quietHours: null,
+              rules: [{ scope: 'tag', target: 'storage', events: [], asleepLongerThanMinutes: 120 }],
+            },
+          ],
+        ]),
+      );
+      mockedPushModel.listHostsAsleepSince.mockResolvedValue([
+        { hostFqn: 'backup@node-1', asleepSince: '2026-02-18T10:30:00.000Z' },
+        { hostFqn: 'desktop@node-1', asleepSince: '2026-02-18T10:30:00.000Z' },
+      ]);
+      const service = new PushNotificationService({ now: () => now, providers: { android: { send: androidSend } } });
+
+      await service.checkAsleepHosts();
+      now = new Date('2026-02-18T12:29:00.000Z');
+      await service.checkAsleepHosts();
+      expect(androidSend).not.toHaveBeenCalled();
+
+      now = new Date('2026-02-18T12:31:00.000Z');
+      await service.checkAsleepHosts();
+      expect(mockedPushModel.listHostsAsleepSince).toHaveBeenLastCalledWith(
+        '2026-02-18T10:29:00.000Z',
+        '2026-02-18T10:31:00.000Z',
+      );
+      expect(androidSend).toHaveBeenCalledTimes(1);
+      expect(androidSend).toHaveBeenCalledWith(
+        'android-token-1',
+        expect.objectContaining({
+          title: 'Host Still Asleep',
+          body: 'backup@node-1 has been asleep for more than 120 minutes',
+        }),
+        expect.any(Object),
+      );
+
+      now = new Date('2026-02-18T12:32:00.000Z');
+      await service.checkAsleepHosts();
+      expect(androidSend).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,146 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { sendMail, SmtpError } from '../smtpClient';
+
+/** Line-based SMTP server that records the session and can reject recipients. */
+class FakeSmtpServer {
+  port = 0;
+  commands: string[] = [];
+  messages: string[] = [];
+  rejectRecipients = new Set<string>();
+  private server: net.Server | null = null;
+
+  async start(): Promise<void> {
+    this.server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      let data = '';
+      socket.setEncoding('utf8');
+      socket.write('220 fake.smtp ESMTP ready\r\n');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let index = buffer.indexOf('\r\n');
+        while (index >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          index = buffer.indexOf('\r\n');
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              this.messages.push(data);
+              data = '';
+              socket.write('250 2.0.0 queued\r\n');
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          this.commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === 'EHLO') {
+            socket.write('250-fake.smtp\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+          } else if (verb === 'AUTH') {
+            const credentials = Buffer.from(line.split(' ')[2] ?? '', 'base64').toString('utf8');
+            socket.write(credentials === '\0woly\0secret' ? '235 2.7.0 accepted\r\n' : '535 5.7.8 bad credentials\r\n');
+          } else if (verb === 'RCPT') {
+            const address = /<([^>]+)>/.exec(line)?.[1] ?? '';
+            socket.write(this.rejectRecipients.has(address) ? '550 5.1.1 no such user\r\n' : '250 2.1.5 ok\r\n');
+          } else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 end with .\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+}
+
+describe('sendMail', () => {
+  const smtp = new FakeSmtpServer();
+
+  beforeAll(async () => {
+    await smtp.start();
+  });
+
+  afterAll(async () => {
+    await smtp.stop();
+  });
+
+  beforeEach(() => {
+    smtp.commands = [];
+    smtp.messages = [];
+    smtp.rejectRecipients.clear();
+  });
+
+  it('authenticates and delivers a base64 encoded plain-text message', async () => {
+    await sendMail(
+      { host: '127.0.0.1', port: smtp.port, secure: false, username: 'woly', password: 'secret' },
+      { from: 'WoLy <woly@example.com>', to: 'ops@example.com', subject: 'Host büro is awake', text: '.line\nnext' },
+    );
+
+    expect(smtp.commands.map((command) => command.split(' ')[0])).toEqual([
+      'EHLO',
+      'AUTH',
+      'MAIL',
+      'RCPT',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(smtp.commands).toContain('MAIL FROM:<woly@example.com>');
+    expect(smtp.commands).toContain('RCPT TO:<ops@example.com>');
+
+    const [headers, body] = smtp.messages[0].split('\r\n\r\n');
+    expect(headers).toContain('From: WoLy <woly@example.com>');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Host büro is awake').toString('base64')}?=`);
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe('.line\r\nnext');
+  });
+
+  it('reports rejected recipients with the reply code and command', async () => {
+    smtp.rejectRecipients.add('gone@example.com');
+
+    await expect(
+      sendMail(
+        { host: '127.0.0.1', port: smtp.port, secure: false },
+        { from: 'woly@example.com', to: 'gone@example.com', subject: 'Test', text: 'Test' },
+      ),
+    ).rejects.toMatchObject({ name: 'SmtpError', code: 550, command: 'RCPT' });
+  });
+
+  it('fails on rejected credentials', async () => {
+    await expect(
+      sendMail(
+        { host: '127.0.0.1', port: smtp.port, secure: false, username: 'woly', password: 'wrong' },
+        { from: 'woly@example.com', to: 'ops@example.com', subject: 'Test', text: 'Test' },
+      ),
+    ).rejects.toMatchObject({ code: 535, command: 'AUTH' });
+    expect(smtp.messages).toHaveLength(0);
+  });
+
+  it('reports connection failures', async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const error = await sendMail(
+      { host: '127.0.0.1', port, secure: false },
+      { from: 'woly@example.com', to: 'ops@example.com', subject: 'Test', text: 'Test' },
+    ).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect((error as SmtpError).code).toBeNull();
+  });
+});
@@ -1,5 +1,14 @@
-import { processDueWakeSchedules, startWakeScheduleWorker, stopWakeScheduleWorker } from '../wakeScheduleWorker';
+import { EventEmitter } from 'events';
+import {
+  processDueWakeSchedules,
+  recordScheduledWakeVerification,
+  startWakeScheduleWorker,
+  stopWakeScheduleWorker,
+} from '../wakeScheduleWorker';
 import HostScheduleModel from '../../models/HostSchedule';
+import HostScheduleExecutionModel from '../../models/HostScheduleExecution';
+import type { ScheduleExecution } from '../../types';
+import { PluginEventBus } from '../pluginEventBus';
 import logger from '../../utils/logger';
 import type { CommandRouter } from '../commandRouter';
 
@@ -7,10 +16,19 @@ jest.mock('../../models/HostSchedule', () => ({
   __esModule: true,
   default: {
     listDue: jest.fn(),
+    findById: jest.fn(),
     recordExecutionAttempt: jest.fn(),
   },
 }));
 
+jest.mock('../../models/HostScheduleExecution', () => ({
+  __esModule: true,
+  default: {
+    record: jest.fn(),
+    completeWakeVerification: jest.fn(),
+  },
+}));
+
 jest.mock('../../utils/logger', () => ({
   __esModule: true,
   default: {
@@ -21,12 +39,34 @@ jest.mock('../../utils/logger', () => ({
 }));
 
 const mockedHostScheduleModel = HostScheduleModel as jest.Mocked<typeof HostScheduleModel>;
+const mockedExecutionModel = HostScheduleExecutionModel as jest.Mocked<typeof HostScheduleExecutionModel>;
 const mockedLogger = logger as jest.Mocked<typeof logger>;
 
+function sampleExecution(overrides: Partial<ScheduleExecution> = {}): ScheduleExecution {
+  return {
+    id: 1,
+    scheduleId: 'schedule-1',
+    hostFqn: 'office@home',
+    action: 'wake',
+    attemptedAt: '2026-02-16T09:00:00.000Z',
+    outcome: 'succeeded',
+    commandId: 'cmd-1',
+    commandState: 'acknowledged',
+    correlationId: 'schedule:schedule-1:1',
+    wakeVerification: null,
+    error: null,
+    completedAt: '2026-02-16T09:00:01.000Z',
+    ...overrides,
+  };
+}
+
 describe('wakeScheduleWorker', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     stopWakeScheduleWorker();
+    mockedExecutionModel.record.mockImplementation(async (input) =>
+      sampleExecution({ ...input, completedAt: null }),
+    );
   });
 
   afterEach(() => {
@@ -98,6 +138,46 @@ describe('wakeScheduleWorker', () => {
     );
   });
 
+  it('dispatches sleep and shutdown commands for power action schedules', async () => {
+    const commandRouter = {
+      routeWakeCommand: jest.fn(),
+      routeSleepHostCommand: jest.fn().mockResolvedValue({ success: true }),
+      routeShutdownHostCommand: jest.fn().mockResolvedValue({ success: true }),
+    } as unknown as CommandRouter;
+
+    const baseSchedule = {
+      hostName: 'office',
+      hostMac: '00:11:22:33:44:55',
+      scheduledTime: '2026-02-16T22:00:00.000Z',
+      frequency: 'daily' as const,
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+      createdAt: '2026-02-15T00:00:00.000Z',
+      updatedAt: '2026-02-15T00:00:00.000Z',
+    };
+    mockedHostScheduleModel.listDue.mockResolvedValue([
+      { ...baseSchedule, id: 'schedule-sleep', hostFqn: 'office@home', action: 'sleep' },
+      { ...baseSchedule, id: 'schedule-shutdown', hostFqn: 'lab@home', action: 'shutdown' },
+    ]);
+    mockedHostScheduleModel.recordExecutionAttempt.mockResolvedValue(null);
+
+    const processed = await processDueWakeSchedules({ commandRouter });
+
+    expect(processed).toBe(2);
+    expect(commandRouter.routeWakeCommand).not.toHaveBeenCalled();
+    expect(commandRouter.routeSleepHostCommand).toHaveBeenCalledWith('office@home', {
+      correlationId: expect.stringMatching(/^schedule:schedule-sleep:/),
+    });
+    expect(commandRouter.routeShutdownHostCommand).toHaveBeenCalledWith('lab@home', {
+      correlationId: expect.stringMatching(/^schedule:schedule-shutdown:/),
+    });
+    expect(mockedLogger.info).toHaveBeenCalledWith(
+      'Wake schedule executed',
+      expect.objectContaining({ scheduleId: 'schedule-shutdown', action: 'shutdown' }),
+    );
+  });
+
   it('continues processing when wake command routing fails', async () => {
     const commandRouter = {
       routeWakeCommand: jest.fn().mockRejectedValue(new Error('node offline')),
@@ -135,6 +215,215 @@ describe('wakeScheduleWorker', () => {
     );
   });
 
+  it('requests wake verification and records the execution as pending', async () => {
+    const commandRouter = {
+      routeWakeCommand: jest.fn().mockResolvedValue({
+        success: true,
+        commandId: 'cmd-1',
+        state: 'acknowledged',
+        wakeVerification: { status: 'pending', startedAt: '2026-02-16T09:00:00.000Z' },
+      }),
+    } as unknown as CommandRouter;
+    mockedHostScheduleModel.listDue.mockResolvedValue([
+      {
+        id: 'schedule-1',
+        hostFqn: 'office@home',
+        hostName: 'office',
+        hostMac: '00:11:22:33:44:55',
+        scheduledTime: '2026-02-16T09:00:00.000Z',
+        frequency: 'daily',
+        enabled: true,
+        notifyOnWake: true,
+        timezone: 'UTC',
+        createdAt: '2026-02-15T00:00:00.000Z',
+        updatedAt: '2026-02-15T00:00:00.000Z',
+      },
+    ]);
+    mockedHostScheduleModel.recordExecutionAttempt.mockResolvedValue(null);
+
+    await processDueWakeSchedules({ commandRouter });
+
+    expect(commandRouter.routeWakeCommand).toHaveBeenCalledWith('office@home', {
+      correlationId: expect.stringMatching(/^schedule:schedule-1:/),
+      verify: { timeoutMs: 120_000, pollIntervalMs: 3_000 },
+    });
+    expect(mockedExecutionModel.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleId: 'schedule-1',
+        action: 'wake',
+        outcome: 'pending',
+        commandId: 'cmd-1',
+        commandState: 'acknowledged',
+      }),
+    );
+  });
+
+  it('records wakes of hosts with dependencies once their background job settles', async () => {
+    let settleJob: (job: unknown) => void = () => undefined;
+    const commandRouter = {
+      routeWakeCommand: jest.fn().mockResolvedValue({
+        success: true,
+        nodeId: 'node-1',
+        dependencyJob: { jobId: 'job_1', state: 'running' },
+      }),
+      waitForWakeDependencyJob: jest.fn(() => new Promise((resolve) => {
+        settleJob = resolve;
+      })),
+    } as unknown as CommandRouter;
+    mockedHostScheduleModel.listDue.mockResolvedValue([
+      {
+        id: 'schedule-1',
+        hostFqn: 'office@home',
+        hostName: 'office',
+        hostMac: '00:11:22:33:44:55',
+        scheduledTime: '2026-02-16T09:00:00.000Z',
+        frequency: 'daily',
+        enabled: true,
+        notifyOnWake: true,
+        timezone: 'UTC',
+        createdAt: '2026-02-15T00:00:00.000Z',
+        updatedAt: '2026-02-15T00:00:00.000Z',
+      },
+    ]);
+    mockedHostScheduleModel.recordExecutionAttempt.mockResolvedValue(null);
+
+    await processDueWakeSchedules({ commandRouter });
+
+    expect(commandRouter.waitForWakeDependencyJob).toHaveBeenCalledWith('job_1');
+    expect(mockedHostScheduleModel.recordExecutionAttempt).toHaveBeenCalledTimes(1);
+    expect(mockedExecutionModel.record).not.toHaveBeenCalled();
+
+    settleJob({
+      jobId: 'job_1',
+      state: 'completed',
+      steps: [
+        { fqn: 'nas@home', role: 'prerequisite', status: 'confirmed' },
+        { fqn: 'office@home', role: 'target', status: 'pending', commandId: 'cmd-2' },
+      ],
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockedExecutionModel.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleId: 'schedule-1',
+        outcome: 'pending',
+        commandId: 'cmd-2',
+        commandState: 'acknowledged',
+      }),
+    );
+  });
+
+  it('records failed executions and publishes schedule.failed only when notifyOnWake is set', async () => {
+    const commandRouter = {
+      routeWakeCommand: jest.fn(),
+      routeShutdownHostCommand: jest.fn().mockRejectedValue(new Error('Node home is offline')),
+    } as unknown as CommandRouter;
+    const eventBus = new PluginEventBus();
+    const onFailed = jest.fn();
+    eventBus.subscribe('schedule.failed', onFailed);
+
+    const baseSchedule = {
+      hostFqn: 'office@home',
+      hostName: 'office',
+      hostMac: '00:11:22:33:44:55',
+      scheduledTime: '2026-02-16T22:00:00.000Z',
+      frequency: 'daily' as const,
+      action: 'shutdown' as const,
+      enabled: true,
+      timezone: 'UTC',
+      createdAt: '2026-02-15T00:00:00.000Z',
+      updatedAt: '2026-02-15T00:00:00.000Z',
+    };
+    mockedHostScheduleModel.listDue.mockResolvedValue([
+      { ...baseSchedule, id: 'schedule-notify', notifyOnWake: true },
+      { ...baseSchedule, id: 'schedule-quiet', notifyOnWake: false },
+    ]);
+    mockedHostScheduleModel.recordExecutionAttempt.mockResolvedValue(null);
+
+    await processDueWakeSchedules({ commandRouter, eventBus });
+
+    expect(mockedExecutionModel.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleId: 'schedule-notify',
+        outcome: 'failed',
+        commandState: 'failed',
+        error: 'Node home is offline',
+      }),
+    );
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'schedule.failed',
+        data: expect.objectContaining({
+          scheduleId: 'schedule-notify',
+          action: 'shutdown',
+          error: 'Node home is offline',
+        }),
+      }),
+    );
+  });
+
+  it('completes scheduled wakes from verification results and reports unconfirmed wakes', async () => {
+    const eventBus = new PluginEventBus();
+    const onFailed = jest.fn();
+    eventBus.subscribe('schedule.failed', onFailed);
+    const wakeVerification = {
+      status: 'timeout' as const,
+      attempts: 40,
+      elapsedMs: 120_000,
+      startedAt: '2026-02-16T09:00:01.000Z',
+    };
+    mockedExecutionModel.completeWakeVerification.mockResolvedValue(
+      sampleExecution({ outcome: 'failed', wakeVerification, error: 'Wake verification timeout' }),
+    );
+    mockedHostScheduleModel.findById.mockResolvedValue({
+      id: 'schedule-1',
+      hostFqn: 'office@home',
+      hostName: 'office',
+      hostMac: '00:11:22:33:44:55',
+      scheduledTime: '2026-02-16T09:00:00.000Z',
+      frequency: 'daily',
+      enabled: true,
+      notifyOnWake: true,
+      timezone: 'UTC',
+      createdAt: '2026-02-15T00:00:00.000Z',
+      updatedAt: '2026-02-15T00:00:00.000Z',
+    });
+
+    await recordScheduledWakeVerification({ commandId: 'cmd-1', wakeVerification }, eventBus);
+
+    expect(mockedExecutionModel.completeWakeVerification).toHaveBeenCalledWith('cmd-1', wakeVerification);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ scheduleId: 'schedule-1', wakeVerification }),
+      }),
+    );
+
+    mockedExecutionModel.completeWakeVerification.mockResolvedValue(null);
+    await expect(
+      recordScheduledWakeVerification({ commandId: 'manual-wake', wakeVerification }, eventBus),
+    ).resolves.toBeNull();
+    expect(onFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it('listens for wake verification results while running', async () => {
+    const commandRouter = Object.assign(new EventEmitter(), {
+      routeWakeCommand: jest.fn(),
+    }) as unknown as CommandRouter;
+    mockedHostScheduleModel.listDue.mockResolvedValue([]);
+    mockedExecutionModel.completeWakeVerification.mockResolvedValue(null);
+
+    startWakeScheduleWorker({ commandRouter, enabled: true, pollIntervalMs: 60_000, batchSize: 25 });
+    const wakeVerification = { status: 'confirmed' as const, attempts: 2, elapsedMs: 6_000, startedAt: '2026-02-16T09:00:01.000Z' };
+    commandRouter.emit('wake-verification-complete', { commandId: 'cmd-1', wakeVerification });
+    await Promise.resolve();
+
+    expect(mockedExecutionModel.completeWakeVerification).toHaveBeenCalledWith('cmd-1', wakeVerification);
+
+    stopWakeScheduleWorker();
+    expect(commandRouter.listenerCount('wake-verification-complete')).toBe(0);
+  });
+
   it('does not schedule intervals when worker is disabled', () => {
     const setIntervalSpy = jest.spyOn(global, 'setInterval');
     const commandRouter = {
@@ -160,9 +449,9 @@ describe('wakeScheduleWorker', () => {
     jest.useFakeTimers();
     const setIntervalSpy = jest.spyOn(global, 'setInterval');
     const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
-    const commandRouter = {
+    const commandRouter = Object.assign(new EventEmitter(), {
       routeWakeCommand: jest.fn(),
-    } as unknown as CommandRouter;
+    }) as unknown as CommandRouter;
 
     let resolveListDue: () => void = () => undefined;
     mockedHostScheduleModel.listDue.mockImplementation(
@@ -0,0 +1,118 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import { buildVapidAuthorization, encryptWebPushPayload, parseVapidKeys } from '../webPush';
+
+/** A browser subscription: the key pair and auth secret the user agent keeps. */
+function createSubscription(): { ecdh: ReturnType<typeof createECDH>; keys: { p256dh: string; auth: string } } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    ecdh,
+    keys: { p256dh: ecdh.getPublicKey().toString('base64url'), auth: randomBytes(16).toString('base64url') },
+  };
+}
+
+/** Decrypts an `aes128gcm` body the way the user agent does (RFC 8291 section 3). */
+function decrypt(body: Buffer, subscription: ReturnType<typeof createSubscription>): Buffer {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const sharedSecret = subscription.ecdh.computeSecret(serverPublicKey);
+  const userAgentPublicKey = subscription.ecdh.getPublicKey();
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  expect(padded[padded.length - 1]).toBe(0x02);
+  return padded.subarray(0, padded.length - 1);
+}
+
+function generateVapidStrings(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+describe('encryptWebPushPayload', () => {
+  it('encrypts a payload only the subscribing browser can read', () => {
+    const subscription = createSubscription();
+    const plaintext = Buffer.from(JSON.stringify({ title: 'Host Awake', body: 'desktop is awake' }));
+
+    const body = encryptWebPushPayload(plaintext, subscription.keys);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body, subscription)).toEqual(plaintext);
+    expect(() => decrypt(body, createSubscription())).toThrow();
+  });
+
+  it('uses a fresh salt and key for every message', () => {
+    const subscription = createSubscription();
+    const first = encryptWebPushPayload(Buffer.from('hello'), subscription.keys);
+    const second = encryptWebPushPayload(Buffer.from('hello'), subscription.keys);
+
+    expect(first.subarray(0, 16)).not.toEqual(second.subarray(0, 16));
+    expect(first.subarray(21, 86)).not.toEqual(second.subarray(21, 86));
+  });
+
+  it('rejects payloads larger than one record', () => {
+    expect(() => encryptWebPushPayload(Buffer.alloc(4080), createSubscription().keys)).toThrow('exceeds');
+  });
+});
+
+describe('VAPID', () => {
+  it('signs an ES256 token for the push service origin', () => {
+    const raw = generateVapidStrings();
+    const vapid = parseVapidKeys(raw.publicKey, raw.privateKey, 'mailto:ops@example.com');
+
+    const header = buildVapidAuthorization('https://push.example.com/send/abc?x=1', vapid, 1_700_000_000);
+
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(header);
+    expect(match?.[2]).toBe(raw.publicKey);
+    const [jwtHeader, payload, signature] = match![1].split('.');
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))).toEqual({
+      aud: 'https://push.example.com',
+      exp: 1_700_000_000 + 12 * 60 * 60,
+      sub: 'mailto:ops@example.com',
+    });
+
+    const publicBytes = Buffer.from(raw.publicKey, 'base64url');
+    const publicKey = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicBytes.subarray(1, 33).toString('base64url'),
+        y: publicBytes.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(
+      verify(
+        'sha256',
+        Buffer.from(`${jwtHeader}.${payload}`),
+        { key: publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('rejects malformed keys and subjects', () => {
+    const raw = generateVapidStrings();
+    const other = generateVapidStrings();
+
+    expect(() => parseVapidKeys('abc', raw.privateKey, 'mailto:ops@example.com')).toThrow('65 bytes');
+    expect(() => parseVapidKeys(raw.publicKey, 'abc', 'mailto:ops@example.com')).toThrow('32-byte');
+    expect(() => parseVapidKeys(raw.publicKey, raw.privateKey, 'ops@example.com')).toThrow('mailto:');
+    expect(() => parseVapidKeys(raw.publicKey, other.privateKey, 'mailto:ops@example.com')).toThrow(
+      'not a valid P-256 key pair',
+    );
+  });
+});
@@ -1,3 +1,5 @@
+import { createHmac } from 'crypto';
+import { PluginEventBus } from '../pluginEventBus';
 import { WebhookDispatcher } from '../webhookDispatcher';
 import WebhookModel from '../../models/Webhook';
 
@@ -6,6 +8,12 @@ jest.mock('../../models/Webhook', () => ({
   default: {
     listTargetsByEvent: jest.fn(),
     recordDelivery: jest.fn(),
+    enqueueDelivery: jest.fn(),
+    listDueDeliveries: jest.fn(),
+    deleteQueuedDelivery: jest.fn(),
+    incrementFailureCount: jest.fn(),
+    resetFailureCount: jest.fn(),
+    update: jest.fn(),
   },
 }));
 
@@ -60,6 +68,9 @@ describe('WebhookDispatcher', () => {
         url: 'https://example.com/hooks/woly',
         events: ['host.awake'],
         secret: 'shared-secret',
+        enabled: true,
+        format: 'raw',
+        template: null,
       },
     ] as never);
 
@@ -99,27 +110,72 @@ describe('WebhookDispatcher', () => {
     );
   });
 
-  it('retries failed deliveries with exponential backoff up to success', async () => {
-    jest.useFakeTimers();
+  it('posts the webhook format and signs the formatted body', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 200 })) as unknown as typeof fetch;
+    mockedWebhookModel.listTargetsByEvent.mockResolvedValue([
+      {
+        id: 'webhook-ntfy',
+        url: 'https://ntfy.sh/woly',
+        events: ['host.awake'],
+        secret: 'shared-secret',
+        enabled: true,
+        format: 'ntfy',
+        template: '{{hostName}} woke up on {{location}}',
+      },
+    ]);
+
+    const dispatcher = new WebhookDispatcher({ fetchImpl: fetchMock, deliveryTimeoutMs: 1000 });
+    await dispatcher.dispatchEvent('host.awake', {
+      hostFqn: 'desktop@home-node',
+      oldStatus: 'asleep',
+      newStatus: 'awake',
+      changedAt: '2026-02-18T20:00:00.000Z',
+    });
+
+    const expectedSignature = `sha256=${createHmac('sha256', 'shared-secret')
+      .update('desktop woke up on home-node')
+      .digest('hex')}`;
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://ntfy.sh/woly',
+      expect.objectContaining({
+        body: 'desktop woke up on home-node',
+        headers: expect.objectContaining({
+          'Content-Type': 'text/plain; charset=utf-8',
+          Title: 'WoLy: Host awake',
+          'X-Woly-Signature': expectedSignature,
+        }),
+      }),
+    );
+    expect(mockedWebhookModel.recordDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({ event: 'host.awake' }),
+      }),
+    );
+  });
+
+  it('queues failed deliveries with exponential backoff and sends them from the queue', async () => {
+    jest.useFakeTimers({ now: new Date('2026-02-18T20:00:00.000Z') });
 
     const fetchMock = jest
       .fn()
       .mockResolvedValueOnce({ ok: false, status: 503 })
       .mockResolvedValueOnce({ ok: true, status: 200 }) as unknown as typeof fetch;
-
-    mockedWebhookModel.listTargetsByEvent.mockResolvedValue([
-      {
-        id: 'webhook-2',
-        url: 'https://example.com/hooks/retry',
-        events: ['scan.complete'],
-        secret: null,
-      },
-    ] as never);
+    const target = {
+      id: 'webhook-2',
+      url: 'https://example.com/hooks/retry',
+      events: ['scan.complete' as const],
+      secret: null,
+      enabled: true,
+      format: 'raw' as const,
+      template: null,
+    };
+    mockedWebhookModel.listTargetsByEvent.mockResolvedValue([target]);
 
     const dispatcher = new WebhookDispatcher({
       fetchImpl: fetchMock,
       retryBaseDelayMs: 25,
       deliveryTimeoutMs: 1000,
+      maxAttempts: 3,
     });
 
     await dispatcher.dispatchEvent('scan.complete', {
@@ -137,8 +193,32 @@ describe('WebhookDispatcher', () => {
         responseStatus: 503,
       }),
     );
+    expect(mockedWebhookModel.enqueueDelivery).toHaveBeenCalledWith({
+      webhookId: 'webhook-2',
+      eventType: 'scan.complete',
+      payload: {
+        event: 'scan.complete',
+        timestamp: '2026-02-18T20:00:00.000Z',
+        data: { nodeId: 'node-1', hostCount: 3 },
+      },
+      attempt: 2,
+      nextAttemptAt: new Date('2026-02-18T20:00:00.025Z'),
+    });
+    expect(mockedWebhookModel.incrementFailureCount).not.toHaveBeenCalled();
 
-    await jest.advanceTimersByTimeAsync(25);
+    const [queued] = mockedWebhookModel.enqueueDelivery.mock.calls[0];
+    mockedWebhookModel.listDueDeliveries.mockResolvedValue([
+      {
+        id: 41,
+        eventType: queued.eventType,
+        payload: queued.payload,
+        attempt: queued.attempt,
+        nextAttemptAt: queued.nextAttemptAt.toISOString(),
+        target,
+      },
+    ]);
+
+    await dispatcher.processDueDeliveries();
 
     expect(fetchMock).toHaveBeenCalledTimes(2);
     expect(mockedWebhookModel.recordDelivery).toHaveBeenCalledWith(
@@ -148,9 +228,241 @@ describe('WebhookDispatcher', () => {
         attempt: 2,
         status: 'success',
         responseStatus: 200,
+        payload: queued.payload,
       }),
     );
+    expect(mockedWebhookModel.deleteQueuedDelivery).toHaveBeenCalledWith(41);
+    expect(mockedWebhookModel.resetFailureCount).toHaveBeenCalledWith('webhook-2');
+  });
+
+  it('picks up queued retries when started and drops those for disabled webhooks', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 204 })) as unknown as typeof fetch;
+    mockedWebhookModel.listDueDeliveries.mockResolvedValue([
+      {
+        id: 7,
+        eventType: 'host.awake',
+        payload: { event: 'host.awake', timestamp: '2026-02-18T19:00:00.000Z', data: { hostFqn: 'a@home' } },
+        attempt: 2,
+        nextAttemptAt: '2026-02-18T19:00:01.000Z',
+        target: {
+          id: 'webhook-5',
+          url: 'https://example.com/a',
+          events: ['host.awake'],
+          secret: null,
+          enabled: true,
+          format: 'raw',
+          template: null,
+        },
+      },
+      {
+        id: 8,
+        eventType: 'host.awake',
+        payload: { event: 'host.awake', timestamp: '2026-02-18T19:00:00.000Z', data: { hostFqn: 'a@home' } },
+        attempt: 2,
+        nextAttemptAt: '2026-02-18T19:00:01.000Z',
+        target: {
+          id: 'webhook-6',
+          url: 'https://example.com/b',
+          events: ['host.awake'],
+          secret: null,
+          enabled: false,
+          format: 'raw',
+          template: null,
+        },
+      },
+    ]);
+
+    const dispatcher = new WebhookDispatcher({
+      fetchImpl: fetchMock,
+      retryBaseDelayMs: 10,
+      deliveryTimeoutMs: 1000,
+      pollIntervalMs: 60_000,
+    });
 
+    dispatcher.start();
+    await dispatcher.processDueDeliveries();
     dispatcher.shutdown();
+
+    expect(mockedWebhookModel.listDueDeliveries).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/a', expect.anything());
+    expect(mockedWebhookModel.deleteQueuedDelivery).toHaveBeenCalledWith(7);
+    expect(mockedWebhookModel.deleteQueuedDelivery).toHaveBeenCalledWith(8);
+  });
+
+  it('disables webhooks after repeated failed deliveries and publishes webhook.disabled', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: false, status: 410 })) as unknown as typeof fetch;
+    mockedWebhookModel.incrementFailureCount.mockResolvedValue(2);
+    const eventBus = new PluginEventBus();
+    const disabledEvents: unknown[] = [];
+    eventBus.subscribe('webhook.disabled', (event) => disabledEvents.push(event.data));
+
+    const dispatcher = new WebhookDispatcher({
+      fetchImpl: fetchMock,
+      retryBaseDelayMs: 10,
+      deliveryTimeoutMs: 1000,
+      maxAttempts: 1,
+      pollIntervalMs: 60_000,
+      autoDisableFailures: 2,
+    });
+    mockedWebhookModel.listDueDeliveries.mockResolvedValue([]);
+    dispatcher.start(eventBus);
+
+    const result = await dispatcher.deliver(
+      {
+        id: 'webhook-7',
+        url: 'https://example.com/gone',
+        events: ['host.awake'],
+        secret: null,
+        enabled: true,
+        format: 'raw',
+        template: null,
+      },
+      { event: 'host.awake', timestamp: '2026-02-18T20:00:00.000Z', data: {} },
+      1,
+    );
+    dispatcher.shutdown();
+
+    expect(result.status).toBe('failed');
+    expect(mockedWebhookModel.enqueueDelivery).not.toHaveBeenCalled();
+    expect(mockedWebhookModel.incrementFailureCount).toHaveBeenCalledWith('webhook-7');
+    expect(mockedWebhookModel.update).toHaveBeenCalledWith('webhook-7', { enabled: false });
+    expect(disabledEvents).toEqual([
+      expect.objectContaining({
+        webhookId: 'webhook-7',
+        url: 'https://example.com/gone',
+        consecutiveFailures: 2,
+        lastError: 'HTTP 410',
+      }),
+    ]);
+  });
+
+  it('keeps webhooks enabled below the failure threshold', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: false, status: 500 })) as unknown as typeof fetch;
+    mockedWebhookModel.incrementFailureCount.mockResolvedValue(1);
+
+    const dispatcher = new WebhookDispatcher({
+      fetchImpl: fetchMock,
+      retryBaseDelayMs: 10,
+      deliveryTimeoutMs: 1000,
+      maxAttempts: 1,
+      autoDisableFailures: 2,
+    });
+
+    await dispatcher.deliver(
+      {
+        id: 'webhook-8',
+        url: 'https://example.com/flaky',
+        events: ['host.awake'],
+        secret: null,
+        enabled: true,
+        format: 'raw',
+        template: null,
+      },
+      { event: 'host.awake', timestamp: '2026-02-18T20:00:00.000Z', data: {} },
+      1,
+    );
+
+    expect(mockedWebhookModel.incrementFailureCount).toHaveBeenCalledWith('webhook-8');
+    expect(mockedWebhookModel.update).not.toHaveBeenCalled();
+  });
+
+  it('sends signed test deliveries once without retrying', async () => {
+    jest.useFakeTimers();
+
+    const fetchMock = jest.fn(async () => ({ ok: false, status: 500 })) as unknown as typeof fetch;
+    const dispatcher = new WebhookDispatcher({
+      fetchImpl: fetchMock,
+      retryBaseDelayMs: 25,
+      deliveryTimeoutMs: 1000,
+    });
+
+    const result = await dispatcher.sendTest({
+      id: 'webhook-3',
+      url: 'https://example.com/hooks/test',
+      events: ['host.awake'],
+      secret: 'shared-secret',
+      enabled: false,
+      format: 'raw' as const,
+      template: null,
+    });
+
+    expect(result).toEqual({
+      webhookId: 'webhook-3',
+      eventType: 'webhook.test',
+      status: 'failed',
+      responseStatus: 500,
+      error: 'HTTP 500',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/hooks/test',
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Woly-Event': 'webhook.test',
+          'X-Woly-Signature': expect.stringMatching(/^sha256=/),
+        }),
+      }),
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockedWebhookModel.enqueueDelivery).not.toHaveBeenCalled();
+    expect(mockedWebhookModel.incrementFailureCount).not.toHaveBeenCalled();
+
+    dispatcher.shutdown();
+  });
+
+  it('redelivers the logged envelope with the current secret', async () => {
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 202 })) as unknown as typeof fetch;
+    const dispatcher = new WebhookDispatcher({
+      fetchImpl: fetchMock,
+      retryBaseDelayMs: 10,
+      deliveryTimeoutMs: 1000,
+    });
+    const envelope = {
+      event: 'host.removed',
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: { hostFqn: 'desktop@home-node' },
+    };
+
+    const result = await dispatcher.redeliver(
+      {
+        id: 'webhook-4',
+        url: 'https://example.com/hooks/new-url',
+        events: ['host.removed'],
+        secret: 'rotated-secret',
+        enabled: true,
+        format: 'raw' as const,
+        template: null,
+      },
+      {
+        id: 12,
+        webhookId: 'webhook-4',
+        eventType: 'host.removed',
+        attempt: 3,
+        status: 'failed',
+        responseStatus: 502,
+        error: 'HTTP 502',
+        payload: envelope,
+        createdAt: '2026-02-18T20:00:01.000Z',
+      },
+    );
+
+    expect(result).toMatchObject({ status: 'success', responseStatus: 202 });
+    const body = JSON.stringify(envelope);
+    const expectedSignature = `sha256=${createHmac('sha256', 'rotated-secret').update(body).digest('hex')}`;
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/hooks/new-url',
+      expect.objectContaining({
+        body,
+        headers: expect.objectContaining({
+          'X-Woly-Delivery-Attempt': '4',
+          'X-Woly-Signature': expectedSignature,
+        }),
+      }),
+    );
+    expect(mockedWebhookModel.recordDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookId: 'webhook-4', attempt: 4, status: 'success' }),
+    );
   });
 });
@@ -0,0 +1,177 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_FORMATS } from '@kaonis/woly-protocol';
+import type { WebhookFormat } from '@kaonis/woly-protocol';
+import {
+  formatWebhookRequest,
+  validateWebhookTemplate,
+  type WebhookEnvelope,
+  type WebhookRequest,
+} from '../webhookFormats';
+
+// Golden files are reviewed like code. Regenerate after an intended change with
+// `UPDATE_GOLDEN=1 npx jest webhookFormats` and check the diff.
+const GOLDEN_DIR = path.join(__dirname, '__golden__', 'webhookFormats');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const TIMESTAMP = '2026-02-18T20:00:00.000Z';
+
+const SAMPLE_ENVELOPES: WebhookEnvelope[] = [
+  {
+    event: 'host.awake',
+    timestamp: TIMESTAMP,
+    data: {
+      hostFqn: 'office-pc@Home%20Lab',
+      oldStatus: 'asleep',
+      newStatus: 'awake',
+      changedAt: TIMESTAMP,
+    },
+  },
+  {
+    event: 'host.asleep',
+    timestamp: TIMESTAMP,
+    data: {
+      hostFqn: 'office-pc@Home%20Lab',
+      oldStatus: 'awake',
+      newStatus: 'asleep',
+      changedAt: TIMESTAMP,
+    },
+  },
+  {
+    event: 'host.discovered',
+    timestamp: TIMESTAMP,
+    data: {
+      nodeId: 'node-1',
+      hostFqn: 'nas@Home%20Lab-node-1',
+      host: { name: 'nas', mac: 'AA:BB:CC:DD:EE:FF', ip: '192.168.1.20', status: 'awake' },
+    },
+  },
+  { event: 'host.removed', timestamp: TIMESTAMP, data: { nodeId: 'node-1', name: 'nas' } },
+  { event: 'scan.complete', timestamp: TIMESTAMP, data: { nodeId: 'node-1', hostCount: 7 } },
+  { event: 'node.connected', timestamp: TIMESTAMP, data: { nodeId: 'node-1' } },
+  { event: 'node.disconnected', timestamp: TIMESTAMP, data: { nodeId: 'node-1' } },
+  {
+    event: 'schedule.failed',
+    timestamp: TIMESTAMP,
+    data: {
+      scheduleId: 'schedule-1',
+      executionId: 'execution-1',
+      hostFqn: 'office-pc@Home%20Lab',
+      action: 'wake',
+      attemptedAt: TIMESTAMP,
+      commandId: 'command-1',
+      commandState: 'failed',
+      wakeVerification: null,
+      error: 'Wake verification timed out',
+    },
+  },
+  {
+    event: 'webhook.test',
+    timestamp: TIMESTAMP,
+    data: { webhookId: 'webhook-1', message: 'Test delivery from WoLy C&C' },
+  },
+  {
+    event: 'webhook.disabled',
+    timestamp: TIMESTAMP,
+    data: {
+      webhookId: 'webhook-1',
+      url: 'https://example.com/hooks/woly',
+      consecutiveFailures: 5,
+      lastError: 'HTTP 503',
+      disabledAt: TIMESTAMP,
+    },
+  },
+];
+
+const CUSTOM_TEMPLATE = '{{hostName}} ({{location}}): {{oldStatus}} -> {{newStatus}} | {{summary}}';
+
+/** JSON bodies are stored parsed so the golden files stay readable. */
+function toGoldenEntry(request: WebhookRequest): { headers: Record<string, string>; body: unknown } {
+  const isJson = request.headers['Content-Type'] === 'application/json';
+  return { headers: request.headers, body: isJson ? (JSON.parse(request.body) as unknown) : request.body };
+}
+
+function renderAll(format: WebhookFormat, template: string | null): Record<string, unknown> {
+  return Object.fromEntries(
+    SAMPLE_ENVELOPES.map((envelope) => [
+      envelope.event,
+      toGoldenEntry(formatWebhookRequest(format, envelope, template)),
+    ]),
+  );
+}
+
+function expectMatchesGolden(name: string, actual: Record<string, unknown>): void {
+  const goldenPath = path.join(GOLDEN_DIR, `${name}.json`);
+  if (UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(goldenPath, `${JSON.stringify(actual, null, 2)}\n`);
+  }
+
+  expect(actual).toEqual(JSON.parse(readFileSync(goldenPath, 'utf8')));
+}
+
+describe('formatWebhookRequest', () => {
+  it('has a sample envelope for every event type', () => {
+    expect(SAMPLE_ENVELOPES.map((envelope) => envelope.event).sort()).toEqual([...WEBHOOK_EVENT_TYPES].sort());
+  });
+
+  it.each(WEBHOOK_FORMATS)('renders %s payloads matching the golden file', (format) => {
+    expectMatchesGolden(format, renderAll(format, null));
+  });
+
+  it.each(WEBHOOK_FORMATS.filter((format) => format !== 'raw'))(
+    'renders a custom template as %s matching the golden file',
+    (format) => {
+      expectMatchesGolden(`${format}.template`, renderAll(format, CUSTOM_TEMPLATE));
+    },
+  );
+
+  it('posts the raw envelope unchanged', () => {
+    const request = formatWebhookRequest('raw', SAMPLE_ENVELOPES[0], null);
+
+    expect(JSON.parse(request.body)).toEqual(SAMPLE_ENVELOPES[0]);
+  });
+
+  it('resolves nested event data and leaves missing values empty', () => {
+    const request = formatWebhookRequest(
+      'slack',
+      SAMPLE_ENVELOPES[2],
+      '{{data.host.ip}} [{{data.host.missing}}] {{oldStatus}}',
+    );
+
+    expect(JSON.parse(request.body)).toEqual({ text: '192.168.1.20 [] ' });
+  });
+
+  it('truncates Discord messages to the content limit', () => {
+    const request = formatWebhookRequest('discord', SAMPLE_ENVELOPES[0], `${'x'.repeat(2100)}{{hostName}}`);
+
+    expect((JSON.parse(request.body) as { content: string }).content).toHaveLength(2000);
+  });
+});
+
+describe('validateWebhookTemplate', () => {
+  it('accepts known variables and event data fields', () => {
+    expect(
+      validateWebhookTemplate('{{ hostName }} is {{newStatus}} at {{timestamp}} ({{data.changedAt}})', [
+        'host.awake',
+        'host.asleep',
+      ]),
+    ).toEqual([]);
+  });
+
+  it('rejects unknown variables and malformed placeholders', () => {
+    expect(validateWebhookTemplate('{{hostname}} {{data.}} woke', ['host.awake'])).toEqual([
+      'Unknown template variable "hostname"',
+      'Unknown template variable "data."',
+    ]);
+    expect(validateWebhookTemplate('{{hostName} woke', ['host.awake'])).toEqual([
+      'Template has an unclosed or malformed {{placeholder}}',
+    ]);
+  });
+
+  it('rejects templates that render an empty message for a subscribed event', () => {
+    expect(validateWebhookTemplate('{{oldStatus}}', ['host.awake', 'node.connected'])).toEqual([
+      'Template renders an empty message for node.connected',
+    ]);
+  });
+});
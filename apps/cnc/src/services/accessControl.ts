@@ -0,0 +1,181 @@
+/**
+ * Per-resource access control for user accounts.
+ *
+ * Tokens minted for a user account carry a `uid` claim. Such callers are
+ * "scoped": unless they hold the admin role they only see and act on nodes
+ * and hosts granted to them in the resource ACL. A host grant covers one host;
+ * a node grant covers every host that node reports. Admins and legacy
+ * shared-token JWTs (no `uid`) are unscoped and keep full access.
+ *
+ * API keys limited to hosts or nodes are scoped the same way, with `operate`
+ * on each listed resource; what they may do is further limited by their scopes.
+ */
+
+import ResourceAclModel, { permissionSatisfies } from '../models/ResourceAcl';
+import UserModel from '../models/User';
+import type { AclResourceType, AggregatedHost, ResourcePermission } from '../types';
+import type { AuthContext } from '../types/auth';
+import type { HostAggregator } from './hostAggregator';
+
+interface ResourceGrants {
+  nodes: Map<string, ResourcePermission>;
+  hosts: Map<string, ResourcePermission>;
+}
+
+type HostRef = Pick<AggregatedHost, 'fullyQualifiedName' | 'nodeId'>;
+
+/** Returns the user whose grants apply, or null when the caller is unscoped. */
+export function getScopedUserId(auth: AuthContext | undefined): string | null {
+  if (!auth?.userId || auth.roles.includes('admin')) {
+    return null;
+  }
+
+  return auth.userId;
+}
+
+/** True when the caller only reaches the nodes and hosts granted to it. */
+export function isScopedCaller(auth: AuthContext | undefined): boolean {
+  if (auth?.apiKey) {
+    return auth.apiKey.hostFqns.length > 0 || auth.apiKey.nodeIds.length > 0;
+  }
+
+  return getScopedUserId(auth) !== null;
+}
+
+function strongest(
+  left: ResourcePermission | undefined,
+  right: ResourcePermission | undefined,
+): ResourcePermission | undefined {
+  if (!left) return right;
+  if (!right) return left;
+  return permissionSatisfies(left, right) ? left : right;
+}
+
+export class AccessControl {
+  constructor(private readonly hostAggregator: Pick<HostAggregator, 'getHostByFQN'>) {}
+
+  /** Grants of a scoped caller, or null when the caller is unscoped. */
+  private async loadGrantsFor(auth: AuthContext | undefined): Promise<ResourceGrants | null> {
+    if (!isScopedCaller(auth)) {
+      return null;
+    }
+
+    if (auth?.apiKey) {
+      return {
+        nodes: new Map(auth.apiKey.nodeIds.map((nodeId) => [nodeId, 'operate' as const])),
+        hosts: new Map(auth.apiKey.hostFqns.map((fqn) => [fqn, 'operate' as const])),
+      };
+    }
+
+    return this.loadGrants(getScopedUserId(auth)!);
+  }
+
+  /** Grants of an active user; disabled or deleted users get none. */
+  private async loadGrants(userId: string): Promise<ResourceGrants> {
+    const grants: ResourceGrants = { nodes: new Map(), hosts: new Map() };
+    const user = await UserModel.findById(userId);
+    if (!user || user.disabled) {
+      return grants;
+    }
+
+    for (const entry of await ResourceAclModel.listForUser(userId)) {
+      (entry.resourceType === 'node' ? grants.nodes : grants.hosts).set(entry.resourceId, entry.permission);
+    }
+
+    return grants;
+  }
+
+  private async resolveHostPermission(
+    grants: ResourceGrants,
+    fqn: string,
+    nodeId?: string,
+  ): Promise<ResourcePermission | undefined> {
+    const hostPermission = grants.hosts.get(fqn);
+    if (grants.nodes.size === 0 || hostPermission === 'owner') {
+      return hostPermission;
+    }
+
+    const resolvedNodeId = nodeId ?? (await this.hostAggregator.getHostByFQN(fqn))?.nodeId;
+    return strongest(hostPermission, resolvedNodeId ? grants.nodes.get(resolvedNodeId) : undefined);
+  }
+
+  /** Returns the ids among `resourceIds` the caller lacks `permission` on. */
+  async findForbidden(
+    auth: AuthContext | undefined,
+    resourceType: AclResourceType,
+    resourceIds: readonly string[],
+    permission: ResourcePermission,
+  ): Promise<string[]> {
+    if (resourceIds.length === 0) {
+      return [];
+    }
+
+    const grants = await this.loadGrantsFor(auth);
+    if (!grants) {
+      return [];
+    }
+
+    const forbidden: string[] = [];
+    for (const resourceId of new Set(resourceIds)) {
+      const granted =
+        resourceType === 'node'
+          ? grants.nodes.get(resourceId)
+          : await this.resolveHostPermission(grants, resourceId);
+      if (!granted || !permissionSatisfies(granted, permission)) {
+        forbidden.push(resourceId);
+      }
+    }
+
+    return forbidden;
+  }
+
+  async filterHosts<T extends HostRef>(
+    auth: AuthContext | undefined,
+    hosts: readonly T[],
+    permission: ResourcePermission = 'view',
+  ): Promise<T[]> {
+    const grants = await this.loadGrantsFor(auth);
+    if (!grants) {
+      return [...hosts];
+    }
+
+    const allowed: T[] = [];
+    for (const host of hosts) {
+      const granted = await this.resolveHostPermission(grants, host.fullyQualifiedName, host.nodeId);
+      if (granted && permissionSatisfies(granted, permission)) {
+        allowed.push(host);
+      }
+    }
+
+    return allowed;
+  }
+
+  /** Filters records that belong to a host, such as schedules, by the host's grants. */
+  async filterByHostFqn<T>(
+    auth: AuthContext | undefined,
+    items: readonly T[],
+    toFqn: (item: T) => string,
+    permission: ResourcePermission = 'view',
+  ): Promise<T[]> {
+    const forbidden = new Set(await this.findForbidden(auth, 'host', items.map(toFqn), permission));
+    return items.filter((item) => !forbidden.has(toFqn(item)));
+  }
+
+  async filterNodes<T extends { id: string }>(
+    auth: AuthContext | undefined,
+    nodes: readonly T[],
+    permission: ResourcePermission = 'view',
+  ): Promise<T[]> {
+    const forbidden = new Set(
+      await this.findForbidden(
+        auth,
+        'node',
+        nodes.map((node) => node.id),
+        permission,
+      ),
+    );
+    return nodes.filter((node) => !forbidden.has(node.id));
+  }
+}
+
+export default AccessControl;
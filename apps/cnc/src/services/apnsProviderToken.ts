@@ -0,0 +1,87 @@
+/**
+ * APNs provider authentication tokens: ES256 JWTs signed with a `.p8` auth
+ * key from the Apple Developer portal.
+ *
+ * Apple rejects tokens older than an hour and throttles tokens refreshed more
+ * often than every 20 minutes, so one token is reused for `refreshIntervalMs`.
+ */
+
+import { createPrivateKey, sign, type KeyObject } from 'crypto';
+
+export interface ApnsAuthKey {
+  keyId: string;
+  teamId: string;
+  privateKey: KeyObject;
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 50 * 60 * 1000;
+
+function encodeBase64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+/** Parses the PEM contents of an `AuthKey_<keyId>.p8` file. */
+export function parseApnsAuthKey(pem: string, keyId: string, teamId: string): ApnsAuthKey {
+  if (!keyId.trim()) {
+    throw new Error('APNs key ID is required');
+  }
+  if (!teamId.trim()) {
+    throw new Error('APNs team ID is required');
+  }
+
+  let privateKey: KeyObject;
+  try {
+    privateKey = createPrivateKey(pem);
+  } catch (error) {
+    throw new Error('APNs auth key is not a valid PEM key', { cause: error });
+  }
+
+  if (privateKey.asymmetricKeyType !== 'ec') {
+    throw new Error(`APNs auth key must be an EC P-256 key, got "${String(privateKey.asymmetricKeyType)}"`);
+  }
+
+  return { keyId: keyId.trim(), teamId: teamId.trim(), privateKey };
+}
+
+export class ApnsProviderTokenSigner {
+  private token: string | null = null;
+  private issuedAt = 0;
+  private readonly refreshIntervalMs: number;
+
+  constructor(
+    private readonly key: ApnsAuthKey,
+    options?: { refreshIntervalMs?: number },
+  ) {
+    this.refreshIntervalMs = options?.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+  }
+
+  getToken(): string {
+    const now = Date.now();
+    if (!this.token || now - this.issuedAt >= this.refreshIntervalMs) {
+      this.token = this.signToken(Math.floor(now / 1000));
+      this.issuedAt = now;
+    }
+
+    return this.token;
+  }
+
+  /** Drops the cached token, e.g. after APNs answered `ExpiredProviderToken`. */
+  invalidate(): void {
+    this.token = null;
+    this.issuedAt = 0;
+  }
+
+  private signToken(nowSeconds: number): string {
+    const header = encodeBase64UrlJson({ alg: 'ES256', kid: this.key.keyId });
+    const payload = encodeBase64UrlJson({ iss: this.key.teamId, iat: nowSeconds });
+    const signingInput = `${header}.${payload}`;
+    // JWS wants the raw r||s signature, not DER.
+    const signature = sign('sha256', Buffer.from(signingInput, 'utf8'), {
+      key: this.key.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    }).toString('base64url');
+    return `${signingInput}.${signature}`;
+  }
+}
+
+export default ApnsProviderTokenSigner;
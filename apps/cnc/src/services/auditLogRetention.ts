@@ -0,0 +1,47 @@
+import AuditLogModel from '../models/AuditLog';
+import logger from '../utils/logger';
+
+let pruningInterval: NodeJS.Timeout | null = null;
+
+export async function pruneAuditLog(retentionDays: number): Promise<number> {
+  try {
+    const count = await AuditLogModel.pruneOlderThan(retentionDays);
+    if (count > 0) {
+      logger.info('Pruned audit log entries', { count, retentionDays });
+    }
+    return count;
+  } catch (error) {
+    logger.error('Failed to prune audit log entries', { error, retentionDays });
+    return 0;
+  }
+}
+
+export function startAuditLogPruning(retentionDays: number): void {
+  if (pruningInterval) {
+    clearInterval(pruningInterval);
+    pruningInterval = null;
+  }
+
+  if (retentionDays <= 0) {
+    logger.info('Audit log pruning disabled (AUDIT_LOG_RETENTION_DAYS <= 0)');
+    return;
+  }
+
+  void pruneAuditLog(retentionDays);
+
+  const intervalHours = 24;
+  const intervalMs = intervalHours * 60 * 60 * 1000;
+  pruningInterval = setInterval(() => {
+    void pruneAuditLog(retentionDays);
+  }, intervalMs);
+
+  logger.info('Audit log pruning scheduled', { retentionDays, intervalHours });
+}
+
+export function stopAuditLogPruning(): void {
+  if (pruningInterval) {
+    clearInterval(pruningInterval);
+    pruningInterval = null;
+    logger.info('Audit log pruning stopped');
+  }
+}
@@ -1,21 +1,34 @@
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
-import type { HostPowerAction } from '@kaonis/woly-protocol';
+import type { HostOutOfBandPowerAction, HostPowerAction, WakeVerificationResult } from '@kaonis/woly-protocol';
 import type {
   CommandResult,
+  HostBulkOperationRequest,
+  HostBulkOperationResponse,
+  HostGroupAction,
+  HostGroupActionJob,
+  HostOutOfBandPowerResponse,
   HostPingResponse,
   HostPowerResponse,
+  HostPowerStateResponse,
+  WakeDependencyJob,
   WakeupResponse,
   CommandRecord,
 } from '../types';
 import { CommandModel } from '../models/Command';
+import HostWakeDependencyModel from '../models/HostWakeDependency';
+import HostWakeRelayModel from '../models/HostWakeRelay';
 import config from '../config';
 import logger from '../utils/logger';
 import { NodeManager } from './nodeManager';
 import { HostAggregator } from './hostAggregator';
 import {
+  routeBulkHostCommand,
   routeDeleteHostCommand,
+  routeHostGroupCommand,
+  routeHostOutOfBandPowerCommand,
   routeHostPowerCommand,
+  routeHostPowerStateCommand,
   routePingHostCommand,
   routeScanCommand,
   routeScanHostPortsCommand,
@@ -34,6 +47,9 @@ import type {
   CommandLifecycleContext,
   CorrelationRouteOptions,
   DispatchCommand,
+  HostBulkRouteOptions,
+  HostGroupRouteOptions,
+  HostGroupTarget,
   HostPowerRouteOptions,
   HostUpdateData,
   PendingCommandEntry,
@@ -43,6 +59,15 @@ import type {
   WakeRouteOptions,
 } from './commandRouter/types';
 
+/** How long finished wake dependency jobs stay queryable. */
+const WAKE_DEPENDENCY_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+type TrackedWakeDependencyJob = {
+  job: WakeDependencyJob;
+  done: Promise<void>;
+  expiry: NodeJS.Timeout | null;
+};
+
 /**
  * CommandRouter
  *
@@ -56,10 +81,13 @@ export class CommandRouter extends EventEmitter {
   private readonly boundHandleNodeConnected: (event: { nodeId: string }) => void;
   private pendingCommands: Map<string, PendingCommandEntry>;
   private readonly wakeVerificationCommands = new Map<string, string>();
+  private readonly wakeVerificationWaiters = new Set<() => void>();
+  private readonly wakeDependencyJobs = new Map<string, TrackedWakeDependencyJob>();
   readonly commandTimeout: number;
   readonly maxRetries: number;
   readonly retryBaseDelayMs: number;
   readonly offlineCommandTtlMs: number;
+  readonly bulkNodeConcurrency: number;
   private readonly flushingNodes = new Set<string>();
 
   constructor(nodeManager: NodeManager, hostAggregator: HostAggregator) {
@@ -71,6 +99,7 @@ export class CommandRouter extends EventEmitter {
     this.maxRetries = config.commandMaxRetries;
     this.retryBaseDelayMs = config.commandRetryBaseDelayMs;
     this.offlineCommandTtlMs = config.offlineCommandTtlMs;
+    this.bulkNodeConcurrency = config.bulkCommandNodeConcurrency;
 
     this.boundHandleCommandResult = this.handleCommandResult.bind(this);
     this.nodeManager.on('command-result', this.boundHandleCommandResult);
@@ -81,9 +110,32 @@ export class CommandRouter extends EventEmitter {
   async reconcileStaleInFlight(): Promise<number> {
     return CommandModel.reconcileStaleInFlight(this.commandTimeout);
   }
+  /**
+   * Wake a host. Declared wake dependencies are woken first, one at a time,
+   * and each must report a confirmed wake verification before the next step.
+   * Such chains run in the background; the response carries the running
+   * `dependencyJob`, which `getWakeDependencyJob` reports on.
+   */
   async routeWakeCommand(fqn: string, options?: WakeRouteOptions): Promise<WakeupResponse> {
     return routeWakeCommand(this.createDispatchContext(), fqn, options);
   }
+
+  /** Current state of a wake dependency job, or null once it is unknown or expired. */
+  getWakeDependencyJob(jobId: string): WakeDependencyJob | null {
+    const tracked = this.wakeDependencyJobs.get(jobId);
+    return tracked ? { ...tracked.job, steps: [...tracked.job.steps] } : null;
+  }
+
+  /** Resolves with the settled job, or null for unknown or expired jobs. */
+  async waitForWakeDependencyJob(jobId: string): Promise<WakeDependencyJob | null> {
+    const tracked = this.wakeDependencyJobs.get(jobId);
+    if (!tracked) {
+      return null;
+    }
+
+    await tracked.done;
+    return { ...tracked.job, steps: [...tracked.job.steps] };
+  }
   async routePingHostCommand(
     fqn: string,
     options?: CorrelationRouteOptions,
@@ -109,6 +161,45 @@ export class CommandRouter extends EventEmitter {
   ): Promise<HostPowerResponse> {
     return routeHostPowerCommand(this.createDispatchContext(), action, fqn, options);
   }
+  /** Run a power action through the BMC of a host on the redfish transport. */
+  async routeOutOfBandPowerCommand(
+    action: HostOutOfBandPowerAction,
+    fqn: string,
+    options?: HostPowerRouteOptions,
+  ): Promise<HostOutOfBandPowerResponse> {
+    return routeHostOutOfBandPowerCommand(this.createDispatchContext(), action, fqn, options);
+  }
+  async routeHostPowerStateCommand(
+    fqn: string,
+    options?: CorrelationRouteOptions,
+  ): Promise<HostPowerStateResponse> {
+    return routeHostPowerStateCommand(this.createDispatchContext(), fqn, options);
+  }
+
+  /**
+   * Fan a wake/sleep/shutdown action out to every member of a host group.
+   * Members may live on different nodes; each one is routed independently and
+   * reported in the aggregate job with its own command state.
+   */
+  async routeHostGroupCommand(
+    group: HostGroupTarget,
+    action: HostGroupAction,
+    options?: HostGroupRouteOptions,
+  ): Promise<HostGroupActionJob> {
+    return routeHostGroupCommand(this.createDispatchContext(), group, action, options);
+  }
+
+  /**
+   * Dispatch one action across many hosts and report a result per FQN.
+   * Commands run in parallel across nodes but are capped per node by
+   * BULK_COMMAND_NODE_CONCURRENCY.
+   */
+  async routeBulkHostCommand(
+    request: HostBulkOperationRequest,
+    options?: HostBulkRouteOptions,
+  ): Promise<HostBulkOperationResponse> {
+    return routeBulkHostCommand(this.createDispatchContext(), request, options);
+  }
 
   async routeScanCommand(
     nodeId: string,
@@ -154,11 +245,54 @@ export class CommandRouter extends EventEmitter {
     return executeCommand(this.createLifecycleContext(), nodeId, command, options);
   }
 
+  private trackWakeDependencyJob(job: WakeDependencyJob, run: Promise<void>): void {
+    const tracked: TrackedWakeDependencyJob = { job, done: run, expiry: null };
+    this.wakeDependencyJobs.set(job.jobId, tracked);
+    void run.then(() => {
+      if (this.wakeDependencyJobs.get(job.jobId) !== tracked) {
+        return;
+      }
+      tracked.expiry = setTimeout(() => this.wakeDependencyJobs.delete(job.jobId), WAKE_DEPENDENCY_JOB_RETENTION_MS);
+      tracked.expiry.unref();
+    });
+  }
+
   private trackWakeVerificationCommand(commandId: string, fqn: string): void {
     this.wakeVerificationCommands.set(commandId, fqn);
     logger.debug('Tracking wake verification command', { commandId, fqn });
   }
 
+  /**
+   * Resolves with the follow-up verification result for a wake command, or
+   * null if none arrives within the verify window plus one command timeout.
+   */
+  private waitForWakeVerification(
+    commandId: string,
+    timeoutMs: number,
+  ): Promise<WakeVerificationResult | null> {
+    return new Promise((resolve) => {
+      const onComplete = (payload: {
+        commandId: string;
+        wakeVerification: WakeVerificationResult;
+      }): void => {
+        if (payload.commandId === commandId) {
+          finish(payload.wakeVerification);
+        }
+      };
+      const finish = (result: WakeVerificationResult | null): void => {
+        clearTimeout(timer);
+        this.off('wake-verification-complete', onComplete);
+        this.wakeVerificationWaiters.delete(cancel);
+        resolve(result);
+      };
+      const cancel = (): void => finish(null);
+      const timer = setTimeout(cancel, timeoutMs + this.commandTimeout);
+
+      this.wakeVerificationWaiters.add(cancel);
+      this.on('wake-verification-complete', onComplete);
+    });
+  }
+
   private handleCommandResult(result: CommandResult): void {
     void this.applyCommandResult(result);
   }
@@ -300,7 +434,16 @@ export class CommandRouter extends EventEmitter {
     }
 
     this.pendingCommands.clear();
+    for (const cancel of Array.from(this.wakeVerificationWaiters)) {
+      cancel();
+    }
     this.wakeVerificationCommands.clear();
+    for (const tracked of this.wakeDependencyJobs.values()) {
+      if (tracked.expiry) {
+        clearTimeout(tracked.expiry);
+      }
+    }
+    this.wakeDependencyJobs.clear();
     this.flushingNodes.clear();
     this.nodeManager.off('command-result', this.boundHandleCommandResult);
     this.nodeManager.off('node-connected', this.boundHandleNodeConnected);
@@ -325,6 +468,24 @@ export class CommandRouter extends EventEmitter {
     };
   }
 
+  private assertHostPowerStateResult(result: CommandResult): {
+    hostPowerState: NonNullable<CommandResult['hostPowerState']>;
+    correlationId?: string;
+  } {
+    if (!result.success) {
+      throw new Error(result.error ?? 'Power state query failed');
+    }
+
+    if (!result.hostPowerState) {
+      throw new Error('Power state query result missing host power state payload');
+    }
+
+    return {
+      hostPowerState: result.hostPowerState,
+      correlationId: result.correlationId,
+    };
+  }
+
   private assertHostPortScanResult(result: CommandResult): {
     hostPortScan: NonNullable<CommandResult['hostPortScan']>;
     correlationId?: string;
@@ -350,10 +511,28 @@ export class CommandRouter extends EventEmitter {
       normalizePortList: (ports) => this.normalizePortList(ports),
       routeScanCommand: (nodeId, immediate, options) =>
         this.routeScanCommand(nodeId, immediate, options),
+      routeWakeCommand: (fqn, options) => this.routeWakeCommand(fqn, options),
+      routeHostPowerCommand: (action, fqn, options) =>
+        this.routeHostPowerCommand(action, fqn, options),
+      routePingHostCommand: (fqn, options) => this.routePingHostCommand(fqn, options),
+      routeScanHostPortsCommand: (fqn, options) => this.routeScanHostPortsCommand(fqn, options),
+      routeUpdateHostCommand: (fqn, hostData, options) =>
+        this.routeUpdateHostCommand(fqn, hostData, options),
+      routeDeleteHostCommand: (fqn, options) => this.routeDeleteHostCommand(fqn, options),
+      bulkNodeConcurrency: this.bulkNodeConcurrency,
+      emitHostGroupAction: (event) => {
+        this.emit('host-group-action', event);
+      },
+      listWakeDependencies: (fqn) => HostWakeDependencyModel.listDependsOn(fqn),
+      trackWakeDependencyJob: (job, run) => this.trackWakeDependencyJob(job, run),
+      getWakeRelay: (fqn) => HostWakeRelayModel.findByHost(fqn),
+      waitForWakeVerification: (commandId, timeoutMs) =>
+        this.waitForWakeVerification(commandId, timeoutMs),
       executeCommand: (nodeId, command, options) => this.executeCommand(nodeId, command, options),
       trackWakeVerificationCommand: (commandId, fqn) =>
         this.trackWakeVerificationCommand(commandId, fqn),
       assertPingHostResult: (result) => this.assertPingHostResult(result),
+      assertHostPowerStateResult: (result) => this.assertHostPowerStateResult(result),
       assertHostPortScanResult: (result) => this.assertHostPortScanResult(result),
       nodeManager: {
         getNodeStatus: (nodeId) => this.nodeManager.getNodeStatus(nodeId),
@@ -1,19 +1,42 @@
-import type { HostPowerAction } from '@kaonis/woly-protocol';
+import { randomUUID } from 'crypto';
+import {
+  DEFAULT_WAKE_STEP_TIMEOUT_MS,
+  WAKE_FALLBACK_TIMEOUT_MS,
+  WAKE_STEP_MARGIN_MS,
+  type HostPowerAction,
+  type HostWakeStrategy,
+  type WakeVerifyOptions,
+} from '@kaonis/woly-protocol';
 import logger from '../../utils/logger';
 import type {
   CommandResult,
+  HostBulkOperationItemResult,
+  HostBulkOperationRequest,
+  HostBulkOperationResponse,
+  HostGroupActionHostResult,
+  HostGroupActionJob,
+  HostOutOfBandPowerResponse,
   HostPingResponse,
   HostPowerResponse,
+  HostPowerStateResponse,
+  WakeDependencyJob,
+  WakeDependencyStep,
   WakeupResponse,
 } from '../../types';
 import type {
   CommandDispatchContext,
   CorrelationRouteOptions,
   DispatchCommand,
+  HostBulkRouteOptions,
+  HostGroupRouteOptions,
   HostPowerRouteOptions,
   HostUpdateData,
+  RouteBulkHostCommand,
   RouteDeleteHostCommand,
+  RouteHostGroupCommand,
+  RouteHostOutOfBandPowerCommand,
   RouteHostPowerCommand,
+  RouteHostPowerStateCommand,
   RoutePingHostCommand,
   RouteScanCommand,
   RouteScanHostPortsCommand,
@@ -26,11 +49,57 @@ import type {
   WakeRouteOptions,
 } from './types';
 
-export const routeWakeCommand: RouteWakeCommand = async (
+function scopeMemberIdempotencyKey(idempotencyKey: string | null | undefined, fqn: string): string | null {
+  if (!idempotencyKey) {
+    return null;
+  }
+
+  return `${idempotencyKey}:${fqn}`;
+}
+
+function toMemberFailure(error: unknown): { state: 'failed' | 'timed_out'; error: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    state: message.toLowerCase().includes('timeout') ? 'timed_out' : 'failed',
+    error: message,
+  };
+}
+
+function toDependencyStepFailure(error: unknown): { status: 'failed' | 'timeout'; error: string } {
+  const failure = toMemberFailure(error);
+  return {
+    status: failure.state === 'timed_out' ? 'timeout' : 'failed',
+    error: failure.error,
+  };
+}
+
+const DEFAULT_DEPENDENCY_VERIFY: WakeVerifyOptions = { timeoutMs: 120_000, pollIntervalMs: 3_000 };
+
+/**
+ * Upper bound on the extra time a host's wake strategy adds before verification
+ * settles: each step's wait plus its send margin, and the fallback's runtime.
+ */
+function wakeStrategyDurationMs(strategy: HostWakeStrategy | null | undefined): number {
+  if (!strategy) {
+    return 0;
+  }
+
+  const stepCount =
+    (strategy.resendCount ?? 0) +
+    (strategy.alternatePorts?.length ?? 0) +
+    (strategy.directedBroadcast ? 1 : 0) +
+    (strategy.fallback ? 1 : 0);
+  return (
+    stepCount * ((strategy.stepTimeoutMs ?? DEFAULT_WAKE_STEP_TIMEOUT_MS) + WAKE_STEP_MARGIN_MS) +
+    (strategy.fallback ? WAKE_FALLBACK_TIMEOUT_MS : 0)
+  );
+}
+
+async function dispatchWakeCommand(
   context: CommandDispatchContext,
   fqn: string,
   options?: WakeRouteOptions,
-): Promise<WakeupResponse> => {
+): Promise<WakeupResponse> {
   logger.info(`Routing wake command for ${fqn}`);
 
   const { hostname, location } = context.parseFQN(fqn);
@@ -40,7 +109,9 @@ export const routeWakeCommand: RouteWakeCommand = async (
     throw new Error(`Host not found: ${fqn}`);
   }
 
-  const nodeId = host.nodeId;
+  // A relay node sends the packet for hosts on subnets their own node cannot broadcast to.
+  const relay = await context.getWakeRelay(fqn);
+  const nodeId = relay?.relayNodeId ?? host.nodeId;
   const commandId = context.generateCommandId();
   const verify = options?.verify ?? null;
   const wolPort = options?.wolPort ?? host.wolPort;
@@ -52,6 +123,12 @@ export const routeWakeCommand: RouteWakeCommand = async (
       mac: host.mac,
       ...(typeof wolPort === 'number' ? { wolPort } : {}),
       ...(verify ? { verify } : {}),
+      ...(relay
+        ? {
+            targetAddress: relay.targetAddress,
+            relay: { homeNodeId: host.nodeId, ...(host.ip ? { hostIp: host.ip } : {}) },
+          }
+        : {}),
     },
   };
 
@@ -69,12 +146,13 @@ export const routeWakeCommand: RouteWakeCommand = async (
     context.trackWakeVerificationCommand(commandId, fqn);
   }
 
+  const via = relay ? ` via relay node ${nodeId}` : '';
   const response: WakeupResponse = {
     success: true,
     message:
       result.state === 'queued'
-        ? `Wake command queued for ${fqn} (node offline)`
-        : `Wake-on-LAN packet sent to ${fqn}`,
+        ? `Wake command queued for ${fqn}${via} (node offline)`
+        : `Wake-on-LAN packet sent to ${fqn}${via}`,
     nodeId,
     location,
     commandId: result.commandId,
@@ -92,6 +170,212 @@ export const routeWakeCommand: RouteWakeCommand = async (
   }
 
   return response;
+}
+
+/**
+ * Collects every transitive prerequisite of `fqn`, ordered so that each host
+ * appears after the hosts it depends on.
+ */
+async function resolveWakePrerequisites(
+  context: CommandDispatchContext,
+  fqn: string,
+): Promise<string[]> {
+  const ordered: string[] = [];
+  const visited = new Set<string>([fqn]);
+
+  const visit = async (current: string): Promise<void> => {
+    for (const dependency of await context.listWakeDependencies(current)) {
+      if (visited.has(dependency)) {
+        continue;
+      }
+      visited.add(dependency);
+      await visit(dependency);
+      ordered.push(dependency);
+    }
+  };
+
+  await visit(fqn);
+  return ordered;
+}
+
+async function wakePrerequisite(
+  context: CommandDispatchContext,
+  fqn: string,
+  options?: WakeRouteOptions,
+): Promise<WakeDependencyStep> {
+  const host = await context.hostAggregator.getHostByFQN(fqn);
+  if (!host) {
+    return { fqn, role: 'prerequisite', status: 'failed', error: `Host not found: ${fqn}` };
+  }
+
+  if (host.status === 'awake') {
+    return { fqn, role: 'prerequisite', status: 'already_awake', nodeId: host.nodeId };
+  }
+
+  const verify = options?.verify ?? DEFAULT_DEPENDENCY_VERIFY;
+  let response: WakeupResponse;
+  try {
+    response = await dispatchWakeCommand(context, fqn, {
+      idempotencyKey: scopeMemberIdempotencyKey(options?.idempotencyKey, fqn),
+      correlationId: options?.correlationId ?? null,
+      verify,
+    });
+  } catch (error) {
+    return { fqn, role: 'prerequisite', nodeId: host.nodeId, ...toDependencyStepFailure(error) };
+  }
+
+  const step: WakeDependencyStep = {
+    fqn,
+    role: 'prerequisite',
+    status: 'sent',
+    nodeId: response.nodeId,
+    ...(response.commandId ? { commandId: response.commandId } : {}),
+  };
+
+  if (response.state === 'queued' || !response.commandId) {
+    return {
+      ...step,
+      status: 'queued',
+      error: 'Wake command was queued because the node is offline; wake cannot be confirmed',
+    };
+  }
+
+  const wakeVerification = await context.waitForWakeVerification(
+    response.commandId,
+    verify.timeoutMs + wakeStrategyDurationMs(host.wakeStrategy),
+  );
+  if (!wakeVerification) {
+    return { ...step, status: 'timeout', error: 'Timed out waiting for wake verification' };
+  }
+
+  return {
+    ...step,
+    status: wakeVerification.status === 'pending' ? 'timeout' : wakeVerification.status,
+    wakeVerification,
+  };
+}
+
+/**
+ * Raised when a wake dependency chain stops, either at a prerequisite that was
+ * not confirmed awake or when waking the target fails. `dependencySteps` lists
+ * every step attempted.
+ */
+export class WakeDependencyChainError extends Error {
+  constructor(
+    message: string,
+    readonly dependencySteps: WakeDependencyStep[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'WakeDependencyChainError';
+  }
+}
+
+async function wakeDependencyChain(
+  context: CommandDispatchContext,
+  job: WakeDependencyJob,
+  options?: WakeRouteOptions,
+): Promise<void> {
+  const { fqn, prerequisites, steps } = job;
+  for (const [index, prerequisite] of prerequisites.entries()) {
+    const step = await wakePrerequisite(context, prerequisite, options);
+    steps.push(step);
+
+    if (step.status !== 'confirmed' && step.status !== 'already_awake') {
+      for (const skipped of prerequisites.slice(index + 1)) {
+        steps.push({ fqn: skipped, role: 'prerequisite', status: 'skipped' });
+      }
+      steps.push({ fqn, role: 'target', status: 'skipped' });
+
+      throw new WakeDependencyChainError(
+        `Wake dependency ${prerequisite} for ${fqn} was not confirmed (${step.status})`,
+        steps,
+      );
+    }
+  }
+
+  let response: WakeupResponse;
+  try {
+    response = await dispatchWakeCommand(context, fqn, options);
+  } catch (error) {
+    const failure = toDependencyStepFailure(error);
+    steps.push({ fqn, role: 'target', ...failure });
+    throw new WakeDependencyChainError(failure.error, steps, { cause: error });
+  }
+
+  steps.push({
+    fqn,
+    role: 'target',
+    status: response.state === 'queued' ? 'queued' : response.wakeVerification ? 'pending' : 'sent',
+    nodeId: response.nodeId,
+    ...(response.commandId ? { commandId: response.commandId } : {}),
+  });
+}
+
+async function runWakeDependencyJob(
+  context: CommandDispatchContext,
+  job: WakeDependencyJob,
+  options?: WakeRouteOptions,
+): Promise<void> {
+  try {
+    await wakeDependencyChain(context, job, options);
+    job.state = 'completed';
+  } catch (error) {
+    job.state = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+    if (error instanceof WakeDependencyChainError) {
+      logger.warn('Wake dependency chain stopped', { jobId: job.jobId, fqn: job.fqn, error: job.error });
+    } else {
+      logger.error('Wake dependency job failed', { jobId: job.jobId, fqn: job.fqn, error: job.error });
+    }
+  }
+
+  job.completedAt = new Date().toISOString();
+}
+
+export const routeWakeCommand: RouteWakeCommand = async (
+  context: CommandDispatchContext,
+  fqn: string,
+  options?: WakeRouteOptions,
+): Promise<WakeupResponse> => {
+  const prerequisites = await resolveWakePrerequisites(context, fqn);
+  if (prerequisites.length === 0) {
+    return dispatchWakeCommand(context, fqn, options);
+  }
+
+  const { location } = context.parseFQN(fqn);
+  const host = await context.hostAggregator.getHostByFQN(fqn);
+  if (!host) {
+    throw new Error(`Host not found: ${fqn}`);
+  }
+
+  const correlationId = options?.correlationId ?? null;
+  const job: WakeDependencyJob = {
+    jobId: `job_${randomUUID()}`,
+    fqn,
+    state: 'running',
+    prerequisites,
+    steps: [],
+    startedAt: new Date().toISOString(),
+    ...(correlationId ? { correlationId } : {}),
+  };
+
+  // Confirming each prerequisite can take minutes, so the chain runs in the
+  // background and callers follow the job instead of holding on to the request.
+  logger.info(`Waking ${prerequisites.length} prerequisite host(s) before ${fqn}`, {
+    jobId: job.jobId,
+    prerequisites,
+  });
+  context.trackWakeDependencyJob(job, runWakeDependencyJob(context, job, options));
+
+  return {
+    success: true,
+    message: `Waking ${prerequisites.length} prerequisite host(s) before ${fqn}`,
+    nodeId: host.nodeId,
+    location,
+    ...(correlationId ? { correlationId } : {}),
+    dependencyJob: { ...job, steps: [...job.steps] },
+  };
 };
 
 export const routePingHostCommand: RoutePingHostCommand = async (
@@ -213,6 +497,117 @@ export const routeHostPowerCommand: RouteHostPowerCommand = async (
   return response;
 };
 
+async function resolveRedfishPowerTarget(
+  context: CommandDispatchContext,
+  fqn: string,
+): Promise<{
+  location: string;
+  host: NonNullable<Awaited<ReturnType<CommandDispatchContext['hostAggregator']['getHostByFQN']>>>;
+}> {
+  const { location } = context.parseFQN(fqn);
+  const host = await context.hostAggregator.getHostByFQN(fqn);
+  if (!host) {
+    throw new Error(`Host not found: ${fqn}`);
+  }
+
+  if (host.powerControl?.transport !== 'redfish' || !host.powerControl.enabled) {
+    throw new Error(`Host ${fqn} has no enabled redfish power control configuration`);
+  }
+
+  const nodeStatus = await context.nodeManager.getNodeStatus(host.nodeId);
+  if (nodeStatus !== 'online') {
+    throw new Error(`Node ${host.nodeId} (${location}) is offline`);
+  }
+
+  return { location, host };
+}
+
+/**
+ * Power on, shut down, force off or cycle a host through its BMC. Only hosts
+ * whose power control uses the redfish transport can be targeted.
+ */
+export const routeHostOutOfBandPowerCommand: RouteHostOutOfBandPowerCommand = async (
+  context: CommandDispatchContext,
+  action,
+  fqn: string,
+  options?: HostPowerRouteOptions,
+): Promise<HostOutOfBandPowerResponse> => {
+  logger.info(`Routing out-of-band ${action} command for ${fqn}`);
+
+  const { location, host } = await resolveRedfishPowerTarget(context, fqn);
+  const command: DispatchCommand = {
+    type: 'power-host',
+    commandId: context.generateCommandId(),
+    data: {
+      hostName: host.name,
+      mac: host.mac,
+      ip: host.ip,
+      action,
+      confirmation: action,
+    },
+  };
+
+  const correlationId = options?.correlationId ?? null;
+  const result = await context.executeCommand(host.nodeId, command, {
+    idempotencyKey: options?.idempotencyKey ?? null,
+    correlationId,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || `${action} command failed`);
+  }
+
+  const response: HostOutOfBandPowerResponse = {
+    success: true,
+    action,
+    message: result.message ?? `${action} command executed for ${fqn}`,
+    nodeId: host.nodeId,
+    location,
+    commandId: result.commandId,
+    correlationId: result.correlationId ?? correlationId ?? undefined,
+  };
+
+  if (result.state) {
+    response.state = result.state;
+  }
+
+  return response;
+};
+
+export const routeHostPowerStateCommand: RouteHostPowerStateCommand = async (
+  context: CommandDispatchContext,
+  fqn: string,
+  options?: CorrelationRouteOptions,
+): Promise<HostPowerStateResponse> => {
+  logger.info(`Routing query-host-power command for ${fqn}`);
+
+  const { host } = await resolveRedfishPowerTarget(context, fqn);
+  const command: DispatchCommand = {
+    type: 'query-host-power',
+    commandId: context.generateCommandId(),
+    data: {
+      hostName: host.name,
+      mac: host.mac,
+      ip: host.ip,
+    },
+  };
+
+  const correlationId = options?.correlationId ?? null;
+  const result = await context.executeCommand(host.nodeId, command, {
+    idempotencyKey: null,
+    correlationId,
+  });
+  const powerResult = context.assertHostPowerStateResult(result);
+
+  return {
+    target: fqn,
+    state: powerResult.hostPowerState.state,
+    checkedAt: powerResult.hostPowerState.checkedAt,
+    source: 'node-agent',
+    correlationId: powerResult.correlationId ?? correlationId ?? undefined,
+  };
+};
+
 export const routeScanCommand: RouteScanCommand = async (
   context: CommandDispatchContext,
   nodeId: string,
@@ -425,6 +820,16 @@ export const routeUpdateHostCommand: RouteUpdateHostCommand = async (
               hostData.powerControl !== undefined ? hostData.powerControl : host.powerControl,
           }
         : {}),
+      ...(hostData.wakeStrategy !== undefined || host.wakeStrategy !== undefined
+        ? {
+            wakeStrategy:
+              hostData.wakeStrategy !== undefined ? hostData.wakeStrategy : host.wakeStrategy,
+          }
+        : {}),
+      ...(hostData.secureOnPassword !== undefined ? { secureOnPassword: hostData.secureOnPassword } : {}),
+      ...(hostData.powerControlPassword !== undefined
+        ? { powerControlPassword: hostData.powerControlPassword }
+        : {}),
     },
   };
 
@@ -469,3 +874,285 @@ export const routeDeleteHostCommand: RouteDeleteHostCommand = async (
 
   return result;
 };
+
+/**
+ * Per-host outcome of a group or bulk wake. Hosts with prerequisites are woken
+ * by a background job, so they stay `pending` and carry the job to follow.
+ */
+function toWakeItemResult(response: WakeupResponse): Omit<HostGroupActionHostResult, 'fqn'> {
+  return {
+    state: response.dependencyJob ? 'pending' : response.state ?? 'acknowledged',
+    nodeId: response.nodeId,
+    ...(response.commandId ? { commandId: response.commandId } : {}),
+    message: response.message,
+    ...(response.dependencyJob ? { dependencyJob: response.dependencyJob } : {}),
+  };
+}
+
+export const routeHostGroupCommand: RouteHostGroupCommand = async (
+  context: CommandDispatchContext,
+  group,
+  action,
+  options?: HostGroupRouteOptions,
+): Promise<HostGroupActionJob> => {
+  const jobId = `job_${randomUUID()}`;
+  const startedAt = new Date().toISOString();
+  const correlationId = options?.correlationId ?? null;
+
+  logger.info(`Routing ${action} command for host group ${group.id}`, {
+    jobId,
+    hostCount: group.hostFqns.length,
+  });
+
+  context.emitHostGroupAction({
+    phase: 'started',
+    jobId,
+    groupId: group.id,
+    action,
+    total: group.hostFqns.length,
+    hostFqns: group.hostFqns,
+    startedAt,
+  });
+
+  const results = await Promise.all(
+    group.hostFqns.map(async (fqn): Promise<HostGroupActionHostResult> => {
+      let result: HostGroupActionHostResult;
+      try {
+        const idempotencyKey = scopeMemberIdempotencyKey(options?.idempotencyKey, fqn);
+        if (action === 'wake') {
+          const response = await context.routeWakeCommand(fqn, {
+            idempotencyKey,
+            correlationId,
+            verify: options?.verify ?? null,
+          });
+          result = { fqn, ...toWakeItemResult(response) };
+        } else {
+          const response = await context.routeHostPowerCommand(action, fqn, { idempotencyKey, correlationId });
+          result = {
+            fqn,
+            state: response.state ?? 'acknowledged',
+            nodeId: response.nodeId,
+            ...(response.commandId ? { commandId: response.commandId } : {}),
+            message: response.message,
+          };
+        }
+      } catch (error) {
+        result = { fqn, ...toMemberFailure(error) };
+      }
+
+      context.emitHostGroupAction({
+        phase: 'progress',
+        jobId,
+        groupId: group.id,
+        action,
+        result,
+      });
+      return result;
+    }),
+  );
+
+  const failed = results.filter((entry) => entry.state === 'failed' || entry.state === 'timed_out').length;
+  const succeeded = results.length - failed;
+  const job: HostGroupActionJob = {
+    jobId,
+    groupId: group.id,
+    action,
+    state: failed === 0 ? 'completed' : succeeded === 0 ? 'failed' : 'partial',
+    startedAt,
+    completedAt: new Date().toISOString(),
+    summary: {
+      total: results.length,
+      succeeded,
+      failed,
+    },
+    results,
+    ...(correlationId ? { correlationId } : {}),
+  };
+
+  context.emitHostGroupAction({ phase: 'completed', job });
+  return job;
+};
+
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let nextIndex = 0;
+  const runnerCount = Math.max(1, Math.min(limit, items.length));
+
+  await Promise.all(
+    Array.from({ length: runnerCount }, async () => {
+      while (nextIndex < items.length) {
+        const item = items[nextIndex];
+        nextIndex += 1;
+        await worker(item);
+      }
+    }),
+  );
+}
+
+function commandResultToBulkItem(
+  fqn: string,
+  nodeId: string,
+  result: CommandResult,
+): HostBulkOperationItemResult {
+  if (!result.success) {
+    return {
+      fqn,
+      success: false,
+      state: result.state === 'timed_out' ? 'timed_out' : 'failed',
+      nodeId,
+      ...(result.commandId ? { commandId: result.commandId } : {}),
+      error: result.error ?? 'Command failed',
+    };
+  }
+
+  return {
+    fqn,
+    success: true,
+    state: result.state ?? 'acknowledged',
+    nodeId,
+    ...(result.commandId ? { commandId: result.commandId } : {}),
+    ...(result.message ? { message: result.message } : {}),
+  };
+}
+
+async function dispatchBulkItem(
+  context: CommandDispatchContext,
+  request: HostBulkOperationRequest,
+  fqn: string,
+  nodeId: string,
+  options: { idempotencyKey: string | null; correlationId: string | null; verify: HostBulkRouteOptions['verify'] },
+): Promise<HostBulkOperationItemResult> {
+  const { idempotencyKey, correlationId } = options;
+
+  switch (request.action) {
+    case 'wake': {
+      const response = await context.routeWakeCommand(fqn, {
+        idempotencyKey,
+        correlationId,
+        verify: options.verify ?? null,
+      });
+      return { fqn, success: true, ...toWakeItemResult(response) };
+    }
+    case 'ping': {
+      const response = await context.routePingHostCommand(fqn, { correlationId });
+      return {
+        fqn,
+        success: true,
+        state: 'acknowledged',
+        nodeId,
+        ping: {
+          checkedAt: response.checkedAt,
+          latencyMs: response.latencyMs,
+          reachable: response.success,
+          status: response.status,
+        },
+      };
+    }
+    case 'scan-ports': {
+      const response = await context.routeScanHostPortsCommand(fqn, { correlationId });
+      return {
+        fqn,
+        success: true,
+        state: 'acknowledged',
+        nodeId: response.nodeId,
+        commandId: response.commandId,
+        ...(response.message ? { message: response.message } : {}),
+        portScan: {
+          scannedAt: response.hostPortScan.scannedAt,
+          openPorts: response.hostPortScan.openPorts,
+        },
+      };
+    }
+    case 'update': {
+      const hostData: HostUpdateData = {};
+      if (request.update.tags !== undefined) hostData.tags = request.update.tags;
+      if (request.update.notes !== undefined) hostData.notes = request.update.notes;
+
+      const result = await context.routeUpdateHostCommand(fqn, hostData, { idempotencyKey, correlationId });
+      return commandResultToBulkItem(fqn, nodeId, result);
+    }
+    case 'delete': {
+      const result = await context.routeDeleteHostCommand(fqn, { idempotencyKey, correlationId });
+      return commandResultToBulkItem(fqn, nodeId, result);
+    }
+  }
+}
+
+export const routeBulkHostCommand: RouteBulkHostCommand = async (
+  context: CommandDispatchContext,
+  request: HostBulkOperationRequest,
+  options?: HostBulkRouteOptions,
+): Promise<HostBulkOperationResponse> => {
+  const startedAt = new Date().toISOString();
+  const correlationId = options?.correlationId ?? null;
+
+  logger.info(`Routing bulk ${request.action} command`, {
+    hostCount: request.fqns.length,
+    nodeConcurrency: context.bulkNodeConcurrency,
+  });
+
+  const results = new Map<string, HostBulkOperationItemResult>();
+  const fqnsByNode = new Map<string, string[]>();
+
+  for (const fqn of request.fqns) {
+    try {
+      const host = await context.hostAggregator.getHostByFQN(fqn);
+      if (!host) {
+        results.set(fqn, { fqn, success: false, state: 'failed', error: `Host not found: ${fqn}` });
+        continue;
+      }
+
+      const nodeFqns = fqnsByNode.get(host.nodeId);
+      if (nodeFqns) {
+        nodeFqns.push(fqn);
+      } else {
+        fqnsByNode.set(host.nodeId, [fqn]);
+      }
+    } catch (error) {
+      results.set(fqn, { fqn, success: false, ...toMemberFailure(error) });
+    }
+  }
+
+  // Nodes are processed in parallel; within a node at most `bulkNodeConcurrency`
+  // commands are in flight so a large batch cannot flood a single agent.
+  await Promise.all(
+    Array.from(fqnsByNode.entries()).map(([nodeId, fqns]) =>
+      runWithConcurrency(fqns, context.bulkNodeConcurrency, async (fqn) => {
+        try {
+          results.set(
+            fqn,
+            await dispatchBulkItem(context, request, fqn, nodeId, {
+              idempotencyKey: scopeMemberIdempotencyKey(options?.idempotencyKey, fqn),
+              correlationId,
+              verify: options?.verify ?? null,
+            }),
+          );
+        } catch (error) {
+          results.set(fqn, { fqn, success: false, nodeId, ...toMemberFailure(error) });
+        }
+      }),
+    ),
+  );
+
+  const orderedResults = request.fqns.map(
+    (fqn): HostBulkOperationItemResult =>
+      results.get(fqn) ?? { fqn, success: false, state: 'failed', error: 'Bulk item was not dispatched' },
+  );
+  const succeeded = orderedResults.filter((entry) => entry.success).length;
+
+  return {
+    action: request.action,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    summary: {
+      total: orderedResults.length,
+      succeeded,
+      failed: orderedResults.length - succeeded,
+    },
+    results: orderedResults,
+    ...(correlationId ? { correlationId } : {}),
+  };
+};
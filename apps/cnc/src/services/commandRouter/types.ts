@@ -1,12 +1,27 @@
 import type {
   CncCommand,
   CommandResult,
+  HostBulkOperationRequest,
+  HostBulkOperationResponse,
+  HostGroupAction,
+  HostGroupActionHostResult,
+  HostGroupActionJob,
   HostPingResponse,
+  HostOutOfBandPowerResponse,
   HostPowerResponse,
+  HostPowerStateResponse,
+  HostWakeRelay,
   WakeupResponse,
   CommandRecord,
+  WakeDependencyJob,
 } from '../../types';
-import type { HostPowerAction, HostStatus, WakeVerifyOptions } from '@kaonis/woly-protocol';
+import type {
+  HostOutOfBandPowerAction,
+  HostPowerAction,
+  HostStatus,
+  WakeVerificationResult,
+  WakeVerifyOptions,
+} from '@kaonis/woly-protocol';
 
 export type DispatchCommand = Extract<CncCommand, { commandId: string }>;
 
@@ -20,6 +35,11 @@ export interface HostUpdateData {
   notes?: string | null;
   tags?: string[];
   powerControl?: Extract<DispatchCommand, { type: 'update-host' }>['data']['powerControl'];
+  wakeStrategy?: Extract<DispatchCommand, { type: 'update-host' }>['data']['wakeStrategy'];
+  /** Forwarded to the owning node, which stores it encrypted; not kept on the host record. */
+  secureOnPassword?: string | null;
+  /** BMC password for the redfish power control transport; forwarded like `secureOnPassword`. */
+  powerControlPassword?: string | null;
 }
 
 export type PingHostCommandResult = {
@@ -27,6 +47,11 @@ export type PingHostCommandResult = {
   correlationId?: string;
 };
 
+export type HostPowerStateCommandResult = {
+  hostPowerState: NonNullable<CommandResult['hostPowerState']>;
+  correlationId?: string;
+};
+
 export type RoutedHostPortScanResult = {
   commandId: string;
   nodeId: string;
@@ -86,6 +111,45 @@ export type HostPowerRouteOptions = {
   correlationId?: string | null;
 };
 
+export type HostGroupRouteOptions = {
+  idempotencyKey?: string | null;
+  correlationId?: string | null;
+  verify?: WakeVerifyOptions | null;
+};
+
+export type HostBulkRouteOptions = {
+  idempotencyKey?: string | null;
+  correlationId?: string | null;
+  verify?: WakeVerifyOptions | null;
+};
+
+export type HostGroupTarget = {
+  id: string;
+  hostFqns: string[];
+};
+
+export type HostGroupActionEvent =
+  | {
+      phase: 'started';
+      jobId: string;
+      groupId: string;
+      action: HostGroupAction;
+      total: number;
+      hostFqns: string[];
+      startedAt: string;
+    }
+  | {
+      phase: 'progress';
+      jobId: string;
+      groupId: string;
+      action: HostGroupAction;
+      result: HostGroupActionHostResult;
+    }
+  | {
+      phase: 'completed';
+      job: HostGroupActionJob;
+    };
+
 export type ScanHostPortsRouteOptions = {
   correlationId?: string | null;
   ports?: number[] | null;
@@ -101,6 +165,33 @@ export interface CommandDispatchContext {
     immediate?: boolean,
     options?: CorrelationRouteOptions
   ) => Promise<CommandResult>;
+  routeWakeCommand: (fqn: string, options?: WakeRouteOptions) => Promise<WakeupResponse>;
+  routeHostPowerCommand: (
+    action: HostPowerAction,
+    fqn: string,
+    options?: HostPowerRouteOptions
+  ) => Promise<HostPowerResponse>;
+  routePingHostCommand: (fqn: string, options?: CorrelationRouteOptions) => Promise<HostPingResponse>;
+  routeScanHostPortsCommand: (
+    fqn: string,
+    options?: ScanHostPortsRouteOptions
+  ) => Promise<RoutedHostPortScanResult>;
+  routeUpdateHostCommand: (
+    fqn: string,
+    hostData: HostUpdateData,
+    options?: HostPowerRouteOptions
+  ) => Promise<CommandResult>;
+  routeDeleteHostCommand: (fqn: string, options?: HostPowerRouteOptions) => Promise<CommandResult>;
+  bulkNodeConcurrency: number;
+  emitHostGroupAction: (event: HostGroupActionEvent) => void;
+  listWakeDependencies: (fqn: string) => Promise<string[]>;
+  /** Keeps `job` queryable while `run` advances it and for a while after it settles. */
+  trackWakeDependencyJob: (job: WakeDependencyJob, run: Promise<void>) => void;
+  getWakeRelay: (fqn: string) => Promise<HostWakeRelay | null>;
+  waitForWakeVerification: (
+    commandId: string,
+    timeoutMs: number
+  ) => Promise<WakeVerificationResult | null>;
   executeCommand: (
     nodeId: string,
     command: DispatchCommand,
@@ -108,6 +199,7 @@ export interface CommandDispatchContext {
   ) => Promise<CommandResult>;
   trackWakeVerificationCommand: (commandId: string, fqn: string) => void;
   assertPingHostResult: (result: CommandResult) => PingHostCommandResult;
+  assertHostPowerStateResult: (result: CommandResult) => HostPowerStateCommandResult;
   assertHostPortScanResult: (result: CommandResult) => {
     hostPortScan: NonNullable<CommandResult['hostPortScan']>;
     correlationId?: string;
@@ -128,6 +220,7 @@ export interface CommandDispatchContext {
       notes?: string | null;
       tags?: string[];
       powerControl?: Extract<DispatchCommand, { type: 'update-host' }>['data']['powerControl'];
+      wakeStrategy?: Extract<DispatchCommand, { type: 'update-host' }>['data']['wakeStrategy'];
     } | null>;
     onHostRemoved: (event: { nodeId: string; name: string }) => Promise<void>;
   };
@@ -180,6 +273,19 @@ export type RouteHostPowerCommand = (
   options?: HostPowerRouteOptions
 ) => Promise<HostPowerResponse>;
 
+export type RouteHostOutOfBandPowerCommand = (
+  context: CommandDispatchContext,
+  action: HostOutOfBandPowerAction,
+  fqn: string,
+  options?: HostPowerRouteOptions
+) => Promise<HostOutOfBandPowerResponse>;
+
+export type RouteHostPowerStateCommand = (
+  context: CommandDispatchContext,
+  fqn: string,
+  options?: CorrelationRouteOptions
+) => Promise<HostPowerStateResponse>;
+
 export type RouteScanCommand = (
   context: CommandDispatchContext,
   nodeId: string,
@@ -210,3 +316,16 @@ export type RouteDeleteHostCommand = (
   fqn: string,
   options?: HostPowerRouteOptions
 ) => Promise<CommandResult>;
+
+export type RouteHostGroupCommand = (
+  context: CommandDispatchContext,
+  group: HostGroupTarget,
+  action: HostGroupAction,
+  options?: HostGroupRouteOptions
+) => Promise<HostGroupActionJob>;
+
+export type RouteBulkHostCommand = (
+  context: CommandDispatchContext,
+  request: HostBulkOperationRequest,
+  options?: HostBulkRouteOptions
+) => Promise<HostBulkOperationResponse>;
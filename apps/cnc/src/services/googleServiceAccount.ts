@@ -0,0 +1,156 @@
+/**
+ * OAuth2 access tokens for a Google service account, minted with the signed
+ * JWT bearer grant (RFC 7523).
+ *
+ * Tokens are cached and refreshed `refreshMarginMs` before they expire;
+ * concurrent callers share one token request.
+ */
+
+import { createPrivateKey, createSign, type KeyObject } from 'crypto';
+
+export interface GoogleServiceAccount {
+  projectId: string;
+  clientEmail: string;
+  privateKey: KeyObject;
+  tokenUri: string;
+}
+
+interface GoogleAccessTokenProviderOptions {
+  scope: string;
+  fetchImpl?: typeof fetch;
+  fetchTimeoutMs?: number;
+  refreshMarginMs?: number;
+}
+
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+const ASSERTION_TTL_SECONDS = 3600;
+const DEFAULT_FETCH_TIMEOUT_MS = 5_000;
+const DEFAULT_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function encodeBase64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+function readRequiredString(record: Record<string, unknown>, key: string): string {
+  const value = record[key];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Service account JSON is missing "${key}"`);
+  }
+
+  return value;
+}
+
+/** Parses the key file downloaded from the Google Cloud console. */
+export function parseGoogleServiceAccount(json: string): GoogleServiceAccount {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json) as unknown;
+  } catch (error) {
+    throw new Error('Service account file is not valid JSON', { cause: error });
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Service account file must contain a JSON object');
+  }
+
+  const record = parsed as Record<string, unknown>;
+  if (record.type !== undefined && record.type !== 'service_account') {
+    throw new Error(`Expected a service_account key file, got "${String(record.type)}"`);
+  }
+
+  const projectId = readRequiredString(record, 'project_id');
+  const clientEmail = readRequiredString(record, 'client_email');
+  const privateKeyPem = readRequiredString(record, 'private_key');
+  let privateKey: KeyObject;
+  try {
+    privateKey = createPrivateKey(privateKeyPem);
+  } catch (error) {
+    throw new Error('Service account private_key is not a valid PEM key', { cause: error });
+  }
+
+  return {
+    projectId,
+    clientEmail,
+    privateKey,
+    tokenUri: typeof record.token_uri === 'string' && record.token_uri ? record.token_uri : DEFAULT_TOKEN_URI,
+  };
+}
+
+export class GoogleAccessTokenProvider {
+  private accessToken: string | null = null;
+  private expiresAt = 0;
+  private inFlight: Promise<string> | null = null;
+  private readonly fetchImpl: typeof fetch;
+  private readonly fetchTimeoutMs: number;
+  private readonly refreshMarginMs: number;
+
+  constructor(
+    private readonly account: GoogleServiceAccount,
+    private readonly options: GoogleAccessTokenProviderOptions,
+  ) {
+    this.fetchImpl = options.fetchImpl ?? fetch;
+    this.fetchTimeoutMs = options.fetchTimeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+  }
+
+  async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.expiresAt - this.refreshMarginMs) {
+      return this.accessToken;
+    }
+
+    this.inFlight ??= this.requestAccessToken().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  /** Drops the cached token, e.g. after the API rejected it with 401. */
+  invalidate(): void {
+    this.accessToken = null;
+    this.expiresAt = 0;
+  }
+
+  private buildAssertion(nowSeconds: number): string {
+    const header = encodeBase64UrlJson({ alg: 'RS256', typ: 'JWT' });
+    const payload = encodeBase64UrlJson({
+      iss: this.account.clientEmail,
+      scope: this.options.scope,
+      aud: this.account.tokenUri,
+      iat: nowSeconds,
+      exp: nowSeconds + ASSERTION_TTL_SECONDS,
+    });
+    const signingInput = `${header}.${payload}`;
+    const signature = createSign('RSA-SHA256').update(signingInput).sign(this.account.privateKey, 'base64url');
+    return `${signingInput}.${signature}`;
+  }
+
+  private async requestAccessToken(): Promise<string> {
+    const requestedAt = Date.now();
+    const response = await this.fetchImpl(this.account.tokenUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: JWT_BEARER_GRANT_TYPE,
+        assertion: this.buildAssertion(Math.floor(requestedAt / 1000)),
+      }).toString(),
+      signal: AbortSignal.timeout(this.fetchTimeoutMs),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Google OAuth token request failed with status ${response.status}${text ? `: ${text}` : ''}`);
+    }
+
+    const body = (await response.json()) as { access_token?: unknown; expires_in?: unknown };
+    if (typeof body.access_token !== 'string' || body.access_token.length === 0) {
+      throw new Error('Google OAuth token response did not include an access_token');
+    }
+
+    const expiresInSeconds = typeof body.expires_in === 'number' ? body.expires_in : ASSERTION_TTL_SECONDS;
+    this.accessToken = body.access_token;
+    this.expiresAt = requestedAt + expiresInSeconds * 1000;
+    return body.access_token;
+  }
+}
+
+export default GoogleAccessTokenProvider;
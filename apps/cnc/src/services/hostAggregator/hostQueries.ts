@@ -20,6 +20,7 @@ type AggregatedHostRowRaw = AggregatedHost & {
   secondaryMacs?: unknown;
   tags?: unknown;
   powerControl?: unknown;
+  wakeStrategy?: unknown;
   openPorts?: unknown;
   portsScannedAt?: unknown;
   portsExpireAt?: unknown;
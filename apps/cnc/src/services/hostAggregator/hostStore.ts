@@ -1,4 +1,4 @@
-import { hostPowerControlSchema } from '@kaonis/woly-protocol';
+import { hostPowerControlSchema, hostWakeStrategySchema } from '@kaonis/woly-protocol';
 import db from '../../database/connection';
 import { logger } from '../../utils/logger';
 import type { Host, AggregatedHost, HostStatusHistoryEntry } from '../../types';
@@ -10,6 +10,7 @@ export type AggregatedHostRowRaw = AggregatedHost & {
   secondaryMacs?: unknown;
   tags?: unknown;
   powerControl?: unknown;
+  wakeStrategy?: unknown;
   openPorts?: unknown;
   portsScannedAt?: unknown;
   portsExpireAt?: unknown;
@@ -36,6 +37,7 @@ export const HOST_SELECT_COLUMNS = `
         ah.notes,
         ah.tags,
         ah.power_config as "powerControl",
+        ah.wake_strategy as "wakeStrategy",
         ah.open_ports as "openPorts",
         ah.ports_scanned_at as "portsScannedAt",
         ah.ports_expire_at as "portsExpireAt",
@@ -135,6 +137,50 @@ export class HostStore {
     return JSON.stringify(value);
   }
 
+  private parseWakeStrategy(value: unknown, hostName: string): Host['wakeStrategy'] | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    let parsed: unknown = value;
+    if (typeof value === 'string') {
+      if (value.trim().length === 0) {
+        return undefined;
+      }
+      try {
+        parsed = JSON.parse(value) as unknown;
+      } catch (error) {
+        logger.warn('Failed to parse aggregated host wake strategy; defaulting to undefined', {
+          hostName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      }
+    }
+
+    if (parsed === null) {
+      return null;
+    }
+
+    const validation = hostWakeStrategySchema.safeParse(parsed);
+    if (!validation.success) {
+      logger.warn('Aggregated host wake strategy failed validation; defaulting to undefined', {
+        hostName,
+      });
+      return undefined;
+    }
+
+    return validation.data;
+  }
+
+  private serializeWakeStrategy(value: Host['wakeStrategy'] | undefined): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    return JSON.stringify(value);
+  }
+
   private parseSecondaryMacs(value: unknown, hostName: string, primaryMac: string): string[] {
     if (Array.isArray(value)) {
       return this.normalizeSecondaryMacs(
@@ -283,13 +329,19 @@ export class HostStore {
   }
 
   public normalizeHost(row: AggregatedHostRowRaw): AggregatedHost {
-    const { secondaryMacs: rawSecondaryMacs, powerControl: rawPowerControl, ...base } = row;
+    const {
+      secondaryMacs: rawSecondaryMacs,
+      powerControl: rawPowerControl,
+      wakeStrategy: rawWakeStrategy,
+      ...base
+    } = row;
     const openPorts = this.parseOpenPorts(base.openPorts, base.name);
     const portsScannedAt = this.normalizeDateValue(base.portsScannedAt);
     const portsExpireAt = this.normalizeDateValue(base.portsExpireAt);
     const hasFreshPortScan = this.isPortScanStillFresh(portsExpireAt);
     const secondaryMacs = this.parseSecondaryMacs(rawSecondaryMacs, base.name, base.mac);
     const powerControl = this.parsePowerControl(rawPowerControl, base.name);
+    const wakeStrategy = this.parseWakeStrategy(rawWakeStrategy, base.name);
 
     return {
       ...base,
@@ -297,6 +349,7 @@ export class HostStore {
       notes: base.notes ?? null,
       tags: this.parseTags(base.tags, base.name),
       ...(powerControl !== undefined ? { powerControl } : {}),
+      ...(wakeStrategy !== undefined ? { wakeStrategy } : {}),
       openPorts: hasFreshPortScan ? openPorts : undefined,
       portsScannedAt: hasFreshPortScan ? portsScannedAt : null,
       portsExpireAt: hasFreshPortScan ? portsExpireAt : null,
@@ -401,6 +454,10 @@ export class HostStore {
         column: 'power_config',
         statement: 'ALTER TABLE aggregated_hosts ADD COLUMN power_config TEXT',
       },
+      {
+        column: 'wake_strategy',
+        statement: 'ALTER TABLE aggregated_hosts ADD COLUMN wake_strategy TEXT',
+      },
     ];
 
     for (const migration of migrationStatements) {
@@ -574,6 +631,7 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
     const tags = this.serializeTags(host.tags);
     const secondaryMacs = this.serializeSecondaryMacs(host.secondaryMacs, host.mac);
     const powerControl = this.serializePowerControl(host.powerControl);
+    const wakeStrategy = this.serializeWakeStrategy(host.wakeStrategy);
 
     const lastSeen = host.lastSeen
       ? typeof host.lastSeen === 'string'
@@ -596,8 +654,9 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
             tags = $11,
             secondary_macs = $12,
             power_config = $13,
+            wake_strategy = $14,
             updated_at = ${timestamp}
-        WHERE id = $14 AND node_id = $15`,
+        WHERE id = $15 AND node_id = $16`,
       [
         host.name,
         host.mac,
@@ -612,6 +671,7 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
         tags,
         secondaryMacs,
         powerControl,
+        wakeStrategy,
         id,
         nodeId,
       ],
@@ -655,6 +715,10 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
       return true;
     }
 
+    if (JSON.stringify(previous.wakeStrategy ?? null) !== JSON.stringify(next.wakeStrategy ?? null)) {
+      return true;
+    }
+
     if (previous.location !== location) {
       return true;
     }
@@ -722,6 +786,7 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
     const tags = this.serializeTags(host.tags);
     const secondaryMacs = this.serializeSecondaryMacs(host.secondaryMacs, host.mac);
     const powerControl = this.serializePowerControl(host.powerControl);
+    const wakeStrategy = this.serializeWakeStrategy(host.wakeStrategy);
 
     const lastSeen = host.lastSeen
       ? typeof host.lastSeen === 'string'
@@ -731,8 +796,9 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
 
     await db.query(
       `INSERT INTO aggregated_hosts
-        (node_id, name, mac, secondary_macs, ip, status, last_seen, location, fully_qualified_name, discovered, ping_responsive, notes, tags, power_config)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        (node_id, name, mac, secondary_macs, ip, status, last_seen, location, fully_qualified_name, discovered, ping_responsive, notes, tags, power_config,
+         wake_strategy)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
       [
         nodeId,
         host.name,
@@ -748,6 +814,7 @@ ${HOST_SELECT_COLUMNS_WITH_ID}
         notes,
         tags,
         powerControl,
+        wakeStrategy,
       ],
     );
   }
@@ -1,5 +1,6 @@
 import db from '../../database/connection';
 import { logger } from '../../utils/logger';
+import HostWakeDependencyModel from '../../models/HostWakeDependency';
 import type { Host, AggregatedHost } from '../../types';
 
 export interface HostDiscoveredEvent {
@@ -145,22 +146,31 @@ export async function onHostRemoved(
 
   try {
     const existing = await context.findHostRowByNodeAndName(nodeId, name);
-    const result = await db.query('DELETE FROM aggregated_hosts WHERE node_id = $1 AND name = $2 RETURNING *', [
-      nodeId,
-      name,
-    ]);
+    const result = await db.query<{ fullyQualifiedName: string }>(
+      `DELETE FROM aggregated_hosts WHERE node_id = $1 AND name = $2
+       RETURNING fully_qualified_name as "fullyQualifiedName"`,
+      [nodeId, name],
+    );
+    const removedFqns = result.rows.map((row) => row.fullyQualifiedName);
 
     if (existing?.mac) {
-      await db.query('DELETE FROM aggregated_hosts WHERE node_id = $1 AND mac = $2', [nodeId, existing.mac]);
+      const duplicates = await db.query<{ fullyQualifiedName: string }>(
+        `DELETE FROM aggregated_hosts WHERE node_id = $1 AND mac = $2
+         RETURNING fully_qualified_name as "fullyQualifiedName"`,
+        [nodeId, existing.mac],
+      );
+      removedFqns.push(...duplicates.rows.map((row) => row.fullyQualifiedName));
     }
 
+    await HostWakeDependencyModel.deleteForHosts(removedFqns);
+
     if (result.rowCount && result.rowCount > 0) {
       logger.info('Host removed from aggregated database', {
         nodeId,
         hostName: name,
       });
 
-      context.emitEvent('host-removed', { nodeId, name });
+      context.emitEvent('host-removed', { nodeId, name, fullyQualifiedName: removedFqns[0] });
     } else {
       logger.debug('Host removal request for non-existent host', {
         nodeId,
@@ -210,7 +220,11 @@ export async function markNodeHostsUnreachable(
         hostsAffected: count,
       });
 
-      context.emitEvent('node-hosts-unreachable', { nodeId, count });
+      context.emitEvent('node-hosts-unreachable', {
+        nodeId,
+        count,
+        fullyQualifiedNames: awakeHostsResult.rows.map((host) => host.fullyQualifiedName),
+      });
     }
   } catch (error) {
     logger.error('Failed to mark node hosts as unreachable', {
@@ -224,7 +238,12 @@ export async function markNodeHostsUnreachable(
 export async function removeNodeHosts(context: HostSyncContext, nodeId: string): Promise<void> {
   await context.ensureHostMetadataColumns();
   try {
-    const result = await db.query('DELETE FROM aggregated_hosts WHERE node_id = $1 RETURNING name', [nodeId]);
+    const result = await db.query<{ fullyQualifiedName: string }>(
+      `DELETE FROM aggregated_hosts WHERE node_id = $1
+       RETURNING fully_qualified_name as "fullyQualifiedName"`,
+      [nodeId],
+    );
+    await HostWakeDependencyModel.deleteForHosts(result.rows.map((row) => row.fullyQualifiedName));
 
     const count = result.rowCount || 0;
     logger.info('Removed all hosts for node', {
@@ -232,7 +251,11 @@ export async function removeNodeHosts(context: HostSyncContext, nodeId: string):
       hostsRemoved: count,
     });
 
-    context.emitEvent('node-hosts-removed', { nodeId, count });
+    context.emitEvent('node-hosts-removed', {
+      nodeId,
+      count,
+      fullyQualifiedNames: result.rows.map((row) => row.fullyQualifiedName),
+    });
   } catch (error) {
     logger.error('Failed to remove node hosts', {
       nodeId,
@@ -7,7 +7,9 @@ import type {
   WakeVerificationResult,
 } from '@kaonis/woly-protocol';
 import { HostAggregator } from './hostAggregator';
+import { AccessControl, isScopedCaller } from './accessControl';
 import type { CommandRouter } from './commandRouter';
+import type { HostGroupActionEvent } from './commandRouter/types';
 import logger from '../utils/logger';
 import type { AuthContext } from '../types/auth';
 
@@ -34,11 +36,25 @@ type HostUpdatedPayload = {
 type HostRemovedPayload = {
   nodeId: string;
   name: string;
+  fullyQualifiedName?: string;
 };
 
 type NodeHostsChangedPayload = {
   nodeId: string;
   count: number;
+  fullyQualifiedNames?: string[];
+};
+
+/** Host an event is about, checked against the grants of scoped subscribers. */
+type EventHost = {
+  fullyQualifiedName: string;
+  nodeId: string;
+};
+
+type StreamClient = {
+  auth: AuthContext;
+  /** Chains permission checks so a scoped client still gets events in source order. */
+  delivery: Promise<void>;
 };
 
 type WakeVerificationCompletePayload = {
@@ -64,7 +80,7 @@ type HostStateStreamBrokerStats = {
 };
 
 export class HostStateStreamBroker {
-  private readonly clients = new Set<WebSocket>();
+  private readonly clients = new Map<WebSocket, StreamClient>();
   private totalConnections = 0;
   private totalDisconnects = 0;
   private totalErrors = 0;
@@ -83,7 +99,8 @@ export class HostStateStreamBroker {
         fullyQualifiedName: payload.fullyQualifiedName,
         hostName: payload.host?.name,
         status: payload.host?.status,
-      })
+      }),
+      toEventHosts(payload.nodeId, [payload.fullyQualifiedName])
     );
   };
 
@@ -94,7 +111,8 @@ export class HostStateStreamBroker {
         fullyQualifiedName: payload.fullyQualifiedName,
         hostName: payload.host?.name,
         status: payload.host?.status,
-      })
+      }),
+      toEventHosts(payload.nodeId, [payload.fullyQualifiedName])
     );
   };
 
@@ -103,7 +121,8 @@ export class HostStateStreamBroker {
       this.createMutatingEvent('host.removed', {
         nodeId: payload.nodeId,
         hostName: payload.name,
-      })
+      }),
+      toEventHosts(payload.nodeId, [payload.fullyQualifiedName])
     );
   };
 
@@ -113,7 +132,8 @@ export class HostStateStreamBroker {
         nodeId: payload.nodeId,
         reason: 'node_hosts_unreachable',
         affectedHostCount: payload.count,
-      })
+      }),
+      toEventHosts(payload.nodeId, payload.fullyQualifiedNames ?? [])
     );
   };
 
@@ -123,7 +143,8 @@ export class HostStateStreamBroker {
         nodeId: payload.nodeId,
         reason: 'node_hosts_removed',
         affectedHostCount: payload.count,
-      })
+      }),
+      toEventHosts(payload.nodeId, payload.fullyQualifiedNames ?? [])
     );
   };
 
@@ -136,13 +157,66 @@ export class HostStateStreamBroker {
         attempts: payload.wakeVerification.attempts,
         elapsedMs: payload.wakeVerification.elapsedMs,
         source: payload.wakeVerification.source,
-      })
+        ...(payload.wakeVerification.steps ? { steps: payload.wakeVerification.steps } : {}),
+        ...(payload.wakeVerification.confirmedAfterStep !== undefined
+          ? { confirmedAfterStep: payload.wakeVerification.confirmedAfterStep }
+          : {}),
+      }),
+      [payload.fullyQualifiedName]
+    );
+  };
+
+  private readonly onHostGroupAction = (event: HostGroupActionEvent) => {
+    if (event.phase === 'started') {
+      this.broadcast(
+        this.createMutatingEvent('group.action.started', {
+          jobId: event.jobId,
+          groupId: event.groupId,
+          action: event.action,
+          total: event.total,
+          startedAt: event.startedAt,
+        }),
+        event.hostFqns
+      );
+      return;
+    }
+
+    if (event.phase === 'progress') {
+      this.broadcast(
+        this.createMutatingEvent('group.action.progress', {
+          jobId: event.jobId,
+          groupId: event.groupId,
+          action: event.action,
+          fullyQualifiedName: event.result.fqn,
+          nodeId: event.result.nodeId,
+          commandId: event.result.commandId,
+          state: event.result.state,
+          error: event.result.error,
+        }),
+        [event.result.fqn]
+      );
+      return;
+    }
+
+    this.broadcast(
+      this.createMutatingEvent('group.action.completed', {
+        jobId: event.job.jobId,
+        groupId: event.job.groupId,
+        action: event.job.action,
+        state: event.job.state,
+        summary: event.job.summary,
+        completedAt: event.job.completedAt,
+      }),
+      event.job.results.map((result) => result.fqn)
     );
   };
 
   private commandRouter: CommandRouter | null = null;
 
-  constructor(private readonly hostAggregator: HostAggregator) {
+  constructor(
+    private readonly hostAggregator: HostAggregator,
+    private readonly accessControl: AccessControl = new AccessControl(hostAggregator)
+  ) {
     this.hostAggregator.on('host-added', this.onHostAdded);
     this.hostAggregator.on('host-updated', this.onHostUpdated);
     this.hostAggregator.on('host-removed', this.onHostRemoved);
@@ -151,19 +225,22 @@ export class HostStateStreamBroker {
   }
 
   /**
-   * Subscribe to wake verification events from the CommandRouter.
-   * Called after construction so the broker can broadcast wake.verified events.
+   * Subscribe to wake verification and host group events from the CommandRouter.
+   * Called after construction so the broker can broadcast wake.verified and
+   * group.action.* events.
    */
   subscribeToCommandRouter(commandRouter: CommandRouter): void {
     if (this.commandRouter) {
       this.commandRouter.off('wake-verification-complete', this.onWakeVerificationComplete);
+      this.commandRouter.off('host-group-action', this.onHostGroupAction);
     }
     this.commandRouter = commandRouter;
     this.commandRouter.on('wake-verification-complete', this.onWakeVerificationComplete);
+    this.commandRouter.on('host-group-action', this.onHostGroupAction);
   }
 
   handleConnection(ws: WebSocket, auth: AuthContext): void {
-    this.clients.add(ws);
+    this.clients.set(ws, { auth, delivery: Promise.resolve() });
     this.totalConnections += 1;
     this.sendDirect(
       ws,
@@ -235,10 +312,11 @@ export class HostStateStreamBroker {
 
     if (this.commandRouter) {
       this.commandRouter.off('wake-verification-complete', this.onWakeVerificationComplete);
+      this.commandRouter.off('host-group-action', this.onHostGroupAction);
       this.commandRouter = null;
     }
 
-    for (const client of this.clients) {
+    for (const client of this.clients.keys()) {
       client.close(1000, 'Server shutdown');
     }
     this.clients.clear();
@@ -280,7 +358,12 @@ export class HostStateStreamBroker {
     }
   }
 
-  private broadcast(event: HostStateStreamEvent): void {
+  /**
+   * Sends the event to every client. Clients limited by resource permissions
+   * only get it when they may view one of `hosts`, given as FQNs or, when the
+   * host may already be gone, together with its node.
+   */
+  private broadcast(event: HostStateStreamEvent, hosts: ReadonlyArray<string | EventHost>): void {
     this.totalBroadcasts += 1;
     this.incrementCounter(this.broadcastEventCounts, event.type);
 
@@ -290,21 +373,52 @@ export class HostStateStreamBroker {
     }
 
     const serialized = JSON.stringify(event);
-    for (const client of this.clients) {
-      if (client.readyState !== WebSocket.OPEN) {
+    for (const [ws, client] of this.clients) {
+      if (!isScopedCaller(client.auth)) {
+        this.deliver(ws, event.type, serialized);
         continue;
       }
 
-      try {
-        client.send(serialized);
-        this.totalBroadcastDeliveries += 1;
-      } catch (error) {
-        this.totalBroadcastSendFailures += 1;
-        logger.warn('Failed to send host-state stream event', {
-          type: event.type,
-          error: error instanceof Error ? error.message : String(error),
+      client.delivery = client.delivery
+        .then(async () => {
+          if (await this.canViewAny(client.auth, hosts)) {
+            this.deliver(ws, event.type, serialized);
+          }
+        })
+        .catch((error: unknown) => {
+          logger.warn('Failed to check host-state stream event permissions', {
+            type: event.type,
+            subscriber: client.auth.sub,
+            error: error instanceof Error ? error.message : String(error),
+          });
         });
-      }
+    }
+  }
+
+  private async canViewAny(auth: AuthContext, hosts: ReadonlyArray<string | EventHost>): Promise<boolean> {
+    const fqns = hosts.filter((host): host is string => typeof host === 'string');
+    if (fqns.length > 0 && (await this.accessControl.filterByHostFqn(auth, fqns, (fqn) => fqn)).length > 0) {
+      return true;
+    }
+
+    const refs = hosts.filter((host): host is EventHost => typeof host !== 'string');
+    return refs.length > 0 && (await this.accessControl.filterHosts(auth, refs, 'view')).length > 0;
+  }
+
+  private deliver(ws: WebSocket, type: HostStateStreamEventType, serialized: string): void {
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    try {
+      ws.send(serialized);
+      this.totalBroadcastDeliveries += 1;
+    } catch (error) {
+      this.totalBroadcastSendFailures += 1;
+      logger.warn('Failed to send host-state stream event', {
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
@@ -325,4 +439,10 @@ export class HostStateStreamBroker {
   }
 }
 
+function toEventHosts(nodeId: string, fqns: ReadonlyArray<string | undefined>): EventHost[] {
+  return fqns
+    .filter((fqn): fqn is string => !!fqn)
+    .map((fullyQualifiedName) => ({ fullyQualifiedName, nodeId }));
+}
+
 export default HostStateStreamBroker;
@@ -0,0 +1,138 @@
+/**
+ * Caches the signing keys published at an identity provider's JWKS endpoint.
+ *
+ * Keys are refetched when the cache expires and, to pick up rotated keys
+ * early, when a token names an unknown `kid` (at most once per
+ * `minRefreshIntervalMs`).
+ */
+
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import logger from '../utils/logger';
+
+export type AsymmetricJwtAlgorithm = 'RS256' | 'ES256';
+
+export const SUPPORTED_ASYMMETRIC_ALGORITHMS: readonly AsymmetricJwtAlgorithm[] = ['RS256', 'ES256'];
+
+interface CachedKey {
+  kid: string | null;
+  algorithm: AsymmetricJwtAlgorithm;
+  key: KeyObject;
+}
+
+interface JwksKeyStoreOptions {
+  cacheTtlMs: number;
+  minRefreshIntervalMs?: number;
+  fetchTimeoutMs?: number;
+}
+
+const DEFAULT_MIN_REFRESH_INTERVAL_MS = 30_000;
+const DEFAULT_FETCH_TIMEOUT_MS = 5_000;
+
+type JwkEntry = JsonWebKey & { kid?: unknown; alg?: unknown; use?: unknown };
+
+function toAlgorithm(jwk: JwkEntry): AsymmetricJwtAlgorithm | null {
+  if (jwk.kty === 'RSA' && (jwk.alg === undefined || jwk.alg === 'RS256')) {
+    return 'RS256';
+  }
+
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256' && (jwk.alg === undefined || jwk.alg === 'ES256')) {
+    return 'ES256';
+  }
+
+  return null;
+}
+
+export class JwksKeyStore {
+  private keys: CachedKey[] = [];
+  private fetchedAt = 0;
+  private inFlight: Promise<void> | null = null;
+  private readonly minRefreshIntervalMs: number;
+  private readonly fetchTimeoutMs: number;
+
+  constructor(
+    private readonly resolveJwksUri: () => Promise<string>,
+    private readonly options: JwksKeyStoreOptions,
+  ) {
+    this.minRefreshIntervalMs = options.minRefreshIntervalMs ?? DEFAULT_MIN_REFRESH_INTERVAL_MS;
+    this.fetchTimeoutMs = options.fetchTimeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS;
+  }
+
+  /**
+   * Returns the key for `kid`. Tokens without a `kid` match when exactly one
+   * key of the algorithm is published.
+   */
+  async getKey(kid: string | null, algorithm: AsymmetricJwtAlgorithm): Promise<KeyObject> {
+    const now = Date.now();
+    if (this.fetchedAt === 0 || now - this.fetchedAt >= this.options.cacheTtlMs) {
+      await this.refresh();
+    }
+
+    let key = this.findKey(kid, algorithm);
+    if (!key && Date.now() - this.fetchedAt >= this.minRefreshIntervalMs) {
+      await this.refresh();
+      key = this.findKey(kid, algorithm);
+    }
+
+    if (!key) {
+      throw new Error(kid ? `Unknown JWT signing key: ${kid}` : 'No matching JWT signing key');
+    }
+
+    return key;
+  }
+
+  private findKey(kid: string | null, algorithm: AsymmetricJwtAlgorithm): KeyObject | null {
+    const candidates = this.keys.filter((entry) => entry.algorithm === algorithm);
+    if (kid) {
+      return candidates.find((entry) => entry.kid === kid)?.key ?? null;
+    }
+
+    return candidates.length === 1 ? candidates[0].key : null;
+  }
+
+  private refresh(): Promise<void> {
+    this.inFlight ??= this.fetchKeys().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const jwksUri = await this.resolveJwksUri();
+    const response = await fetch(jwksUri, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.fetchTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { keys?: unknown };
+    const entries = Array.isArray(body.keys) ? (body.keys as JwkEntry[]) : [];
+    const keys: CachedKey[] = [];
+    for (const jwk of entries) {
+      const algorithm = toAlgorithm(jwk);
+      if (!algorithm || (jwk.use !== undefined && jwk.use !== 'sig')) {
+        continue;
+      }
+
+      try {
+        keys.push({
+          kid: typeof jwk.kid === 'string' ? jwk.kid : null,
+          algorithm,
+          key: createPublicKey({ key: jwk, format: 'jwk' }),
+        });
+      } catch (error) {
+        logger.warn('Skipping invalid JWKS key', {
+          kid: jwk.kid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    logger.debug('JWKS keys refreshed', { jwksUri, keyCount: keys.length });
+  }
+}
+
+export default JwksKeyStore;
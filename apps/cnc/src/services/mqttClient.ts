@@ -0,0 +1,409 @@
+/**
+ * Minimal MQTT 3.1.1 client for the MQTT bridge plugin.
+ *
+ * Publishes and subscribes at QoS 0 only, supports a last will message,
+ * username/password authentication and `mqtts://` (TLS). The connection is
+ * re-established with a fixed delay until `end()` is called; subscriptions
+ * are restored on every reconnect.
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+export interface MqttClientOptions {
+  /** `mqtt://host[:1883]` or `mqtts://host[:8883]`. */
+  url: string;
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepaliveSeconds?: number;
+  reconnectDelayMs?: number;
+  connectTimeoutMs?: number;
+  will?: { topic: string; payload: string; retain: boolean };
+  /** Test hook, e.g. to trust a self-signed certificate. */
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+export interface MqttPublishOptions {
+  retain?: boolean;
+}
+
+type MessageHandler = (topic: string, payload: Buffer) => void;
+
+const PACKET_CONNECT = 1;
+const PACKET_CONNACK = 2;
+const PACKET_PUBLISH = 3;
+const PACKET_PUBACK = 4;
+const PACKET_SUBSCRIBE = 8;
+const PACKET_PINGREQ = 12;
+const PACKET_DISCONNECT = 14;
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad username or password',
+  5: 'not authorized',
+};
+
+const DEFAULT_KEEPALIVE_SECONDS = 60;
+const DEFAULT_RECONNECT_DELAY_MS = 5_000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 10_000;
+
+export class MqttError extends Error {
+  constructor(
+    message: string,
+    /** CONNACK return code, or null for connection and protocol errors. */
+    readonly returnCode: number | null,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'MqttError';
+  }
+}
+
+function encodeRemainingLength(length: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = length;
+  do {
+    let byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (remaining > 0);
+  return Buffer.from(bytes);
+}
+
+function encodeString(value: string | Buffer): Buffer {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length, 0);
+  return Buffer.concat([length, bytes]);
+}
+
+function encodePacket(type: number, flags: number, body: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([(type << 4) | flags]), encodeRemainingLength(body.length), body]);
+}
+
+/** `+` matches one topic level and a trailing `#` any number of levels. */
+export function mqttTopicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let index = 0; index < filterLevels.length; index += 1) {
+    const level = filterLevels[index];
+    if (level === '#') {
+      return true;
+    }
+    if (index >= topicLevels.length || (level !== '+' && level !== topicLevels[index])) {
+      return false;
+    }
+  }
+
+  return filterLevels.length === topicLevels.length;
+}
+
+export class MqttClient {
+  private readonly options: MqttClientOptions;
+  private readonly subscriptions = new Set<string>();
+  private readonly messageHandlers: MessageHandler[] = [];
+  private readonly connectHandlers: Array<() => void> = [];
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private connected = false;
+  private ended = false;
+  private nextPacketId = 1;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: MqttClientOptions) {
+    this.options = options;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /** Runs after every successful (re)connect, once subscriptions are restored. */
+  onConnect(handler: () => void): void {
+    this.connectHandlers.push(handler);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  /**
+   * Opens the first connection. Later disconnects are retried in the
+   * background; a failed first attempt is retried as well, but still rejects
+   * so the caller can log it.
+   */
+  async connect(): Promise<void> {
+    this.ended = false;
+    try {
+      await this.open();
+    } catch (error) {
+      this.scheduleReconnect();
+      throw error;
+    }
+  }
+
+  /** Dropped while disconnected; QoS 0 gives no delivery guarantee anyway. */
+  publish(topic: string, payload: string | Buffer, options: MqttPublishOptions = {}): boolean {
+    if (!this.socket || !this.connected) {
+      return false;
+    }
+
+    const body = Buffer.concat([encodeString(topic), typeof payload === 'string' ? Buffer.from(payload) : payload]);
+    this.socket.write(encodePacket(PACKET_PUBLISH, options.retain ? 0x01 : 0x00, body));
+    return true;
+  }
+
+  subscribe(filter: string): void {
+    this.subscriptions.add(filter);
+    if (this.socket && this.connected) {
+      this.sendSubscribe([filter]);
+    }
+  }
+
+  async end(): Promise<void> {
+    this.ended = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once('close', () => resolve());
+      if (this.connected) {
+        socket.end(encodePacket(PACKET_DISCONNECT, 0, Buffer.alloc(0)));
+      } else {
+        socket.destroy();
+      }
+    });
+  }
+
+  private open(): Promise<void> {
+    const url = new URL(this.options.url);
+    const secure = url.protocol === 'mqtts:';
+    if (!secure && url.protocol !== 'mqtt:') {
+      return Promise.reject(new MqttError(`Unsupported MQTT URL scheme ${url.protocol}`, null));
+    }
+
+    const host = url.hostname;
+    const port = url.port ? Number(url.port) : secure ? 8883 : 1883;
+
+    return new Promise<void>((resolve, reject) => {
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        if (error) {
+          socket.destroy();
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, ...this.options.tlsOptions })
+        : net.connect({ host, port });
+      const timeout = setTimeout(
+        () => settle(new MqttError('Timed out waiting for the MQTT broker', null)),
+        this.options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS,
+      );
+
+      this.socket = socket;
+      this.buffer = Buffer.alloc(0);
+
+      socket.once(secure ? 'secureConnect' : 'connect', () => socket.write(this.buildConnectPacket()));
+      socket.on('data', (chunk: Buffer) => {
+        try {
+          this.handleData(chunk, settle);
+        } catch (error) {
+          settle(error instanceof Error ? error : new MqttError(String(error), null));
+          socket.destroy();
+        }
+      });
+      socket.on('error', (error) => settle(new MqttError(error.message, null, { cause: error })));
+      socket.on('close', () => {
+        settle(new MqttError('MQTT connection closed before CONNACK', null));
+        this.handleClose(socket);
+      });
+    });
+  }
+
+  private buildConnectPacket(): Buffer {
+    const { clientId, username, password, will } = this.options;
+    // Clean session: subscriptions are restored by the client itself.
+    let flags = 0x02;
+    const payload: Buffer[] = [encodeString(clientId)];
+
+    if (will) {
+      flags |= 0x04 | (will.retain ? 0x20 : 0);
+      payload.push(encodeString(will.topic), encodeString(will.payload));
+    }
+    if (username) {
+      flags |= 0x80;
+      payload.push(encodeString(username));
+      if (password) {
+        flags |= 0x40;
+        payload.push(encodeString(password));
+      }
+    }
+
+    const keepalive = Buffer.alloc(2);
+    keepalive.writeUInt16BE(this.options.keepaliveSeconds ?? DEFAULT_KEEPALIVE_SECONDS, 0);
+    const variableHeader = Buffer.concat([encodeString('MQTT'), Buffer.from([4, flags]), keepalive]);
+    return encodePacket(PACKET_CONNECT, 0, Buffer.concat([variableHeader, ...payload]));
+  }
+
+  private handleData(chunk: Buffer, settleConnect: (error?: Error) => void): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (;;) {
+      if (this.buffer.length < 2) {
+        return;
+      }
+
+      let remainingLength = 0;
+      let multiplier = 1;
+      let offset = 1;
+      let byte: number;
+      do {
+        if (offset >= this.buffer.length) {
+          return;
+        }
+        if (offset > 4) {
+          throw new MqttError('Malformed MQTT remaining length', null);
+        }
+        byte = this.buffer[offset];
+        remainingLength += (byte & 0x7f) * multiplier;
+        multiplier *= 128;
+        offset += 1;
+      } while (byte & 0x80);
+
+      if (this.buffer.length < offset + remainingLength) {
+        return;
+      }
+
+      const header = this.buffer[0];
+      const body = this.buffer.subarray(offset, offset + remainingLength);
+      this.buffer = this.buffer.subarray(offset + remainingLength);
+      this.handlePacket(header >> 4, header & 0x0f, body, settleConnect);
+    }
+  }
+
+  private handlePacket(
+    type: number,
+    flags: number,
+    body: Buffer,
+    settleConnect: (error?: Error) => void,
+  ): void {
+    switch (type) {
+      case PACKET_CONNACK: {
+        const returnCode = body[1] ?? 0;
+        if (returnCode !== 0) {
+          settleConnect(
+            new MqttError(
+              `MQTT broker refused the connection: ${CONNACK_ERRORS[returnCode] ?? `code ${returnCode}`}`,
+              returnCode,
+            ),
+          );
+          return;
+        }
+
+        this.connected = true;
+        this.startPing();
+        if (this.subscriptions.size > 0) {
+          this.sendSubscribe([...this.subscriptions]);
+        }
+        settleConnect();
+        for (const handler of this.connectHandlers) {
+          handler();
+        }
+        return;
+      }
+      case PACKET_PUBLISH: {
+        const topicLength = body.readUInt16BE(0);
+        const topic = body.subarray(2, 2 + topicLength).toString('utf8');
+        const qos = (flags >> 1) & 0x03;
+        let payloadOffset = 2 + topicLength;
+        if (qos > 0) {
+          // Brokers may deliver retained messages at the publisher's QoS; acknowledge QoS 1.
+          const packetId = body.subarray(payloadOffset, payloadOffset + 2);
+          payloadOffset += 2;
+          if (qos === 1) {
+            this.socket?.write(encodePacket(PACKET_PUBACK, 0, packetId));
+          }
+        }
+        const payload = body.subarray(payloadOffset);
+        for (const handler of this.messageHandlers) {
+          handler(topic, payload);
+        }
+        return;
+      }
+      default:
+        // SUBACK and PINGRESP need no handling at QoS 0.
+        return;
+    }
+  }
+
+  private sendSubscribe(filters: string[]): void {
+    const packetId = Buffer.alloc(2);
+    packetId.writeUInt16BE(this.nextPacketId, 0);
+    this.nextPacketId = this.nextPacketId >= 0xffff ? 1 : this.nextPacketId + 1;
+
+    const topics = filters.map((filter) => Buffer.concat([encodeString(filter), Buffer.from([0])]));
+    this.socket?.write(encodePacket(PACKET_SUBSCRIBE, 0x02, Buffer.concat([packetId, ...topics])));
+  }
+
+  private startPing(): void {
+    const keepaliveSeconds = this.options.keepaliveSeconds ?? DEFAULT_KEEPALIVE_SECONDS;
+    if (keepaliveSeconds <= 0) {
+      return;
+    }
+
+    this.pingTimer = setInterval(() => {
+      this.socket?.write(encodePacket(PACKET_PINGREQ, 0, Buffer.alloc(0)));
+    }, (keepaliveSeconds * 1000) / 2);
+    this.pingTimer.unref();
+  }
+
+  private handleClose(socket: net.Socket): void {
+    if (this.socket !== socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.connected = false;
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.ended || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => this.scheduleReconnect());
+    }, this.options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+}
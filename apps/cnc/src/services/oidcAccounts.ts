@@ -0,0 +1,92 @@
+/**
+ * User accounts for identity provider subjects.
+ *
+ * The first login of a subject provisions a user account with the role mapped
+ * from the provider and links the subject to it; later logins reuse the
+ * account. The provider stays authoritative for the role, so a changed group
+ * membership updates the account on the next login. Like any other non-admin
+ * account, the account only reaches the resources granted in the ACL.
+ *
+ * Provisioned accounts get an unusable random password; admins can set one
+ * through `/api/admin/users` if password logins are wanted as well.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import OidcIdentityModel from '../models/OidcIdentity';
+import UserModel from '../models/User';
+import type { UserAccount, UserRole } from '../types';
+import { hashPassword } from '../utils/passwordHash';
+
+export interface OidcIdentity {
+  issuer: string;
+  /** Provider `sub` claim. */
+  subject: string;
+  role: UserRole;
+  /** Username wanted for a new account, usually `preferred_username` or `email`. */
+  usernameHint?: string;
+}
+
+const USERNAME_MAX_LENGTH = 64;
+const USERNAME_SUFFIX_LENGTH = 8;
+
+function toUsernameBase(identity: OidcIdentity): string {
+  const base = (identity.usernameHint ?? '')
+    .replace(/[^A-Za-z0-9._@-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, USERNAME_MAX_LENGTH - USERNAME_SUFFIX_LENGTH - 1);
+  return base.length >= 3 ? base : 'oidc';
+}
+
+/** Picks the hinted username, or makes it unique with a suffix derived from the subject. */
+async function pickUsername(identity: OidcIdentity): Promise<string> {
+  const base = toUsernameBase(identity);
+  if (base !== 'oidc' && !(await UserModel.findByUsername(base))) {
+    return base;
+  }
+
+  const suffix = createHash('sha256')
+    .update(`${identity.issuer}\n${identity.subject}`, 'utf8')
+    .digest('hex')
+    .slice(0, USERNAME_SUFFIX_LENGTH);
+  return `${base}-${suffix}`;
+}
+
+async function provisionAccount(identity: OidcIdentity): Promise<UserAccount> {
+  const user = await UserModel.create({
+    username: await pickUsername(identity),
+    passwordHash: await hashPassword(randomBytes(32).toString('base64url')),
+    role: identity.role,
+  });
+
+  const linkedUserId = await OidcIdentityModel.link(identity.issuer, identity.subject, user.id);
+  if (linkedUserId === user.id) {
+    return user;
+  }
+
+  // A concurrent login of the same subject linked its account first.
+  await UserModel.delete(user.id);
+  const linked = await UserModel.findById(linkedUserId);
+  if (!linked) {
+    throw new Error(`Linked user account ${linkedUserId} no longer exists`);
+  }
+
+  return linked;
+}
+
+/**
+ * Returns the user account linked to the subject, provisioning it on first
+ * login. Disabled accounts are returned unchanged; callers must refuse them.
+ */
+export async function resolveOidcAccount(identity: OidcIdentity): Promise<UserAccount> {
+  const userId = await OidcIdentityModel.findUserId(identity.issuer, identity.subject);
+  const user = userId ? await UserModel.findById(userId) : null;
+  if (!user) {
+    return provisionAccount(identity);
+  }
+
+  if (user.disabled || user.role === identity.role) {
+    return user;
+  }
+
+  return (await UserModel.update(user.id, { role: identity.role })) ?? user;
+}
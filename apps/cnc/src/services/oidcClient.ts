@@ -0,0 +1,319 @@
+/**
+ * OIDC relying party for an external identity provider.
+ *
+ * - Mobile apps run the authorization code flow with PKCE against the
+ *   provider and exchange the code here for a C&C JWT.
+ * - Scripts use the client credentials grant and send the provider's
+ *   access token as the bearer token; `verify` checks it against the JWKS.
+ *   Access tokens must be issued for one of `audiences`, which never include
+ *   the client id, so an ID token cannot be replayed as a bearer token.
+ *
+ * Provider claims are mapped to C&C roles through `roleClaim` and the
+ * configured admin/operator group lists. Identities matching neither get no
+ * role and are refused. Accepted identities are linked to a user account
+ * (see `oidcAccounts`), so resource grants apply to them like to any login.
+ */
+
+import { verify as verifySignature } from 'crypto';
+import type { OidcCodeExchangeRequest, OidcConfigResponse } from '@kaonis/woly-protocol';
+import type { UserRole } from '../types';
+import type { AuthContext, JwtPayload } from '../types/auth';
+import { JwksKeyStore, SUPPORTED_ASYMMETRIC_ALGORITHMS, type AsymmetricJwtAlgorithm } from './jwksKeyStore';
+import { resolveOidcAccount, type OidcIdentity } from './oidcAccounts';
+
+export interface OidcClientOptions {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  /**
+   * Accepted `aud` values for bearer access tokens. Must not contain the client
+   * id; when empty, provider access tokens are refused.
+   */
+  audiences: string[];
+  jwksUri?: string;
+  scopes: string[];
+  /** Claim holding the provider groups or roles; dots select nested claims. */
+  roleClaim: string;
+  adminGroups: string[];
+  operatorGroups: string[];
+  jwksCacheTtlSeconds: number;
+  clockToleranceSeconds?: number;
+  requestTimeoutMs?: number;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export type OidcCodeExchangeResult =
+  | { status: 'authenticated'; identity: OidcIdentity }
+  | { status: 'rejected'; reason: string };
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+const DEFAULT_REQUEST_TIMEOUT_MS = 5_000;
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+function readClaim(payload: JwtPayload, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, payload);
+}
+
+function toClaimValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === 'string');
+  }
+
+  return typeof value === 'string' ? value.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+function toAudiences(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+export class OidcClient {
+  private discovery: Promise<DiscoveryDocument> | null = null;
+  private readonly keyStore: JwksKeyStore;
+  private readonly clockToleranceSeconds: number;
+  private readonly requestTimeoutMs: number;
+
+  constructor(private readonly options: OidcClientOptions) {
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    if (options.audiences.includes(options.clientId)) {
+      throw new Error('OIDC access token audiences must not include the client id');
+    }
+    this.keyStore = new JwksKeyStore(
+      async () => options.jwksUri || (await this.getDiscovery()).jwks_uri,
+      { cacheTtlMs: options.jwksCacheTtlSeconds * 1000, fetchTimeoutMs: this.requestTimeoutMs },
+    );
+  }
+
+  supportsAlgorithm(algorithm: string): boolean {
+    return SUPPORTED_ASYMMETRIC_ALGORITHMS.includes(algorithm as AsymmetricJwtAlgorithm);
+  }
+
+  async getPublicConfig(): Promise<OidcConfigResponse> {
+    const discovery = await this.getDiscovery();
+    return {
+      issuer: this.options.issuer,
+      clientId: this.options.clientId,
+      authorizationEndpoint: discovery.authorization_endpoint,
+      scopes: this.options.scopes,
+      codeChallengeMethod: 'S256',
+    };
+  }
+
+  /** Maps provider groups to the strongest C&C role, or null when none match. */
+  mapRole(payload: JwtPayload): UserRole | null {
+    const values = new Set(toClaimValues(readClaim(payload, this.options.roleClaim)));
+    if (this.options.adminGroups.some((group) => values.has(group))) {
+      return 'admin';
+    }
+
+    if (this.options.operatorGroups.some((group) => values.has(group))) {
+      return 'operator';
+    }
+
+    return null;
+  }
+
+  /**
+   * Verifies a provider-issued bearer access token (client credentials grant)
+   * and resolves the user account linked to its subject.
+   */
+  async verify(token: string): Promise<AuthContext> {
+    if (this.options.audiences.length === 0) {
+      throw new Error('OIDC access tokens are not accepted');
+    }
+
+    const payload = await this.verifySignedToken(token);
+    if (!toAudiences(payload.aud).some((audience) => this.options.audiences.includes(audience))) {
+      throw new Error('Invalid JWT audience');
+    }
+
+    const identity = this.toIdentity(payload);
+    const user = await resolveOidcAccount(identity);
+    return {
+      // Prefixed so provider subjects cannot collide with user account ids.
+      sub: `oidc:${identity.subject}`,
+      roles: [user.role],
+      userId: user.id,
+      claims: payload,
+    };
+  }
+
+  /**
+   * Redeems an authorization code at the provider and verifies the returned ID
+   * token. Linking the identity to a user account is left to the caller.
+   */
+  async exchangeAuthorizationCode(request: OidcCodeExchangeRequest): Promise<OidcCodeExchangeResult> {
+    const discovery = await this.getDiscovery();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: request.code,
+      redirect_uri: request.redirectUri,
+      code_verifier: request.codeVerifier,
+      client_id: this.options.clientId,
+    });
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (this.options.clientSecret) {
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials, 'utf8').toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
+    });
+    if (response.status === 400 || response.status === 401) {
+      return { status: 'rejected', reason: 'Authorization code was rejected by the identity provider' };
+    }
+    if (!response.ok) {
+      throw new Error(`OIDC token request failed with status ${response.status}`);
+    }
+
+    const tokens = (await response.json()) as { id_token?: unknown };
+    if (typeof tokens.id_token !== 'string') {
+      return { status: 'rejected', reason: 'Identity provider did not return an ID token' };
+    }
+
+    try {
+      const payload = await this.verifyIdToken(tokens.id_token, request.nonce);
+      return { status: 'authenticated', identity: this.toIdentity(payload) };
+    } catch (error) {
+      return { status: 'rejected', reason: error instanceof Error ? error.message : 'Invalid ID token' };
+    }
+  }
+
+  private async verifyIdToken(token: string, nonce?: string): Promise<JwtPayload> {
+    const payload = await this.verifySignedToken(token);
+    const audiences = toAudiences(payload.aud);
+    if (!audiences.includes(this.options.clientId)) {
+      throw new Error('Invalid ID token audience');
+    }
+
+    if (audiences.length > 1 && payload.azp !== this.options.clientId) {
+      throw new Error('Invalid ID token authorized party');
+    }
+
+    if (nonce !== undefined && payload.nonce !== nonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+
+    return payload;
+  }
+
+  /** Checks the signature, issuer and validity window; audience checks are left to callers. */
+  private async verifySignedToken(token: string): Promise<JwtPayload> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Malformed JWT');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment<{ alg?: unknown; kid?: unknown }>(encodedHeader);
+    if (typeof header.alg !== 'string' || !this.supportsAlgorithm(header.alg)) {
+      throw new Error('Unsupported JWT algorithm');
+    }
+
+    const algorithm = header.alg as AsymmetricJwtAlgorithm;
+    const key = await this.keyStore.getKey(typeof header.kid === 'string' ? header.kid : null, algorithm);
+    const valid = verifySignature(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`, 'utf8'),
+      algorithm === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      Buffer.from(encodedSignature, 'base64url'),
+    );
+    if (!valid) {
+      throw new Error('Invalid JWT signature');
+    }
+
+    const payload = decodeSegment<JwtPayload>(encodedPayload);
+    const nowSec = Math.floor(Date.now() / 1000);
+    if (payload.iss !== this.options.issuer) {
+      throw new Error('Invalid JWT issuer');
+    }
+
+    if (typeof payload.exp !== 'number' || nowSec - this.clockToleranceSeconds >= payload.exp) {
+      throw new Error('JWT expired');
+    }
+
+    if (typeof payload.nbf === 'number' && nowSec + this.clockToleranceSeconds < payload.nbf) {
+      throw new Error('JWT not active yet');
+    }
+
+    return payload;
+  }
+
+  private toIdentity(payload: JwtPayload): OidcIdentity {
+    if (typeof payload.sub !== 'string' || payload.sub.trim().length === 0) {
+      throw new Error('Token subject is required');
+    }
+
+    const role = this.mapRole(payload);
+    if (!role) {
+      throw new Error('Identity is not mapped to a C&C role');
+    }
+
+    const usernameHint = [payload.preferred_username, payload.email].find(
+      (value): value is string => typeof value === 'string' && value.trim().length > 0,
+    );
+    return {
+      issuer: this.options.issuer,
+      subject: payload.sub,
+      role,
+      ...(usernameHint ? { usernameHint } : {}),
+    };
+  }
+
+  private getDiscovery(): Promise<DiscoveryDocument> {
+    this.discovery ??= this.fetchDiscovery().catch((error: unknown) => {
+      this.discovery = null;
+      throw error;
+    });
+    return this.discovery;
+  }
+
+  private async fetchDiscovery(): Promise<DiscoveryDocument> {
+    const response = await fetch(`${this.options.issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed with status ${response.status}`);
+    }
+
+    const document = (await response.json()) as Partial<DiscoveryDocument>;
+    if (
+      document.issuer !== this.options.issuer ||
+      typeof document.authorization_endpoint !== 'string' ||
+      typeof document.token_endpoint !== 'string' ||
+      typeof document.jwks_uri !== 'string'
+    ) {
+      throw new Error('Invalid OIDC discovery document');
+    }
+
+    return document as DiscoveryDocument;
+  }
+}
+
+export default OidcClient;
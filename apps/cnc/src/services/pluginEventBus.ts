@@ -36,7 +36,16 @@ export class PluginEventBus {
 
     for (const handler of typedHandlers) {
       try {
-        handler(event as CncPluginEventMap[CncPluginEventType]);
+        // Async handlers are allowed; their rejections are logged like thrown errors.
+        const result: unknown = handler(event as CncPluginEventMap[CncPluginEventType]);
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => {
+            logger.error('Plugin event handler failed', {
+              eventType: event.type,
+              error,
+            });
+          });
+        }
       } catch (error) {
         logger.error('Plugin event handler failed', {
           eventType: event.type,
@@ -0,0 +1,299 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import express, { Router } from 'express';
+import request from 'supertest';
+import { PluginEventBus } from '../../pluginEventBus';
+import { EntitiesPlugin, toEntityId } from '../entitiesPlugin';
+import type { AggregatedHost, ResourcePermission } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+// The v1 entity layout is a public contract for home-automation clients.
+// Golden files are reviewed like code; regenerate after an intended change with
+// `UPDATE_GOLDEN=1 npx jest entitiesPlugin` and check the diff. Breaking changes
+// need a new contract version instead.
+const GOLDEN_DIR = path.join(__dirname, '__golden__', 'entitiesV1');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+function expectGolden(name: string, actual: unknown): void {
+  const file = path.join(GOLDEN_DIR, `${name}.json`);
+  const serialized = `${JSON.stringify(actual, null, 2)}\n`;
+  if (UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(file, serialized);
+  }
+  expect(serialized).toBe(readFileSync(file, 'utf8'));
+}
+
+function makeHost(overrides: Partial<AggregatedHost> = {}): AggregatedHost {
+  return {
+    name: 'office-pc',
+    mac: 'AA:BB:CC:DD:EE:FF',
+    ip: '192.168.1.20',
+    status: 'asleep',
+    lastSeen: '2026-02-18T19:55:00.000Z',
+    discovered: 1,
+    tags: ['desk'],
+    nodeId: 'node-1',
+    location: 'Home Lab',
+    fullyQualifiedName: 'office-pc@Home%20Lab-node-1',
+    createdAt: new Date('2026-02-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-02-18T20:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+/** Collects server-sent events from a live stream. */
+function openEventStream(url: string): Promise<{
+  response: http.IncomingMessage;
+  events: Array<{ event: string; data: unknown }>;
+  close: () => void;
+}> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(url, (response) => {
+      const events: Array<{ event: string; data: unknown }> = [];
+      let buffer = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        buffer += chunk;
+        let index = buffer.indexOf('\n\n');
+        while (index >= 0) {
+          const block = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          index = buffer.indexOf('\n\n');
+          const event = /^event: (.+)$/m.exec(block)?.[1];
+          const data = /^data: (.+)$/m.exec(block)?.[1];
+          if (event && data) {
+            events.push({ event, data: JSON.parse(data) });
+          }
+        }
+      });
+      resolve({ response, events, close: () => req.destroy() });
+    });
+    req.on('error', reject);
+  });
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('EntitiesPlugin', () => {
+  let eventBus: PluginEventBus;
+  let plugin: EntitiesPlugin;
+  let app: express.Express;
+  let inventory: AggregatedHost[];
+  const hosts = { list: jest.fn(), get: jest.fn() };
+  const commands = {
+    wake: jest.fn(),
+    sleep: jest.fn(),
+    shutdown: jest.fn(),
+    ping: jest.fn(),
+    scan: jest.fn(),
+  };
+  /** Permissions of the caller per host FQN; null means an unscoped caller. */
+  let grants: Map<string, ResourcePermission> | null;
+  const access = {
+    filterHosts: jest.fn(async (_req: unknown, candidates: readonly AggregatedHost[], permission: ResourcePermission) =>
+      candidates.filter((host) => {
+        const granted = grants ? grants.get(host.fullyQualifiedName) : 'owner';
+        return granted === permission || granted === 'owner' || (granted === 'operate' && permission === 'view');
+      }),
+    ),
+    audit: jest.fn(),
+    record: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    grants = null;
+    inventory = [
+      makeHost(),
+      makeHost({
+        name: 'nas',
+        mac: '11:22:33:44:55:66',
+        ip: '192.168.1.30',
+        status: 'awake',
+        lastSeen: '2026-02-18T20:00:00.000Z',
+        tags: undefined,
+        fullyQualifiedName: 'nas@Home%20Lab-node-1',
+      }),
+    ];
+    hosts.list.mockImplementation(async () => inventory);
+    hosts.get.mockImplementation(
+      async (fqn: string) => inventory.find((host) => host.fullyQualifiedName === fqn) ?? null,
+    );
+
+    eventBus = new PluginEventBus();
+    plugin = new EntitiesPlugin();
+    const router = Router();
+    plugin.init({ eventBus, hosts, commands, access, router });
+    app = express();
+    app.use(router);
+  });
+
+  afterEach(() => {
+    plugin.destroy();
+  });
+
+  it('derives entity ids from host FQNs', () => {
+    expect(toEntityId('office-pc@Home%20Lab-node-1')).toBe('switch.woly_office-pc_home_20lab-node-1');
+  });
+
+  describe('v1 contract', () => {
+    it('lists entities', async () => {
+      const response = await request(app).get('/v1/entities').expect(200);
+
+      expectGolden('entities', response.body);
+    });
+
+    it('returns a single entity with the last observed state change', async () => {
+      inventory[0] = makeHost({ status: 'awake', updatedAt: new Date('2026-02-18T20:05:00.000Z') });
+      eventBus.publish({
+        type: 'host.status-transition',
+        timestamp: '2026-02-18T20:04:00.000Z',
+        data: {
+          hostFqn: 'office-pc@Home%20Lab-node-1',
+          oldStatus: 'asleep',
+          newStatus: 'awake',
+          changedAt: '2026-02-18T20:04:00.000Z',
+        },
+      });
+
+      const response = await request(app).get('/v1/entities/switch.woly_office-pc_home_20lab-node-1').expect(200);
+
+      expectGolden('entity', response.body);
+    });
+
+    it('answers unknown entities with 404', async () => {
+      const response = await request(app).get('/v1/entities/switch.woly_missing').expect(404);
+
+      expectGolden('not-found', response.body);
+    });
+  });
+
+  it('turns entities on and off through host commands', async () => {
+    commands.wake.mockResolvedValue({ success: true, message: 'Wake-on-LAN packet sent', nodeId: 'node-1' });
+    commands.shutdown.mockRejectedValue(new Error('Node node-1 is offline'));
+
+    await request(app)
+      .post('/v1/entities/switch.woly_office-pc_home_20lab-node-1/turn_on')
+      .expect(200, { success: true, message: 'Wake-on-LAN packet sent' });
+    expect(commands.wake).toHaveBeenCalledWith('office-pc@Home%20Lab-node-1');
+
+    await request(app)
+      .post('/v1/entities/switch.woly_office-pc_home_20lab-node-1/turn_off')
+      .expect(503, { error: 'Service Unavailable', message: 'Node node-1 is offline' });
+  });
+
+  it('audits entity commands as host wakes and shutdowns', async () => {
+    commands.wake.mockResolvedValue({ success: true, message: 'Wake-on-LAN packet sent', nodeId: 'node-1' });
+    commands.shutdown.mockResolvedValue({ success: true, message: 'Shutdown requested', nodeId: 'node-1' });
+
+    await request(app).post('/v1/entities/switch.woly_office-pc_home_20lab-node-1/turn_on').expect(200);
+    await request(app).post('/v1/entities/switch.woly_nas_home_20lab-node-1/turn_off').expect(200);
+
+    expect(access.audit).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'host.wake', {
+      targetFqn: 'office-pc@Home%20Lab-node-1',
+    });
+    expect(access.audit).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'host.shutdown', {
+      targetFqn: 'nas@Home%20Lab-node-1',
+    });
+  });
+
+  it('limits scoped callers to the hosts granted to them', async () => {
+    grants = new Map<string, ResourcePermission>([['office-pc@Home%20Lab-node-1', 'view']]);
+
+    const list = await request(app).get('/v1/entities').expect(200);
+    expect(list.body.entities.map((entity: { entity_id: string }) => entity.entity_id)).toEqual([
+      'switch.woly_office-pc_home_20lab-node-1',
+    ]);
+    await request(app).get('/v1/entities/switch.woly_nas_home_20lab-node-1').expect(404);
+    await request(app).post('/v1/entities/switch.woly_nas_home_20lab-node-1/turn_on').expect(404);
+    await request(app).post('/v1/entities/switch.woly_office-pc_home_20lab-node-1/turn_off').expect(403, {
+      error: 'Forbidden',
+      message: 'Requires operate permission on host office-pc@Home%20Lab-node-1',
+      code: 'AUTH_FORBIDDEN',
+    });
+    expect(commands.wake).not.toHaveBeenCalled();
+    expect(commands.shutdown).not.toHaveBeenCalled();
+    expect(access.audit).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams state changes for one entity over server-sent events', async () => {
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const stream = await openEventStream(
+        `http://127.0.0.1:${port}/v1/entities/switch.woly_office-pc_home_20lab-node-1/stream`,
+      );
+      expect(stream.response.headers['content-type']).toBe('text/event-stream');
+      await waitFor(() => stream.events.length === 1);
+      expect(stream.events[0]).toMatchObject({ event: 'state', data: { state: 'off' } });
+
+      inventory[0] = makeHost({ status: 'awake' });
+      eventBus.publish({
+        type: 'host.status-transition',
+        timestamp: '2026-02-18T20:04:00.000Z',
+        data: {
+          hostFqn: 'office-pc@Home%20Lab-node-1',
+          oldStatus: 'asleep',
+          newStatus: 'awake',
+          changedAt: '2026-02-18T20:04:00.000Z',
+        },
+      });
+      // Other entities do not reach this stream.
+      eventBus.publish({
+        type: 'host.status-transition',
+        timestamp: '2026-02-18T20:04:00.000Z',
+        data: {
+          hostFqn: 'nas@Home%20Lab-node-1',
+          oldStatus: 'awake',
+          newStatus: 'asleep',
+          changedAt: '2026-02-18T20:04:00.000Z',
+        },
+      });
+
+      await waitFor(() => stream.events.length === 2);
+      expect(stream.events[1]).toMatchObject({
+        event: 'state',
+        data: { state: 'on', last_changed: '2026-02-18T20:04:00.000Z' },
+      });
+
+      inventory.shift();
+      eventBus.publish({
+        type: 'host.removed',
+        timestamp: '2026-02-18T20:06:00.000Z',
+        data: { nodeId: 'node-1', name: 'office-pc' },
+      });
+      await waitFor(() => stream.events.length === 3);
+      expect(stream.events[2]).toEqual({
+        event: 'removed',
+        data: { entity_id: 'switch.woly_office-pc_home_20lab-node-1' },
+      });
+      await waitFor(() => stream.response.complete);
+      stream.close();
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,254 @@
+import { PluginEventBus } from '../../pluginEventBus';
+import { FakeMqttBroker, waitFor } from '../../__tests__/fakeMqttBroker';
+import { MqttBridgePlugin } from '../mqttBridgePlugin';
+import { toObjectId } from '../objectId';
+import type { AggregatedHost } from '../../../types';
+
+jest.mock('../../../config', () => ({
+  __esModule: true,
+  default: {
+    mqttBrokerUrl: '',
+    mqttUsername: '',
+    mqttPassword: '',
+    mqttClientId: 'woly-cnc',
+    mqttTopicPrefix: 'woly',
+    mqttDiscoveryEnabled: true,
+    mqttDiscoveryPrefix: 'homeassistant',
+  },
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const desktop: AggregatedHost = {
+  name: 'desktop',
+  mac: 'AA:BB:CC:DD:EE:FF',
+  ip: '192.168.1.10',
+  status: 'asleep',
+  lastSeen: '2026-02-18T20:00:00.000Z',
+  discovered: 1,
+  nodeId: 'home-node',
+  location: 'home',
+  fullyQualifiedName: 'desktop@home',
+  createdAt: new Date('2026-02-18T20:00:00.000Z'),
+  updatedAt: new Date('2026-02-18T20:00:00.000Z'),
+};
+
+describe('toObjectId', () => {
+  it('replaces characters that are not valid in topics or object ids', () => {
+    expect(toObjectId('Desktop@Home Office')).toBe('desktop_home_office');
+    expect(toObjectId('nas/+#')).toBe('nas');
+  });
+});
+
+describe('MqttBridgePlugin', () => {
+  const broker = new FakeMqttBroker();
+  const config = require('../../../config').default as { mqttBrokerUrl: string; mqttDiscoveryEnabled: boolean };
+  let plugin: MqttBridgePlugin;
+  let eventBus: PluginEventBus;
+  const hosts = { list: jest.fn(), get: jest.fn() };
+  const commands = {
+    wake: jest.fn(),
+    sleep: jest.fn(),
+    shutdown: jest.fn(),
+    ping: jest.fn(),
+    scan: jest.fn(),
+  };
+  const access = { filterHosts: jest.fn(), audit: jest.fn(), record: jest.fn() };
+
+  const publishedTo = (topic: string) => broker.published.filter((message) => message.topic === topic);
+
+  beforeAll(async () => {
+    await broker.start();
+  });
+
+  afterAll(async () => {
+    await broker.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    broker.reset();
+    config.mqttBrokerUrl = broker.url;
+    config.mqttDiscoveryEnabled = true;
+    hosts.list.mockResolvedValue([desktop]);
+    hosts.get.mockResolvedValue(desktop);
+    eventBus = new PluginEventBus();
+    plugin = new MqttBridgePlugin();
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+  });
+
+  it('announces availability and Home Assistant discovery configs for every host on connect', async () => {
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.has('woly/hosts/desktop_home/attributes'));
+
+    expect(broker.retained.get('woly/status')?.payload).toBe('online');
+    expect(broker.retained.get('woly/hosts/desktop_home/state')?.payload).toBe('asleep');
+
+    const switchConfig = JSON.parse(broker.retained.get('homeassistant/switch/woly/desktop_home/config')!.payload);
+    expect(switchConfig).toMatchObject({
+      unique_id: 'woly_desktop_home_power',
+      command_topic: 'woly/hosts/desktop_home/set',
+      state_topic: 'woly/hosts/desktop_home/state',
+      payload_on: 'wake',
+      payload_off: 'shutdown',
+      state_on: 'awake',
+      state_off: 'asleep',
+      availability_topic: 'woly/status',
+      device: { identifiers: ['woly_desktop_home'], name: 'desktop', connections: [['mac', 'aa:bb:cc:dd:ee:ff']] },
+    });
+    const sensorConfig = JSON.parse(
+      broker.retained.get('homeassistant/binary_sensor/woly/desktop_home/config')!.payload,
+    );
+    expect(sensorConfig).toMatchObject({
+      unique_id: 'woly_desktop_home_awake',
+      state_topic: 'woly/hosts/desktop_home/state',
+      device_class: 'power',
+    });
+  });
+
+  it('skips discovery configs when discovery is disabled', async () => {
+    config.mqttDiscoveryEnabled = false;
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.has('woly/hosts/desktop_home/attributes'));
+
+    expect([...broker.retained.keys()].some((topic) => topic.startsWith('homeassistant/'))).toBe(false);
+  });
+
+  it('publishes host transitions, discoveries and node connections', async () => {
+    hosts.list.mockResolvedValue([]);
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.has('woly/status'));
+
+    eventBus.publish({
+      type: 'host.discovered',
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: { nodeId: 'home-node', hostFqn: 'desktop@home', host: desktop },
+    });
+    await waitFor(() => broker.retained.has('homeassistant/switch/woly/desktop_home/config'));
+    expect(hosts.get).toHaveBeenCalledWith('desktop@home');
+
+    eventBus.publish({
+      type: 'host.status-transition',
+      timestamp: '2026-02-18T20:01:00.000Z',
+      data: {
+        hostFqn: 'desktop@home',
+        oldStatus: 'asleep',
+        newStatus: 'awake',
+        changedAt: '2026-02-18T20:01:00.000Z',
+      },
+    });
+    eventBus.publish({
+      type: 'node.connected',
+      timestamp: '2026-02-18T20:01:00.000Z',
+      data: { nodeId: 'home-node' },
+    });
+
+    await waitFor(() => broker.retained.get('woly/nodes/home-node/state')?.payload === 'online');
+    await waitFor(() => broker.retained.get('woly/hosts/desktop_home/state')?.payload === 'awake');
+  });
+
+  it('clears retained topics when a host is removed', async () => {
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.has('homeassistant/switch/woly/desktop_home/config'));
+
+    eventBus.publish({
+      type: 'host.removed',
+      timestamp: '2026-02-18T20:01:00.000Z',
+      data: { nodeId: 'home-node', name: 'desktop' },
+    });
+
+    await waitFor(() => !broker.retained.has('homeassistant/switch/woly/desktop_home/config'));
+    expect(broker.retained.has('woly/hosts/desktop_home/state')).toBe(false);
+  });
+
+  it('routes command topics to host commands and publishes the result', async () => {
+    commands.wake.mockResolvedValue({ success: true, message: 'Wake-on-LAN packet sent' });
+    commands.shutdown.mockRejectedValue(new Error('Node home-node is offline'));
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.has('woly/hosts/desktop_home/state'));
+
+    broker.publish('woly/hosts/desktop_home/set', 'WAKE');
+    await waitFor(() => publishedTo('woly/hosts/desktop_home/result').length === 1);
+    expect(commands.wake).toHaveBeenCalledWith('desktop@home');
+    expect(JSON.parse(publishedTo('woly/hosts/desktop_home/result')[0].payload)).toEqual({
+      command: 'wake',
+      success: true,
+      message: 'Wake-on-LAN packet sent',
+    });
+
+    broker.publish('woly/hosts/desktop_home/set', 'shutdown');
+    await waitFor(() => publishedTo('woly/hosts/desktop_home/result').length === 2);
+    expect(JSON.parse(publishedTo('woly/hosts/desktop_home/result')[1].payload)).toEqual({
+      command: 'shutdown',
+      success: false,
+      message: 'Node home-node is offline',
+    });
+
+    broker.publish('woly/hosts/desktop_home/set', 'reboot');
+    broker.publish('woly/hosts/unknown/set', 'wake');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(commands.wake).toHaveBeenCalledTimes(1);
+ 
+    await waitFor(() => access.record.mock.calls.length === 3);
+    expect(access.record.mock.calls).toEqual([
+      [
+        'host.wake',
+        'success',
+        {
+          targetFqn: 'desktop@home',
+          targetNodeId: 'home-node',
+          details: { topic: 'woly/hosts/desktop_home/set', message: 'Wake-on-LAN packet sent' },
+        },
+      ],
+      [
+        'host.shutdown',
+        'failure',
+        {
+          targetFqn: 'desktop@home',
+          targetNodeId: 'home-node',
+          details: { topic: 'woly/hosts/desktop_home/set', message: 'Node home-node is offline' },
+        },
+      ],
+      ['host.wake', 'failure', { details: { topic: 'woly/hosts/unknown/set', message: 'Unknown host' } }],
+    ]);
+  });
+
+  it('re-sends discovery configs when Home Assistant comes online', async () => {
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.has('woly/hosts/desktop_home/attributes'));
+    expect(hosts.list).toHaveBeenCalledTimes(1);
+
+    broker.publish('homeassistant/status', 'online');
+
+    await waitFor(() => hosts.list.mock.calls.length === 2);
+  });
+
+  it('publishes offline availability on destroy', async () => {
+    await plugin.init({ eventBus, hosts, commands, access });
+    await waitFor(() => broker.retained.get('woly/status')?.payload === 'online');
+
+    await plugin.destroy();
+
+    await waitFor(() => broker.retained.get('woly/status')?.payload === 'offline');
+  });
+
+  it('stays inactive without a broker URL', async () => {
+    config.mqttBrokerUrl = '';
+
+    await plugin.init({ eventBus, hosts, commands, access });
+
+    expect(broker.connects).toHaveLength(0);
+    expect(hosts.list).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,13 @@
-import { PluginManager } from '../pluginManager';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import { PluginManager, type PluginServices } from '../pluginManager';
+import type { PluginContext, WolyPlugin } from '../types';
 import { PluginEventBus } from '../../pluginEventBus';
+import AuditLogModel from '../../../models/AuditLog';
+import PluginStorageModel from '../../../models/PluginStorage';
 import logger from '../../../utils/logger';
 
 jest.mock('../../../utils/logger', () => ({
@@ -12,6 +20,32 @@ jest.mock('../../../utils/logger', () => ({
   },
 }));
 
+jest.mock('../../../models/AuditLog', () => ({
+  __esModule: true,
+  default: {
+    append: jest.fn(),
+  },
+}));
+
+jest.mock('../../../models/PluginStorage', () => ({
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+    keys: jest.fn(),
+  },
+}));
+
+function contextCapturingPlugin(name: string, onInit?: (context: PluginContext) => void): WolyPlugin {
+  return {
+    name,
+    version: '1.0.0',
+    init: (context) => onInit?.(context),
+    destroy: jest.fn(),
+  };
+}
+
 describe('PluginManager', () => {
   const mockedLogger = logger as jest.Mocked<typeof logger>;
 
@@ -79,4 +113,184 @@ describe('PluginManager', () => {
     expect(manager.getActivePluginNames()).toEqual(['push-notifications']);
     await manager.shutdown();
   });
+
+  it('exposes config, storage and core services through the v1 context', async () => {
+    let captured: PluginContext | undefined;
+    const services = {
+      hostAggregator: { getHostByFQN: jest.fn().mockResolvedValue({ name: 'desktop' }) },
+      commandRouter: { routeWakeCommand: jest.fn().mockResolvedValue({ success: true }) },
+    } as unknown as PluginServices;
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'woly-plugin-config-'));
+    const configFile = path.join(tempDir, 'plugins.json');
+    await writeFile(configFile, JSON.stringify({ probe: { interval: 60 } }));
+
+    try {
+      const manager = new PluginManager({
+        eventBus: new PluginEventBus(),
+        enabledPlugins: ['probe'],
+        pluginFactories: { probe: () => contextCapturingPlugin('probe', (context) => (captured = context)) },
+        pluginConfigFile: configFile,
+        services,
+      });
+      await manager.start();
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+
+    expect(captured?.apiVersion).toBe(1);
+    expect(captured?.config).toEqual({ interval: 60 });
+    await expect(captured?.hosts.get('desktop@home')).resolves.toEqual({ name: 'desktop' });
+    await expect(captured?.commands.wake('desktop@home')).resolves.toEqual({ success: true });
+    expect(services.commandRouter.routeWakeCommand).toHaveBeenCalledWith('desktop@home');
+
+    await captured?.storage.set('cursor', { offset: 3 });
+    expect(PluginStorageModel.set).toHaveBeenCalledWith('probe', 'cursor', { offset: 3 });
+ 
+    await captured?.access.record('host.wake', 'success', { targetFqn: 'desktop@home' });
+    expect(AuditLogModel.append).toHaveBeenCalledWith(
+      expect.objectContaining({ actor: 'plugin:probe', action: 'host.wake', outcome: 'success', targetFqn: 'desktop@home' }),
+    );
+  });
+
+  it('rejects core service calls when no services were provided', async () => {
+    let captured: PluginContext | undefined;
+    const manager = new PluginManager({
+      eventBus: new PluginEventBus(),
+      enabledPlugins: ['probe'],
+      pluginFactories: { probe: () => contextCapturingPlugin('probe', (context) => (captured = context)) },
+    });
+    await manager.start();
+
+    await expect(captured?.hosts.list()).rejects.toThrow('Core services are not available');
+  });
+
+  it('isolates plugins whose init throws or never finishes', async () => {
+    const failingDestroy = jest.fn();
+    const manager = new PluginManager({
+      eventBus: new PluginEventBus(),
+      enabledPlugins: ['failing', 'hanging', 'healthy'],
+      initTimeoutMs: 20,
+      pluginFactories: {
+        failing: () => ({
+          name: 'failing',
+          version: '1.0.0',
+          init: () => {
+            throw new Error('init boom');
+          },
+          destroy: failingDestroy,
+        }),
+        hanging: () => ({
+          name: 'hanging',
+          version: '1.0.0',
+          init: () => new Promise<void>(() => undefined),
+          destroy: jest.fn(),
+        }),
+        healthy: () => contextCapturingPlugin('healthy'),
+      },
+    });
+
+    await manager.start();
+
+    expect(manager.getActivePluginNames()).toEqual(['healthy']);
+    expect(failingDestroy).toHaveBeenCalledTimes(1);
+    expect(mockedLogger.error).toHaveBeenCalledWith(
+      'Failed to start CNC plugin',
+      expect.objectContaining({ pluginId: 'hanging' }),
+    );
+  });
+
+  it('rejects invalid and duplicate plugin names', async () => {
+    const manager = new PluginManager({
+      eventBus: new PluginEventBus(),
+      enabledPlugins: ['first', 'second', 'third'],
+      pluginFactories: {
+        first: () => contextCapturingPlugin('shared'),
+        second: () => contextCapturingPlugin('shared'),
+        third: () => contextCapturingPlugin('Not A Route'),
+      },
+    });
+
+    await manager.start();
+
+    expect(manager.getActivePluginNames()).toEqual(['shared']);
+    expect(mockedLogger.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('mounts plugin routes and contains handler errors', async () => {
+    const manager = new PluginManager({
+      eventBus: new PluginEventBus(),
+      enabledPlugins: ['probe'],
+      pluginFactories: {
+        probe: () =>
+          contextCapturingPlugin('probe', ({ router }) => {
+            router.get('/status', (_req, res) => {
+              res.json({ ok: true });
+            });
+            router.get('/broken', () => {
+              throw new Error('route boom');
+            });
+          }),
+      },
+    });
+    await manager.start();
+
+    const app = express();
+    app.use('/api/plugins', manager.createRouter());
+
+    await request(app).get('/api/plugins/probe/status').expect(200, { ok: true });
+    await request(app).get('/api/plugins/probe/broken').expect(500, {
+      error: 'Internal Server Error',
+      message: 'Plugin probe failed to handle the request',
+    });
+    await request(app).get('/api/plugins/missing/status').expect(404, {
+      error: 'Not Found',
+      message: 'Plugin missing is not active',
+    });
+    expect(mockedLogger.error).toHaveBeenCalledWith(
+      'CNC plugin route failed',
+      expect.objectContaining({ pluginName: 'probe', error: 'route boom' }),
+    );
+  });
+
+  it('loads third-party plugins from the plugin directory', async () => {
+    const pluginDirectory = await mkdtemp(path.join(os.tmpdir(), 'woly-plugins-'));
+    await writeFile(
+      path.join(pluginDirectory, 'greeter.js'),
+      `module.exports = {
+        apiVersion: 1,
+        createPlugin: () => ({
+          name: 'greeter',
+          version: '0.1.0',
+          init: (context) => context.router.get('/hello', (_req, res) => res.json({ hello: 'world' })),
+          destroy: () => undefined,
+        }),
+      };`,
+    );
+    await writeFile(
+      path.join(pluginDirectory, 'future.js'),
+      'module.exports = { apiVersion: 2, createPlugin: () => { throw new Error("unreachable"); } };',
+    );
+
+    try {
+      const manager = new PluginManager({
+        eventBus: new PluginEventBus(),
+        enabledPlugins: [],
+        pluginDirectory,
+      });
+      await manager.start();
+
+      expect(manager.getActivePluginNames()).toEqual(['greeter']);
+      expect(mockedLogger.warn).toHaveBeenCalledWith(
+        'Skipping CNC plugin built for an unsupported plugin API version',
+        expect.objectContaining({ source: path.join(pluginDirectory, 'future.js'), apiVersion: 2 }),
+      );
+
+      const app = express();
+      app.use('/api/plugins', manager.createRouter());
+      await request(app).get('/api/plugins/greeter/hello').expect(200, { hello: 'world' });
+      await manager.shutdown();
+    } finally {
+      await rm(pluginDirectory, { recursive: true, force: true });
+    }
+  });
 });
@@ -21,6 +21,8 @@ describe('PushNotificationsPlugin', () => {
     const plugin = new PushNotificationsPlugin({
       service: {
         sendEvent,
+        start: jest.fn(),
+        stop: jest.fn(),
       } as never,
     });
 
@@ -55,6 +57,22 @@ describe('PushNotificationsPlugin', () => {
       },
     });
 
+    eventBus.publish({
+      type: 'schedule.failed',
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: {
+        scheduleId: 'schedule-1',
+        executionId: 7,
+        hostFqn: 'desktop@node-1',
+        action: 'wake',
+        attemptedAt: '2026-02-18T19:58:00.000Z',
+        commandId: 'cmd-1',
+        commandState: 'acknowledged',
+        wakeVerification: null,
+        error: 'Wake verification timeout',
+      },
+    });
+
     expect(sendEvent).toHaveBeenNthCalledWith(
       1,
       'host.awake',
@@ -76,20 +94,34 @@ describe('PushNotificationsPlugin', () => {
         nodeId: 'node-1',
       }),
     );
+    expect(sendEvent).toHaveBeenNthCalledWith(
+      4,
+      'schedule.failed',
+      expect.objectContaining({
+        scheduleId: 'schedule-1',
+        error: 'Wake verification timeout',
+      }),
+    );
   });
 
-  it('unsubscribes handlers on destroy', () => {
+  it('unsubscribes handlers and stops rule evaluation on destroy', () => {
     const sendEvent = jest.fn().mockResolvedValue(undefined);
+    const start = jest.fn();
+    const stop = jest.fn();
 
     const plugin = new PushNotificationsPlugin({
       service: {
         sendEvent,
+        start,
+        stop,
       } as never,
     });
 
     const eventBus = new PluginEventBus();
     plugin.init({ eventBus });
+    expect(start).toHaveBeenCalledTimes(1);
     plugin.destroy();
+    expect(stop).toHaveBeenCalledTimes(1);
 
     eventBus.publish({
       type: 'scan.complete',
@@ -111,6 +143,8 @@ describe('PushNotificationsPlugin', () => {
     const plugin = new PushNotificationsPlugin({
       service: {
         sendEvent,
+        start: jest.fn(),
+        stop: jest.fn(),
       } as never,
     });
 
@@ -9,6 +9,7 @@ describe('WebhookPlugin', () => {
     const plugin = new WebhookPlugin({
       dispatcher: {
         dispatchEvent,
+        start: jest.fn(),
         shutdown,
       } as never,
     });
@@ -55,6 +56,46 @@ describe('WebhookPlugin', () => {
     );
   });
 
+  it('forwards schedule failures', () => {
+    const dispatchEvent = jest.fn().mockResolvedValue(undefined);
+
+    const plugin = new WebhookPlugin({
+      dispatcher: {
+        dispatchEvent,
+        start: jest.fn(),
+        shutdown: jest.fn(),
+      } as never,
+    });
+
+    const eventBus = new PluginEventBus();
+    plugin.init({ eventBus });
+
+    eventBus.publish({
+      type: 'schedule.failed',
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: {
+        scheduleId: 'schedule-1',
+        executionId: 7,
+        hostFqn: 'desktop@node-1',
+        action: 'wake',
+        attemptedAt: '2026-02-18T19:58:00.000Z',
+        commandId: 'cmd-1',
+        commandState: 'acknowledged',
+        wakeVerification: null,
+        error: 'Wake verification timeout',
+      },
+    });
+
+    expect(dispatchEvent).toHaveBeenCalledWith(
+      'schedule.failed',
+      expect.objectContaining({
+        scheduleId: 'schedule-1',
+        executionId: 7,
+        hostFqn: 'desktop@node-1',
+      }),
+    );
+  });
+
   it('forwards direct event mappings and cleans up on destroy', () => {
     const dispatchEvent = jest.fn().mockResolvedValue(undefined);
     const shutdown = jest.fn();
@@ -62,6 +103,7 @@ describe('WebhookPlugin', () => {
     const plugin = new WebhookPlugin({
       dispatcher: {
         dispatchEvent,
+        start: jest.fn(),
         shutdown,
       } as never,
     });
@@ -100,4 +142,39 @@ describe('WebhookPlugin', () => {
     expect(shutdown).toHaveBeenCalledTimes(1);
     expect(dispatchEvent).toHaveBeenCalledTimes(1);
   });
+
+  it('starts the delivery queue worker and forwards webhook.disabled events', () => {
+    const dispatchEvent = jest.fn().mockResolvedValue(undefined);
+    const start = jest.fn();
+
+    const plugin = new WebhookPlugin({
+      dispatcher: {
+        dispatchEvent,
+        start,
+        shutdown: jest.fn(),
+      } as never,
+    });
+
+    const eventBus = new PluginEventBus();
+    plugin.init({ eventBus });
+
+    expect(start).toHaveBeenCalledWith(eventBus);
+
+    eventBus.publish({
+      type: 'webhook.disabled',
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: {
+        webhookId: 'webhook-1',
+        url: 'https://example.com/hooks/woly',
+        consecutiveFailures: 5,
+        lastError: 'HTTP 503',
+        disabledAt: '2026-02-18T20:00:00.000Z',
+      },
+    });
+
+    expect(dispatchEvent).toHaveBeenCalledWith(
+      'webhook.disabled',
+      expect.objectContaining({ webhookId: 'webhook-1', consecutiveFailures: 5 }),
+    );
+  });
 });
@@ -0,0 +1,293 @@
+import type { Request, Response } from 'express';
+import type { HostStatus } from '@kaonis/woly-protocol';
+import type { AggregatedHost } from '../../types';
+import logger from '../../utils/logger';
+import { toObjectId } from './objectId';
+import type { PluginContext, WolyPlugin } from './types';
+
+/**
+ * Version of the entity contract served under `/v1`. The layout follows Home
+ * Assistant's REST state objects and does not follow protocol changes to
+ * `Host`; breaking changes get a new version prefix instead.
+ */
+export const ENTITY_CONTRACT_VERSION = 1;
+
+export interface HostEntityV1 {
+  entity_id: string;
+  /** `on` while the host is awake. */
+  state: 'on' | 'off';
+  attributes: {
+    friendly_name: string;
+    fqn: string;
+    node_id: string;
+    location: string;
+    mac: string;
+    ip: string;
+    host_status: HostStatus;
+    last_seen: string | null;
+    tags: string[];
+  };
+  /** When `state` last changed. */
+  last_changed: string;
+  /** When any part of the entity last changed. */
+  last_updated: string;
+}
+
+type EntitiesContext = Pick<PluginContext, 'eventBus' | 'hosts' | 'commands' | 'access' | 'router'>;
+
+const COMMAND_AUDIT_ACTIONS = {
+  wake: 'host.wake',
+  shutdown: 'host.shutdown',
+} as const;
+
+const SSE_KEEPALIVE_INTERVAL_MS = 25_000;
+
+export function toEntityId(fqn: string): string {
+  return `switch.woly_${toObjectId(fqn)}`;
+}
+
+function latest(a: string, b: string): string {
+  return Date.parse(a) >= Date.parse(b) ? a : b;
+}
+
+/**
+ * Serves hosts as long-lived switch entities for home-automation polling at
+ * `/api/plugins/entities/v1/entities`, with a server-sent event stream per
+ * entity and `turn_on` (wake) / `turn_off` (shutdown) actions. Callers only
+ * see hosts they may view and switch hosts they may operate.
+ */
+export class EntitiesPlugin implements WolyPlugin {
+  readonly name = 'entities';
+  readonly version = '1.0.0';
+
+  private readonly unsubscribers: Array<() => void> = [];
+  /** State change times seen on the event bus, keyed by host FQN. */
+  private readonly lastChanged = new Map<string, string>();
+  private readonly streams = new Map<string, Set<Response>>();
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private context: EntitiesContext | null = null;
+
+  init(context: EntitiesContext): void {
+    this.context = context;
+    const { router } = context;
+
+    router.get('/v1/entities', async (req, res) => {
+      const hosts = await context.access.filterHosts(req, await context.hosts.list(), 'view');
+      res.json({
+        version: ENTITY_CONTRACT_VERSION,
+        entities: hosts.map((host) => this.toEntity(host)),
+      });
+    });
+    router.get('/v1/entities/:entityId', async (req, res) => {
+      const host = await this.findHost(req, res);
+      if (host) {
+        res.json(this.toEntity(host));
+      }
+    });
+    router.get('/v1/entities/:entityId/stream', async (req, res) => {
+      const host = await this.findHost(req, res);
+      if (host) {
+        this.openStream(res, host);
+      }
+    });
+    router.post('/v1/entities/:entityId/turn_on', (req, res) => this.runCommand(req, res, 'wake'));
+    router.post('/v1/entities/:entityId/turn_off', (req, res) => this.runCommand(req, res, 'shutdown'));
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('host.status-transition', async (event) => {
+        this.lastChanged.set(event.data.hostFqn, event.data.changedAt);
+        await this.pushState(event.data.hostFqn);
+      }),
+    );
+    this.unsubscribers.push(
+      context.eventBus.subscribe('host.discovered', async (event) => {
+        await this.pushState(event.data.hostFqn);
+      }),
+    );
+    this.unsubscribers.push(
+      context.eventBus.subscribe('host.removed', () => this.closeRemovedStreams()),
+    );
+  }
+
+  destroy(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers.length = 0;
+
+    for (const responses of this.streams.values()) {
+      for (const res of responses) {
+        res.end();
+      }
+    }
+    this.streams.clear();
+    this.stopKeepalive();
+    this.context = null;
+  }
+
+  private toEntity(host: AggregatedHost): HostEntityV1 {
+    const updatedAt = host.updatedAt instanceof Date ? host.updatedAt.toISOString() : String(host.updatedAt);
+    const lastChanged = this.lastChanged.get(host.fullyQualifiedName) ?? updatedAt;
+
+    return {
+      entity_id: toEntityId(host.fullyQualifiedName),
+      state: host.status === 'awake' ? 'on' : 'off',
+      attributes: {
+        friendly_name: host.name,
+        fqn: host.fullyQualifiedName,
+        node_id: host.nodeId,
+        location: host.location,
+        mac: host.mac,
+        ip: host.ip,
+        host_status: host.status,
+        last_seen: host.lastSeen,
+        tags: host.tags ?? [],
+      },
+      last_changed: lastChanged,
+      last_updated: latest(updatedAt, lastChanged),
+    };
+  }
+
+  /** Hosts the caller may not view are answered with a 404 like unknown ones. */
+  private async findHost(req: Request, res: Response): Promise<AggregatedHost | null> {
+    const entityId = String(req.params.entityId);
+    const context = this.context;
+    const hosts = context ? await context.hosts.list() : [];
+    const match = hosts.find((candidate) => toEntityId(candidate.fullyQualifiedName) === entityId);
+    const host = match && context ? (await context.access.filterHosts(req, [match], 'view'))[0] : undefined;
+    if (!host) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Entity ${entityId} not found`,
+      });
+      return null;
+    }
+    return host;
+  }
+
+  private async runCommand(req: Request, res: Response, command: 'wake' | 'shutdown'): Promise<void> {
+    const host = await this.findHost(req, res);
+    const context = this.context;
+    if (!host || !context) {
+      return;
+    }
+
+    context.access.audit(req, res, COMMAND_AUDIT_ACTIONS[command], { targetFqn: host.fullyQualifiedName });
+    const [operable] = await context.access.filterHosts(req, [host], 'operate');
+    if (!operable) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Requires operate permission on host ${host.fullyQualifiedName}`,
+        code: 'AUTH_FORBIDDEN',
+      });
+      return;
+    }
+
+    try {
+      const result = await context.commands[command](host.fullyQualifiedName);
+      res.json({ success: result.success, message: result.message });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Entity command failed', { entityId: req.params.entityId, command, error: message });
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message,
+      });
+    }
+  }
+
+  private openStream(res: Response, host: AggregatedHost): void {
+    const entityId = toEntityId(host.fullyQualifiedName);
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    // Keeps reverse proxies such as nginx from buffering the stream.
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    this.writeEvent(res, 'state', this.toEntity(host));
+
+    const responses = this.streams.get(entityId) ?? new Set<Response>();
+    responses.add(res);
+    this.streams.set(entityId, responses);
+    this.startKeepalive();
+
+    res.on('close', () => {
+      responses.delete(res);
+      if (responses.size === 0 && this.streams.get(entityId) === responses) {
+        this.streams.delete(entityId);
+      }
+      if (this.streams.size === 0) {
+        this.stopKeepalive();
+      }
+    });
+  }
+
+  private writeEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private async pushState(hostFqn: string): Promise<void> {
+    const responses = this.streams.get(toEntityId(hostFqn));
+    if (!responses || responses.size === 0 || !this.context) {
+      return;
+    }
+
+    const host = await this.context.hosts.get(hostFqn);
+    if (!host) {
+      return;
+    }
+
+    const entity = this.toEntity(host);
+    for (const res of responses) {
+      this.writeEvent(res, 'state', entity);
+    }
+  }
+
+  /** `host.removed` carries no FQN, so streams are matched against the current inventory. */
+  private async closeRemovedStreams(): Promise<void> {
+    if (this.streams.size === 0 || !this.context) {
+      return;
+    }
+
+    const hosts = await this.context.hosts.list();
+    const remaining = new Set(hosts.map((host) => toEntityId(host.fullyQualifiedName)));
+    for (const [entityId, responses] of this.streams) {
+      if (remaining.has(entityId)) {
+        continue;
+      }
+      for (const res of responses) {
+        this.writeEvent(res, 'removed', { entity_id: entityId });
+        res.end();
+      }
+      this.streams.delete(entityId);
+    }
+    if (this.streams.size === 0) {
+      this.stopKeepalive();
+    }
+  }
+
+  private startKeepalive(): void {
+    if (this.keepaliveTimer) {
+      return;
+    }
+
+    this.keepaliveTimer = setInterval(() => {
+      for (const responses of this.streams.values()) {
+        for (const res of responses) {
+          res.write(': keepalive\n\n');
+        }
+      }
+    }, SSE_KEEPALIVE_INTERVAL_MS);
+    this.keepaliveTimer.unref();
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+  }
+}
+
+export default EntitiesPlugin;
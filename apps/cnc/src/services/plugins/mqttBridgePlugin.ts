@@ -0,0 +1,335 @@
+import config from '../../config';
+import type { AggregatedHost } from '../../types';
+import logger from '../../utils/logger';
+import { MqttClient, type MqttClientOptions } from '../mqttClient';
+import { toObjectId } from './objectId';
+import type { PluginContext, WolyPlugin } from './types';
+
+type MqttBridgeContext = Pick<PluginContext, 'eventBus' | 'hosts' | 'commands' | 'access'>;
+
+type MqttHostCommand = 'wake' | 'sleep' | 'shutdown';
+
+type BridgedHost = {
+  fqn: string;
+  nodeId: string;
+  name: string;
+};
+
+const HOST_COMMANDS = new Set<MqttHostCommand>(['wake', 'sleep', 'shutdown']);
+
+const COMMAND_AUDIT_ACTIONS = {
+  wake: 'host.wake',
+  sleep: 'host.sleep',
+  shutdown: 'host.shutdown',
+} as const;
+
+/**
+ * Bridges host and node state to an MQTT broker and accepts host commands on
+ * `<prefix>/hosts/<hostId>/set`. With discovery enabled every host is
+ * announced to Home Assistant as a power switch and an awake binary sensor.
+ * Host commands are audited with the bridge (`plugin:mqtt`) as the actor.
+ */
+export class MqttBridgePlugin implements WolyPlugin {
+  readonly name = 'mqtt';
+  readonly version = '1.0.0';
+
+  private readonly createClient: (options: MqttClientOptions) => MqttClient;
+  private readonly unsubscribers: Array<() => void> = [];
+  private readonly bridgedHosts = new Map<string, BridgedHost>();
+  private client: MqttClient | null = null;
+  private context: MqttBridgeContext | null = null;
+
+  constructor(options?: { createClient?: (options: MqttClientOptions) => MqttClient }) {
+    this.createClient = options?.createClient ?? ((clientOptions) => new MqttClient(clientOptions));
+  }
+
+  private get topicPrefix(): string {
+    return config.mqttTopicPrefix.replace(/\/+$/, '');
+  }
+
+  private get availabilityTopic(): string {
+    return `${this.topicPrefix}/status`;
+  }
+
+  private hostTopic(hostId: string, suffix: string): string {
+    return `${this.topicPrefix}/hosts/${hostId}/${suffix}`;
+  }
+
+  private nodeStateTopic(nodeId: string): string {
+    return `${this.topicPrefix}/nodes/${toObjectId(nodeId)}/state`;
+  }
+
+  async init(context: MqttBridgeContext): Promise<void> {
+    if (!config.mqttBrokerUrl) {
+      logger.warn('MQTT bridge plugin is enabled but MQTT_BROKER_URL is not set');
+      return;
+    }
+
+    this.context = context;
+    const client = this.createClient({
+      url: config.mqttBrokerUrl,
+      clientId: config.mqttClientId,
+      username: config.mqttUsername || undefined,
+      password: config.mqttPassword || undefined,
+      will: { topic: this.availabilityTopic, payload: 'offline', retain: true },
+    });
+    this.client = client;
+
+    client.subscribe(this.hostTopic('+', 'set'));
+    if (config.mqttDiscoveryEnabled) {
+      // Home Assistant announces restarts here; discovery configs are re-sent on `online`.
+      client.subscribe(`${config.mqttDiscoveryPrefix}/status`);
+    }
+    client.onMessage((topic, payload) => {
+      void this.handleMessage(topic, payload.toString('utf8').trim());
+    });
+    client.onConnect(() => {
+      client.publish(this.availabilityTopic, 'online', { retain: true });
+      void this.publishAllHosts();
+    });
+
+    this.subscribeToEvents(context);
+
+    try {
+      await client.connect();
+    } catch (error) {
+      logger.warn('MQTT broker unreachable; the bridge keeps retrying in the background', {
+        url: config.mqttBrokerUrl,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async destroy(): Promise<void> {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers.length = 0;
+
+    const client = this.client;
+    this.client = null;
+    this.context = null;
+    if (client) {
+      client.publish(this.availabilityTopic, 'offline', { retain: true });
+      await client.end();
+    }
+  }
+
+  private subscribeToEvents(context: MqttBridgeContext): void {
+    this.unsubscribers.push(
+      context.eventBus.subscribe('host.discovered', async (event) => {
+        const host = await context.hosts.get(event.data.hostFqn);
+        if (host) {
+          this.publishHost(host);
+        }
+      }),
+    );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('host.status-transition', (event) => {
+        const hostId = toObjectId(event.data.hostFqn);
+        this.client?.publish(this.hostTopic(hostId, 'state'), event.data.newStatus, { retain: true });
+      }),
+    );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('host.removed', (event) => {
+        for (const [hostId, host] of this.bridgedHosts) {
+          if (host.nodeId === event.data.nodeId && host.name === event.data.name) {
+            this.unpublishHost(hostId);
+          }
+        }
+      }),
+    );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('node.connected', (event) => {
+        this.client?.publish(this.nodeStateTopic(event.data.nodeId), 'online', { retain: true });
+      }),
+    );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('node.disconnected', (event) => {
+        this.client?.publish(this.nodeStateTopic(event.data.nodeId), 'offline', { retain: true });
+      }),
+    );
+  }
+
+  private async publishAllHosts(): Promise<void> {
+    if (!this.context) {
+      return;
+    }
+
+    try {
+      for (const host of await this.context.hosts.list()) {
+        this.publishHost(host);
+      }
+    } catch (error) {
+      logger.error('Failed to publish hosts to MQTT', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private publishHost(host: AggregatedHost): void {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+
+    const hostId = toObjectId(host.fullyQualifiedName);
+    this.bridgedHosts.set(hostId, { fqn: host.fullyQualifiedName, nodeId: host.nodeId, name: host.name });
+
+    if (config.mqttDiscoveryEnabled) {
+      for (const [component, discoveryConfig] of this.buildDiscoveryConfigs(hostId, host)) {
+        client.publish(this.discoveryTopic(component, hostId), JSON.stringify(discoveryConfig), { retain: true });
+      }
+    }
+
+    client.publish(this.hostTopic(hostId, 'state'), host.status, { retain: true });
+    client.publish(
+      this.hostTopic(hostId, 'attributes'),
+      JSON.stringify({
+        fqn: host.fullyQualifiedName,
+        name: host.name,
+        nodeId: host.nodeId,
+        mac: host.mac,
+        ip: host.ip,
+        lastSeen: host.lastSeen,
+      }),
+      { retain: true },
+    );
+  }
+
+  /** Clears retained topics so Home Assistant drops the entities. */
+  private unpublishHost(hostId: string): void {
+    this.bridgedHosts.delete(hostId);
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+
+    if (config.mqttDiscoveryEnabled) {
+      client.publish(this.discoveryTopic('switch', hostId), '', { retain: true });
+      client.publish(this.discoveryTopic('binary_sensor', hostId), '', { retain: true });
+    }
+    client.publish(this.hostTopic(hostId, 'state'), '', { retain: true });
+    client.publish(this.hostTopic(hostId, 'attributes'), '', { retain: true });
+  }
+
+  private discoveryTopic(component: 'switch' | 'binary_sensor', hostId: string): string {
+    return `${config.mqttDiscoveryPrefix}/${component}/woly/${hostId}/config`;
+  }
+
+  private buildDiscoveryConfigs(
+    hostId: string,
+    host: AggregatedHost,
+  ): Array<['switch' | 'binary_sensor', Record<string, unknown>]> {
+    const device = {
+      identifiers: [`woly_${hostId}`],
+      name: host.name,
+      manufacturer: 'WoLy',
+      model: 'Wake-on-LAN host',
+      ...(host.mac ? { connections: [['mac', host.mac.toLowerCase()]] } : {}),
+    };
+    const shared = {
+      state_topic: this.hostTopic(hostId, 'state'),
+      json_attributes_topic: this.hostTopic(hostId, 'attributes'),
+      availability_topic: this.availabilityTopic,
+      device,
+    };
+
+    return [
+      [
+        'switch',
+        {
+          ...shared,
+          name: 'Power',
+          unique_id: `woly_${hostId}_power`,
+          command_topic: this.hostTopic(hostId, 'set'),
+          payload_on: 'wake',
+          payload_off: 'shutdown',
+          state_on: 'awake',
+          state_off: 'asleep',
+          icon: 'mdi:desktop-tower',
+        },
+      ],
+      [
+        'binary_sensor',
+        {
+          ...shared,
+          name: 'Awake',
+          unique_id: `woly_${hostId}_awake`,
+          payload_on: 'awake',
+          payload_off: 'asleep',
+          device_class: 'power',
+        },
+      ],
+    ];
+  }
+
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    if (topic === `${config.mqttDiscoveryPrefix}/status`) {
+      if (payload === 'online') {
+        await this.publishAllHosts();
+      }
+      return;
+    }
+
+    const prefix = `${this.topicPrefix}/hosts/`;
+    if (!topic.startsWith(prefix) || !topic.endsWith('/set')) {
+      return;
+    }
+
+    const hostId = topic.slice(prefix.length, -'/set'.length);
+    const command = payload.toLowerCase() as MqttHostCommand;
+    if (!HOST_COMMANDS.has(command)) {
+      logger.warn('Ignoring unknown MQTT host command', { topic, payload });
+      return;
+    }
+
+    await this.runHostCommand(hostId, command);
+  }
+
+  private async runHostCommand(hostId: string, command: MqttHostCommand): Promise<void> {
+    const context = this.context;
+    if (!context) {
+      return;
+    }
+
+    let host = this.bridgedHosts.get(hostId);
+    if (!host) {
+      await this.publishAllHosts();
+      host = this.bridgedHosts.get(hostId);
+    }
+    const topic = this.hostTopic(hostId, 'set');
+    if (!host) {
+      logger.warn('Ignoring MQTT command for unknown host', { hostId, command });
+      await context.access.record(COMMAND_AUDIT_ACTIONS[command], 'failure', {
+        details: { topic, message: 'Unknown host' },
+      });
+      return;
+    }
+
+    const resultTopic = this.hostTopic(hostId, 'result');
+    let success = false;
+    let message: string;
+    try {
+      const response = await context.commands[command](host.fqn);
+      success = response.success;
+      message = response.message;
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+      logger.warn('MQTT host command failed', { hostFqn: host.fqn, command, error: message });
+    }
+
+    this.client?.publish(resultTopic, JSON.stringify({ command, success, message }));
+    await context.access.record(COMMAND_AUDIT_ACTIONS[command], success ? 'success' : 'failure', {
+      targetFqn: host.fqn,
+      targetNodeId: host.nodeId,
+      details: { topic, message },
+    });
+  }
+}
+
+export default MqttBridgePlugin;
@@ -0,0 +1,11 @@
+/**
+ * Stable ID for a host or node in home-automation integrations. Home
+ * Assistant object IDs only allow `[a-z0-9_-]`, and MQTT topic levels must not
+ * contain `/`, `+` or `#`.
+ */
+export function toObjectId(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
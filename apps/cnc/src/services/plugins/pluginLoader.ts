@@ -0,0 +1,118 @@
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import logger from '../../utils/logger';
+import { PLUGIN_API_VERSION, type WolyPluginModule } from './types';
+
+export interface LoadedPluginModule {
+  /** Module path or package name the plugin was loaded from. */
+  source: string;
+  module: WolyPluginModule;
+}
+
+const PLUGIN_FILE_EXTENSIONS = new Set(['.js', '.cjs']);
+
+function isWolyPluginModule(candidate: unknown): candidate is WolyPluginModule {
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof (candidate as WolyPluginModule).createPlugin === 'function' &&
+    typeof (candidate as WolyPluginModule).apiVersion === 'number'
+  );
+}
+
+/** Accepts `module.exports = {...}` as well as an ES module default export. */
+function resolvePluginModule(imported: unknown): WolyPluginModule | null {
+  if (isWolyPluginModule(imported)) {
+    return imported;
+  }
+
+  const defaultExport = (imported as { default?: unknown } | null)?.default;
+  return isWolyPluginModule(defaultExport) ? defaultExport : null;
+}
+
+async function listDirectoryPlugins(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const specifiers: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isFile() && PLUGIN_FILE_EXTENSIONS.has(path.extname(entry.name))) {
+      specifiers.push(entryPath);
+    } else if (entry.isDirectory() || (entry.isSymbolicLink() && (await stat(entryPath)).isDirectory())) {
+      // Resolved through the directory's package.json `main` or index.js.
+      specifiers.push(entryPath);
+    }
+  }
+
+  return specifiers;
+}
+
+async function importPluginModule(specifier: string): Promise<WolyPluginModule | null> {
+  let imported: unknown;
+  try {
+    imported = await import(specifier);
+  } catch (error) {
+    logger.error('Failed to load CNC plugin module', {
+      source: specifier,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  const pluginModule = resolvePluginModule(imported);
+  if (!pluginModule) {
+    logger.warn('Skipping CNC plugin module without apiVersion and createPlugin exports', { source: specifier });
+    return null;
+  }
+
+  if (pluginModule.apiVersion !== PLUGIN_API_VERSION) {
+    logger.warn('Skipping CNC plugin built for an unsupported plugin API version', {
+      source: specifier,
+      apiVersion: pluginModule.apiVersion,
+      supportedApiVersion: PLUGIN_API_VERSION,
+    });
+    return null;
+  }
+
+  return pluginModule;
+}
+
+/**
+ * Imports third-party plugin modules from `directory` (each `.js` file or
+ * package directory in it) and from installed npm `packages`. Modules that
+ * fail to load or target another plugin API version are logged and skipped.
+ */
+export async function loadExternalPluginModules(options: {
+  directory?: string;
+  packages?: string[];
+}): Promise<LoadedPluginModule[]> {
+  const specifiers: string[] = [];
+
+  if (options.directory) {
+    const directory = path.resolve(options.directory);
+    try {
+      specifiers.push(...(await listDirectoryPlugins(directory)));
+    } catch (error) {
+      logger.error('Failed to read CNC plugin directory', {
+        directory,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  specifiers.push(...(options.packages ?? []).map((name) => name.trim()).filter(Boolean));
+
+  const loaded: LoadedPluginModule[] = [];
+  for (const specifier of specifiers) {
+    const pluginModule = await importPluginModule(specifier);
+    if (pluginModule) {
+      loaded.push({ source: specifier, module: pluginModule });
+    }
+  }
+
+  return loaded;
+}
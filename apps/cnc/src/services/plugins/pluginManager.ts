@@ -1,31 +1,98 @@
+import { readFile } from 'fs/promises';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import NodeModel from '../../models/Node';
+import PluginStorageModel from '../../models/PluginStorage';
+import { recordAudit, recordAuditOnFinish } from '../../middleware/audit';
 import logger from '../../utils/logger';
+import { AccessControl } from '../accessControl';
+import type { CommandRouter } from '../commandRouter';
+import type { HostAggregator } from '../hostAggregator';
 import type { PluginEventBus } from '../pluginEventBus';
-import type { PluginContext, PluginFactory, WolyPlugin } from './types';
+import { loadExternalPluginModules } from './pluginLoader';
+import {
+  PLUGIN_API_VERSION,
+  type PluginContext,
+  type PluginFactory,
+  type PluginLogger,
+  type WolyPlugin,
+} from './types';
+import { EntitiesPlugin } from './entitiesPlugin';
+import { MqttBridgePlugin } from './mqttBridgePlugin';
 import { PushNotificationsPlugin } from './pushNotificationsPlugin';
 import { WebhookPlugin } from './webhookPlugin';
 
 const DEFAULT_PLUGIN_FACTORIES: Record<string, PluginFactory> = {
   webhook: () => new WebhookPlugin(),
   'push-notifications': () => new PushNotificationsPlugin(),
+  mqtt: () => new MqttBridgePlugin(),
+  entities: () => new EntitiesPlugin(),
+};
+
+const DEFAULT_INIT_TIMEOUT_MS = 10_000;
+
+/** Plugin names double as route segments and storage namespaces. */
+const PLUGIN_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+/** Core services exposed to plugins through `PluginContext`. */
+export type PluginServices = {
+  hostAggregator: HostAggregator;
+  commandRouter: CommandRouter;
 };
 
 type PluginManagerOptions = {
   eventBus: PluginEventBus;
   enabledPlugins: string[];
   pluginFactories?: Record<string, PluginFactory>;
+  /** Every plugin found in this directory is started. */
+  pluginDirectory?: string;
+  /** Installed npm packages to start as plugins. */
+  pluginPackages?: string[];
+  /** JSON file mapping plugin names to their `context.config`. */
+  pluginConfigFile?: string;
+  services?: PluginServices;
+  initTimeoutMs?: number;
 };
 
+type ActivePlugin = {
+  plugin: WolyPlugin;
+  router: Router;
+};
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function createPluginLogger(pluginName: string): PluginLogger {
+  const withPlugin = (meta?: Record<string, unknown>) => ({ ...meta, plugin: pluginName });
+  return {
+    debug: (message, meta) => logger.debug(message, withPlugin(meta)),
+    info: (message, meta) => logger.info(message, withPlugin(meta)),
+    warn: (message, meta) => logger.warn(message, withPlugin(meta)),
+    error: (message, meta) => logger.error(message, withPlugin(meta)),
+  };
+}
+
 export class PluginManager {
   private readonly eventBus: PluginEventBus;
   private readonly enabledPlugins: string[];
   private readonly pluginFactories: Record<string, PluginFactory>;
-  private readonly activePlugins: WolyPlugin[] = [];
+  private readonly pluginDirectory: string;
+  private readonly pluginPackages: string[];
+  private readonly pluginConfigFile: string;
+  private readonly services: PluginServices | null;
+  private readonly initTimeoutMs: number;
+  private readonly activePlugins: ActivePlugin[] = [];
   private started = false;
 
   constructor(options: PluginManagerOptions) {
     this.eventBus = options.eventBus;
     this.enabledPlugins = options.enabledPlugins;
     this.pluginFactories = options.pluginFactories ?? DEFAULT_PLUGIN_FACTORIES;
+    this.pluginDirectory = options.pluginDirectory ?? '';
+    this.pluginPackages = options.pluginPackages ?? [];
+    this.pluginConfigFile = options.pluginConfigFile ?? '';
+    this.services = options.services ?? null;
+    this.initTimeoutMs = options.initTimeoutMs ?? DEFAULT_INIT_TIMEOUT_MS;
   }
 
   async start(): Promise<void> {
@@ -34,9 +101,7 @@ export class PluginManager {
     }
 
     this.started = true;
-    const context: PluginContext = {
-      eventBus: this.eventBus,
-    };
+    const pluginConfig = await this.readPluginConfig();
 
     for (const pluginId of this.getDedupedEnabledPluginIds()) {
       const factory = this.pluginFactories[pluginId];
@@ -45,20 +110,15 @@ export class PluginManager {
         continue;
       }
 
-      try {
-        const plugin = factory();
-        await plugin.init(context);
-        this.activePlugins.push(plugin);
-        logger.info('Started CNC plugin', {
-          pluginId,
-          version: plugin.version,
-        });
-      } catch (error) {
-        logger.error('Failed to start CNC plugin', {
-          pluginId,
-          error,
-        });
-      }
+      await this.startPlugin(pluginId, factory, pluginConfig);
+    }
+
+    const externalModules = await loadExternalPluginModules({
+      directory: this.pluginDirectory,
+      packages: this.pluginPackages,
+    });
+    for (const { source, module } of externalModules) {
+      await this.startPlugin(source, module.createPlugin, pluginConfig);
     }
   }
 
@@ -70,7 +130,7 @@ export class PluginManager {
     this.started = false;
 
     for (let index = this.activePlugins.length - 1; index >= 0; index -= 1) {
-      const plugin = this.activePlugins[index];
+      const { plugin } = this.activePlugins[index];
       try {
         await plugin.destroy();
       } catch (error) {
@@ -85,7 +145,169 @@ export class PluginManager {
   }
 
   getActivePluginNames(): string[] {
-    return this.activePlugins.map((plugin) => plugin.name);
+    return this.activePlugins.map(({ plugin }) => plugin.name);
+  }
+
+  /**
+   * Dispatches `/<name>/...` to the routes a started plugin registered. A
+   * handler error is answered with a 500 naming the plugin instead of
+   * reaching the core error handler.
+   */
+  createRouter(): Router {
+    const router = Router();
+
+    router.use('/:name', (req: Request, res: Response, next: NextFunction) => {
+      const name = typeof req.params.name === 'string' ? req.params.name : '';
+      const active = this.activePlugins.find(({ plugin }) => plugin.name === name);
+      if (!active) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Plugin ${name} is not active`,
+        });
+        return;
+      }
+
+      active.router(req, res, (error?: unknown) => {
+        if (!error) {
+          next();
+          return;
+        }
+
+        logger.error('CNC plugin route failed', {
+          pluginName: name,
+          method: req.method,
+          path: req.path,
+          error: describeError(error),
+        });
+        if (!res.headersSent) {
+          res.status(500).json({
+            error: 'Internal Server Error',
+            message: `Plugin ${name} failed to handle the request`,
+          });
+        }
+      });
+    });
+
+    return router;
+  }
+
+  private async startPlugin(
+    pluginId: string,
+    factory: PluginFactory,
+    pluginConfig: Record<string, Record<string, unknown>>,
+  ): Promise<void> {
+    let plugin: WolyPlugin | null = null;
+    try {
+      plugin = factory();
+      if (!PLUGIN_NAME_PATTERN.test(plugin.name)) {
+        throw new Error(`Plugin name "${plugin.name}" must match ${PLUGIN_NAME_PATTERN}`);
+      }
+      if (this.activePlugins.some((active) => active.plugin.name === plugin?.name)) {
+        throw new Error(`A plugin named "${plugin.name}" is already running`);
+      }
+
+      const configEntry = pluginConfig[plugin.name];
+      const config = configEntry && typeof configEntry === 'object' && !Array.isArray(configEntry) ? configEntry : {};
+      const router = Router();
+      await this.initWithTimeout(plugin, this.createContext(plugin.name, router, config));
+      this.activePlugins.push({ plugin, router });
+      logger.info('Started CNC plugin', {
+        pluginId,
+        version: plugin.version,
+      });
+    } catch (error) {
+      logger.error('Failed to start CNC plugin', {
+        pluginId,
+        error,
+      });
+      // Release whatever a half-initialized plugin subscribed to.
+      if (plugin) {
+        await Promise.resolve()
+          .then(() => plugin?.destroy())
+          .catch(() => undefined);
+      }
+    }
+  }
+
+  private async initWithTimeout(plugin: WolyPlugin, context: PluginContext): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Plugin init did not finish within ${this.initTimeoutMs}ms`)),
+        this.initTimeoutMs,
+      );
+    });
+
+    try {
+      await Promise.race([Promise.resolve().then(() => plugin.init(context)), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private createContext(pluginName: string, router: Router, config: Record<string, unknown>): PluginContext {
+    const services = this.services;
+    const requireServices = (): PluginServices => {
+      if (!services) {
+        throw new Error('Core services are not available to plugins in this runtime');
+      }
+      return services;
+    };
+
+    return {
+      apiVersion: PLUGIN_API_VERSION,
+      eventBus: this.eventBus,
+      config: Object.freeze({ ...config }),
+      logger: createPluginLogger(pluginName),
+      hosts: {
+        list: async () => requireServices().hostAggregator.getAllHosts(),
+        get: async (fqn) => requireServices().hostAggregator.getHostByFQN(fqn),
+      },
+      nodes: {
+        list: () => NodeModel.findAll(),
+        get: (nodeId) => NodeModel.findById(nodeId),
+      },
+      commands: {
+        wake: async (fqn) => requireServices().commandRouter.routeWakeCommand(fqn),
+        sleep: async (fqn) => requireServices().commandRouter.routeSleepHostCommand(fqn),
+        shutdown: async (fqn) => requireServices().commandRouter.routeShutdownHostCommand(fqn),
+        ping: async (fqn) => requireServices().commandRouter.routePingHostCommand(fqn),
+        scan: async (nodeId) => requireServices().commandRouter.routeScanCommand(nodeId),
+      },
+      access: {
+        filterHosts: async (req, hosts, permission) =>
+          new AccessControl(requireServices().hostAggregator).filterHosts(req.auth, hosts, permission),
+        audit: (req, res, action, target) => recordAuditOnFinish(req, res, action, target),
+        record: (action, outcome, target) => recordAudit(`plugin:${pluginName}`, action, outcome, target),
+      },
+      storage: {
+        get: async <T>(key: string) => (await PluginStorageModel.get(pluginName, key)) as T | null,
+        set: (key, value) => PluginStorageModel.set(pluginName, key, value),
+        delete: (key) => PluginStorageModel.delete(pluginName, key),
+        keys: () => PluginStorageModel.keys(pluginName),
+      },
+      router,
+    };
+  }
+
+  private async readPluginConfig(): Promise<Record<string, Record<string, unknown>>> {
+    if (!this.pluginConfigFile) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(await readFile(this.pluginConfigFile, 'utf8')) as unknown;
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Expected an object keyed by plugin name');
+      }
+      return parsed as Record<string, Record<string, unknown>>;
+    } catch (error) {
+      logger.error('Failed to read CNC plugin config file; plugins start without config', {
+        file: this.pluginConfigFile,
+        error: describeError(error),
+      });
+      return {};
+    }
   }
 
   private getDedupedEnabledPluginIds(): string[] {
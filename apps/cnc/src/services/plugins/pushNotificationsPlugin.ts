@@ -14,11 +14,13 @@ export class PushNotificationsPlugin implements WolyPlugin {
     this.service = options?.service ?? new PushNotificationService();
   }
 
-  init(context: PluginContext): void {
+  init(context: Pick<PluginContext, 'eventBus'>): void {
     if (!config.pushNotificationsEnabled) {
       return;
     }
 
+    this.service.start();
+
     this.unsubscribers.push(
       context.eventBus.subscribe('host.status-transition', (event) => {
         const mappedEventType: PushNotificationEventType =
@@ -44,9 +46,16 @@ export class PushNotificationsPlugin implements WolyPlugin {
         void this.service.sendEvent('node.disconnected', event.data);
       })
     );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('schedule.failed', (event) => {
+        void this.service.sendEvent('schedule.failed', event.data);
+      })
+    );
   }
 
   destroy(): void {
+    this.service.stop();
     for (const unsubscribe of this.unsubscribers) {
       unsubscribe();
     }
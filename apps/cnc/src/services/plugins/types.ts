@@ -1,4 +1,22 @@
-import type { Host, HostStatus } from '@kaonis/woly-protocol';
+import type { Request, Response, Router } from 'express';
+import type {
+  CommandState,
+  Host,
+  HostStatus,
+  ScheduleAction,
+  WakeVerificationResult,
+} from '@kaonis/woly-protocol';
+import type {
+  AggregatedHost,
+  AuditOutcome,
+  CommandResult,
+  HostPingResponse,
+  HostPowerResponse,
+  Node,
+  ResourcePermission,
+  WakeupResponse,
+} from '../../types';
+import type { AuditTarget } from '../../middleware/audit';
 import type { PluginEventBus } from '../pluginEventBus';
 
 export type CncPluginEventType =
@@ -7,7 +25,9 @@ export type CncPluginEventType =
   | 'host.status-transition'
   | 'node.connected'
   | 'node.disconnected'
-  | 'scan.complete';
+  | 'scan.complete'
+  | 'schedule.failed'
+  | 'webhook.disabled';
 
 export type CncPluginEventMap = {
   'host.discovered': {
@@ -59,10 +79,108 @@ export type CncPluginEventMap = {
       hostCount: number;
     };
   };
+  'schedule.failed': {
+    type: 'schedule.failed';
+    timestamp: string;
+    data: {
+      scheduleId: string;
+      executionId: number;
+      hostFqn: string;
+      action: ScheduleAction;
+      attemptedAt: string;
+      commandId: string | null;
+      commandState: CommandState | null;
+      wakeVerification: WakeVerificationResult | null;
+      error: string | null;
+    };
+  };
+  'webhook.disabled': {
+    type: 'webhook.disabled';
+    timestamp: string;
+    data: {
+      webhookId: string;
+      url: string;
+      consecutiveFailures: number;
+      lastError: string | null;
+      disabledAt: string;
+    };
+  };
 };
 
+/**
+ * Version of the `PluginContext` contract. Bumped on breaking changes only;
+ * plugins declare the version they were built against in `apiVersion`.
+ */
+export const PLUGIN_API_VERSION = 1;
+
+export interface PluginLogger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+/** Read-only view of the aggregated host inventory. */
+export interface PluginHostsApi {
+  list(): Promise<AggregatedHost[]>;
+  get(fqn: string): Promise<AggregatedHost | null>;
+}
+
+/** Read-only view of registered nodes. */
+export interface PluginNodesApi {
+  list(): Promise<Node[]>;
+  get(nodeId: string): Promise<Node | null>;
+}
+
+/** Commands routed through the same `CommandRouter` path as the REST API. */
+export interface PluginCommandsApi {
+  wake(fqn: string): Promise<WakeupResponse>;
+  sleep(fqn: string): Promise<HostPowerResponse>;
+  shutdown(fqn: string): Promise<HostPowerResponse>;
+  ping(fqn: string): Promise<HostPingResponse>;
+  scan(nodeId: string): Promise<CommandResult>;
+}
+
+/**
+ * Caller checks for routes on `PluginContext.router`. Scoped users and API
+ * keys limited to hosts or nodes only reach the hosts granted to them.
+ */
+export interface PluginAccessApi {
+  /** Returns the hosts among `hosts` the caller of `req` holds `permission` on. */
+  filterHosts(req: Request, hosts: readonly AggregatedHost[], permission: ResourcePermission): Promise<AggregatedHost[]>;
+  /** Appends `action` to the audit log once `res` has been sent. */
+  audit(req: Request, res: Response, action: string, target?: AuditTarget): void;
+  /**
+   * Appends an action the plugin takes outside any request, such as a command
+   * received from another system, with `plugin:<name>` as the actor.
+   */
+  record(action: string, outcome: AuditOutcome, target?: AuditTarget): Promise<void>;
+}
+
+/** JSON key/value storage scoped to one plugin and kept across restarts. */
+export interface PluginStorage {
+  get<T = unknown>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  keys(): Promise<string[]>;
+}
+
 export interface PluginContext {
+  readonly apiVersion: typeof PLUGIN_API_VERSION;
   eventBus: PluginEventBus;
+  /** This plugin's entry from `CNC_PLUGIN_CONFIG_FILE`, or `{}`. */
+  config: Readonly<Record<string, unknown>>;
+  logger: PluginLogger;
+  hosts: PluginHostsApi;
+  nodes: PluginNodesApi;
+  commands: PluginCommandsApi;
+  access: PluginAccessApi;
+  storage: PluginStorage;
+  /**
+   * Mounted at `/api/plugins/<name>` behind operator/admin authentication.
+   * Errors thrown by handlers are answered with a 500 for this plugin only.
+   */
+  router: Router;
 }
 
 export interface WolyPlugin {
@@ -73,3 +191,9 @@ export interface WolyPlugin {
 }
 
 export type PluginFactory = () => WolyPlugin;
+
+/** Shape of a third-party plugin module (its default export or `module.exports`). */
+export interface WolyPluginModule {
+  apiVersion: number;
+  createPlugin: PluginFactory;
+}
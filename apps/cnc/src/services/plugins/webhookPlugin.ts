@@ -13,7 +13,9 @@ export class WebhookPlugin implements WolyPlugin {
     this.dispatcher = options?.dispatcher ?? new WebhookDispatcher();
   }
 
-  init(context: PluginContext): void {
+  init(context: Pick<PluginContext, 'eventBus'>): void {
+    this.dispatcher.start(context.eventBus);
+
     this.unsubscribers.push(
       context.eventBus.subscribe('host.discovered', (event) => {
         void this.dispatcher.dispatchEvent('host.discovered', event.data);
@@ -55,6 +57,18 @@ export class WebhookPlugin implements WolyPlugin {
         void this.dispatcher.dispatchEvent('scan.complete', event.data);
       })
     );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('schedule.failed', (event) => {
+        void this.dispatcher.dispatchEvent('schedule.failed', event.data);
+      })
+    );
+
+    this.unsubscribers.push(
+      context.eventBus.subscribe('webhook.disabled', (event) => {
+        void this.dispatcher.dispatchEvent('webhook.disabled', event.data);
+      })
+    );
   }
 
   destroy(): void {
@@ -1,10 +1,34 @@
+import { readFile } from 'fs/promises';
 import config from '../config';
+import type { WebPushSubscriptionKeys } from '@kaonis/woly-protocol';
+import type { ApnsEnvironment } from '../types';
+import logger from '../utils/logger';
+import { ApnsProviderTokenSigner, parseApnsAuthKey, type ApnsAuthKey } from './apnsProviderToken';
+import {
+  GoogleAccessTokenProvider,
+  parseGoogleServiceAccount,
+  type GoogleServiceAccount,
+} from './googleServiceAccount';
+import { sendMail, SmtpError, type SmtpConnectionOptions } from './smtpClient';
+import { buildVapidAuthorization, encryptWebPushPayload, parseVapidKeys, type VapidKeys } from './webPush';
+
+/** Android delivery options; FCM only. */
+export interface AndroidMessageOptions {
+  /** Defaults to `high`, which wakes dozing devices. */
+  priority?: 'high' | 'normal';
+  ttlSeconds?: number;
+  collapseKey?: string;
+  /** A notification with the same tag replaces the previous one in the tray. */
+  tag?: string;
+  channelId?: string;
+}
 
 export interface PushNotificationMessage {
   title: string;
   body: string;
   eventType: string;
   data: Record<string, unknown>;
+  android?: AndroidMessageOptions;
 }
 
 export interface PushDispatchResult {
@@ -14,8 +38,16 @@ export interface PushDispatchResult {
   permanentFailure: boolean;
 }
 
+/** Per-device delivery details stored with the registration. */
+export interface PushSendOptions {
+  /** iOS only; defaults to `production`. */
+  apnsEnvironment?: ApnsEnvironment;
+  /** Web Push only. */
+  webPushKeys?: WebPushSubscriptionKeys;
+}
+
 export interface PushNotificationProvider {
-  send(token: string, message: PushNotificationMessage): Promise<PushDispatchResult>;
+  send(token: string, message: PushNotificationMessage, options?: PushSendOptions): Promise<PushDispatchResult>;
 }
 
 function parseResponseText(text: string | null): string | null {
@@ -26,47 +58,145 @@ function parseResponseText(text: string | null): string | null {
   return trimmed.length > 0 ? trimmed : null;
 }
 
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+// Error codes meaning the registration token will never work again.
+const FCM_TOKEN_ERROR_CODES = new Set(['UNREGISTERED', 'SENDER_ID_MISMATCH']);
+
+type FcmCredentials = {
+  projectId: string;
+  tokens: GoogleAccessTokenProvider;
+};
+
+/** FCM v1 `data` values must be strings. */
+function toFcmData(message: PushNotificationMessage): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const [key, value] of Object.entries({ eventType: message.eventType, ...message.data })) {
+    if (value !== null && value !== undefined) {
+      data[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  }
+  return data;
+}
+
+function toFcmAndroidConfig(options: AndroidMessageOptions = {}): Record<string, unknown> {
+  const notification: Record<string, string> = {};
+  if (options.tag) {
+    notification.tag = options.tag;
+  }
+  if (options.channelId) {
+    notification.channel_id = options.channelId;
+  }
+
+  return {
+    priority: options.priority ?? 'high',
+    ...(options.ttlSeconds !== undefined ? { ttl: `${options.ttlSeconds}s` } : {}),
+    ...(options.collapseKey ? { collapse_key: options.collapseKey } : {}),
+    ...(Object.keys(notification).length > 0 ? { notification } : {}),
+  };
+}
+
+/** Reads `error.details[].errorCode` (falling back to `error.status`) from an FCM v1 error body. */
+function parseFcmError(text: string | null): { code: string | null; message: string | null } {
+  if (!text) {
+    return { code: null, message: null };
+  }
+
+  try {
+    const body = JSON.parse(text) as {
+      error?: { status?: unknown; message?: unknown; details?: Array<{ errorCode?: unknown }> };
+    };
+    const detailCode = body.error?.details?.find((detail) => typeof detail.errorCode === 'string')?.errorCode;
+    const code = typeof detailCode === 'string' ? detailCode : body.error?.status;
+    return {
+      code: typeof code === 'string' ? code : null,
+      message: typeof body.error?.message === 'string' ? body.error.message : text,
+    };
+  } catch {
+    return { code: null, message: text };
+  }
+}
+
+/**
+ * Sends through the FCM HTTP v1 API, authenticated with OAuth2 access tokens
+ * minted from a service account key file.
+ */
 export class FcmPushNotificationProvider implements PushNotificationProvider {
   private readonly fetchImpl: typeof fetch;
-  private readonly serverKey: string;
-  private readonly endpoint: string;
+  private readonly serviceAccount: GoogleServiceAccount | null | undefined;
+  private readonly serviceAccountFile: string;
+  private readonly projectId: string;
+  private readonly apiBaseUrl: string;
+  private credentials: Promise<FcmCredentials | null> | null = null;
 
-  constructor(options?: { fetchImpl?: typeof fetch; serverKey?: string; endpoint?: string }) {
+  constructor(options?: {
+    fetchImpl?: typeof fetch;
+    serviceAccount?: GoogleServiceAccount | null;
+    serviceAccountFile?: string;
+    projectId?: string;
+    apiBaseUrl?: string;
+  }) {
     this.fetchImpl = options?.fetchImpl ?? fetch;
-    this.serverKey = options?.serverKey ?? config.fcmServerKey;
-    this.endpoint = options?.endpoint ?? 'https://fcm.googleapis.com/fcm/send';
+    this.serviceAccount = options?.serviceAccount;
+    this.serviceAccountFile = options?.serviceAccountFile ?? config.fcmServiceAccountFile;
+    this.projectId = options?.projectId ?? config.fcmProjectId;
+    this.apiBaseUrl = options?.apiBaseUrl ?? config.fcmApiBaseUrl;
   }
 
   async send(token: string, message: PushNotificationMessage): Promise<PushDispatchResult> {
-    if (!this.serverKey) {
+    let credentials: FcmCredentials | null;
+    try {
+      credentials = await this.getCredentials();
+    } catch (error) {
       return {
         success: false,
         statusCode: null,
-        error: 'FCM server key is not configured',
+        error: `FCM service account could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
         permanentFailure: false,
       };
     }
 
-    const response = await this.fetchImpl(this.endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `key=${this.serverKey}`,
-      },
-      body: JSON.stringify({
-        to: token,
-        priority: 'high',
+    if (!credentials) {
+      return {
+        success: false,
+        statusCode: null,
+        error: 'FCM service account is not configured',
+        permanentFailure: false,
+      };
+    }
+
+    const endpoint = `${this.apiBaseUrl.replace(/\/$/, '')}/v1/projects/${encodeURIComponent(
+      credentials.projectId,
+    )}/messages:send`;
+    const body = JSON.stringify({
+      message: {
+        token,
         notification: {
           title: message.title,
           body: message.body,
         },
-        data: {
-          eventType: message.eventType,
-          ...message.data,
-        },
-      }),
+        data: toFcmData(message),
+        android: toFcmAndroidConfig(message.android),
+      },
     });
 
+    let response: Response;
+    try {
+      response = await this.post(endpoint, body, credentials.tokens);
+      // A revoked or expired access token is retried once with a fresh one.
+      if (response.status === 401) {
+        credentials.tokens.invalidate();
+        response = await this.post(endpoint, body, credentials.tokens);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+        permanentFailure: false,
+      };
+    }
+
     if (response.ok) {
       return {
         success: true,
@@ -76,37 +206,132 @@ export class FcmPushNotificationProvider implements PushNotificationProvider {
       };
     }
 
-    const text = parseResponseText(await response.text().catch(() => null));
+    const fcmError = parseFcmError(parseResponseText(await response.text().catch(() => null)));
     const permanentFailure =
-      response.status === 400 ||
-      response.status === 404 ||
-      response.status === 410 ||
-      (text !== null && /NotRegistered|InvalidRegistration/i.test(text));
+      (fcmError.code !== null && FCM_TOKEN_ERROR_CODES.has(fcmError.code)) ||
+      (fcmError.code === 'INVALID_ARGUMENT' &&
+        fcmError.message !== null &&
+        /registration token/i.test(fcmError.message));
 
     return {
       success: false,
       statusCode: response.status,
-      error: text,
+      error: fcmError.code ? `${fcmError.code}: ${fcmError.message ?? ''}`.trim() : fcmError.message,
       permanentFailure,
     };
   }
+
+  private async post(endpoint: string, body: string, tokens: GoogleAccessTokenProvider): Promise<Response> {
+    const accessToken = await tokens.getAccessToken();
+    return this.fetchImpl(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body,
+    });
+  }
+
+  /** Loads the key file once; a failed load is retried on the next send. */
+  private getCredentials(): Promise<FcmCredentials | null> {
+    this.credentials ??= this.loadCredentials().catch((error: unknown) => {
+      this.credentials = null;
+      logger.error('Failed to load FCM service account', {
+        file: this.serviceAccountFile,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    });
+    return this.credentials;
+  }
+
+  private async loadCredentials(): Promise<FcmCredentials | null> {
+    let account = this.serviceAccount ?? null;
+    if (this.serviceAccount === undefined && this.serviceAccountFile) {
+      account = parseGoogleServiceAccount(await readFile(this.serviceAccountFile, 'utf8'));
+    }
+
+    if (!account) {
+      return null;
+    }
+
+    return {
+      projectId: this.projectId || account.projectId,
+      tokens: new GoogleAccessTokenProvider(account, { scope: FCM_SCOPE, fetchImpl: this.fetchImpl }),
+    };
+  }
 }
 
+const APNS_PROVIDER_TOKEN_REASONS = new Set(['ExpiredProviderToken', 'InvalidProviderToken']);
+
+// 400 reasons meaning the device token itself is bad; other 400s are payload or header problems.
+const APNS_BAD_TOKEN_REASONS = new Set(['BadDeviceToken', 'DeviceTokenNotForTopic']);
+
+/** Reads `reason` from an APNs error body. */
+function parseApnsReason(text: string | null): string | null {
+  if (!text) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(text) as { reason?: unknown };
+    return typeof body.reason === 'string' ? body.reason : text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Sends through APNs with token-based authentication. Provider tokens are
+ * signed from a `.p8` auth key and refreshed before Apple expires them.
+ */
 export class ApnsPushNotificationProvider implements PushNotificationProvider {
   private readonly fetchImpl: typeof fetch;
-  private readonly bearerToken: string;
+  private readonly authKey: ApnsAuthKey | null | undefined;
+  private readonly keyFile: string;
+  private readonly keyId: string;
+  private readonly teamId: string;
   private readonly topic: string;
-  private readonly host: string;
+  private readonly hosts: Record<ApnsEnvironment, string>;
+  private signer: Promise<ApnsProviderTokenSigner | null> | null = null;
 
-  constructor(options?: { fetchImpl?: typeof fetch; bearerToken?: string; topic?: string; host?: string }) {
+  constructor(options?: {
+    fetchImpl?: typeof fetch;
+    authKey?: ApnsAuthKey | null;
+    keyFile?: string;
+    keyId?: string;
+    teamId?: string;
+    topic?: string;
+    host?: string;
+    sandboxHost?: string;
+  }) {
     this.fetchImpl = options?.fetchImpl ?? fetch;
-    this.bearerToken = options?.bearerToken ?? config.apnsBearerToken;
+    this.authKey = options?.authKey;
+    this.keyFile = options?.keyFile ?? config.apnsKeyFile;
+    this.keyId = options?.keyId ?? config.apnsKeyId;
+    this.teamId = options?.teamId ?? config.apnsTeamId;
     this.topic = options?.topic ?? config.apnsTopic;
-    this.host = options?.host ?? config.apnsHost;
+    this.hosts = {
+      production: options?.host ?? config.apnsHost,
+      sandbox: options?.sandboxHost ?? config.apnsSandboxHost,
+    };
   }
 
-  async send(token: string, message: PushNotificationMessage): Promise<PushDispatchResult> {
-    if (!this.bearerToken || !this.topic) {
+  async send(token: string, message: PushNotificationMessage, options?: PushSendOptions): Promise<PushDispatchResult> {
+    let signer: ApnsProviderTokenSigner | null;
+    try {
+      signer = await this.getSigner();
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: null,
+        error: `APNS auth key could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+        permanentFailure: false,
+      };
+    }
+
+    if (!signer || !this.topic) {
       return {
         success: false,
         statusCode: null,
@@ -115,29 +340,181 @@ export class ApnsPushNotificationProvider implements PushNotificationProvider {
       };
     }
 
-    const endpoint = `${this.host.replace(/\/$/, '')}/3/device/${encodeURIComponent(token)}`;
-    const response = await this.fetchImpl(endpoint, {
+    const host = this.hosts[options?.apnsEnvironment ?? 'production'];
+    const endpoint = `${host.replace(/\/$/, '')}/3/device/${encodeURIComponent(token)}`;
+    const body = JSON.stringify({
+      aps: {
+        alert: {
+          title: message.title,
+          body: message.body,
+        },
+        sound: 'default',
+      },
+      data: {
+        eventType: message.eventType,
+        ...message.data,
+      },
+    });
+
+    let response: Response;
+    let reason: string | null = null;
+    try {
+      response = await this.post(endpoint, body, signer);
+      // A provider token APNs no longer accepts is re-signed and the send retried once.
+      if (response.status === 403) {
+        reason = parseApnsReason(parseResponseText(await response.text().catch(() => null)));
+        if (reason !== null && APNS_PROVIDER_TOKEN_REASONS.has(reason)) {
+          signer.invalidate();
+          response = await this.post(endpoint, body, signer);
+          reason = null;
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+        permanentFailure: false,
+      };
+    }
+
+    if (response.ok) {
+      return {
+        success: true,
+        statusCode: response.status,
+        error: null,
+        permanentFailure: false,
+      };
+    }
+
+    reason ??= parseApnsReason(parseResponseText(await response.text().catch(() => null)));
+    const permanentFailure =
+      response.status === 410 || (response.status === 400 && reason !== null && APNS_BAD_TOKEN_REASONS.has(reason));
+
+    return {
+      success: false,
+      statusCode: response.status,
+      error: reason,
+      permanentFailure,
+    };
+  }
+
+  private post(endpoint: string, body: string, signer: ApnsProviderTokenSigner): Promise<Response> {
+    return this.fetchImpl(endpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `bearer ${this.bearerToken}`,
+        Authorization: `bearer ${signer.getToken()}`,
         'apns-topic': this.topic,
         'apns-push-type': 'alert',
       },
-      body: JSON.stringify({
-        aps: {
-          alert: {
-            title: message.title,
-            body: message.body,
-          },
-          sound: 'default',
-        },
-        data: {
-          eventType: message.eventType,
-          ...message.data,
-        },
-      }),
+      body,
+    });
+  }
+
+  /** Loads the auth key once; a failed load is retried on the next send. */
+  private getSigner(): Promise<ApnsProviderTokenSigner | null> {
+    this.signer ??= this.loadSigner().catch((error: unknown) => {
+      this.signer = null;
+      logger.error('Failed to load APNS auth key', {
+        file: this.keyFile,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
     });
+    return this.signer;
+  }
+
+  private async loadSigner(): Promise<ApnsProviderTokenSigner | null> {
+    let authKey = this.authKey ?? null;
+    if (this.authKey === undefined && this.keyFile) {
+      authKey = parseApnsAuthKey(await readFile(this.keyFile, 'utf8'), this.keyId, this.teamId);
+    }
+
+    return authKey ? new ApnsProviderTokenSigner(authKey) : null;
+  }
+}
+
+const WEB_PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Sends to browser push subscriptions with an encrypted payload, signed with
+ * the VAPID key pair whose public key the dashboard subscribed with.
+ */
+export class WebPushNotificationProvider implements PushNotificationProvider {
+  private readonly fetchImpl: typeof fetch;
+  private vapidKeys: VapidKeys | null | undefined;
+  private readonly publicKey: string;
+  private readonly privateKey: string;
+  private readonly subject: string;
+
+  constructor(options?: {
+    fetchImpl?: typeof fetch;
+    vapidKeys?: VapidKeys | null;
+    publicKey?: string;
+    privateKey?: string;
+    subject?: string;
+  }) {
+    this.fetchImpl = options?.fetchImpl ?? fetch;
+    this.vapidKeys = options?.vapidKeys;
+    this.publicKey = options?.publicKey ?? config.webPushVapidPublicKey;
+    this.privateKey = options?.privateKey ?? config.webPushVapidPrivateKey;
+    this.subject = options?.subject ?? config.webPushVapidSubject;
+  }
+
+  async send(
+    endpoint: string,
+    message: PushNotificationMessage,
+    options?: PushSendOptions,
+  ): Promise<PushDispatchResult> {
+    let vapidKeys: VapidKeys | null;
+    try {
+      vapidKeys = this.getVapidKeys();
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: null,
+        error: `VAPID keys are invalid: ${error instanceof Error ? error.message : String(error)}`,
+        permanentFailure: false,
+      };
+    }
+
+    if (!vapidKeys) {
+      return {
+        success: false,
+        statusCode: null,
+        error: 'Web Push VAPID keys are not configured',
+        permanentFailure: false,
+      };
+    }
+
+    let response: Response;
+    try {
+      if (!options?.webPushKeys) {
+        throw new Error('Web Push subscription keys are missing');
+      }
+      const payload = Buffer.from(
+        JSON.stringify({ title: message.title, body: message.body, eventType: message.eventType, data: message.data }),
+        'utf8',
+      );
+      response = await this.fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Encoding': 'aes128gcm',
+          TTL: String(WEB_PUSH_TTL_SECONDS),
+          Authorization: buildVapidAuthorization(endpoint, vapidKeys, Math.floor(Date.now() / 1000)),
+        },
+        body: encryptWebPushPayload(payload, options.webPushKeys),
+      });
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+        permanentFailure: false,
+      };
+    }
 
     if (response.ok) {
       return {
@@ -148,14 +525,151 @@ export class ApnsPushNotificationProvider implements PushNotificationProvider {
       };
     }
 
-    const text = parseResponseText(await response.text().catch(() => null));
-    const permanentFailure = response.status === 400 || response.status === 410;
+    return {
+      success: false,
+      statusCode: response.status,
+      error: parseResponseText(await response.text().catch(() => null)),
+      // The subscription expired or the user revoked permission.
+      permanentFailure: response.status === 404 || response.status === 410,
+    };
+  }
+
+  private getVapidKeys(): VapidKeys | null {
+    if (this.vapidKeys === undefined) {
+      this.vapidKeys =
+        this.publicKey && this.privateKey && this.subject
+          ? parseVapidKeys(this.publicKey, this.privateKey, this.subject)
+          : null;
+    }
+
+    return this.vapidKeys;
+  }
+}
+
+/**
+ * Publishes to ntfy topics. A topic registered by name is published on
+ * `NTFY_BASE_URL`; a full topic URL may point at any ntfy server.
+ */
+export class NtfyNotificationProvider implements PushNotificationProvider {
+  private readonly fetchImpl: typeof fetch;
+  private readonly baseUrl: string;
+  private readonly accessToken: string;
+
+  constructor(options?: { fetchImpl?: typeof fetch; baseUrl?: string; accessToken?: string }) {
+    this.fetchImpl = options?.fetchImpl ?? fetch;
+    this.baseUrl = options?.baseUrl ?? config.ntfyBaseUrl;
+    this.accessToken = options?.accessToken ?? config.ntfyAccessToken;
+  }
+
+  async send(topic: string, message: PushNotificationMessage): Promise<PushDispatchResult> {
+    const baseUrl = this.baseUrl.replace(/\/$/, '');
+    const topicUrl = new URL(/^https?:\/\//.test(topic) ? topic : `${baseUrl}/${encodeURIComponent(topic)}`);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // The access token belongs to the configured server and is never sent elsewhere.
+    if (this.accessToken && topicUrl.origin === new URL(baseUrl).origin) {
+      headers.Authorization = `Bearer ${this.accessToken}`;
+    }
+
+    let response: Response;
+    try {
+      // JSON publishing keeps non-ASCII titles out of HTTP headers.
+      response = await this.fetchImpl(`${topicUrl.origin}/`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          topic: decodeURIComponent(topicUrl.pathname.replace(/^\//, '')),
+          title: message.title,
+          message: message.body,
+          tags: [message.eventType],
+        }),
+      });
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: null,
+        error: error instanceof Error ? error.message : String(error),
+        permanentFailure: false,
+      };
+    }
+
+    if (response.ok) {
+      return {
+        success: true,
+        statusCode: response.status,
+        error: null,
+        permanentFailure: false,
+      };
+    }
 
     return {
       success: false,
       statusCode: response.status,
-      error: text,
-      permanentFailure,
+      error: parseResponseText(await response.text().catch(() => null)),
+      permanentFailure: false,
+    };
+  }
+}
+
+// RCPT replies meaning the mailbox does not exist or is not accepted.
+const SMTP_PERMANENT_RECIPIENT_CODES = new Set([550, 551, 553]);
+
+function smtpOptionsFromConfig(): SmtpConnectionOptions | null {
+  if (!config.smtpHost) {
+    return null;
+  }
+
+  return {
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    username: config.smtpUsername || undefined,
+    password: config.smtpPassword || undefined,
+  };
+}
+
+/** Sends plain-text notification mail through the configured SMTP server. */
+export class EmailNotificationProvider implements PushNotificationProvider {
+  private readonly smtp: SmtpConnectionOptions | null;
+  private readonly from: string;
+
+  constructor(options?: { smtp?: SmtpConnectionOptions | null; from?: string }) {
+    this.smtp = options?.smtp !== undefined ? options.smtp : smtpOptionsFromConfig();
+    this.from = options?.from ?? config.smtpFrom;
+  }
+
+  async send(address: string, message: PushNotificationMessage): Promise<PushDispatchResult> {
+    if (!this.smtp || !this.from) {
+      return {
+        success: false,
+        statusCode: null,
+        error: 'SMTP is not configured',
+        permanentFailure: false,
+      };
+    }
+
+    try {
+      await sendMail(this.smtp, {
+        from: this.from,
+        to: address,
+        subject: `WoLy: ${message.title}`,
+        text: `${message.body}\n\n-- \nWoLy C&C notification (${message.eventType})\n`,
+      });
+    } catch (error) {
+      const smtpError = error instanceof SmtpError ? error : null;
+      return {
+        success: false,
+        statusCode: smtpError?.code ?? null,
+        error: error instanceof Error ? error.message : String(error),
+        permanentFailure:
+          smtpError?.command === 'RCPT' && SMTP_PERMANENT_RECIPIENT_CODES.has(smtpError.code ?? 0),
+      };
+    }
+
+    return {
+      success: true,
+      statusCode: 250,
+      error: null,
+      permanentFailure: false,
     };
   }
 }
@@ -1,12 +1,20 @@
 import type { PushNotificationEventType, PushNotificationPlatform } from '@kaonis/woly-protocol';
 import config from '../config';
-import PushNotificationModel, { DEFAULT_NOTIFICATION_PREFERENCES } from '../models/PushNotification';
+import PushNotificationModel, {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationHostScope,
+  type StoredPushDevice,
+} from '../models/PushNotification';
+import type { NotificationPreferences, NotificationRule } from '../types';
 import logger from '../utils/logger';
 import {
   ApnsPushNotificationProvider,
+  EmailNotificationProvider,
   FcmPushNotificationProvider,
+  NtfyNotificationProvider,
   type PushNotificationMessage,
   type PushNotificationProvider,
+  WebPushNotificationProvider,
 } from './pushNotificationProvider';
 
 function resolveHour(date: Date, timezone?: string): number {
@@ -54,6 +62,11 @@ function normalizePayload(payload: Record<string, unknown>): Record<string, unkn
   return Object.fromEntries(Object.entries(payload).map(([key, value]) => [key, value ?? null]));
 }
 
+/** Awake and asleep notifications for the same host replace each other on Android. */
+function hostStatusTag(payload: Record<string, unknown>): string {
+  return `host-status:${String(payload.hostFqn ?? payload.hostName ?? 'unknown')}`;
+}
+
 function buildMessage(eventType: PushNotificationEventType, payload: Record<string, unknown>): PushNotificationMessage {
   switch (eventType) {
     case 'host.awake':
@@ -62,6 +75,7 @@ function buildMessage(eventType: PushNotificationEventType, payload: Record<stri
         body: `${String(payload.hostFqn ?? payload.hostName ?? 'A host')} is now awake`,
         eventType,
         data: normalizePayload(payload),
+        android: { tag: hostStatusTag(payload) },
       };
     case 'host.asleep':
       return {
@@ -69,6 +83,7 @@ function buildMessage(eventType: PushNotificationEventType, payload: Record<stri
         body: `${String(payload.hostFqn ?? payload.hostName ?? 'A host')} is now asleep`,
         eventType,
         data: normalizePayload(payload),
+        android: { tag: hostStatusTag(payload) },
       };
     case 'scan.complete':
       return {
@@ -84,6 +99,15 @@ function buildMessage(eventType: PushNotificationEventType, payload: Record<stri
         eventType,
         data: normalizePayload(payload),
       };
+    case 'schedule.failed':
+      return {
+        title: 'Scheduled Action Failed',
+        body: `${String(payload.hostFqn ?? 'Host')} ${String(payload.action ?? 'wake')} schedule failed: ${String(
+          payload.error ?? 'unknown error',
+        )}`,
+        eventType,
+        data: normalizePayload(payload),
+      };
     case 'node.disconnected':
       return {
         title: 'Node Offline',
@@ -101,23 +125,144 @@ function buildMessage(eventType: PushNotificationEventType, payload: Record<stri
   }
 }
 
+type DigestEntry = {
+  eventType: PushNotificationEventType;
+  payload: Record<string, unknown>;
+};
+
+/** Open digest window for one user and host (or node); events inside it are held back. */
+type DigestWindow = {
+  userId: string;
+  subject: string;
+  digestMinutes: number;
+  pending: DigestEntry[];
+  timer: NodeJS.Timeout;
+};
+
+type Delivery = { digestMinutes: number | null };
+
+const DEFAULT_ASLEEP_CHECK_INTERVAL_MS = 60_000;
+
+function buildDigestMessage(subject: string, entries: DigestEntry[]): PushNotificationMessage {
+  const latest = entries[entries.length - 1];
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(entry.eventType, (counts.get(entry.eventType) ?? 0) + 1);
+  }
+  const summary = Array.from(counts, ([eventType, count]) => `${count}x ${eventType}`).join(', ');
+
+  return {
+    title: 'Notification Digest',
+    body: `${subject}: ${entries.length} more ${entries.length === 1 ? 'event' : 'events'} (${summary})`,
+    eventType: latest.eventType,
+    data: { ...normalizePayload(latest.payload), digestCount: entries.length },
+  };
+}
+
+function buildAsleepTooLongMessage(hostFqn: string, asleepSince: string, minutes: number): PushNotificationMessage {
+  return {
+    title: 'Host Still Asleep',
+    body: `${hostFqn} has been asleep for more than ${minutes} minutes`,
+    eventType: 'host.asleep',
+    data: { hostFqn, asleepSince, asleepLongerThanMinutes: minutes },
+    android: { tag: hostStatusTag({ hostFqn }) },
+  };
+}
+
+function ruleMatches(rule: NotificationRule, scope: NotificationHostScope): boolean {
+  switch (rule.scope) {
+    case 'host':
+      return scope.hostFqn === rule.target;
+    case 'tag':
+      return scope.tags.includes(rule.target);
+    case 'group':
+      return scope.groupIds.includes(rule.target);
+    case 'node':
+      return scope.nodeId === rule.target;
+  }
+}
+
+/**
+ * Decides whether a user gets `eventType` for `scope`. Rules matching the
+ * host or node replace the global event list; a digest window only applies
+ * when every matching rule that enables the event asks for one.
+ */
+function resolveDelivery(
+  preferences: NotificationPreferences,
+  eventType: PushNotificationEventType,
+  scope: NotificationHostScope | null,
+): Delivery | null {
+  const matching = scope ? (preferences.rules ?? []).filter((rule) => ruleMatches(rule, scope)) : [];
+  if (matching.length === 0) {
+    return preferences.events.includes(eventType) ? { digestMinutes: null } : null;
+  }
+
+  const enabling = matching.filter((rule) => rule.events.includes(eventType));
+  if (enabling.length === 0) {
+    return null;
+  }
+
+  const digestMinutes = enabling.map((rule) => rule.digestMinutes);
+  if (digestMinutes.some((minutes) => minutes === undefined)) {
+    return { digestMinutes: null };
+  }
+  return { digestMinutes: Math.min(...(digestMinutes as number[])) };
+}
+
 type PushNotificationServiceOptions = {
   now?: () => Date;
   providers?: Partial<Record<PushNotificationPlatform, PushNotificationProvider>>;
+  /** How often `asleepLongerThanMinutes` rules are evaluated. */
+  asleepCheckIntervalMs?: number;
 };
 
 export class PushNotificationService {
   private readonly now: () => Date;
   private readonly providers: Record<PushNotificationPlatform, PushNotificationProvider>;
+  private readonly asleepCheckIntervalMs: number;
+  private readonly digests = new Map<string, DigestWindow>();
+  private asleepCheckTimer: NodeJS.Timeout | null = null;
+  private asleepCheckRunning = false;
+  private lastAsleepCheckAt: Date | null = null;
 
   constructor(options?: PushNotificationServiceOptions) {
     this.now = options?.now ?? (() => new Date());
+    this.asleepCheckIntervalMs = options?.asleepCheckIntervalMs ?? DEFAULT_ASLEEP_CHECK_INTERVAL_MS;
     this.providers = {
       android: options?.providers?.android ?? new FcmPushNotificationProvider(),
       ios: options?.providers?.ios ?? new ApnsPushNotificationProvider(),
+      web: options?.providers?.web ?? new WebPushNotificationProvider(),
+      ntfy: options?.providers?.ntfy ?? new NtfyNotificationProvider(),
+      email: options?.providers?.email ?? new EmailNotificationProvider(),
     };
   }
 
+  /** Starts evaluating `asleepLongerThanMinutes` rules against host status history. */
+  start(): void {
+    if (this.asleepCheckTimer) {
+      return;
+    }
+
+    this.lastAsleepCheckAt = this.now();
+    this.asleepCheckTimer = setInterval(() => {
+      void this.checkAsleepHosts();
+    }, this.asleepCheckIntervalMs);
+    this.asleepCheckTimer.unref();
+  }
+
+  /** Stops the asleep check and drops digests that have not been sent yet. */
+  stop(): void {
+    if (this.asleepCheckTimer) {
+      clearInterval(this.asleepCheckTimer);
+      this.asleepCheckTimer = null;
+    }
+
+    for (const digest of this.digests.values()) {
+      clearTimeout(digest.timer);
+    }
+    this.digests.clear();
+  }
+
   async sendEvent(eventType: PushNotificationEventType, payload: Record<string, unknown>): Promise<void> {
     if (!config.pushNotificationsEnabled) {
       return;
@@ -128,25 +273,215 @@ export class PushNotificationService {
       return;
     }
 
-    const userIds = devices.map((device) => device.userId);
-    const preferencesByUser = await PushNotificationModel.getPreferencesByUsers(userIds);
+    const devicesByUser = this.groupDevicesByUser(devices);
+    const preferencesByUser = await PushNotificationModel.getPreferencesByUsers([...devicesByUser.keys()]);
     const now = this.now();
+    const message = buildMessage(eventType, payload);
+    let scope: NotificationHostScope | null | undefined;
 
-    for (const device of devices) {
-      const preferences = preferencesByUser.get(device.userId) ?? DEFAULT_NOTIFICATION_PREFERENCES;
-      if (!preferences.enabled || !preferences.events.includes(eventType)) {
+    for (const [userId, userDevices] of devicesByUser) {
+      const preferences = preferencesByUser.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+      if (!preferences.enabled) {
         continue;
       }
 
-      if (isWithinQuietHours(preferences.quietHours ?? null, now)) {
+      // Host lookups are only needed once someone has rules to match them against.
+      if (scope === undefined && (preferences.rules?.length ?? 0) > 0) {
+        scope = await this.resolveEventScope(payload);
+      }
+
+      const delivery = resolveDelivery(preferences, eventType, scope ?? null);
+      if (!delivery || isWithinQuietHours(preferences.quietHours ?? null, now)) {
+        continue;
+      }
+
+      if (delivery.digestMinutes !== null) {
+        const subject = String(payload.hostFqn ?? payload.nodeId ?? 'unknown');
+        if (!this.openDigestWindow(userId, subject, delivery.digestMinutes, { eventType, payload })) {
+          continue;
+        }
+      }
+
+      await this.deliver(userDevices, message);
+    }
+  }
+
+  /**
+   * Notifies users whose `asleepLongerThanMinutes` threshold was crossed
+   * since the previous check. Runs on an interval after `start()`.
+   */
+  async checkAsleepHosts(): Promise<void> {
+    if (this.asleepCheckRunning) {
+      return;
+    }
+
+    const now = this.now();
+    const previousCheck = this.lastAsleepCheckAt;
+    this.lastAsleepCheckAt = now;
+    if (!previousCheck || !config.pushNotificationsEnabled) {
+      return;
+    }
+
+    this.asleepCheckRunning = true;
+    try {
+      await this.notifyAsleepHosts(previousCheck, now);
+    } catch (error) {
+      logger.error('Failed to evaluate asleep host notification rules', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.asleepCheckRunning = false;
+    }
+  }
+
+  private async notifyAsleepHosts(previousCheck: Date, now: Date): Promise<void> {
+    const devices = await PushNotificationModel.listAllDevices();
+    const devicesByUser = this.groupDevicesByUser(devices);
+    const preferencesByUser = await PushNotificationModel.getPreferencesByUsers([...devicesByUser.keys()]);
+
+    const rulesByUser = new Map<string, { preferences: NotificationPreferences; rules: NotificationRule[] }>();
+    for (const [userId, preferences] of preferencesByUser) {
+      const rules = (preferences.rules ?? []).filter((rule) => rule.asleepLongerThanMinutes !== undefined);
+      if (preferences.enabled && rules.length > 0 && devicesByUser.has(userId)) {
+        rulesByUser.set(userId, { preferences, rules });
+      }
+    }
+    if (rulesByUser.size === 0) {
+      return;
+    }
+
+    const thresholds = [...rulesByUser.values()].flatMap(({ rules }) =>
+      rules.map((rule) => rule.asleepLongerThanMinutes as number),
+    );
+    const minutesToMs = 60 * 1000;
+    const candidates = await PushNotificationModel.listHostsAsleepSince(
+      new Date(previousCheck.getTime() - Math.max(...thresholds) * minutesToMs).toISOString(),
+      new Date(now.getTime() - Math.min(...thresholds) * minutesToMs).toISOString(),
+    );
+
+    for (const candidate of candidates) {
+      const asleepSinceMs = new Date(candidate.asleepSince).getTime();
+      const scope = await this.resolveEventScope({ hostFqn: candidate.hostFqn });
+      if (!scope) {
         continue;
       }
 
+      for (const [userId, { preferences, rules }] of rulesByUser) {
+        // Each threshold fires once: when it falls between the previous check and this one.
+        const crossed = rules.find((rule) => {
+          const thresholdAt = asleepSinceMs + (rule.asleepLongerThanMinutes as number) * minutesToMs;
+          return ruleMatches(rule, scope) && thresholdAt > previousCheck.getTime() && thresholdAt <= now.getTime();
+        });
+        if (!crossed || isWithinQuietHours(preferences.quietHours ?? null, now)) {
+          continue;
+        }
+
+        const minutes = crossed.asleepLongerThanMinutes as number;
+        await this.deliver(
+          devicesByUser.get(userId) ?? [],
+          buildAsleepTooLongMessage(candidate.hostFqn, candidate.asleepSince, minutes),
+        );
+      }
+    }
+  }
+
+  private groupDevicesByUser(devices: StoredPushDevice[]): Map<string, StoredPushDevice[]> {
+    const grouped = new Map<string, StoredPushDevice[]>();
+    for (const device of devices) {
+      const existing = grouped.get(device.userId);
+      if (existing) {
+        existing.push(device);
+      } else {
+        grouped.set(device.userId, [device]);
+      }
+    }
+    return grouped;
+  }
+
+  private async resolveEventScope(payload: Record<string, unknown>): Promise<NotificationHostScope | null> {
+    if (typeof payload.hostFqn === 'string') {
+      try {
+        return await PushNotificationModel.getHostScope(payload.hostFqn);
+      } catch (error) {
+        logger.warn('Failed to resolve host for notification rules', {
+          hostFqn: payload.hostFqn,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { hostFqn: payload.hostFqn, nodeId: null, tags: [], groupIds: [] };
+      }
+    }
+
+    if (typeof payload.nodeId === 'string') {
+      return { hostFqn: null, nodeId: payload.nodeId, tags: [], groupIds: [] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns true when the event should be sent now and opens a window that
+   * holds back later events for the same user and subject. Held-back events
+   * are sent as one digest when the window closes, which opens the next one.
+   */
+  private openDigestWindow(userId: string, subject: string, digestMinutes: number, entry: DigestEntry): boolean {
+    const key = `${userId}\n${subject}`;
+    const existing = this.digests.get(key);
+    if (existing) {
+      existing.pending.push(entry);
+      return false;
+    }
+
+    this.scheduleDigest(key, { userId, subject, digestMinutes, pending: [] });
+    return true;
+  }
+
+  private scheduleDigest(key: string, window: Omit<DigestWindow, 'timer'>): void {
+    const timer = setTimeout(() => {
+      void this.flushDigest(key);
+    }, window.digestMinutes * 60 * 1000);
+    timer.unref();
+    this.digests.set(key, { ...window, timer });
+  }
+
+  private async flushDigest(key: string): Promise<void> {
+    const window = this.digests.get(key);
+    this.digests.delete(key);
+    if (!window || window.pending.length === 0) {
+      return;
+    }
+
+    this.scheduleDigest(key, { ...window, pending: [] });
+    try {
+      const devices = (await PushNotificationModel.listAllDevices()).filter(
+        (device) => device.userId === window.userId,
+      );
+      const preferences =
+        (await PushNotificationModel.getPreferencesByUsers([window.userId])).get(window.userId) ??
+        DEFAULT_NOTIFICATION_PREFERENCES;
+      if (!preferences.enabled || isWithinQuietHours(preferences.quietHours ?? null, this.now())) {
+        return;
+      }
+
+      await this.deliver(devices, buildDigestMessage(window.subject, window.pending));
+    } catch (error) {
+      logger.error('Failed to send notification digest', {
+        userId: window.userId,
+        subject: window.subject,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async deliver(devices: StoredPushDevice[], message: PushNotificationMessage): Promise<void> {
+    const { eventType } = message;
+    for (const device of devices) {
       const provider = this.providers[device.platform];
-      const message = buildMessage(eventType, payload);
 
       try {
-        const result = await provider.send(device.token, message);
+        const result = await provider.send(device.token, message, {
+          apnsEnvironment: device.apnsEnvironment,
+          webPushKeys: device.webPushKeys,
+        });
         if (!result.success) {
           logger.warn('Push delivery attempt failed', {
             eventType,
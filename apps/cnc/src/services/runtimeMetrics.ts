@@ -9,6 +9,8 @@ const TRACKED_COMMAND_TYPES = [
   'ping-host',
   'sleep-host',
   'shutdown-host',
+  'power-host',
+  'query-host-power',
 ] as const;
 
 type CommandOutcomeSnapshot = {
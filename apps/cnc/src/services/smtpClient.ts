@@ -0,0 +1,238 @@
+/**
+ * Minimal SMTP submission client for plain-text notification mail.
+ *
+ * Supports implicit TLS (port 465), STARTTLS when the server offers it, and
+ * AUTH PLAIN. One connection is opened per message.
+ */
+
+import { randomUUID } from 'crypto';
+import net from 'net';
+import tls from 'tls';
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte; otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+  /** Test hook, e.g. to trust a self-signed certificate. */
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+type SmtpReply = { code: number; lines: string[] };
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    /** Reply code from the server, or null for connection errors. */
+    readonly code: number | null,
+    /** SMTP command that was rejected. */
+    readonly command: string | null,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'SmtpError';
+  }
+}
+
+/** RFC 2047 encoded-word for header values that are not plain ASCII. */
+function encodeHeaderValue(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+function extractAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+function buildMessageData(message: MailMessage, host: string): string {
+  const domain = extractAddress(message.from).split('@')[1] ?? host;
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  return [
+    `From: ${encodeHeaderValue(message.from)}`,
+    `To: ${encodeHeaderValue(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? []),
+  ].join('\r\n');
+}
+
+/** Reads CRLF-delimited replies, joining `250-` continuation lines. */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private pending: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private replies: SmtpReply[] = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(new SmtpError(error.message, null, null)));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed unexpectedly', null, null)));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index = this.buffer.indexOf('\r\n');
+    while (index >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number.parseInt(line.slice(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        const waiter = this.pending.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+      index = this.buffer.indexOf('\r\n');
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    for (const waiter of this.pending.splice(0)) {
+      waiter.reject(this.failure);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => this.pending.push({ resolve, reject }));
+  }
+
+  /** Sends `line` and fails unless the reply code is in `expected`. */
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string | null): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const text = reply.lines.join(' ');
+      throw new SmtpError(`SMTP ${label ?? 'greeting'} failed: ${reply.code} ${text}`, reply.code, label);
+    }
+    return reply;
+  }
+
+  /** Upgrades the socket after a successful STARTTLS reply. */
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('close');
+    this.socket.removeAllListeners('error');
+    const secured = tls.connect({ ...options, socket: this.socket });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  setTimeout(ms: number): void {
+    this.socket.setTimeout(ms, () => {
+      this.fail(new SmtpError(`SMTP server did not respond within ${ms}ms`, null, null));
+      this.socket.destroy();
+    });
+  }
+}
+
+function connect(options: SmtpConnectionOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host, ...options.tlsOptions })
+      : net.connect({ host: options.host, port: options.port });
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.removeListener('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+export async function sendMail(options: SmtpConnectionOptions, message: MailMessage): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let socket: net.Socket;
+  try {
+    socket = await connect(options);
+  } catch (error) {
+    throw new SmtpError(
+      `Could not connect to SMTP server ${options.host}:${options.port}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      null,
+      null,
+      { cause: error },
+    );
+  }
+
+  const connection = new SmtpConnection(socket);
+  connection.setTimeout(timeoutMs);
+  try {
+    await connection.expect([220], null);
+    const ehlo = await connection.command('EHLO woly-cnc', [250]);
+
+    const offersStartTls = ehlo.lines.some((line) => line.toUpperCase() === 'STARTTLS');
+    if (!options.secure && offersStartTls) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade({ servername: options.host, ...options.tlsOptions });
+      connection.setTimeout(timeoutMs);
+      await connection.command('EHLO woly-cnc', [250]);
+    }
+
+    if (options.username) {
+      const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250], 'MAIL');
+    await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251], 'RCPT');
+    await connection.command('DATA', [354]);
+    // Lines starting with a dot are doubled so they are not read as the end of data.
+    const data = buildMessageData(message, options.host).replace(/^\./gm, '..');
+    await connection.command(`${data}\r\n.`, [250], 'DATA');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -1,10 +1,14 @@
 import type { CommandRouter } from './commandRouter';
+import type { PluginEventBus } from './pluginEventBus';
 import HostScheduleModel from '../models/HostSchedule';
+import HostScheduleExecutionModel, { type RecordScheduleExecutionInput } from '../models/HostScheduleExecution';
+import type { CommandState, HostWakeSchedule, ScheduleExecution, WakeVerificationResult } from '../types';
 import logger from '../utils/logger';
 
 interface ProcessDueWakeSchedulesParams {
   commandRouter: CommandRouter;
   batchSize?: number;
+  eventBus?: PluginEventBus;
 }
 
 interface StartWakeScheduleWorkerParams {
@@ -12,10 +16,136 @@ interface StartWakeScheduleWorkerParams {
   enabled: boolean;
   pollIntervalMs: number;
   batchSize: number;
+  eventBus?: PluginEventBus;
+}
+
+type DispatchedScheduleCommand = {
+  commandId: string | null;
+  commandState: CommandState | null;
+  awaitingVerification: boolean;
+  /** Background job waking the host's prerequisites; the execution is recorded once it settles. */
+  dependencyJobId: string | null;
+};
+
+/** Scheduled wakes ask the agent to confirm the host came up, like dependency wakes do. */
+const SCHEDULED_WAKE_VERIFY = { timeoutMs: 120_000, pollIntervalMs: 3_000 };
+
+async function dispatchScheduleAction(
+  commandRouter: CommandRouter,
+  schedule: HostWakeSchedule,
+  correlationId: string,
+): Promise<DispatchedScheduleCommand> {
+  switch (schedule.action ?? 'wake') {
+    case 'sleep':
+    case 'shutdown': {
+      const response = schedule.action === 'sleep'
+        ? await commandRouter.routeSleepHostCommand(schedule.hostFqn, { correlationId })
+        : await commandRouter.routeShutdownHostCommand(schedule.hostFqn, { correlationId });
+      return {
+        commandId: response.commandId ?? null,
+        commandState: response.state ?? null,
+        awaitingVerification: false,
+        dependencyJobId: null,
+      };
+    }
+    default: {
+      const response = await commandRouter.routeWakeCommand(schedule.hostFqn, {
+        correlationId,
+        verify: SCHEDULED_WAKE_VERIFY,
+      });
+      return {
+        commandId: response.commandId ?? null,
+        commandState: response.state ?? null,
+        awaitingVerification: Boolean(response.wakeVerification && response.commandId),
+        dependencyJobId: response.dependencyJob?.jobId ?? null,
+      };
+    }
+  }
+}
+
+function publishScheduleFailed(
+  eventBus: PluginEventBus | undefined,
+  schedule: Pick<HostWakeSchedule, 'notifyOnWake'>,
+  execution: ScheduleExecution,
+): void {
+  if (!eventBus || !schedule.notifyOnWake) {
+    return;
+  }
+
+  eventBus.publish({
+    type: 'schedule.failed',
+    timestamp: new Date().toISOString(),
+    data: {
+      scheduleId: execution.scheduleId,
+      executionId: execution.id,
+      hostFqn: execution.hostFqn,
+      action: execution.action,
+      attemptedAt: execution.attemptedAt,
+      commandId: execution.commandId,
+      commandState: execution.commandState,
+      wakeVerification: execution.wakeVerification,
+      error: execution.error,
+    },
+  });
+}
+
+async function recordExecution(
+  params: Pick<ProcessDueWakeSchedulesParams, 'eventBus'>,
+  schedule: HostWakeSchedule,
+  execution: RecordScheduleExecutionInput,
+): Promise<void> {
+  try {
+    const recorded = await HostScheduleExecutionModel.record(execution);
+    if (recorded.outcome === 'failed') {
+      publishScheduleFailed(params.eventBus, schedule, recorded);
+    }
+  } catch (error) {
+    logger.error('Failed to record wake schedule execution', {
+      scheduleId: schedule.id,
+      hostFqn: schedule.hostFqn,
+      attemptedAt: execution.attemptedAt,
+      error,
+    });
+  }
+}
+
+/**
+ * Records a scheduled wake of a host with wake dependencies once its
+ * background job settles. A target wake that awaits verification stays
+ * pending until `recordScheduledWakeVerification` completes it.
+ */
+async function recordDependencyJobExecution(
+  params: ProcessDueWakeSchedulesParams,
+  schedule: HostWakeSchedule,
+  base: Pick<RecordScheduleExecutionInput, 'scheduleId' | 'hostFqn' | 'action' | 'attemptedAt' | 'correlationId'>,
+  jobId: string,
+): Promise<void> {
+  const job = await params.commandRouter.waitForWakeDependencyJob(jobId);
+  if (!job || job.state === 'failed') {
+    await recordExecution(params, schedule, {
+      ...base,
+      outcome: 'failed',
+      commandState: 'failed',
+      error: job?.error ?? `Wake dependency job ${jobId} is no longer tracked`,
+    });
+    return;
+  }
+
+  const target = job.steps.find((step) => step.role === 'target');
+  await recordExecution(params, schedule, {
+    ...base,
+    outcome: target?.status === 'pending' && target.commandId ? 'pending' : 'succeeded',
+    commandId: target?.commandId ?? null,
+    commandState: target?.status === 'queued' ? 'queued' : 'acknowledged',
+  });
 }
 
 let workerInterval: NodeJS.Timeout | null = null;
 let isTickRunning = false;
+let verificationListener: {
+  commandRouter: CommandRouter;
+  handler: (payload: { commandId: string; wakeVerification: WakeVerificationResult }) => void;
+} | null = null;
 
 export async function processDueWakeSchedules(
   params: ProcessDueWakeSchedulesParams,
@@ -28,21 +158,68 @@ export async function processDueWakeSchedules(
   for (const schedule of dueSchedules) {
     const attemptedAt = new Date().toISOString();
     const correlationId = `schedule:${schedule.id}:${Date.now()}`;
+    const action = schedule.action ?? 'wake';
+    let execution: RecordScheduleExecutionInput | null = null;
 
     try {
-      await params.commandRouter.routeWakeCommand(schedule.hostFqn, { correlationId });
+      const dispatched = await dispatchScheduleAction(params.commandRouter, schedule, correlationId);
       logger.info('Wake schedule executed', {
         scheduleId: schedule.id,
         hostFqn: schedule.hostFqn,
+        action,
         correlationId,
+        commandId: dispatched.commandId,
+        dependencyJobId: dispatched.dependencyJobId,
       });
+      if (dispatched.dependencyJobId) {
+        // Prerequisites can take minutes to confirm; do not hold up other due schedules.
+        void recordDependencyJobExecution(
+          params,
+          schedule,
+          { scheduleId: schedule.id, hostFqn: schedule.hostFqn, action, attemptedAt, correlationId },
+          dispatched.dependencyJobId,
+        ).catch((error: unknown) => {
+          logger.error('Failed to record wake schedule execution', {
+            scheduleId: schedule.id,
+            hostFqn: schedule.hostFqn,
+            attemptedAt,
+            error,
+          });
+        });
+      } else {
+        execution = {
+          scheduleId: schedule.id,
+          hostFqn: schedule.hostFqn,
+          action,
+          attemptedAt,
+          outcome: dispatched.awaitingVerification ? 'pending' : 'succeeded',
+          commandId: dispatched.commandId,
+          commandState: dispatched.commandState,
+          correlationId,
+        };
+      }
     } catch (error) {
       logger.warn('Wake schedule execution failed', {
         scheduleId: schedule.id,
         hostFqn: schedule.hostFqn,
+        action,
         correlationId,
         error,
       });
+      execution = {
+        scheduleId: schedule.id,
+        hostFqn: schedule.hostFqn,
+        action,
+        attemptedAt,
+        outcome: 'failed',
+        commandState: 'failed',
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (execution) {
+      await recordExecution(params, schedule, execution);
     }
 
     try {
@@ -60,11 +237,44 @@ export async function processDueWakeSchedules(
   return dueSchedules.length;
 }
 
+/**
+ * Resolves the pending execution of a scheduled wake once the agent reports
+ * its verification result, emitting `schedule.failed` when the host did not
+ * come up. Verification results for unscheduled wakes are ignored.
+ */
+export async function recordScheduledWakeVerification(
+  payload: { commandId: string; wakeVerification: WakeVerificationResult },
+  eventBus?: PluginEventBus,
+): Promise<ScheduleExecution | null> {
+  const execution = await HostScheduleExecutionModel.completeWakeVerification(
+    payload.commandId,
+    payload.wakeVerification,
+  );
+  if (!execution || execution.outcome !== 'failed') {
+    return execution;
+  }
+
+  logger.warn('Scheduled wake was not confirmed', {
+    scheduleId: execution.scheduleId,
+    hostFqn: execution.hostFqn,
+    commandId: execution.commandId,
+    status: payload.wakeVerification.status,
+  });
+
+  const schedule = await HostScheduleModel.findById(execution.scheduleId);
+  if (schedule) {
+    publishScheduleFailed(eventBus, schedule, execution);
+  }
+
+  return execution;
+}
+
 export function startWakeScheduleWorker(params: StartWakeScheduleWorkerParams): void {
   if (workerInterval) {
     clearInterval(workerInterval);
     workerInterval = null;
   }
+  detachVerificationListener();
 
   if (!params.enabled) {
     logger.info('Wake schedule worker disabled (SCHEDULE_WORKER_ENABLED=false)');
@@ -81,6 +291,7 @@ export function startWakeScheduleWorker(params: StartWakeScheduleWorkerParams):
       const count = await processDueWakeSchedules({
         commandRouter: params.commandRouter,
         batchSize: params.batchSize,
+        eventBus: params.eventBus,
       });
 
       if (count > 0) {
@@ -93,6 +304,17 @@ export function startWakeScheduleWorker(params: StartWakeScheduleWorkerParams):
     }
   };
 
+  const handler = (payload: { commandId: string; wakeVerification: WakeVerificationResult }): void => {
+    recordScheduledWakeVerification(payload, params.eventBus).catch((error: unknown) => {
+      logger.error('Failed to record scheduled wake verification', {
+        commandId: payload.commandId,
+        error,
+      });
+    });
+  };
+  params.commandRouter.on('wake-verification-complete', handler);
+  verificationListener = { commandRouter: params.commandRouter, handler };
+
   void runTick();
   workerInterval = setInterval(() => {
     void runTick();
@@ -104,7 +326,15 @@ export function startWakeScheduleWorker(params: StartWakeScheduleWorkerParams):
   });
 }
 
+function detachVerificationListener(): void {
+  if (verificationListener) {
+    verificationListener.commandRouter.off('wake-verification-complete', verificationListener.handler);
+    verificationListener = null;
+  }
+}
+
 export function stopWakeScheduleWorker(): void {
+  detachVerificationListener();
   if (workerInterval) {
     clearInterval(workerInterval);
     workerInterval = null;
@@ -0,0 +1,124 @@
+/**
+ * Web Push message encryption (RFC 8291, `aes128gcm`) and VAPID
+ * authentication (RFC 8292) for browser push subscriptions.
+ */
+
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type KeyObject,
+} from 'crypto';
+import type { WebPushSubscriptionKeys } from '@kaonis/woly-protocol';
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url encoded. */
+  publicKey: string;
+  privateKey: KeyObject;
+  /** `mailto:` or `https:` contact for the push service operator. */
+  subject: string;
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+function encodeBase64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+/**
+ * Builds VAPID keys from the base64url strings printed by `npx web-push
+ * generate-vapid-keys` (or any raw P-256 key pair).
+ */
+export function parseVapidKeys(publicKey: string, privateKey: string, subject: string): VapidKeys {
+  const publicBytes = Buffer.from(publicKey, 'base64url');
+  if (publicBytes.length !== 65 || publicBytes[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point (65 bytes)');
+  }
+  if (Buffer.from(privateKey, 'base64url').length !== 32) {
+    throw new Error('VAPID private key must be a 32-byte P-256 scalar');
+  }
+  if (!/^(mailto:|https:)/.test(subject)) {
+    throw new Error('VAPID subject must be a mailto: or https: URL');
+  }
+
+  let key: KeyObject;
+  try {
+    // Node does not check that the halves belong together; push services reject mismatched pairs.
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(Buffer.from(privateKey, 'base64url'));
+    if (!ecdh.getPublicKey().equals(publicBytes)) {
+      throw new Error('Public key does not match the private key');
+    }
+
+    key = createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: privateKey.replace(/=+$/, ''),
+        x: publicBytes.subarray(1, 33).toString('base64url'),
+        y: publicBytes.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  } catch (error) {
+    throw new Error('VAPID keys are not a valid P-256 key pair', { cause: error });
+  }
+
+  return { publicKey: publicBytes.toString('base64url'), privateKey: key, subject };
+}
+
+/** `Authorization` header value for a push to `endpoint`. */
+export function buildVapidAuthorization(endpoint: string, vapid: VapidKeys, nowSeconds: number): string {
+  const header = encodeBase64UrlJson({ typ: 'JWT', alg: 'ES256' });
+  const payload = encodeBase64UrlJson({
+    aud: new URL(endpoint).origin,
+    exp: nowSeconds + VAPID_TOKEN_TTL_SECONDS,
+    sub: vapid.subject,
+  });
+  const signingInput = `${header}.${payload}`;
+  const signature = sign('sha256', Buffer.from(signingInput, 'utf8'), {
+    key: vapid.privateKey,
+    dsaEncoding: 'ieee-p1363',
+  }).toString('base64url');
+  return `vapid t=${signingInput}.${signature}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypts `plaintext` for one subscription as a single `aes128gcm` record,
+ * with a fresh ephemeral key and salt per message.
+ */
+export function encryptWebPushPayload(plaintext: Buffer, keys: WebPushSubscriptionKeys): Buffer {
+  const userAgentPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+  if (userAgentPublicKey.length !== 65 || authSecret.length !== 16) {
+    throw new Error('Web Push subscription keys have an invalid length');
+  }
+  // One record holds the plaintext, a padding delimiter and the 16-byte tag.
+  if (plaintext.length + 17 > RECORD_SIZE) {
+    throw new Error(`Web Push payload exceeds ${RECORD_SIZE - 17} bytes`);
+  }
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0', 'utf8'), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record.
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.update(Buffer.from([0x02])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext, cipher.getAuthTag()]);
+}
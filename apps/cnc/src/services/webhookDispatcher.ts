@@ -1,46 +1,121 @@
 import { createHmac } from 'crypto';
 import type { WebhookEventType } from '@kaonis/woly-protocol';
 import config from '../config';
-import WebhookModel, { type WebhookTarget } from '../models/Webhook';
+import WebhookModel, { type QueuedWebhookDelivery, type WebhookTarget } from '../models/Webhook';
+import type { WebhookDeliveryLog, WebhookDeliveryResult } from '../types';
 import logger from '../utils/logger';
-
-type WebhookEnvelope = {
-  event: WebhookEventType;
-  timestamp: string;
-  data: Record<string, unknown>;
-};
+import type { PluginEventBus } from './pluginEventBus';
+import { formatWebhookRequest, type WebhookEnvelope } from './webhookFormats';
 
 type FetchImpl = typeof fetch;
 
-const MAX_DELIVERY_ATTEMPTS = 3;
+const QUEUE_BATCH_SIZE = 50;
+
+function toEnvelope(
+  eventType: WebhookEventType,
+  payload: Record<string, unknown>,
+  fallbackTimestamp: string,
+): WebhookEnvelope {
+  const { timestamp, data } = payload;
+  return {
+    event: eventType,
+    timestamp: typeof timestamp === 'string' ? timestamp : fallbackTimestamp,
+    data: data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : {},
+  };
+}
 
+/**
+ * Delivers webhook events. Failed deliveries are persisted in
+ * `webhook_delivery_queue` and retried by the queue worker, so pending retries
+ * survive restarts; endpoints that keep failing are disabled.
+ */
 export class WebhookDispatcher {
   private readonly fetchImpl: FetchImpl;
   private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
   private readonly deliveryTimeoutMs: number;
-  private readonly pendingTimers = new Set<NodeJS.Timeout>();
+  private readonly maxAttempts: number;
+  private readonly pollIntervalMs: number;
+  private readonly autoDisableFailures: number;
+  private eventBus: PluginEventBus | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private queueRun: Promise<void> | null = null;
 
   constructor(options?: {
     fetchImpl?: FetchImpl;
     retryBaseDelayMs?: number;
+    retryMaxDelayMs?: number;
     deliveryTimeoutMs?: number;
+    maxAttempts?: number;
+    pollIntervalMs?: number;
+    autoDisableFailures?: number;
   }) {
     this.fetchImpl = options?.fetchImpl ?? fetch;
     this.retryBaseDelayMs = options?.retryBaseDelayMs ?? config.webhookRetryBaseDelayMs;
+    this.retryMaxDelayMs = options?.retryMaxDelayMs ?? config.webhookRetryMaxDelayMs;
     this.deliveryTimeoutMs = options?.deliveryTimeoutMs ?? config.webhookDeliveryTimeoutMs;
+    this.maxAttempts = options?.maxAttempts ?? config.webhookMaxAttempts;
+    this.pollIntervalMs = options?.pollIntervalMs ?? config.webhookPollIntervalMs;
+    this.autoDisableFailures = options?.autoDisableFailures ?? config.webhookAutoDisableFailures;
+  }
+
+  /**
+   * Starts the queue worker. Retries left over from before a restart are
+   * picked up immediately. `webhook.disabled` is published on `eventBus`.
+   */
+  start(eventBus?: PluginEventBus): void {
+    this.eventBus = eventBus ?? null;
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.processDueDeliveries();
+    }, this.pollIntervalMs);
+    void this.processDueDeliveries();
   }
 
   shutdown(): void {
-    for (const timer of this.pendingTimers) {
-      clearTimeout(timer);
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
     }
-    this.pendingTimers.clear();
+    this.eventBus = null;
+  }
+
+  /** Sends queued retries that are due. Overlapping calls share the run in progress. */
+  processDueDeliveries(now = new Date()): Promise<void> {
+    if (!this.queueRun) {
+      this.queueRun = this.runQueue(now).finally(() => {
+        this.queueRun = null;
+      });
+    }
+
+    return this.queueRun;
   }
 
   async dispatchEvent(eventType: WebhookEventType, data: Record<string, unknown>): Promise<void> {
     await this.dispatch(eventType, data);
   }
 
+  /** Sends a synthetic signed `webhook.test` envelope once, whether or not the webhook is enabled. */
+  async sendTest(target: WebhookTarget): Promise<WebhookDeliveryResult> {
+    const envelope = this.createEnvelope('webhook.test', {
+      webhookId: target.id,
+      message: 'Test delivery from WoLy C&C',
+    });
+    return this.deliver(target, envelope, 1, { retry: false });
+  }
+
+  /**
+   * Sends a logged delivery's envelope again, signed with the webhook's current
+   * secret. The original timestamp is kept so receivers can de-duplicate.
+   */
+  async redeliver(target: WebhookTarget, delivery: WebhookDeliveryLog): Promise<WebhookDeliveryResult> {
+    const envelope = toEnvelope(delivery.eventType, delivery.payload, delivery.createdAt);
+    return this.deliver(target, envelope, delivery.attempt + 1, { retry: false });
+  }
+
   private createEnvelope(eventType: WebhookEventType, data: Record<string, unknown>): WebhookEnvelope {
     return {
       event: eventType,
@@ -103,38 +178,138 @@ export class WebhookDispatcher {
     }
   }
 
-  private scheduleRetry(target: WebhookTarget, envelope: WebhookEnvelope, nextAttempt: number): void {
-    const delayMs = this.retryBaseDelayMs * Math.pow(2, Math.max(nextAttempt - 2, 0));
-    const timer = setTimeout(() => {
-      this.pendingTimers.delete(timer);
-      void this.deliver(target, envelope, nextAttempt);
-    }, delayMs);
+  private async runQueue(now: Date): Promise<void> {
+    let due: QueuedWebhookDelivery[];
+    try {
+      due = await WebhookModel.listDueDeliveries(now, QUEUE_BATCH_SIZE);
+    } catch (error) {
+      logger.error('Failed to load queued webhook deliveries', {
+        error: this.formatError(error),
+      });
+      return;
+    }
+
+    for (const queued of due) {
+      try {
+        // Retries for webhooks disabled since they were queued are dropped.
+        if (queued.target.enabled) {
+          const envelope = toEnvelope(queued.eventType, queued.payload, queued.nextAttemptAt);
+          await this.deliver(queued.target, envelope, queued.attempt);
+        }
+        await WebhookModel.deleteQueuedDelivery(queued.id);
+      } catch (error) {
+        logger.error('Failed to process queued webhook delivery', {
+          queuedDeliveryId: queued.id,
+          webhookId: queued.target.id,
+          error: this.formatError(error),
+        });
+      }
+    }
+  }
+
+  private async enqueueRetry(target: WebhookTarget, envelope: WebhookEnvelope, nextAttempt: number): Promise<void> {
+    const delayMs = Math.min(
+      this.retryBaseDelayMs * Math.pow(2, Math.max(nextAttempt - 2, 0)),
+      this.retryMaxDelayMs,
+    );
+
+    try {
+      await WebhookModel.enqueueDelivery({
+        webhookId: target.id,
+        eventType: envelope.event,
+        payload: envelope,
+        attempt: nextAttempt,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      });
+    } catch (error) {
+      logger.error('Failed to queue webhook retry', {
+        webhookId: target.id,
+        eventType: envelope.event,
+        attempt: nextAttempt,
+        error: this.formatError(error),
+      });
+    }
+  }
+
+  private async recordOutcome(target: WebhookTarget, succeeded: boolean, lastError: string | null): Promise<void> {
+    try {
+      if (succeeded) {
+        await WebhookModel.resetFailureCount(target.id);
+        return;
+      }
+
+      if (this.autoDisableFailures <= 0) {
+        return;
+      }
+
+      const consecutiveFailures = await WebhookModel.incrementFailureCount(target.id);
+      if (consecutiveFailures < this.autoDisableFailures) {
+        return;
+      }
+
+      await WebhookModel.update(target.id, { enabled: false });
+      logger.warn('Webhook disabled after repeated delivery failures', {
+        webhookId: target.id,
+        url: target.url,
+        consecutiveFailures,
+        error: lastError,
+      });
 
-    this.pendingTimers.add(timer);
+      const disabledAt = new Date().toISOString();
+      this.eventBus?.publish({
+        type: 'webhook.disabled',
+        timestamp: disabledAt,
+        data: {
+          webhookId: target.id,
+          url: target.url,
+          consecutiveFailures,
+          lastError,
+          disabledAt,
+        },
+      });
+    } catch (error) {
+      logger.warn('Failed to update webhook failure count', {
+        webhookId: target.id,
+        error: this.formatError(error),
+      });
+    }
   }
 
-  private async deliver(target: WebhookTarget, envelope: WebhookEnvelope, attempt: number): Promise<void> {
-    const payloadJson = JSON.stringify(envelope);
+  /**
+   * Posts the envelope in the webhook's format and records the attempt in the
+   * delivery log; the log keeps the envelope itself so redelivery re-renders
+   * with the current format and template. Failed
+   * attempts are queued for retry with backoff up to the attempt limit, and
+   * count towards auto-disable once the last attempt fails. Manual deliveries
+   * (`retry: false`) are neither retried nor counted.
+   */
+  async deliver(
+    target: WebhookTarget,
+    envelope: WebhookEnvelope,
+    attempt: number,
+    options?: { retry?: boolean },
+  ): Promise<WebhookDeliveryResult> {
+    const request = formatWebhookRequest(target.format, envelope, target.template);
     let status: 'success' | 'failed' = 'failed';
     let responseStatus: number | null = null;
     let errorMessage: string | null = null;
 
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...request.headers,
       'User-Agent': 'woly-cnc-webhook/1.0',
       'X-Woly-Event': envelope.event,
       'X-Woly-Delivery-Attempt': String(attempt),
     };
 
     if (target.secret) {
-      headers['X-Woly-Signature'] = this.buildSignature(target.secret, payloadJson);
+      headers['X-Woly-Signature'] = this.buildSignature(target.secret, request.body);
     }
 
     try {
       const response = await this.postWithTimeout(target.url, {
         method: 'POST',
         headers,
-        body: payloadJson,
+        body: request.body,
       });
 
       responseStatus = response.status;
@@ -166,11 +341,24 @@ export class WebhookDispatcher {
       });
     }
 
+    const result: WebhookDeliveryResult = {
+      webhookId: target.id,
+      eventType: envelope.event,
+      status,
+      responseStatus,
+      error: errorMessage,
+    };
+
+    if (options?.retry === false) {
+      return result;
+    }
+
     if (status === 'success') {
-      return;
+      await this.recordOutcome(target, true, null);
+      return result;
     }
 
-    if (attempt >= MAX_DELIVERY_ATTEMPTS) {
+    if (attempt >= this.maxAttempts) {
       logger.warn('Webhook delivery failed after max retries', {
         webhookId: target.id,
         url: target.url,
@@ -179,10 +367,12 @@ export class WebhookDispatcher {
         error: errorMessage,
         responseStatus,
       });
-      return;
+      await this.recordOutcome(target, false, errorMessage);
+      return result;
     }
 
-    this.scheduleRetry(target, envelope, attempt + 1);
+    await this.enqueueRetry(target, envelope, attempt + 1);
+    return result;
   }
 }
 
@@ -0,0 +1,312 @@
+import type { WebhookEventType, WebhookFormat } from '@kaonis/woly-protocol';
+
+export type WebhookEnvelope = {
+  event: WebhookEventType;
+  timestamp: string;
+  data: Record<string, unknown>;
+};
+
+export interface WebhookRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+/** Values available to templates as `{{name}}`; event data fields are available as `{{data.<field>}}`. */
+export const WEBHOOK_TEMPLATE_VARIABLES = [
+  'event',
+  'timestamp',
+  'summary',
+  'hostName',
+  'hostFqn',
+  'location',
+  'nodeId',
+  'oldStatus',
+  'newStatus',
+] as const;
+
+type WebhookTemplateVariable = (typeof WEBHOOK_TEMPLATE_VARIABLES)[number];
+
+type WebhookTemplateContext = Record<WebhookTemplateVariable, string> & {
+  data: Record<string, unknown>;
+};
+
+type EventPresentation = {
+  title: string;
+  summary: string;
+  /** ntfy tag, rendered by ntfy as an emoji. */
+  tag: string;
+  alert: boolean;
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w.]*)\s*\}\}/g;
+const DISCORD_CONTENT_LIMIT = 2000;
+
+const EVENT_PRESENTATION: Record<WebhookEventType, EventPresentation> = {
+  'host.awake': {
+    title: 'Host awake',
+    summary: '{{hostName}} on {{location}} is awake (was {{oldStatus}})',
+    tag: 'green_circle',
+    alert: false,
+  },
+  'host.asleep': {
+    title: 'Host asleep',
+    summary: '{{hostName}} on {{location}} is asleep (was {{oldStatus}})',
+    tag: 'zzz',
+    alert: false,
+  },
+  'host.discovered': {
+    title: 'Host discovered',
+    summary: 'New host {{hostName}} discovered on {{location}}',
+    tag: 'mag',
+    alert: false,
+  },
+  'host.removed': {
+    title: 'Host removed',
+    summary: 'Host {{hostName}} was removed from node {{nodeId}}',
+    tag: 'wastebasket',
+    alert: false,
+  },
+  'scan.complete': {
+    title: 'Scan complete',
+    summary: 'Network scan on node {{nodeId}} found {{data.hostCount}} hosts',
+    tag: 'satellite',
+    alert: false,
+  },
+  'node.connected': {
+    title: 'Node connected',
+    summary: 'Node {{nodeId}} connected',
+    tag: 'electric_plug',
+    alert: false,
+  },
+  'node.disconnected': {
+    title: 'Node disconnected',
+    summary: 'Node {{nodeId}} disconnected',
+    tag: 'warning',
+    alert: true,
+  },
+  'schedule.failed': {
+    title: 'Schedule failed',
+    summary: 'Scheduled {{data.action}} of {{hostName}} on {{location}} failed: {{data.error}}',
+    tag: 'rotating_light',
+    alert: true,
+  },
+  'webhook.test': {
+    title: 'Test delivery',
+    summary: 'Test delivery from WoLy C&C',
+    tag: 'white_check_mark',
+    alert: false,
+  },
+  'webhook.disabled': {
+    title: 'Webhook disabled',
+    summary: 'Webhook {{data.url}} was disabled after {{data.consecutiveFailures}} failed deliveries',
+    tag: 'no_entry',
+    alert: true,
+  },
+};
+
+/** Representative event data used to check that templates render for every subscribed event. */
+const SAMPLE_EVENT_DATA: Record<WebhookEventType, Record<string, unknown>> = {
+  'host.awake': {
+    hostFqn: 'desktop@home-node',
+    oldStatus: 'asleep',
+    newStatus: 'awake',
+    changedAt: '2026-02-18T20:00:00.000Z',
+  },
+  'host.asleep': {
+    hostFqn: 'desktop@home-node',
+    oldStatus: 'awake',
+    newStatus: 'asleep',
+    changedAt: '2026-02-18T20:00:00.000Z',
+  },
+  'host.discovered': { nodeId: 'home-node', hostFqn: 'desktop@home-node', host: { name: 'desktop' } },
+  'host.removed': { nodeId: 'home-node', name: 'desktop' },
+  'scan.complete': { nodeId: 'home-node', hostCount: 12 },
+  'node.connected': { nodeId: 'home-node' },
+  'node.disconnected': { nodeId: 'home-node' },
+  'schedule.failed': {
+    scheduleId: 'schedule-1',
+    hostFqn: 'desktop@home-node',
+    action: 'wake',
+    error: 'Wake verification timeout',
+  },
+  'webhook.test': { webhookId: 'webhook-1', message: 'Test delivery from WoLy C&C' },
+  'webhook.disabled': {
+    webhookId: 'webhook-1',
+    url: 'https://example.com/hooks/woly',
+    consecutiveFailures: 5,
+    lastError: 'HTTP 503',
+  },
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** Splits `name@location`; the `-<nodeId>` suffix of duplicate-name FQNs is dropped when the node is known. */
+function splitFqn(fqn: string, nodeId: string): { name: string; location: string } | null {
+  const separator = fqn.lastIndexOf('@');
+  if (separator <= 0) {
+    return null;
+  }
+
+  let encodedLocation = fqn.slice(separator + 1);
+  if (nodeId && encodedLocation.endsWith(`-${nodeId}`)) {
+    encodedLocation = encodedLocation.slice(0, -(nodeId.length + 1));
+  }
+
+  try {
+    return { name: fqn.slice(0, separator), location: decodeURIComponent(encodedLocation) };
+  } catch {
+    return { name: fqn.slice(0, separator), location: encodedLocation };
+  }
+}
+
+function readDataPath(data: Record<string, unknown>, path: string): unknown {
+  let current: unknown = data;
+  for (const key of path.split('.')) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+function renderTemplate(template: string, context: WebhookTemplateContext): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (name.startsWith('data.')) {
+      return stringifyValue(readDataPath(context.data, name.slice('data.'.length)));
+    }
+
+    return (WEBHOOK_TEMPLATE_VARIABLES as readonly string[]).includes(name)
+      ? context[name as WebhookTemplateVariable]
+      : '';
+  });
+}
+
+function buildTemplateContext(envelope: WebhookEnvelope): WebhookTemplateContext {
+  const { data } = envelope;
+  const hostFqn = readString(data.hostFqn);
+  const nodeId = readString(data.nodeId) ?? '';
+  const fqnParts = hostFqn ? splitFqn(hostFqn, nodeId) : null;
+  const host = data.host && typeof data.host === 'object' ? (data.host as Record<string, unknown>) : null;
+
+  const context: WebhookTemplateContext = {
+    event: envelope.event,
+    timestamp: envelope.timestamp,
+    summary: '',
+    hostName: fqnParts?.name ?? readString(data.name) ?? readString(host?.name) ?? '',
+    hostFqn: hostFqn ?? '',
+    location: fqnParts?.location ?? nodeId,
+    nodeId,
+    oldStatus: readString(data.oldStatus) ?? '',
+    newStatus: readString(data.newStatus) ?? '',
+    data,
+  };
+  context.summary = renderTemplate(EVENT_PRESENTATION[envelope.event].summary, context);
+  return context;
+}
+
+function jsonRequest(payload: unknown): WebhookRequest {
+  return {
+    body: JSON.stringify(payload),
+    headers: { 'Content-Type': 'application/json' },
+  };
+}
+
+/**
+ * Returns problems with a user-defined template: malformed or unknown
+ * placeholders, or a message that renders empty for one of `events`.
+ */
+export function validateWebhookTemplate(template: string, events: WebhookEventType[]): string[] {
+  const issues: string[] = [];
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    const known =
+      (WEBHOOK_TEMPLATE_VARIABLES as readonly string[]).includes(name) ||
+      /^data(\.\w+)+$/.test(name);
+    if (!known) {
+      issues.push(`Unknown template variable "${name}"`);
+    }
+  }
+
+  const remainder = template.replace(PLACEHOLDER_PATTERN, '');
+  if (remainder.includes('{{') || remainder.includes('}}')) {
+    issues.push('Template has an unclosed or malformed {{placeholder}}');
+  }
+
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  for (const event of events) {
+    const context = buildTemplateContext({
+      event,
+      timestamp: '2026-02-18T20:00:00.000Z',
+      data: SAMPLE_EVENT_DATA[event],
+    });
+    if (renderTemplate(template, context).trim().length === 0) {
+      issues.push(`Template renders an empty message for ${event}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Builds the HTTP body and headers for `format`. `raw` posts the envelope
+ * unchanged; the other formats post a chat message rendered from `template`,
+ * or from the event's default summary when no template is set.
+ */
+export function formatWebhookRequest(
+  format: WebhookFormat,
+  envelope: WebhookEnvelope,
+  template: string | null,
+): WebhookRequest {
+  if (format === 'raw') {
+    return jsonRequest(envelope);
+  }
+
+  const presentation = EVENT_PRESENTATION[envelope.event];
+  const context = buildTemplateContext(envelope);
+  const title = `WoLy: ${presentation.title}`;
+  const message = template ? renderTemplate(template, context) : context.summary;
+
+  switch (format) {
+    case 'slack':
+      return jsonRequest({ text: message });
+    case 'discord':
+      return jsonRequest({ content: message.slice(0, DISCORD_CONTENT_LIMIT) });
+    case 'msteams':
+      return jsonRequest({
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: title,
+        themeColor: presentation.alert ? 'D93F0B' : '2EB67D',
+        title,
+        text: message,
+      });
+    case 'gotify':
+      return jsonRequest({ title, message, priority: presentation.alert ? 8 : 4 });
+    case 'ntfy':
+      return {
+        body: message,
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          Title: title,
+          Tags: presentation.tag,
+          Priority: presentation.alert ? 'high' : 'default',
+        },
+      };
+  }
+}
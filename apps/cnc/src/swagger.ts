@@ -43,7 +43,7 @@ const options: swaggerJsdoc.Options = {
       },
       {
         name: 'Authentication',
-        description: 'JWT token issuance',
+        description: 'JWT token issuance, user account sessions and OIDC login',
       },
       {
         name: 'Nodes',
@@ -53,6 +53,10 @@ const options: swaggerJsdoc.Options = {
         name: 'Hosts',
         description: 'Aggregated host management across nodes',
       },
+      {
+        name: 'Groups',
+        description: 'Host groups and group-level power actions across nodes',
+      },
       {
         name: 'Webhooks',
         description: 'Webhook registration and delivery diagnostics',
@@ -61,6 +65,10 @@ const options: swaggerJsdoc.Options = {
         name: 'Meta',
         description: 'Capability negotiation and metadata endpoints',
       },
+      {
+        name: 'Access Control',
+        description: 'Per-user grants on nodes and hosts',
+      },
       {
         name: 'Admin',
         description: 'Administrative operations (requires admin role)',
@@ -244,8 +252,35 @@ const options: swaggerJsdoc.Options = {
           },
           required: ['username'],
         },
+        HostPowerControlRedfishConfig: {
+          type: 'object',
+          description: 'BMC reached over Redfish; its password is set with powerControlPassword and never returned',
+          properties: {
+            baseUrl: {
+              type: 'string',
+              pattern: '^https://',
+              example: 'https://10.0.0.50',
+            },
+            username: {
+              type: 'string',
+              example: 'ADMIN',
+            },
+            systemId: {
+              type: 'string',
+              description: 'Redfish ComputerSystem id; defaults to the first listed system',
+              example: 'System.Embedded.1',
+            },
+            verifyTls: {
+              type: 'boolean',
+              description: 'Set to false for BMCs with self-signed certificates',
+              example: false,
+            },
+          },
+          required: ['baseUrl', 'username'],
+        },
         HostPowerControlConfig: {
           type: 'object',
+          description: 'The ssh transport requires platform and ssh; the redfish transport requires redfish',
           properties: {
             enabled: {
               type: 'boolean',
@@ -253,7 +288,7 @@ const options: swaggerJsdoc.Options = {
             },
             transport: {
               type: 'string',
-              enum: ['ssh'],
+              enum: ['ssh', 'redfish'],
               example: 'ssh',
             },
             platform: {
@@ -267,8 +302,56 @@ const options: swaggerJsdoc.Options = {
             commands: {
               $ref: '#/components/schemas/HostPowerControlCommandOverrides',
             },
+            redfish: {
+              $ref: '#/components/schemas/HostPowerControlRedfishConfig',
+            },
+          },
+          required: ['enabled', 'transport'],
+        },
+        HostWakeStrategy: {
+          type: 'object',
+          description:
+            'Escalation the node agent runs when a verified wake is not confirmed within stepTimeoutMs',
+          properties: {
+            resendCount: { type: 'integer', minimum: 0, maximum: 10, example: 2 },
+            alternatePorts: {
+              type: 'array',
+              maxItems: 4,
+              items: { type: 'integer', minimum: 1, maximum: 65535 },
+              example: [7],
+            },
+            directedBroadcast: { type: 'string', example: '192.168.1.255' },
+            stepTimeoutMs: { type: 'integer', minimum: 1000, maximum: 120000, example: 15000 },
+            fallback: {
+              type: 'object',
+              description:
+                'Power-on action run as the last step: a webhook (smart plug), IPMI via ipmitool, ' +
+                "or the host's own redfish power control",
+              properties: {
+                type: { type: 'string', enum: ['webhook', 'ipmi', 'redfish'] },
+                url: { type: 'string', example: 'http://plug.local/relay/0?turn=on' },
+                method: { type: 'string', enum: ['GET', 'POST', 'PUT'] },
+                body: { type: 'string' },
+                address: { type: 'string', example: '192.168.1.50' },
+                username: { type: 'string', example: 'ADMIN' },
+                passwordFile: { type: 'string', example: '/etc/woly/ipmi-password' },
+                interface: { type: 'string', enum: ['lan', 'lanplus'] },
+              },
+              required: ['type'],
+            },
+          },
+        },
+        WakeStep: {
+          type: 'object',
+          properties: {
+            method: { type: 'string', enum: ['magic-packet', 'webhook', 'ipmi', 'redfish'] },
+            address: { type: 'string', example: '192.168.1.255' },
+            port: { type: 'integer', example: 9 },
+            status: { type: 'string', enum: ['sent', 'failed'] },
+            error: { type: 'string' },
+            at: { type: 'string', format: 'date-time' },
           },
-          required: ['enabled', 'transport', 'platform', 'ssh'],
+          required: ['method', 'status', 'at'],
         },
         Host: {
           type: 'object',
@@ -353,6 +436,15 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
               description: 'Optional remote power-control configuration for sleep/shutdown operations',
             },
+            wakeStrategy: {
+              allOf: [
+                {
+                  $ref: '#/components/schemas/HostWakeStrategy',
+                },
+              ],
+              nullable: true,
+              description: 'Optional wake retry and fallback escalation',
+            },
             openPorts: {
               type: 'array',
               description: 'Cached open TCP ports from the most recent per-host scan (when still fresh)',
@@ -486,6 +578,242 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        UserAccount: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: '6f1c2a8e-4b1d-4f7a-9a57-0f3c2d1e9b10' },
+            username: { type: 'string', example: 'alice' },
+            role: { type: 'string', enum: ['operator', 'admin'] },
+            disabled: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        UsersResponse: {
+          type: 'object',
+          properties: {
+            users: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/UserAccount' },
+            },
+          },
+        },
+        CreateUserRequest: {
+          type: 'object',
+          required: ['username', 'password'],
+          properties: {
+            username: {
+              type: 'string',
+              minLength: 3,
+              maxLength: 64,
+              pattern: '^[A-Za-z0-9._@-]+$',
+              example: 'alice',
+            },
+            password: { type: 'string', minLength: 12, maxLength: 256 },
+            role: { type: 'string', enum: ['operator', 'admin'], default: 'operator' },
+          },
+        },
+        UpdateUserRequest: {
+          type: 'object',
+          minProperties: 1,
+          properties: {
+            password: { type: 'string', minLength: 12, maxLength: 256 },
+            role: { type: 'string', enum: ['operator', 'admin'] },
+            disabled: { type: 'boolean' },
+          },
+        },
+        ApiKey: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: '0b7e4f7c-3f5e-4c1b-8d3a-2f1e6a9c4d21' },
+            name: { type: 'string', example: 'home-assistant' },
+            prefix: {
+              type: 'string',
+              description: 'First characters of the key, for identification',
+              example: 'woly_3JqA9xZk',
+            },
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: ['hosts:read', 'hosts:wake', 'schedules:manage'] },
+            },
+            hostFqns: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Hosts the key is limited to; empty with empty nodeIds means all hosts',
+            },
+            nodeIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Nodes whose hosts the key is limited to',
+            },
+            createdBy: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            expiresAt: { type: 'string', format: 'date-time', nullable: true },
+            lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+            revokedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        ApiKeysResponse: {
+          type: 'object',
+          properties: {
+            apiKeys: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ApiKey' },
+            },
+          },
+        },
+        CreateApiKeyRequest: {
+          type: 'object',
+          required: ['name', 'scopes'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 128, example: 'home-assistant' },
+            scopes: {
+              type: 'array',
+              minItems: 1,
+              uniqueItems: true,
+              items: { type: 'string', enum: ['hosts:read', 'hosts:wake', 'schedules:manage'] },
+            },
+            hostFqns: { type: 'array', maxItems: 500, items: { type: 'string' } },
+            nodeIds: { type: 'array', maxItems: 100, items: { type: 'string' } },
+            expiresAt: { type: 'string', format: 'date-time', description: 'Must be in the future' },
+          },
+        },
+        CreateApiKeyResponse: {
+          allOf: [
+            { $ref: '#/components/schemas/ApiKey' },
+            {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'The API key; only returned on creation' },
+              },
+            },
+          ],
+        },
+        ApiKeyUsageResponse: {
+          type: 'object',
+          properties: {
+            apiKeyId: { type: 'string' },
+            entries: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  usedAt: { type: 'string', format: 'date-time' },
+                  method: { type: 'string', example: 'POST' },
+                  path: { type: 'string', example: '/api/hosts/wakeup/desktop@home' },
+                  ip: { type: 'string', nullable: true },
+                },
+              },
+            },
+          },
+        },
+        AuditLogEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 42 },
+            occurredAt: { type: 'string', format: 'date-time' },
+            actor: { type: 'string', description: 'Authenticated subject, or `plugin:<name>` for actions a plugin took on its own', example: 'apikey:0b7e4f7c' },
+            actorRole: { type: 'string', nullable: true, example: 'operator' },
+            action: { type: 'string', example: 'host.wake' },
+            targetFqn: { type: 'string', nullable: true, example: 'desktop@home' },
+            targetNodeId: { type: 'string', nullable: true },
+            correlationId: { type: 'string', nullable: true },
+            ip: { type: 'string', nullable: true },
+            outcome: { type: 'string', enum: ['success', 'failure', 'denied'] },
+            statusCode: { type: 'integer', example: 200 },
+            details: { type: 'object', nullable: true, additionalProperties: true },
+          },
+        },
+        AuditLogResponse: {
+          type: 'object',
+          properties: {
+            entries: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/AuditLogEntry' },
+            },
+            nextCursor: { type: 'string', nullable: true },
+          },
+        },
+        LoginRequest: {
+          type: 'object',
+          required: ['username', 'password'],
+          properties: {
+            username: { type: 'string', example: 'alice' },
+            password: { type: 'string' },
+          },
+        },
+        RefreshSessionRequest: {
+          type: 'object',
+          required: ['refreshToken'],
+          properties: {
+            refreshToken: { type: 'string' },
+          },
+        },
+        AuthSessionResponse: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'JWT bearer token' },
+            expiresAt: { type: 'string', format: 'date-time' },
+            refreshToken: { type: 'string', description: 'Single-use refresh token' },
+            refreshExpiresAt: { type: 'string', format: 'date-time' },
+            user: { $ref: '#/components/schemas/UserAccount' },
+          },
+        },
+        OidcConfigResponse: {
+          type: 'object',
+          properties: {
+            issuer: { type: 'string', format: 'uri', example: 'https://idp.example.com/realms/home' },
+            clientId: { type: 'string', example: 'woly-mobile' },
+            authorizationEndpoint: { type: 'string', format: 'uri' },
+            scopes: { type: 'array', items: { type: 'string' }, example: ['openid', 'profile', 'email'] },
+            codeChallengeMethod: { type: 'string', enum: ['S256'] },
+          },
+        },
+        OidcCodeExchangeRequest: {
+          type: 'object',
+          required: ['code', 'codeVerifier', 'redirectUri'],
+          properties: {
+            code: { type: 'string', description: 'Authorization code returned by the identity provider' },
+            codeVerifier: {
+              type: 'string',
+              minLength: 43,
+              maxLength: 128,
+              description: 'PKCE code verifier whose S256 challenge was sent with the authorization request',
+            },
+            redirectUri: { type: 'string', format: 'uri', example: 'woly://oauth/callback' },
+            nonce: { type: 'string', description: 'Nonce sent with the authorization request, checked against the ID token' },
+          },
+        },
+        ResourceAclEntry: {
+          type: 'object',
+          properties: {
+            resourceType: { type: 'string', enum: ['node', 'host'] },
+            resourceId: { type: 'string', example: 'desktop@home-node' },
+            userId: { type: 'string' },
+            username: { type: 'string', example: 'alice' },
+            permission: { type: 'string', enum: ['view', 'operate', 'owner'] },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ResourceAclResponse: {
+          type: 'object',
+          properties: {
+            resourceType: { type: 'string', enum: ['node', 'host'] },
+            resourceId: { type: 'string' },
+            entries: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ResourceAclEntry' },
+            },
+          },
+        },
+        GrantResourceAccessRequest: {
+          type: 'object',
+          required: ['userId', 'permission'],
+          properties: {
+            userId: { type: 'string' },
+            permission: { type: 'string', enum: ['view', 'operate', 'owner'] },
+          },
+        },
         HostStats: {
           type: 'object',
           properties: {
@@ -646,8 +974,24 @@ const options: swaggerJsdoc.Options = {
             'scan.complete',
             'node.connected',
             'node.disconnected',
+            'schedule.failed',
+            'webhook.test',
+            'webhook.disabled',
           ],
         },
+        WebhookFormat: {
+          type: 'string',
+          enum: ['raw', 'slack', 'discord', 'msteams', 'ntfy', 'gotify'],
+          description: '`raw` posts the JSON event envelope; the others post a message in the service\'s own payload',
+        },
+        WebhookTemplate: {
+          type: 'string',
+          maxLength: 2000,
+          description:
+            'Message with `{{variable}}` placeholders: event, timestamp, summary, hostName, hostFqn, location, ' +
+            'nodeId, oldStatus, newStatus, or `data.<field>` of the event data',
+          example: ':sunny: {{hostName}} on {{location}} is {{newStatus}}',
+        },
         CreateWebhookRequest: {
           type: 'object',
           properties: {
@@ -668,9 +1012,52 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
               example: 'shared-secret',
             },
+            format: {
+              allOf: [{ $ref: '#/components/schemas/WebhookFormat' }],
+              default: 'raw',
+            },
+            template: {
+              $ref: '#/components/schemas/WebhookTemplate',
+            },
           },
           required: ['url', 'events'],
         },
+        UpdateWebhookRequest: {
+          type: 'object',
+          minProperties: 1,
+          properties: {
+            url: {
+              type: 'string',
+              format: 'uri',
+              example: 'https://example.com/hooks/woly',
+            },
+            events: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                $ref: '#/components/schemas/WebhookEventType',
+              },
+            },
+            secret: {
+              type: 'string',
+              nullable: true,
+              description: 'New signing secret; `null` removes it',
+              example: 'rotated-secret',
+            },
+            enabled: {
+              type: 'boolean',
+              example: false,
+            },
+            format: {
+              $ref: '#/components/schemas/WebhookFormat',
+            },
+            template: {
+              allOf: [{ $ref: '#/components/schemas/WebhookTemplate' }],
+              nullable: true,
+              description: '`null` restores the default message',
+            },
+          },
+        },
         WebhookSubscription: {
           type: 'object',
           properties: {
@@ -693,6 +1080,18 @@ const options: swaggerJsdoc.Options = {
               type: 'boolean',
               example: true,
             },
+            enabled: {
+              type: 'boolean',
+              example: true,
+            },
+            format: {
+              $ref: '#/components/schemas/WebhookFormat',
+            },
+            template: {
+              type: 'string',
+              nullable: true,
+              example: null,
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -704,7 +1103,7 @@ const options: swaggerJsdoc.Options = {
               example: '2026-02-18T20:00:00.000Z',
             },
           },
-          required: ['id', 'url', 'events', 'hasSecret', 'createdAt', 'updatedAt'],
+          required: ['id', 'url', 'events', 'hasSecret', 'enabled', 'format', 'template', 'createdAt', 'updatedAt'],
         },
         WebhooksResponse: {
           type: 'object',
@@ -780,6 +1179,34 @@ const options: swaggerJsdoc.Options = {
           },
           required: ['webhookId', 'deliveries'],
         },
+        WebhookDeliveryResult: {
+          type: 'object',
+          properties: {
+            webhookId: {
+              type: 'string',
+              example: 'webhook-1',
+            },
+            eventType: {
+              $ref: '#/components/schemas/WebhookEventType',
+            },
+            status: {
+              type: 'string',
+              enum: ['success', 'failed'],
+              example: 'success',
+            },
+            responseStatus: {
+              type: 'integer',
+              nullable: true,
+              example: 204,
+            },
+            error: {
+              type: 'string',
+              nullable: true,
+              example: null,
+            },
+          },
+          required: ['webhookId', 'eventType', 'status', 'responseStatus', 'error'],
+        },
         DeleteWebhookResponse: {
           type: 'object',
           properties: {
@@ -941,6 +1368,24 @@ const options: swaggerJsdoc.Options = {
                 shutdown: {
                   $ref: '#/components/schemas/CapabilityDescriptor',
                 },
+                hostGroups: {
+                  $ref: '#/components/schemas/CapabilityDescriptor',
+                },
+                bulkHostOperations: {
+                  $ref: '#/components/schemas/CapabilityDescriptor',
+                },
+                wakeDependencies: {
+                  $ref: '#/components/schemas/CapabilityDescriptor',
+                },
+                wakeRelay: {
+                  $ref: '#/components/schemas/CapabilityDescriptor',
+                },
+                wakeStrategy: {
+                  $ref: '#/components/schemas/CapabilityDescriptor',
+                },
+                outOfBandPower: {
+                  $ref: '#/components/schemas/CapabilityDescriptor',
+                },
               },
               required: [
                 'scan',
@@ -1010,9 +1455,23 @@ const options: swaggerJsdoc.Options = {
             },
             frequency: {
               type: 'string',
-              enum: ['once', 'daily', 'weekly', 'weekdays', 'weekends'],
+              enum: ['once', 'daily', 'weekly', 'weekdays', 'weekends', 'cron', 'solar'],
               example: 'daily',
             },
+            cronExpression: {
+              type: 'string',
+              description: 'Five-field cron expression evaluated in `timezone`; required when frequency is cron',
+              example: '30 7 * * TUE#2',
+            },
+            solar: {
+              $ref: '#/components/schemas/ScheduleSolarTrigger',
+            },
+            action: {
+              type: 'string',
+              enum: ['wake', 'sleep', 'shutdown'],
+              description: 'Command dispatched when the schedule fires; sleep and shutdown require host power control',
+              example: 'wake',
+            },
             enabled: {
               type: 'boolean',
               example: true,
@@ -1037,6 +1496,29 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
               example: '2026-02-21T10:00:00.000Z',
             },
+            upcomingTriggers: {
+              type: 'array',
+              description: 'Next fire times; returned by GET /api/schedules/{id}',
+              items: {
+                type: 'string',
+                format: 'date-time',
+              },
+              example: ['2026-02-21T10:00:00.000Z', '2026-02-22T10:00:00.000Z'],
+            },
+            exceptionCalendarIds: {
+              type: 'array',
+              description: 'Exception calendars whose dates the schedule does not fire on',
+              items: {
+                type: 'string',
+              },
+            },
+            skippedRuns: {
+              type: 'array',
+              description: 'Runs since the last trigger, up to nextTrigger, that fall on an excluded date',
+              items: {
+                $ref: '#/components/schemas/ScheduleSkippedRun',
+              },
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -1062,17 +1544,47 @@ const options: swaggerJsdoc.Options = {
             'updatedAt',
           ],
         },
-        HostSchedulesResponse: {
+        ScheduleSolarTrigger: {
           type: 'object',
+          description: 'Daily sunrise/sunset trigger; required when frequency is solar',
           properties: {
-            schedules: {
-              type: 'array',
-              items: {
-                $ref: '#/components/schemas/HostWakeSchedule',
-              },
+            event: {
+              type: 'string',
+              enum: ['sunrise', 'sunset'],
+              example: 'sunset',
             },
-          },
-          required: ['schedules'],
+            offsetMinutes: {
+              type: 'integer',
+              minimum: -720,
+              maximum: 720,
+              example: -30,
+            },
+            latitude: {
+              type: 'number',
+              minimum: -90,
+              maximum: 90,
+              example: 52.52,
+            },
+            longitude: {
+              type: 'number',
+              minimum: -180,
+              maximum: 180,
+              example: 13.405,
+            },
+          },
+          required: ['event', 'offsetMinutes', 'latitude', 'longitude'],
+        },
+        HostSchedulesResponse: {
+          type: 'object',
+          properties: {
+            schedules: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HostWakeSchedule',
+              },
+            },
+          },
+          required: ['schedules'],
         },
         CreateHostWakeScheduleRequest: {
           type: 'object',
@@ -1084,9 +1596,31 @@ const options: swaggerJsdoc.Options = {
             },
             frequency: {
               type: 'string',
-              enum: ['once', 'daily', 'weekly', 'weekdays', 'weekends'],
+              enum: ['once', 'daily', 'weekly', 'weekdays', 'weekends', 'cron', 'solar'],
               example: 'daily',
             },
+            cronExpression: {
+              type: 'string',
+              description: 'Five-field cron expression evaluated in `timezone`; required when frequency is cron',
+              example: '30 7 * * TUE#2',
+            },
+            solar: {
+              $ref: '#/components/schemas/ScheduleSolarTrigger',
+            },
+            action: {
+              type: 'string',
+              enum: ['wake', 'sleep', 'shutdown'],
+              description: 'Command dispatched when the schedule fires; sleep and shutdown require host power control',
+              example: 'wake',
+            },
+            exceptionCalendarIds: {
+              type: 'array',
+              maxItems: 20,
+              description: 'Exception calendars whose dates (in `timezone`) the schedule skips',
+              items: {
+                type: 'string',
+              },
+            },
             enabled: {
               type: 'boolean',
               example: true,
@@ -1112,9 +1646,31 @@ const options: swaggerJsdoc.Options = {
             },
             frequency: {
               type: 'string',
-              enum: ['once', 'daily', 'weekly', 'weekdays', 'weekends'],
+              enum: ['once', 'daily', 'weekly', 'weekdays', 'weekends', 'cron', 'solar'],
               example: 'daily',
             },
+            cronExpression: {
+              type: 'string',
+              description: 'Five-field cron expression evaluated in `timezone`; required when frequency is cron',
+              example: '30 7 * * TUE#2',
+            },
+            solar: {
+              $ref: '#/components/schemas/ScheduleSolarTrigger',
+            },
+            action: {
+              type: 'string',
+              enum: ['wake', 'sleep', 'shutdown'],
+              description: 'Command dispatched when the schedule fires; sleep and shutdown require host power control',
+              example: 'wake',
+            },
+            exceptionCalendarIds: {
+              type: 'array',
+              maxItems: 20,
+              description: 'Exception calendars whose dates (in `timezone`) the schedule skips',
+              items: {
+                type: 'string',
+              },
+            },
             enabled: {
               type: 'boolean',
               example: true,
@@ -1129,6 +1685,177 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        ScheduleSkippedRun: {
+          type: 'object',
+          properties: {
+            scheduledFor: { type: 'string', format: 'date-time', example: '2026-12-25T07:00:00.000Z' },
+            date: {
+              type: 'string',
+              description: 'Local date (YYYY-MM-DD) in the schedule timezone',
+              example: '2026-12-25',
+            },
+            calendarId: { type: 'string', example: '3f0c1c1e-8a4b-4f3e-9d57-8f4b1a2c3d4e' },
+            calendarName: { type: 'string', example: 'Public holidays' },
+            reason: { type: 'string', example: 'Christmas Day' },
+          },
+          required: ['scheduledFor', 'date', 'calendarId', 'calendarName', 'reason'],
+        },
+        ExceptionCalendarDate: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', example: '2026-12-25' },
+            label: { type: 'string', example: 'Christmas Day' },
+          },
+          required: ['date'],
+        },
+        ExceptionCalendar: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: '3f0c1c1e-8a4b-4f3e-9d57-8f4b1a2c3d4e' },
+            name: { type: 'string', example: 'Public holidays' },
+            description: { type: 'string', example: 'Office closed' },
+            source: { type: 'string', enum: ['dates', 'ics'], example: 'ics' },
+            dates: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ExceptionCalendarDate',
+              },
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'name', 'source', 'dates', 'createdAt', 'updatedAt'],
+        },
+        ExceptionCalendarsResponse: {
+          type: 'object',
+          properties: {
+            calendars: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ExceptionCalendar',
+              },
+            },
+          },
+          required: ['calendars'],
+        },
+        CreateExceptionCalendarRequest: {
+          type: 'object',
+          description: 'Provide exactly one of dates or ics',
+          properties: {
+            name: { type: 'string', maxLength: 100, example: 'Public holidays' },
+            description: { type: 'string', maxLength: 500 },
+            dates: {
+              type: 'array',
+              maxItems: 2000,
+              items: {
+                oneOf: [
+                  { type: 'string', example: '2026-12-25' },
+                  { $ref: '#/components/schemas/ExceptionCalendarDate' },
+                ],
+              },
+            },
+            ics: {
+              type: 'string',
+              maxLength: 90000,
+              description: 'Contents of an iCalendar (.ics) file',
+            },
+          },
+          required: ['name'],
+        },
+        UpdateExceptionCalendarRequest: {
+          type: 'object',
+          description: 'dates or ics replaces the calendar dates; provide at most one',
+          properties: {
+            name: { type: 'string', maxLength: 100 },
+            description: { type: 'string', maxLength: 500, nullable: true },
+            dates: {
+              type: 'array',
+              maxItems: 2000,
+              items: {
+                oneOf: [
+                  { type: 'string' },
+                  { $ref: '#/components/schemas/ExceptionCalendarDate' },
+                ],
+              },
+            },
+            ics: { type: 'string', maxLength: 90000 },
+          },
+        },
+        DeleteExceptionCalendarResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            id: { type: 'string' },
+          },
+          required: ['success', 'id'],
+        },
+        ScheduleExecution: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 42 },
+            scheduleId: { type: 'string', example: 'schedule-1' },
+            hostFqn: { type: 'string', example: 'PHANTOM-MBP@home-network' },
+            action: { type: 'string', enum: ['wake', 'sleep', 'shutdown'], example: 'wake' },
+            attemptedAt: { type: 'string', format: 'date-time' },
+            outcome: {
+              type: 'string',
+              enum: ['pending', 'succeeded', 'failed'],
+              description: 'Wake executions stay pending until the node agent reports wake verification',
+              example: 'succeeded',
+            },
+            commandId: { type: 'string', nullable: true },
+            commandState: {
+              type: 'string',
+              nullable: true,
+              enum: ['queued', 'sent', 'acknowledged', 'failed', 'timed_out'],
+              example: 'acknowledged',
+            },
+            correlationId: { type: 'string', nullable: true, example: 'schedule:schedule-1:1771146000000' },
+            wakeVerification: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                status: { type: 'string', enum: ['pending', 'confirmed', 'timeout', 'failed'] },
+                attempts: { type: 'integer' },
+                elapsedMs: { type: 'integer' },
+                source: { type: 'string', enum: ['arp', 'ping'] },
+                startedAt: { type: 'string', format: 'date-time' },
+                confirmedAt: { type: 'string', format: 'date-time', nullable: true },
+                steps: { type: 'array', items: { $ref: '#/components/schemas/WakeStep' } },
+                confirmedAfterStep: { type: 'integer', description: 'Index into steps of the step that woke the host' },
+              },
+            },
+            error: { type: 'string', nullable: true, example: 'Wake verification timeout' },
+            completedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+          required: [
+            'id',
+            'scheduleId',
+            'hostFqn',
+            'action',
+            'attemptedAt',
+            'outcome',
+            'commandId',
+            'commandState',
+            'correlationId',
+            'wakeVerification',
+            'error',
+            'completedAt',
+          ],
+        },
+        ScheduleExecutionsResponse: {
+          type: 'object',
+          properties: {
+            scheduleId: { type: 'string', example: 'schedule-1' },
+            executions: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ScheduleExecution',
+              },
+            },
+          },
+          required: ['scheduleId', 'executions'],
+        },
         DeleteHostWakeScheduleResponse: {
           type: 'object',
           properties: {
@@ -1143,6 +1870,427 @@ const options: swaggerJsdoc.Options = {
           },
           required: ['success', 'id'],
         },
+        HostGroup: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: '7d1b7c56-4d0e-4a53-9b0c-5d1f0f4f9a61',
+            },
+            name: {
+              type: 'string',
+              example: 'Lab',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+              example: 'Teaching lab machines',
+            },
+            hostFqns: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              example: ['PHANTOM-MBP@home-network', 'LAB-PC-01@lab-node'],
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-02-18T00:00:00.000Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-02-18T00:00:00.000Z',
+            },
+          },
+          required: ['id', 'name', 'description', 'hostFqns', 'createdAt', 'updatedAt'],
+        },
+        HostGroupsResponse: {
+          type: 'object',
+          properties: {
+            groups: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HostGroup',
+              },
+            },
+          },
+          required: ['groups'],
+        },
+        CreateHostGroupRequest: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              maxLength: 128,
+              example: 'Lab',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+              maxLength: 1000,
+              example: 'Teaching lab machines',
+            },
+            hostFqns: {
+              type: 'array',
+              maxItems: 500,
+              items: {
+                type: 'string',
+              },
+              example: ['PHANTOM-MBP@home-network', 'LAB-PC-01@lab-node'],
+            },
+          },
+          required: ['name', 'hostFqns'],
+        },
+        UpdateHostGroupRequest: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              maxLength: 128,
+              example: 'Lab',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+              maxLength: 1000,
+            },
+            hostFqns: {
+              type: 'array',
+              maxItems: 500,
+              items: {
+                type: 'string',
+              },
+            },
+          },
+        },
+        DeleteHostGroupResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            id: {
+              type: 'string',
+              example: '7d1b7c56-4d0e-4a53-9b0c-5d1f0f4f9a61',
+            },
+          },
+          required: ['success', 'id'],
+        },
+        HostGroupWakeRequest: {
+          type: 'object',
+          properties: {
+            verify: {
+              type: 'boolean',
+              description: 'Enable asynchronous wake verification for every member host',
+            },
+          },
+        },
+        HostGroupActionHostResult: {
+          type: 'object',
+          properties: {
+            fqn: {
+              type: 'string',
+              example: 'LAB-PC-01@lab-node',
+            },
+            state: {
+              type: 'string',
+              enum: ['queued', 'sent', 'acknowledged', 'failed', 'timed_out', 'pending'],
+              description: '`pending` while a wake with prerequisites runs as `dependencyJob`',
+              example: 'acknowledged',
+            },
+            nodeId: {
+              type: 'string',
+              example: 'lab-node',
+            },
+            commandId: {
+              type: 'string',
+              example: 'cmd_123e4567-e89b-12d3-a456-426614174000',
+            },
+            message: {
+              type: 'string',
+              example: 'Wake-on-LAN packet sent to LAB-PC-01@lab-node',
+            },
+            error: {
+              type: 'string',
+              example: 'Node lab-node (lab-node) is offline',
+            },
+            dependencyJob: {
+              allOf: [{ $ref: '#/components/schemas/WakeDependencyJob' }],
+              description: 'Background job waking the host and its prerequisites; follow it at GET /api/hosts/wake-jobs/{jobId}',
+            },
+          },
+          required: ['fqn', 'state'],
+        },
+        HostGroupActionJob: {
+          type: 'object',
+          properties: {
+            jobId: {
+              type: 'string',
+              example: 'job_0f8c4f8e-3b8a-4c53-8a52-5f4b0d0f6e21',
+            },
+            groupId: {
+              type: 'string',
+              example: '7d1b7c56-4d0e-4a53-9b0c-5d1f0f4f9a61',
+            },
+            action: {
+              type: 'string',
+              enum: ['wake', 'sleep', 'shutdown'],
+              example: 'wake',
+            },
+            state: {
+              type: 'string',
+              enum: ['completed', 'partial', 'failed'],
+              description: 'completed when every member succeeded, failed when none did',
+              example: 'completed',
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer', example: 2 },
+                succeeded: { type: 'integer', example: 2 },
+                failed: { type: 'integer', example: 0 },
+              },
+              required: ['total', 'succeeded', 'failed'],
+            },
+            results: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HostGroupActionHostResult',
+              },
+            },
+            correlationId: {
+              type: 'string',
+              example: 'corr_2a8f6842-6f8f-4e8f-b6dc-f7dbd9a18e68',
+            },
+          },
+          required: ['jobId', 'groupId', 'action', 'state', 'startedAt', 'completedAt', 'summary', 'results'],
+        },
+        HostWakeDependencies: {
+          type: 'object',
+          properties: {
+            fqn: { type: 'string', example: 'plex@home-network' },
+            dependsOn: {
+              type: 'array',
+              description: 'Direct prerequisites, woken in this order before the host',
+              items: { type: 'string' },
+              example: ['nas@home-network'],
+            },
+          },
+          required: ['fqn', 'dependsOn'],
+        },
+        UpdateHostWakeDependenciesRequest: {
+          type: 'object',
+          properties: {
+            dependsOn: {
+              type: 'array',
+              maxItems: 32,
+              uniqueItems: true,
+              items: { type: 'string' },
+              example: ['nas@home-network'],
+            },
+          },
+          required: ['dependsOn'],
+          additionalProperties: false,
+        },
+        HostWakeRelay: {
+          type: 'object',
+          properties: {
+            fqn: { type: 'string', example: 'nas@home-network' },
+            relayNodeId: { type: 'string', example: 'lab-node' },
+            targetAddress: {
+              type: 'string',
+              format: 'ipv4',
+              description: 'Directed broadcast or unicast address the relay node sends magic packets to',
+              example: '192.168.20.255',
+            },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['fqn', 'relayNodeId', 'targetAddress', 'updatedAt'],
+        },
+        UpdateHostWakeRelayRequest: {
+          type: 'object',
+          properties: {
+            relayNodeId: { type: 'string', example: 'lab-node' },
+            targetAddress: { type: 'string', format: 'ipv4', example: '192.168.20.255' },
+          },
+          required: ['relayNodeId', 'targetAddress'],
+          additionalProperties: false,
+        },
+        WakeDependencyStep: {
+          type: 'object',
+          properties: {
+            fqn: { type: 'string', example: 'nas@home-network' },
+            role: { type: 'string', enum: ['prerequisite', 'target'] },
+            status: {
+              type: 'string',
+              enum: ['already_awake', 'queued', 'sent', 'pending', 'confirmed', 'timeout', 'failed', 'skipped'],
+              example: 'confirmed',
+            },
+            nodeId: { type: 'string' },
+            commandId: { type: 'string' },
+            wakeVerification: {
+              type: 'object',
+              description: 'Verification result reported by the node agent for a prerequisite wake',
+              properties: {
+                status: { type: 'string', enum: ['pending', 'confirmed', 'timeout', 'failed'] },
+                attempts: { type: 'integer' },
+                elapsedMs: { type: 'integer' },
+                source: { type: 'string', enum: ['arp', 'ping'] },
+                startedAt: { type: 'string', format: 'date-time' },
+                confirmedAt: { type: 'string', format: 'date-time', nullable: true },
+                steps: { type: 'array', items: { $ref: '#/components/schemas/WakeStep' } },
+                confirmedAfterStep: { type: 'integer', description: 'Index into steps of the step that woke the host' },
+              },
+            },
+            error: { type: 'string' },
+          },
+          required: ['fqn', 'role', 'status'],
+        },
+        WakeDependencyJob: {
+          type: 'object',
+          description: 'Background job that wakes prerequisite hosts one at a time and then the host itself',
+          properties: {
+            jobId: { type: 'string', example: 'job_9f1c2d3e-4b5a-6789-0abc-def012345678' },
+            fqn: { type: 'string', example: 'desktop@home-network' },
+            state: { type: 'string', enum: ['running', 'completed', 'failed'] },
+            prerequisites: {
+              type: 'array',
+              description: 'Prerequisite FQNs in wake order',
+              items: { type: 'string' },
+            },
+            steps: {
+              type: 'array',
+              description: 'Steps taken so far; prerequisites first, target last',
+              items: { $ref: '#/components/schemas/WakeDependencyStep' },
+            },
+            startedAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time' },
+            error: { type: 'string' },
+            correlationId: { type: 'string' },
+          },
+          required: ['jobId', 'fqn', 'state', 'prerequisites', 'steps', 'startedAt'],
+        },
+        HostBulkOperationRequest: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['wake', 'ping', 'scan-ports', 'update', 'delete'],
+              example: 'wake',
+            },
+            fqns: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 200,
+              uniqueItems: true,
+              items: { type: 'string' },
+              example: ['desktop@lab-node', 'nas@office-node'],
+            },
+            verify: {
+              type: 'boolean',
+              description: 'Only for action=wake. Enable asynchronous wake verification per host',
+            },
+            update: {
+              type: 'object',
+              description: 'Required for action=update. At least one of tags or notes must be set',
+              properties: {
+                tags: {
+                  type: 'array',
+                  maxItems: 32,
+                  items: { type: 'string', minLength: 1, maxLength: 64 },
+                },
+                notes: {
+                  type: 'string',
+                  maxLength: 2000,
+                  nullable: true,
+                },
+              },
+              additionalProperties: false,
+            },
+          },
+          required: ['action', 'fqns'],
+        },
+        HostBulkOperationItemResult: {
+          type: 'object',
+          properties: {
+            fqn: { type: 'string', example: 'desktop@lab-node' },
+            success: { type: 'boolean', example: true },
+            state: {
+              type: 'string',
+              enum: ['queued', 'sent', 'acknowledged', 'failed', 'timed_out', 'pending'],
+              description: '`pending` while a wake with prerequisites runs as `dependencyJob`',
+              example: 'acknowledged',
+            },
+            nodeId: { type: 'string', example: 'lab-node' },
+            commandId: { type: 'string', example: 'cmd_3c1d4c1e-2b65-4d38-9b61-8c2f9b5f7e10' },
+            message: { type: 'string' },
+            error: { type: 'string' },
+            dependencyJob: {
+              allOf: [{ $ref: '#/components/schemas/WakeDependencyJob' }],
+              description: 'Present for wake items with prerequisites; follow it at GET /api/hosts/wake-jobs/{jobId}',
+            },
+            ping: {
+              type: 'object',
+              description: 'Present for successful ping items',
+              properties: {
+                checkedAt: { type: 'string', format: 'date-time' },
+                latencyMs: { type: 'number', example: 3 },
+                reachable: { type: 'boolean', example: true },
+                status: { type: 'string', enum: ['awake', 'asleep', 'unknown'] },
+              },
+            },
+            portScan: {
+              type: 'object',
+              description: 'Present for successful scan-ports items',
+              properties: {
+                scannedAt: { type: 'string', format: 'date-time' },
+                openPorts: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/HostPort' },
+                },
+              },
+            },
+          },
+          required: ['fqn', 'success', 'state'],
+        },
+        HostBulkOperationResponse: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['wake', 'ping', 'scan-ports', 'update', 'delete'],
+            },
+            startedAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time' },
+            summary: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer', example: 2 },
+                succeeded: { type: 'integer', example: 1 },
+                failed: { type: 'integer', example: 1 },
+              },
+              required: ['total', 'succeeded', 'failed'],
+            },
+            results: {
+              type: 'array',
+              description: 'One entry per requested FQN, in request order',
+              items: { $ref: '#/components/schemas/HostBulkOperationItemResult' },
+            },
+            correlationId: { type: 'string' },
+          },
+          required: ['action', 'startedAt', 'completedAt', 'summary', 'results'],
+        },
         WakeupRequest: {
           type: 'object',
           properties: {
@@ -1210,6 +2358,9 @@ const options: swaggerJsdoc.Options = {
             wakeVerification: {
               $ref: '#/components/schemas/WakeVerificationPending',
             },
+            dependencyJob: {
+              $ref: '#/components/schemas/WakeDependencyJob',
+            },
           },
           required: ['success', 'message', 'nodeId', 'location'],
         },
@@ -1264,6 +2415,66 @@ const options: swaggerJsdoc.Options = {
           },
           required: ['success', 'action', 'message', 'nodeId', 'location'],
         },
+        HostOutOfBandPowerRequest: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['power-on', 'graceful-shutdown', 'force-off', 'power-cycle'],
+              example: 'power-cycle',
+            },
+            confirm: {
+              type: 'string',
+              description: 'Must repeat the action',
+              example: 'power-cycle',
+            },
+          },
+          required: ['action', 'confirm'],
+        },
+        HostOutOfBandPowerResponse: {
+          allOf: [
+            { $ref: '#/components/schemas/HostPowerResponse' },
+            {
+              type: 'object',
+              properties: {
+                action: {
+                  type: 'string',
+                  enum: ['power-on', 'graceful-shutdown', 'force-off', 'power-cycle'],
+                  example: 'power-cycle',
+                },
+              },
+            },
+          ],
+        },
+        HostPowerStateResponse: {
+          type: 'object',
+          properties: {
+            target: {
+              type: 'string',
+              example: 'rack-01@datacenter',
+            },
+            state: {
+              type: 'string',
+              enum: ['on', 'off', 'powering-on', 'powering-off', 'unknown'],
+              example: 'on',
+            },
+            checkedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2026-10-18T10:00:00.000Z',
+            },
+            source: {
+              type: 'string',
+              enum: ['node-agent'],
+              example: 'node-agent',
+            },
+            correlationId: {
+              type: 'string',
+              example: 'corr_2a8f6842-6f8f-4e8f-b6dc-f7dbd9a18e68',
+            },
+          },
+          required: ['target', 'state', 'checkedAt', 'source'],
+        },
         HostPingResponse: {
           type: 'object',
           properties: {
@@ -1486,6 +2697,8 @@ const options: swaggerJsdoc.Options = {
                 'ping-host',
                 'sleep-host',
                 'shutdown-host',
+                'power-host',
+                'query-host-power',
                 'ping',
               ],
               description: 'Command type',
@@ -1577,6 +2790,16 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        Conflict: {
+          description: 'Request conflicts with the current state of the resource',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+            },
+          },
+        },
         ServiceUnavailable: {
           description: 'Service unavailable (e.g., node offline)',
           content: {
@@ -7,8 +7,23 @@ import type {
   CncCapabilityDescriptor as ProtocolCncCapabilityDescriptor,
   CommandState,
   HostWakeSchedule as ProtocolHostWakeSchedule,
+  HostGroup as ProtocolHostGroup,
+  HostGroupAction as ProtocolHostGroupAction,
+  HostGroupActionHostResult as ProtocolHostGroupActionHostResult,
+  HostGroupActionJob as ProtocolHostGroupActionJob,
+  HostWakeDependencies as ProtocolHostWakeDependencies,
+  HostWakeRelay as ProtocolHostWakeRelay,
+  WakeDependencyStep as ProtocolWakeDependencyStep,
+  WakeDependencyJob as ProtocolWakeDependencyJob,
+  HostBulkAction as ProtocolHostBulkAction,
+  HostBulkOperationItemResult as ProtocolHostBulkOperationItemResult,
+  HostBulkOperationRequest as ProtocolHostBulkOperationRequest,
+  HostBulkOperationResponse as ProtocolHostBulkOperationResponse,
   Host,
   HostPowerAction as ProtocolHostPowerAction,
+  HostOutOfBandPowerAction as ProtocolHostOutOfBandPowerAction,
+  HostPowerState as ProtocolHostPowerState,
+  HostPowerStateResult as ProtocolHostPowerStateResult,
   HostPingResult as ProtocolHostPingResult,
   HostPortScanResult as ProtocolHostPortScanResult,
   HostPortScanResponse as ProtocolHostPortScanResponse,
@@ -17,17 +32,40 @@ import type {
   DeviceRegistration as ProtocolDeviceRegistration,
   DeviceRegistrationRequest as ProtocolDeviceRegistrationRequest,
   DevicesResponse as ProtocolDevicesResponse,
+  ExceptionCalendar as ProtocolExceptionCalendar,
+  ExceptionCalendarDate as ProtocolExceptionCalendarDate,
+  ExceptionCalendarSource as ProtocolExceptionCalendarSource,
   NotificationPreferences as ProtocolNotificationPreferences,
   NotificationPreferencesResponse as ProtocolNotificationPreferencesResponse,
+  NotificationRule as ProtocolNotificationRule,
   NodeMetadata as ProtocolNodeMetadata,
+  AclResourceType as ProtocolAclResourceType,
+  ApiKey as ProtocolApiKey,
+  ApiKeyScope as ProtocolApiKeyScope,
+  ApiKeyUsageEntry as ProtocolApiKeyUsageEntry,
+  AuditLogEntry as ProtocolAuditLogEntry,
+  AuditOutcome as ProtocolAuditOutcome,
+  ResourceAclEntry as ProtocolResourceAclEntry,
+  ResourcePermission as ProtocolResourcePermission,
+  UserAccount as ProtocolUserAccount,
+  UserRole as ProtocolUserRole,
   PushNotificationEventType as ProtocolPushNotificationEventType,
   PushNotificationPlatform as ProtocolPushNotificationPlatform,
+  ApnsEnvironment as ProtocolApnsEnvironment,
+  ScheduleAction as ProtocolScheduleAction,
+  ScheduleExecution as ProtocolScheduleExecution,
+  ScheduleExecutionOutcome as ProtocolScheduleExecutionOutcome,
+  ScheduleExecutionsResponse as ProtocolScheduleExecutionsResponse,
   ScheduleFrequency as ProtocolScheduleFrequency,
+  ScheduleSkippedRun as ProtocolScheduleSkippedRun,
+  ScheduleSolarTrigger as ProtocolScheduleSolarTrigger,
   WebhookDeliveriesResponse as ProtocolWebhookDeliveriesResponse,
   WebhookDeliveryLog as ProtocolWebhookDeliveryLog,
+  WebhookDeliveryResult as ProtocolWebhookDeliveryResult,
   WebhookEventType as ProtocolWebhookEventType,
   WebhooksResponse as ProtocolWebhooksResponse,
   WebhookSubscription as ProtocolWebhookSubscription,
+  UpdateWebhookRequest as ProtocolUpdateWebhookRequest,
   WakeVerificationResult as ProtocolWakeVerificationResult,
 } from '@kaonis/woly-protocol';
 
@@ -79,6 +117,7 @@ export interface CommandResult {
   hostPing?: ProtocolHostPingResult;
   hostPortScan?: ProtocolHostPortScanResult;
   wakeVerification?: ProtocolWakeVerificationResult;
+  hostPowerState?: ProtocolHostPowerStateResult;
   timestamp: Date;
   correlationId?: string;
 }
@@ -104,7 +143,28 @@ export type HostPingResult = ProtocolHostPingResult;
 export type HostPortScanResponse = ProtocolHostPortScanResponse;
 export type HostPowerAction = ProtocolHostPowerAction;
 export type ScheduleFrequency = ProtocolScheduleFrequency;
+export type ScheduleAction = ProtocolScheduleAction;
+export type ScheduleSolarTrigger = ProtocolScheduleSolarTrigger;
 export type HostWakeSchedule = ProtocolHostWakeSchedule;
+export type ScheduleExecution = ProtocolScheduleExecution;
+export type ScheduleExecutionOutcome = ProtocolScheduleExecutionOutcome;
+export type ScheduleExecutionsResponse = ProtocolScheduleExecutionsResponse;
+export type ScheduleSkippedRun = ProtocolScheduleSkippedRun;
+export type ExceptionCalendar = ProtocolExceptionCalendar;
+export type ExceptionCalendarDate = ProtocolExceptionCalendarDate;
+export type ExceptionCalendarSource = ProtocolExceptionCalendarSource;
+export type HostGroup = ProtocolHostGroup;
+export type HostGroupAction = ProtocolHostGroupAction;
+export type HostGroupActionHostResult = ProtocolHostGroupActionHostResult;
+export type HostGroupActionJob = ProtocolHostGroupActionJob;
+export type HostWakeDependencies = ProtocolHostWakeDependencies;
+export type HostWakeRelay = ProtocolHostWakeRelay;
+export type WakeDependencyStep = ProtocolWakeDependencyStep;
+export type WakeDependencyJob = ProtocolWakeDependencyJob;
+export type HostBulkAction = ProtocolHostBulkAction;
+export type HostBulkOperationItemResult = ProtocolHostBulkOperationItemResult;
+export type HostBulkOperationRequest = ProtocolHostBulkOperationRequest;
+export type HostBulkOperationResponse = ProtocolHostBulkOperationResponse;
 export type WakeVerificationResult = ProtocolWakeVerificationResult;
 
 export interface HostStatusHistoryEntry {
@@ -136,17 +196,31 @@ export interface HostUptimeSummary {
 export type WebhookEventType = ProtocolWebhookEventType;
 export type WebhookSubscription = ProtocolWebhookSubscription;
 export type CreateWebhookRequest = ProtocolCreateWebhookRequest;
+export type UpdateWebhookRequest = ProtocolUpdateWebhookRequest;
 export type WebhooksResponse = ProtocolWebhooksResponse;
 export type WebhookDeliveryLog = ProtocolWebhookDeliveryLog;
 export type WebhookDeliveriesResponse = ProtocolWebhookDeliveriesResponse;
+export type WebhookDeliveryResult = ProtocolWebhookDeliveryResult;
 export type PushNotificationEventType = ProtocolPushNotificationEventType;
 export type PushNotificationPlatform = ProtocolPushNotificationPlatform;
+export type ApnsEnvironment = ProtocolApnsEnvironment;
 export type NotificationPreferences = ProtocolNotificationPreferences;
 export type NotificationPreferencesResponse = ProtocolNotificationPreferencesResponse;
+export type NotificationRule = ProtocolNotificationRule;
 export type DeviceRegistrationRequest = ProtocolDeviceRegistrationRequest;
 export type DeviceRegistration = ProtocolDeviceRegistration;
 export type DevicesResponse = ProtocolDevicesResponse;
 export type DeviceDeregistrationResponse = ProtocolDeviceDeregistrationResponse;
+export type UserRole = ProtocolUserRole;
+export type UserAccount = ProtocolUserAccount;
+export type AclResourceType = ProtocolAclResourceType;
+export type ResourcePermission = ProtocolResourcePermission;
+export type ResourceAclEntry = ProtocolResourceAclEntry;
+export type ApiKey = ProtocolApiKey;
+export type ApiKeyScope = ProtocolApiKeyScope;
+export type ApiKeyUsageEntry = ProtocolApiKeyUsageEntry;
+export type AuditLogEntry = ProtocolAuditLogEntry;
+export type AuditOutcome = ProtocolAuditOutcome;
 
 export interface HostPingResponse {
   target: string;
@@ -170,6 +244,8 @@ export interface WakeupResponse {
     status: 'pending';
     startedAt: string;
   };
+  /** Present when the host has wake dependencies; the chain runs in the background. */
+  dependencyJob?: WakeDependencyJob;
 }
 
 export interface HostPowerResponse {
@@ -183,6 +259,18 @@ export interface HostPowerResponse {
   correlationId?: string;
 }
 
+export interface HostOutOfBandPowerResponse extends Omit<HostPowerResponse, 'action'> {
+  action: ProtocolHostOutOfBandPowerAction;
+}
+
+export interface HostPowerStateResponse {
+  target: string;
+  state: ProtocolHostPowerState;
+  checkedAt: string;
+  source: 'node-agent';
+  correlationId?: string;
+}
+
 export interface CommandRecord {
   id: string;
   nodeId: string;
@@ -213,6 +301,17 @@ export interface ServerConfig {
   jwtIssuer: string;
   jwtAudience: string;
   jwtTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  oidcAudiences: string[];
+  oidcJwksUri: string;
+  oidcScopes: string[];
+  oidcRoleClaim: string;
+  oidcAdminGroups: string[];
+  oidcOperatorGroups: string[];
+  oidcJwksCacheTtlSeconds: number;
   wsRequireTls: boolean;
   wsAllowQueryTokenAuth: boolean;
   wsSessionTokenSecrets: string[];
@@ -227,18 +326,51 @@ export interface ServerConfig {
   offlineCommandTtlMs: number;
   commandRetentionDays: number;
   hostStatusHistoryRetentionDays: number;
+  auditLogRetentionDays: number;
   commandMaxRetries: number;
   commandRetryBaseDelayMs: number;
+  bulkCommandNodeConcurrency: number;
   scheduleWorkerEnabled: boolean;
   schedulePollIntervalMs: number;
   scheduleBatchSize: number;
   enabledPlugins: string[];
+  pluginDirectory: string;
+  pluginPackages: string[];
+  pluginConfigFile: string;
+  mqttBrokerUrl: string;
+  mqttUsername: string;
+  mqttPassword: string;
+  mqttClientId: string;
+  mqttTopicPrefix: string;
+  mqttDiscoveryEnabled: boolean;
+  mqttDiscoveryPrefix: string;
   pushNotificationsEnabled: boolean;
-  fcmServerKey: string;
-  apnsBearerToken: string;
+  fcmServiceAccountFile: string;
+  fcmProjectId: string;
+  fcmApiBaseUrl: string;
+  apnsKeyFile: string;
+  apnsKeyId: string;
+  apnsTeamId: string;
   apnsTopic: string;
   apnsHost: string;
+  apnsSandboxHost: string;
+  webPushVapidPublicKey: string;
+  webPushVapidPrivateKey: string;
+  webPushVapidSubject: string;
+  ntfyBaseUrl: string;
+  ntfyAccessToken: string;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  smtpUsername: string;
+  smtpPassword: string;
+  smtpFrom: string;
   webhookRetryBaseDelayMs: number;
   webhookDeliveryTimeoutMs: number;
+  webhookMaxAttempts: number;
+  webhookRetryMaxDelayMs: number;
+  webhookPollIntervalMs: number;
+  /** Consecutive failed deliveries (after all attempts) before a webhook is disabled; 0 never disables. */
+  webhookAutoDisableFailures: number;
   logLevel: string;
 }
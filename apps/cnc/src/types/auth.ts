@@ -1,13 +1,28 @@
+import type { ApiKeyScope } from '../types';
+
 export interface AuthContext {
   sub: string;
   roles: string[];
+  /** Set for tokens minted by a user account login (`uid` claim). */
+  userId?: string;
+  /** Set when the request authenticated with an API key instead of a JWT. */
+  apiKey?: ApiKeyAuthContext;
   claims: Record<string, unknown>;
 }
 
+export interface ApiKeyAuthContext {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  hostFqns: string[];
+  nodeIds: string[];
+}
+
 export interface JwtPayload {
   sub?: unknown;
   role?: unknown;
   roles?: unknown;
+  uid?: unknown;
   iss?: unknown;
   aud?: unknown;
   exp?: unknown;
@@ -0,0 +1,119 @@
+import { parseIcsExceptionDates } from '../icalendar';
+
+function calendar(...events: string[][]): string {
+  return zonedCalendar(null, ...events);
+}
+
+function zonedCalendar(timezone: string | null, ...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Example//Holidays//EN',
+    ...(timezone ? [`X-WR-TIMEZONE:${timezone}`] : []),
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+describe('parseIcsExceptionDates', () => {
+  it('reads all-day and timed events with their summaries', () => {
+    const ics = calendar(
+      ['UID:1', 'DTSTART;VALUE=DATE:20261225', 'DTEND;VALUE=DATE:20261226', 'SUMMARY:Christmas Day'],
+      ['UID:2', 'DTSTART:20260704T090000', 'DTEND:20260704T170000', 'SUMMARY:Independence Day\\, observed'],
+      ['UID:3', 'DTSTART;TZID=Europe/Berlin:20260501T000000', 'SUMMARY:Labour', ' Day'],
+    );
+
+    expect(parseIcsExceptionDates(ics)).toEqual({
+      dates: [
+        { date: '2026-05-01', label: 'LabourDay' },
+        { date: '2026-07-04', label: 'Independence Day, observed' },
+        { date: '2026-12-25', label: 'Christmas Day' },
+      ],
+      warnings: [],
+    });
+  });
+
+  it('dates UTC and TZID times in the calendar timezone', () => {
+    const ics = zonedCalendar(
+      'America/Los_Angeles',
+      ['DTSTART:20260101T060000Z', 'SUMMARY:UTC morning'],
+      ['DTSTART;TZID=Europe/Berlin:20260501T060000', 'SUMMARY:Berlin morning'],
+      ['DTSTART;TZID=America/Los_Angeles:20260704T230000', 'SUMMARY:Local night'],
+      ['DTSTART;VALUE=DATE:20261225', 'SUMMARY:All day'],
+    );
+
+    expect(parseIcsExceptionDates(ics).dates).toEqual([
+      { date: '2025-12-31', label: 'UTC morning' },
+      { date: '2026-04-30', label: 'Berlin morning' },
+      { date: '2026-07-04', label: 'Local night' },
+      { date: '2026-12-25', label: 'All day' },
+    ]);
+
+    // Without X-WR-TIMEZONE a UTC UNTIL is dated in the event's own TZID.
+    const until = parseIcsExceptionDates(
+      calendar(['DTSTART;TZID=America/New_York:20261225T090000', 'RRULE:FREQ=YEARLY;UNTIL=20271225T140000Z']),
+    );
+    expect(until.dates.map((entry) => entry.date)).toEqual(['2026-12-25', '2027-12-25']);
+  });
+
+  it('expands multi-day events and yearly recurrences, skipping cancelled events', () => {
+    const ics = calendar(
+      ['DTSTART;VALUE=DATE:20260810', 'DTEND;VALUE=DATE:20260813', 'SUMMARY:Vacation'],
+      ['DTSTART;VALUE=DATE:20260101', 'RRULE:FREQ=YEARLY;COUNT=3', 'SUMMARY:New Year'],
+      ['DTSTART;VALUE=DATE:20261231', 'STATUS:CANCELLED', 'SUMMARY:Office party'],
+    );
+
+    expect(parseIcsExceptionDates(ics).dates).toEqual([
+      { date: '2026-01-01', label: 'New Year' },
+      { date: '2026-08-10', label: 'Vacation' },
+      { date: '2026-08-11', label: 'Vacation' },
+      { date: '2026-08-12', label: 'Vacation' },
+      { date: '2027-01-01', label: 'New Year' },
+      { date: '2028-01-01', label: 'New Year' },
+    ]);
+
+    const unbounded = parseIcsExceptionDates(calendar(['DTSTART;VALUE=DATE:20261225', 'RRULE:FREQ=YEARLY'])).dates;
+    expect(unbounded).toHaveLength(10);
+    expect(unbounded[9]).toEqual({ date: '2035-12-25' });
+
+    const until = parseIcsExceptionDates(
+      calendar(['DTSTART;VALUE=DATE:20260101', 'RRULE:FREQ=YEARLY;UNTIL=20271231']),
+    );
+    expect(until.dates.map((entry) => entry.date)).toEqual(['2026-01-01', '2027-01-01']);
+  });
+
+  it('skips events with unsupported recurrence rules and reports them', () => {
+    const ics = calendar(
+      ['DTSTART;VALUE=DATE:20260101', 'RRULE:FREQ=WEEKLY', 'SUMMARY:Standup'],
+      ['DTSTART;VALUE=DATE:20261225', 'SUMMARY:Christmas Day'],
+      ['DTSTART;VALUE=DATE:20260301', 'RRULE:COUNT=2'],
+    );
+
+    expect(parseIcsExceptionDates(ics)).toEqual({
+      dates: [{ date: '2026-12-25', label: 'Christmas Day' }],
+      warnings: [
+        'Event 1 skipped: unsupported RRULE frequency WEEKLY; only FREQ=YEARLY is supported',
+        'Event 3 skipped: unsupported RRULE frequency (missing); only FREQ=YEARLY is supported',
+      ],
+    });
+  });
+
+  it('rejects documents and events it cannot interpret', () => {
+    expect(() => parseIcsExceptionDates('not a calendar')).toThrow('missing BEGIN:VCALENDAR');
+    expect(() => parseIcsExceptionDates(calendar(['SUMMARY:No start']))).toThrow(
+      'Event 1 has a missing or invalid DTSTART',
+    );
+    expect(() => parseIcsExceptionDates(calendar(['DTSTART;VALUE=DATE:20260230']))).toThrow(
+      'missing or invalid DTSTART',
+    );
+    expect(() => parseIcsExceptionDates(calendar(['DTSTART:20260704T090000Z']))).toThrow(
+      'Event 1 DTSTART is a UTC time but the calendar has no X-WR-TIMEZONE to date it in',
+    );
+    expect(() => parseIcsExceptionDates(zonedCalendar('Mars/Olympus', ['DTSTART;VALUE=DATE:20260101']))).toThrow(
+      'Unknown X-WR-TIMEZONE Mars/Olympus',
+    );
+    expect(() =>
+      parseIcsExceptionDates(zonedCalendar('UTC', ['DTSTART;TZID=W. Europe Standard Time:20260101T090000'])),
+    ).toThrow('Event 1 DTSTART has an unknown TZID W. Europe Standard Time');
+  });
+});
@@ -0,0 +1,20 @@
+import { hashPassword, verifyPassword } from '../passwordHash';
+
+describe('passwordHash', () => {
+  it('hashes with a random salt and verifies the original password only', async () => {
+    const first = await hashPassword('correct horse battery');
+    const second = await hashPassword('correct horse battery');
+
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$[\w-]+\$[\w-]+$/);
+    expect(first).not.toBe(second);
+    await expect(verifyPassword('correct horse battery', first)).resolves.toBe(true);
+    await expect(verifyPassword('correct horse staple', first)).resolves.toBe(false);
+  });
+
+  it('returns false for malformed hashes', async () => {
+    await expect(verifyPassword('password', '')).resolves.toBe(false);
+    await expect(verifyPassword('password', 'bcrypt$10$abc')).resolves.toBe(false);
+    await expect(verifyPassword('password', 'scrypt$0$8$1$c2FsdA$a2V5')).resolves.toBe(false);
+    await expect(verifyPassword('password', 'scrypt$16384$8$1$c2FsdA$')).resolves.toBe(false);
+  });
+});
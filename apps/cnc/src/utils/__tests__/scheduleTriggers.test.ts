@@ -0,0 +1,241 @@
+import {
+  computeNextTrigger,
+  computeSkippedTriggers,
+  computeSolarEventTime,
+  computeUpcomingTriggers,
+  findTriggerExclusion,
+  parseCronExpression,
+  validateScheduleTrigger,
+  type ScheduleExclusion,
+  type ScheduleTriggerSpec,
+} from '../scheduleTriggers';
+
+function cronSpec(cronExpression: string, timezone = 'UTC'): ScheduleTriggerSpec {
+  return {
+    scheduledTime: '2026-01-01T00:00:00.000Z',
+    frequency: 'cron',
+    timezone,
+    cronExpression,
+  };
+}
+
+function minutesBetween(a: Date | string, b: Date | string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 60_000;
+}
+
+describe('scheduleTriggers', () => {
+  describe('parseCronExpression', () => {
+    it('parses names, ranges, steps and macros', () => {
+      const parsed = parseCronExpression('*/15 7-9 * JAN,FEB MON-FRI');
+      expect(parsed.minutes).toEqual([0, 15, 30, 45]);
+      expect(parsed.hours).toEqual([7, 8, 9]);
+      expect([...parsed.months]).toEqual([1, 2]);
+      expect([...parsed.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(parsed.daysOfMonthRestricted).toBe(false);
+
+      expect(parseCronExpression('@daily')).toMatchObject({ minutes: [0], hours: [0] });
+    });
+
+    it.each([
+      ['* * *', /expected 5 fields/],
+      ['61 * * * *', /out of range/],
+      ['0 0 * * 8', /out of range/],
+      ['0 0 * * 2#6', /out of range/],
+      ['foo 0 * * *', /Invalid cron value/],
+      ['0 0 10-2 * *', /Invalid cron range/],
+    ])('rejects "%s"', (expression, message) => {
+      expect(() => parseCronExpression(expression)).toThrow(message);
+    });
+  });
+
+  describe('cron triggers', () => {
+    it('fires on the nth weekday of the month across a DST change', () => {
+      expect(
+        computeUpcomingTriggers(cronSpec('30 7 * * TUE#2', 'Europe/Berlin'), 3, new Date('2026-03-01T00:00:00.000Z')),
+      ).toEqual([
+        '2026-03-10T06:30:00.000Z',
+        '2026-04-14T05:30:00.000Z',
+        '2026-05-12T05:30:00.000Z',
+      ]);
+    });
+
+    it('supports last day of month, last weekday and OR-ed day fields', () => {
+      const reference = new Date('2026-01-01T00:00:00.000Z');
+
+      expect(computeNextTrigger(cronSpec('0 9 L * *'), true, new Date('2026-02-01T00:00:00.000Z'))).toBe(
+        '2026-02-28T09:00:00.000Z',
+      );
+      expect(computeNextTrigger(cronSpec('0 18 * * 5L'), true, reference)).toBe('2026-01-30T18:00:00.000Z');
+      // June 1st 2026 is a Monday; with both day fields restricted either one matches.
+      expect(
+        computeUpcomingTriggers(cronSpec('0 8 1 * MON'), 2, new Date('2026-06-01T12:00:00.000Z')),
+      ).toEqual(['2026-06-08T08:00:00.000Z', '2026-06-15T08:00:00.000Z']);
+    });
+
+    it('runs wall times skipped by spring-forward right after the shift', () => {
+      expect(
+        computeUpcomingTriggers(cronSpec('30 2 * * *', 'America/New_York'), 2, new Date('2026-03-07T12:00:00.000Z')),
+      ).toEqual(['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+    });
+
+    it('runs repeated wall times once on fall-back', () => {
+      expect(
+        computeUpcomingTriggers(cronSpec('30 1 * * *', 'America/New_York'), 3, new Date('2026-10-31T12:00:00.000Z')),
+      ).toEqual([
+        '2026-11-01T05:30:00.000Z',
+        '2026-11-02T06:30:00.000Z',
+        '2026-11-03T06:30:00.000Z',
+      ]);
+    });
+
+    it('does not fire before the scheduled start time', () => {
+      expect(
+        computeNextTrigger(
+          { ...cronSpec('0 7 * * *'), scheduledTime: '2026-05-10T07:00:00.000Z' },
+          true,
+          new Date('2026-05-01T00:00:00.000Z'),
+        ),
+      ).toBe('2026-05-10T07:00:00.000Z');
+    });
+  });
+
+  describe('solar triggers', () => {
+    const london = { latitude: 51.5074, longitude: -0.1278 };
+
+    it('computes sunrise and sunset within a few minutes of published times', () => {
+      // London, 2026-06-21: sunrise 04:43 BST, sunset 21:21 BST.
+      const sunrise = computeSolarEventTime(2026, 6, 21, { ...london, event: 'sunrise' });
+      const sunset = computeSolarEventTime(2026, 6, 21, { ...london, event: 'sunset' });
+
+      expect(minutesBetween(sunrise as Date, '2026-06-21T03:43:00.000Z')).toBeLessThan(3);
+      expect(minutesBetween(sunset as Date, '2026-06-21T20:21:00.000Z')).toBeLessThan(3);
+    });
+
+    it('returns null during polar night and midnight sun', () => {
+      const tromso = { latitude: 69.6492, longitude: 18.9553 };
+
+      expect(computeSolarEventTime(2026, 12, 21, { ...tromso, event: 'sunrise' })).toBeNull();
+      expect(computeSolarEventTime(2026, 6, 21, { ...tromso, event: 'sunset' })).toBeNull();
+    });
+
+    it('applies the offset and advances one day at a time', () => {
+      const upcoming = computeUpcomingTriggers(
+        {
+          scheduledTime: '2026-01-01T00:00:00.000Z',
+          frequency: 'solar',
+          timezone: 'Europe/London',
+          solar: { ...london, event: 'sunset', offsetMinutes: -30 },
+        },
+        2,
+        new Date('2026-06-21T12:00:00.000Z'),
+      );
+
+      expect(upcoming).toHaveLength(2);
+      expect(minutesBetween(upcoming[0], '2026-06-21T19:51:00.000Z')).toBeLessThan(3);
+      expect(minutesBetween(upcoming[1], '2026-06-22T19:51:00.000Z')).toBeLessThan(3);
+      expect(new Date(upcoming[0]).getUTCSeconds()).toBe(0);
+    });
+  });
+
+  it('keeps legacy frequencies in UTC and stops one-time schedules after they fire', () => {
+    const daily: ScheduleTriggerSpec = {
+      scheduledTime: '2026-02-15T09:00:00.000Z',
+      frequency: 'daily',
+      timezone: 'UTC',
+    };
+    const once: ScheduleTriggerSpec = { ...daily, frequency: 'once' };
+    const reference = new Date('2026-02-15T10:00:00.000Z');
+
+    expect(computeUpcomingTriggers(daily, 2, reference)).toEqual([
+      '2026-02-16T09:00:00.000Z',
+      '2026-02-17T09:00:00.000Z',
+    ]);
+    expect(computeUpcomingTriggers(once, 3, new Date('2026-02-01T00:00:00.000Z'))).toEqual([
+      '2026-02-15T09:00:00.000Z',
+    ]);
+    expect(computeNextTrigger(daily, false, reference)).toBeNull();
+  });
+
+  describe('exception dates', () => {
+    const holidays: ScheduleExclusion = { calendarId: 'cal-1', calendarName: 'Holidays' };
+
+    it('skips runs on excluded local dates in the schedule timezone', () => {
+      const spec: ScheduleTriggerSpec = {
+        ...cronSpec('0 23 * * *', 'America/New_York'),
+        exclusions: new Map<string, ScheduleExclusion>([
+          ['2026-12-24', { ...holidays, label: 'Christmas Eve' }],
+          ['2026-12-25', holidays],
+        ]),
+      };
+      const reference = new Date('2026-12-23T12:00:00.000Z');
+
+      // 23:00 in New York is 04:00 UTC the next day; the UTC date must not matter.
+      expect(computeUpcomingTriggers(spec, 2, reference)).toEqual([
+        '2026-12-24T04:00:00.000Z',
+        '2026-12-27T04:00:00.000Z',
+      ]);
+      expect(findTriggerExclusion(spec, '2026-12-25T04:00:00.000Z')).toEqual({
+        ...holidays,
+        label: 'Christmas Eve',
+      });
+      expect(findTriggerExclusion(spec, '2026-12-24T04:00:00.000Z')).toBeNull();
+    });
+
+    it('skips whole excluded days for high-frequency cron schedules', () => {
+      const spec: ScheduleTriggerSpec = {
+        ...cronSpec('*/5 * * * *', 'Europe/Berlin'),
+        exclusions: new Map<string, ScheduleExclusion>([
+          ['2026-03-28', holidays],
+          ['2026-03-29', holidays],
+        ]),
+      };
+
+      // Berlin switches to CEST on 2026-03-29, so 2026-03-30 starts at 22:00 UTC.
+      expect(computeNextTrigger(spec, true, new Date('2026-03-28T08:00:00.000Z'))).toBe(
+        '2026-03-29T22:00:00.000Z',
+      );
+    });
+
+    it('lists skipped runs within a window', () => {
+      const spec: ScheduleTriggerSpec = {
+        scheduledTime: '2026-02-15T09:00:00.000Z',
+        frequency: 'daily',
+        timezone: 'UTC',
+        exclusions: new Map<string, ScheduleExclusion>([
+          ['2026-02-16', { ...holidays, label: 'Presidents Day' }],
+          ['2026-02-18', holidays],
+          ['2026-03-01', holidays],
+        ]),
+      };
+
+      expect(
+        computeSkippedTriggers(spec, new Date('2026-02-15T10:00:00.000Z'), new Date('2026-02-19T09:00:00.000Z')),
+      ).toEqual([
+        { ...holidays, label: 'Presidents Day', scheduledFor: '2026-02-16T09:00:00.000Z', date: '2026-02-16' },
+        { ...holidays, scheduledFor: '2026-02-18T09:00:00.000Z', date: '2026-02-18' },
+      ]);
+      expect(computeNextTrigger(spec, true, new Date('2026-02-15T10:00:00.000Z'))).toBe(
+        '2026-02-17T09:00:00.000Z',
+      );
+      expect(computeNextTrigger({ ...spec, frequency: 'once' }, true, new Date('2026-02-01T00:00:00.000Z'))).toBe(
+        '2026-02-15T09:00:00.000Z',
+      );
+      expect(
+        computeNextTrigger(
+          { ...spec, frequency: 'once', scheduledTime: '2026-02-16T09:00:00.000Z' },
+          true,
+          new Date('2026-02-01T00:00:00.000Z'),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  it('validates timezones and trigger details', () => {
+    expect(validateScheduleTrigger(cronSpec('0 7 * * *', 'Europe/Berlin'))).toBeNull();
+    expect(validateScheduleTrigger(cronSpec('0 7 * * *', 'Mars/Olympus'))).toBe('Unknown timezone "Mars/Olympus"');
+    expect(validateScheduleTrigger(cronSpec('0 25 * * *'))).toMatch(/^Invalid cron expression "0 25 \* \* \*"/);
+    expect(
+      validateScheduleTrigger({ scheduledTime: '2026-01-01T00:00:00.000Z', frequency: 'solar', timezone: 'UTC' }),
+    ).toBe('solar is required when frequency is solar');
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Minimal iCalendar (RFC 5545) reader for exception calendars: extracts the
+ * all-day dates covered by VEVENT entries (holiday feeds, vacation plans).
+ */
+
+import type { ExceptionCalendarDate } from '../types';
+import { isValidTimezone, toZonedDateKey, zonedWallTimeToEpochMs } from './scheduleTriggers';
+
+const MAX_ICS_DATES = 2000;
+// Unbounded yearly rules (typical for holidays) are expanded this many years ahead.
+const UNBOUNDED_YEARLY_OCCURRENCES = 10;
+// Guards against DTSTART/DTEND pairs spanning absurd ranges.
+const MAX_EVENT_DAYS = 366;
+const MAX_RECURRENCE_YEARS = 200;
+const DAY_MS = 86_400_000;
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsExceptionDates {
+  dates: ExceptionCalendarDate[];
+  /** Events that were skipped instead of failing the import. */
+  warnings: string[];
+}
+
+function unfoldLines(ics: string): string[] {
+  return ics
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const colonIndex = line.indexOf(':');
+  if (colonIndex <= 0) {
+    return null;
+  }
+
+  const [rawName, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const [key, ...valueParts] = rawParam.split('=');
+    params[key.toUpperCase()] = valueParts.join('=').replace(/^"(.*)"$/, '$1');
+  }
+
+  return {
+    name: rawName.toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1),
+  };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, escaped: string) =>
+    escaped === 'n' || escaped === 'N' ? ' ' : escaped,
+  ).trim();
+}
+
+/**
+ * Parses a DATE or DATE-TIME value to the calendar date (as UTC midnight) it
+ * falls on in `timezone`. UTC times (`Z`) are converted into `timezone`, and
+ * so are times in another `tzid`; floating times and times without a target
+ * timezone keep their own date. Returns null for malformed values and throws
+ * (naming `context`) when a time cannot be converted.
+ */
+function parseIcsDate(
+  value: string,
+  zone: { tzid?: string; timezone: string | null },
+  context: string,
+): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const epochMs = Date.UTC(year, month - 1, day);
+  const parsed = new Date(epochMs);
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    return null;
+  }
+  if (match[4] === undefined) {
+    return epochMs;
+  }
+  if (hour > 23 || minute > 59 || second > 60) {
+    return null;
+  }
+
+  const { tzid, timezone } = zone;
+  if (match[7] === 'Z') {
+    if (!timezone) {
+      throw new Error(`${context} is a UTC time but the calendar has no X-WR-TIMEZONE to date it in`);
+    }
+    return Date.parse(toZonedDateKey(Date.UTC(year, month - 1, day, hour, minute, second), timezone));
+  }
+
+  if (tzid && timezone && tzid !== timezone) {
+    if (!isValidTimezone(tzid)) {
+      throw new Error(`${context} has an unknown TZID ${tzid}`);
+    }
+    const instantMs = zonedWallTimeToEpochMs(year, month, day, hour, minute, tzid) + second * 1000;
+    return Date.parse(toZonedDateKey(instantMs, timezone));
+  }
+
+  return epochMs;
+}
+
+function toDateKey(epochMs: number): string {
+  return new Date(epochMs).toISOString().slice(0, 10);
+}
+
+function parseRecurrenceRule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, ...valueParts] = part.split('=');
+    if (key) {
+      rule[key.toUpperCase()] = valueParts.join('=');
+    }
+  }
+  return rule;
+}
+
+/** Start dates (UTC midnight) of every occurrence of a yearly event. */
+function expandYearlyOccurrences(
+  startMs: number,
+  rrule: string,
+  untilZone: { timezone: string | null },
+  eventIndex: number,
+): number[] {
+  const rule = parseRecurrenceRule(rrule);
+  const interval = rule.INTERVAL ? Number.parseInt(rule.INTERVAL, 10) : 1;
+  const count = rule.COUNT ? Number.parseInt(rule.COUNT, 10) : null;
+  const untilMs = rule.UNTIL ? parseIcsDate(rule.UNTIL, untilZone, `Event ${eventIndex} RRULE UNTIL`) : null;
+  if (!Number.isInteger(interval) || interval < 1 || (count !== null && (!Number.isInteger(count) || count < 1))) {
+    throw new Error(`Invalid RRULE ${rrule}`);
+  }
+  if (rule.UNTIL && untilMs === null) {
+    throw new Error(`Invalid RRULE UNTIL ${rule.UNTIL}`);
+  }
+
+  const limit = Math.min(count ?? (untilMs === null ? UNBOUNDED_YEARLY_OCCURRENCES : MAX_ICS_DATES), MAX_ICS_DATES);
+  const start = new Date(startMs);
+  const occurrences: number[] = [];
+  const lastYear = start.getUTCFullYear() + MAX_RECURRENCE_YEARS;
+  for (let year = start.getUTCFullYear(); occurrences.length < limit && year <= lastYear; year += interval) {
+    const occurrenceMs = Date.UTC(year, start.getUTCMonth(), start.getUTCDate());
+    if (untilMs !== null && occurrenceMs > untilMs) {
+      break;
+    }
+    // Feb 29 only recurs in leap years; other years have no occurrence.
+    if (new Date(occurrenceMs).getUTCDate() === start.getUTCDate()) {
+      occurrences.push(occurrenceMs);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Extracts excluded dates from an iCalendar document. Every day an event
+ * covers is excluded (DTEND is exclusive); the event SUMMARY becomes the
+ * label. Timed events are dated in the calendar's X-WR-TIMEZONE when it has
+ * one. Cancelled events and events recurring other than yearly are skipped,
+ * the latter with a warning. Throws when the document is not a VCALENDAR or
+ * an event cannot be interpreted.
+ */
+export function parseIcsExceptionDates(ics: string): IcsExceptionDates {
+  const lines = unfoldLines(ics);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar document (missing BEGIN:VCALENDAR)');
+  }
+
+  const events: Array<Map<string, IcsProperty>> = [];
+  let calendarTimezone: string | null = null;
+  let event: Map<string, IcsProperty> | null = null;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      event = new Map();
+      continue;
+    }
+
+    if (upper === 'END:VEVENT') {
+      if (event) {
+        events.push(event);
+      }
+      event = null;
+      continue;
+    }
+
+    const property = parseProperty(line);
+    if (event) {
+      if (property && !event.has(property.name)) {
+        event.set(property.name, property);
+      }
+    } else if (property?.name === 'X-WR-TIMEZONE') {
+      calendarTimezone = property.value.trim();
+    }
+  }
+
+  if (calendarTimezone !== null && !isValidTimezone(calendarTimezone)) {
+    throw new Error(`Unknown X-WR-TIMEZONE ${calendarTimezone}`);
+  }
+
+  const dates = new Map<string, ExceptionCalendarDate>();
+  const warnings: string[] = [];
+  events.forEach((event, index) => addEventDates(event, index + 1, calendarTimezone, dates, warnings));
+
+  return {
+    dates: [...dates.values()].sort((left, right) => left.date.localeCompare(right.date)),
+    warnings,
+  };
+}
+
+function addEventDates(
+  event: Map<string, IcsProperty>,
+  eventIndex: number,
+  calendarTimezone: string | null,
+  dates: Map<string, ExceptionCalendarDate>,
+  warnings: string[],
+): void {
+  if (event.get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+    return;
+  }
+
+  const rrule = event.get('RRULE')?.value;
+  const frequency = rrule ? parseRecurrenceRule(rrule).FREQ : undefined;
+  if (rrule && frequency !== 'YEARLY') {
+    warnings.push(
+      `Event ${eventIndex} skipped: unsupported RRULE frequency ${frequency ?? '(missing)'}; only FREQ=YEARLY is supported`,
+    );
+    return;
+  }
+
+  const parseEventDate = (property: IcsProperty) =>
+    parseIcsDate(
+      property.value,
+      { tzid: property.params.TZID, timezone: calendarTimezone },
+      `Event ${eventIndex} ${property.name}`,
+    );
+
+  const dtstart = event.get('DTSTART');
+  const startMs = dtstart ? parseEventDate(dtstart) : null;
+  if (startMs === null) {
+    throw new Error(`Event ${eventIndex} has a missing or invalid DTSTART`);
+  }
+
+  const dtend = event.get('DTEND');
+  const endMs = dtend ? parseEventDate(dtend) : null;
+  if (dtend && endMs === null) {
+    throw new Error(`Event ${eventIndex} has an invalid DTEND`);
+  }
+
+  const days = endMs === null ? 1 : Math.max(1, Math.round((endMs - startMs) / DAY_MS));
+  if (days > MAX_EVENT_DAYS) {
+    throw new Error(`Event ${eventIndex} spans more than ${MAX_EVENT_DAYS} days`);
+  }
+
+  const summary = event.get('SUMMARY');
+  const label = summary ? unescapeText(summary.value).slice(0, 200) : '';
+
+  // A UTC UNTIL is dated in the event's own timezone when the calendar names none.
+  const occurrences = rrule
+    ? expandYearlyOccurrences(startMs, rrule, { timezone: calendarTimezone ?? dtstart?.params.TZID ?? null }, eventIndex)
+    : [startMs];
+  for (const occurrenceMs of occurrences) {
+    for (let day = 0; day < days; day += 1) {
+      const date = toDateKey(occurrenceMs + day * DAY_MS);
+      if (!dates.has(date)) {
+        if (dates.size >= MAX_ICS_DATES) {
+          throw new Error(`Calendar covers more than ${MAX_ICS_DATES} dates`);
+        }
+        dates.set(date, label ? { date, label } : { date });
+      }
+    }
+  }
+}
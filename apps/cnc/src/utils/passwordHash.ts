@@ -0,0 +1,88 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * Password hashing for C&C user accounts, built on Node's scrypt so no native
+ * dependency is needed. Hashes are stored as `scrypt$N$r$p$salt$hash` (salt and
+ * hash base64url) so the cost parameters can be raised without invalidating
+ * existing hashes.
+ */
+
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number; keyLength: number },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      params.keyLength,
+      { N: params.N, r: params.r, p: params.p, maxmem: 128 * params.N * params.r * 2 },
+      (error, derivedKey) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(derivedKey);
+      },
+    );
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION,
+    keyLength: KEY_BYTES,
+  });
+
+  return [
+    'scrypt',
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELIZATION,
+    salt.toString('base64url'),
+    key.toString('base64url'),
+  ].join('$');
+}
+
+/** Returns false for malformed hashes instead of throwing. */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [, rawN, rawR, rawP, rawSalt, rawKey] = parts;
+  const N = Number(rawN);
+  const r = Number(rawR);
+  const p = Number(rawP);
+  if (![N, r, p].every((value) => Number.isInteger(value) && value > 0)) {
+    return false;
+  }
+
+  const expected = Buffer.from(rawKey, 'base64url');
+  if (expected.length === 0) {
+    return false;
+  }
+
+  try {
+    const actual = await deriveKey(password, Buffer.from(rawSalt, 'base64url'), {
+      N,
+      r,
+      p,
+      keyLength: expected.length,
+    });
+    return timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
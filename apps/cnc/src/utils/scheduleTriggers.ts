@@ -0,0 +1,647 @@
+import type { ScheduleFrequency, ScheduleSolarTrigger } from '../types';
+
+export interface ScheduleTriggerSpec {
+  scheduledTime: string;
+  frequency: ScheduleFrequency;
+  timezone: string;
+  cronExpression?: string | null;
+  solar?: ScheduleSolarTrigger | null;
+  /** Local dates (`YYYY-MM-DD` in `timezone`) on which the schedule must not fire. */
+  exclusions?: ReadonlyMap<string, ScheduleExclusion>;
+}
+
+export interface ScheduleExclusion {
+  calendarId: string;
+  calendarName: string;
+  label?: string;
+}
+
+export interface SkippedTrigger extends ScheduleExclusion {
+  scheduledFor: string;
+  date: string;
+}
+
+interface CronNthWeekday {
+  weekday: number;
+  nth: number;
+}
+
+export interface ParsedCronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  lastDayOfMonth: boolean;
+  daysOfMonthRestricted: boolean;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  nthWeekdays: CronNthWeekday[];
+  lastWeekdays: Set<number>;
+  daysOfWeekRestricted: boolean;
+}
+
+interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+// Upper bound on consecutive excluded days skipped while looking for the next run.
+const MAX_EXCLUDED_DAYS = 2000;
+// Upper bound on runs inspected when listing skipped runs.
+const MAX_SKIPPED_RUN_SCAN = 1000;
+// Long enough to reach the next Feb 29 for expressions such as "0 7 29 2 *".
+const CRON_LOOKAHEAD_DAYS = 366 * 8;
+// Long enough to get through a polar night at any latitude.
+const SOLAR_LOOKAHEAD_DAYS = 370;
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getZonedFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(epochMs: number, timezone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormatter(timezone).formatToParts(new Date(epochMs))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number.parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function getTimezoneOffsetMs(epochMs: number, timezone: string): number {
+  const parts = getZonedParts(epochMs, timezone);
+  const wallAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallAsUtc - (epochMs - (((epochMs % 1000) + 1000) % 1000));
+}
+
+/**
+ * Converts a wall-clock time in `timezone` to an instant. Ambiguous times (DST
+ * fall-back) resolve to their first occurrence; times skipped by a DST
+ * spring-forward resolve to the same wall time after the shift (02:30 -> 03:30).
+ */
+export function zonedWallTimeToEpochMs(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string,
+): number {
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetBefore = getTimezoneOffsetMs(wallAsUtc - DAY_MS, timezone);
+  const offsetAfter = getTimezoneOffsetMs(wallAsUtc + DAY_MS, timezone);
+
+  let resolved: number | null = null;
+  for (const offset of new Set([offsetBefore, offsetAfter])) {
+    const candidate = wallAsUtc - offset;
+    if (getTimezoneOffsetMs(candidate, timezone) === offset && (resolved === null || candidate < resolved)) {
+      resolved = candidate;
+    }
+  }
+
+  return resolved ?? wallAsUtc - offsetBefore;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function parseCronValue(raw: string, min: number, max: number, names?: string[]): number {
+  const upper = raw.toUpperCase();
+  const namedIndex = names ? names.indexOf(upper) : -1;
+  const value = namedIndex >= 0 ? namedIndex + min : Number(raw);
+
+  if (!/^\d+$/.test(raw) && namedIndex < 0) {
+    throw new Error(`Invalid cron value "${raw}"`);
+  }
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Cron value "${raw}" is out of range ${min}-${max}`);
+  }
+
+  return value;
+}
+
+function parseCronField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = item.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : parseCronValue(stepPart, 1, max - min + 1);
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseCronValue(from, min, max, names);
+      end = parseCronValue(to, min, max, names);
+      if (start > end) {
+        throw new Error(`Invalid cron range "${rangePart}"`);
+      }
+    } else {
+      start = parseCronValue(rangePart, min, max, names);
+      end = stepPart === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression (minute hour day-of-month month
+ * day-of-week). Besides lists, ranges, steps and JAN-DEC/SUN-SAT names, the
+ * day-of-month field accepts `L` (last day) and the day-of-week field accepts
+ * `2#2` (second Tuesday) and `5L` (last Friday). When both day fields are
+ * restricted a day matching either one fires, as in Vixie cron.
+ */
+export function parseCronExpression(expression: string): ParsedCronExpression {
+  const trimmed = expression.trim();
+  const normalized = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = fields;
+
+  try {
+    const daysOfMonth = new Set<number>();
+    let lastDayOfMonth = false;
+    const daysOfMonthRestricted = dayOfMonthField !== '*' && dayOfMonthField !== '?';
+    if (daysOfMonthRestricted) {
+      for (const item of dayOfMonthField.split(',')) {
+        if (item.toUpperCase() === 'L') {
+          lastDayOfMonth = true;
+        } else {
+          parseCronField(item, 1, 31).forEach((day) => daysOfMonth.add(day));
+        }
+      }
+    }
+
+    const daysOfWeek = new Set<number>();
+    const nthWeekdays: CronNthWeekday[] = [];
+    const lastWeekdays = new Set<number>();
+    const daysOfWeekRestricted = dayOfWeekField !== '*' && dayOfWeekField !== '?';
+    if (daysOfWeekRestricted) {
+      for (const item of dayOfWeekField.split(',')) {
+        const upper = item.toUpperCase();
+        if (upper.includes('#')) {
+          const [weekday, nth] = upper.split('#');
+          nthWeekdays.push({
+            weekday: parseCronValue(weekday, 0, 7, WEEKDAY_NAMES) % 7,
+            nth: parseCronValue(nth, 1, 5),
+          });
+        } else if (upper.length > 1 && upper.endsWith('L')) {
+          lastWeekdays.add(parseCronValue(upper.slice(0, -1), 0, 7, WEEKDAY_NAMES) % 7);
+        } else {
+          parseCronField(item, 0, 7, WEEKDAY_NAMES).forEach((weekday) => daysOfWeek.add(weekday % 7));
+        }
+      }
+    }
+
+    return {
+      minutes: [...parseCronField(minuteField, 0, 59)].sort((a, b) => a - b),
+      hours: [...parseCronField(hourField, 0, 23)].sort((a, b) => a - b),
+      daysOfMonth,
+      lastDayOfMonth,
+      daysOfMonthRestricted,
+      months: parseCronField(monthField, 1, 12, MONTH_NAMES),
+      daysOfWeek,
+      nthWeekdays,
+      lastWeekdays,
+      daysOfWeekRestricted,
+    };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid cron expression "${expression}": ${reason}`, { cause: error });
+  }
+}
+
+function cronMatchesDay(cron: ParsedCronExpression, year: number, month: number, day: number): boolean {
+  if (!cron.months.has(month)) {
+    return false;
+  }
+
+  const monthLength = daysInMonth(year, month);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const dayOfMonthMatches = cron.daysOfMonth.has(day) || (cron.lastDayOfMonth && day === monthLength);
+  const dayOfWeekMatches =
+    cron.daysOfWeek.has(weekday) ||
+    cron.nthWeekdays.some((entry) => entry.weekday === weekday && Math.ceil(day / 7) === entry.nth) ||
+    (cron.lastWeekdays.has(weekday) && day + 7 > monthLength);
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  if (cron.daysOfMonthRestricted) {
+    return dayOfMonthMatches;
+  }
+  if (cron.daysOfWeekRestricted) {
+    return dayOfWeekMatches;
+  }
+  return true;
+}
+
+function nextCronTrigger(cron: ParsedCronExpression, timezone: string, afterMs: number): number | null {
+  const start = getZonedParts(afterMs, timezone);
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day));
+
+  for (let i = 0; i < CRON_LOOKAHEAD_DAYS; i += 1) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth() + 1;
+    const day = cursor.getUTCDate();
+
+    if (cronMatchesDay(cron, year, month, day)) {
+      // Wall times shifted by a DST gap can resolve out of order, so keep
+      // scanning a few hours past the first hit for an earlier instant.
+      let best: number | null = null;
+      let bestWallMinutes = 0;
+      for (const hour of cron.hours) {
+        for (const minute of cron.minutes) {
+          const wallMinutes = hour * 60 + minute;
+          if (best !== null && wallMinutes > bestWallMinutes + 180) {
+            return best;
+          }
+
+          const candidate = zonedWallTimeToEpochMs(year, month, day, hour, minute, timezone);
+          if (candidate > afterMs && (best === null || candidate < best)) {
+            best = candidate;
+            bestWallMinutes = wallMinutes;
+          }
+        }
+      }
+      if (best !== null) {
+        return best;
+      }
+    }
+
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return null;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Computes sunrise or sunset (before offset) for a calendar date using the
+ * NOAA sunrise equation. Returns null when the sun does not rise or set that
+ * day (polar day/night).
+ */
+export function computeSolarEventTime(
+  year: number,
+  month: number,
+  day: number,
+  solar: Pick<ScheduleSolarTrigger, 'event' | 'latitude' | 'longitude'>,
+): Date | null {
+  const julianNoon = Date.UTC(year, month - 1, day, 12) / DAY_MS + 2440587.5;
+  const daysSinceJ2000 = Math.round(julianNoon - 2451545.0);
+  const meanSolarNoon = daysSinceJ2000 + 0.0009 - solar.longitude / 360;
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) % 360;
+  const anomalyRad = toRadians(meanAnomaly);
+  const center =
+    1.9148 * Math.sin(anomalyRad) + 0.02 * Math.sin(2 * anomalyRad) + 0.0003 * Math.sin(3 * anomalyRad);
+  const eclipticLongitude = toRadians((meanAnomaly + center + 180 + 102.9372) % 360);
+  const solarTransit =
+    2451545.0 + meanSolarNoon + 0.0053 * Math.sin(anomalyRad) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRadians(23.4397)));
+  const latitude = toRadians(solar.latitude);
+  const cosHourAngle =
+    (Math.sin(toRadians(-0.833)) - Math.sin(latitude) * Math.sin(declination)) /
+    (Math.cos(latitude) * Math.cos(declination));
+
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null;
+  }
+
+  const hourAngle = toDegrees(Math.acos(cosHourAngle));
+  const julianEvent = solar.event === 'sunrise' ? solarTransit - hourAngle / 360 : solarTransit + hourAngle / 360;
+  return new Date(Math.round((julianEvent - 2440587.5) * DAY_MS));
+}
+
+function nextSolarTrigger(solar: ScheduleSolarTrigger, timezone: string, afterMs: number): number | null {
+  const start = getZonedParts(afterMs, timezone);
+  const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day));
+  cursor.setUTCDate(cursor.getUTCDate() - 1);
+
+  for (let i = 0; i < SOLAR_LOOKAHEAD_DAYS; i += 1) {
+    const event = computeSolarEventTime(
+      cursor.getUTCFullYear(),
+      cursor.getUTCMonth() + 1,
+      cursor.getUTCDate(),
+      solar,
+    );
+    if (event) {
+      // Trigger instants are minute-aligned like every other frequency.
+      const candidate =
+        Math.round(event.getTime() / MINUTE_MS) * MINUTE_MS + solar.offsetMinutes * MINUTE_MS;
+      if (candidate > afterMs) {
+        return candidate;
+      }
+    }
+
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return null;
+}
+
+function computeLegacyNextTrigger(
+  scheduledTime: Date,
+  frequency: Exclude<ScheduleFrequency, 'once' | 'cron' | 'solar'>,
+  now: Date,
+): string | null {
+  const buildCandidate = (base: Date): Date => {
+    const candidate = new Date(base);
+    candidate.setUTCHours(
+      scheduledTime.getUTCHours(),
+      scheduledTime.getUTCMinutes(),
+      scheduledTime.getUTCSeconds(),
+      0,
+    );
+    return candidate;
+  };
+
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+
+  if (frequency === 'daily') {
+    const candidate = buildCandidate(today);
+    if (candidate <= now) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+    }
+    return candidate.toISOString();
+  }
+
+  if (frequency === 'weekly') {
+    const targetDay = scheduledTime.getUTCDay();
+    const candidate = buildCandidate(today);
+    const currentDay = candidate.getUTCDay();
+    let deltaDays = (targetDay - currentDay + 7) % 7;
+    if (deltaDays === 0 && candidate <= now) {
+      deltaDays = 7;
+    }
+    candidate.setUTCDate(candidate.getUTCDate() + deltaDays);
+    return candidate.toISOString();
+  }
+
+  const weekdaySet = frequency === 'weekdays'
+    ? new Set([1, 2, 3, 4, 5])
+    : new Set([0, 6]);
+
+  const candidate = buildCandidate(today);
+  for (let i = 0; i < 8; i += 1) {
+    const day = candidate.getUTCDay();
+    const isTargetDay = weekdaySet.has(day);
+    if (isTargetDay && candidate > now) {
+      return candidate.toISOString();
+    }
+    candidate.setUTCDate(candidate.getUTCDate() + 1);
+  }
+
+  return null;
+}
+
+/** Local calendar date (`YYYY-MM-DD`) of an instant in the given timezone. */
+export function toZonedDateKey(epochMs: number, timezone: string): string {
+  let parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>;
+  try {
+    parts = getZonedParts(epochMs, timezone);
+  } catch {
+    const date = new Date(epochMs);
+    parts = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+
+  return `${String(parts.year).padStart(4, '0')}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/** First minute of the local day after the one containing `epochMs`. */
+function startOfNextZonedDay(epochMs: number, timezone: string): number {
+  const dateKey = toZonedDateKey(epochMs, timezone);
+  let probe = Math.floor(epochMs / MINUTE_MS) * MINUTE_MS;
+  while (toZonedDateKey(probe, timezone) === dateKey) {
+    probe += 60 * MINUTE_MS;
+  }
+
+  // Local midnight is minute-aligned in every timezone.
+  while (toZonedDateKey(probe - MINUTE_MS, timezone) !== dateKey) {
+    probe -= MINUTE_MS;
+  }
+
+  return probe;
+}
+
+/** Returns the exclusion that applies to a run at `triggerIso`, if any. */
+export function findTriggerExclusion(spec: ScheduleTriggerSpec, triggerIso: string): ScheduleExclusion | null {
+  if (!spec.exclusions || spec.exclusions.size === 0) {
+    return null;
+  }
+
+  const epochMs = new Date(triggerIso).getTime();
+  if (Number.isNaN(epochMs)) {
+    return null;
+  }
+
+  return spec.exclusions.get(toZonedDateKey(epochMs, spec.timezone)) ?? null;
+}
+
+/** Next run ignoring exclusions. */
+function computeNextOccurrence(spec: ScheduleTriggerSpec, now: Date): string | null {
+  const scheduledTime = new Date(spec.scheduledTime);
+  if (Number.isNaN(scheduledTime.getTime())) {
+    return null;
+  }
+
+  if (spec.frequency === 'once') {
+    return scheduledTime > now ? scheduledTime.toISOString() : null;
+  }
+
+  if (spec.frequency === 'cron' || spec.frequency === 'solar') {
+    const afterMs = Math.max(now.getTime(), scheduledTime.getTime() - 1);
+    let next: number | null = null;
+    try {
+      if (spec.frequency === 'cron' && spec.cronExpression) {
+        next = nextCronTrigger(parseCronExpression(spec.cronExpression), spec.timezone, afterMs);
+      } else if (spec.frequency === 'solar' && spec.solar) {
+        next = nextSolarTrigger(spec.solar, spec.timezone, afterMs);
+      }
+    } catch {
+      return null;
+    }
+    return next === null ? null : new Date(next).toISOString();
+  }
+
+  return computeLegacyNextTrigger(scheduledTime, spec.frequency, now);
+}
+
+/**
+ * Returns the first fire time strictly after `referenceNow`, or null when the
+ * schedule will not fire again. Cron and solar schedules are evaluated in the
+ * schedule's timezone and never fire before `scheduledTime`. Runs on dates
+ * excluded by the schedule's exception calendars are skipped.
+ */
+export function computeNextTrigger(
+  spec: ScheduleTriggerSpec,
+  enabled: boolean,
+  referenceNow: Date = new Date(),
+): string | null {
+  if (!enabled) return null;
+
+  let cursor = referenceNow;
+  for (let skippedDays = 0; skippedDays <= MAX_EXCLUDED_DAYS; skippedDays += 1) {
+    const next = computeNextOccurrence(spec, cursor);
+    if (!next || !findTriggerExclusion(spec, next)) {
+      return next;
+    }
+    // Every run on an excluded date is skipped, so resume from the next local day.
+    cursor = new Date(startOfNextZonedDay(new Date(next).getTime(), spec.timezone) - 1);
+  }
+
+  return null;
+}
+
+/**
+ * Lists the runs after `from` and up to `until` (inclusive) that exclusions
+ * suppress, oldest first.
+ */
+export function computeSkippedTriggers(
+  spec: ScheduleTriggerSpec,
+  from: Date,
+  until: Date,
+  limit = 50,
+): SkippedTrigger[] {
+  const skipped: SkippedTrigger[] = [];
+  if (!spec.exclusions || spec.exclusions.size === 0) {
+    return skipped;
+  }
+
+  let cursor = from;
+  for (let scanned = 0; scanned <= MAX_SKIPPED_RUN_SCAN && skipped.length < limit; scanned += 1) {
+    const next = computeNextOccurrence(spec, cursor);
+    if (!next || new Date(next).getTime() > until.getTime()) {
+      break;
+    }
+
+    const exclusion = findTriggerExclusion(spec, next);
+    if (exclusion) {
+      skipped.push({
+        ...exclusion,
+        scheduledFor: next,
+        date: toZonedDateKey(new Date(next).getTime(), spec.timezone),
+      });
+    }
+    cursor = new Date(next);
+  }
+
+  return skipped;
+}
+
+export function computeUpcomingTriggers(
+  spec: ScheduleTriggerSpec,
+  count: number,
+  referenceNow: Date = new Date(),
+): string[] {
+  const upcoming: string[] = [];
+  let cursor = referenceNow;
+
+  while (upcoming.length < count) {
+    const next = computeNextTrigger(spec, true, cursor);
+    if (!next) {
+      break;
+    }
+    upcoming.push(next);
+    cursor = new Date(next);
+  }
+
+  return upcoming;
+}
+
+/**
+ * Returns a user-facing validation error for the trigger definition, or null
+ * when the schedule can be evaluated.
+ */
+export function validateScheduleTrigger(spec: ScheduleTriggerSpec): string | null {
+  if (!isValidTimezone(spec.timezone)) {
+    return `Unknown timezone "${spec.timezone}"`;
+  }
+
+  if (spec.frequency === 'cron') {
+    if (!spec.cronExpression) {
+      return 'cronExpression is required when frequency is cron';
+    }
+    try {
+      parseCronExpression(spec.cronExpression);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  if (spec.frequency === 'solar' && !spec.solar) {
+    return 'solar is required when frequency is solar';
+  }
+
+  return null;
+}
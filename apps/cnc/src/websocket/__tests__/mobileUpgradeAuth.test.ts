@@ -1,9 +1,10 @@
 import type { IncomingMessage } from 'http';
-import { verifyJwtToken } from '../../middleware/auth';
+import { isActiveUserAccount, verifyBearerToken } from '../../middleware/auth';
 import { authenticateMobileWsUpgrade } from '../mobileUpgradeAuth';
 
 jest.mock('../../middleware/auth', () => ({
-  verifyJwtToken: jest.fn(),
+  isActiveUserAccount: jest.fn(),
+  verifyBearerToken: jest.fn(),
 }));
 
 function buildRequest(
@@ -20,23 +21,25 @@ function buildRequest(
 }
 
 describe('authenticateMobileWsUpgrade', () => {
-  const mockVerifyJwtToken = verifyJwtToken as jest.MockedFunction<typeof verifyJwtToken>;
+  const mockVerifyBearerToken = verifyBearerToken as jest.MockedFunction<typeof verifyBearerToken>;
+  const mockIsActiveUserAccount = isActiveUserAccount as jest.MockedFunction<typeof isActiveUserAccount>;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockIsActiveUserAccount.mockResolvedValue(true);
   });
 
-  it('returns null when no auth token is provided', () => {
+  it('returns null when no auth token is provided', async () => {
     const request = buildRequest({
       headers: {},
     });
 
-    expect(authenticateMobileWsUpgrade(request)).toBeNull();
-    expect(mockVerifyJwtToken).not.toHaveBeenCalled();
+    await expect(authenticateMobileWsUpgrade(request)).resolves.toBeNull();
+    expect(mockVerifyBearerToken).not.toHaveBeenCalled();
   });
 
-  it('accepts bearer tokens from Authorization header for operator role', () => {
-    mockVerifyJwtToken.mockReturnValue({
+  it('accepts bearer tokens from Authorization header for operator role', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
       sub: 'operator-1',
       roles: ['operator'],
       claims: {},
@@ -45,13 +48,13 @@ describe('authenticateMobileWsUpgrade', () => {
       headers: { authorization: 'Bearer mobile-token' },
     });
 
-    const auth = authenticateMobileWsUpgrade(request);
-    expect(mockVerifyJwtToken).toHaveBeenCalledWith('mobile-token');
+    const auth = await authenticateMobileWsUpgrade(request);
+    expect(mockVerifyBearerToken).toHaveBeenCalledWith('mobile-token');
     expect(auth).toMatchObject({ sub: 'operator-1', roles: ['operator'] });
   });
 
-  it('accepts bearer token from websocket subprotocol for admin role', () => {
-    mockVerifyJwtToken.mockReturnValue({
+  it('accepts bearer token from websocket subprotocol for admin role', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
       sub: 'admin-1',
       roles: ['admin'],
       claims: {},
@@ -60,13 +63,13 @@ describe('authenticateMobileWsUpgrade', () => {
       headers: { 'sec-websocket-protocol': 'json, bearer, subprotocol-token' },
     });
 
-    const auth = authenticateMobileWsUpgrade(request);
-    expect(mockVerifyJwtToken).toHaveBeenCalledWith('subprotocol-token');
+    const auth = await authenticateMobileWsUpgrade(request);
+    expect(mockVerifyBearerToken).toHaveBeenCalledWith('subprotocol-token');
     expect(auth).toMatchObject({ sub: 'admin-1', roles: ['admin'] });
   });
 
-  it('accepts access_token query fallback', () => {
-    mockVerifyJwtToken.mockReturnValue({
+  it('accepts access_token query fallback', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
       sub: 'operator-2',
       roles: ['operator'],
       claims: {},
@@ -76,13 +79,13 @@ describe('authenticateMobileWsUpgrade', () => {
       url: '/ws/mobile/hosts?access_token=query-token',
     });
 
-    const auth = authenticateMobileWsUpgrade(request);
-    expect(mockVerifyJwtToken).toHaveBeenCalledWith('query-token');
+    const auth = await authenticateMobileWsUpgrade(request);
+    expect(mockVerifyBearerToken).toHaveBeenCalledWith('query-token');
     expect(auth).toMatchObject({ sub: 'operator-2' });
   });
 
-  it('accepts token query fallback', () => {
-    mockVerifyJwtToken.mockReturnValue({
+  it('accepts token query fallback', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
       sub: 'operator-3',
       roles: ['operator'],
       claims: {},
@@ -92,13 +95,13 @@ describe('authenticateMobileWsUpgrade', () => {
       url: '/ws/mobile/hosts?token=query-token',
     });
 
-    const auth = authenticateMobileWsUpgrade(request);
-    expect(mockVerifyJwtToken).toHaveBeenCalledWith('query-token');
+    const auth = await authenticateMobileWsUpgrade(request);
+    expect(mockVerifyBearerToken).toHaveBeenCalledWith('query-token');
     expect(auth).toMatchObject({ sub: 'operator-3' });
   });
 
-  it('rejects non-stream roles', () => {
-    mockVerifyJwtToken.mockReturnValue({
+  it('rejects non-stream roles', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
       sub: 'viewer-1',
       roles: ['viewer'],
       claims: {},
@@ -107,17 +110,61 @@ describe('authenticateMobileWsUpgrade', () => {
       headers: { authorization: 'Bearer viewer-token' },
     });
 
-    expect(authenticateMobileWsUpgrade(request)).toBeNull();
+    await expect(authenticateMobileWsUpgrade(request)).resolves.toBeNull();
   });
 
-  it('returns null when token verification throws', () => {
-    mockVerifyJwtToken.mockImplementation(() => {
-      throw new Error('invalid token');
+  it('admits user accounts limited by resource permissions', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
+      sub: 'user-1',
+      roles: ['operator'],
+      userId: 'user-1',
+      claims: {},
+    });
+    const request = buildRequest({
+      headers: { authorization: 'Bearer user-token' },
+    });
+
+    await expect(authenticateMobileWsUpgrade(request)).resolves.toMatchObject({ sub: 'user-1', userId: 'user-1' });
+  });
+
+  it('accepts tokens verified by external verifiers such as OIDC access tokens', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
+      sub: 'oidc:subject-1',
+      roles: ['operator'],
+      userId: 'user-3',
+      claims: {},
+    });
+    const request = buildRequest({
+      headers: { authorization: 'Bearer provider-token' },
     });
+
+    await expect(authenticateMobileWsUpgrade(request)).resolves.toMatchObject({ sub: 'oidc:subject-1' });
+    expect(mockVerifyBearerToken).toHaveBeenCalledWith('provider-token');
+    expect(mockIsActiveUserAccount).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-3' }));
+  });
+
+  it('rejects tokens of disabled or deleted user accounts', async () => {
+    mockVerifyBearerToken.mockResolvedValue({
+      sub: 'user-2',
+      roles: ['admin'],
+      userId: 'user-2',
+      claims: {},
+    });
+    mockIsActiveUserAccount.mockResolvedValue(false);
+    const request = buildRequest({
+      headers: { authorization: 'Bearer user-token' },
+    });
+
+    await expect(authenticateMobileWsUpgrade(request)).resolves.toBeNull();
+    expect(mockIsActiveUserAccount).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-2' }));
+  });
+
+  it('returns null when token verification throws', async () => {
+    mockVerifyBearerToken.mockRejectedValue(new Error('invalid token'));
     const request = buildRequest({
       headers: { authorization: 'Bearer invalid-token' },
     });
 
-    expect(authenticateMobileWsUpgrade(request)).toBeNull();
+    await expect(authenticateMobileWsUpgrade(request)).resolves.toBeNull();
   });
 });
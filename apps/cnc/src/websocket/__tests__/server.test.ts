@@ -37,6 +37,11 @@ function createUpgradeRequest(
   } as unknown as IncomingMessage;
 }
 
+// Mobile upgrades are authenticated asynchronously.
+function flushUpgradeAuth(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
 function createMockSocket(): MockSocket {
   return {
     write: jest.fn(),
@@ -65,7 +70,7 @@ describe('createWebSocketServer', () => {
     (config as any).wsRequireTls = false;
     (config as any).trustProxy = false;
     mockAuthenticateWsUpgrade.mockReturnValue({ kind: 'static-token', token: 'dev-token-home' });
-    mockAuthenticateMobileWsUpgrade.mockReturnValue({
+    mockAuthenticateMobileWsUpgrade.mockResolvedValue({
       sub: 'operator-mobile',
       roles: ['operator'],
       claims: {},
@@ -155,7 +160,7 @@ describe('createWebSocketServer', () => {
     expect(socket.destroy).toHaveBeenCalledTimes(1);
   });
 
-  it('routes mobile host stream upgrades to stream broker', () => {
+  it('routes mobile host stream upgrades to stream broker', async () => {
     const { handleUpgradeSpy } = setupWss();
     const mobileWs = new EventEmitter() as unknown as WebSocket;
     upgradedSocketsQueue.push(mobileWs);
@@ -167,6 +172,7 @@ describe('createWebSocketServer', () => {
       socket,
       Buffer.alloc(0)
     );
+    await flushUpgradeAuth();
 
     expect(handleUpgradeSpy).toHaveBeenCalledTimes(1);
     expect(nodeManager.handleConnection).not.toHaveBeenCalled();
@@ -175,8 +181,8 @@ describe('createWebSocketServer', () => {
     expect(socket.destroy).not.toHaveBeenCalled();
   });
 
-  it('rejects mobile host stream upgrades when websocket auth fails', () => {
-    mockAuthenticateMobileWsUpgrade.mockReturnValue(null);
+  it('rejects mobile host stream upgrades when websocket auth fails', async () => {
+    mockAuthenticateMobileWsUpgrade.mockResolvedValue(null);
     const { handleUpgradeSpy } = setupWss();
     const socket = createMockSocket();
 
@@ -186,13 +192,14 @@ describe('createWebSocketServer', () => {
       socket,
       Buffer.alloc(0)
     );
+    await flushUpgradeAuth();
 
     expect(handleUpgradeSpy).not.toHaveBeenCalled();
     expect(socket.write).toHaveBeenCalledWith('HTTP/1.1 401 Unauthorized\r\n\r\n');
     expect(socket.destroy).toHaveBeenCalledTimes(1);
   });
 
-  it('enforces per-IP limits independently for node and mobile stream channels', () => {
+  it('enforces per-IP limits independently for node and mobile stream channels', async () => {
     const { handleUpgradeSpy } = setupWss();
     const nodeWs = new EventEmitter() as unknown as WebSocket;
     const mobileWs = new EventEmitter() as unknown as WebSocket;
@@ -213,6 +220,7 @@ describe('createWebSocketServer', () => {
       mobileSocket,
       Buffer.alloc(0)
     );
+    await flushUpgradeAuth();
 
     expect(handleUpgradeSpy).toHaveBeenCalledTimes(2);
     expect(nodeManager.handleConnection).toHaveBeenCalledTimes(1);
@@ -1,12 +1,14 @@
 import { IncomingMessage } from 'http';
 import type { AuthContext } from '../types/auth';
-import { verifyJwtToken } from '../middleware/auth';
+import { isActiveUserAccount, verifyBearerToken } from '../middleware/auth';
 import {
   extractAuthTokenFromAuthorizationHeader,
   extractAuthTokenFromQuery,
   extractAuthTokenFromSubprotocol,
 } from './auth';
 
+// Accounts limited by resource permissions are admitted; the host-state stream
+// broker only sends them events about hosts they may view.
 function hasStreamRole(auth: AuthContext): boolean {
   return auth.roles.includes('operator') || auth.roles.includes('admin');
 }
@@ -15,11 +17,13 @@ function hasStreamRole(auth: AuthContext): boolean {
  * Authenticate mobile websocket upgrades.
  *
  * Supports Authorization header/subprotocol and `access_token` query fallback
- * to work in runtimes that cannot set websocket headers.
+ * to work in runtimes that cannot set websocket headers. Accepts the same
+ * tokens as the REST API, including those of registered external verifiers,
+ * apart from API keys. Tokens of disabled or deleted user accounts are rejected.
  */
-export function authenticateMobileWsUpgrade(
+export async function authenticateMobileWsUpgrade(
   request: IncomingMessage
-): AuthContext | null {
+): Promise<AuthContext | null> {
   const token =
     extractAuthTokenFromAuthorizationHeader(request) ||
     extractAuthTokenFromSubprotocol(request) ||
@@ -30,8 +34,8 @@ export function authenticateMobileWsUpgrade(
   }
 
   try {
-    const auth = verifyJwtToken(token);
-    return hasStreamRole(auth) ? auth : null;
+    const auth = await verifyBearerToken(token);
+    return hasStreamRole(auth) && (await isActiveUserAccount(auth)) ? auth : null;
   } catch {
     return null;
   }
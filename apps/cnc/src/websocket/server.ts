@@ -115,21 +115,22 @@ export function createWebSocketServer(
         return;
       }
 
-      const authContext = authenticateMobileWsUpgrade(request);
-      if (!authContext) {
-        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
-        socket.destroy();
-        return;
-      }
-
-      wss.handleUpgrade(request, socket, head, (ws) => {
-        trackUpgradedConnection(mobileConnectionsPerIp, clientIp, ws);
-        wss.emit('connection', ws, request);
-        logger.info('New mobile host-state WebSocket connection', {
-          clientIp,
-          subscriber: authContext.sub,
+      void authenticateMobileWsUpgrade(request).then((authContext) => {
+        if (!authContext) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          trackUpgradedConnection(mobileConnectionsPerIp, clientIp, ws);
+          wss.emit('connection', ws, request);
+          logger.info('New mobile host-state WebSocket connection', {
+            clientIp,
+            subscriber: authContext.sub,
+          });
+          hostStateStreamBroker.handleConnection(ws, authContext);
         });
-        hostStateStreamBroker.handleConnection(ws, authContext);
       });
       return;
     }
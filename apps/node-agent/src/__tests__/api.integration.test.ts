@@ -5,13 +5,16 @@ import ScanOrchestrator from '../services/scanOrchestrator';
 import hosts from '../routes/hosts';
 import * as hostsController from '../controllers/hosts';
 import * as networkDiscovery from '../services/networkDiscovery';
-import wol from 'wake_on_lan';
+import { sendMagicPacket } from '../services/magicPacket';
 import axios from 'axios';
 import { errorHandler, notFoundHandler } from '../middleware/errorHandler';
 
 // Mock external dependencies
 jest.mock('../services/networkDiscovery');
-jest.mock('wake_on_lan');
+jest.mock('../services/magicPacket', () => ({
+  ...jest.requireActual('../services/magicPacket'),
+  sendMagicPacket: jest.fn(),
+}));
 jest.mock('axios');
 
 describe('API Integration Tests', () => {
@@ -25,7 +28,7 @@ describe('API Integration Tests', () => {
     app.use(express.json());
 
     // Setup in-memory database
-    db = new HostDatabase(':memory:');
+    db = new HostDatabase(':memory:', { loadSecretKey: () => Buffer.alloc(32, 7) });
     await db.initialize();
     scanOrchestrator = new ScanOrchestrator(db);
 
@@ -288,11 +291,7 @@ describe('API Integration Tests', () => {
 
     it('should send WoL packet for existing host', async () => {
       // Mock successful WoL
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => {
-          callback(null);
-        }
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       const response = await request(app).post('/hosts/wakeup/TEST-WOL-HOST').expect(200);
 
@@ -301,15 +300,11 @@ describe('API Integration Tests', () => {
       expect(response.body.wolPort).toBe(9);
       expect(response.body.verification).toBeDefined();
       expect(response.body.verification.status).toBe('not_requested');
-      expect(wol.wake).toHaveBeenCalled();
+      expect(sendMagicPacket).toHaveBeenCalled();
     });
 
     it('should support custom wolPort override in request body', async () => {
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => {
-          callback(null);
-        }
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       const response = await request(app)
         .post('/hosts/wakeup/TEST-WOL-HOST')
@@ -318,11 +313,35 @@ describe('API Integration Tests', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.wolPort).toBe(7);
-      expect(wol.wake).toHaveBeenCalledWith(
+      expect(sendMagicPacket).toHaveBeenCalledWith(
+        'AA:BB:CC:33:33:33',
+        { address: '255.255.255.255', port: 7, secureOnPassword: null }
+      );
+    });
+
+    it('should append the stored SecureOn password to the magic packet', async () => {
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
+
+      await request(app)
+        .put('/hosts/TEST-WOL-HOST')
+        .send({ secureOnPassword: '01:23:45:67:89:AB' })
+        .expect(200);
+      await request(app).post('/hosts/wakeup/TEST-WOL-HOST').expect(200);
+
+      expect(sendMagicPacket).toHaveBeenCalledWith(
         'AA:BB:CC:33:33:33',
-        { port: 7 },
-        expect.any(Function)
+        expect.objectContaining({ secureOnPassword: Buffer.from('0123456789ab', 'hex') })
       );
+
+      await request(app).put('/hosts/TEST-WOL-HOST').send({ secureOnPassword: null }).expect(200);
+      await expect(db.getSecureOnPassword('TEST-WOL-HOST')).resolves.toBeNull();
+    });
+
+    it('should reject SecureOn passwords that are not 4 or 6 bytes', async () => {
+      await request(app)
+        .put('/hosts/TEST-WOL-HOST')
+        .send({ secureOnPassword: '01:23:45' })
+        .expect(400);
     });
 
     it('should return 404 for non-existent host', async () => {
@@ -334,11 +353,7 @@ describe('API Integration Tests', () => {
 
     it('should handle WoL errors', async () => {
       // Mock WoL failure
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => {
-          callback(new Error('WoL failed'));
-        }
-      );
+      (sendMagicPacket as jest.Mock).mockRejectedValue(new Error('WoL failed'));
 
       const response = await request(app).post('/hosts/wakeup/TEST-WOL-HOST').expect(502);
 
@@ -350,11 +365,7 @@ describe('API Integration Tests', () => {
     });
 
     it('should support per-request wake verification via query params', async () => {
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => {
-          callback(null);
-        }
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
       (networkDiscovery.isHostAlive as jest.Mock).mockResolvedValue(true);
 
       const response = await request(app)
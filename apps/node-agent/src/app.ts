@@ -9,6 +9,7 @@ import { logger } from './utils/logger';
 import { AppError, errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { specs } from './swagger';
 import HostDatabase from './services/hostDatabase';
+import { loadHostSecretKey } from './services/hostSecrets';
 import ScanOrchestrator from './services/scanOrchestrator';
 import * as hostsController from './controllers/hosts';
 import hosts from './routes/hosts';
@@ -59,7 +60,9 @@ app.use(
 app.use(express.json({ limit: '100kb' }));
 
 // Initialize database
-const hostDb = new HostDatabase(config.database.path);
+const hostDb = new HostDatabase(config.database.path, {
+  loadSecretKey: () => loadHostSecretKey(config.hostSecrets),
+});
 const scanOrchestrator = new ScanOrchestrator(hostDb);
 
 function getAgentAuthMode(): 'standalone' | 'static-token' | 'session-token' {
@@ -55,6 +55,29 @@ describe('config module', () => {
     });
   });
 
+  describe('host secrets configuration', () => {
+    it('should keep the generated key next to the database by default', async () => {
+      jest.resetModules();
+      process.env.DB_PATH = '/var/lib/woly/woly.db';
+      delete process.env.HOST_SECRET_KEY;
+      delete process.env.HOST_SECRET_KEY_FILE;
+
+      const { config: loadedConfig } = await loadConfig();
+
+      expect(loadedConfig.hostSecrets).toEqual({ secret: undefined, keyFile: '/var/lib/woly/host-secret.key' });
+    });
+
+    it('should prefer an explicit key and key file', async () => {
+      jest.resetModules();
+      process.env.HOST_SECRET_KEY = 'correct-horse';
+      process.env.HOST_SECRET_KEY_FILE = '/run/secrets/woly-host.key';
+
+      const { config: loadedConfig } = await loadConfig();
+
+      expect(loadedConfig.hostSecrets).toEqual({ secret: 'correct-horse', keyFile: '/run/secrets/woly-host.key' });
+    });
+  });
+
   describe('network configuration', () => {
     beforeEach(async () => {
       ({ config } = await loadConfig());
@@ -102,6 +125,26 @@ describe('config module', () => {
 
       expect(loadedConfig.network.scanDelay).toBe(0);
     });
+
+    it('should default the Wake-on-LAN broadcast address to the limited broadcast', () => {
+      expect(config.network.wolBroadcastAddress).toBe('255.255.255.255');
+    });
+
+    it('should accept a directed broadcast address', async () => {
+      jest.resetModules();
+      process.env.WOL_BROADCAST_ADDRESS = '192.168.20.255';
+
+      const { config: loadedConfig } = await loadConfig();
+
+      expect(loadedConfig.network.wolBroadcastAddress).toBe('192.168.20.255');
+    });
+
+    it('should reject a malformed broadcast address', async () => {
+      jest.resetModules();
+      process.env.WOL_BROADCAST_ADDRESS = '192.168.20';
+
+      await expect(loadConfig()).rejects.toThrow('WOL_BROADCAST_ADDRESS must be an IPv4 address');
+    });
   });
 
   describe('cache configuration', () => {
@@ -231,5 +274,15 @@ describe('config module', () => {
       expect(config.wakeVerification.timeoutMs).toBeGreaterThan(0);
       expect(config.wakeVerification.pollIntervalMs).toBeGreaterThan(0);
     });
+
+    it('should refuse wake fallback targets unless they are listed', async () => {
+      expect(config.wakeStrategy.fallbackAllowedHosts).toEqual([]);
+
+      jest.resetModules();
+      process.env.WAKE_FALLBACK_ALLOWED_HOSTS = ' Plug.Local , 192.168.1.50,, ';
+      const { config: loadedConfig } = await loadConfig();
+
+      expect(loadedConfig.wakeStrategy.fallbackAllowedHosts).toEqual(['plug.local', '192.168.1.50']);
+    });
   });
 });
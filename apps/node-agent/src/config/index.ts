@@ -1,4 +1,6 @@
 import dotenv from 'dotenv';
+import { isIPv4 } from 'net';
+import { dirname, join } from 'path';
 
 // Load environment variables from .env file
 dotenv.config({
@@ -52,6 +54,21 @@ function parsePortEnv(key: string, defaultValue: number): number {
   return value;
 }
 
+function parseIpv4Env(key: string, defaultValue: string): string {
+  const rawValue = process.env[key]?.trim();
+  if (!rawValue) {
+    return defaultValue;
+  }
+
+  if (!isIPv4(rawValue)) {
+    throw new Error(`${key} must be an IPv4 address`);
+  }
+
+  return rawValue;
+}
+
+const databasePath = process.env.DB_PATH || './db/woly.db';
+
 export const config = {
   server: {
     port: parsePortEnv('PORT', 8082),
@@ -59,7 +76,13 @@ export const config = {
     env: process.env.NODE_ENV || 'development',
   },
   database: {
-    path: process.env.DB_PATH || './db/woly.db',
+    path: databasePath,
+  },
+  hostSecrets: {
+    // Encrypts SecureOn and BMC passwords at rest. Without HOST_SECRET_KEY, a random key
+    // is generated in HOST_SECRET_KEY_FILE (next to the database by default).
+    secret: process.env.HOST_SECRET_KEY || undefined,
+    keyFile: process.env.HOST_SECRET_KEY_FILE || join(dirname(databasePath), 'host-secret.key'),
   },
   network: {
     scanInterval: parsePositiveIntegerEnv('SCAN_INTERVAL', 300000), // 5 minutes
@@ -69,6 +92,9 @@ export const config = {
     // Use ping validation: if true, ping each discovered host to verify it's awake
     // If false (default), ARP discovery alone indicates host is awake
     usePingValidation: process.env.USE_PING_VALIDATION === 'true',
+    // Destination for magic packets; set a directed broadcast (e.g. 192.168.20.255)
+    // to wake hosts on a subnet this node routes to but is not attached to
+    wolBroadcastAddress: parseIpv4Env('WOL_BROADCAST_ADDRESS', '255.255.255.255'),
   },
   cache: {
     macVendorTTL: parsePositiveIntegerEnv('MAC_VENDOR_TTL', 86400000), // 24 hours
@@ -95,4 +121,12 @@ export const config = {
     timeoutMs: parsePositiveIntegerEnv('WAKE_VERIFY_CNC_TIMEOUT_MS', 120000), // 2 minutes
     pollIntervalMs: parsePositiveIntegerEnv('WAKE_VERIFY_CNC_POLL_INTERVAL_MS', 3000), // 3 seconds
   },
+  wakeStrategy: {
+    // Host names and IP addresses that webhook and IPMI wake fallbacks may contact.
+    // Empty (the default) refuses both fallback types.
+    fallbackAllowedHosts: (process.env.WAKE_FALLBACK_ALLOWED_HOSTS ?? '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter((host) => host.length > 0),
+  },
 };
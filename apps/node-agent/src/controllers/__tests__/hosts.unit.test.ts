@@ -2,12 +2,14 @@ import { Request, Response } from 'express';
 import * as hostsController from '../hosts';
 import HostDatabase from '../../services/hostDatabase';
 import axios from 'axios';
-import wol from 'wake_on_lan';
+import { sendMagicPacket } from '../../services/magicPacket';
 import * as networkDiscovery from '../../services/networkDiscovery';
 
 // Mock all external dependencies
 jest.mock('axios');
-jest.mock('wake_on_lan');
+jest.mock('../../services/magicPacket', () => ({
+  sendMagicPacket: jest.fn(),
+}));
 jest.mock('../../services/networkDiscovery');
 
 describe('hosts controller', () => {
@@ -30,6 +32,8 @@ describe('hosts controller', () => {
       deleteHost: jest.fn(),
       updateHostStatus: jest.fn(),
       updateHostSeen: jest.fn(),
+      getSecureOnPassword: jest.fn().mockResolvedValue(null),
+      setSecureOnPassword: jest.fn(),
       initialize: jest.fn(),
       close: jest.fn(),
       createTable: jest.fn(),
@@ -192,11 +196,7 @@ describe('hosts controller', () => {
       mockDb.getHost.mockResolvedValue(mockHost as any);
 
       // Mock WoL success
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => {
-          callback(null);
-        }
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       await hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
 
@@ -204,10 +204,9 @@ describe('hosts controller', () => {
       await new Promise((resolve) => setTimeout(resolve, 100));
 
       expect(mockDb.getHost).toHaveBeenCalledWith('Host1');
-      expect(wol.wake).toHaveBeenCalledWith(
+      expect(sendMagicPacket).toHaveBeenCalledWith(
         'AA:BB:CC:DD:EE:FF',
-        { port: 9 },
-        expect.any(Function)
+        { address: '255.255.255.255', port: 9, secureOnPassword: null }
       );
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith(
@@ -235,16 +234,13 @@ describe('hosts controller', () => {
       mockReq.params = { name: 'Host1' };
       mockReq.body = { wolPort: 7 };
       mockDb.getHost.mockResolvedValue(mockHost as any);
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => callback(null)
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       await hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
 
-      expect(wol.wake).toHaveBeenCalledWith(
+      expect(sendMagicPacket).toHaveBeenCalledWith(
         'AA:BB:CC:DD:EE:FF',
-        { port: 7 },
-        expect.any(Function)
+        { address: '255.255.255.255', port: 7, secureOnPassword: null }
       );
       expect(mockRes.json).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -280,9 +276,7 @@ describe('hosts controller', () => {
       mockReq.query = { verify: 'true', verifyTimeoutMs: '1000', verifyPollIntervalMs: '100' };
       mockDb.getHost.mockResolvedValue(mockHost as any);
       (networkDiscovery.isHostAlive as jest.Mock).mockResolvedValue(true);
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => callback(null)
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       await hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
 
@@ -313,9 +307,7 @@ describe('hosts controller', () => {
       mockReq.query = { verify: 'true', verifyTimeoutMs: '500', verifyPollIntervalMs: '100' };
       mockDb.getHost.mockResolvedValue(mockHost as any);
       (networkDiscovery.isHostAlive as jest.Mock).mockResolvedValue(false);
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => callback(null)
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       const wakePromise = hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
       await jest.advanceTimersByTimeAsync(700);
@@ -346,9 +338,7 @@ describe('hosts controller', () => {
       mockReq.params = { name: 'Host1' };
       mockReq.query = { verify: 'true', verifyTimeoutMs: '1000', verifyPollIntervalMs: '100' };
       mockDb.getHost.mockResolvedValueOnce(mockHost as any).mockResolvedValueOnce(undefined);
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => callback(null)
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       await hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
 
@@ -375,9 +365,7 @@ describe('hosts controller', () => {
       mockReq.query = { verify: 'true', verifyTimeoutMs: '1000', verifyPollIntervalMs: '100' };
       mockDb.getHost.mockResolvedValue(mockHost as any);
       (networkDiscovery.isHostAlive as jest.Mock).mockRejectedValueOnce(new Error('probe exploded'));
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => callback(null)
-      );
+      (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
 
       await hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
 
@@ -404,11 +392,7 @@ describe('hosts controller', () => {
       mockDb.getHost.mockResolvedValue(mockHost as any);
 
       // Mock WoL error
-      (wol.wake as jest.Mock).mockImplementation(
-        (_mac: string, _opts: unknown, callback: (err: Error | null) => void) => {
-          callback(new Error('WoL failed'));
-        }
-      );
+      (sendMagicPacket as jest.Mock).mockRejectedValue(new Error('WoL failed'));
 
       await hostsController.wakeUpHost(mockReq as Request, mockRes as Response);
 
@@ -1,4 +1,3 @@
-import wol from 'wake_on_lan';
 import axios from 'axios';
 import { Request, Response } from 'express';
 import { LRUCache } from 'lru-cache';
@@ -8,6 +7,7 @@ import HostDatabase from '../services/hostDatabase';
 import ScanOrchestrator from '../services/scanOrchestrator';
 import * as networkDiscovery from '../services/networkDiscovery';
 import { executeHostPowerAction } from '../services/hostPowerControl';
+import { sendMagicPacket } from '../services/magicPacket';
 import {
   Host,
   HostMergeCandidatesResponse,
@@ -153,7 +153,9 @@ function mapHostPowerErrorToStatus(message: string): number {
 
   if (
     normalized.includes('does not have power control configured') ||
-    normalized.includes('power control is disabled')
+    normalized.includes('power control is disabled') ||
+    normalized.includes('credentials configured') ||
+    normalized.includes('not supported by the')
   ) {
     return 409;
   }
@@ -166,7 +168,7 @@ function mapHostPowerErrorToStatus(message: string): number {
     return 400;
   }
 
-  if (normalized.includes('ssh')) {
+  if (normalized.includes('ssh') || normalized.includes('redfish')) {
     return 502;
   }
 
@@ -586,22 +588,20 @@ const wakeUpHost = async (req: Request, res: Response): Promise<void> => {
   }
   const requestedWolPort = typeof requestedWolPortRaw === 'number' ? requestedWolPortRaw : undefined;
   const effectiveWolPort = requestedWolPort ?? host.wolPort ?? 9;
+  const wolAddress = config.network.wolBroadcastAddress;
 
-  // Promisify wol.wake for better async handling
   try {
-    await new Promise<void>((resolve, reject) => {
-      wol.wake(host.mac, { port: effectiveWolPort }, (error: Error | null) => {
-        if (error) {
-          logger.error(`Error waking up host ${name}:`, { error: error.message, stack: error.stack });
-          reject(error);
-        } else {
-          logger.info(`Sent WoL magic packet to host ${name} (${host.mac}) on port ${effectiveWolPort}`);
-          resolve();
-        }
-      });
-    });
+    const secureOnPassword = await hostDb.getSecureOnPassword(host.name);
+    await sendMagicPacket(host.mac, { address: wolAddress, port: effectiveWolPort, secureOnPassword });
+    logger.info(
+      `Sent WoL magic packet to host ${name} (${host.mac}) via ${wolAddress} on port ${effectiveWolPort}`
+    );
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown Wake-on-LAN send error';
+    logger.error(`Error waking up host ${name}:`, {
+      error: message,
+      stack: error instanceof Error ? error.stack : undefined,
+    });
     res.status(502).json({
       success: false,
       name: host.name,
@@ -663,7 +663,9 @@ async function handleHostPowerAction(
   }
 
   try {
-    const result = await executeHostPowerAction(host, action);
+    const result = await executeHostPowerAction(host, action, {
+      redfishPassword: await hostDb.getPowerControlPassword(host.name),
+    });
     await hostDb.updateHostStatus(host.name, 'asleep');
     const updatedHost = await hostDb.getHost(host.name);
     if (updatedHost) {
@@ -865,7 +867,7 @@ const addHost = async (req: Request, res: Response): Promise<void> => {
  * /hosts/{name}:
  *   put:
  *     summary: Update host properties
- *     description: Update host name, MAC address, or IP address
+ *     description: Update host name, MAC address, IP address, or the SecureOn password
  *     tags: [Hosts]
  *     security:
  *       - BearerAuth: []
@@ -913,6 +915,25 @@ const addHost = async (req: Request, res: Response): Promise<void> => {
  *                 items:
  *                   type: string
  *                 example: [backup, low-priority]
+ *               wakeStrategy:
+ *                 type: object
+ *                 nullable: true
+ *                 description: >
+ *                   Escalation used when a verified wake times out: resends, alternate ports,
+ *                   a directed broadcast, then a webhook or IPMI power-on; null clears it
+ *                 example:
+ *                   resendCount: 2
+ *                   alternatePorts: [7]
+ *                   fallback: { type: webhook, url: 'http://plug.local/on' }
+ *               secureOnPassword:
+ *                 type: string
+ *                 nullable: true
+ *                 description: 4- or 6-byte SecureOn password, stored encrypted; null clears it
+ *                 example: '01:23:45:67:89:AB'
+ *               powerControlPassword:
+ *                 type: string
+ *                 nullable: true
+ *                 description: BMC password for the redfish power control transport, stored encrypted; null clears it
  *     responses:
  *       200:
  *         description: Host updated successfully
@@ -927,9 +948,12 @@ const addHost = async (req: Request, res: Response): Promise<void> => {
  */
 const updateHost = async (req: Request, res: Response): Promise<void> => {
   const currentName = req.params.name as string;
-  const updates = req.body as Partial<
-    Pick<Host, 'name' | 'mac' | 'secondaryMacs' | 'ip' | 'notes' | 'tags' | 'wolPort' | 'powerControl'>
-  >;
+  const { secureOnPassword, powerControlPassword, ...updates } = req.body as Partial<
+    Pick<
+      Host,
+      'name' | 'mac' | 'secondaryMacs' | 'ip' | 'notes' | 'tags' | 'wolPort' | 'powerControl' | 'wakeStrategy'
+    >
+  > & { secureOnPassword?: string | null; powerControlPassword?: string | null };
 
   if (!hostDb) {
     res.status(500).json({ error: 'Database not initialized' });
@@ -944,6 +968,12 @@ const updateHost = async (req: Request, res: Response): Promise<void> => {
 
   try {
     await hostDb.updateHost(currentName, updates);
+    if (secureOnPassword !== undefined) {
+      await hostDb.setSecureOnPassword(updates.name ?? currentName, secureOnPassword);
+    }
+    if (powerControlPassword !== undefined) {
+      await hostDb.setPowerControlPassword(updates.name ?? currentName, powerControlPassword);
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     if (message.includes('UNIQUE constraint failed')) {
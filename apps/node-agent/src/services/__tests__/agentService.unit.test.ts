@@ -4,7 +4,7 @@ import { cncClient } from '../cncClient';
 import { runtimeTelemetry } from '../runtimeTelemetry';
 import { Host } from '../../types';
 import { validateAgentConfig } from '../../config/agent';
-import * as wakeOnLan from 'wake_on_lan';
+import { sendMagicPacket } from '../magicPacket';
 import * as networkDiscovery from '../networkDiscovery';
 import * as hostPowerControl from '../hostPowerControl';
 
@@ -41,8 +41,9 @@ jest.mock('../../config/agent', () => ({
   validateAgentConfig: jest.fn(),
 }));
 
-jest.mock('wake_on_lan', () => ({
-  wake: jest.fn(),
+jest.mock('../magicPacket', () => ({
+  ...jest.requireActual('../magicPacket'),
+  sendMagicPacket: jest.fn(),
 }));
 
 jest.mock('../networkDiscovery', () => ({
@@ -52,6 +53,8 @@ jest.mock('../networkDiscovery', () => ({
 
 jest.mock('../hostPowerControl', () => ({
   executeHostPowerAction: jest.fn(),
+  executeOutOfBandPowerAction: jest.fn(),
+  queryHostPowerState: jest.fn(),
 }));
 
 describe('AgentService command handlers', () => {
@@ -65,6 +68,10 @@ describe('AgentService command handlers', () => {
     updateHostStatus: jest.Mock;
     updateHost: jest.Mock;
     deleteHost: jest.Mock;
+    getSecureOnPassword: jest.Mock;
+    setSecureOnPassword: jest.Mock;
+    getPowerControlPassword: jest.Mock;
+    setPowerControlPassword: jest.Mock;
   };
   let scanOrchestratorMock: {
     syncWithNetwork: jest.Mock;
@@ -103,6 +110,10 @@ describe('AgentService command handlers', () => {
       updateHostStatus: jest.fn().mockResolvedValue(undefined),
       updateHost: jest.fn().mockResolvedValue(undefined),
       deleteHost: jest.fn().mockResolvedValue(undefined),
+      getSecureOnPassword: jest.fn().mockResolvedValue(null),
+      setSecureOnPassword: jest.fn().mockResolvedValue(undefined),
+      getPowerControlPassword: jest.fn().mockResolvedValue(null),
+      setPowerControlPassword: jest.fn().mockResolvedValue(undefined),
     };
     scanOrchestratorMock = {
       syncWithNetwork: jest.fn().mockResolvedValue({
@@ -115,9 +126,7 @@ describe('AgentService command handlers', () => {
     };
     ((service as unknown) as { hostDb: unknown }).hostDb = hostDbMock;
     ((service as unknown) as { scanOrchestrator: unknown }).scanOrchestrator = scanOrchestratorMock;
-    ((wakeOnLan.wake as unknown) as jest.Mock).mockImplementation(
-      (_mac: string, _opts: unknown, callback: (error: Error | null) => void) => callback(null)
-    );
+    (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
     ((networkDiscovery.isHostAlive as unknown) as jest.Mock).mockResolvedValue(true);
     ((networkDiscovery.scanHostOpenPorts as unknown) as jest.Mock).mockResolvedValue([]);
     ((hostPowerControl.executeHostPowerAction as unknown) as jest.Mock).mockResolvedValue({
@@ -169,7 +178,10 @@ describe('AgentService command handlers', () => {
       data: { hostName: sampleHost.name, mac: sampleHost.mac },
     });
 
-    expect(wakeOnLan.wake).toHaveBeenCalledWith(sampleHost.mac, { port: 9 }, expect.any(Function));
+    expect(sendMagicPacket).toHaveBeenCalledWith(
+      sampleHost.mac,
+      { address: '255.255.255.255', port: 9, secureOnPassword: null }
+    );
     expect(mockCncClient.send).toHaveBeenCalledWith(
       expect.objectContaining({
         type: 'command-result',
@@ -197,16 +209,36 @@ describe('AgentService command handlers', () => {
       data: { hostName: sampleHost.name, mac: sampleHost.mac, wolPort: 7 },
     });
 
-    expect(wakeOnLan.wake).toHaveBeenCalledWith(sampleHost.mac, { port: 7 }, expect.any(Function));
+    expect(sendMagicPacket).toHaveBeenCalledWith(
+      sampleHost.mac,
+      { address: '255.255.255.255', port: 7, secureOnPassword: null }
+    );
+  });
+
+  it('appends the stored SecureOn password to wake packets', async () => {
+    const password = Buffer.from('0123456789ab', 'hex');
+    hostDbMock.getHost.mockResolvedValueOnce(sampleHost);
+    hostDbMock.getSecureOnPassword.mockResolvedValueOnce(password);
+
+    await ((service as unknown) as {
+      handleWakeCommand: (command: unknown) => Promise<void>;
+    }).handleWakeCommand({
+      type: 'wake',
+      commandId: 'cmd-wake-secureon',
+      data: { hostName: sampleHost.name, mac: sampleHost.mac },
+    });
+
+    expect(hostDbMock.getSecureOnPassword).toHaveBeenCalledWith(sampleHost.name);
+    expect(sendMagicPacket).toHaveBeenCalledWith(
+      sampleHost.mac,
+      { address: '255.255.255.255', port: 9, secureOnPassword: password }
+    );
   });
 
   it('sends failure result for wake when wake-on-lan fails', async () => {
     hostDbMock.getHost.mockResolvedValueOnce(undefined);
     hostDbMock.getHostByMAC.mockResolvedValueOnce(undefined);
-    ((wakeOnLan.wake as unknown) as jest.Mock).mockImplementation(
-      (_mac: string, _opts: unknown, callback: (error: Error | null) => void) =>
-        callback(new Error('WOL send failed'))
-    );
+    (sendMagicPacket as jest.Mock).mockRejectedValue(new Error('WOL send failed'));
 
     await ((service as unknown) as {
       handleWakeCommand: (command: unknown) => Promise<void>;
@@ -230,10 +262,7 @@ describe('AgentService command handlers', () => {
 
   it('sends failure result for wake when wake-on-lan fails for known host', async () => {
     hostDbMock.getHost.mockResolvedValueOnce(sampleHost);
-    ((wakeOnLan.wake as unknown) as jest.Mock).mockImplementation(
-      (_mac: string, _opts: unknown, callback: (error: Error | null) => void) =>
-        callback(new Error('WOL send failed'))
-    );
+    (sendMagicPacket as jest.Mock).mockRejectedValue(new Error('WOL send failed'));
 
     await ((service as unknown) as {
       handleWakeCommand: (command: unknown) => Promise<void>;
@@ -269,7 +298,10 @@ describe('AgentService command handlers', () => {
 
     expect(hostDbMock.getHost).toHaveBeenCalledWith('STALE-NAME');
     expect(hostDbMock.getHostByMAC).toHaveBeenCalledWith(sampleHost.mac);
-    expect(wakeOnLan.wake).toHaveBeenCalledWith(sampleHost.mac, { port: 9 }, expect.any(Function));
+    expect(sendMagicPacket).toHaveBeenCalledWith(
+      sampleHost.mac,
+      { address: '255.255.255.255', port: 9, secureOnPassword: null }
+    );
     expect(mockCncClient.send).toHaveBeenCalledWith(
       expect.objectContaining({
         type: 'command-result',
@@ -282,6 +314,89 @@ describe('AgentService command handlers', () => {
     );
   });
 
+  it('sends relayed wakes to the target address using the command MAC and verifies by ping', async () => {
+    await ((service as unknown) as {
+      handleWakeCommand: (command: unknown) => Promise<void>;
+    }).handleWakeCommand({
+      type: 'wake',
+      commandId: 'cmd-wake-relayed',
+      data: {
+        hostName: sampleHost.name,
+        mac: '11:22:33:44:55:66',
+        targetAddress: '192.168.20.255',
+        relay: { homeNodeId: 'node-2', hostIp: '192.168.20.14' },
+        verify: { timeoutMs: 5000, pollIntervalMs: 1000 },
+      },
+    });
+    await flushAsyncTasks();
+
+    // A local host with the same name is a different machine.
+    expect(hostDbMock.getHost).not.toHaveBeenCalled();
+    expect(hostDbMock.getHostByMAC).not.toHaveBeenCalled();
+    expect(sendMagicPacket).toHaveBeenCalledWith(
+      '11:22:33:44:55:66',
+      { address: '192.168.20.255', port: 9, secureOnPassword: null }
+    );
+    expect(networkDiscovery.isHostAlive).toHaveBeenCalledWith('192.168.20.14');
+    expect(mockCncClient.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'command-result',
+        data: expect.objectContaining({
+          commandId: 'cmd-wake-relayed',
+          success: true,
+          wakeVerification: expect.objectContaining({ status: 'confirmed', source: 'ping' }),
+        }),
+      })
+    );
+  });
+
+  it('escalates through the host wake strategy and records the step that worked', async () => {
+    jest.useFakeTimers();
+    hostDbMock.getHost.mockResolvedValue({
+      ...sampleHost,
+      status: 'asleep',
+      wakeStrategy: { resendCount: 1, alternatePorts: [9, 7], stepTimeoutMs: 1_000 },
+    });
+    // The host answers once the packet on the alternate port has gone out.
+    ((networkDiscovery.isHostAlive as unknown) as jest.Mock).mockImplementation(async () =>
+      (sendMagicPacket as jest.Mock).mock.calls.some(([, options]) => options.port === 7)
+    );
+
+    await ((service as unknown) as {
+      handleWakeCommand: (command: unknown) => Promise<void>;
+    }).handleWakeCommand({
+      type: 'wake',
+      commandId: 'cmd-wake-escalated',
+      data: {
+        hostName: sampleHost.name,
+        mac: sampleHost.mac,
+        verify: { timeoutMs: 5_000, pollIntervalMs: 500 },
+      },
+    });
+    await jest.advanceTimersByTimeAsync(2_500);
+
+    expect((sendMagicPacket as jest.Mock).mock.calls.map(([, options]) => options.port)).toEqual([9, 9, 7]);
+    expect(mockCncClient.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: 'command-result',
+        data: expect.objectContaining({
+          commandId: 'cmd-wake-escalated',
+          success: true,
+          wakeVerification: expect.objectContaining({
+            status: 'confirmed',
+            source: 'ping',
+            confirmedAfterStep: 2,
+            steps: [
+              expect.objectContaining({ method: 'magic-packet', port: 9, status: 'sent' }),
+              expect.objectContaining({ method: 'magic-packet', port: 9, status: 'sent' }),
+              expect.objectContaining({ method: 'magic-packet', port: 7, status: 'sent' }),
+            ],
+          }),
+        }),
+      })
+    );
+  });
+
   it('guards duplicate command delivery and replays cached result without re-executing', async () => {
     hostDbMock.getHost.mockResolvedValue(sampleHost);
 
@@ -301,7 +416,7 @@ describe('AgentService command handlers', () => {
       data: { hostName: sampleHost.name, mac: sampleHost.mac },
     });
 
-    expect(wakeOnLan.wake).toHaveBeenCalledTimes(1);
+    expect(sendMagicPacket).toHaveBeenCalledTimes(1);
     expect(mockCncClient.send).toHaveBeenCalledTimes(2);
     const snapshot = runtimeTelemetry.snapshot();
     expect(snapshot.commands.byType.wake.total).toBe(1);
@@ -312,10 +427,8 @@ describe('AgentService command handlers', () => {
     jest.useFakeTimers();
     hostDbMock.getHost.mockResolvedValue(sampleHost);
     ((service as unknown) as { isRunning: boolean }).isRunning = true;
-    ((wakeOnLan.wake as unknown) as jest.Mock).mockImplementation(
-      (_mac: string, _opts: unknown, callback: (error: Error | null) => void) => {
-        setTimeout(() => callback(null), 50);
-      }
+    (sendMagicPacket as jest.Mock).mockImplementation(
+      () => new Promise<void>((resolve) => setTimeout(resolve, 50))
     );
 
     const command = {
@@ -353,9 +466,7 @@ describe('AgentService command handlers', () => {
   it('applies bounded wake retries and fails deterministically after max attempts', async () => {
     jest.useFakeTimers();
     hostDbMock.getHost.mockResolvedValue(sampleHost);
-    ((wakeOnLan.wake as unknown) as jest.Mock).mockImplementation(
-      (_mac: string, _opts: unknown, callback: (error: Error | null) => void) => callback(new Error('wol transient'))
-    );
+    (sendMagicPacket as jest.Mock).mockRejectedValue(new Error('wol transient'));
 
     const handleWakePromise = ((service as unknown) as {
       handleWakeCommand: (command: unknown) => Promise<void>;
@@ -368,7 +479,7 @@ describe('AgentService command handlers', () => {
     await jest.runAllTimersAsync();
     await handleWakePromise;
 
-    expect(wakeOnLan.wake).toHaveBeenCalledTimes(2);
+    expect(sendMagicPacket).toHaveBeenCalledTimes(2);
     expect(mockCncClient.send).toHaveBeenCalledWith(
       expect.objectContaining({
         type: 'command-result',
@@ -384,7 +495,7 @@ describe('AgentService command handlers', () => {
   it('marks wake command as timed out after bounded timeout retries', async () => {
     jest.useFakeTimers();
     hostDbMock.getHost.mockResolvedValue(sampleHost);
-    ((wakeOnLan.wake as unknown) as jest.Mock).mockImplementation(() => undefined);
+    (sendMagicPacket as jest.Mock).mockImplementation(() => new Promise<void>(() => undefined));
 
     const handleWakePromise = ((service as unknown) as {
       handleWakeCommand: (command: unknown) => Promise<void>;
@@ -397,7 +508,7 @@ describe('AgentService command handlers', () => {
     await jest.advanceTimersByTimeAsync(16_000);
     await handleWakePromise;
 
-    expect(wakeOnLan.wake).toHaveBeenCalledTimes(2);
+    expect(sendMagicPacket).toHaveBeenCalledTimes(2);
     expect(mockCncClient.send).toHaveBeenCalledWith(
       expect.objectContaining({
         type: 'command-result',
@@ -767,6 +878,44 @@ describe('AgentService command handlers', () => {
     );
   });
 
+  it('stores and clears SecureOn passwords from update-host', async () => {
+    hostDbMock.getHost.mockResolvedValue(sampleHost);
+    const handleUpdateHostCommand = ((service as unknown) as {
+      handleUpdateHostCommand: (command: unknown) => Promise<void>;
+    }).handleUpdateHostCommand.bind(service);
+
+    await handleUpdateHostCommand({
+      type: 'update-host',
+      commandId: 'cmd-update-secureon',
+      data: { name: 'PHANTOM-MBP', secureOnPassword: '01:23:45:67' },
+    });
+    await handleUpdateHostCommand({
+      type: 'update-host',
+      commandId: 'cmd-update-secureon-clear',
+      data: { name: 'PHANTOM-MBP', secureOnPassword: null },
+    });
+    await handleUpdateHostCommand({
+      type: 'update-host',
+      commandId: 'cmd-update-secureon-invalid',
+      data: { name: 'PHANTOM-MBP', secureOnPassword: '01:23:45' },
+    });
+
+    expect(hostDbMock.setSecureOnPassword).toHaveBeenNthCalledWith(1, 'PHANTOM-MBP', '01:23:45:67');
+    expect(hostDbMock.setSecureOnPassword).toHaveBeenNthCalledWith(2, 'PHANTOM-MBP', null);
+    expect(hostDbMock.setSecureOnPassword).toHaveBeenCalledTimes(2);
+    expect(hostDbMock.setPowerControlPassword).not.toHaveBeenCalled();
+    expect(mockCncClient.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'command-result',
+        data: expect.objectContaining({
+          commandId: 'cmd-update-secureon-invalid',
+          success: false,
+          error: 'Invalid update-host payload: secureOnPassword must be 4 or 6 bytes',
+        }),
+      })
+    );
+  });
+
   it('rejects update-host payload with invalid status', async () => {
     await ((service as unknown) as {
       handleUpdateHostCommand: (command: unknown) => Promise<void>;
@@ -1087,7 +1236,8 @@ describe('AgentService command handlers', () => {
 
     expect(hostPowerControl.executeHostPowerAction).toHaveBeenCalledWith(
       expect.objectContaining({ name: sampleHost.name }),
-      'sleep'
+      'sleep',
+      { redfishPassword: null }
     );
     expect(hostDbMock.updateHostStatus).toHaveBeenCalledWith(sampleHost.name, 'asleep');
     expect(mockCncClient.send).toHaveBeenCalledWith(
@@ -1127,6 +1277,82 @@ describe('AgentService command handlers', () => {
     );
   });
 
+  it('runs power-host commands through the Redfish transport', async () => {
+    const redfishHost: Host = {
+      ...sampleHost,
+      powerControl: {
+        enabled: true,
+        transport: 'redfish',
+        redfish: { baseUrl: 'https://10.0.0.50', username: 'ADMIN' },
+      },
+    };
+    hostDbMock.getHost.mockResolvedValue(redfishHost);
+    hostDbMock.getPowerControlPassword.mockResolvedValue('bmc-secret');
+    ((hostPowerControl.executeOutOfBandPowerAction as unknown) as jest.Mock).mockResolvedValue({
+      message: 'Redfish force-off requested for PHANTOM-MBP',
+      previousState: 'on',
+    });
+
+    await ((service as unknown) as {
+      handlePowerHostCommand: (command: unknown) => Promise<void>;
+    }).handlePowerHostCommand({
+      type: 'power-host',
+      commandId: 'cmd-power-host',
+      data: {
+        hostName: sampleHost.name,
+        mac: sampleHost.mac,
+        ip: sampleHost.ip,
+        action: 'force-off',
+        confirmation: 'force-off',
+      },
+    });
+
+    expect(hostPowerControl.executeOutOfBandPowerAction).toHaveBeenCalledWith(
+      redfishHost,
+      'force-off',
+      'bmc-secret'
+    );
+    expect(hostDbMock.updateHostStatus).toHaveBeenCalledWith(sampleHost.name, 'asleep');
+    expect(mockCncClient.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'command-result',
+        data: expect.objectContaining({
+          commandId: 'cmd-power-host',
+          success: true,
+          message: 'Redfish force-off requested for PHANTOM-MBP',
+        }),
+      })
+    );
+  });
+
+  it('reports the queried power state for query-host-power commands', async () => {
+    hostDbMock.getHost.mockResolvedValue(sampleHost);
+    ((hostPowerControl.queryHostPowerState as unknown) as jest.Mock).mockResolvedValue('off');
+
+    await ((service as unknown) as {
+      handleQueryHostPowerCommand: (command: unknown) => Promise<void>;
+    }).handleQueryHostPowerCommand({
+      type: 'query-host-power',
+      commandId: 'cmd-query-host-power',
+      data: { hostName: sampleHost.name, mac: sampleHost.mac, ip: sampleHost.ip },
+    });
+
+    expect(mockCncClient.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'command-result',
+        data: expect.objectContaining({
+          commandId: 'cmd-query-host-power',
+          success: true,
+          hostPowerState: {
+            hostName: sampleHost.name,
+            state: 'off',
+            checkedAt: expect.any(String),
+          },
+        }),
+      })
+    );
+  });
+
   it('returns failure when wake target has no resolvable mac address', async () => {
     hostDbMock.getHost.mockResolvedValueOnce(undefined);
     hostDbMock.getHostByMAC.mockResolvedValueOnce(undefined);
@@ -233,6 +233,54 @@ describe('HostDatabase', () => {
       expect(updated?.tags).toEqual(['primary', 'ssh']);
     });
 
+    it('should store SecureOn passwords encrypted and clear them', async () => {
+      const secretDb = new HostDatabase(':memory:', { loadSecretKey: () => Buffer.alloc(32, 1) });
+      await secretDb.initialize();
+      await secretDb.addHost('SecureOnHost', 'AA:BB:CC:DD:EE:89', '192.168.1.189');
+
+      await secretDb.setSecureOnPassword('SecureOnHost', '01-23-45-67-89-AB');
+      const raw = (secretDb as unknown as { db: { prepare: (sql: string) => { get: () => unknown } } }).db
+        .prepare("SELECT wol_password as wolPassword FROM hosts WHERE name = 'SecureOnHost'")
+        .get() as { wolPassword: string };
+      expect(raw.wolPassword).toMatch(/^v1:/);
+      expect(raw.wolPassword).not.toContain('0123456789');
+      await expect(secretDb.getSecureOnPassword('SecureOnHost')).resolves.toEqual(
+        Buffer.from('0123456789ab', 'hex')
+      );
+
+      await secretDb.setSecureOnPassword('SecureOnHost', null);
+      await expect(secretDb.getSecureOnPassword('SecureOnHost')).resolves.toBeNull();
+      await expect(secretDb.setSecureOnPassword('MissingHost', '01:02:03:04')).rejects.toThrow(
+        'Host MissingHost not found'
+      );
+      await secretDb.close();
+    });
+
+    it('should store Redfish power control with an encrypted BMC password', async () => {
+      const secretDb = new HostDatabase(':memory:', { loadSecretKey: () => Buffer.alloc(32, 1) });
+      await secretDb.initialize();
+      await secretDb.addHost('BmcHost', 'AA:BB:CC:DD:EE:8A', '192.168.1.190');
+      const powerControl = {
+        enabled: true,
+        transport: 'redfish' as const,
+        redfish: { baseUrl: 'https://10.0.0.50', username: 'ADMIN', verifyTls: false },
+      };
+
+      await secretDb.updateHost('BmcHost', { powerControl });
+      await secretDb.setPowerControlPassword('BmcHost', 'bmc-secret');
+      const raw = (secretDb as unknown as { db: { prepare: (sql: string) => { get: () => unknown } } }).db
+        .prepare("SELECT power_password as powerPassword FROM hosts WHERE name = 'BmcHost'")
+        .get() as { powerPassword: string };
+      expect(raw.powerPassword).toMatch(/^v1:/);
+      expect(raw.powerPassword).not.toContain('bmc-secret');
+      await expect(secretDb.getHost('BmcHost')).resolves.toEqual(expect.objectContaining({ powerControl }));
+      await expect(secretDb.getPowerControlPassword('BmcHost')).resolves.toBe('bmc-secret');
+
+      await secretDb.setPowerControlPassword('BmcHost', null);
+      await expect(secretDb.getPowerControlPassword('BmcHost')).resolves.toBeNull();
+      await secretDb.close();
+    });
+
     it('should merge a secondary MAC into a host', async () => {
       await db.addHost('MergeHost', 'AA:BB:CC:DD:EE:10', '192.168.1.110');
 
@@ -330,6 +378,21 @@ describe('HostDatabase', () => {
       expect(updated?.wolPort).toBe(7);
     });
 
+    it('should store and clear a host wake strategy', async () => {
+      await db.addHost('StrategyHost', 'AA:BB:CC:DD:EE:42', '192.168.1.242');
+      const wakeStrategy = {
+        resendCount: 2,
+        alternatePorts: [7],
+        fallback: { type: 'webhook' as const, url: 'http://plug.local/relay/0?turn=on' },
+      };
+
+      await db.updateHost('StrategyHost', { wakeStrategy });
+      expect((await db.getHost('StrategyHost'))?.wakeStrategy).toEqual(wakeStrategy);
+
+      await db.updateHost('StrategyHost', { wakeStrategy: null });
+      expect((await db.getHost('StrategyHost'))?.wakeStrategy).toBeUndefined();
+    });
+
     it('should emit host-updated when updating a host', async () => {
       await db.addHost('EventHostUpdate', 'AA:BB:CC:DD:EE:90', '192.168.1.190');
       const onUpdated = jest.fn();
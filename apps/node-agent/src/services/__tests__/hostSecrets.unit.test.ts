@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HostSecretCipher, loadHostSecretKey } from '../hostSecrets';
+
+describe('hostSecrets', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'woly-host-secrets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('round-trips secrets and rejects tampered payloads', () => {
+    const cipher = new HostSecretCipher(Buffer.alloc(32, 3));
+    const plaintext = Buffer.from('0123456789ab', 'hex');
+
+    const encrypted = cipher.encrypt(plaintext);
+    expect(encrypted).toMatch(/^v1:/);
+    expect(cipher.encrypt(plaintext)).not.toBe(encrypted);
+    expect(cipher.decrypt(encrypted)).toEqual(plaintext);
+
+    const bytes = Buffer.from(encrypted.slice(3), 'base64');
+    bytes[bytes.length - 1] ^= 0xff;
+    expect(() => cipher.decrypt(`v1:${bytes.toString('base64')}`)).toThrow();
+    expect(() => cipher.decrypt('v2:abc')).toThrow('Unsupported host secret format');
+    expect(() => new HostSecretCipher(Buffer.alloc(16))).toThrow('Host secret key must be 32 bytes');
+  });
+
+  it('derives the key from a configured secret', () => {
+    const keyFile = path.join(tempDir, 'host-secret.key');
+
+    const key = loadHostSecretKey({ secret: 'correct horse', keyFile });
+
+    expect(key).toHaveLength(32);
+    expect(loadHostSecretKey({ secret: 'correct horse', keyFile })).toEqual(key);
+    expect(fs.existsSync(keyFile)).toBe(false);
+  });
+
+  it('generates a key file once and reuses it', () => {
+    const keyFile = path.join(tempDir, 'nested', 'host-secret.key');
+
+    const generated = loadHostSecretKey({ keyFile });
+
+    expect(generated).toHaveLength(32);
+    expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600);
+    expect(loadHostSecretKey({ keyFile })).toEqual(generated);
+  });
+
+  it('rejects key files of the wrong length', () => {
+    const keyFile = path.join(tempDir, 'host-secret.key');
+    fs.writeFileSync(keyFile, Buffer.alloc(8).toString('base64'));
+
+    expect(() => loadHostSecretKey({ keyFile })).toThrow(`Host secret key file ${keyFile} is invalid`);
+  });
+});
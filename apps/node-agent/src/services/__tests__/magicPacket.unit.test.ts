@@ -0,0 +1,111 @@
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import {
+  buildMagicPacket,
+  parseMacAddress,
+  parseSecureOnPassword,
+  sendMagicPacket,
+} from '../magicPacket';
+
+const MAC_HEX = 'aabbccddeeff';
+
+function expectedPacket(passwordHex = ''): Buffer {
+  return Buffer.from(`${'ff'.repeat(6)}${MAC_HEX.repeat(16)}${passwordHex}`, 'hex');
+}
+
+describe('magicPacket', () => {
+  describe('parseMacAddress', () => {
+    it('accepts colon, dash and bare MAC formats', () => {
+      const expected = Buffer.from(MAC_HEX, 'hex');
+      expect(parseMacAddress('AA:BB:CC:DD:EE:FF')).toEqual(expected);
+      expect(parseMacAddress('aa-bb-cc-dd-ee-ff')).toEqual(expected);
+      expect(parseMacAddress('AABBCCDDEEFF')).toEqual(expected);
+    });
+
+    it('rejects malformed MAC addresses', () => {
+      expect(() => parseMacAddress('AA:BB:CC:DD:EE')).toThrow("Malformed MAC address 'AA:BB:CC:DD:EE'");
+      expect(() => parseMacAddress('INVALID-MAC')).toThrow('Malformed MAC address');
+    });
+  });
+
+  describe('parseSecureOnPassword', () => {
+    it('parses 6-byte, 4-byte and dotted decimal passwords', () => {
+      expect(parseSecureOnPassword('01:23:45:67:89:AB')).toEqual(Buffer.from('0123456789ab', 'hex'));
+      expect(parseSecureOnPassword('01-23-45-67')).toEqual(Buffer.from('01234567', 'hex'));
+      expect(parseSecureOnPassword('192.168.1.254')).toEqual(Buffer.from([192, 168, 1, 254]));
+    });
+
+    it('rejects passwords that are not 4 or 6 bytes', () => {
+      expect(() => parseSecureOnPassword('01:23:45')).toThrow('SecureOn password must be 4 or 6 bytes');
+      expect(() => parseSecureOnPassword('01:23:45:67:89')).toThrow('SecureOn password must be 4 or 6 bytes');
+      expect(() => parseSecureOnPassword('hunter2')).toThrow('SecureOn password must be 4 or 6 bytes');
+    });
+  });
+
+  describe('buildMagicPacket', () => {
+    it('builds a 102-byte packet without a password', () => {
+      const packet = buildMagicPacket('AA:BB:CC:DD:EE:FF');
+
+      expect(packet).toHaveLength(102);
+      expect(packet).toEqual(expectedPacket());
+    });
+
+    it('appends 4- and 6-byte SecureOn passwords', () => {
+      const fourByte = buildMagicPacket('AA:BB:CC:DD:EE:FF', parseSecureOnPassword('192.168.1.254'));
+      const sixByte = buildMagicPacket('AA:BB:CC:DD:EE:FF', parseSecureOnPassword('01:23:45:67:89:AB'));
+
+      expect(fourByte).toHaveLength(106);
+      expect(fourByte).toEqual(expectedPacket('c0a801fe'));
+      expect(sixByte).toHaveLength(108);
+      expect(sixByte).toEqual(expectedPacket('0123456789ab'));
+    });
+
+    it('rejects passwords of other lengths', () => {
+      expect(() => buildMagicPacket('AA:BB:CC:DD:EE:FF', Buffer.alloc(5))).toThrow(
+        'SecureOn password must be 4 or 6 bytes'
+      );
+    });
+  });
+
+  describe('sendMagicPacket', () => {
+    it('sends the packet the requested number of times', async () => {
+      const receiver = dgram.createSocket('udp4');
+      const received: Buffer[] = [];
+      await new Promise<void>((resolve) => receiver.bind(0, '127.0.0.1', resolve));
+      const { port } = receiver.address() as AddressInfo;
+      const allReceived = new Promise<void>((resolve) => {
+        receiver.on('message', (message: Buffer) => {
+          received.push(message);
+          if (received.length === 2) {
+            resolve();
+          }
+        });
+      });
+
+      try {
+        await sendMagicPacket('AA:BB:CC:DD:EE:FF', {
+          address: '127.0.0.1',
+          port,
+          secureOnPassword: parseSecureOnPassword('01:23:45:67'),
+          repeat: 2,
+          intervalMs: 1,
+        });
+        await allReceived;
+      } finally {
+        receiver.close();
+      }
+
+      expect(received).toEqual([expectedPacket('01234567'), expectedPacket('01234567')]);
+    });
+
+    it('rejects malformed MAC addresses before opening a socket', async () => {
+      const createSocket = jest.spyOn(dgram, 'createSocket');
+
+      await expect(sendMagicPacket('INVALID', { address: '127.0.0.1', port: 9 })).rejects.toThrow(
+        'Malformed MAC address'
+      );
+      expect(createSocket).not.toHaveBeenCalled();
+      createSocket.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { execFile } from 'node:child_process';
+import axios from 'axios';
+import { sendMagicPacket } from '../magicPacket';
+import { resetRedfishSystem } from '../redfishClient';
+import { executeWakeStep, planWakeEscalation } from '../wakeStrategy';
+
+jest.mock('node:child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { request: jest.fn() },
+}));
+
+jest.mock('../../config', () => {
+  const actual = jest.requireActual<typeof import('../../config')>('../../config');
+  return {
+    config: {
+      ...actual.config,
+      wakeStrategy: { fallbackAllowedHosts: ['plug.local', '192.168.1.50'] },
+    },
+  };
+});
+
+jest.mock('../magicPacket', () => ({
+  sendMagicPacket: jest.fn(),
+}));
+
+jest.mock('../redfishClient', () => ({
+  resetRedfishSystem: jest.fn(),
+}));
+
+const execFileMock = execFile as unknown as jest.Mock;
+const requestMock = axios.request as jest.Mock;
+const target = { mac: 'AA:BB:CC:DD:EE:FF', secureOnPassword: null };
+
+describe('wakeStrategy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sendMagicPacket as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('planWakeEscalation', () => {
+    it('orders resends, alternate ports, directed broadcast and fallback', () => {
+      const fallback = { type: 'webhook' as const, url: 'http://plug.local/on' };
+
+      expect(
+        planWakeEscalation(
+          {
+            resendCount: 2,
+            alternatePorts: [9, 7, 7],
+            directedBroadcast: '192.168.1.255',
+            fallback,
+          },
+          { address: '255.255.255.255', port: 9 }
+        )
+      ).toEqual([
+        { method: 'magic-packet', address: '255.255.255.255', port: 9 },
+        { method: 'magic-packet', address: '255.255.255.255', port: 9 },
+        { method: 'magic-packet', address: '255.255.255.255', port: 7 },
+        { method: 'magic-packet', address: '192.168.1.255', port: 9 },
+        { method: 'fallback', action: fallback },
+      ]);
+    });
+
+    it('skips a directed broadcast that matches the initial target', () => {
+      expect(
+        planWakeEscalation({ directedBroadcast: '192.168.1.255' }, { address: '192.168.1.255', port: 9 })
+      ).toEqual([]);
+    });
+  });
+
+  describe('executeWakeStep', () => {
+    it('sends magic packets to the planned address and port', async () => {
+      const step = await executeWakeStep({ method: 'magic-packet', address: '192.168.1.255', port: 7 }, target);
+
+      expect(sendMagicPacket).toHaveBeenCalledWith('AA:BB:CC:DD:EE:FF', {
+        address: '192.168.1.255',
+        port: 7,
+        secureOnPassword: null,
+      });
+      expect(step).toEqual(
+        expect.objectContaining({ method: 'magic-packet', address: '192.168.1.255', port: 7, status: 'sent' })
+      );
+    });
+
+    it('calls webhook fallbacks and records HTTP failures', async () => {
+      requestMock.mockResolvedValueOnce({ status: 204 }).mockResolvedValueOnce({ status: 503 });
+      const action = { type: 'webhook' as const, url: 'http://plug.local/on', body: '{"on":true}' };
+
+      await expect(executeWakeStep({ method: 'fallback', action }, target)).resolves.toEqual(
+        expect.objectContaining({ method: 'webhook', status: 'sent' })
+      );
+      expect(requestMock).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'http://plug.local/on', method: 'POST', data: '{"on":true}' })
+      );
+      await expect(executeWakeStep({ method: 'fallback', action }, target)).resolves.toEqual(
+        expect.objectContaining({ method: 'webhook', status: 'failed', error: 'Webhook responded with HTTP 503' })
+      );
+    });
+
+    it('powers on through ipmitool and records its errors', async () => {
+      execFileMock
+        .mockImplementationOnce((_file, _args, _options, callback) => callback(null, '', ''))
+        .mockImplementationOnce((_file, _args, _options, callback) =>
+          callback(Object.assign(new Error('Command failed'), { stderr: 'Unable to establish session\n' }), '', '')
+        );
+      const action = {
+        type: 'ipmi' as const,
+        address: '192.168.1.50',
+        username: 'ADMIN',
+        passwordFile: '/etc/woly/ipmi-password',
+      };
+
+      await expect(executeWakeStep({ method: 'fallback', action }, target)).resolves.toEqual(
+        expect.objectContaining({ method: 'ipmi', status: 'sent' })
+      );
+      expect(execFileMock).toHaveBeenCalledWith(
+        'ipmitool',
+        [
+          '-I',
+          'lanplus',
+          '-H',
+          '192.168.1.50',
+          '-U',
+          'ADMIN',
+          '-f',
+          '/etc/woly/ipmi-password',
+          'chassis',
+          'power',
+          'on',
+        ],
+        expect.objectContaining({ timeout: 30_000 }),
+        expect.any(Function)
+      );
+      await expect(executeWakeStep({ method: 'fallback', action }, target)).resolves.toEqual(
+        expect.objectContaining({
+          method: 'ipmi',
+          status: 'failed',
+          error: 'ipmitool power on failed: Unable to establish session',
+        })
+      );
+    });
+
+    it('refuses webhook and IPMI targets missing from the allowlist', async () => {
+      const webhook = { type: 'webhook' as const, url: 'http://attacker.example:8080/collect' };
+      const ipmi = {
+        type: 'ipmi' as const,
+        address: '203.0.113.9',
+        username: 'ADMIN',
+        passwordFile: '/etc/woly/ipmi-password',
+      };
+
+      await expect(executeWakeStep({ method: 'fallback', action: webhook }, target)).resolves.toEqual(
+        expect.objectContaining({
+          method: 'webhook',
+          status: 'failed',
+          error: 'Wake fallback target attacker.example is not listed in WAKE_FALLBACK_ALLOWED_HOSTS',
+        })
+      );
+      await expect(executeWakeStep({ method: 'fallback', action: ipmi }, target)).resolves.toEqual(
+        expect.objectContaining({
+          method: 'ipmi',
+          status: 'failed',
+          error: 'Wake fallback target 203.0.113.9 is not listed in WAKE_FALLBACK_ALLOWED_HOSTS',
+        })
+      );
+      expect(requestMock).not.toHaveBeenCalled();
+      expect(execFileMock).not.toHaveBeenCalled();
+    });
+
+    it('powers on through the host BMC for redfish fallbacks', async () => {
+      const redfish = { baseUrl: 'https://10.0.0.50', username: 'ADMIN', password: 'bmc-secret' };
+      (resetRedfishSystem as jest.Mock).mockResolvedValue({ previousState: 'off', skipped: false });
+      const plan = { method: 'fallback' as const, action: { type: 'redfish' as const } };
+
+      await expect(executeWakeStep(plan, { ...target, redfish })).resolves.toEqual(
+        expect.objectContaining({ method: 'redfish', status: 'sent' })
+      );
+      expect(resetRedfishSystem).toHaveBeenCalledWith(redfish, 'On');
+      await expect(executeWakeStep(plan, target)).resolves.toEqual(
+        expect.objectContaining({
+          method: 'redfish',
+          status: 'failed',
+          error: 'Host does not have Redfish power control with stored credentials',
+        })
+      );
+    });
+  });
+});
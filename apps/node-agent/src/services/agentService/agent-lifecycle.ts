@@ -1,8 +1,14 @@
 import { EventEmitter } from 'events';
 import { isIP } from 'node:net';
 import {
+  DEFAULT_WAKE_STEP_TIMEOUT_MS,
+  WAKE_FALLBACK_TIMEOUT_MS,
+  WAKE_STEP_MARGIN_MS,
   hostPowerControlSchema,
+  hostWakeStrategySchema,
+  powerControlPasswordSchema,
   type CommandState,
+  type WakeStep,
   type WakeVerificationResult,
   type WakeVerificationStatus,
 } from '@kaonis/woly-protocol';
@@ -15,7 +21,18 @@ import HostDatabase from '../hostDatabase';
 import ScanOrchestrator from '../scanOrchestrator';
 import { runtimeTelemetry } from '../runtimeTelemetry';
 import * as networkDiscovery from '../networkDiscovery';
-import { executeHostPowerAction } from '../hostPowerControl';
+import {
+  executeHostPowerAction,
+  executeOutOfBandPowerAction,
+  queryHostPowerState,
+} from '../hostPowerControl';
+import { parseSecureOnPassword, sendMagicPacket } from '../magicPacket';
+import {
+  executeWakeStep,
+  planWakeEscalation,
+  type WakeStepPlan,
+  type WakeStepTarget,
+} from '../wakeStrategy';
 
 type WakeCommand = Extract<CncCommand, { type: 'wake' }>;
 type ScanCommand = Extract<CncCommand, { type: 'scan' }>;
@@ -25,6 +42,8 @@ type DeleteHostCommand = Extract<CncCommand, { type: 'delete-host' }>;
 type PingHostCommand = Extract<CncCommand, { type: 'ping-host' }>;
 type SleepHostCommand = Extract<CncCommand, { type: 'sleep-host' }>;
 type ShutdownHostCommand = Extract<CncCommand, { type: 'shutdown-host' }>;
+type PowerHostCommand = Extract<CncCommand, { type: 'power-host' }>;
+type QueryHostPowerCommand = Extract<CncCommand, { type: 'query-host-power' }>;
 type DispatchableCommand =
   | WakeCommand
   | ScanCommand
@@ -33,15 +52,22 @@ type DispatchableCommand =
   | DeleteHostCommand
   | PingHostCommand
   | SleepHostCommand
-  | ShutdownHostCommand;
+  | ShutdownHostCommand
+  | PowerHostCommand
+  | QueryHostPowerCommand;
 type HostEventMessage = Extract<
   NodeMessage,
   { type: 'host-discovered' | 'host-updated' | 'host-removed' | 'scan-complete' }
 >;
 type CommandResultMessage = Extract<NodeMessage, { type: 'command-result' }>;
+type WakeEscalation = {
+  plan: WakeStepPlan[];
+  stepTimeoutMs: number;
+  target: WakeStepTarget;
+};
 type CommandResultPayload = Pick<
   CommandResultMessage['data'],
-  'success' | 'message' | 'error' | 'hostPing' | 'hostPortScan' | 'wakeVerification'
+  'success' | 'message' | 'error' | 'hostPing' | 'hostPortScan' | 'wakeVerification' | 'hostPowerState'
 >;
 
 type ValidatedUpdateHostData = {
@@ -55,6 +81,9 @@ type ValidatedUpdateHostData = {
   notes?: string | null;
   tags?: string[];
   powerControl?: Host['powerControl'];
+  wakeStrategy?: Host['wakeStrategy'];
+  secureOnPassword?: string | null;
+  powerControlPassword?: string | null;
 };
 
 const MAC_ADDRESS_REGEX = /^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$|^([0-9A-Fa-f]{12})$/;
@@ -129,6 +158,18 @@ const COMMAND_EXECUTION_POLICIES: Record<DispatchableCommand['type'], CommandExe
     retryDelayMs: 0,
     retryOnFailure: false,
   },
+  'power-host': {
+    timeoutMs: 45_000,
+    maxAttempts: 1,
+    retryDelayMs: 0,
+    retryOnFailure: false,
+  },
+  'query-host-power': {
+    timeoutMs: 20_000,
+    maxAttempts: 1,
+    retryDelayMs: 200,
+    retryOnFailure: false,
+  },
 };
 
 class NonRetryableCommandError extends Error {
@@ -337,6 +378,14 @@ export class AgentService extends EventEmitter {
     cncClient.on('command:shutdown-host', (command: ShutdownHostCommand) => {
       void this.dispatchInboundCommand(command);
     });
+
+    cncClient.on('command:power-host', (command: PowerHostCommand) => {
+      void this.dispatchInboundCommand(command);
+    });
+
+    cncClient.on('command:query-host-power', (command: QueryHostPowerCommand) => {
+      void this.dispatchInboundCommand(command);
+    });
   }
 
   private async dispatchInboundCommand(command: DispatchableCommand): Promise<void> {
@@ -366,6 +415,12 @@ export class AgentService extends EventEmitter {
         case 'shutdown-host':
           await this.handleShutdownHostCommand(command);
           return;
+        case 'power-host':
+          await this.handlePowerHostCommand(command);
+          return;
+        case 'query-host-power':
+          await this.handleQueryHostPowerCommand(command);
+          return;
       }
     } catch (error) {
       logger.error('Failed to dispatch inbound C&C command', {
@@ -1005,7 +1060,7 @@ export class AgentService extends EventEmitter {
    */
   private async handleWakeCommand(command: WakeCommand): Promise<void> {
     const { commandId, data } = command;
-    const { hostName, mac, verify, wolPort } = data;
+    const { hostName, mac, verify, wolPort, targetAddress, relay } = data;
 
     logger.info('Received wake command from C&C', {
       commandId,
@@ -1013,6 +1068,8 @@ export class AgentService extends EventEmitter {
       mac,
       wolPort,
       verify: !!verify,
+      ...(targetAddress ? { targetAddress } : {}),
+      ...(relay ? { relayFor: relay.homeNodeId } : {}),
     });
 
     await this.executeCommandWithReliability(command, async () => {
@@ -1021,8 +1078,10 @@ export class AgentService extends EventEmitter {
       }
 
       // Prefer hostname lookup, but fall back to MAC for stale/missing hostnames.
-      let host = await this.hostDb.getHost(hostName);
-      if (!host) {
+      // Relayed hosts belong to another node, so a local entry with the same name
+      // would be a different machine; the command's MAC is authoritative.
+      let host = relay ? null : await this.hostDb.getHost(hostName);
+      if (!host && !relay) {
         host = await this.hostDb.getHostByMAC(mac);
       }
 
@@ -1042,24 +1101,42 @@ export class AgentService extends EventEmitter {
       }
 
       // Send Wake-on-LAN packet
-      const wol = await import('wake_on_lan');
-      await new Promise<void>((resolve, reject) => {
-        wol.wake(targetMac, { port: resolvedWolPort }, (error: Error | null) => {
-          if (error) {
-            reject(error);
-          } else {
-            resolve();
-          }
-        });
-      });
+      const address = targetAddress ?? config.network.wolBroadcastAddress;
+      // SecureOn passwords are stored on the host's home node, so relayed packets go without one.
+      const secureOnPassword = host ? await this.hostDb.getSecureOnPassword(host.name) : null;
+      await sendMagicPacket(targetMac, { address, port: resolvedWolPort, secureOnPassword });
+      const initialStep: WakeStep = {
+        method: 'magic-packet',
+        address,
+        port: resolvedWolPort,
+        status: 'sent',
+        at: new Date().toISOString(),
+      };
 
-      logger.info('Wake command completed', { commandId, hostName });
+      logger.info('Wake command completed', { commandId, hostName, address });
 
       // If verify options are present, schedule async wake verification (fire-and-forget).
+      // The host's wake strategy escalates from there while the host stays asleep.
       const verifyOptions = verify ?? null;
       if (verifyOptions) {
         const startedAt = new Date().toISOString();
-        this.scheduleWakeVerification(commandId, hostName, host?.ip ?? null, verifyOptions, startedAt);
+        const hostIp = relay ? relay.hostIp ?? null : host?.ip ?? null;
+        const escalation: WakeEscalation | undefined = host?.wakeStrategy
+          ? {
+              plan: planWakeEscalation(host.wakeStrategy, { address, port: resolvedWolPort }),
+              stepTimeoutMs: host.wakeStrategy.stepTimeoutMs ?? DEFAULT_WAKE_STEP_TIMEOUT_MS,
+              target: {
+                mac: targetMac,
+                secureOnPassword,
+                redfish: await this.resolveRedfishConnection(host),
+              },
+            }
+          : undefined;
+        this.scheduleWakeVerification(commandId, hostName, hostIp, verifyOptions, startedAt, {
+          relayed: !!relay,
+          steps: [initialStep],
+          escalation,
+        });
       }
 
       const wakeVerification: WakeVerificationResult | undefined = verifyOptions
@@ -1069,6 +1146,7 @@ export class AgentService extends EventEmitter {
             elapsedMs: 0,
             startedAt: new Date().toISOString(),
             confirmedAt: null,
+            steps: [initialStep],
           }
         : undefined;
 
@@ -1090,6 +1168,7 @@ export class AgentService extends EventEmitter {
     hostIp: string | null,
     options: { timeoutMs: number; pollIntervalMs: number },
     startedAt: string,
+    extra: { relayed?: boolean; steps?: WakeStep[]; escalation?: WakeEscalation } = {},
   ): void {
     // Prevent duplicate verifications for the same command
     if (this.activeWakeVerifications.has(commandId)) {
@@ -1106,12 +1185,23 @@ export class AgentService extends EventEmitter {
       10_000,
     );
 
-    logger.info('Starting wake verification', { commandId, hostName, timeoutMs, pollIntervalMs });
+    logger.info('Starting wake verification', {
+      commandId,
+      hostName,
+      timeoutMs,
+      pollIntervalMs,
+      escalationSteps: extra.escalation?.plan.length ?? 0,
+    });
 
-    // Use a setTimeout as a safety net to clean up if the loop doesn't finish
+    // Use a setTimeout as a safety net to clean up if the loop doesn't finish.
+    // Escalation steps each wait stepTimeoutMs and may take up to the fallback budget to run.
+    const escalationMs = extra.escalation
+      ? extra.escalation.plan.length *
+        (extra.escalation.stepTimeoutMs + WAKE_FALLBACK_TIMEOUT_MS + WAKE_STEP_MARGIN_MS)
+      : 0;
     const safetyTimer = setTimeout(() => {
       this.activeWakeVerifications.delete(commandId);
-    }, timeoutMs + 5_000);
+    }, timeoutMs + escalationMs + 5_000);
 
     this.activeWakeVerifications.set(commandId, { timer: safetyTimer });
 
@@ -1120,6 +1210,7 @@ export class AgentService extends EventEmitter {
       timeoutMs,
       pollIntervalMs,
       startedAt,
+      ...extra,
     }).finally(() => {
       clearTimeout(safetyTimer);
       this.activeWakeVerifications.delete(commandId);
@@ -1129,28 +1220,43 @@ export class AgentService extends EventEmitter {
   /**
    * Internal polling loop for wake verification.
    * Checks host status in DB and via ping until confirmed awake or timeout.
+   * With an escalation, each step runs once the previous one has waited
+   * stepTimeoutMs; the last step waits the full timeoutMs.
    */
   private async runWakeVerificationLoop(
     commandId: string,
     hostName: string,
     hostIp: string | null,
-    opts: { timeoutMs: number; pollIntervalMs: number; startedAt: string },
+    opts: {
+      timeoutMs: number;
+      pollIntervalMs: number;
+      startedAt: string;
+      relayed?: boolean;
+      steps?: WakeStep[];
+      escalation?: WakeEscalation;
+    },
   ): Promise<void> {
-    const { timeoutMs, pollIntervalMs, startedAt } = opts;
-    const deadline = Date.now() + timeoutMs;
+    const { timeoutMs, pollIntervalMs, startedAt, relayed, escalation } = opts;
+    const steps = [...(opts.steps ?? [])];
+    const pendingSteps = [...(escalation?.plan ?? [])];
+    const loopStartedAt = Date.now();
+    const nextDeadline = () =>
+      Date.now() + (pendingSteps.length > 0 && escalation ? escalation.stepTimeoutMs : timeoutMs);
+    let deadline = nextDeadline();
     let attempts = 0;
 
     const sendResult = (status: WakeVerificationStatus, source?: 'arp' | 'ping') => {
+      const elapsedMs = Math.max(0, Date.now() - loopStartedAt);
       const result: WakeVerificationResult = {
         status,
         attempts,
-        elapsedMs: Math.max(0, Date.now() - (Date.now() - timeoutMs + (deadline - Date.now()))),
+        elapsedMs,
         startedAt,
         confirmedAt: status === 'confirmed' ? new Date().toISOString() : null,
         source,
+        ...(steps.length > 0 ? { steps } : {}),
+        ...(status === 'confirmed' && steps.length > 0 ? { confirmedAfterStep: steps.length - 1 } : {}),
       };
-      // Recalculate elapsedMs correctly
-      result.elapsedMs = Math.max(0, Date.now() + timeoutMs - deadline);
 
       this.sendCommandResult('wake', commandId, {
         success: status === 'confirmed',
@@ -1158,59 +1264,74 @@ export class AgentService extends EventEmitter {
           status === 'confirmed'
             ? `Host '${hostName}' confirmed awake via ${source ?? 'unknown'}`
             : status === 'timeout'
-              ? `Wake verification timed out after ${timeoutMs}ms`
+              ? steps.length > 1
+                ? `Wake verification timed out after ${elapsedMs}ms and ${steps.length} wake steps`
+                : `Wake verification timed out after ${timeoutMs}ms`
               : `Wake verification failed`,
         wakeVerification: result,
       });
     };
 
-    while (Date.now() < deadline) {
-      attempts += 1;
-
-      try {
-        // Check 1: Is the host already marked awake in local DB?
-        if (this.hostDb) {
-          const host = await this.hostDb.getHost(hostName);
-          if (host?.status === 'awake') {
-            logger.info('Wake verification confirmed via database', { commandId, hostName, attempts });
-            sendResult('confirmed', 'arp');
-            return;
+    for (;;) {
+      while (Date.now() < deadline) {
+        attempts += 1;
+
+        try {
+          // Check 1: Is the host already marked awake in local DB?
+          // Relayed hosts are not in this node's inventory, so only the ping probe applies.
+          if (this.hostDb && !relayed) {
+            const host = await this.hostDb.getHost(hostName);
+            if (host?.status === 'awake') {
+              logger.info('Wake verification confirmed via database', { commandId, hostName, attempts });
+              sendResult('confirmed', 'arp');
+              return;
+            }
+            // Use the host's IP if we didn't have one originally
+            if (!hostIp && host?.ip) {
+              hostIp = host.ip;
+            }
           }
-          // Use the host's IP if we didn't have one originally
-          if (!hostIp && host?.ip) {
-            hostIp = host.ip;
+
+          // Check 2: Active ping probe
+          if (hostIp) {
+            const alive = await networkDiscovery.isHostAlive(hostIp);
+            if (alive) {
+              logger.info('Wake verification confirmed via ping', { commandId, hostName, hostIp, attempts });
+              sendResult('confirmed', 'ping');
+              return;
+            }
           }
+        } catch (error) {
+          logger.warn('Wake verification poll error', {
+            commandId,
+            hostName,
+            attempt: attempts,
+            error: error instanceof Error ? error.message : String(error),
+          });
         }
 
-        // Check 2: Active ping probe
-        if (hostIp) {
-          const alive = await networkDiscovery.isHostAlive(hostIp);
-          if (alive) {
-            logger.info('Wake verification confirmed via ping', { commandId, hostName, hostIp, attempts });
-            sendResult('confirmed', 'ping');
-            return;
-          }
+        // Wait before next poll, but don't overshoot deadline
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          break;
         }
-      } catch (error) {
-        logger.warn('Wake verification poll error', {
-          commandId,
-          hostName,
-          attempt: attempts,
-          error: error instanceof Error ? error.message : String(error),
-        });
+        await new Promise<void>((resolve) =>
+          setTimeout(resolve, Math.min(pollIntervalMs, remainingMs)),
+        );
       }
 
-      // Wait before next poll, but don't overshoot deadline
-      const remainingMs = deadline - Date.now();
-      if (remainingMs <= 0) {
+      const nextStep = pendingSteps.shift();
+      if (!nextStep || !escalation) {
         break;
       }
-      await new Promise<void>((resolve) =>
-        setTimeout(resolve, Math.min(pollIntervalMs, remainingMs)),
-      );
+
+      const step = await executeWakeStep(nextStep, escalation.target);
+      steps.push(step);
+      logger.info('Wake strategy escalated', { commandId, hostName, step });
+      deadline = nextDeadline();
     }
 
-    logger.info('Wake verification timed out', { commandId, hostName, attempts, timeoutMs });
+    logger.info('Wake verification timed out', { commandId, hostName, attempts, timeoutMs, steps: steps.length });
     sendResult('timeout');
   }
 
@@ -1388,10 +1509,19 @@ export class AgentService extends EventEmitter {
       if (data.powerControl !== undefined) {
         updatePayload.powerControl = data.powerControl;
       }
+      if (data.wakeStrategy !== undefined) {
+        updatePayload.wakeStrategy = data.wakeStrategy;
+      }
 
       await this.hostDb.updateHost(currentName, updatePayload, {
         emitLifecycleEvent: false,
       });
+      if (data.secureOnPassword !== undefined) {
+        await this.hostDb.setSecureOnPassword(data.name, data.secureOnPassword);
+      }
+      if (data.powerControlPassword !== undefined) {
+        await this.hostDb.setPowerControlPassword(data.name, data.powerControlPassword);
+      }
 
       const updated = await this.hostDb.getHost(data.name);
       if (updated) {
@@ -1528,7 +1658,9 @@ export class AgentService extends EventEmitter {
         throw new NonRetryableCommandError(`Host ${hostName} not found`);
       }
 
-      const executionResult = await executeHostPowerAction(host, action);
+      const executionResult = await executeHostPowerAction(host, action, {
+        redfishPassword: await this.hostDb.getPowerControlPassword(host.name),
+      });
       await this.hostDb.updateHostStatus(host.name, 'asleep');
       const refreshed = await this.hostDb.getHost(host.name);
       if (refreshed) {
@@ -1542,6 +1674,90 @@ export class AgentService extends EventEmitter {
     });
   }
 
+  private async handlePowerHostCommand(command: PowerHostCommand): Promise<void> {
+    const { commandId, data } = command;
+    const { hostName, action, confirmation } = data;
+
+    logger.info('Received out-of-band power command from C&C', {
+      commandId,
+      hostName,
+      action,
+    });
+
+    await this.executeCommandWithReliability(command, async () => {
+      if (confirmation !== action) {
+        throw new NonRetryableCommandError(
+          `Invalid ${command.type} payload: confirmation must be '${action}'`
+        );
+      }
+
+      const { hostDb, host } = await this.resolvePowerCommandHost(data);
+
+      const executionResult = await executeOutOfBandPowerAction(
+        host,
+        action,
+        await hostDb.getPowerControlPassword(host.name)
+      );
+      if (action === 'graceful-shutdown' || action === 'force-off') {
+        await hostDb.updateHostStatus(host.name, 'asleep');
+        const refreshed = await hostDb.getHost(host.name);
+        if (refreshed) {
+          this.sendHostUpdated(refreshed);
+        }
+      }
+
+      return {
+        success: true,
+        message: executionResult.message,
+      };
+    });
+  }
+
+  private async handleQueryHostPowerCommand(command: QueryHostPowerCommand): Promise<void> {
+    await this.executeCommandWithReliability(command, async () => {
+      const { hostDb, host } = await this.resolvePowerCommandHost(command.data);
+      const state = await queryHostPowerState(host, await hostDb.getPowerControlPassword(host.name));
+
+      return {
+        success: true,
+        hostPowerState: {
+          hostName: host.name,
+          state,
+          checkedAt: new Date().toISOString(),
+        },
+      };
+    });
+  }
+
+  private async resolvePowerCommandHost(
+    data: { hostName: string; mac: string }
+  ): Promise<{ hostDb: HostDatabase; host: Host }> {
+    if (!this.hostDb) {
+      throw new NonRetryableCommandError('Host database not initialized');
+    }
+
+    const host = (await this.hostDb.getHost(data.hostName)) ?? (await this.hostDb.getHostByMAC(data.mac));
+    if (!host) {
+      throw new NonRetryableCommandError(`Host ${data.hostName} not found`);
+    }
+
+    return { hostDb: this.hostDb, host };
+  }
+
+  /**
+   * The BMC a wake strategy's redfish fallback powers on, or null when the host
+   * has no enabled Redfish power control with a stored password.
+   */
+  private async resolveRedfishConnection(host: Host): Promise<WakeStepTarget['redfish']> {
+    const powerControl = host.powerControl;
+    if (!this.hostDb || powerControl?.transport !== 'redfish' || !powerControl.enabled) {
+      return null;
+    }
+
+    const password = await this.hostDb.getPowerControlPassword(host.name);
+    return password ? { ...powerControl.redfish, password } : null;
+  }
+
   private validateUpdateHostData(data: unknown): ValidatedUpdateHostData {
     if (!data || typeof data !== 'object') {
       throw new Error('Invalid update-host payload: data must be an object');
@@ -1683,6 +1899,49 @@ export class AgentService extends EventEmitter {
       }
     }
 
+    let wakeStrategy: Host['wakeStrategy'] | undefined;
+    if (payload.wakeStrategy !== undefined) {
+      if (payload.wakeStrategy === null) {
+        wakeStrategy = null;
+      } else {
+        const parsedWakeStrategy = hostWakeStrategySchema.safeParse(payload.wakeStrategy);
+        if (!parsedWakeStrategy.success) {
+          const issue = parsedWakeStrategy.error.issues[0];
+          const issuePath = issue && issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+          throw new Error(
+            `Invalid update-host payload: wakeStrategy ${issuePath}${issue?.message ?? 'is invalid'}`
+          );
+        }
+        wakeStrategy = parsedWakeStrategy.data;
+      }
+    }
+
+    let secureOnPassword: string | null | undefined;
+    if (payload.secureOnPassword !== undefined) {
+      if (payload.secureOnPassword !== null && typeof payload.secureOnPassword !== 'string') {
+        throw new Error('Invalid update-host payload: secureOnPassword must be a string or null');
+      }
+      if (typeof payload.secureOnPassword === 'string') {
+        try {
+          parseSecureOnPassword(payload.secureOnPassword);
+        } catch {
+          throw new Error('Invalid update-host payload: secureOnPassword must be 4 or 6 bytes');
+        }
+      }
+      secureOnPassword = payload.secureOnPassword;
+    }
+
+    let powerControlPassword: string | null | undefined;
+    if (payload.powerControlPassword !== undefined) {
+      const parsedPassword = powerControlPasswordSchema.nullable().safeParse(payload.powerControlPassword);
+      if (!parsedPassword.success) {
+        throw new Error(
+          'Invalid update-host payload: powerControlPassword must be a string of 1-255 characters or null'
+        );
+      }
+      powerControlPassword = parsedPassword.data;
+    }
+
     return {
       currentName,
       name,
@@ -1694,6 +1953,9 @@ export class AgentService extends EventEmitter {
       notes,
       tags,
       powerControl,
+      wakeStrategy,
+      secureOnPassword,
+      powerControlPassword,
     };
   }
 }
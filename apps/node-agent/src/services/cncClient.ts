@@ -277,6 +277,12 @@ export class CncClient extends EventEmitter {
         case 'shutdown-host':
           this.emit('command:shutdown-host', message);
           break;
+        case 'power-host':
+          this.emit('command:power-host', message);
+          break;
+        case 'query-host-power':
+          this.emit('command:query-host-power', message);
+          break;
         case 'ping':
           this.handlePing(message.data);
           break;
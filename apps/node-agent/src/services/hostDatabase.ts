@@ -4,6 +4,9 @@ import { mkdirSync } from 'fs';
 import { dirname } from 'path';
 import { logger } from '../utils/logger';
 import * as networkDiscovery from './networkDiscovery';
+import { HostSecretCipher } from './hostSecrets';
+import { parseSecureOnPassword } from './magicPacket';
+import { hostPowerControlSchema, hostWakeStrategySchema } from '@kaonis/woly-protocol';
 import { Host, HostMergeCandidate } from '../types';
 
 /**
@@ -12,7 +15,7 @@ import { Host, HostMergeCandidate } from '../types';
  */
 
 const HOST_SELECT_COLUMNS =
-  'name, mac, secondary_macs as secondaryMacs, ip, status, wol_port as wolPort, lastSeen, discovered, pingResponsive, notes, tags, power_config as powerControl';
+  'name, mac, secondary_macs as secondaryMacs, ip, status, wol_port as wolPort, lastSeen, discovered, pingResponsive, notes, tags, power_config as powerControl, wake_strategy as wakeStrategy';
 
 class HostDatabase extends EventEmitter {
   private db: Database.Database | null = null;
@@ -21,9 +24,12 @@ class HostDatabase extends EventEmitter {
   private ready: Promise<void>;
   private readyResolve!: () => void;
   private readyReject!: (error: Error) => void;
+  private readonly loadSecretKey?: () => Buffer;
+  private secretCipher: HostSecretCipher | null = null;
 
-  constructor(dbPath: string = './db/woly.db') {
+  constructor(dbPath: string = './db/woly.db', options?: { loadSecretKey?: () => Buffer }) {
     super();
+    this.loadSecretKey = options?.loadSecretKey;
     this.ready = new Promise((resolve, reject) => {
       this.readyResolve = resolve;
       this.readyReject = reject;
@@ -39,6 +45,20 @@ class HostDatabase extends EventEmitter {
     return this.db;
   }
 
+  /**
+   * The key is only loaded once a host secret is first read or written.
+   */
+  private getSecretCipher(): HostSecretCipher {
+    if (!this.secretCipher) {
+      if (!this.loadSecretKey) {
+        throw new Error('Host secret storage is not configured');
+      }
+      this.secretCipher = new HostSecretCipher(this.loadSecretKey());
+    }
+
+    return this.secretCipher;
+  }
+
   private parseTags(value: unknown, hostName: string): string[] {
     if (Array.isArray(value)) {
       return value.filter((tag): tag is string => typeof tag === 'string');
@@ -214,6 +234,11 @@ class HostDatabase extends EventEmitter {
       commands?: unknown;
     };
 
+    if (candidate.transport === 'redfish') {
+      const redfish = hostPowerControlSchema.safeParse(parsed);
+      return redfish.success ? redfish.data : undefined;
+    }
+
     if (typeof candidate.enabled !== 'boolean' || candidate.transport !== 'ssh') {
       return undefined;
     }
@@ -328,6 +353,30 @@ class HostDatabase extends EventEmitter {
     return JSON.stringify(powerControl);
   }
 
+  private parseWakeStrategy(value: unknown, hostName: string): Host['wakeStrategy'] | undefined {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      return undefined;
+    }
+
+    try {
+      const parsed = hostWakeStrategySchema.safeParse(JSON.parse(value) as unknown);
+      if (parsed.success) {
+        return parsed.data;
+      }
+      logger.warn('Ignoring invalid host wake strategy metadata', {
+        hostName,
+        error: parsed.error.issues[0]?.message,
+      });
+    } catch (error) {
+      logger.warn('Failed to parse host wake strategy metadata; falling back to undefined', {
+        hostName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return undefined;
+  }
+
   private normalizeHostRow(
     row: Host & { tags?: unknown; wolPort?: unknown; secondaryMacs?: unknown; powerControl?: unknown }
   ): Host {
@@ -336,10 +385,12 @@ class HostDatabase extends EventEmitter {
       tags: rawTags,
       secondaryMacs: rawSecondaryMacs,
       powerControl: rawPowerControl,
+      wakeStrategy: rawWakeStrategy,
       ...base
     } = row;
     const secondaryMacs = this.parseSecondaryMacs(rawSecondaryMacs, base.name, base.mac);
     const powerControl = this.parsePowerControl(rawPowerControl, base.name);
+    const wakeStrategy = this.parseWakeStrategy(rawWakeStrategy, base.name);
 
     return {
       ...base,
@@ -349,6 +400,7 @@ class HostDatabase extends EventEmitter {
       notes: base.notes ?? null,
       tags: this.parseTags(rawTags, base.name),
       ...(powerControl !== undefined ? { powerControl } : {}),
+      ...(wakeStrategy !== undefined ? { wakeStrategy } : {}),
     };
   }
 
@@ -452,7 +504,10 @@ class HostDatabase extends EventEmitter {
       pingResponsive integer,
       notes text,
       tags text NOT NULL DEFAULT '[]',
-      power_config text
+      power_config text,
+      wake_strategy text,
+      wol_password text,
+      power_password text
     )`);
 
     // Keep runtime schema compatible with older databases.
@@ -462,6 +517,9 @@ class HostDatabase extends EventEmitter {
     this.addColumnIfMissing('wol_port integer NOT NULL DEFAULT 9');
     this.addColumnIfMissing("secondary_macs text NOT NULL DEFAULT '[]'");
     this.addColumnIfMissing('power_config text');
+    this.addColumnIfMissing('wake_strategy text');
+    this.addColumnIfMissing('wol_password text');
+    this.addColumnIfMissing('power_password text');
     try {
       db.exec('UPDATE hosts SET wol_port = 9 WHERE wol_port IS NULL');
     } catch (err) {
@@ -680,7 +738,19 @@ class HostDatabase extends EventEmitter {
   updateHost(
     name: string,
     updates: Partial<
-      Pick<Host, 'name' | 'mac' | 'secondaryMacs' | 'ip' | 'wolPort' | 'status' | 'notes' | 'tags' | 'powerControl'>
+      Pick<
+        Host,
+        | 'name'
+        | 'mac'
+        | 'secondaryMacs'
+        | 'ip'
+        | 'wolPort'
+        | 'status'
+        | 'notes'
+        | 'tags'
+        | 'powerControl'
+        | 'wakeStrategy'
+      >
     >,
     options?: { emitLifecycleEvent?: boolean }
   ): Promise<void> {
@@ -702,7 +772,8 @@ class HostDatabase extends EventEmitter {
         updates.status !== undefined ||
         updates.notes !== undefined ||
         updates.tags !== undefined ||
-        updates.powerControl !== undefined;
+        updates.powerControl !== undefined ||
+        updates.wakeStrategy !== undefined;
       if (!hasRequestedUpdate) {
         resolve();
         return;
@@ -733,6 +804,8 @@ class HostDatabase extends EventEmitter {
       const nextTags = updates.tags !== undefined ? updates.tags : (existing.tags ?? []);
       const nextPowerControl =
         updates.powerControl !== undefined ? updates.powerControl : existing.powerControl;
+      const nextWakeStrategy =
+        updates.wakeStrategy !== undefined ? updates.wakeStrategy : existing.wakeStrategy;
 
       const hasMeaningfulChange =
         nextName !== existing.name ||
@@ -743,7 +816,8 @@ class HostDatabase extends EventEmitter {
         nextNotes !== (existing.notes ?? null) ||
         JSON.stringify(nextTags) !== JSON.stringify(existing.tags ?? []) ||
         JSON.stringify(nextSecondaryMacs) !== JSON.stringify(existing.secondaryMacs ?? []) ||
-        JSON.stringify(nextPowerControl ?? null) !== JSON.stringify(existing.powerControl ?? null);
+        JSON.stringify(nextPowerControl ?? null) !== JSON.stringify(existing.powerControl ?? null) ||
+        JSON.stringify(nextWakeStrategy ?? null) !== JSON.stringify(existing.wakeStrategy ?? null);
 
       if (!hasMeaningfulChange) {
         resolve();
@@ -762,7 +836,8 @@ class HostDatabase extends EventEmitter {
                  status = ?,
                  notes = ?,
                  tags = ?,
-                 power_config = ?
+                 power_config = ?,
+                 wake_strategy = ?
              WHERE name = ?`
           )
           .run(
@@ -775,6 +850,7 @@ class HostDatabase extends EventEmitter {
             nextNotes,
             this.serializeTags(nextTags),
             this.serializePowerControl(nextPowerControl),
+            nextWakeStrategy ? JSON.stringify(nextWakeStrategy) : null,
             name
           );
 
@@ -964,6 +1040,55 @@ class HostDatabase extends EventEmitter {
     });
   }
 
+  /**
+   * Store or clear (with null) the encrypted SecureOn password of a host
+   */
+  async setSecureOnPassword(name: string, password: string | null): Promise<void> {
+    const db = this.assertReady();
+    const encrypted =
+      password === null ? null : this.getSecretCipher().encrypt(parseSecureOnPassword(password));
+    const info = db.prepare('UPDATE hosts SET wol_password = ? WHERE name = ?').run(encrypted, name);
+    if (info.changes === 0) {
+      throw new Error(`Host ${name} not found`);
+    }
+  }
+
+  /**
+   * Get the decrypted SecureOn password of a host, or null when none is set
+   */
+  async getSecureOnPassword(name: string): Promise<Buffer | null> {
+    const db = this.assertReady();
+    const row = db.prepare('SELECT wol_password as wolPassword FROM hosts WHERE name = ?').get(name) as
+      | { wolPassword: string | null }
+      | undefined;
+
+    return row?.wolPassword ? this.getSecretCipher().decrypt(row.wolPassword) : null;
+  }
+
+  /**
+   * Store or clear (with null) the encrypted power control (BMC) password of a host
+   */
+  async setPowerControlPassword(name: string, password: string | null): Promise<void> {
+    const db = this.assertReady();
+    const encrypted = password === null ? null : this.getSecretCipher().encrypt(Buffer.from(password, 'utf8'));
+    const info = db.prepare('UPDATE hosts SET power_password = ? WHERE name = ?').run(encrypted, name);
+    if (info.changes === 0) {
+      throw new Error(`Host ${name} not found`);
+    }
+  }
+
+  /**
+   * Get the decrypted power control (BMC) password of a host, or null when none is set
+   */
+  async getPowerControlPassword(name: string): Promise<string | null> {
+    const db = this.assertReady();
+    const row = db.prepare('SELECT power_password as powerPassword FROM hosts WHERE name = ?').get(name) as
+      | { powerPassword: string | null }
+      | undefined;
+
+    return row?.powerPassword ? this.getSecretCipher().decrypt(row.powerPassword).toString('utf8') : null;
+  }
+
   /**
    * Close database connection
    */
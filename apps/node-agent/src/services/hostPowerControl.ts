@@ -1,7 +1,22 @@
 import { execFile as execFileCallback } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { Host, HostPowerAction, HostPowerControlConfig } from '@kaonis/woly-protocol';
+import type {
+  Host,
+  HostOutOfBandPowerAction,
+  HostPowerAction,
+  HostPowerControlConfig,
+  HostPowerControlSshTransportConfig,
+  HostPowerPlatform,
+  HostPowerSshStrictHostKeyChecking,
+  HostPowerState,
+} from '@kaonis/woly-protocol';
 import { logger } from '../utils/logger';
+import {
+  getRedfishPowerState,
+  resetRedfishSystem,
+  type RedfishConnection,
+  type RedfishResetType,
+} from './redfishClient';
 
 const execFile = promisify(execFileCallback);
 
@@ -10,7 +25,7 @@ const SSH_CONNECT_TIMEOUT_SECONDS = 10;
 const SSH_EXEC_TIMEOUT_MS = 30_000;
 const SSH_MAX_BUFFER_BYTES = 256 * 1024;
 
-const DEFAULT_HOST_POWER_COMMANDS: Record<HostPowerControlConfig['platform'], Record<HostPowerAction, string>> = {
+const DEFAULT_HOST_POWER_COMMANDS: Record<HostPowerPlatform, Record<HostPowerAction, string>> = {
   linux: {
     sleep: 'systemctl suspend',
     shutdown: 'shutdown -h now',
@@ -25,12 +40,19 @@ const DEFAULT_HOST_POWER_COMMANDS: Record<HostPowerControlConfig['platform'], Re
   },
 };
 
-const HOST_KEY_CHECKING_ARGS: Record<NonNullable<HostPowerControlConfig['ssh']['strictHostKeyChecking']>, string[]> = {
+const HOST_KEY_CHECKING_ARGS: Record<HostPowerSshStrictHostKeyChecking, string[]> = {
   enforce: ['-o', 'StrictHostKeyChecking=yes'],
   'accept-new': ['-o', 'StrictHostKeyChecking=accept-new'],
   off: ['-o', 'StrictHostKeyChecking=no'],
 };
 
+const REDFISH_RESET_TYPES: Record<HostOutOfBandPowerAction, RedfishResetType> = {
+  'power-on': 'On',
+  'graceful-shutdown': 'GracefulShutdown',
+  'force-off': 'ForceOff',
+  'power-cycle': 'PowerCycle',
+};
+
 type HostPowerExecutionPlan = {
   target: string;
   sshArgs: string[];
@@ -47,21 +69,40 @@ function resolvePowerConfig(host: Host): HostPowerControlConfig {
     throw new Error(`Power control is disabled for host '${host.name}'`);
   }
 
-  if (powerControl.transport !== 'ssh') {
+  if (powerControl.transport !== 'ssh' && powerControl.transport !== 'redfish') {
     throw new Error(
-      `Unsupported power control transport '${String(powerControl.transport)}' for host '${host.name}'`
+      `Unsupported power control transport '${String((powerControl as { transport?: unknown }).transport)}' ` +
+        `for host '${host.name}'`
     );
   }
 
   return powerControl;
 }
 
+function resolveRedfishConnection(host: Host, password: string | null | undefined): RedfishConnection {
+  const powerControl = resolvePowerConfig(host);
+  if (powerControl.transport !== 'redfish') {
+    throw new Error(
+      `Out-of-band power control is not supported by the ${powerControl.transport} transport for host '${host.name}'`
+    );
+  }
+
+  if (!password) {
+    throw new Error(`Host '${host.name}' does not have Redfish credentials configured`);
+  }
+
+  return { ...powerControl.redfish, password };
+}
+
 export function resolveHostPowerExecutionPlan(host: Host, action: HostPowerAction): HostPowerExecutionPlan {
   if (!host.ip || host.ip.trim().length === 0) {
     throw new Error(`Host '${host.name}' does not have a valid IP address`);
   }
 
   const powerControl = resolvePowerConfig(host);
+  if (powerControl.transport !== 'ssh') {
+    throw new Error(`Host '${host.name}' does not use the SSH power control transport`);
+  }
   const ssh = powerControl.ssh;
 
   if (!ssh.username || ssh.username.trim().length === 0) {
@@ -107,14 +148,34 @@ export function resolveHostPowerExecutionPlan(host: Host, action: HostPowerActio
   };
 }
 
-export async function executeHostPowerAction(host: Host, action: HostPowerAction): Promise<{ message: string }> {
+/**
+ * Runs a sleep or shutdown action over the host's configured transport. The
+ * Redfish transport maps shutdown to a graceful shutdown and has no sleep.
+ */
+export async function executeHostPowerAction(
+  host: Host,
+  action: HostPowerAction,
+  options: { redfishPassword?: string | null } = {}
+): Promise<{ message: string }> {
+  if (host.powerControl?.transport === 'redfish') {
+    if (action !== 'shutdown') {
+      throw new Error(`Power action '${action}' is not supported by the redfish transport for host '${host.name}'`);
+    }
+    const result = await executeOutOfBandPowerAction(host, 'graceful-shutdown', options.redfishPassword);
+    return { message: result.message };
+  }
+
+  return executeSshPowerAction(host, action);
+}
+
+async function executeSshPowerAction(host: Host, action: HostPowerAction): Promise<{ message: string }> {
   const plan = resolveHostPowerExecutionPlan(host, action);
 
   logger.info('Executing host power action over SSH', {
     hostName: host.name,
     action,
     target: plan.target,
-    platform: host.powerControl?.platform,
+    platform: (host.powerControl as HostPowerControlSshTransportConfig | undefined)?.platform,
   });
 
   try {
@@ -144,3 +205,33 @@ export async function executeHostPowerAction(host: Host, action: HostPowerAction
     message: `Remote ${action} command executed for ${host.name}`,
   };
 }
+
+/** Runs a power action through the BMC of a host on the Redfish transport. */
+export async function executeOutOfBandPowerAction(
+  host: Host,
+  action: HostOutOfBandPowerAction,
+  password: string | null | undefined
+): Promise<{ message: string; previousState: HostPowerState }> {
+  const connection = resolveRedfishConnection(host, password);
+
+  logger.info('Executing host power action over Redfish', {
+    hostName: host.name,
+    action,
+    baseUrl: connection.baseUrl,
+  });
+
+  const result = await resetRedfishSystem(connection, REDFISH_RESET_TYPES[action]);
+  return {
+    message: result.skipped
+      ? `Host ${host.name} is already powered on`
+      : `Redfish ${action} requested for ${host.name}`,
+    previousState: result.previousState,
+  };
+}
+
+export async function queryHostPowerState(
+  host: Host,
+  password: string | null | undefined
+): Promise<HostPowerState> {
+  return getRedfishPowerState(resolveRedfishConnection(host, password));
+}
@@ -0,0 +1,64 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Host Secrets
+ * Encrypts per-host secrets such as SecureOn and BMC passwords at rest with AES-256-GCM.
+ */
+
+const PAYLOAD_VERSION = 'v1';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+export class HostSecretCipher {
+  constructor(private readonly key: Buffer) {
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Host secret key must be ${KEY_BYTES} bytes`);
+    }
+  }
+
+  /** Returns `v1:<base64 iv | tag | ciphertext>`. */
+  encrypt(plaintext: Buffer): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return `${PAYLOAD_VERSION}:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')}`;
+  }
+
+  decrypt(payload: string): Buffer {
+    const [version, encoded] = payload.split(':', 2);
+    if (version !== PAYLOAD_VERSION || !encoded) {
+      throw new Error('Unsupported host secret format');
+    }
+
+    const bytes = Buffer.from(encoded, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', this.key, bytes.subarray(0, IV_BYTES));
+    decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  }
+}
+
+/**
+ * Resolves the key from `secret` (hashed to 32 bytes) or, when unset, from
+ * `keyFile`, which is created with a random key on first use.
+ */
+export function loadHostSecretKey(options: { secret?: string; keyFile: string }): Buffer {
+  if (options.secret) {
+    return createHash('sha256').update(options.secret).digest();
+  }
+
+  if (existsSync(options.keyFile)) {
+    const key = Buffer.from(readFileSync(options.keyFile, 'utf8').trim(), 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Host secret key file ${options.keyFile} is invalid`);
+    }
+    return key;
+  }
+
+  const key = randomBytes(KEY_BYTES);
+  mkdirSync(dirname(options.keyFile), { recursive: true });
+  writeFileSync(options.keyFile, `${key.toString('base64')}\n`, { mode: 0o600, flag: 'wx' });
+  return key;
+}
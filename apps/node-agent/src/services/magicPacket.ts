@@ -0,0 +1,102 @@
+import dgram from 'dgram';
+import { isIPv4, isIPv6 } from 'net';
+
+/**
+ * Magic packet builder and sender
+ * A magic packet is 6 bytes of 0xFF, the target MAC repeated 16 times and,
+ * for NICs with SecureOn enabled, a trailing 4- or 6-byte password.
+ */
+
+const MAC_BYTES = 6;
+const MAC_REPETITIONS = 16;
+const HEX_BYTES_PATTERN = /^[0-9A-Fa-f]{2}(?:[:-]?[0-9A-Fa-f]{2})*$/;
+
+export interface SendMagicPacketOptions {
+  address: string;
+  port: number;
+  secureOnPassword?: Buffer | null;
+  /** Packets to send; defaults to 3 as most senders do, since UDP may drop one. */
+  repeat?: number;
+  intervalMs?: number;
+}
+
+function parseHexBytes(value: string): Buffer | null {
+  const trimmed = value.trim();
+  if (!HEX_BYTES_PATTERN.test(trimmed)) {
+    return null;
+  }
+
+  return Buffer.from(trimmed.replace(/[:-]/g, ''), 'hex');
+}
+
+export function parseMacAddress(mac: string): Buffer {
+  const bytes = parseHexBytes(mac);
+  if (!bytes || bytes.length !== MAC_BYTES) {
+    throw new Error(`Malformed MAC address '${mac}'`);
+  }
+
+  return bytes;
+}
+
+/**
+ * Parses a SecureOn password written as 6 hex bytes (`01:02:03:04:05:06`),
+ * 4 hex bytes (`01:02:03:04`) or 4 dotted decimal bytes (`192.168.1.1`).
+ */
+export function parseSecureOnPassword(password: string): Buffer {
+  const trimmed = password.trim();
+  if (isIPv4(trimmed)) {
+    return Buffer.from(trimmed.split('.').map((octet) => Number.parseInt(octet, 10)));
+  }
+
+  const bytes = parseHexBytes(trimmed);
+  if (!bytes || (bytes.length !== 4 && bytes.length !== 6)) {
+    throw new Error('SecureOn password must be 4 or 6 bytes');
+  }
+
+  return bytes;
+}
+
+export function buildMagicPacket(mac: string, secureOnPassword?: Buffer | null): Buffer {
+  const macBytes = parseMacAddress(mac);
+  if (secureOnPassword && secureOnPassword.length !== 4 && secureOnPassword.length !== 6) {
+    throw new Error('SecureOn password must be 4 or 6 bytes');
+  }
+
+  return Buffer.concat([
+    Buffer.alloc(MAC_BYTES, 0xff),
+    ...Array.from({ length: MAC_REPETITIONS }, () => macBytes),
+    ...(secureOnPassword ? [secureOnPassword] : []),
+  ]);
+}
+
+/**
+ * Sends a magic packet over UDP, resolving once every repetition is sent.
+ */
+export async function sendMagicPacket(mac: string, options: SendMagicPacketOptions): Promise<void> {
+  const packet = buildMagicPacket(mac, options.secureOnPassword);
+  const repeat = options.repeat ?? 3;
+  const intervalMs = options.intervalMs ?? 100;
+  const socket = dgram.createSocket(isIPv6(options.address) ? 'udp6' : 'udp4');
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(0, () => {
+        socket.off('error', reject);
+        socket.setBroadcast(true);
+        resolve();
+      });
+    });
+
+    for (let sent = 0; sent < repeat; sent += 1) {
+      if (sent > 0) {
+        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+      }
+      await new Promise<void>((resolve, reject) => {
+        socket.send(packet, options.port, options.address, (error) => (error ? reject(error) : resolve()));
+      });
+    }
+  } finally {
+    socket.close();
+  }
+}
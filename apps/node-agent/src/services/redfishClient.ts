@@ -0,0 +1,141 @@
+import https from 'node:https';
+import axios, { type AxiosInstance } from 'axios';
+import type { HostPowerControlRedfishConfig, HostPowerState } from '@kaonis/woly-protocol';
+
+/**
+ * Redfish client
+ * Minimal DMTF Redfish client for BMC power control: resolves the computer
+ * system, reads its PowerState and posts ComputerSystem.Reset actions.
+ */
+
+const REDFISH_REQUEST_TIMEOUT_MS = 15_000;
+const SYSTEMS_PATH = '/redfish/v1/Systems';
+
+export type RedfishResetType = 'On' | 'GracefulShutdown' | 'ForceOff' | 'PowerCycle';
+
+export type RedfishConnection = HostPowerControlRedfishConfig & { password: string };
+
+type RedfishSystem = {
+  PowerState?: unknown;
+  Actions?: {
+    '#ComputerSystem.Reset'?: {
+      target?: unknown;
+      'ResetType@Redfish.AllowableValues'?: unknown;
+    };
+  };
+};
+
+type RedfishErrorBody = {
+  error?: {
+    message?: unknown;
+    '@Message.ExtendedInfo'?: Array<{ Message?: unknown }>;
+  };
+};
+
+const POWER_STATES: Record<string, HostPowerState> = {
+  On: 'on',
+  Off: 'off',
+  PoweringOn: 'powering-on',
+  PoweringOff: 'powering-off',
+};
+
+function describeRedfishError(status: number, body: unknown): string {
+  const error = (body as RedfishErrorBody | null)?.error;
+  const extended = error?.['@Message.ExtendedInfo']?.[0]?.Message;
+  const detail = typeof extended === 'string' ? extended : typeof error?.message === 'string' ? error.message : '';
+  return `HTTP ${status}${detail ? `: ${detail}` : ''}`;
+}
+
+function createHttpClient(connection: RedfishConnection): AxiosInstance {
+  // Requests carry Basic auth, so never send them in the clear.
+  if (!/^https:\/\//i.test(connection.baseUrl)) {
+    throw new Error('Redfish baseUrl must use https');
+  }
+
+  return axios.create({
+    baseURL: connection.baseUrl.replace(/\/+$/, ''),
+    auth: { username: connection.username, password: connection.password },
+    headers: { Accept: 'application/json', 'OData-Version': '4.0' },
+    timeout: REDFISH_REQUEST_TIMEOUT_MS,
+    maxRedirects: 0,
+    validateStatus: () => true,
+    httpsAgent: new https.Agent({ rejectUnauthorized: connection.verifyTls !== false }),
+  });
+}
+
+async function request<T>(
+  http: AxiosInstance,
+  method: 'GET' | 'POST',
+  path: string,
+  data?: unknown
+): Promise<T> {
+  let response;
+  try {
+    response = await http.request<T>({ method, url: path, data });
+  } catch (error) {
+    throw new Error(
+      `Redfish ${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+
+  if (response.status >= 400) {
+    throw new Error(`Redfish ${method} ${path} failed: ${describeRedfishError(response.status, response.data)}`);
+  }
+
+  return response.data;
+}
+
+async function resolveSystem(
+  http: AxiosInstance,
+  connection: RedfishConnection
+): Promise<{ path: string; system: RedfishSystem }> {
+  let path = connection.systemId ? `${SYSTEMS_PATH}/${connection.systemId}` : null;
+  if (!path) {
+    const collection = await request<{ Members?: Array<{ '@odata.id'?: unknown }> }>(http, 'GET', SYSTEMS_PATH);
+    const member = collection.Members?.[0]?.['@odata.id'];
+    if (typeof member !== 'string' || !member.startsWith(`${SYSTEMS_PATH}/`)) {
+      throw new Error('Redfish service does not list any computer systems');
+    }
+    path = member;
+  }
+
+  return { path, system: await request<RedfishSystem>(http, 'GET', path) };
+}
+
+function toPowerState(value: unknown): HostPowerState {
+  return typeof value === 'string' ? POWER_STATES[value] ?? 'unknown' : 'unknown';
+}
+
+export async function getRedfishPowerState(connection: RedfishConnection): Promise<HostPowerState> {
+  const { system } = await resolveSystem(createHttpClient(connection), connection);
+  return toPowerState(system.PowerState);
+}
+
+/**
+ * Posts a ComputerSystem.Reset action and returns the power state the system
+ * reported beforehand. `On` is skipped when the system is already on, since
+ * many BMCs reject it in that state.
+ */
+export async function resetRedfishSystem(
+  connection: RedfishConnection,
+  resetType: RedfishResetType
+): Promise<{ previousState: HostPowerState; skipped: boolean }> {
+  const http = createHttpClient(connection);
+  const { path, system } = await resolveSystem(http, connection);
+  const previousState = toPowerState(system.PowerState);
+  if (resetType === 'On' && previousState === 'on') {
+    return { previousState, skipped: true };
+  }
+
+  const resetAction = system.Actions?.['#ComputerSystem.Reset'];
+  const allowed = resetAction?.['ResetType@Redfish.AllowableValues'];
+  if (Array.isArray(allowed) && !allowed.includes(resetType)) {
+    throw new Error(`Redfish system does not support ResetType ${resetType} (supports ${allowed.join(', ')})`);
+  }
+
+  const target =
+    typeof resetAction?.target === 'string' ? resetAction.target : `${path}/Actions/ComputerSystem.Reset`;
+  await request(http, 'POST', target, { ResetType: resetType });
+  return { previousState, skipped: false };
+}
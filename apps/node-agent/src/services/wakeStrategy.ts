@@ -0,0 +1,176 @@
+import { execFile as execFileCallback } from 'node:child_process';
+import { promisify } from 'node:util';
+import axios from 'axios';
+import {
+  WAKE_FALLBACK_TIMEOUT_MS,
+  type HostWakeStrategy,
+  type WakeFallbackAction,
+  type WakeStep,
+} from '@kaonis/woly-protocol';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { sendMagicPacket } from './magicPacket';
+import { resetRedfishSystem, type RedfishConnection } from './redfishClient';
+
+/**
+ * Wake Strategy
+ * Plans and runs the escalation steps of a host's wake strategy: magic packet
+ * resends, alternate ports, a directed broadcast and finally a power-on action.
+ */
+
+const execFile = promisify(execFileCallback);
+
+const IPMI_MAX_BUFFER_BYTES = 64 * 1024;
+
+export type WakeStepPlan =
+  | { method: 'magic-packet'; address: string; port: number }
+  | { method: 'fallback'; action: WakeFallbackAction };
+
+export interface WakeStepTarget {
+  mac: string;
+  secureOnPassword?: Buffer | null;
+  /** The host's BMC, when its power control uses the Redfish transport. */
+  redfish?: RedfishConnection | null;
+}
+
+/**
+ * Escalation steps that follow the initial magic packet sent to `initial`.
+ * Alternate ports and broadcasts that repeat the initial target are skipped.
+ */
+export function planWakeEscalation(
+  strategy: HostWakeStrategy,
+  initial: { address: string; port: number }
+): WakeStepPlan[] {
+  const plan: WakeStepPlan[] = [];
+
+  for (let resend = 0; resend < (strategy.resendCount ?? 0); resend += 1) {
+    plan.push({ method: 'magic-packet', ...initial });
+  }
+
+  for (const port of new Set(strategy.alternatePorts ?? [])) {
+    if (port !== initial.port) {
+      plan.push({ method: 'magic-packet', address: initial.address, port });
+    }
+  }
+
+  if (strategy.directedBroadcast && strategy.directedBroadcast !== initial.address) {
+    plan.push({ method: 'magic-packet', address: strategy.directedBroadcast, port: initial.port });
+  }
+
+  if (strategy.fallback) {
+    plan.push({ method: 'fallback', action: strategy.fallback });
+  }
+
+  return plan;
+}
+
+/**
+ * Webhook URLs and IPMI addresses come from host configuration, so they are
+ * limited to the hosts listed in `WAKE_FALLBACK_ALLOWED_HOSTS`.
+ */
+function assertFallbackHostAllowed(host: string): void {
+  const normalized = host.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!config.wakeStrategy.fallbackAllowedHosts.includes(normalized)) {
+    throw new Error(`Wake fallback target ${normalized} is not listed in WAKE_FALLBACK_ALLOWED_HOSTS`);
+  }
+}
+
+async function runWebhookFallback(action: Extract<WakeFallbackAction, { type: 'webhook' }>): Promise<void> {
+  assertFallbackHostAllowed(new URL(action.url).hostname);
+  const response = await axios.request({
+    url: action.url,
+    method: action.method ?? (action.body !== undefined ? 'POST' : 'GET'),
+    ...(action.body !== undefined ? { data: action.body } : {}),
+    timeout: WAKE_FALLBACK_TIMEOUT_MS,
+    maxRedirects: 0,
+    validateStatus: () => true,
+  });
+
+  if (response.status >= 400) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+}
+
+async function runIpmiFallback(action: Extract<WakeFallbackAction, { type: 'ipmi' }>): Promise<void> {
+  assertFallbackHostAllowed(action.address);
+  const args = [
+    '-I',
+    action.interface ?? 'lanplus',
+    '-H',
+    action.address,
+    '-U',
+    action.username,
+    '-f',
+    action.passwordFile,
+    'chassis',
+    'power',
+    'on',
+  ];
+
+  try {
+    await execFile('ipmitool', args, {
+      timeout: WAKE_FALLBACK_TIMEOUT_MS,
+      maxBuffer: IPMI_MAX_BUFFER_BYTES,
+      windowsHide: true,
+      encoding: 'utf8',
+    });
+  } catch (error) {
+    const typedError = error as { message?: string; stderr?: string };
+    const stderr = typeof typedError.stderr === 'string' ? typedError.stderr.trim() : '';
+    throw new Error(`ipmitool power on failed: ${stderr || typedError.message || 'unknown error'}`, {
+      cause: error,
+    });
+  }
+}
+
+async function runRedfishFallback(target: WakeStepTarget): Promise<void> {
+  if (!target.redfish) {
+    throw new Error('Host does not have Redfish power control with stored credentials');
+  }
+
+  await resetRedfishSystem(target.redfish, 'On');
+}
+
+export async function runWakeFallback(action: WakeFallbackAction, target: WakeStepTarget): Promise<void> {
+  if (action.type === 'webhook') {
+    await runWebhookFallback(action);
+    return;
+  }
+
+  if (action.type === 'redfish') {
+    await runRedfishFallback(target);
+    return;
+  }
+
+  await runIpmiFallback(action);
+}
+
+/**
+ * Runs one planned step. Failures are recorded on the returned step rather
+ * than thrown, so the escalation can carry on with the next step.
+ */
+export async function executeWakeStep(plan: WakeStepPlan, target: WakeStepTarget): Promise<WakeStep> {
+  const at = new Date().toISOString();
+  const step: WakeStep =
+    plan.method === 'magic-packet'
+      ? { method: 'magic-packet', address: plan.address, port: plan.port, status: 'sent', at }
+      : { method: plan.action.type, status: 'sent', at };
+
+  try {
+    if (plan.method === 'magic-packet') {
+      await sendMagicPacket(target.mac, {
+        address: plan.address,
+        port: plan.port,
+        secureOnPassword: target.secureOnPassword,
+      });
+    } else {
+      await runWakeFallback(plan.action, target);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn('Wake strategy step failed', { method: step.method, error: message });
+    return { ...step, status: 'failed', error: message };
+  }
+
+  return step;
+}
@@ -150,7 +150,7 @@ const options: swaggerJsdoc.Options = {
                 },
                 transport: {
                   type: 'string',
-                  enum: ['ssh'],
+                  enum: ['ssh', 'redfish'],
                 },
                 platform: {
                   type: 'string',
@@ -176,6 +176,47 @@ const options: swaggerJsdoc.Options = {
                     shutdown: { type: 'string', example: 'shutdown -h now' },
                   },
                 },
+                redfish: {
+                  type: 'object',
+                  description: 'BMC reached over the redfish transport; the password is set separately',
+                  properties: {
+                    baseUrl: { type: 'string', pattern: '^https://', example: 'https://10.0.0.50' },
+                    username: { type: 'string', example: 'ADMIN' },
+                    systemId: { type: 'string', example: 'System.Embedded.1' },
+                    verifyTls: { type: 'boolean', example: false },
+                  },
+                  required: ['baseUrl', 'username'],
+                },
+              },
+            },
+            wakeStrategy: {
+              type: 'object',
+              nullable: true,
+              description: 'Optional escalation used when a verified wake times out',
+              properties: {
+                resendCount: { type: 'integer', minimum: 0, maximum: 10, example: 2 },
+                alternatePorts: {
+                  type: 'array',
+                  items: { type: 'integer', minimum: 1, maximum: 65535 },
+                  example: [7],
+                },
+                directedBroadcast: { type: 'string', example: '192.168.1.255' },
+                stepTimeoutMs: { type: 'integer', minimum: 1000, maximum: 120000, example: 15000 },
+                fallback: {
+                  type: 'object',
+                  description: 'Power-on action run as the last step',
+                  properties: {
+                    type: { type: 'string', enum: ['webhook', 'ipmi', 'redfish'] },
+                    url: { type: 'string', example: 'http://plug.local/relay/0?turn=on' },
+                    method: { type: 'string', enum: ['GET', 'POST', 'PUT'] },
+                    body: { type: 'string' },
+                    address: { type: 'string', example: '192.168.1.50' },
+                    username: { type: 'string', example: 'ADMIN' },
+                    passwordFile: { type: 'string', example: '/etc/woly/ipmi-password' },
+                    interface: { type: 'string', enum: ['lan', 'lanplus'] },
+                  },
+                  required: ['type'],
+                },
               },
             },
           },
@@ -105,6 +105,42 @@ describe('hostValidator schemas', () => {
           },
         }).success
       ).toBe(false);
+      expect(updateHostSchema.safeParse({ wakeStrategy: { resendCount: 11 } }).success).toBe(false);
+    });
+
+    it('accepts wake strategy updates and clears', () => {
+      expect(
+        updateHostSchema.safeParse({
+          wakeStrategy: {
+            resendCount: 2,
+            alternatePorts: [7],
+            fallback: { type: 'webhook', url: 'http://plug.local/relay/0?turn=on' },
+          },
+        }).success
+      ).toBe(true);
+      expect(updateHostSchema.safeParse({ wakeStrategy: null }).success).toBe(true);
+    });
+
+    it('accepts Redfish power control and BMC password updates', () => {
+      const redfish = { baseUrl: 'https://10.0.0.50', username: 'ADMIN', systemId: 'System.Embedded.1' };
+      expect(
+        updateHostSchema.safeParse({
+          powerControl: { enabled: true, transport: 'redfish', redfish },
+          powerControlPassword: 'bmc-secret',
+        }).success
+      ).toBe(true);
+      expect(updateHostSchema.safeParse({ powerControlPassword: null }).success).toBe(true);
+      expect(
+        updateHostSchema.safeParse({
+          powerControl: { enabled: true, transport: 'redfish', redfish: { ...redfish, baseUrl: 'ftp://bmc' } },
+        }).success
+      ).toBe(false);
+      expect(
+        updateHostSchema.safeParse({
+          powerControl: { enabled: true, transport: 'redfish', redfish: { ...redfish, baseUrl: 'http://10.0.0.50' } },
+        }).success
+      ).toBe(false);
+      expect(updateHostSchema.safeParse({ powerControlPassword: '' }).success).toBe(false);
     });
   });
 
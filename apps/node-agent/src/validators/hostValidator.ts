@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { isIP } from 'node:net';
+import { hostWakeStrategySchema, powerControlPasswordSchema } from '@kaonis/woly-protocol';
+import { parseSecureOnPassword } from '../services/magicPacket';
 
 /**
  * MAC address validation pattern
@@ -14,6 +16,17 @@ const hostNotesSchema = z
 const hostTagsSchema = z
   .array(z.string().min(1, 'Tags cannot be empty').max(64, 'Tags must not exceed 64 characters').trim())
   .max(32, 'Tags must not exceed 32 entries');
+const secureOnPasswordSchema = z.string().refine(
+  (value) => {
+    try {
+      parseSecureOnPassword(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'SecureOn password must be 4 or 6 bytes (XX:XX:XX:XX[:XX:XX] or a.b.c.d)' }
+);
 const wolPortSchema = z
   .number()
   .int('WoL port must be an integer')
@@ -24,7 +37,7 @@ const sshPortSchema = z
   .int('SSH port must be an integer')
   .min(1, 'SSH port must be between 1 and 65535')
   .max(65_535, 'SSH port must be between 1 and 65535');
-const hostPowerControlSchema = z
+const sshPowerControlSchema = z
   .object({
     enabled: z.boolean(),
     transport: z.literal('ssh'),
@@ -65,6 +78,33 @@ const hostPowerControlSchema = z
       .optional(),
   })
   .strict();
+const redfishPowerControlSchema = z
+  .object({
+    enabled: z.boolean(),
+    transport: z.literal('redfish'),
+    redfish: z
+      .object({
+        baseUrl: z
+          .string()
+          .url('powerControl.redfish.baseUrl must be an https URL')
+          .regex(/^https:\/\//i, 'powerControl.redfish.baseUrl must be an https URL')
+          .max(2_048, 'powerControl.redfish.baseUrl must not exceed 2048 characters'),
+        username: z
+          .string()
+          .min(1, 'powerControl.redfish.username is required')
+          .max(255, 'powerControl.redfish.username must not exceed 255 characters')
+          .trim(),
+        systemId: z
+          .string()
+          .regex(/^[A-Za-z0-9._-]+$/, 'powerControl.redfish.systemId must be a Redfish resource id')
+          .max(255, 'powerControl.redfish.systemId must not exceed 255 characters')
+          .optional(),
+        verifyTls: z.boolean().optional(),
+      })
+      .strict(),
+  })
+  .strict();
+const hostPowerControlSchema = z.discriminatedUnion('transport', [sshPowerControlSchema, redfishPowerControlSchema]);
 
 /**
  * Schema for validating MAC address parameter
@@ -117,6 +157,9 @@ export const updateHostSchema = z
     tags: hostTagsSchema.optional(),
     wolPort: wolPortSchema.optional(),
     powerControl: hostPowerControlSchema.nullable().optional(),
+    wakeStrategy: hostWakeStrategySchema.nullable().optional(),
+    secureOnPassword: secureOnPasswordSchema.nullable().optional(),
+    powerControlPassword: powerControlPasswordSchema.nullable().optional(),
   })
   .refine((value) =>
       value.name !== undefined ||
@@ -126,9 +169,13 @@ export const updateHostSchema = z
       value.notes !== undefined ||
       value.tags !== undefined ||
       value.wolPort !== undefined ||
-      value.powerControl !== undefined, {
+      value.powerControl !== undefined ||
+      value.wakeStrategy !== undefined ||
+      value.secureOnPassword !== undefined ||
+      value.powerControlPassword !== undefined, {
     message:
-      'At least one field is required: name, ip, mac, secondaryMacs, notes, tags, wolPort, or powerControl',
+      'At least one field is required: name, ip, mac, secondaryMacs, notes, tags, wolPort, ' +
+      'powerControl, wakeStrategy, secureOnPassword, or powerControlPassword',
   });
 
 /**
@@ -837,6 +837,9 @@ describe('Cross-repo protocol contract', () => {
         url: 'https://example.com/hooks/woly',
         events: ['host.awake'],
         hasSecret: true,
+        enabled: true,
+        format: 'slack',
+        template: '{{hostName}} is {{newStatus}}',
         createdAt: '2026-02-18T08:00:00.000Z',
         updatedAt: '2026-02-18T08:00:00.000Z',
       };
@@ -877,6 +880,7 @@ describe('Cross-repo protocol contract', () => {
       const payload = {
         platform: 'ios',
         token: 'device-token-example-1234',
+        apnsEnvironment: 'sandbox',
         preferences: {
           enabled: true,
           events: ['host.awake', 'scan.complete'],
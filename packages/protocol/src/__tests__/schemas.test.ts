@@ -10,14 +10,32 @@ import {
   deviceRegistrationSchema,
   devicesResponseSchema,
   deleteHostWakeScheduleResponseSchema,
+  createHostGroupRequestSchema,
+  hostBulkOperationRequestSchema,
+  updateHostWakeDependenciesRequestSchema,
+  updateHostWakeRelayRequestSchema,
+  hostWakeRelaySchema,
+  updateWebhookRequestSchema,
+  wakeDependencyStepSchema,
+  wakeDependencyJobSchema,
+  hostBulkOperationResponseSchema,
+  hostGroupActionJobSchema,
+  hostGroupSchema,
+  hostGroupsResponseSchema,
+  updateHostGroupRequestSchema,
   hostPortScanResponseSchema,
   hostStatusHistoryEntrySchema,
   hostStatusHistoryResponseSchema,
   hostSchedulesResponseSchema,
+  scheduleExecutionsResponseSchema,
+  createExceptionCalendarRequestSchema,
+  updateExceptionCalendarRequestSchema,
+  exceptionCalendarsResponseSchema,
   hostUptimeSummarySchema,
   hostWakeScheduleSchema,
   webhookDeliveriesResponseSchema,
   webhookDeliveryLogSchema,
+  webhookDeliveryResultSchema,
   webhookEventTypeSchema,
   webhooksResponseSchema,
   webhookSubscriptionSchema,
@@ -28,6 +46,15 @@ import {
   hostStatusSchema,
   notificationPreferencesResponseSchema,
   notificationPreferencesSchema,
+  authSessionResponseSchema,
+  apiKeySchema,
+  createApiKeyRequestSchema,
+  oidcCodeExchangeRequestSchema,
+  oidcConfigResponseSchema,
+  createUserRequestSchema,
+  grantResourceAccessRequestSchema,
+  resourceAclResponseSchema,
+  updateUserRequestSchema,
   notificationQuietHoursSchema,
   pushNotificationEventTypeSchema,
   pushNotificationPlatformSchema,
@@ -40,6 +67,7 @@ import {
   wakeVerificationStatusSchema,
   wakeVerificationResultSchema,
   wakeVerifyOptionsSchema,
+  auditLogResponseSchema,
   PROTOCOL_VERSION,
 } from '../index';
 
@@ -95,6 +123,84 @@ describe('hostSchema', () => {
     expect(hostSchema.safeParse({ ...validHost, wolPort: 70000 }).success).toBe(false);
   });
 
+  it('accepts a wake strategy with webhook and ipmi fallbacks', () => {
+    const wakeStrategy = {
+      resendCount: 2,
+      alternatePorts: [7, 9],
+      directedBroadcast: '192.168.1.255',
+      stepTimeoutMs: 10_000,
+      fallback: { type: 'webhook', url: 'http://plug.local/relay/0?turn=on', method: 'GET' },
+    };
+    expect(hostSchema.safeParse({ ...validHost, wakeStrategy }).success).toBe(true);
+    expect(
+      hostSchema.safeParse({
+        ...validHost,
+        wakeStrategy: {
+          fallback: {
+            type: 'ipmi',
+            address: '10.0.0.50',
+            username: 'admin',
+            passwordFile: '/etc/woly/bmc.pass',
+          },
+        },
+      }).success
+    ).toBe(true);
+    expect(hostSchema.safeParse({ ...validHost, wakeStrategy: null }).success).toBe(true);
+  });
+
+  it('accepts ssh and redfish power control configs', () => {
+    const redfish = {
+      enabled: true,
+      transport: 'redfish',
+      redfish: { baseUrl: 'https://10.0.0.50', username: 'admin', systemId: 'System.Embedded.1', verifyTls: false },
+    };
+
+    expect(hostSchema.safeParse({ ...validHost, powerControl: redfish }).success).toBe(true);
+    expect(
+      hostSchema.safeParse({
+        ...validHost,
+        powerControl: { enabled: true, transport: 'ssh', platform: 'linux', ssh: { username: 'ops' } },
+      }).success
+    ).toBe(true);
+    expect(
+      hostSchema.safeParse({ ...validHost, wakeStrategy: { fallback: { type: 'redfish' } } }).success
+    ).toBe(true);
+  });
+
+  it('rejects invalid redfish power control configs', () => {
+    for (const redfish of [
+      { baseUrl: 'ftp://10.0.0.50', username: 'admin' },
+      { baseUrl: 'http://10.0.0.50', username: 'admin' },
+      { baseUrl: 'https://10.0.0.50', username: '' },
+      { baseUrl: 'https://10.0.0.50', username: 'admin', systemId: '../Managers' },
+      { baseUrl: 'https://10.0.0.50', username: 'admin', password: 'secret' },
+    ]) {
+      expect(
+        hostSchema.safeParse({ ...validHost, powerControl: { enabled: true, transport: 'redfish', redfish } }).success
+      ).toBe(false);
+    }
+    expect(
+      hostSchema.safeParse({
+        ...validHost,
+        powerControl: { enabled: true, transport: 'redfish', platform: 'linux', ssh: { username: 'ops' } },
+      }).success
+    ).toBe(false);
+  });
+
+  it('rejects invalid wake strategies', () => {
+    for (const wakeStrategy of [
+      { resendCount: 11 },
+      { alternatePorts: [0] },
+      { directedBroadcast: 'lan.local' },
+      { stepTimeoutMs: 500 },
+      { fallback: { type: 'webhook', url: 'file:///etc/passwd' } },
+      { fallback: { type: 'ipmi', address: '10.0.0.50', username: 'admin' } },
+      { fallback: { type: 'script', command: 'poweron' } },
+    ]) {
+      expect(hostSchema.safeParse({ ...validHost, wakeStrategy }).success).toBe(false);
+    }
+  });
+
   it('accepts host with null pingResponsive', () => {
     expect(hostSchema.safeParse({ ...validHost, pingResponsive: null }).success).toBe(true);
   });
@@ -278,6 +384,26 @@ describe('wakeVerificationResultSchema', () => {
     ).toBe(true);
   });
 
+  it('accepts the wake steps that ran and the step that woke the host', () => {
+    expect(
+      wakeVerificationResultSchema.safeParse({
+        ...validResult,
+        steps: [
+          { method: 'magic-packet', address: '255.255.255.255', port: 9, status: 'sent', at: validResult.startedAt },
+          { method: 'webhook', status: 'failed', error: 'HTTP 500', at: '2026-02-18T00:00:10.000Z' },
+          { method: 'ipmi', status: 'sent', at: '2026-02-18T00:00:20.000Z' },
+        ],
+        confirmedAfterStep: 2,
+      }).success
+    ).toBe(true);
+    expect(
+      wakeVerificationResultSchema.safeParse({
+        ...validResult,
+        steps: [{ method: 'smoke-signal', status: 'sent', at: validResult.startedAt }],
+      }).success
+    ).toBe(false);
+  });
+
   it('accepts source "arp"', () => {
     expect(
       wakeVerificationResultSchema.safeParse({
@@ -579,6 +705,19 @@ describe('hostStateStreamEventSchema', () => {
     expect(HOST_STATE_STREAM_MUTATING_EVENT_TYPES).toContain('wake.verified');
   });
 
+  it('accepts host group action events as mutating events', () => {
+    for (const type of ['group.action.started', 'group.action.progress', 'group.action.completed']) {
+      const result = hostStateStreamEventSchema.safeParse({
+        type,
+        changed: true,
+        timestamp: '2026-02-18T00:00:00.000Z',
+        payload: { jobId: 'job-1', groupId: 'group-1', action: 'wake' },
+      });
+
+      expect(result.success).toBe(true);
+    }
+  });
+
   it('rejects unknown host-state stream event types', () => {
     const result = hostStateStreamEventSchema.safeParse({
       type: 'custom.event',
@@ -590,6 +729,347 @@ describe('hostStateStreamEventSchema', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// host groups
+// ---------------------------------------------------------------------------
+
+describe('hostGroupSchema', () => {
+  const validGroup = {
+    id: 'group-1',
+    name: 'Lab',
+    description: null,
+    hostFqns: ['pc-1@lab-node', 'pc-2@office-node'],
+    createdAt: '2026-02-18T00:00:00.000Z',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+
+  it('accepts a group spanning multiple nodes', () => {
+    expect(hostGroupSchema.safeParse(validGroup).success).toBe(true);
+    expect(hostGroupsResponseSchema.safeParse({ groups: [validGroup] }).success).toBe(true);
+  });
+
+  it('rejects members that are not fully qualified names', () => {
+    expect(
+      hostGroupSchema.safeParse({ ...validGroup, hostFqns: ['pc-1'] }).success
+    ).toBe(false);
+  });
+});
+
+describe('createHostGroupRequestSchema', () => {
+  it('accepts a valid create request', () => {
+    expect(
+      createHostGroupRequestSchema.safeParse({
+        name: 'Lab',
+        description: 'Teaching lab machines',
+        hostFqns: ['pc-1@lab-node'],
+      }).success
+    ).toBe(true);
+  });
+
+  it('accepts an empty member list', () => {
+    expect(createHostGroupRequestSchema.safeParse({ name: 'Empty', hostFqns: [] }).success).toBe(true);
+  });
+
+  it('rejects duplicate members', () => {
+    expect(
+      createHostGroupRequestSchema.safeParse({
+        name: 'Lab',
+        hostFqns: ['pc-1@lab-node', 'pc-1@lab-node'],
+      }).success
+    ).toBe(false);
+  });
+
+  it('rejects blank names and unknown fields', () => {
+    expect(createHostGroupRequestSchema.safeParse({ name: '  ', hostFqns: [] }).success).toBe(false);
+    expect(
+      createHostGroupRequestSchema.safeParse({ name: 'Lab', hostFqns: [], extra: true }).success
+    ).toBe(false);
+  });
+});
+
+describe('updateHostGroupRequestSchema', () => {
+  it('accepts a partial update', () => {
+    expect(updateHostGroupRequestSchema.safeParse({ hostFqns: ['pc-3@lab-node'] }).success).toBe(true);
+  });
+
+  it('rejects an empty update', () => {
+    expect(updateHostGroupRequestSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe('hostGroupActionJobSchema', () => {
+  it('accepts an aggregate job with per-host command states', () => {
+    expect(
+      hostGroupActionJobSchema.safeParse({
+        jobId: 'job-1',
+        groupId: 'group-1',
+        action: 'wake',
+        state: 'partial',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:02.000Z',
+        summary: { total: 2, succeeded: 1, failed: 1 },
+        results: [
+          { fqn: 'pc-1@lab-node', state: 'acknowledged', nodeId: 'lab-node', commandId: 'cmd-1' },
+          { fqn: 'pc-2@office-node', state: 'failed', error: 'Host not found: pc-2@office-node' },
+        ],
+        correlationId: 'corr-1',
+      }).success
+    ).toBe(true);
+  });
+
+  it('accepts pending wakes that follow a dependency job', () => {
+    expect(
+      hostGroupActionJobSchema.safeParse({
+        jobId: 'job-1',
+        groupId: 'group-1',
+        action: 'wake',
+        state: 'completed',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:01.000Z',
+        summary: { total: 1, succeeded: 1, failed: 0 },
+        results: [
+          {
+            fqn: 'desktop@home',
+            state: 'pending',
+            nodeId: 'home',
+            dependencyJob: {
+              jobId: 'job_2',
+              fqn: 'desktop@home',
+              state: 'running',
+              prerequisites: ['nas@home'],
+              steps: [],
+              startedAt: '2026-02-18T00:00:00.500Z',
+            },
+          },
+        ],
+      }).success
+    ).toBe(true);
+  });
+
+  it('rejects unknown actions', () => {
+    expect(
+      hostGroupActionJobSchema.safeParse({
+        jobId: 'job-1',
+        groupId: 'group-1',
+        action: 'reboot',
+        state: 'completed',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:02.000Z',
+        summary: { total: 0, succeeded: 0, failed: 0 },
+        results: [],
+      }).success
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// updateHostWakeDependenciesRequestSchema / wakeDependencyStepSchema / wakeDependencyJobSchema
+// ---------------------------------------------------------------------------
+
+describe('updateHostWakeDependenciesRequestSchema', () => {
+  it('accepts unique prerequisite fqns, including an empty list', () => {
+    expect(updateHostWakeDependenciesRequestSchema.safeParse({ dependsOn: ['nas@home'] }).success).toBe(true);
+    expect(updateHostWakeDependenciesRequestSchema.safeParse({ dependsOn: [] }).success).toBe(true);
+  });
+
+  it('rejects duplicates and malformed fqns', () => {
+    expect(
+      updateHostWakeDependenciesRequestSchema.safeParse({ dependsOn: ['nas@home', 'nas@home'] }).success
+    ).toBe(false);
+    expect(updateHostWakeDependenciesRequestSchema.safeParse({ dependsOn: ['nas'] }).success).toBe(false);
+  });
+});
+
+describe('wakeDependencyStepSchema', () => {
+  it('accepts a confirmed prerequisite step with its verification result', () => {
+    expect(
+      wakeDependencyStepSchema.safeParse({
+        fqn: 'nas@home',
+        role: 'prerequisite',
+        status: 'confirmed',
+        nodeId: 'home-node',
+        commandId: 'cmd-1',
+        wakeVerification: {
+          status: 'confirmed',
+          attempts: 3,
+          elapsedMs: 9000,
+          source: 'ping',
+          startedAt: '2026-02-18T00:00:00.000Z',
+          confirmedAt: '2026-02-18T00:00:09.000Z',
+        },
+      }).success
+    ).toBe(true);
+  });
+
+  it('rejects unknown roles', () => {
+    expect(wakeDependencyStepSchema.safeParse({ fqn: 'nas@home', role: 'peer', status: 'sent' }).success).toBe(false);
+  });
+});
+
+describe('wakeDependencyJobSchema', () => {
+  const runningJob = {
+    jobId: 'job_1',
+    fqn: 'desktop@home',
+    state: 'running',
+    prerequisites: ['nas@home'],
+    steps: [],
+    startedAt: '2026-02-18T00:00:00.000Z',
+  };
+
+  it('accepts running and failed jobs', () => {
+    expect(wakeDependencyJobSchema.safeParse(runningJob).success).toBe(true);
+    expect(
+      wakeDependencyJobSchema.safeParse({
+        ...runningJob,
+        state: 'failed',
+        steps: [
+          { fqn: 'nas@home', role: 'prerequisite', status: 'timeout' },
+          { fqn: 'desktop@home', role: 'target', status: 'skipped' },
+        ],
+        completedAt: '2026-02-18T00:02:00.000Z',
+        error: 'Wake dependency nas@home for desktop@home was not confirmed (timeout)',
+      }).success
+    ).toBe(true);
+  });
+
+  it('rejects unknown states', () => {
+    expect(wakeDependencyJobSchema.safeParse({ ...runningJob, state: 'partial' }).success).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// updateHostWakeRelayRequestSchema / hostWakeRelaySchema
+// ---------------------------------------------------------------------------
+
+describe('updateHostWakeRelayRequestSchema', () => {
+  it('accepts a relay node with a directed broadcast or unicast target', () => {
+    expect(
+      updateHostWakeRelayRequestSchema.safeParse({ relayNodeId: 'lab-node', targetAddress: '192.168.20.255' }).success
+    ).toBe(true);
+    expect(
+      updateHostWakeRelayRequestSchema.safeParse({ relayNodeId: 'lab-node', targetAddress: '192.168.20.14' }).success
+    ).toBe(true);
+  });
+
+  it('rejects hostnames, IPv6 and missing relay nodes', () => {
+    expect(
+      updateHostWakeRelayRequestSchema.safeParse({ relayNodeId: 'lab-node', targetAddress: 'nas.local' }).success
+    ).toBe(false);
+    expect(updateHostWakeRelayRequestSchema.safeParse({ relayNodeId: 'lab-node', targetAddress: 'ff02::1' }).success)
+      .toBe(false);
+    expect(updateHostWakeRelayRequestSchema.safeParse({ relayNodeId: '', targetAddress: '10.0.0.255' }).success)
+      .toBe(false);
+  });
+});
+
+describe('hostWakeRelaySchema', () => {
+  it('accepts a stored relay assignment', () => {
+    expect(
+      hostWakeRelaySchema.safeParse({
+        fqn: 'nas@home',
+        relayNodeId: 'lab-node',
+        targetAddress: '192.168.20.255',
+        updatedAt: '2026-02-18T00:00:00.000Z',
+      }).success
+    ).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// hostBulkOperationRequestSchema / hostBulkOperationResponseSchema
+// ---------------------------------------------------------------------------
+
+describe('hostBulkOperationRequestSchema', () => {
+  it('accepts each supported action', () => {
+    const fqns = ['pc-1@lab-node', 'nas@office-node'];
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'wake', fqns, verify: true }).success).toBe(true);
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'ping', fqns }).success).toBe(true);
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'scan-ports', fqns }).success).toBe(true);
+    expect(
+      hostBulkOperationRequestSchema.safeParse({ action: 'update', fqns, update: { tags: ['lab'], notes: null } }).success
+    ).toBe(true);
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'delete', fqns }).success).toBe(true);
+  });
+
+  it('rejects empty, duplicate or malformed fqn lists', () => {
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'ping', fqns: [] }).success).toBe(false);
+    expect(
+      hostBulkOperationRequestSchema.safeParse({ action: 'ping', fqns: ['pc-1@lab', 'pc-1@lab'] }).success
+    ).toBe(false);
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'ping', fqns: ['pc-1'] }).success).toBe(false);
+  });
+
+  it('rejects updates without tags or notes and unknown actions', () => {
+    expect(
+      hostBulkOperationRequestSchema.safeParse({ action: 'update', fqns: ['pc-1@lab'], update: {} }).success
+    ).toBe(false);
+    expect(
+      hostBulkOperationRequestSchema.safeParse({ action: 'update', fqns: ['pc-1@lab'], update: { name: 'x' } }).success
+    ).toBe(false);
+    expect(hostBulkOperationRequestSchema.safeParse({ action: 'sleep', fqns: ['pc-1@lab'] }).success).toBe(false);
+  });
+});
+
+describe('hostBulkOperationResponseSchema', () => {
+  it('accepts per-item results with command states and read payloads', () => {
+    expect(
+      hostBulkOperationResponseSchema.safeParse({
+        action: 'ping',
+        startedAt: '2026-02-18T00:00:00.000Z',
+        completedAt: '2026-02-18T00:00:01.000Z',
+        summary: { total: 2, succeeded: 1, failed: 1 },
+        results: [
+          {
+            fqn: 'pc-1@lab-node',
+            success: true,
+            state: 'acknowledged',
+            nodeId: 'lab-node',
+            ping: {
+              checkedAt: '2026-02-18T00:00:01.000Z',
+              latencyMs: 3,
+              reachable: true,
+              status: 'awake',
+            },
+          },
+          { fqn: 'pc-2@lab-node', success: false, state: 'timed_out', error: 'Command timeout' },
+        ],
+      }).success
+    ).toBe(true);
+  });
+
+  it('accepts pending wakes only with known states', () => {
+    const response = {
+      action: 'wake',
+      startedAt: '2026-02-18T00:00:00.000Z',
+      completedAt: '2026-02-18T00:00:01.000Z',
+      summary: { total: 1, succeeded: 1, failed: 0 },
+      results: [
+        {
+          fqn: 'desktop@home',
+          success: true,
+          state: 'pending',
+          dependencyJob: {
+            jobId: 'job_2',
+            fqn: 'desktop@home',
+            state: 'running',
+            prerequisites: ['nas@home'],
+            steps: [],
+            startedAt: '2026-02-18T00:00:00.500Z',
+          },
+        },
+      ],
+    };
+
+    expect(hostBulkOperationResponseSchema.safeParse(response).success).toBe(true);
+    expect(
+      hostBulkOperationResponseSchema.safeParse({
+        ...response,
+        results: [{ ...response.results[0], state: 'running' }],
+      }).success
+    ).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // hostPortScanResponseSchema
 // ---------------------------------------------------------------------------
@@ -649,7 +1129,7 @@ describe('hostPortScanResponseSchema', () => {
 // ---------------------------------------------------------------------------
 
 describe('scheduleFrequencySchema', () => {
-  it.each(['once', 'daily', 'weekly', 'weekdays', 'weekends'])('accepts "%s"', (frequency) => {
+  it.each(['once', 'daily', 'weekly', 'weekdays', 'weekends', 'cron', 'solar'])('accepts "%s"', (frequency) => {
     expect(scheduleFrequencySchema.safeParse(frequency).success).toBe(true);
   });
 
@@ -677,6 +1157,24 @@ describe('hostWakeScheduleSchema', () => {
     expect(hostWakeScheduleSchema.safeParse(validSchedule).success).toBe(true);
   });
 
+  it('accepts cron and solar schedules with upcoming trigger previews', () => {
+    expect(
+      hostWakeScheduleSchema.safeParse({
+        ...validSchedule,
+        frequency: 'cron',
+        cronExpression: '30 7 * * TUE#2',
+        upcomingTriggers: ['2026-03-10T11:30:00.000Z', '2026-04-14T11:30:00.000Z'],
+      }).success
+    ).toBe(true);
+    expect(
+      hostWakeScheduleSchema.safeParse({
+        ...validSchedule,
+        frequency: 'solar',
+        solar: { event: 'sunset', offsetMinutes: -30, latitude: 40.71, longitude: -74.01 },
+      }).success
+    ).toBe(true);
+  });
+
   it('accepts optional trigger metadata', () => {
     expect(
       hostWakeScheduleSchema.safeParse({
@@ -721,6 +1219,133 @@ describe('hostSchedulesResponseSchema', () => {
   });
 });
 
+describe('scheduleExecutionsResponseSchema', () => {
+  const execution = {
+    id: 1,
+    scheduleId: 'schedule-1',
+    hostFqn: 'Office-Mac@Home',
+    action: 'wake',
+    attemptedAt: '2026-02-15T09:00:00.000Z',
+    outcome: 'failed',
+    commandId: 'cmd-1',
+    commandState: 'acknowledged',
+    correlationId: 'schedule:schedule-1:1771146000000',
+    wakeVerification: {
+      status: 'timeout',
+      attempts: 40,
+      elapsedMs: 120000,
+      startedAt: '2026-02-15T09:00:01.000Z',
+    },
+    error: 'Wake verification timeout',
+    completedAt: '2026-02-15T09:02:01.000Z',
+  };
+
+  it('accepts execution history payloads', () => {
+    expect(
+      scheduleExecutionsResponseSchema.safeParse({ scheduleId: 'schedule-1', executions: [execution] }).success
+    ).toBe(true);
+    expect(
+      scheduleExecutionsResponseSchema.safeParse({
+        scheduleId: 'schedule-1',
+        executions: [
+          {
+            ...execution,
+            outcome: 'pending',
+            commandState: null,
+            wakeVerification: null,
+            error: null,
+            completedAt: null,
+          },
+        ],
+      }).success
+    ).toBe(true);
+  });
+
+  it('rejects unknown outcomes', () => {
+    expect(
+      scheduleExecutionsResponseSchema.safeParse({
+        scheduleId: 'schedule-1',
+        executions: [{ ...execution, outcome: 'skipped' }],
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('exception calendar schemas', () => {
+  it('accepts date lists with optional labels and rejects impossible dates', () => {
+    expect(
+      createExceptionCalendarRequestSchema.safeParse({
+        name: 'Office closures',
+        dates: ['2026-12-24', { date: '2026-12-25', label: 'Christmas Day' }],
+      }).success
+    ).toBe(true);
+    expect(
+      createExceptionCalendarRequestSchema.safeParse({ name: 'Bad', dates: ['2026-02-30'] }).success
+    ).toBe(false);
+    expect(
+      createExceptionCalendarRequestSchema.safeParse({ name: 'Bad', dates: ['25/12/2026'] }).success
+    ).toBe(false);
+  });
+
+  it('requires exactly one of dates or ics on create', () => {
+    expect(
+      createExceptionCalendarRequestSchema.safeParse({ name: 'Holidays', ics: 'BEGIN:VCALENDAR' }).success
+    ).toBe(true);
+    expect(createExceptionCalendarRequestSchema.safeParse({ name: 'Holidays' }).success).toBe(false);
+    expect(
+      createExceptionCalendarRequestSchema.safeParse({
+        name: 'Holidays',
+        dates: [],
+        ics: 'BEGIN:VCALENDAR',
+      }).success
+    ).toBe(false);
+    expect(updateExceptionCalendarRequestSchema.safeParse({ description: null }).success).toBe(true);
+    expect(updateExceptionCalendarRequestSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('validates calendar responses and schedule skipped runs', () => {
+    expect(
+      exceptionCalendarsResponseSchema.safeParse({
+        calendars: [
+          {
+            id: 'calendar-1',
+            name: 'Public holidays',
+            source: 'ics',
+            dates: [{ date: '2026-12-25', label: 'Christmas Day' }],
+            createdAt: '2026-10-18T00:00:00.000Z',
+            updatedAt: '2026-10-18T00:00:00.000Z',
+          },
+        ],
+      }).success
+    ).toBe(true);
+    expect(
+      hostWakeScheduleSchema.safeParse({
+        id: 'schedule-1',
+        hostFqn: 'Office-Mac@Home',
+        hostName: 'Office-Mac',
+        hostMac: '00:11:22:33:44:55',
+        scheduledTime: '2026-02-15T09:00:00.000Z',
+        frequency: 'weekdays',
+        enabled: true,
+        notifyOnWake: true,
+        timezone: 'UTC',
+        createdAt: '2026-02-15T00:00:00.000Z',
+        updatedAt: '2026-02-15T00:00:00.000Z',
+        exceptionCalendarIds: ['calendar-1'],
+        skippedRuns: [
+          {
+            scheduledFor: '2026-12-25T09:00:00.000Z',
+            date: '2026-12-25',
+            calendarId: 'calendar-1',
+            calendarName: 'Public holidays',
+            reason: 'Christmas Day',
+          },
+        ],
+      }).success
+    ).toBe(true);
+  });
+});
+
 describe('createHostWakeScheduleRequestSchema', () => {
   it('accepts valid schedule create request', () => {
     expect(
@@ -743,6 +1368,60 @@ describe('createHostWakeScheduleRequestSchema', () => {
       }).success
     ).toBe(false);
   });
+
+  it('requires trigger details matching cron and solar frequencies', () => {
+    const base = { scheduledTime: '2026-02-15T09:00:00.000Z' };
+
+    expect(
+      createHostWakeScheduleRequestSchema.safeParse({
+        ...base,
+        frequency: 'cron',
+        cronExpression: '0 7 * * 1-5',
+        timezone: 'Europe/Berlin',
+      }).success
+    ).toBe(true);
+    expect(
+      createHostWakeScheduleRequestSchema.safeParse({
+        ...base,
+        frequency: 'solar',
+        solar: { event: 'sunrise', offsetMinutes: 15, latitude: 52.52, longitude: 13.4 },
+      }).success
+    ).toBe(true);
+    expect(createHostWakeScheduleRequestSchema.safeParse({ ...base, frequency: 'cron' }).success).toBe(false);
+    expect(createHostWakeScheduleRequestSchema.safeParse({ ...base, frequency: 'solar' }).success).toBe(false);
+    expect(
+      createHostWakeScheduleRequestSchema.safeParse({
+        ...base,
+        frequency: 'daily',
+        cronExpression: '0 7 * * *',
+      }).success
+    ).toBe(false);
+  });
+
+  it('accepts scheduled power actions and rejects unknown actions', () => {
+    const base = { scheduledTime: '2026-02-15T19:00:00.000Z', frequency: 'weekdays' };
+
+    expect(createHostWakeScheduleRequestSchema.safeParse({ ...base, action: 'sleep' }).success).toBe(true);
+    expect(createHostWakeScheduleRequestSchema.safeParse({ ...base, action: 'shutdown' }).success).toBe(true);
+    expect(createHostWakeScheduleRequestSchema.safeParse({ ...base, action: 'reboot' }).success).toBe(false);
+  });
+
+  it('rejects out-of-range solar coordinates and offsets', () => {
+    const base = { scheduledTime: '2026-02-15T09:00:00.000Z', frequency: 'solar' };
+
+    expect(
+      createHostWakeScheduleRequestSchema.safeParse({
+        ...base,
+        solar: { event: 'sunrise', offsetMinutes: 0, latitude: 91, longitude: 0 },
+      }).success
+    ).toBe(false);
+    expect(
+      createHostWakeScheduleRequestSchema.safeParse({
+        ...base,
+        solar: { event: 'sunset', offsetMinutes: 721, latitude: 0, longitude: 0 },
+      }).success
+    ).toBe(false);
+  });
 });
 
 describe('updateHostWakeScheduleRequestSchema', () => {
@@ -757,6 +1436,22 @@ describe('updateHostWakeScheduleRequestSchema', () => {
   it('rejects empty update request', () => {
     expect(updateHostWakeScheduleRequestSchema.safeParse({}).success).toBe(false);
   });
+
+  it('accepts action-only updates', () => {
+    expect(updateHostWakeScheduleRequestSchema.safeParse({ action: 'shutdown' }).success).toBe(true);
+  });
+
+  it('rejects trigger details that contradict the updated frequency', () => {
+    expect(
+      updateHostWakeScheduleRequestSchema.safeParse({ cronExpression: '0 8 * * *' }).success
+    ).toBe(true);
+    expect(
+      updateHostWakeScheduleRequestSchema.safeParse({
+        frequency: 'weekly',
+        cronExpression: '0 8 * * *',
+      }).success
+    ).toBe(false);
+  });
 });
 
 describe('deleteHostWakeScheduleResponseSchema', () => {
@@ -861,6 +1556,8 @@ describe('webhookEventTypeSchema', () => {
   it('accepts supported webhook event types', () => {
     expect(webhookEventTypeSchema.safeParse('host.awake').success).toBe(true);
     expect(webhookEventTypeSchema.safeParse('scan.complete').success).toBe(true);
+    expect(webhookEventTypeSchema.safeParse('schedule.failed').success).toBe(true);
+    expect(webhookEventTypeSchema.safeParse('webhook.disabled').success).toBe(true);
   });
 
   it('rejects unknown webhook event types', () => {
@@ -887,6 +1584,31 @@ describe('createWebhookRequestSchema', () => {
       }).success
     ).toBe(false);
   });
+
+  it('accepts templates only with a non-raw format', () => {
+    expect(
+      createWebhookRequestSchema.safeParse({
+        url: 'https://hooks.slack.com/services/T000/B000/XXX',
+        events: ['host.awake'],
+        format: 'slack',
+        template: ':sunny: {{hostName}} woke up',
+      }).success
+    ).toBe(true);
+    expect(
+      createWebhookRequestSchema.safeParse({
+        url: 'https://example.com/hooks/woly',
+        events: ['host.awake'],
+        template: '{{hostName}} woke up',
+      }).success
+    ).toBe(false);
+    expect(
+      createWebhookRequestSchema.safeParse({
+        url: 'https://example.com/hooks/woly',
+        events: ['host.awake'],
+        format: 'telegram',
+      }).success
+    ).toBe(false);
+  });
 });
 
 describe('webhookSubscriptionSchema', () => {
@@ -897,6 +1619,9 @@ describe('webhookSubscriptionSchema', () => {
         url: 'https://example.com/hooks/woly',
         events: ['host.awake'],
         hasSecret: true,
+        enabled: true,
+        format: 'slack',
+        template: '{{hostName}} is {{newStatus}}',
         createdAt: '2026-02-18T20:00:00.000Z',
         updatedAt: '2026-02-18T20:00:00.000Z',
       }).success
@@ -914,6 +1639,9 @@ describe('webhooksResponseSchema', () => {
             url: 'https://example.com/hooks/woly',
             events: ['host.awake'],
             hasSecret: false,
+            enabled: false,
+            format: 'raw',
+            template: null,
             createdAt: '2026-02-18T20:00:00.000Z',
             updatedAt: '2026-02-18T20:00:00.000Z',
           },
@@ -968,10 +1696,46 @@ describe('webhookDeliveriesResponseSchema', () => {
   });
 });
 
+describe('updateWebhookRequestSchema', () => {
+  it('accepts partial updates, secret rotation and secret removal', () => {
+    expect(updateWebhookRequestSchema.safeParse({ enabled: false }).success).toBe(true);
+    expect(
+      updateWebhookRequestSchema.safeParse({
+        url: 'https://example.com/hooks/woly-v2',
+        events: ['host.awake', 'host.asleep'],
+        secret: 'rotated-secret',
+      }).success
+    ).toBe(true);
+    expect(updateWebhookRequestSchema.safeParse({ secret: null }).success).toBe(true);
+    expect(updateWebhookRequestSchema.safeParse({ format: 'ntfy', template: null }).success).toBe(true);
+  });
+
+  it('rejects empty updates, duplicate events and unknown fields', () => {
+    expect(updateWebhookRequestSchema.safeParse({}).success).toBe(false);
+    expect(updateWebhookRequestSchema.safeParse({ events: ['host.awake', 'host.awake'] }).success).toBe(false);
+    expect(updateWebhookRequestSchema.safeParse({ hasSecret: true }).success).toBe(false);
+  });
+});
+
+describe('webhookDeliveryResultSchema', () => {
+  it('accepts manual delivery results', () => {
+    expect(
+      webhookDeliveryResultSchema.safeParse({
+        webhookId: 'webhook-1',
+        eventType: 'webhook.test',
+        status: 'failed',
+        responseStatus: null,
+        error: 'fetch failed',
+      }).success
+    ).toBe(true);
+  });
+});
+
 describe('pushNotificationEventTypeSchema', () => {
   it('accepts supported push notification event types', () => {
     expect(pushNotificationEventTypeSchema.safeParse('host.awake').success).toBe(true);
     expect(pushNotificationEventTypeSchema.safeParse('node.disconnected').success).toBe(true);
+    expect(pushNotificationEventTypeSchema.safeParse('schedule.failed').success).toBe(true);
   });
 
   it('rejects unsupported push notification event types', () => {
@@ -980,13 +1744,14 @@ describe('pushNotificationEventTypeSchema', () => {
 });
 
 describe('pushNotificationPlatformSchema', () => {
-  it('accepts ios/android', () => {
-    expect(pushNotificationPlatformSchema.safeParse('ios').success).toBe(true);
-    expect(pushNotificationPlatformSchema.safeParse('android').success).toBe(true);
+  it('accepts mobile and self-hosted channels', () => {
+    for (const platform of ['ios', 'android', 'web', 'ntfy', 'email']) {
+      expect(pushNotificationPlatformSchema.safeParse(platform).success).toBe(true);
+    }
   });
 
   it('rejects unsupported platform values', () => {
-    expect(pushNotificationPlatformSchema.safeParse('web').success).toBe(false);
+    expect(pushNotificationPlatformSchema.safeParse('sms').success).toBe(false);
   });
 });
 
@@ -1033,6 +1798,46 @@ describe('notificationPreferencesSchema', () => {
       }).success
     ).toBe(false);
   });
+
+  it('accepts scoped rules and allows empty global events alongside them', () => {
+    expect(
+      notificationPreferencesSchema.safeParse({
+        enabled: true,
+        events: [],
+        rules: [
+          { scope: 'host', target: 'backup@node-1', events: ['host.asleep'], asleepLongerThanMinutes: 120 },
+          { scope: 'tag', target: 'lab', events: ['host.awake', 'host.asleep'], digestMinutes: 30 },
+          { scope: 'group', target: 'group-1', events: [] },
+          { scope: 'node', target: 'node-1', events: ['node.disconnected'] },
+        ],
+      }).success
+    ).toBe(true);
+  });
+
+  it('rejects empty events without rules and malformed rules', () => {
+    expect(notificationPreferencesSchema.safeParse({ enabled: true, events: [] }).success).toBe(false);
+    expect(
+      notificationPreferencesSchema.safeParse({
+        enabled: true,
+        events: ['host.awake'],
+        rules: [{ scope: 'room', target: 'office', events: ['host.awake'] }],
+      }).success
+    ).toBe(false);
+    expect(
+      notificationPreferencesSchema.safeParse({
+        enabled: true,
+        events: ['host.awake'],
+        rules: [{ scope: 'host', target: ' ', events: ['host.awake'] }],
+      }).success
+    ).toBe(false);
+    expect(
+      notificationPreferencesSchema.safeParse({
+        enabled: true,
+        events: ['host.awake'],
+        rules: [{ scope: 'tag', target: 'lab', events: ['host.awake'], digestMinutes: 0 }],
+      }).success
+    ).toBe(false);
+  });
 });
 
 describe('deviceRegistrationRequestSchema', () => {
@@ -1057,6 +1862,63 @@ describe('deviceRegistrationRequestSchema', () => {
       }).success
     ).toBe(false);
   });
+
+  it('validates tokens of web, ntfy and email channels', () => {
+    const webPushKeys = {
+      p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM',
+      auth: 'tBHItJI5svbpez7KI4CCXg',
+    };
+
+    expect(
+      deviceRegistrationRequestSchema.safeParse({
+        platform: 'web',
+        token: 'https://fcm.googleapis.com/fcm/send/abc123',
+        webPushKeys,
+      }).success
+    ).toBe(true);
+    expect(deviceRegistrationRequestSchema.safeParse({ platform: 'ntfy', token: 'woly-alerts' }).success).toBe(true);
+    expect(
+      deviceRegistrationRequestSchema.safeParse({ platform: 'ntfy', token: 'https://ntfy.example.com/woly' }).success
+    ).toBe(true);
+    expect(deviceRegistrationRequestSchema.safeParse({ platform: 'email', token: 'ops@example.com' }).success).toBe(
+      true
+    );
+
+    expect(deviceRegistrationRequestSchema.safeParse({ platform: 'web', token: 'https://push.example.com/x' }).success)
+      .toBe(false);
+    expect(
+      deviceRegistrationRequestSchema.safeParse({ platform: 'ntfy', token: 'woly-alerts', webPushKeys }).success
+    ).toBe(false);
+    expect(deviceRegistrationRequestSchema.safeParse({ platform: 'ntfy', token: 'two words' }).success).toBe(false);
+    expect(deviceRegistrationRequestSchema.safeParse({ platform: 'email', token: 'not-an-address' }).success).toBe(
+      false
+    );
+    expect(deviceRegistrationRequestSchema.safeParse({ platform: 'ios', token: 'short' }).success).toBe(false);
+  });
+
+  it('accepts an APNs environment for iOS devices only', () => {
+    expect(
+      deviceRegistrationRequestSchema.safeParse({
+        platform: 'ios',
+        token: 'token-12345678',
+        apnsEnvironment: 'sandbox',
+      }).success
+    ).toBe(true);
+    expect(
+      deviceRegistrationRequestSchema.safeParse({
+        platform: 'android',
+        token: 'token-12345678',
+        apnsEnvironment: 'sandbox',
+      }).success
+    ).toBe(false);
+    expect(
+      deviceRegistrationRequestSchema.safeParse({
+        platform: 'ios',
+        token: 'token-12345678',
+        apnsEnvironment: 'development',
+      }).success
+    ).toBe(false);
+  });
 });
 
 describe('deviceRegistrationSchema', () => {
@@ -1067,6 +1929,7 @@ describe('deviceRegistrationSchema', () => {
         userId: 'operator-1',
         platform: 'ios',
         token: 'device-token-example-1234',
+        apnsEnvironment: 'production',
         createdAt: '2026-02-18T20:00:00.000Z',
         updatedAt: '2026-02-18T20:00:00.000Z',
         lastSeenAt: '2026-02-18T20:00:00.000Z',
@@ -1121,6 +1984,180 @@ describe('notificationPreferencesResponseSchema', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// User account and resource ACL schemas
+// ---------------------------------------------------------------------------
+
+describe('user account schemas', () => {
+  const user = {
+    id: 'user-1',
+    username: 'alice',
+    role: 'operator',
+    disabled: false,
+    createdAt: '2026-02-18T00:00:00.000Z',
+    updatedAt: '2026-02-18T00:00:00.000Z',
+  };
+
+  it('validates usernames and password length on create', () => {
+    expect(
+      createUserRequestSchema.safeParse({ username: 'alice@home', password: 'correct horse battery' }).success
+    ).toBe(true);
+    expect(createUserRequestSchema.safeParse({ username: 'al', password: 'correct horse battery' }).success).toBe(
+      false
+    );
+    expect(createUserRequestSchema.safeParse({ username: 'alice smith', password: 'correct horse' }).success).toBe(
+      false
+    );
+    expect(createUserRequestSchema.safeParse({ username: 'alice', password: 'short' }).success).toBe(false);
+    expect(
+      createUserRequestSchema.safeParse({ username: 'alice', password: 'correct horse battery', role: 'root' }).success
+    ).toBe(false);
+  });
+
+  it('requires at least one field on update', () => {
+    expect(updateUserRequestSchema.safeParse({ disabled: true }).success).toBe(true);
+    expect(updateUserRequestSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('accepts session responses', () => {
+    expect(
+      authSessionResponseSchema.safeParse({
+        token: 'header.payload.signature',
+        expiresAt: '2026-02-18T01:00:00.000Z',
+        refreshToken: 'refresh-token',
+        refreshExpiresAt: '2026-03-20T00:00:00.000Z',
+        user,
+      }).success
+    ).toBe(true);
+  });
+
+  it('accepts ACL responses and rejects unknown permissions', () => {
+    expect(
+      resourceAclResponseSchema.safeParse({
+        resourceType: 'host',
+        resourceId: 'desktop@home',
+        entries: [
+          {
+            resourceType: 'host',
+            resourceId: 'desktop@home',
+            userId: 'user-1',
+            username: 'alice',
+            permission: 'owner',
+            createdAt: '2026-02-18T00:00:00.000Z',
+          },
+        ],
+      }).success
+    ).toBe(true);
+    expect(grantResourceAccessRequestSchema.safeParse({ userId: 'user-1', permission: 'operate' }).success).toBe(
+      true
+    );
+    expect(grantResourceAccessRequestSchema.safeParse({ userId: 'user-1', permission: 'admin' }).success).toBe(
+      false
+    );
+  });
+
+  it('accepts OIDC config and code exchange payloads', () => {
+    expect(
+      oidcConfigResponseSchema.safeParse({
+        issuer: 'https://idp.example.com/realms/home',
+        clientId: 'woly-mobile',
+        authorizationEndpoint: 'https://idp.example.com/realms/home/auth',
+        scopes: ['openid', 'profile'],
+        codeChallengeMethod: 'S256',
+      }).success
+    ).toBe(true);
+
+    const exchange = {
+      code: 'authorization-code',
+      codeVerifier: 'a'.repeat(43),
+      redirectUri: 'woly://oauth/callback',
+    };
+    expect(oidcCodeExchangeRequestSchema.safeParse(exchange).success).toBe(true);
+    expect(oidcCodeExchangeRequestSchema.safeParse({ ...exchange, codeVerifier: 'short' }).success).toBe(false);
+    expect(oidcCodeExchangeRequestSchema.safeParse({ ...exchange, codeVerifier: `${'a'.repeat(42)}!` }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('API key schemas', () => {
+  it('accepts create requests with scopes and optional host or node limits', () => {
+    expect(
+      createApiKeyRequestSchema.safeParse({
+        name: 'Home Assistant',
+        scopes: ['hosts:read', 'hosts:wake'],
+        hostFqns: ['desktop@home'],
+        expiresAt: '2999-01-01T00:00:00.000Z',
+      }).success
+    ).toBe(true);
+    expect(createApiKeyRequestSchema.safeParse({ name: 'CI', scopes: ['schedules:manage'] }).success).toBe(true);
+  });
+
+  it('rejects unknown, empty or duplicate scopes and past expiry', () => {
+    expect(createApiKeyRequestSchema.safeParse({ name: 'CI', scopes: ['admin'] }).success).toBe(false);
+    expect(createApiKeyRequestSchema.safeParse({ name: 'CI', scopes: [] }).success).toBe(false);
+    expect(
+      createApiKeyRequestSchema.safeParse({ name: 'CI', scopes: ['hosts:read', 'hosts:read'] }).success
+    ).toBe(false);
+    expect(
+      createApiKeyRequestSchema.safeParse({
+        name: 'CI',
+        scopes: ['hosts:read'],
+        expiresAt: '2020-01-01T00:00:00.000Z',
+      }).success
+    ).toBe(false);
+  });
+
+  it('accepts API key metadata', () => {
+    expect(
+      apiKeySchema.safeParse({
+        id: 'key-1',
+        name: 'Home Assistant',
+        prefix: 'woly_AbCdEfG',
+        scopes: ['hosts:wake'],
+        hostFqns: [],
+        nodeIds: ['home-node'],
+        createdBy: 'admin-token',
+        createdAt: '2026-02-18T00:00:00.000Z',
+        expiresAt: null,
+        lastUsedAt: '2026-02-18T01:00:00.000Z',
+        revokedAt: null,
+      }).success
+    ).toBe(true);
+  });
+});
+
+describe('audit log schemas', () => {
+  const entry = {
+    id: 42,
+    occurredAt: '2026-02-18T00:00:00.000Z',
+    actor: 'apikey:key-1',
+    actorRole: 'operator',
+    action: 'host.wake',
+    targetFqn: 'desktop@home',
+    targetNodeId: null,
+    correlationId: 'corr_1',
+    ip: '10.0.0.5',
+    outcome: 'success',
+    statusCode: 200,
+    details: null,
+  };
+
+  it('accepts audit log pages', () => {
+    expect(auditLogResponseSchema.safeParse({ entries: [entry], nextCursor: '42' }).success).toBe(true);
+    expect(auditLogResponseSchema.safeParse({ entries: [], nextCursor: null }).success).toBe(true);
+  });
+
+  it('rejects unknown outcomes and invalid status codes', () => {
+    expect(
+      auditLogResponseSchema.safeParse({ entries: [{ ...entry, outcome: 'partial' }], nextCursor: null }).success
+    ).toBe(false);
+    expect(
+      auditLogResponseSchema.safeParse({ entries: [{ ...entry, statusCode: 0 }], nextCursor: null }).success
+    ).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // outboundNodeMessageSchema (node → C&C)
 // ---------------------------------------------------------------------------
@@ -1340,6 +2377,30 @@ describe('outboundNodeMessageSchema', () => {
       expect(outboundNodeMessageSchema.safeParse(msg).success).toBe(true);
     });
 
+    it('accepts command result with host power state payload', () => {
+      const msg = {
+        type: 'command-result' as const,
+        data: {
+          nodeId: 'node-1',
+          commandId: 'cmd-power-state-1',
+          success: true,
+          hostPowerState: {
+            hostName: 'rack-server',
+            state: 'powering-on' as const,
+            checkedAt: new Date().toISOString(),
+          },
+          timestamp: new Date().toISOString(),
+        },
+      };
+      expect(outboundNodeMessageSchema.safeParse(msg).success).toBe(true);
+      expect(
+        outboundNodeMessageSchema.safeParse({
+          ...msg,
+          data: { ...msg.data, hostPowerState: { ...msg.data.hostPowerState, state: 'On' } },
+        }).success
+      ).toBe(false);
+    });
+
     it('accepts command result with host port scan payload', () => {
       const msg = {
         type: 'command-result' as const,
@@ -1520,6 +2581,29 @@ describe('inboundCncCommandSchema', () => {
       expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(true);
     });
 
+    it('accepts a relayed wake command with a directed broadcast target', () => {
+      const cmd = {
+        type: 'wake' as const,
+        commandId: 'cmd-relay',
+        data: {
+          hostName: 'nas',
+          mac: 'AA:BB:CC:DD:EE:FF',
+          targetAddress: '192.168.20.255',
+          relay: { homeNodeId: 'home-node', hostIp: '192.168.20.14' },
+        },
+      };
+      expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(true);
+    });
+
+    it('rejects wake command with a non-IPv4 target address', () => {
+      const cmd = {
+        type: 'wake' as const,
+        commandId: 'cmd-bad-target',
+        data: { hostName: 'office-pc', mac: 'AA:BB:CC:DD:EE:FF', targetAddress: '192.168.20' },
+      };
+      expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(false);
+    });
+
     it('rejects wake command with invalid wolPort', () => {
       const cmd = {
         type: 'wake' as const,
@@ -1639,6 +2723,28 @@ describe('inboundCncCommandSchema', () => {
       };
       expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(false);
     });
+
+    it('accepts 4- and 6-byte SecureOn passwords and null to clear', () => {
+      for (const secureOnPassword of ['01:02:03:04:05:06', 'a1-b2-c3-d4', '192.168.1.1', null]) {
+        const cmd = {
+          type: 'update-host' as const,
+          commandId: 'cmd-1',
+          data: { name: 'pc', secureOnPassword },
+        };
+        expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(true);
+      }
+    });
+
+    it('rejects SecureOn passwords of other lengths', () => {
+      for (const secureOnPassword of ['01:02:03', '01:02:03:04:05', '01:02:03:04:05:06:07', 'secret']) {
+        const cmd = {
+          type: 'update-host' as const,
+          commandId: 'cmd-1',
+          data: { name: 'pc', secureOnPassword },
+        };
+        expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(false);
+      }
+    });
   });
 
   describe('delete-host', () => {
@@ -1748,6 +2854,50 @@ describe('inboundCncCommandSchema', () => {
     });
   });
 
+  describe('power-host', () => {
+    const powerHost = {
+      type: 'power-host' as const,
+      commandId: 'cmd-power-1',
+      data: {
+        hostName: 'rack-server',
+        mac: 'AA:BB:CC:DD:EE:FF',
+        ip: '192.168.1.30',
+        action: 'power-cycle' as const,
+        confirmation: 'power-cycle' as const,
+      },
+    };
+
+    it('accepts power-host commands whose confirmation matches the action', () => {
+      expect(inboundCncCommandSchema.safeParse(powerHost).success).toBe(true);
+    });
+
+    it('rejects power-host with a mismatched confirmation or unknown action', () => {
+      expect(
+        inboundCncCommandSchema.safeParse({
+          ...powerHost,
+          data: { ...powerHost.data, confirmation: 'force-off' },
+        }).success
+      ).toBe(false);
+      expect(
+        inboundCncCommandSchema.safeParse({
+          ...powerHost,
+          data: { ...powerHost.data, action: 'reboot', confirmation: 'reboot' },
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('query-host-power', () => {
+    it('accepts valid query-host-power command', () => {
+      const cmd = {
+        type: 'query-host-power' as const,
+        commandId: 'cmd-power-state-1',
+        data: { hostName: 'rack-server', mac: 'AA:BB:CC:DD:EE:FF', ip: '192.168.1.30' },
+      };
+      expect(inboundCncCommandSchema.safeParse(cmd).success).toBe(true);
+    });
+  });
+
   describe('ping', () => {
     it('accepts valid ping', () => {
       const cmd = {
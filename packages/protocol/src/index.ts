@@ -18,8 +18,11 @@ export const SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = [
 export type HostStatus = 'awake' | 'asleep';
 export type HostPowerAction = 'sleep' | 'shutdown';
 export type HostPowerPlatform = 'linux' | 'macos' | 'windows';
-export type HostPowerTransport = 'ssh';
+export type HostPowerTransport = 'ssh' | 'redfish';
 export type HostPowerSshStrictHostKeyChecking = 'enforce' | 'accept-new' | 'off';
+/** Out-of-band actions available over a BMC transport such as Redfish. */
+export type HostOutOfBandPowerAction = 'power-on' | 'graceful-shutdown' | 'force-off' | 'power-cycle';
+export type HostPowerState = 'on' | 'off' | 'powering-on' | 'powering-off' | 'unknown';
 
 export interface HostPowerControlSshConfig {
   username: string;
@@ -33,14 +36,82 @@ export interface HostPowerControlCommandOverrides {
   shutdown?: string;
 }
 
-export interface HostPowerControlConfig {
+/**
+ * BMC reached over the Redfish REST API. The password is not part of this
+ * config; it is stored encrypted on the host's node (`powerControlPassword`).
+ */
+export interface HostPowerControlRedfishConfig {
+  /** BMC base URL, e.g. `https://10.0.0.50`; must use HTTPS since requests carry Basic auth. */
+  baseUrl: string;
+  username: string;
+  /** Member of `/redfish/v1/Systems`; defaults to the first one. */
+  systemId?: string;
+  /** Defaults to true; disable for BMCs with self-signed certificates. */
+  verifyTls?: boolean;
+}
+
+export interface HostPowerControlSshTransportConfig {
   enabled: boolean;
-  transport: HostPowerTransport;
+  transport: 'ssh';
   platform: HostPowerPlatform;
   ssh: HostPowerControlSshConfig;
   commands?: HostPowerControlCommandOverrides;
 }
 
+export interface HostPowerControlRedfishTransportConfig {
+  enabled: boolean;
+  transport: 'redfish';
+  redfish: HostPowerControlRedfishConfig;
+}
+
+export type HostPowerControlConfig = HostPowerControlSshTransportConfig | HostPowerControlRedfishTransportConfig;
+
+/** Smart-plug style HTTP request, e.g. a Shelly relay URL or a Home Assistant webhook. */
+export interface WakeFallbackWebhookAction {
+  type: 'webhook';
+  url: string;
+  /** Defaults to POST when a body is set, otherwise GET. */
+  method?: 'GET' | 'POST' | 'PUT';
+  body?: string;
+}
+
+/** `ipmitool chassis power on` against the host's BMC, run on the node. */
+export interface WakeFallbackIpmiAction {
+  type: 'ipmi';
+  address: string;
+  username: string;
+  /** Path on the node to a file holding the BMC password (`ipmitool -f`). */
+  passwordFile: string;
+  interface?: 'lan' | 'lanplus';
+}
+
+/** Power-on through the host's own `redfish` power control configuration. */
+export interface WakeFallbackRedfishAction {
+  type: 'redfish';
+}
+
+export type WakeFallbackAction = WakeFallbackWebhookAction | WakeFallbackIpmiAction | WakeFallbackRedfishAction;
+
+/**
+ * Escalation the node runs while verifying a wake: resend the magic packet,
+ * try alternate ports, then a directed broadcast, then the fallback action.
+ * Each step waits `stepTimeoutMs` for the host before the next one runs.
+ */
+export interface HostWakeStrategy {
+  resendCount?: number;
+  alternatePorts?: number[];
+  directedBroadcast?: string;
+  fallback?: WakeFallbackAction;
+  stepTimeoutMs?: number;
+}
+
+/** How long each escalation step waits for the host when `stepTimeoutMs` is unset. */
+export const DEFAULT_WAKE_STEP_TIMEOUT_MS = 15_000;
+/** Time budget for running a wake fallback action (webhook, IPMI, Redfish). */
+export const WAKE_FALLBACK_TIMEOUT_MS = 30_000;
+/** Slack per escalation step for sending it and for a probe that overruns the step's wait. */
+export const WAKE_STEP_MARGIN_MS = 5_000;
+
 /**
  * Canonical host representation shared across all WoLy apps.
  * Previously named `HostPayload`; the old name is kept as a deprecated alias.
@@ -58,6 +129,7 @@ export interface Host {
   notes?: string | null;
   tags?: string[];
   powerControl?: HostPowerControlConfig | null;
+  wakeStrategy?: HostWakeStrategy | null;
   openPorts?: HostPort[];
   portsScannedAt?: string | null;
   portsExpireAt?: string | null;
@@ -94,6 +166,18 @@ export type CommandState = 'queued' | 'sent' | 'acknowledged' | 'failed' | 'time
 
 export type WakeVerificationStatus = 'pending' | 'confirmed' | 'timeout' | 'failed';
 
+export type WakeStepMethod = 'magic-packet' | WakeFallbackAction['type'];
+
+export interface WakeStep {
+  method: WakeStepMethod;
+  /** Magic packet destination; omitted for fallback actions. */
+  address?: string;
+  port?: number;
+  status: 'sent' | 'failed';
+  error?: string;
+  at: string;
+}
+
 export interface WakeVerificationResult {
   status: WakeVerificationStatus;
   attempts: number;
@@ -101,6 +185,10 @@ export interface WakeVerificationResult {
   source?: 'arp' | 'ping';
   startedAt: string;
   confirmedAt?: string | null;
+  /** Every wake step in the order it ran, starting with the initial magic packet. */
+  steps?: WakeStep[];
+  /** Index into `steps` of the last step before the host was confirmed awake. */
+  confirmedAfterStep?: number;
 }
 
 export interface WakeVerifyOptions {
@@ -160,6 +248,12 @@ export interface CncCapabilitiesResponse {
     wakeVerification?: CncCapabilityDescriptor;
     sleep?: CncCapabilityDescriptor;
     shutdown?: CncCapabilityDescriptor;
+    hostGroups?: CncCapabilityDescriptor;
+    bulkHostOperations?: CncCapabilityDescriptor;
+    wakeDependencies?: CncCapabilityDescriptor;
+    wakeRelay?: CncCapabilityDescriptor;
+    wakeStrategy?: CncCapabilityDescriptor;
+    outOfBandPower?: CncCapabilityDescriptor;
   };
   rateLimits?: CncRateLimits;
 }
@@ -184,7 +278,27 @@ export interface HostPortScanResponse {
   correlationId?: string;
 }
 
-export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'weekdays' | 'weekends';
+export type ScheduleFrequency =
+  | 'once'
+  | 'daily'
+  | 'weekly'
+  | 'weekdays'
+  | 'weekends'
+  | 'cron'
+  | 'solar';
+
+export type ScheduleSolarEvent = 'sunrise' | 'sunset';
+
+/** Command a schedule dispatches when it fires; `sleep`/`shutdown` require host power control. */
+export type ScheduleAction = 'wake' | HostPowerAction;
+
+/** Fires every day at sunrise/sunset for the given coordinates, shifted by `offsetMinutes`. */
+export interface ScheduleSolarTrigger {
+  event: ScheduleSolarEvent;
+  offsetMinutes: number;
+  latitude: number;
+  longitude: number;
+}
 
 export interface HostWakeSchedule {
   id: string;
@@ -193,22 +307,115 @@ export interface HostWakeSchedule {
   hostMac: string;
   scheduledTime: string;
   frequency: ScheduleFrequency;
+  /** Defaults to `wake` when absent (schedules created before actions existed). */
+  action?: ScheduleAction;
   enabled: boolean;
   notifyOnWake: boolean;
   timezone: string;
+  /** Five-field cron expression evaluated in `timezone`; set when frequency is `cron`. */
+  cronExpression?: string;
+  /** Sunrise/sunset trigger; set when frequency is `solar`. */
+  solar?: ScheduleSolarTrigger;
   createdAt: string;
   updatedAt: string;
   lastTriggered?: string;
   nextTrigger?: string;
+  /** Upcoming fire times, included when a single schedule is requested with a preview. */
+  upcomingTriggers?: string[];
+  /** Exception calendars whose dates this schedule does not fire on. */
+  exceptionCalendarIds?: string[];
+  /**
+   * Runs between the last trigger and `nextTrigger` that fall on an excluded
+   * date; present on schedules that reference exception calendars.
+   */
+  skippedRuns?: ScheduleSkippedRun[];
+}
+
+/** A run that was (or will be) skipped because its local date is excluded. */
+export interface ScheduleSkippedRun {
+  scheduledFor: string;
+  /** Local date (`YYYY-MM-DD`) in the schedule timezone. */
+  date: string;
+  calendarId: string;
+  calendarName: string;
+  reason: string;
+}
+
+export interface ExceptionCalendarDate {
+  /** Calendar date (`YYYY-MM-DD`), matched against the schedule's local date. */
+  date: string;
+  label?: string;
+}
+
+export type ExceptionCalendarSource = 'dates' | 'ics';
+
+export interface ExceptionCalendar {
+  id: string;
+  name: string;
+  description?: string;
+  source: ExceptionCalendarSource;
+  dates: ExceptionCalendarDate[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExceptionCalendarsResponse {
+  calendars: ExceptionCalendar[];
+}
+
+/** Provide either `dates` or the contents of an iCalendar file in `ics`. */
+export interface CreateExceptionCalendarRequest {
+  name: string;
+  description?: string;
+  dates?: Array<string | ExceptionCalendarDate>;
+  ics?: string;
+}
+
+/** `dates` or `ics` replaces the calendar's dates. */
+export interface UpdateExceptionCalendarRequest {
+  name?: string;
+  description?: string | null;
+  dates?: Array<string | ExceptionCalendarDate>;
+  ics?: string;
 }
 
 export interface HostSchedulesResponse {
   schedules: HostWakeSchedule[];
 }
 
+/**
+ * `pending` while a scheduled wake awaits verification; `failed` when dispatch
+ * threw or verification did not confirm the host awake.
+ */
+export type ScheduleExecutionOutcome = 'pending' | 'succeeded' | 'failed';
+
+export interface ScheduleExecution {
+  id: number;
+  scheduleId: string;
+  hostFqn: string;
+  action: ScheduleAction;
+  attemptedAt: string;
+  outcome: ScheduleExecutionOutcome;
+  commandId: string | null;
+  commandState: CommandState | null;
+  correlationId: string | null;
+  wakeVerification: WakeVerificationResult | null;
+  error: string | null;
+  completedAt: string | null;
+}
+
+export interface ScheduleExecutionsResponse {
+  scheduleId: string;
+  executions: ScheduleExecution[];
+}
+
 export interface CreateHostWakeScheduleRequest {
   scheduledTime: string;
   frequency: ScheduleFrequency;
+  cronExpression?: string;
+  solar?: ScheduleSolarTrigger;
+  action?: ScheduleAction;
+  exceptionCalendarIds?: string[];
   enabled?: boolean;
   notifyOnWake?: boolean;
   timezone?: string;
@@ -217,6 +424,10 @@ export interface CreateHostWakeScheduleRequest {
 export interface UpdateHostWakeScheduleRequest {
   scheduledTime?: string;
   frequency?: ScheduleFrequency;
+  cronExpression?: string;
+  solar?: ScheduleSolarTrigger;
+  action?: ScheduleAction;
+  exceptionCalendarIds?: string[];
   enabled?: boolean;
   notifyOnWake?: boolean;
   timezone?: string;
@@ -253,6 +464,189 @@ export interface HostUptimeSummary {
   currentStatus: HostStatus;
 }
 
+export type HostGroupAction = 'wake' | 'sleep' | 'shutdown';
+
+export interface HostGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  hostFqns: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface HostGroupsResponse {
+  groups: HostGroup[];
+}
+
+export interface CreateHostGroupRequest {
+  name: string;
+  description?: string | null;
+  hostFqns: string[];
+}
+
+export interface UpdateHostGroupRequest {
+  name?: string;
+  description?: string | null;
+  hostFqns?: string[];
+}
+
+export interface DeleteHostGroupResponse {
+  success: boolean;
+  id: string;
+}
+
+export type HostGroupActionJobState = 'completed' | 'partial' | 'failed';
+
+/**
+ * State of one host in a group action or bulk operation. `pending` means the
+ * host has wake dependencies and is woken by a background job; follow its
+ * `dependencyJob` at `GET /api/hosts/wake-jobs/{jobId}`.
+ */
+export type HostActionItemState = CommandState | 'pending';
+
+export interface HostGroupActionHostResult {
+  fqn: string;
+  state: HostActionItemState;
+  nodeId?: string;
+  commandId?: string;
+  message?: string;
+  error?: string;
+  dependencyJob?: WakeDependencyJob;
+}
+
+export interface HostGroupActionJob {
+  jobId: string;
+  groupId: string;
+  action: HostGroupAction;
+  state: HostGroupActionJobState;
+  startedAt: string;
+  completedAt: string;
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+  results: HostGroupActionHostResult[];
+  correlationId?: string;
+}
+
+export interface HostWakeDependencies {
+  fqn: string;
+  dependsOn: string[];
+}
+
+export interface UpdateHostWakeDependenciesRequest {
+  dependsOn: string[];
+}
+
+/**
+ * Routes a host's magic packets through another node, for hosts on subnets
+ * that their own node cannot broadcast to.
+ */
+export interface HostWakeRelay {
+  fqn: string;
+  relayNodeId: string;
+  /** Directed broadcast (e.g. 192.168.20.255) or unicast IPv4 address the relay node sends to. */
+  targetAddress: string;
+  updatedAt: string;
+}
+
+export interface UpdateHostWakeRelayRequest {
+  relayNodeId: string;
+  targetAddress: string;
+}
+
+/** Set on wake commands sent to a relay node instead of the host's own node. */
+export interface WakeRelayCommandData {
+  /** Node that owns the host; the relay node has no inventory entry for it. */
+  homeNodeId: string;
+  /** Address the relay node pings for wake verification. */
+  hostIp?: string;
+}
+
+export type WakeDependencyStepStatus =
+  | 'already_awake'
+  | 'queued'
+  | 'sent'
+  | 'pending'
+  | 'confirmed'
+  | 'timeout'
+  | 'failed'
+  | 'skipped';
+
+export interface WakeDependencyStep {
+  fqn: string;
+  role: 'prerequisite' | 'target';
+  status: WakeDependencyStepStatus;
+  nodeId?: string;
+  commandId?: string;
+  wakeVerification?: WakeVerificationResult;
+  error?: string;
+}
+
+export type WakeDependencyJobState = 'running' | 'completed' | 'failed';
+
+/**
+ * Background job that wakes a host's prerequisites one at a time and then the
+ * host itself. `steps` grows as the chain advances.
+ */
+export interface WakeDependencyJob {
+  jobId: string;
+  fqn: string;
+  state: WakeDependencyJobState;
+  /** Prerequisite FQNs in wake order. */
+  prerequisites: string[];
+  steps: WakeDependencyStep[];
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+  correlationId?: string;
+}
+
+export type HostBulkAction = 'wake' | 'ping' | 'scan-ports' | 'update' | 'delete';
+
+export type HostBulkOperationRequest =
+  | { action: 'wake'; fqns: string[]; verify?: boolean }
+  | { action: 'ping'; fqns: string[] }
+  | { action: 'scan-ports'; fqns: string[] }
+  | { action: 'update'; fqns: string[]; update: { tags?: string[]; notes?: string | null } }
+  | { action: 'delete'; fqns: string[] };
+
+export interface HostBulkOperationItemResult {
+  fqn: string;
+  success: boolean;
+  state: HostActionItemState;
+  nodeId?: string;
+  commandId?: string;
+  message?: string;
+  error?: string;
+  dependencyJob?: WakeDependencyJob;
+  ping?: {
+    checkedAt: string;
+    latencyMs: number;
+    reachable: boolean;
+    status: 'awake' | 'asleep' | 'unknown';
+  };
+  portScan?: {
+    scannedAt: string;
+    openPorts: HostPort[];
+  };
+}
+
+export interface HostBulkOperationResponse {
+  action: HostBulkAction;
+  startedAt: string;
+  completedAt: string;
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+  results: HostBulkOperationItemResult[];
+  correlationId?: string;
+}
+
 export const WEBHOOK_EVENT_TYPES = [
   'host.awake',
   'host.asleep',
@@ -261,15 +655,27 @@ export const WEBHOOK_EVENT_TYPES = [
   'scan.complete',
   'node.connected',
   'node.disconnected',
+  'schedule.failed',
+  'webhook.test',
+  'webhook.disabled',
 ] as const;
 
 export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
 
+/** `raw` posts the JSON event envelope; the others post a chat message in the service's native payload. */
+export const WEBHOOK_FORMATS = ['raw', 'slack', 'discord', 'msteams', 'ntfy', 'gotify'] as const;
+
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
 export interface WebhookSubscription {
   id: string;
   url: string;
   events: WebhookEventType[];
   hasSecret: boolean;
+  enabled: boolean;
+  format: WebhookFormat;
+  /** Message template with `{{variable}}` placeholders; null uses the per-event default message. */
+  template: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -278,6 +684,18 @@ export interface CreateWebhookRequest {
   url: string;
   events: WebhookEventType[];
   secret?: string;
+  format?: WebhookFormat;
+  template?: string;
+}
+
+/** `secret: null` removes the signing secret and `template: null` restores the default message. */
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WebhookEventType[];
+  secret?: string | null;
+  enabled?: boolean;
+  format?: WebhookFormat;
+  template?: string | null;
 }
 
 export interface WebhooksResponse {
@@ -301,17 +719,37 @@ export interface WebhookDeliveriesResponse {
   deliveries: WebhookDeliveryLog[];
 }
 
+/** Outcome of a single manual delivery (test-fire or redelivery); failures are not retried. */
+export interface WebhookDeliveryResult {
+  webhookId: string;
+  eventType: WebhookEventType;
+  status: 'success' | 'failed';
+  responseStatus: number | null;
+  error: string | null;
+}
+
 export const PUSH_NOTIFICATION_EVENT_TYPES = [
   'host.awake',
   'host.asleep',
   'scan.complete',
   'schedule.wake',
+  'schedule.failed',
   'node.disconnected',
 ] as const;
 
 export type PushNotificationEventType = typeof PUSH_NOTIFICATION_EVENT_TYPES[number];
 
-export type PushNotificationPlatform = 'ios' | 'android';
+/**
+ * Delivery channels a user can register. `ios` and `android` are mobile app
+ * tokens; `web` is a browser Web Push subscription endpoint, `ntfy` a topic
+ * name or topic URL and `email` an address.
+ */
+export const PUSH_NOTIFICATION_PLATFORMS = ['ios', 'android', 'web', 'ntfy', 'email'] as const;
+
+export type PushNotificationPlatform = typeof PUSH_NOTIFICATION_PLATFORMS[number];
+
+/** APNs gateway an iOS device token was issued for; development builds get sandbox tokens. */
+export type ApnsEnvironment = 'production' | 'sandbox';
 
 export interface NotificationQuietHours {
   startHour: number;
@@ -319,15 +757,48 @@ export interface NotificationQuietHours {
   timezone?: string;
 }
 
+export const NOTIFICATION_RULE_SCOPES = ['host', 'tag', 'group', 'node'] as const;
+
+export type NotificationRuleScope = typeof NOTIFICATION_RULE_SCOPES[number];
+
+/**
+ * Preferences for the hosts matching `scope`/`target`. Node-level events
+ * (`scan.complete`, `node.disconnected`) only match `node` rules.
+ */
+export interface NotificationRule {
+  scope: NotificationRuleScope;
+  /** Host FQN, host tag, host group ID or node ID, depending on `scope`. */
+  target: string;
+  /** May be empty to mute the matching hosts. */
+  events: PushNotificationEventType[];
+  /** At most one push per host in this window; later events are sent as one digest when it closes. */
+  digestMinutes?: number;
+  /** Also notify once when a matching host has stayed asleep this long. */
+  asleepLongerThanMinutes?: number;
+}
+
 export interface NotificationPreferences {
   enabled: boolean;
+  /** Events for hosts and nodes that no rule matches. May be empty when `rules` are set. */
   events: PushNotificationEventType[];
   quietHours?: NotificationQuietHours | null;
+  /** Rules matching an event's host or node replace `events` for that event. */
+  rules?: NotificationRule[];
+}
+
+/** `PushSubscription.toJSON().keys` from the browser, base64url encoded. */
+export interface WebPushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
 }
 
 export interface DeviceRegistrationRequest {
   platform: PushNotificationPlatform;
   token: string;
+  /** iOS only; defaults to `production`. */
+  apnsEnvironment?: ApnsEnvironment;
+  /** Required for `web`, where `token` is the subscription endpoint. */
+  webPushKeys?: WebPushSubscriptionKeys;
   preferences?: NotificationPreferences;
 }
 
@@ -336,6 +807,8 @@ export interface DeviceRegistration {
   userId: string;
   platform: PushNotificationPlatform;
   token: string;
+  /** Set for iOS devices only. */
+  apnsEnvironment?: ApnsEnvironment;
   createdAt: string;
   updatedAt: string;
   lastSeenAt: string;
@@ -345,6 +818,11 @@ export interface DevicesResponse {
   devices: DeviceRegistration[];
 }
 
+export interface WebPushPublicKeyResponse {
+  /** VAPID public key to pass as `applicationServerKey` to `pushManager.subscribe()`. */
+  publicKey: string;
+}
+
 export interface DeviceDeregistrationResponse {
   success: boolean;
   token: string;
@@ -355,6 +833,170 @@ export interface NotificationPreferencesResponse {
   preferences: NotificationPreferences;
 }
 
+export type UserRole = 'operator' | 'admin';
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UsersResponse {
+  users: UserAccount[];
+}
+
+export interface CreateUserRequest {
+  username: string;
+  password: string;
+  role?: UserRole;
+}
+
+/** Changing the password or disabling the account revokes its refresh tokens. */
+export interface UpdateUserRequest {
+  password?: string;
+  role?: UserRole;
+  disabled?: boolean;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface RefreshSessionRequest {
+  refreshToken: string;
+}
+
+export interface AuthSessionResponse {
+  token: string;
+  expiresAt: string;
+  refreshToken: string;
+  refreshExpiresAt: string;
+  user: UserAccount;
+}
+
+/** Identity provider settings a client needs to start an authorization code flow with PKCE. */
+export interface OidcConfigResponse {
+  issuer: string;
+  clientId: string;
+  authorizationEndpoint: string;
+  scopes: string[];
+  codeChallengeMethod: 'S256';
+}
+
+/** Authorization code (with its PKCE verifier) to exchange for a C&C JWT. */
+export interface OidcCodeExchangeRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce?: string;
+}
+
+export type AclResourceType = 'node' | 'host';
+
+/** Ordered: `operate` implies `view`, `owner` implies both and may share the resource. */
+export type ResourcePermission = 'view' | 'operate' | 'owner';
+
+export interface ResourceAclEntry {
+  resourceType: AclResourceType;
+  resourceId: string;
+  userId: string;
+  username: string;
+  permission: ResourcePermission;
+  createdAt: string;
+}
+
+export interface ResourceAclResponse {
+  resourceType: AclResourceType;
+  resourceId: string;
+  entries: ResourceAclEntry[];
+}
+
+export interface GrantResourceAccessRequest {
+  userId: string;
+  permission: ResourcePermission;
+}
+
+/**
+ * `hosts:read` covers reading hosts, nodes and schedules; `hosts:wake` allows
+ * wake requests; `schedules:manage` allows creating, editing and deleting schedules.
+ */
+export type ApiKeyScope = 'hosts:read' | 'hosts:wake' | 'schedules:manage';
+
+/** API key metadata; the secret is only returned once, on creation. */
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Leading characters of the key, to recognise it in configuration files. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** When non-empty, the key only reaches these hosts and the hosts of `nodeIds`. */
+  hostFqns: string[];
+  nodeIds: string[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface ApiKeysResponse {
+  apiKeys: ApiKey[];
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  hostFqns?: string[];
+  nodeIds?: string[];
+  expiresAt?: string;
+}
+
+export interface CreateApiKeyResponse extends ApiKey {
+  key: string;
+}
+
+export interface ApiKeyUsageEntry {
+  usedAt: string;
+  method: string;
+  path: string;
+  ip: string | null;
+}
+
+export interface ApiKeyUsageResponse {
+  apiKeyId: string;
+  entries: ApiKeyUsageEntry[];
+}
+
+/** How an audited request ended; `denied` covers 401 and 403 responses. */
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+/** One state-changing request, as recorded in the append-only audit log. */
+export interface AuditLogEntry {
+  id: number;
+  occurredAt: string;
+  /** Authenticated subject (`sub`), e.g. a user id, `oidc:...` or `apikey:...`. */
+  actor: string;
+  actorRole: string | null;
+  action: string;
+  targetFqn: string | null;
+  targetNodeId: string | null;
+  correlationId: string | null;
+  ip: string | null;
+  outcome: AuditOutcome;
+  statusCode: number;
+  details: Record<string, unknown> | null;
+}
+
+export interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  /** Pass as `cursor` to fetch the next (older) page; null on the last page. */
+  nextCursor: string | null;
+}
+
 export interface HostPingResult {
   hostName: string;
   mac: string;
@@ -365,6 +1007,12 @@ export interface HostPingResult {
   checkedAt: string;
 }
 
+export interface HostPowerStateResult {
+  hostName: string;
+  state: HostPowerState;
+  checkedAt: string;
+}
+
 export interface HostPortScanResult {
   hostName: string;
   mac: string;
@@ -385,6 +1033,9 @@ export const HOST_STATE_STREAM_MUTATING_EVENT_TYPES = [
   'node.offline',
   'node.status_changed',
   'wake.verified',
+  'group.action.started',
+  'group.action.progress',
+  'group.action.completed',
 ] as const;
 
 export const HOST_STATE_STREAM_NON_MUTATING_EVENT_TYPES = [
@@ -442,6 +1093,7 @@ export type NodeMessage =
         error?: string;
         hostPing?: HostPingResult;
         hostPortScan?: HostPortScanResult;
+        hostPowerState?: HostPowerStateResult;
         wakeVerification?: WakeVerificationResult;
         timestamp: Date;
       };
@@ -460,7 +1112,15 @@ export type CncCommand =
   | {
       type: 'wake';
       commandId: string;
-      data: { hostName: string; mac: string; wolPort?: number; verify?: WakeVerifyOptions };
+      data: {
+        hostName: string;
+        mac: string;
+        wolPort?: number;
+        verify?: WakeVerifyOptions;
+        /** IPv4 destination for the magic packet; nodes fall back to their configured broadcast address. */
+        targetAddress?: string;
+        relay?: WakeRelayCommandData;
+      };
     }
   | { type: 'scan'; commandId: string; data: { immediate: boolean } }
   | {
@@ -488,6 +1148,11 @@ export type CncCommand =
         notes?: string | null;
         tags?: string[];
         powerControl?: HostPowerControlConfig | null;
+        wakeStrategy?: HostWakeStrategy | null;
+        /** SecureOn password appended to magic packets; `null` clears it. Omitted leaves it unchanged. */
+        secureOnPassword?: string | null;
+        /** BMC password for `redfish` power control; same semantics as `secureOnPassword`. */
+        powerControlPassword?: string | null;
       };
     }
   | { type: 'delete-host'; commandId: string; data: { name: string } }
@@ -520,6 +1185,27 @@ export type CncCommand =
         confirmation: 'shutdown';
       };
     }
+  | {
+      type: 'power-host';
+      commandId: string;
+      data: {
+        hostName: string;
+        mac: string;
+        ip: string;
+        action: HostOutOfBandPowerAction;
+        /** Must repeat `action`, like the sleep/shutdown confirmations. */
+        confirmation: HostOutOfBandPowerAction;
+      };
+    }
+  | {
+      type: 'query-host-power';
+      commandId: string;
+      data: {
+        hostName: string;
+        mac: string;
+        ip: string;
+      };
+    }
   | { type: 'ping'; data: { timestamp: Date } }
   | { type: 'error'; message: string };
 
@@ -534,9 +1220,21 @@ export const hostPortSchema: z.ZodType<HostPort> = z.object({
   service: z.string().min(1),
 });
 export const wolPortSchema = z.number().int().min(1).max(65535);
+
+/**
+ * SecureOn password: 6 bytes in MAC notation (`01:02:03:04:05:06`) or 4 bytes
+ * in hex (`01:02:03:04`) or dotted decimal (`192.168.1.1`) notation.
+ */
+export const secureOnPasswordSchema = z.union([
+  z.string().regex(/^[0-9A-Fa-f]{2}(?:[:-][0-9A-Fa-f]{2}){3}(?:(?:[:-][0-9A-Fa-f]{2}){2})?$/),
+  z.ipv4(),
+]);
 export const hostPowerPlatformSchema = z.enum(['linux', 'macos', 'windows']);
 export const hostPowerSshStrictHostKeyCheckingSchema = z.enum(['enforce', 'accept-new', 'off']);
-export const hostPowerControlSchema: z.ZodType<HostPowerControlConfig> = z
+export const hostOutOfBandPowerActionSchema = z.enum(['power-on', 'graceful-shutdown', 'force-off', 'power-cycle']);
+export const hostPowerStateSchema = z.enum(['on', 'off', 'powering-on', 'powering-off', 'unknown']);
+export const powerControlPasswordSchema = z.string().min(1).max(255);
+const hostPowerControlSshTransportSchema = z
   .object({
     enabled: z.boolean(),
     transport: z.literal('ssh'),
@@ -558,12 +1256,61 @@ export const hostPowerControlSchema: z.ZodType<HostPowerControlConfig> = z
       .optional(),
   })
   .strict();
+const hostPowerControlRedfishTransportSchema = z
+  .object({
+    enabled: z.boolean(),
+    transport: z.literal('redfish'),
+    redfish: z
+      .object({
+        baseUrl: z.string().url().regex(/^https:\/\//i).max(2048),
+        username: z.string().min(1).max(255),
+        systemId: z.string().regex(/^[A-Za-z0-9._-]+$/).max(255).optional(),
+        verifyTls: z.boolean().optional(),
+      })
+      .strict(),
+  })
+  .strict();
+export const hostPowerControlSchema: z.ZodType<HostPowerControlConfig> = z.discriminatedUnion('transport', [
+  hostPowerControlSshTransportSchema,
+  hostPowerControlRedfishTransportSchema,
+]);
 
-export const hostSchema = z.object({
-  name: z.string().min(1),
-  mac: z.string().min(1),
-  secondaryMacs: z.array(z.string().min(1)).max(32).optional(),
-  ip: z.string().min(1),
+export const wakeFallbackActionSchema: z.ZodType<WakeFallbackAction> = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('webhook'),
+      url: z.string().url().regex(/^https?:\/\//i).max(2048),
+      method: z.enum(['GET', 'POST', 'PUT']).optional(),
+      body: z.string().max(4096).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('ipmi'),
+      address: z.string().min(1).max(255),
+      username: z.string().min(1).max(255),
+      passwordFile: z.string().min(1).max(2048),
+      interface: z.enum(['lan', 'lanplus']).optional(),
+    })
+    .strict(),
+  z.object({ type: z.literal('redfish') }).strict(),
+]);
+
+export const hostWakeStrategySchema: z.ZodType<HostWakeStrategy> = z
+  .object({
+    resendCount: z.number().int().min(0).max(10).optional(),
+    alternatePorts: z.array(wolPortSchema).max(4).optional(),
+    directedBroadcast: z.ipv4().optional(),
+    fallback: wakeFallbackActionSchema.optional(),
+    stepTimeoutMs: z.number().int().min(1_000).max(120_000).optional(),
+  })
+  .strict();
+
+export const hostSchema = z.object({
+  name: z.string().min(1),
+  mac: z.string().min(1),
+  secondaryMacs: z.array(z.string().min(1)).max(32).optional(),
+  ip: z.string().min(1),
   wolPort: wolPortSchema.optional(),
   status: hostStatusSchema,
   lastSeen: z.string().nullable(),
@@ -572,6 +1319,7 @@ export const hostSchema = z.object({
   notes: hostNotesSchema.optional(),
   tags: hostTagsSchema.optional(),
   powerControl: hostPowerControlSchema.nullable().optional(),
+  wakeStrategy: hostWakeStrategySchema.nullable().optional(),
   openPorts: z.array(hostPortSchema).optional(),
   portsScannedAt: z.string().min(1).nullable().optional(),
   portsExpireAt: z.string().min(1).nullable().optional(),
@@ -587,8 +1335,23 @@ export const hostPingResultSchema: z.ZodType<HostPingResult> = z.object({
   checkedAt: z.string().min(1),
 });
 
+export const hostPowerStateResultSchema: z.ZodType<HostPowerStateResult> = z.object({
+  hostName: z.string().min(1),
+  state: hostPowerStateSchema,
+  checkedAt: z.string().min(1),
+});
+
 export const wakeVerificationStatusSchema = z.enum(['pending', 'confirmed', 'timeout', 'failed']);
 
+export const wakeStepSchema: z.ZodType<WakeStep> = z.object({
+  method: z.enum(['magic-packet', 'webhook', 'ipmi', 'redfish']),
+  address: z.string().min(1).optional(),
+  port: wolPortSchema.optional(),
+  status: z.enum(['sent', 'failed']),
+  error: z.string().optional(),
+  at: z.string().min(1),
+});
+
 export const wakeVerificationResultSchema: z.ZodType<WakeVerificationResult> = z.object({
   status: wakeVerificationStatusSchema,
   attempts: z.number().int().nonnegative(),
@@ -596,6 +1359,8 @@ export const wakeVerificationResultSchema: z.ZodType<WakeVerificationResult> = z
   source: z.enum(['arp', 'ping']).optional(),
   startedAt: z.string().min(1),
   confirmedAt: z.string().min(1).nullable().optional(),
+  steps: z.array(wakeStepSchema).max(32).optional(),
+  confirmedAfterStep: z.number().int().nonnegative().optional(),
 });
 
 export const wakeVerifyOptionsSchema: z.ZodType<WakeVerifyOptions> = z.object({
@@ -659,6 +1424,12 @@ export const cncCapabilitiesResponseSchema: z.ZodType<CncCapabilitiesResponse> =
     wakeVerification: cncCapabilityDescriptorSchema.optional(),
     sleep: cncCapabilityDescriptorSchema.optional(),
     shutdown: cncCapabilityDescriptorSchema.optional(),
+    hostGroups: cncCapabilityDescriptorSchema.optional(),
+    bulkHostOperations: cncCapabilityDescriptorSchema.optional(),
+    wakeDependencies: cncCapabilityDescriptorSchema.optional(),
+    wakeRelay: cncCapabilityDescriptorSchema.optional(),
+    wakeStrategy: cncCapabilityDescriptorSchema.optional(),
+    outOfBandPower: cncCapabilityDescriptorSchema.optional(),
   }),
   rateLimits: cncRateLimitsSchema.optional(),
 });
@@ -710,7 +1481,59 @@ export const hostStateStreamEventSchema: z.ZodType<HostStateStreamEvent> = z.uni
   }),
 ]);
 
-export const scheduleFrequencySchema = z.enum(['once', 'daily', 'weekly', 'weekdays', 'weekends']);
+export const scheduleFrequencySchema = z.enum([
+  'once',
+  'daily',
+  'weekly',
+  'weekdays',
+  'weekends',
+  'cron',
+  'solar',
+]);
+
+export const scheduleSolarEventSchema = z.enum(['sunrise', 'sunset']);
+
+export const scheduleActionSchema = z.enum(['wake', 'sleep', 'shutdown']);
+
+export const scheduleSolarTriggerSchema: z.ZodType<ScheduleSolarTrigger> = z
+  .object({
+    event: scheduleSolarEventSchema,
+    offsetMinutes: z.number().int().min(-720).max(720),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  })
+  .strict();
+
+export const scheduleCronExpressionSchema = z.string().trim().min(1).max(128);
+
+export const exceptionCalendarDateValueSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+  .refine((value) => {
+    const parsed = new Date(`${value}T00:00:00.000Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+  }, 'Invalid calendar date');
+
+export const exceptionCalendarDateSchema: z.ZodType<ExceptionCalendarDate> = z
+  .object({
+    date: exceptionCalendarDateValueSchema,
+    label: z.string().trim().min(1).max(200).optional(),
+  })
+  .strict();
+
+export const exceptionCalendarSourceSchema = z.enum(['dates', 'ics']);
+
+export const scheduleSkippedRunSchema: z.ZodType<ScheduleSkippedRun> = z
+  .object({
+    scheduledFor: z.string().datetime(),
+    date: exceptionCalendarDateValueSchema,
+    calendarId: z.string().min(1),
+    calendarName: z.string().min(1),
+    reason: z.string().min(1),
+  })
+  .strict();
+
+const scheduleExceptionCalendarIdsSchema = z.array(z.string().min(1)).max(20);
 
 export const hostWakeScheduleSchema: z.ZodType<HostWakeSchedule> = z.object({
   id: z.string().min(1),
@@ -719,33 +1542,89 @@ export const hostWakeScheduleSchema: z.ZodType<HostWakeSchedule> = z.object({
   hostMac: z.string().min(1),
   scheduledTime: z.string().datetime(),
   frequency: scheduleFrequencySchema,
+  action: scheduleActionSchema.optional(),
   enabled: z.boolean(),
   notifyOnWake: z.boolean(),
   timezone: z.string().min(1).max(64),
+  cronExpression: scheduleCronExpressionSchema.optional(),
+  solar: scheduleSolarTriggerSchema.optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
   lastTriggered: z.string().datetime().optional(),
   nextTrigger: z.string().datetime().optional(),
+  upcomingTriggers: z.array(z.string().datetime()).optional(),
+  exceptionCalendarIds: scheduleExceptionCalendarIdsSchema.optional(),
+  skippedRuns: z.array(scheduleSkippedRunSchema).optional(),
 });
 
 export const hostSchedulesResponseSchema: z.ZodType<HostSchedulesResponse> = z.object({
   schedules: z.array(hostWakeScheduleSchema),
 });
 
+export const scheduleExecutionOutcomeSchema = z.enum(['pending', 'succeeded', 'failed']);
+
+export const scheduleExecutionSchema: z.ZodType<ScheduleExecution> = z
+  .object({
+    id: z.number().int().positive(),
+    scheduleId: z.string().min(1),
+    hostFqn: z.string().min(1),
+    action: scheduleActionSchema,
+    attemptedAt: z.string().datetime(),
+    outcome: scheduleExecutionOutcomeSchema,
+    commandId: z.string().min(1).nullable(),
+    commandState: commandStateSchema.nullable(),
+    correlationId: z.string().min(1).nullable(),
+    wakeVerification: wakeVerificationResultSchema.nullable(),
+    error: z.string().nullable(),
+    completedAt: z.string().datetime().nullable(),
+  })
+  .strict();
+
+export const scheduleExecutionsResponseSchema: z.ZodType<ScheduleExecutionsResponse> = z
+  .object({
+    scheduleId: z.string().min(1),
+    executions: z.array(scheduleExecutionSchema),
+  })
+  .strict();
+
 export const createHostWakeScheduleRequestSchema: z.ZodType<CreateHostWakeScheduleRequest> = z
   .object({
     scheduledTime: z.string().datetime(),
     frequency: scheduleFrequencySchema,
+    cronExpression: scheduleCronExpressionSchema.optional(),
+    solar: scheduleSolarTriggerSchema.optional(),
+    action: scheduleActionSchema.optional(),
+    exceptionCalendarIds: scheduleExceptionCalendarIdsSchema.optional(),
     enabled: z.boolean().optional(),
     notifyOnWake: z.boolean().optional(),
     timezone: z.string().min(1).max(64).optional(),
   })
-  .strict();
+  .strict()
+  .refine((value) => value.frequency !== 'cron' || value.cronExpression !== undefined, {
+    message: 'cronExpression is required when frequency is cron',
+    path: ['cronExpression'],
+  })
+  .refine((value) => value.frequency !== 'solar' || value.solar !== undefined, {
+    message: 'solar is required when frequency is solar',
+    path: ['solar'],
+  })
+  .refine((value) => value.cronExpression === undefined || value.frequency === 'cron', {
+    message: 'cronExpression is only allowed when frequency is cron',
+    path: ['cronExpression'],
+  })
+  .refine((value) => value.solar === undefined || value.frequency === 'solar', {
+    message: 'solar is only allowed when frequency is solar',
+    path: ['solar'],
+  });
 
 export const updateHostWakeScheduleRequestSchema: z.ZodType<UpdateHostWakeScheduleRequest> = z
   .object({
     scheduledTime: z.string().datetime().optional(),
     frequency: scheduleFrequencySchema.optional(),
+    cronExpression: scheduleCronExpressionSchema.optional(),
+    solar: scheduleSolarTriggerSchema.optional(),
+    action: scheduleActionSchema.optional(),
+    exceptionCalendarIds: scheduleExceptionCalendarIdsSchema.optional(),
     enabled: z.boolean().optional(),
     notifyOnWake: z.boolean().optional(),
     timezone: z.string().min(1).max(64).optional(),
@@ -753,6 +1632,76 @@ export const updateHostWakeScheduleRequestSchema: z.ZodType<UpdateHostWakeSchedu
   .strict()
   .refine((value) => Object.keys(value).length > 0, {
     message: 'At least one field must be provided',
+  })
+  .refine(
+    (value) =>
+      value.cronExpression === undefined || value.frequency === undefined || value.frequency === 'cron',
+    {
+      message: 'cronExpression is only allowed when frequency is cron',
+      path: ['cronExpression'],
+    },
+  )
+  .refine(
+    (value) => value.solar === undefined || value.frequency === undefined || value.frequency === 'solar',
+    {
+      message: 'solar is only allowed when frequency is solar',
+      path: ['solar'],
+    },
+  );
+
+const MAX_EXCEPTION_CALENDAR_DATES = 2000;
+/** Raw iCalendar payloads are bounded by the API body limit; this caps the string itself. */
+const MAX_EXCEPTION_CALENDAR_ICS_LENGTH = 90_000;
+
+const exceptionCalendarDatesInputSchema = z
+  .array(z.union([exceptionCalendarDateValueSchema, exceptionCalendarDateSchema]))
+  .max(MAX_EXCEPTION_CALENDAR_DATES);
+
+export const exceptionCalendarSchema: z.ZodType<ExceptionCalendar> = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    source: exceptionCalendarSourceSchema,
+    dates: z.array(exceptionCalendarDateSchema),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .strict();
+
+export const exceptionCalendarsResponseSchema: z.ZodType<ExceptionCalendarsResponse> = z
+  .object({
+    calendars: z.array(exceptionCalendarSchema),
+  })
+  .strict();
+
+export const createExceptionCalendarRequestSchema: z.ZodType<CreateExceptionCalendarRequest> = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(500).optional(),
+    dates: exceptionCalendarDatesInputSchema.optional(),
+    ics: z.string().min(1).max(MAX_EXCEPTION_CALENDAR_ICS_LENGTH).optional(),
+  })
+  .strict()
+  .refine((value) => (value.dates === undefined) !== (value.ics === undefined), {
+    message: 'Provide exactly one of dates or ics',
+    path: ['dates'],
+  });
+
+export const updateExceptionCalendarRequestSchema: z.ZodType<UpdateExceptionCalendarRequest> = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+    dates: exceptionCalendarDatesInputSchema.optional(),
+    ics: z.string().min(1).max(MAX_EXCEPTION_CALENDAR_ICS_LENGTH).optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  })
+  .refine((value) => value.dates === undefined || value.ics === undefined, {
+    message: 'Provide at most one of dates or ics',
+    path: ['dates'],
   });
 
 export const deleteHostWakeScheduleResponseSchema: z.ZodType<DeleteHostWakeScheduleResponse> = z
@@ -794,28 +1743,284 @@ export const hostUptimeSummarySchema: z.ZodType<HostUptimeSummary> = z
   })
   .strict();
 
+const hostFqnSchema = z.string().min(3).max(512).regex(/^[^@\s]+@[^@\s]+$/, {
+  message: 'Host FQN must use the hostname@location format',
+});
+
+const hostGroupFqnListSchema = z.array(hostFqnSchema).max(500).refine((fqns) => {
+  return new Set(fqns).size === fqns.length;
+}, 'Host group members must be unique');
+
+export const hostGroupActionSchema = z.enum(['wake', 'sleep', 'shutdown']);
+
+export const hostGroupSchema: z.ZodType<HostGroup> = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1).max(128),
+    description: z.string().max(1_000).nullable(),
+    hostFqns: z.array(hostFqnSchema),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .strict();
+
+export const hostGroupsResponseSchema: z.ZodType<HostGroupsResponse> = z
+  .object({
+    groups: z.array(hostGroupSchema),
+  })
+  .strict();
+
+export const createHostGroupRequestSchema: z.ZodType<CreateHostGroupRequest> = z
+  .object({
+    name: z.string().trim().min(1).max(128),
+    description: z.string().max(1_000).nullable().optional(),
+    hostFqns: hostGroupFqnListSchema,
+  })
+  .strict();
+
+export const updateHostGroupRequestSchema: z.ZodType<UpdateHostGroupRequest> = z
+  .object({
+    name: z.string().trim().min(1).max(128).optional(),
+    description: z.string().max(1_000).nullable().optional(),
+    hostFqns: hostGroupFqnListSchema.optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export const deleteHostGroupResponseSchema: z.ZodType<DeleteHostGroupResponse> = z
+  .object({
+    success: z.literal(true),
+    id: z.string().min(1),
+  })
+  .strict();
+
+export const wakeDependencyStepSchema: z.ZodType<WakeDependencyStep> = z
+  .object({
+    fqn: z.string().min(1),
+    role: z.enum(['prerequisite', 'target']),
+    status: z.enum(['already_awake', 'queued', 'sent', 'pending', 'confirmed', 'timeout', 'failed', 'skipped']),
+    nodeId: z.string().min(1).optional(),
+    commandId: z.string().min(1).optional(),
+    wakeVerification: wakeVerificationResultSchema.optional(),
+    error: z.string().optional(),
+  })
+  .strict();
+
+export const wakeDependencyJobSchema: z.ZodType<WakeDependencyJob> = z
+  .object({
+    jobId: z.string().min(1),
+    fqn: z.string().min(1),
+    state: z.enum(['running', 'completed', 'failed']),
+    prerequisites: z.array(z.string().min(1)),
+    steps: z.array(wakeDependencyStepSchema),
+    startedAt: z.string().datetime(),
+    completedAt: z.string().datetime().optional(),
+    error: z.string().optional(),
+    correlationId: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const hostActionItemStateSchema = z.enum([...commandStateSchema.options, 'pending']);
+
+export const hostGroupActionHostResultSchema: z.ZodType<HostGroupActionHostResult> = z
+  .object({
+    fqn: z.string().min(1),
+    state: hostActionItemStateSchema,
+    nodeId: z.string().min(1).optional(),
+    commandId: z.string().min(1).optional(),
+    message: z.string().optional(),
+    error: z.string().optional(),
+    dependencyJob: wakeDependencyJobSchema.optional(),
+  })
+  .strict();
+
+export const hostGroupActionJobSchema: z.ZodType<HostGroupActionJob> = z
+  .object({
+    jobId: z.string().min(1),
+    groupId: z.string().min(1),
+    action: hostGroupActionSchema,
+    state: z.enum(['completed', 'partial', 'failed']),
+    startedAt: z.string().datetime(),
+    completedAt: z.string().datetime(),
+    summary: z
+      .object({
+        total: z.number().int().nonnegative(),
+        succeeded: z.number().int().nonnegative(),
+        failed: z.number().int().nonnegative(),
+      })
+      .strict(),
+    results: z.array(hostGroupActionHostResultSchema),
+    correlationId: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const hostWakeDependenciesSchema: z.ZodType<HostWakeDependencies> = z
+  .object({
+    fqn: z.string().min(1),
+    dependsOn: z.array(z.string().min(1)),
+  })
+  .strict();
+
+export const updateHostWakeDependenciesRequestSchema: z.ZodType<UpdateHostWakeDependenciesRequest> = z
+  .object({
+    dependsOn: z.array(hostFqnSchema).max(32).refine((fqns) => {
+      return new Set(fqns).size === fqns.length;
+    }, 'Wake dependencies must be unique'),
+  })
+  .strict();
+
+export const hostWakeRelaySchema: z.ZodType<HostWakeRelay> = z
+  .object({
+    fqn: z.string().min(1),
+    relayNodeId: z.string().min(1),
+    targetAddress: z.ipv4(),
+    updatedAt: z.string().min(1),
+  })
+  .strict();
+
+export const updateHostWakeRelayRequestSchema: z.ZodType<UpdateHostWakeRelayRequest> = z
+  .object({
+    relayNodeId: z.string().min(1).max(255),
+    targetAddress: z.ipv4(),
+  })
+  .strict();
+
+export const hostBulkActionSchema = z.enum(['wake', 'ping', 'scan-ports', 'update', 'delete']);
+
+const hostBulkFqnListSchema = z.array(hostFqnSchema).min(1).max(200).refine((fqns) => {
+  return new Set(fqns).size === fqns.length;
+}, 'Bulk operation FQNs must be unique');
+
+export const hostBulkOperationRequestSchema: z.ZodType<HostBulkOperationRequest> = z.discriminatedUnion(
+  'action',
+  [
+    z
+      .object({
+        action: z.literal('wake'),
+        fqns: hostBulkFqnListSchema,
+        verify: z.boolean().optional(),
+      })
+      .strict(),
+    z.object({ action: z.literal('ping'), fqns: hostBulkFqnListSchema }).strict(),
+    z.object({ action: z.literal('scan-ports'), fqns: hostBulkFqnListSchema }).strict(),
+    z
+      .object({
+        action: z.literal('update'),
+        fqns: hostBulkFqnListSchema,
+        update: z
+          .object({
+            tags: hostTagsSchema.optional(),
+            notes: hostNotesSchema.optional(),
+          })
+          .strict()
+          .refine((value) => value.tags !== undefined || value.notes !== undefined, {
+            message: 'At least one of tags or notes must be provided',
+          }),
+      })
+      .strict(),
+    z.object({ action: z.literal('delete'), fqns: hostBulkFqnListSchema }).strict(),
+  ],
+);
+
+export const hostBulkOperationItemResultSchema: z.ZodType<HostBulkOperationItemResult> = z
+  .object({
+    fqn: z.string().min(1),
+    success: z.boolean(),
+    state: hostActionItemStateSchema,
+    nodeId: z.string().min(1).optional(),
+    commandId: z.string().min(1).optional(),
+    message: z.string().optional(),
+    error: z.string().optional(),
+    dependencyJob: wakeDependencyJobSchema.optional(),
+    ping: z
+      .object({
+        checkedAt: z.string().datetime(),
+        latencyMs: z.number().nonnegative(),
+        reachable: z.boolean(),
+        status: z.enum(['awake', 'asleep', 'unknown']),
+      })
+      .strict()
+      .optional(),
+    portScan: z
+      .object({
+        scannedAt: z.string().datetime(),
+        openPorts: z.array(hostPortSchema),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const hostBulkOperationResponseSchema: z.ZodType<HostBulkOperationResponse> = z
+  .object({
+    action: hostBulkActionSchema,
+    startedAt: z.string().datetime(),
+    completedAt: z.string().datetime(),
+    summary: z
+      .object({
+        total: z.number().int().nonnegative(),
+        succeeded: z.number().int().nonnegative(),
+        failed: z.number().int().nonnegative(),
+      })
+      .strict(),
+    results: z.array(hostBulkOperationItemResultSchema),
+    correlationId: z.string().min(1).optional(),
+  })
+  .strict();
+
 export const webhookEventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES);
 
+export const webhookFormatSchema = z.enum(WEBHOOK_FORMATS);
+
+const webhookTemplateSchema = z.string().trim().min(1).max(2000);
+
 export const webhookSubscriptionSchema: z.ZodType<WebhookSubscription> = z
   .object({
     id: z.string().min(1),
     url: z.string().url(),
     events: z.array(webhookEventTypeSchema).min(1),
     hasSecret: z.boolean(),
+    enabled: z.boolean(),
+    format: webhookFormatSchema,
+    template: z.string().nullable(),
     createdAt: z.string().datetime(),
     updatedAt: z.string().datetime(),
   })
   .strict();
 
+const uniqueWebhookEventsSchema = z.array(webhookEventTypeSchema).min(1).refine((events) => {
+  return new Set(events).size === events.length;
+}, 'Webhook events must be unique');
+
 export const createWebhookRequestSchema: z.ZodType<CreateWebhookRequest> = z
   .object({
     url: z.string().url(),
-    events: z.array(webhookEventTypeSchema).min(1).refine((events) => {
-      return new Set(events).size === events.length;
-    }, 'Webhook events must be unique'),
+    events: uniqueWebhookEventsSchema,
     secret: z.string().min(1).max(256).optional(),
+    format: webhookFormatSchema.optional(),
+    template: webhookTemplateSchema.optional(),
   })
-  .strict();
+  .strict()
+  .refine((value) => value.template === undefined || (value.format ?? 'raw') !== 'raw', {
+    message: 'Templates require a non-raw format',
+    path: ['template'],
+  });
+
+export const updateWebhookRequestSchema: z.ZodType<UpdateWebhookRequest> = z
+  .object({
+    url: z.string().url().optional(),
+    events: uniqueWebhookEventsSchema.optional(),
+    secret: z.string().min(1).max(256).nullable().optional(),
+    enabled: z.boolean().optional(),
+    format: webhookFormatSchema.optional(),
+    template: webhookTemplateSchema.nullable().optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
 
 export const webhooksResponseSchema: z.ZodType<WebhooksResponse> = z
   .object({
@@ -844,9 +2049,21 @@ export const webhookDeliveriesResponseSchema: z.ZodType<WebhookDeliveriesRespons
   })
   .strict();
 
+export const webhookDeliveryResultSchema: z.ZodType<WebhookDeliveryResult> = z
+  .object({
+    webhookId: z.string().min(1),
+    eventType: webhookEventTypeSchema,
+    status: z.enum(['success', 'failed']),
+    responseStatus: z.number().int().min(100).max(599).nullable(),
+    error: z.string().nullable(),
+  })
+  .strict();
+
 export const pushNotificationEventTypeSchema = z.enum(PUSH_NOTIFICATION_EVENT_TYPES);
 
-export const pushNotificationPlatformSchema = z.enum(['ios', 'android']);
+export const pushNotificationPlatformSchema = z.enum(PUSH_NOTIFICATION_PLATFORMS);
+
+export const apnsEnvironmentSchema = z.enum(['production', 'sandbox']);
 
 export const notificationQuietHoursSchema: z.ZodType<NotificationQuietHours> = z
   .object({
@@ -856,30 +2073,98 @@ export const notificationQuietHoursSchema: z.ZodType<NotificationQuietHours> = z
   })
   .strict();
 
+const uniqueNotificationEventsSchema = z.array(pushNotificationEventTypeSchema).refine((events) => {
+  return new Set(events).size === events.length;
+}, 'Push notification events must be unique');
+
+export const notificationRuleScopeSchema = z.enum(NOTIFICATION_RULE_SCOPES);
+
+export const notificationRuleSchema: z.ZodType<NotificationRule> = z
+  .object({
+    scope: notificationRuleScopeSchema,
+    target: z.string().trim().min(1).max(512),
+    events: uniqueNotificationEventsSchema,
+    digestMinutes: z.number().int().min(1).max(24 * 60).optional(),
+    asleepLongerThanMinutes: z.number().int().min(1).max(30 * 24 * 60).optional(),
+  })
+  .strict();
+
 export const notificationPreferencesSchema: z.ZodType<NotificationPreferences> = z
   .object({
     enabled: z.boolean(),
-    events: z.array(pushNotificationEventTypeSchema).min(1).refine((events) => {
-      return new Set(events).size === events.length;
-    }, 'Push notification events must be unique'),
+    events: uniqueNotificationEventsSchema,
     quietHours: notificationQuietHoursSchema.nullable().optional(),
+    rules: z.array(notificationRuleSchema).max(100).optional(),
+  })
+  .strict()
+  .refine((preferences) => preferences.events.length > 0 || (preferences.rules?.length ?? 0) > 0, {
+    message: 'At least one event is required unless rules are set',
+    path: ['events'],
+  });
+
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]+={0,2}$/, 'Must be base64url encoded');
+
+export const webPushSubscriptionKeysSchema: z.ZodType<WebPushSubscriptionKeys> = z
+  .object({
+    p256dh: base64UrlSchema.min(87).max(88),
+    auth: base64UrlSchema.min(22).max(24),
   })
   .strict();
 
+const NTFY_TOPIC_PATTERN = /^[-_A-Za-z0-9]{1,64}$/;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function isValidChannelToken(platform: PushNotificationPlatform, token: string): boolean {
+  switch (platform) {
+    case 'ios':
+    case 'android':
+      return token.length >= 8;
+    case 'web':
+      return isHttpUrl(token);
+    case 'ntfy':
+      return NTFY_TOPIC_PATTERN.test(token) || isHttpUrl(token);
+    case 'email':
+      return z.email().safeParse(token).success;
+  }
+}
+
 export const deviceRegistrationRequestSchema: z.ZodType<DeviceRegistrationRequest> = z
   .object({
     platform: pushNotificationPlatformSchema,
-    token: z.string().min(8).max(4096),
+    token: z.string().min(1).max(4096),
+    apnsEnvironment: apnsEnvironmentSchema.optional(),
+    webPushKeys: webPushSubscriptionKeysSchema.optional(),
     preferences: notificationPreferencesSchema.optional(),
   })
-  .strict();
+  .strict()
+  .refine((request) => isValidChannelToken(request.platform, request.token), {
+    message: 'Token must be an app token (ios, android), an endpoint URL (web), a topic (ntfy) or an address (email)',
+    path: ['token'],
+  })
+  .refine((request) => request.apnsEnvironment === undefined || request.platform === 'ios', {
+    message: 'apnsEnvironment is only valid for iOS devices',
+    path: ['apnsEnvironment'],
+  })
+  .refine((request) => (request.webPushKeys !== undefined) === (request.platform === 'web'), {
+    message: 'webPushKeys is required for web and only valid there',
+    path: ['webPushKeys'],
+  });
 
 export const deviceRegistrationSchema: z.ZodType<DeviceRegistration> = z
   .object({
     id: z.string().min(1),
     userId: z.string().min(1),
     platform: pushNotificationPlatformSchema,
-    token: z.string().min(8).max(4096),
+    token: z.string().min(1).max(4096),
+    apnsEnvironment: apnsEnvironmentSchema.optional(),
     createdAt: z.string().datetime(),
     updatedAt: z.string().datetime(),
     lastSeenAt: z.string().datetime(),
@@ -892,6 +2177,12 @@ export const devicesResponseSchema: z.ZodType<DevicesResponse> = z
   })
   .strict();
 
+export const webPushPublicKeyResponseSchema: z.ZodType<WebPushPublicKeyResponse> = z
+  .object({
+    publicKey: base64UrlSchema.min(1),
+  })
+  .strict();
+
 export const deviceDeregistrationResponseSchema: z.ZodType<DeviceDeregistrationResponse> = z
   .object({
     success: z.literal(true),
@@ -906,6 +2197,209 @@ export const notificationPreferencesResponseSchema: z.ZodType<NotificationPrefer
   })
   .strict();
 
+export const userRoleSchema = z.enum(['operator', 'admin']);
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .min(3)
+  .max(64)
+  .regex(/^[A-Za-z0-9._@-]+$/, 'Username may only contain letters, digits, ".", "_", "@" and "-"');
+
+export const userPasswordSchema = z.string().min(12).max(256);
+
+export const userAccountSchema: z.ZodType<UserAccount> = z
+  .object({
+    id: z.string().min(1),
+    username: z.string().min(1),
+    role: userRoleSchema,
+    disabled: z.boolean(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .strict();
+
+export const usersResponseSchema: z.ZodType<UsersResponse> = z
+  .object({
+    users: z.array(userAccountSchema),
+  })
+  .strict();
+
+export const createUserRequestSchema: z.ZodType<CreateUserRequest> = z
+  .object({
+    username: usernameSchema,
+    password: userPasswordSchema,
+    role: userRoleSchema.optional(),
+  })
+  .strict();
+
+export const updateUserRequestSchema: z.ZodType<UpdateUserRequest> = z
+  .object({
+    password: userPasswordSchema.optional(),
+    role: userRoleSchema.optional(),
+    disabled: z.boolean().optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export const loginRequestSchema: z.ZodType<LoginRequest> = z
+  .object({
+    username: z.string().trim().min(1).max(64),
+    password: z.string().min(1).max(256),
+  })
+  .strict();
+
+export const refreshSessionRequestSchema: z.ZodType<RefreshSessionRequest> = z
+  .object({
+    refreshToken: z.string().min(1).max(512),
+  })
+  .strict();
+
+export const authSessionResponseSchema: z.ZodType<AuthSessionResponse> = z
+  .object({
+    token: z.string().min(1),
+    expiresAt: z.string().datetime(),
+    refreshToken: z.string().min(1),
+    refreshExpiresAt: z.string().datetime(),
+    user: userAccountSchema,
+  })
+  .strict();
+
+export const oidcConfigResponseSchema: z.ZodType<OidcConfigResponse> = z
+  .object({
+    issuer: z.string().url(),
+    clientId: z.string().min(1),
+    authorizationEndpoint: z.string().url(),
+    scopes: z.array(z.string().min(1)),
+    codeChallengeMethod: z.literal('S256'),
+  })
+  .strict();
+
+export const oidcCodeExchangeRequestSchema: z.ZodType<OidcCodeExchangeRequest> = z
+  .object({
+    code: z.string().min(1).max(2048),
+    // RFC 7636: 43-128 characters from the unreserved set.
+    codeVerifier: z.string().regex(/^[A-Za-z0-9._~-]{43,128}$/, 'Invalid PKCE code verifier'),
+    redirectUri: z.string().url().max(2048),
+    nonce: z.string().min(1).max(256).optional(),
+  })
+  .strict();
+
+export const aclResourceTypeSchema = z.enum(['node', 'host']);
+
+export const resourcePermissionSchema = z.enum(['view', 'operate', 'owner']);
+
+export const resourceAclEntrySchema: z.ZodType<ResourceAclEntry> = z
+  .object({
+    resourceType: aclResourceTypeSchema,
+    resourceId: z.string().min(1),
+    userId: z.string().min(1),
+    username: z.string().min(1),
+    permission: resourcePermissionSchema,
+    createdAt: z.string().datetime(),
+  })
+  .strict();
+
+export const resourceAclResponseSchema: z.ZodType<ResourceAclResponse> = z
+  .object({
+    resourceType: aclResourceTypeSchema,
+    resourceId: z.string().min(1),
+    entries: z.array(resourceAclEntrySchema),
+  })
+  .strict();
+
+export const grantResourceAccessRequestSchema: z.ZodType<GrantResourceAccessRequest> = z
+  .object({
+    userId: z.string().min(1),
+    permission: resourcePermissionSchema,
+  })
+  .strict();
+
+export const apiKeyScopeSchema = z.enum(['hosts:read', 'hosts:wake', 'schedules:manage']);
+
+export const apiKeySchema: z.ZodType<ApiKey> = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    prefix: z.string().min(1),
+    scopes: z.array(apiKeyScopeSchema),
+    hostFqns: z.array(z.string().min(1)),
+    nodeIds: z.array(z.string().min(1)),
+    createdBy: z.string().min(1),
+    createdAt: z.string().datetime(),
+    expiresAt: z.string().datetime().nullable(),
+    lastUsedAt: z.string().datetime().nullable(),
+    revokedAt: z.string().datetime().nullable(),
+  })
+  .strict();
+
+export const apiKeysResponseSchema: z.ZodType<ApiKeysResponse> = z
+  .object({
+    apiKeys: z.array(apiKeySchema),
+  })
+  .strict();
+
+export const createApiKeyRequestSchema: z.ZodType<CreateApiKeyRequest> = z
+  .object({
+    name: z.string().trim().min(1).max(128),
+    scopes: z
+      .array(apiKeyScopeSchema)
+      .min(1)
+      .refine((scopes) => new Set(scopes).size === scopes.length, { message: 'Duplicate scopes are not allowed' }),
+    hostFqns: z.array(hostFqnSchema).max(500).optional(),
+    nodeIds: z.array(z.string().min(1).max(255)).max(100).optional(),
+    expiresAt: z
+      .string()
+      .datetime()
+      .refine((value) => Date.parse(value) > Date.now(), { message: 'expiresAt must be in the future' })
+      .optional(),
+  })
+  .strict();
+
+export const apiKeyUsageResponseSchema: z.ZodType<ApiKeyUsageResponse> = z
+  .object({
+    apiKeyId: z.string().min(1),
+    entries: z.array(
+      z
+        .object({
+          usedAt: z.string().datetime(),
+          method: z.string().min(1),
+          path: z.string().min(1),
+          ip: z.string().nullable(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export const auditOutcomeSchema = z.enum(['success', 'failure', 'denied']);
+
+export const auditLogEntrySchema: z.ZodType<AuditLogEntry> = z
+  .object({
+    id: z.number().int().positive(),
+    occurredAt: z.string().datetime(),
+    actor: z.string().min(1),
+    actorRole: z.string().nullable(),
+    action: z.string().min(1),
+    targetFqn: z.string().nullable(),
+    targetNodeId: z.string().nullable(),
+    correlationId: z.string().nullable(),
+    ip: z.string().nullable(),
+    outcome: auditOutcomeSchema,
+    statusCode: z.number().int().min(100).max(599),
+    details: z.record(z.string(), z.unknown()).nullable(),
+  })
+  .strict();
+
+export const auditLogResponseSchema: z.ZodType<AuditLogResponse> = z
+  .object({
+    entries: z.array(auditLogEntrySchema),
+    nextCursor: z.string().nullable(),
+  })
+  .strict();
+
 const nodeMetadataSchema = z.object({
   version: z.string().min(1),
   platform: z.string().min(1),
@@ -924,6 +2418,7 @@ const commandResultPayloadSchema = z.object({
   error: z.string().optional(),
   hostPing: hostPingResultSchema.optional(),
   hostPortScan: hostPortScanResultSchema.optional(),
+  hostPowerState: hostPowerStateResultSchema.optional(),
   wakeVerification: wakeVerificationResultSchema.optional(),
   timestamp: z.coerce.date(),
 });
@@ -1000,6 +2495,13 @@ export const inboundCncCommandSchema: z.ZodType<CncCommand> = z.discriminatedUni
       mac: z.string().min(1),
       wolPort: wolPortSchema.optional(),
       verify: wakeVerifyOptionsSchema.optional(),
+      targetAddress: z.ipv4().optional(),
+      relay: z
+        .object({
+          homeNodeId: z.string().min(1),
+          hostIp: z.string().min(1).optional(),
+        })
+        .optional(),
     }),
   }),
   z.object({
@@ -1034,6 +2536,9 @@ export const inboundCncCommandSchema: z.ZodType<CncCommand> = z.discriminatedUni
       notes: hostNotesSchema.optional(),
       tags: hostTagsSchema.optional(),
       powerControl: hostPowerControlSchema.nullable().optional(),
+      wakeStrategy: hostWakeStrategySchema.nullable().optional(),
+      secureOnPassword: secureOnPasswordSchema.nullable().optional(),
+      powerControlPassword: powerControlPasswordSchema.nullable().optional(),
     }),
   }),
   z.object({
@@ -1072,6 +2577,31 @@ export const inboundCncCommandSchema: z.ZodType<CncCommand> = z.discriminatedUni
       confirmation: z.literal('shutdown'),
     }),
   }),
+  z.object({
+    type: z.literal('power-host'),
+    commandId: z.string().min(1),
+    data: z
+      .object({
+        hostName: z.string().min(1),
+        mac: z.string().min(1),
+        ip: z.string().min(1),
+        action: hostOutOfBandPowerActionSchema,
+        confirmation: hostOutOfBandPowerActionSchema,
+      })
+      .refine((data) => data.confirmation === data.action, {
+        message: 'confirmation must match action',
+        path: ['confirmation'],
+      }),
+  }),
+  z.object({
+    type: z.literal('query-host-power'),
+    commandId: z.string().min(1),
+    data: z.object({
+      hostName: z.string().min(1),
+      mac: z.string().min(1),
+      ip: z.string().min(1),
+    }),
+  }),
   z.object({
     type: z.literal('ping'),
     data: z.object({